@@ -19,13 +19,18 @@ dotenv.config({ path: path.join(repoRoot, '.env') });
 
 const apiService = await import('../../src/lib/apiService.ts');
 const orderService = await import('../../src/lib/orderService.ts');
+const money = await import('../../src/lib/money.ts');
 
 const { getProducts, getProductById, getCategories } = apiService;
-const {
-  calculateSubtotal,
-  calculateDeliveryTotal,
-  calculateTotal
-} = orderService;
+const { getOrderQuote } = orderService;
+const { DEFAULT_CURRENCY } = money;
+
+// Prices are stored in the shop's base currency
+const baseCurrency = await apiService.getCurrencyConfig()
+  .then((config) => config.base_currency)
+  .catch(() => DEFAULT_CURRENCY);
+const formatMoney = (amount: number) => money.formatMoney(amount, baseCurrency);
+const formatPriceRange = (min: number, max?: number | null) => money.formatPriceRange(min, max, baseCurrency);
 
 type CartItem = {
   product: Product;
@@ -47,13 +52,13 @@ const server = new Server(
 );
 
 const buildProductSummary = (product: Product): string => {
-  const price = product.price_max ? `$${product.price}-$${product.price_max}` : `$${product.price}`;
+  const price = formatPriceRange(product.price, product.price_max);
   const availability = product.is_available ? 'in stock' : 'unavailable';
   return `${product.name} | ${price} | ${product.category} | ${availability} | id: ${product.id}`;
 };
 
 const renderProductCard = (product: Product): { markdown: string; card: Record<string, unknown> } => {
-  const price = product.price_max ? `$${product.price}-$${product.price_max}` : `$${product.price}`;
+  const price = formatPriceRange(product.price, product.price_max);
   const availability = product.is_available ? 'In stock' : 'Unavailable';
   const markdown = [
     `### ${product.name}`,
@@ -132,7 +137,7 @@ const renderProductList = (products: Product[], heading: string) => {
           },
           {
             type: 'TextBlock',
-            text: `${product.category} | $${product.price}`,
+            text: `${product.category} | ${formatMoney(product.price)}`,
             wrap: true,
             isSubtle: true
           },
@@ -151,7 +156,9 @@ const renderProductList = (products: Product[], heading: string) => {
   return { markdown, card };
 };
 
-const renderCart = (items: CartItem[]) => {
+// Totals come from quote_order, as at checkout, so shipping profiles, tax
+// and the shop's currency apply. Without an address delivery is to the UK.
+const renderCart = async (items: CartItem[]) => {
   if (items.length === 0) {
     return {
       markdown: '## Cart\nCart is empty.',
@@ -163,24 +170,23 @@ const renderCart = (items: CartItem[]) => {
     };
   }
 
-  const subtotal = calculateSubtotal(items);
-  const deliveryTotal = calculateDeliveryTotal(items);
-  const total = calculateTotal(items);
+  const quote = await getOrderQuote(items);
+  const { subtotal, deliveryTotal, taxTotal, total } = quote;
+  const taxLabel = quote.pricesIncludeTax ? 'Tax (included)' : 'Tax';
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
   const lines = items.map((item) => {
-    const price = item.product.price_max
-      ? `$${item.product.price}-$${item.product.price_max}`
-      : `$${item.product.price}`;
+    const price = formatPriceRange(item.product.price, item.product.price_max);
     return `- ${item.product.name} x${item.quantity} | ${price} | id: ${item.product.id}`;
   });
 
   const markdown = [
     '## Cart',
     ...lines,
-    `Subtotal: $${subtotal.toFixed(2)}`,
-    `Delivery: $${deliveryTotal.toFixed(2)}`,
-    `Total: $${total.toFixed(2)} (${itemCount} items)`
+    `Subtotal: ${formatMoney(subtotal)}`,
+    `Delivery (UK): ${formatMoney(deliveryTotal)}`,
+    ...(taxTotal > 0 ? [`${taxLabel}: ${formatMoney(taxTotal)}`] : []),
+    `Total: ${formatMoney(total)} (${itemCount} items)`
   ].join('\n');
 
   const card = {
@@ -199,7 +205,7 @@ const renderCart = (items: CartItem[]) => {
           },
           {
             type: 'TextBlock',
-            text: `$${item.product.price} | ${item.product.category}`,
+            text: `${formatMoney(item.product.price)} | ${item.product.category}`,
             isSubtle: true,
             wrap: true
           },
@@ -214,17 +220,22 @@ const renderCart = (items: CartItem[]) => {
       })),
       {
         type: 'TextBlock',
-        text: `Subtotal: $${subtotal.toFixed(2)}`,
+        text: `Subtotal: ${formatMoney(subtotal)}`,
         spacing: 'Large'
       },
       {
         type: 'TextBlock',
-        text: `Delivery: $${deliveryTotal.toFixed(2)}`,
+        text: `Delivery (UK): ${formatMoney(deliveryTotal)}`,
         spacing: 'None'
       },
+      ...(taxTotal > 0 ? [{
+        type: 'TextBlock',
+        text: `${taxLabel}: ${formatMoney(taxTotal)}`,
+        spacing: 'None'
+      }] : []),
       {
         type: 'TextBlock',
-        text: `Total: $${total.toFixed(2)} (${itemCount} items)`,
+        text: `Total: ${formatMoney(total)} (${itemCount} items)`,
         weight: 'Bolder',
         spacing: 'None'
       }
@@ -408,7 +419,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           cart.set(productId, { product, quantity });
         }
 
-        const { markdown, card } = renderCart(Array.from(cart.values()));
+        const { markdown, card } = await renderCart(Array.from(cart.values()));
         return {
           content: [
             {
@@ -445,7 +456,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           cart.set(productId, { product, quantity });
         }
 
-        const { markdown, card } = renderCart(Array.from(cart.values()));
+        const { markdown, card } = await renderCart(Array.from(cart.values()));
         return {
           content: [
             {
@@ -458,7 +469,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       case 'remove_from_cart': {
         const productId = String(args?.product_id ?? '');
         cart.delete(productId);
-        const { markdown, card } = renderCart(Array.from(cart.values()));
+        const { markdown, card } = await renderCart(Array.from(cart.values()));
         return {
           content: [
             {
@@ -469,7 +480,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
       case 'view_cart': {
-        const { markdown, card } = renderCart(Array.from(cart.values()));
+        const { markdown, card } = await renderCart(Array.from(cart.values()));
         return {
           content: [
             {
@@ -481,7 +492,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
       case 'clear_cart': {
         cart.clear();
-        const { markdown, card } = renderCart([]);
+        const { markdown, card } = await renderCart([]);
         return {
           content: [
             {
@@ -10,15 +10,29 @@ import { Contact } from './pages/Contact';
 import { PrivacyPolicy } from './pages/PrivacyPolicy';
 import { TermsOfService } from './pages/TermsOfService';
 import Orders from './pages/Orders';
+import { Account } from './pages/Account';
+import { GuestOrderLookup } from './pages/GuestOrderLookup';
 import { ProductDetails } from './pages/ProductDetails';
 import { Chat } from './pages/Chat';
+import { CommissionQuote } from './pages/CommissionQuote';
+import { Wishlist } from './pages/Wishlist';
 
 // Feature flag for AI chat
 const isChatEnabled = import.meta.env.VITE_ENABLE_AI_CHAT === 'true';
 
 function App() {
-  const [currentPage, setCurrentPage] = useState<'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'product-details' | 'chat'>('shop');
-  const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
+  // Quote emails link to /?commission=<token>, back in stock emails to
+  // /?product=<id> and shared wishlists to /?wishlist=<token>
+  const [linkParams] = useState(() => new URLSearchParams(window.location.search));
+  const commissionToken = linkParams.get('commission');
+  const wishlistToken = linkParams.get('wishlist');
+  const [currentPage, setCurrentPage] = useState<'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'account' | 'order-lookup' | 'product-details' | 'chat' | 'commission-quote' | 'wishlist'>(
+    commissionToken ? 'commission-quote'
+      : linkParams.get('product') ? 'product-details'
+      : wishlistToken ? 'wishlist'
+      : 'shop'
+  );
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(linkParams.get('product'));
 
   const renderPage = () => {
     const handleNavigation = (page: 'shop' | 'cart' | 'checkout') => {
@@ -52,6 +66,10 @@ function App() {
         return <Admin />;
       case 'orders':
         return <Orders />;
+      case 'account':
+        return <Account />;
+      case 'order-lookup':
+        return <GuestOrderLookup />;
       case 'about':
         return <About />;
       case 'contact':
@@ -60,6 +78,14 @@ function App() {
         return <PrivacyPolicy onNavigate={setCurrentPage} />;
       case 'terms-of-service':
         return <TermsOfService onNavigate={setCurrentPage} />;
+      case 'commission-quote':
+        return commissionToken ? (
+          <CommissionQuote accessToken={commissionToken} onNavigate={handleNavigation} />
+        ) : (
+          <Shop onViewProduct={handleProductView} />
+        );
+      case 'wishlist':
+        return <Wishlist shareToken={wishlistToken} onViewProduct={handleProductView} />;
       case 'chat':
         return isChatEnabled ? <Chat /> : <Shop onViewProduct={handleProductView} />;
       default:
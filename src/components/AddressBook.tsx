@@ -0,0 +1,371 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, Save, X, Star } from 'lucide-react';
+import { getCustomerAddresses, createCustomerAddress, updateCustomerAddress, deleteCustomerAddress } from '../lib/apiService';
+import { COUNTRIES, DEFAULT_COUNTRY, getCountry, normalizePostcode, validateAddress, formatAddressLines } from '../lib/addressConfig';
+import type { CustomerAddress, OrderAddress } from '../types/database';
+
+interface AddressFormData {
+  label: string;
+  fullName: string;
+  line1: string;
+  line2: string;
+  city: string;
+  region: string;
+  postcode: string;
+  country: string;
+  isDefault: boolean;
+}
+
+interface AddressFormProps {
+  address: CustomerAddress | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function AddressForm({ address, onSaved, onCancel }: AddressFormProps) {
+  const [formData, setFormData] = useState<AddressFormData>({
+    label: address?.label ?? '',
+    fullName: address?.full_name ?? '',
+    line1: address?.address.line1 ?? '',
+    line2: address?.address.line2 ?? '',
+    city: address?.address.city ?? '',
+    region: address?.address.region ?? '',
+    postcode: address?.address.postcode ?? '',
+    country: address?.address.country ?? DEFAULT_COUNTRY,
+    isDefault: address?.is_default ?? false
+  });
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const country = getCountry(formData.country);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const orderAddress: OrderAddress = {
+      line1: formData.line1.trim(),
+      line2: formData.line2.trim() || undefined,
+      city: formData.city.trim(),
+      region: formData.region.trim() || undefined,
+      postcode: normalizePostcode(formData.postcode, formData.country),
+      country: formData.country
+    };
+    const problems = validateAddress(orderAddress);
+    if (formData.fullName.trim().length < 2) {
+      problems.unshift('Name is required');
+    }
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    const input = {
+      label: formData.label.trim() || null,
+      full_name: formData.fullName.trim(),
+      address: orderAddress,
+      is_default: formData.isDefault
+    };
+
+    setSaving(true);
+    try {
+      if (address) {
+        await updateCustomerAddress(address.id, input);
+      } else {
+        await createCustomerAddress(input);
+      }
+      onSaved();
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Failed to save address']);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">{address ? 'Edit Address' : 'New Address'}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Label (optional)</label>
+          <input
+            type="text"
+            value={formData.label}
+            onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+            maxLength={50}
+            placeholder="Home, Work, Mum..."
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={formData.fullName}
+            onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+            maxLength={200}
+            required
+            autoComplete="name"
+            className={inputClass}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+          <select
+            value={formData.country}
+            onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+            className={`${inputClass} bg-white`}
+          >
+            {COUNTRIES.map(option => (
+              <option key={option.code} value={option.code}>{option.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+          <input
+            type="text"
+            value={formData.line1}
+            onChange={(e) => setFormData({ ...formData, line1: e.target.value })}
+            required
+            autoComplete="address-line1"
+            className={inputClass}
+          />
+          <input
+            type="text"
+            value={formData.line2}
+            onChange={(e) => setFormData({ ...formData, line2: e.target.value })}
+            autoComplete="address-line2"
+            placeholder="Flat, building, etc. (optional)"
+            className={`${inputClass} mt-2`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+          <input
+            type="text"
+            value={formData.city}
+            onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+            required
+            autoComplete="address-level2"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {country?.regionLabel ?? 'Region'}{!country?.regionRequired && ' (optional)'}
+          </label>
+          <input
+            type="text"
+            value={formData.region}
+            onChange={(e) => setFormData({ ...formData, region: e.target.value })}
+            required={country?.regionRequired}
+            autoComplete="address-level1"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            {country?.postcodeLabel ?? 'Postcode'}{country && !country.postcodeRequired && ' (optional)'}
+          </label>
+          <input
+            type="text"
+            value={formData.postcode}
+            onChange={(e) => setFormData({ ...formData, postcode: e.target.value })}
+            required={country?.postcodeRequired ?? true}
+            autoComplete="postal-code"
+            placeholder={country?.postcodePlaceholder}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={formData.isDefault}
+          onChange={(e) => setFormData({ ...formData, isDefault: e.target.checked })}
+          className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+        />
+        <span>Use this address by default at checkout</span>
+      </label>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-sm text-red-600">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Address'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * The signed-in customer's saved addresses. The default address is filled
+ * in at checkout.
+ */
+export function AddressBook() {
+  const [addresses, setAddresses] = useState<CustomerAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingAddress, setEditingAddress] = useState<CustomerAddress | 'new' | null>(null);
+
+  // Bumped to reload after saving or deleting
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadAddresses() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getCustomerAddresses();
+        if (!cancelled) setAddresses(data);
+      } catch {
+        if (!cancelled) setError('Failed to load your addresses');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadAddresses();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleSaved = () => {
+    setEditingAddress(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleMakeDefault = async (address: CustomerAddress) => {
+    try {
+      await updateCustomerAddress(address.id, {
+        label: address.label,
+        full_name: address.full_name,
+        address: address.address,
+        is_default: true
+      });
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update address');
+    }
+  };
+
+  const handleDelete = async (address: CustomerAddress) => {
+    if (!confirm(`Delete ${address.label ? `"${address.label}"` : 'this address'} from your address book?`)) return;
+
+    try {
+      await deleteCustomerAddress(address.id);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete address');
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-serif font-bold text-gray-900">Address Book</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Your default address is filled in for you at checkout.
+          </p>
+        </div>
+        {!editingAddress && (
+          <button
+            onClick={() => setEditingAddress('new')}
+            className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Address</span>
+          </button>
+        )}
+      </div>
+
+      {editingAddress && (
+        <AddressForm
+          address={editingAddress === 'new' ? null : editingAddress}
+          onSaved={handleSaved}
+          onCancel={() => setEditingAddress(null)}
+        />
+      )}
+
+      {loading && addresses.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-600"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : addresses.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          You have no saved addresses yet. You can save one here or after placing an order.
+        </p>
+      ) : (
+        <ul className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {addresses.map(address => (
+            <li key={address.id} className="bg-white rounded-lg shadow p-4 flex justify-between">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {address.label ?? address.full_name}
+                  {address.is_default && (
+                    <span className="ml-2 bg-rose-100 text-rose-700 px-2 py-0.5 rounded text-xs font-medium">Default</span>
+                  )}
+                </p>
+                {address.label && <p className="text-sm text-gray-600">{address.full_name}</p>}
+                {formatAddressLines(address.address).map(line => (
+                  <p key={line} className="text-sm text-gray-600">{line}</p>
+                ))}
+              </div>
+              <div className="flex flex-col space-y-2 ml-4">
+                {!address.is_default && (
+                  <button
+                    onClick={() => handleMakeDefault(address)}
+                    className="text-gray-500 hover:text-rose-600"
+                    title="Make default"
+                  >
+                    <Star className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => setEditingAddress(address)}
+                  className="text-gray-500 hover:text-rose-600"
+                  title="Edit"
+                >
+                  <Edit2 className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(address)}
+                  className="text-gray-500 hover:text-red-600"
+                  title="Delete"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
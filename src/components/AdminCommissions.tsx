@@ -0,0 +1,490 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Send, X, MessageSquare, Ban, Link as LinkIcon } from 'lucide-react';
+import { getCommissionRequests, quoteCommissionRequest, closeCommissionRequest, getCommissionImageUrls, publishCommissionImage, getShippingConfig } from '../lib/apiService';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { formatMoney } from '../lib/money';
+import type { AdminCommissionRequest, CommissionStatus, ShippingProfile } from '../types/database';
+
+interface QuoteFormData {
+  title: string;
+  price: string;
+  lead_time_days: string;
+  message: string;
+  image_url: string;
+  reference_image: string; // Reference image to publish as the picture, or ''
+  shipping_profile_id: string;
+  delivery_charge: string;
+  weight_grams: string;
+}
+
+const STATUS_LABELS: Record<CommissionStatus, string> = {
+  new: 'New',
+  quoted: 'Quoted',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  ordered: 'Ordered',
+  closed: 'Closed'
+};
+
+const STATUS_COLORS: Record<CommissionStatus, string> = {
+  new: 'bg-yellow-100 text-yellow-800',
+  quoted: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-purple-100 text-purple-800',
+  declined: 'bg-gray-100 text-gray-800',
+  ordered: 'bg-green-100 text-green-800',
+  closed: 'bg-gray-100 text-gray-800'
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-GB');
+
+const getQuoteLink = (request: AdminCommissionRequest) =>
+  `${window.location.origin}/?commission=${request.access_token}`;
+
+interface QuoteFormProps {
+  request: AdminCommissionRequest;
+  profiles: ShippingProfile[];
+  imageUrls: Record<string, string>;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function QuoteForm({ request, profiles, imageUrls, onSaved, onCancel }: QuoteFormProps) {
+  const { baseCurrency } = useCurrency();
+  const [formData, setFormData] = useState<QuoteFormData>({
+    title: request.quote_title ?? '',
+    price: request.quote_price?.toString() ?? '',
+    lead_time_days: request.quote_lead_time_days?.toString() ?? '0',
+    message: request.quote_message ?? '',
+    image_url: request.image_url ?? '',
+    reference_image: '',
+    shipping_profile_id: request.shipping_profile_id ?? '',
+    delivery_charge: request.delivery_charge?.toString() ?? '0',
+    weight_grams: request.weight_grams?.toString() ?? ''
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const price = parseFloat(formData.price);
+    if (isNaN(price) || price <= 0) {
+      setError('Price must be more than zero');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Reference images are private; the chosen one is copied to the product images
+      const imageUrl = formData.reference_image
+        ? await publishCommissionImage(formData.reference_image)
+        : formData.image_url;
+
+      await quoteCommissionRequest(request.id, {
+        title: formData.title.trim(),
+        price,
+        message: formData.message.trim() || null,
+        lead_time_days: parseInt(formData.lead_time_days) || 0,
+        image_url: imageUrl || null,
+        shipping_profile_id: formData.shipping_profile_id || null,
+        delivery_charge: parseFloat(formData.delivery_charge) || 0,
+        weight_grams: formData.weight_grams ? parseInt(formData.weight_grams) : null
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send quote');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-4 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">
+        {request.quote_title ? 'Send a New Quote' : 'Send Quote'}
+      </h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+          <input
+            type="text"
+            required
+            maxLength={200}
+            value={formData.title}
+            onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            placeholder="e.g. Custom sage green baby blanket"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Price ({baseCurrency})</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            required
+            value={formData.price}
+            onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lead time (working days)</label>
+          <input
+            type="number"
+            min="0"
+            max="365"
+            value={formData.lead_time_days}
+            onChange={(e) => setFormData({ ...formData, lead_time_days: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Shipping profile</label>
+          <select
+            value={formData.shipping_profile_id}
+            onChange={(e) => setFormData({ ...formData, shipping_profile_id: e.target.value })}
+            className={`${inputClass} bg-white`}
+          >
+            <option value="">Default</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Delivery charge</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={formData.delivery_charge}
+              onChange={(e) => setFormData({ ...formData, delivery_charge: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Weight (g)</label>
+            <input
+              type="number"
+              min="0"
+              value={formData.weight_grams}
+              onChange={(e) => setFormData({ ...formData, weight_grams: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Message to the customer (optional)</label>
+          <textarea
+            rows={3}
+            maxLength={2000}
+            value={formData.message}
+            onChange={(e) => setFormData({ ...formData, message: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        {request.reference_images.length > 0 && (
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Picture shown in the cart</label>
+            <div className="flex flex-wrap gap-3">
+              <button
+                type="button"
+                onClick={() => setFormData({ ...formData, image_url: '', reference_image: '' })}
+                className={`w-16 h-16 rounded-md border-2 text-xs text-gray-500 ${
+                  formData.image_url === '' && formData.reference_image === '' ? 'border-rose-500' : 'border-gray-200'
+                }`}
+              >
+                Shop logo
+              </button>
+              {request.reference_images.map(path => (
+                <button
+                  key={path}
+                  type="button"
+                  onClick={() => setFormData({ ...formData, image_url: '', reference_image: path })}
+                  className={`rounded-md border-2 ${formData.reference_image === path ? 'border-rose-500' : 'border-gray-200'}`}
+                >
+                  <img src={imageUrls[path]} alt="Reference" className="w-16 h-16 object-cover rounded" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-500">
+        The quote is emailed to {request.email} and stays open for 30 days. Postage is worked out at checkout.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Send className="w-4 h-4" />
+          <span>{saving ? 'Sending...' : 'Send Quote'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Admin inbox of commission requests. Quoting a request creates a one-off
+ * product the customer pays for through checkout from their quote link.
+ */
+export function AdminCommissions() {
+  const { baseCurrency } = useCurrency();
+  const [requests, setRequests] = useState<AdminCommissionRequest[]>([]);
+  const [profiles, setProfiles] = useState<ShippingProfile[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<CommissionStatus | ''>('');
+  const [expandedRequestId, setExpandedRequestId] = useState<string | null>(null);
+  const [quotingRequestId, setQuotingRequestId] = useState<string | null>(null);
+
+  // Bumped to reload after quoting or closing
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadRequests() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getCommissionRequests({ status: statusFilter || undefined });
+        if (!cancelled) setRequests(data);
+      } catch {
+        if (!cancelled) setError('Failed to load commission requests');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadRequests();
+    return () => {
+      cancelled = true;
+    };
+  }, [statusFilter, reloadKey]);
+
+  // Reference images are private; load signed URLs for the listed requests
+  useEffect(() => {
+    let cancelled = false;
+
+    getCommissionImageUrls(requests.flatMap(request => request.reference_images))
+      .then(urls => {
+        if (!cancelled) setImageUrls(urls);
+      })
+      .catch(error => console.error('Error loading reference images:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requests]);
+
+  useEffect(() => {
+    getShippingConfig()
+      .then(config => setProfiles(config.profiles))
+      .catch(error => console.error('Error loading shipping profiles:', error));
+  }, []);
+
+  const handleQuoted = () => {
+    setQuotingRequestId(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleClose = async (request: AdminCommissionRequest) => {
+    if (!confirm(`Close the request from ${request.full_name}? Any open quote can no longer be paid.`)) return;
+
+    try {
+      await closeCommissionRequest(request.id);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to close request');
+    }
+  };
+
+  const handleCopyLink = async (request: AdminCommissionRequest) => {
+    try {
+      await navigator.clipboard.writeText(getQuoteLink(request));
+    } catch {
+      prompt('Quote link:', getQuoteLink(request));
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Commissions</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Requests for custom pieces from the Contact page. Customers pay for a quote through the usual checkout.
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as CommissionStatus | '')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-rose-500"
+        >
+          <option value="">All requests</option>
+          {(Object.keys(STATUS_LABELS) as CommissionStatus[]).map(status => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && requests.length === 0 ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+        </div>
+      ) : requests.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {statusFilter ? 'No requests with this status.' : 'No commission requests yet.'}
+        </p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Request</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quote</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {requests.map(request => (
+                  <Fragment key={request.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{request.full_name}</div>
+                        <div className="text-sm text-gray-500">{request.email}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 max-w-xs truncate">{request.description}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {request.quote_price !== null ? formatMoney(request.quote_price, baseCurrency) : '—'}
+                        {request.order_number && <div className="text-gray-500">Order {request.order_number}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(request.created_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_COLORS[request.status]}`}>
+                          {STATUS_LABELS[request.status]}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => {
+                            setExpandedRequestId(expandedRequestId === request.id ? null : request.id);
+                            setQuotingRequestId(null);
+                          }}
+                          className="text-rose-600 hover:text-rose-900"
+                          title="Show request"
+                        >
+                          <MessageSquare className="w-5 h-5" />
+                        </button>
+                        {request.status !== 'closed' && request.status !== 'ordered' && (
+                          <button
+                            onClick={() => handleClose(request)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Close request"
+                          >
+                            <Ban className="w-5 h-5" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedRequestId === request.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50 space-y-4">
+                          <div className="space-y-2 text-sm text-gray-700">
+                            <p className="whitespace-pre-line">{request.description}</p>
+                            {request.budget && <p><span className="font-medium">Budget:</span> {request.budget}</p>}
+                            {request.colours && <p><span className="font-medium">Colours:</span> {request.colours}</p>}
+                            {request.reference_images.length > 0 && (
+                              <div className="flex flex-wrap gap-3">
+                                {request.reference_images.map(path => (
+                                  <a key={path} href={imageUrls[path]} target="_blank" rel="noopener noreferrer">
+                                    <img
+                                      src={imageUrls[path]}
+                                      alt="Reference"
+                                      className="w-24 h-24 object-cover rounded-md border border-gray-200"
+                                    />
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                            {request.quote_title && (
+                              <p>
+                                <span className="font-medium">Quoted:</span> {request.quote_title}
+                                {request.quote_expires_at && request.status === 'quoted' && ` (open until ${formatDate(request.quote_expires_at)})`}
+                              </p>
+                            )}
+                          </div>
+
+                          <div className="flex flex-wrap gap-3">
+                            {request.quote_title && (
+                              <button
+                                onClick={() => handleCopyLink(request)}
+                                className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+                              >
+                                <LinkIcon className="w-4 h-4" />
+                                <span>Copy Quote Link</span>
+                              </button>
+                            )}
+                            {request.status !== 'closed' && request.status !== 'ordered' && quotingRequestId !== request.id && (
+                              <button
+                                onClick={() => setQuotingRequestId(request.id)}
+                                className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors text-sm"
+                              >
+                                <Send className="w-4 h-4" />
+                                <span>{request.quote_title ? 'Change Quote' : 'Send Quote'}</span>
+                              </button>
+                            )}
+                          </div>
+
+                          {quotingRequestId === request.id && (
+                            <QuoteForm
+                              request={request}
+                              profiles={profiles}
+                              imageUrls={imageUrls}
+                              onSaved={handleQuoted}
+                              onCancel={() => setQuotingRequestId(null)}
+                            />
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+import { getCurrencyConfig, updateBaseCurrency, saveExchangeRate, deleteExchangeRate } from '../lib/apiService';
+import { CURRENCIES, convertAmount, formatMoney, getCurrency } from '../lib/money';
+import type { CurrencyCode, CurrencyConfig, ExchangeRate } from '../types/database';
+
+const currencyLabel = (code: CurrencyCode) => {
+  const info = getCurrency(code);
+  return info ? `${info.name} (${info.symbol})` : code;
+};
+
+interface ExchangeRateFormProps {
+  rate: ExchangeRate | null;
+  baseCurrency: CurrencyCode;
+  available: CurrencyCode[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function ExchangeRateForm({ rate, baseCurrency, available, onSaved, onCancel }: ExchangeRateFormProps) {
+  const [currency, setCurrency] = useState<CurrencyCode>(rate?.currency ?? available[0]);
+  const [value, setValue] = useState(rate?.rate.toString() ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed <= 0) {
+      setError('Rate must be greater than 0');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveExchangeRate(currency, parsed);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save exchange rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">{rate ? 'Edit Rate' : 'New Rate'}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+            disabled={!!rate}
+            className={`${inputClass} disabled:bg-gray-100`}
+          >
+            {(rate ? [rate.currency] : available).map(code => (
+              <option key={code} value={code}>{currencyLabel(code)}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Rate ({currency} per 1 {baseCurrency})
+          </label>
+          <input
+            type="number"
+            step="0.000001"
+            required
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Rate'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Admin editor for the base currency and exchange rates. Prices are entered
+ * in the base currency; customers can shop in any currency with a rate.
+ */
+export function AdminCurrencySettings() {
+  const [config, setConfig] = useState<CurrencyConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRate, setEditingRate] = useState<ExchangeRate | 'new' | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState<CurrencyCode>('GBP');
+  const [savingBase, setSavingBase] = useState(false);
+  const [baseMessage, setBaseMessage] = useState<string | null>(null);
+
+  // Bumped to reload after saving or deleting
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadConfig() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getCurrencyConfig();
+        if (!cancelled) {
+          setConfig(data);
+          setBaseCurrency(data.base_currency);
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load currency settings');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadConfig();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleSaveBase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBaseMessage(null);
+    setSavingBase(true);
+
+    try {
+      await updateBaseCurrency(baseCurrency);
+      setBaseMessage('Base currency saved. Check product prices and delivery rates are in the new currency.');
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setBaseMessage(err instanceof Error ? err.message : 'Failed to save base currency');
+    } finally {
+      setSavingBase(false);
+    }
+  };
+
+  const handleSaved = () => {
+    setEditingRate(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleDeleteRate = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the exchange rate for ${currencyLabel(rate.currency)}? Customers will no longer be able to pay in it.`)) return;
+
+    try {
+      await deleteExchangeRate(rate.currency);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete exchange rate');
+    }
+  };
+
+  if (loading && !config) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !config) {
+    return <p className="text-sm text-red-600">{error ?? 'Failed to load currency settings'}</p>;
+  }
+
+  // Currencies that can still be given a rate
+  const unrated = CURRENCIES
+    .map(currency => currency.code)
+    .filter(code => code !== config.base_currency && !config.rates.some(rate => rate.currency === code));
+
+  return (
+    <div className="space-y-10">
+      <section>
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Currency</h1>
+        <p className="text-sm text-gray-600 mt-1 mb-6">
+          Product prices, delivery rates and free delivery thresholds are entered in the base currency.
+        </p>
+
+        <form onSubmit={handleSaveBase} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <div className="max-w-xs">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Base Currency</label>
+            <select
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value as CurrencyCode)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            >
+              <option value={config.base_currency}>{currencyLabel(config.base_currency)}</option>
+              {config.rates.map(rate => (
+                <option key={rate.currency} value={rate.currency}>{currencyLabel(rate.currency)}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-500">
+            Changing the base currency recalculates the exchange rates but does not convert existing prices.
+          </p>
+
+          {baseMessage && <p className="text-sm text-gray-600">{baseMessage}</p>}
+
+          <button
+            type="submit"
+            disabled={savingBase || baseCurrency === config.base_currency}
+            className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{savingBase ? 'Saving...' : 'Save Base Currency'}</span>
+          </button>
+        </form>
+      </section>
+
+      <section>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Exchange Rates</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Customers can choose any currency with a rate. Orders keep the rate they were placed at.
+            </p>
+          </div>
+          {!editingRate && unrated.length > 0 && (
+            <button
+              onClick={() => setEditingRate('new')}
+              className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Rate</span>
+            </button>
+          )}
+        </div>
+
+        {editingRate && (
+          <ExchangeRateForm
+            key={editingRate === 'new' ? 'new' : editingRate.currency}
+            rate={editingRate === 'new' ? null : editingRate}
+            baseCurrency={config.base_currency}
+            available={unrated}
+            onSaved={handleSaved}
+            onCancel={() => setEditingRate(null)}
+          />
+        )}
+
+        {config.rates.length === 0 ? (
+          <p className="text-sm text-gray-500">No exchange rates yet. Prices are only shown in {currencyLabel(config.base_currency)}.</p>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Currency</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Example</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Updated</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {config.rates.map(rate => (
+                    <tr key={rate.currency}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{currencyLabel(rate.currency)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rate.rate}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatMoney(10, config.base_currency)} = {formatMoney(convertAmount(10, rate.rate), rate.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {new Date(rate.updated_at).toLocaleDateString('en-GB')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => setEditingRate(rate)}
+                          className="text-rose-600 hover:text-rose-900"
+                          title="Edit rate"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRate(rate)}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete rate"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+import { getDiscountCodes, createDiscountCode, updateDiscountCode, deleteDiscountCode, getProducts } from '../lib/apiService';
+import { DISCOUNT_TYPES, describeDiscount } from '../lib/discountCalculator';
+import { useCurrency } from '../contexts/CurrencyContext';
+import type { AdminDiscountCode, DiscountType, Product } from '../types/database';
+
+interface DiscountFormData {
+  code: string;
+  description: string;
+  discount_type: DiscountType;
+  value: string;
+  min_spend: string;
+  max_uses: string;
+  starts_at: string;
+  expires_at: string;
+  product_ids: string[];
+  categories: string[];
+  is_active: boolean;
+}
+
+// datetime-local inputs take local time without a timezone
+const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString('en-GB') : '-');
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+interface DiscountCodeFormProps {
+  discount: AdminDiscountCode | null;
+  products: Product[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function DiscountCodeForm({ discount, products, onSaved, onCancel }: DiscountCodeFormProps) {
+  const { baseCurrency } = useCurrency();
+  const [formData, setFormData] = useState<DiscountFormData>({
+    code: discount?.code ?? '',
+    description: discount?.description ?? '',
+    discount_type: discount?.discount_type ?? 'percentage',
+    value: discount?.value.toString() ?? '',
+    min_spend: discount?.min_spend?.toString() ?? '',
+    max_uses: discount?.max_uses?.toString() ?? '',
+    starts_at: toLocalInput(discount?.starts_at ?? null),
+    expires_at: toLocalInput(discount?.expires_at ?? null),
+    product_ids: discount?.product_ids ?? [],
+    categories: discount?.categories ?? [],
+    is_active: discount?.is_active ?? true
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const categories = Array.from(new Set(products.map(product => product.category))).sort();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const code = formData.code.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      setError('Code must be 3 to 32 letters, numbers, dashes or underscores');
+      return;
+    }
+
+    const value = formData.discount_type === 'free_delivery' ? 0 : parseFloat(formData.value);
+    if (formData.discount_type !== 'free_delivery' && (isNaN(value) || value <= 0)) {
+      setError('Value must be greater than 0');
+      return;
+    }
+    if (formData.discount_type === 'percentage' && value > 100) {
+      setError('Percentage cannot be more than 100');
+      return;
+    }
+
+    const minSpend = formData.min_spend ? parseFloat(formData.min_spend) : null;
+    if (minSpend !== null && (isNaN(minSpend) || minSpend < 0)) {
+      setError('Minimum spend cannot be negative');
+      return;
+    }
+
+    const maxUses = formData.max_uses ? parseInt(formData.max_uses, 10) : null;
+    if (maxUses !== null && (isNaN(maxUses) || maxUses < 1)) {
+      setError('Maximum uses must be at least 1');
+      return;
+    }
+
+    const startsAt = fromLocalInput(formData.starts_at);
+    const expiresAt = fromLocalInput(formData.expires_at);
+    if (startsAt && expiresAt && expiresAt <= startsAt) {
+      setError('The code must expire after it starts');
+      return;
+    }
+
+    const input = {
+      code,
+      description: formData.description.trim() || null,
+      discount_type: formData.discount_type,
+      value,
+      min_spend: minSpend,
+      max_uses: maxUses,
+      starts_at: startsAt,
+      expires_at: expiresAt,
+      product_ids: formData.product_ids,
+      categories: formData.categories,
+      is_active: formData.is_active
+    };
+
+    setSaving(true);
+    try {
+      if (discount) {
+        await updateDiscountCode(discount.id, input);
+      } else {
+        await createDiscountCode(input);
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save discount code');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">{discount ? 'Edit Discount Code' : 'New Discount Code'}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+          <input
+            type="text"
+            required
+            value={formData.code}
+            onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+            placeholder="SPRING10"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+          <input
+            type="text"
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            placeholder="Shown to customers when the code is applied"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+          <select
+            value={formData.discount_type}
+            onChange={(e) => setFormData({ ...formData, discount_type: e.target.value as DiscountType })}
+            className={inputClass}
+          >
+            {DISCOUNT_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {formData.discount_type !== 'free_delivery' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {formData.discount_type === 'percentage' ? 'Percentage (%)' : `Amount (${baseCurrency})`}
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              required
+              value={formData.value}
+              onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Minimum Spend ({baseCurrency}, optional)</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={formData.min_spend}
+            onChange={(e) => setFormData({ ...formData, min_spend: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Maximum Uses (optional)</label>
+          <input
+            type="number"
+            step="1"
+            min="1"
+            value={formData.max_uses}
+            onChange={(e) => setFormData({ ...formData, max_uses: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Starts (optional)</label>
+          <input
+            type="datetime-local"
+            value={formData.starts_at}
+            onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Expires (optional)</label>
+          <input
+            type="datetime-local"
+            value={formData.expires_at}
+            onChange={(e) => setFormData({ ...formData, expires_at: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">Categories</p>
+          <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+            {categories.map(category => (
+              <label key={category} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.categories.includes(category)}
+                  onChange={() => setFormData({ ...formData, categories: toggle(formData.categories, category) })}
+                  className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+                />
+                {category}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div>
+          <p className="block text-sm font-medium text-gray-700 mb-1">Products</p>
+          <div className="max-h-40 overflow-y-auto border border-gray-200 rounded-md p-2 space-y-1">
+            {products.map(product => (
+              <label key={product.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={formData.product_ids.includes(product.id)}
+                  onChange={() => setFormData({ ...formData, product_ids: toggle(formData.product_ids, product.id) })}
+                  className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+                />
+                {product.name}
+              </label>
+            ))}
+          </div>
+        </div>
+        <p className="text-sm text-gray-500 sm:col-span-2">
+          Leave both empty for the code to apply to everything. Otherwise it applies to the products ticked and everything in the categories ticked.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={formData.is_active}
+          onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+          className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+        />
+        Active
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Code'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Admin editor for discount codes. Codes are checked and taken off by
+ * create_order; orders keep the code and the amount it took off.
+ */
+export function AdminDiscountCodes() {
+  const { baseCurrency } = useCurrency();
+  const [discounts, setDiscounts] = useState<AdminDiscountCode[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingDiscount, setEditingDiscount] = useState<AdminDiscountCode | 'new' | null>(null);
+
+  // Bumped to reload after saving or deleting
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadDiscounts() {
+      try {
+        setLoading(true);
+        setError(null);
+        const [discountData, productData] = await Promise.all([
+          getDiscountCodes(),
+          getProducts({ limit: 1000 })
+        ]);
+        if (!cancelled) {
+          setDiscounts(discountData);
+          setProducts(productData);
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load discount codes');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadDiscounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleSaved = () => {
+    setEditingDiscount(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleDelete = async (discount: AdminDiscountCode) => {
+    if (!confirm(`Delete the discount code ${discount.code}? Orders that used it keep the discount they were given.`)) return;
+
+    try {
+      await deleteDiscountCode(discount.id);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete discount code');
+    }
+  };
+
+  if (loading && discounts.length === 0) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Discount Codes</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Customers enter codes in the cart or at checkout. Discounts are taken off before tax.
+          </p>
+        </div>
+        {!editingDiscount && (
+          <button
+            onClick={() => setEditingDiscount('new')}
+            className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Add Code</span>
+          </button>
+        )}
+      </div>
+
+      {editingDiscount && (
+        <DiscountCodeForm
+          key={editingDiscount === 'new' ? 'new' : editingDiscount.id}
+          discount={editingDiscount === 'new' ? null : editingDiscount}
+          products={products}
+          onSaved={handleSaved}
+          onCancel={() => setEditingDiscount(null)}
+        />
+      )}
+
+      {discounts.length === 0 ? (
+        <p className="text-sm text-gray-500">No discount codes yet.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Used</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Valid</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {discounts.map(discount => (
+                  <tr key={discount.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{discount.code}</div>
+                      {discount.description && <div className="text-sm text-gray-500">{discount.description}</div>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{describeDiscount(discount, baseCurrency)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {discount.times_used}{discount.max_uses !== null ? ` / ${discount.max_uses}` : ''}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDate(discount.starts_at)} to {formatDate(discount.expires_at)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        discount.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {discount.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => setEditingDiscount(discount)}
+                        className="text-rose-600 hover:text-rose-900"
+                        title="Edit code"
+                      >
+                        <Edit2 className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(discount)}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete code"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
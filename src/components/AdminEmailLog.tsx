@@ -0,0 +1,287 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Send } from 'lucide-react';
+import { getEmailOutbox, getEmailDeliveries, retryEmail, sendPendingEmails } from '../lib/apiService';
+import type { EmailOutboxEntry, EmailDelivery, EmailTemplate } from '../types/database';
+
+const TEMPLATE_LABELS: Record<EmailTemplate, string> = {
+  order_confirmation: 'Order confirmation',
+  payment_received: 'Payment received',
+  order_shipped: 'Order shipped',
+  order_cancelled: 'Order cancelled',
+  commission_received: 'Commission request received',
+  commission_quote: 'Commission quote',
+  back_in_stock: 'Back in stock'
+};
+
+const EMAIL_STATUS_COLORS: Record<EmailOutboxEntry['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  sending: 'bg-blue-100 text-blue-800 border-blue-200',
+  sent: 'bg-green-100 text-green-800 border-green-200',
+  failed: 'bg-red-100 text-red-800 border-red-200'
+};
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+function EmailDeliveryHistory({ emailId, attempts }: { emailId: string; attempts: number }) {
+  const [deliveries, setDeliveries] = useState<EmailDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadDeliveries() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getEmailDeliveries(emailId);
+        if (!cancelled) setDeliveries(data);
+      } catch {
+        if (!cancelled) setError('Failed to load delivery attempts');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadDeliveries();
+    return () => {
+      cancelled = true;
+    };
+  }, [emailId, attempts]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center py-2">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-500">No delivery attempts yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="text-sm">
+          <span className={delivery.succeeded ? 'text-green-700' : 'text-red-700'}>
+            Attempt {delivery.attempt} {delivery.succeeded ? 'delivered' : 'failed'}
+          </span>
+          <span className="text-gray-500"> · {formatDateTime(delivery.created_at)} via {delivery.transport}</span>
+          {delivery.error && <p className="text-xs text-red-600">{delivery.error}</p>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AdminEmailLog() {
+  const [emails, setEmails] = useState<EmailOutboxEntry[]>([]);
+  const [statusFilter, setStatusFilter] = useState<EmailOutboxEntry['status'] | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedEmailId, setExpandedEmailId] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sendSummary, setSendSummary] = useState<string | null>(null);
+
+  // Bumped to reload the log after sending or retrying
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadEmails() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getEmailOutbox(statusFilter || undefined);
+        if (!cancelled) setEmails(data);
+      } catch {
+        if (!cancelled) setError('Failed to load email log');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadEmails();
+    return () => {
+      cancelled = true;
+    };
+  }, [statusFilter, reloadKey]);
+
+  const handleSendNow = async () => {
+    setSending(true);
+    setSendSummary(null);
+    try {
+      const result = await sendPendingEmails();
+      setSendSummary(
+        result.claimed === 0
+          ? 'No emails were due to send.'
+          : `Sent ${result.sent} of ${result.claimed} emails${result.failed > 0 ? `, ${result.failed} will be retried` : ''}.`
+      );
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setSendSummary(err instanceof Error ? err.message : 'Failed to send emails');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleRetry = async (email: EmailOutboxEntry) => {
+    if (email.status === 'sent' && !confirm(`Send the ${TEMPLATE_LABELS[email.template].toLowerCase()} email to ${email.recipient} again?`)) {
+      return;
+    }
+
+    try {
+      await retryEmail(email.id);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to retry email');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Email Log</h1>
+        <div className="flex items-center gap-3">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as EmailOutboxEntry['status'] | '')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+          >
+            <option value="">All emails</option>
+            <option value="pending">Pending</option>
+            <option value="sending">Sending</option>
+            <option value="sent">Sent</option>
+            <option value="failed">Failed</option>
+          </select>
+          <button
+            onClick={handleSendNow}
+            disabled={sending}
+            className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+          >
+            <Send className="w-4 h-4" />
+            <span>{sending ? 'Sending...' : 'Send Due Emails'}</span>
+          </button>
+        </div>
+      </div>
+
+      {sendSummary && <p className="text-sm text-gray-600 mb-4">{sendSummary}</p>}
+
+      {loading ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : emails.length === 0 ? (
+        <p className="text-sm text-gray-500">No emails found.</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Email
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Order
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Attempts
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Queued
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {emails.map((email) => (
+                  <Fragment key={email.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{TEMPLATE_LABELS[email.template]}</div>
+                        <div className="text-sm text-gray-500">{email.recipient}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {email.order_number ?? (email.stock_notification_id ? email.product_name : 'Commission request')}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span
+                          className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border capitalize ${EMAIL_STATUS_COLORS[email.status]}`}
+                        >
+                          {email.status}
+                        </span>
+                        {email.status === 'sent' && email.sent_at && (
+                          <p className="text-xs text-gray-500 mt-1">{formatDateTime(email.sent_at)}</p>
+                        )}
+                        {email.status === 'pending' && email.attempts > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">Next try {formatDateTime(email.next_attempt_at)}</p>
+                        )}
+                        {email.status !== 'sent' && email.last_error && (
+                          <p className="text-xs text-red-600 mt-1 max-w-xs truncate" title={email.last_error}>
+                            {email.last_error}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {email.attempts} / {email.max_attempts}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {formatDateTime(email.created_at)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                        {email.status !== 'sending' && (email.status !== 'pending' || email.attempts > 0) && (
+                          <button
+                            onClick={() => handleRetry(email)}
+                            className="text-rose-600 hover:text-rose-900 text-sm"
+                          >
+                            {email.status === 'sent' ? 'Resend' : 'Retry Now'}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setExpandedEmailId(expandedEmailId === email.id ? null : email.id)}
+                          className="text-rose-600 hover:text-rose-900 text-sm"
+                        >
+                          {expandedEmailId === email.id ? 'Hide Attempts' : 'View Attempts'}
+                        </button>
+                      </td>
+                    </tr>
+                    {expandedEmailId === email.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                          <EmailDeliveryHistory emailId={email.id} attempts={email.attempts} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Plus, Save, X, Search, List, Ban } from 'lucide-react';
+import { getGiftCards, getGiftCardTransactions, issueGiftCard, voidGiftCard } from '../lib/apiService';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { formatMoney } from '../lib/money';
+import type { AdminGiftCard, CurrencyCode, GiftCardTransaction } from '../types/database';
+
+interface GiftCardFormData {
+  amount: string;
+  currency: CurrencyCode;
+  recipient_email: string;
+  note: string;
+}
+
+const TRANSACTION_LABELS: Record<GiftCardTransaction['kind'], string> = {
+  issue: 'Issued',
+  redeem: 'Spent',
+  refund: 'Refunded',
+  void: 'Voided'
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-GB');
+
+interface IssueGiftCardFormProps {
+  onIssued: (code: string) => void;
+  onCancel: () => void;
+}
+
+function IssueGiftCardForm({ onIssued, onCancel }: IssueGiftCardFormProps) {
+  const { currencies, baseCurrency } = useCurrency();
+  const [formData, setFormData] = useState<GiftCardFormData>({
+    amount: '',
+    currency: baseCurrency,
+    recipient_email: '',
+    note: ''
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const amount = parseFloat(formData.amount);
+    if (isNaN(amount) || amount <= 0) {
+      setError('Amount must be more than zero');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const code = await issueGiftCard({
+        amount,
+        currency: formData.currency,
+        recipient_email: formData.recipient_email.trim() || null,
+        note: formData.note.trim() || null
+      });
+      onIssued(code);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue gift card');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">Issue Gift Card</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            required
+            value={formData.amount}
+            onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Currency</label>
+          <select
+            value={formData.currency}
+            onChange={(e) => setFormData({ ...formData, currency: e.target.value as CurrencyCode })}
+            className={inputClass}
+          >
+            {currencies.map(currency => (
+              <option key={currency} value={currency}>{currency}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Recipient Email (optional)</label>
+          <input
+            type="email"
+            value={formData.recipient_email}
+            onChange={(e) => setFormData({ ...formData, recipient_email: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Note (optional)</label>
+          <input
+            type="text"
+            value={formData.note}
+            onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+            placeholder="Why the card was issued"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        The card can only pay for orders in the currency it is issued in. Send the code to the customer yourself.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Issuing...' : 'Issue Card'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function GiftCardLedger({ giftCard }: { giftCard: AdminGiftCard }) {
+  const [transactions, setTransactions] = useState<GiftCardTransaction[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getGiftCardTransactions(giftCard.id)
+      .then(data => {
+        if (!cancelled) setTransactions(data);
+      })
+      .catch(error => console.error('Error loading gift card transactions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [giftCard.id]);
+
+  if (!transactions) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1">
+        {transactions.map(transaction => (
+          <li key={transaction.id} className="flex flex-wrap gap-x-4 text-sm text-gray-700">
+            <span className="w-24 text-gray-500">{formatDate(transaction.created_at)}</span>
+            <span className="w-20 font-medium">{TRANSACTION_LABELS[transaction.kind]}</span>
+            <span className={`w-24 ${transaction.amount < 0 ? 'text-red-600' : 'text-green-700'}`}>
+              {formatMoney(transaction.amount, giftCard.currency)}
+            </span>
+            {transaction.order_number && <span>Order {transaction.order_number}</span>}
+            {transaction.note && <span className="text-gray-500">{transaction.note}</span>}
+          </li>
+        ))}
+      </ul>
+      {giftCard.void_reason && (
+        <p className="text-sm text-gray-500">Voided because: {giftCard.void_reason}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Admin list of gift cards, bought or issued by hand. Cards bought on an
+ * order are issued when it is paid; admins can issue cards and void them.
+ */
+export function AdminGiftCards() {
+  const [giftCards, setGiftCards] = useState<AdminGiftCard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [issuing, setIssuing] = useState(false);
+  const [issuedCode, setIssuedCode] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [expandedCardId, setExpandedCardId] = useState<string | null>(null);
+
+  // Bumped to reload after issuing or voiding
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadGiftCards() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getGiftCards({ search });
+        if (!cancelled) setGiftCards(data);
+      } catch {
+        if (!cancelled) setError('Failed to load gift cards');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadGiftCards();
+    return () => {
+      cancelled = true;
+    };
+  }, [search, reloadKey]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearch(searchInput.trim());
+  };
+
+  const handleIssued = (code: string) => {
+    setIssuing(false);
+    setIssuedCode(code);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleVoid = async (giftCard: AdminGiftCard) => {
+    const reason = prompt(`Void the gift card ${giftCard.code}? Its remaining balance of ${formatMoney(giftCard.balance, giftCard.currency)} can no longer be spent.\n\nReason (optional):`);
+    if (reason === null) return;
+
+    try {
+      await voidGiftCard(giftCard.id, reason.trim());
+      setExpandedCardId(null);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to void gift card');
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Gift Cards</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Cards bought in the shop are issued when the order is paid. Customers spend them at checkout.
+          </p>
+        </div>
+        {!issuing && (
+          <button
+            onClick={() => {
+              setIssuing(true);
+              setIssuedCode(null);
+            }}
+            className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+          >
+            <Plus className="w-5 h-5" />
+            <span>Issue Gift Card</span>
+          </button>
+        )}
+      </div>
+
+      {issuing && (
+        <IssueGiftCardForm onIssued={handleIssued} onCancel={() => setIssuing(false)} />
+      )}
+
+      {issuedCode && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 text-sm text-green-800">
+          Gift card issued: <span className="font-mono font-semibold">{issuedCode}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleSearch} className="flex gap-2 mb-6">
+        <div className="relative flex-grow">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search by code, email or order number"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-rose-500"
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg text-sm font-medium transition-colors"
+        >
+          Search
+        </button>
+      </form>
+
+      {loading && giftCards.length === 0 ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+        </div>
+      ) : giftCards.length === 0 ? (
+        <p className="text-sm text-gray-500">{search ? 'No gift cards match your search.' : 'No gift cards yet.'}</p>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">From</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Issued</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {giftCards.map(giftCard => (
+                  <Fragment key={giftCard.id}>
+                    <tr>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-mono font-medium text-gray-900">{giftCard.code}</div>
+                        {giftCard.recipient_email && <div className="text-sm text-gray-500">{giftCard.recipient_email}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatMoney(giftCard.balance, giftCard.currency)}
+                        <span className="text-gray-500"> of {formatMoney(giftCard.initial_value, giftCard.currency)}</span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {giftCard.order_number ? `Order ${giftCard.order_number}` : giftCard.note || 'Issued by admin'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatDate(giftCard.created_at)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          giftCard.voided_at ? 'bg-gray-100 text-gray-800' : 'bg-green-100 text-green-800'
+                        }`}>
+                          {giftCard.voided_at ? 'Voided' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => setExpandedCardId(expandedCardId === giftCard.id ? null : giftCard.id)}
+                          className="text-rose-600 hover:text-rose-900"
+                          title="Show transactions"
+                        >
+                          <List className="w-5 h-5" />
+                        </button>
+                        {!giftCard.voided_at && (
+                          <button
+                            onClick={() => handleVoid(giftCard)}
+                            className="text-red-600 hover:text-red-900"
+                            title="Void card"
+                          >
+                            <Ban className="w-5 h-5" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedCardId === giftCard.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                          <GiftCardLedger giftCard={giftCard} />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react';
+import { Save } from 'lucide-react';
+import { getGiftOptions, updateGiftOptions } from '../lib/apiService';
+import { TAX_CLASSES } from '../lib/taxCalculator';
+import { useCurrency } from '../contexts/CurrencyContext';
+import type { TaxClass } from '../types/database';
+
+/**
+ * Admin editor for gift wrapping. When enabled, customers sending an order
+ * as a gift can have it wrapped for a charge added to the order once.
+ */
+export function AdminGiftWrapSettings() {
+  const { baseCurrency } = useCurrency();
+  const [loading, setLoading] = useState(true);
+  const [enabled, setEnabled] = useState(false);
+  const [charge, setCharge] = useState('');
+  const [taxClass, setTaxClass] = useState<TaxClass>('standard');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadOptions() {
+      try {
+        const data = await getGiftOptions();
+        if (!cancelled) {
+          setEnabled(data.gift_wrap_enabled);
+          setCharge(data.gift_wrap_charge.toFixed(2));
+          setTaxClass(data.gift_wrap_tax_class);
+        }
+      } catch {
+        if (!cancelled) setMessage('Failed to load gift wrapping settings');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadOptions();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    const amount = parseFloat(charge || '0');
+    if (isNaN(amount) || amount < 0) {
+      setMessage('Charge must be zero or more');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateGiftOptions({ gift_wrap_enabled: enabled, gift_wrap_charge: amount, gift_wrap_tax_class: taxClass });
+      setMessage('Gift wrapping settings saved');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Failed to save gift wrapping settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <section>
+      <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Gift Wrapping</h2>
+      <p className="text-sm text-gray-600 mt-1 mb-6">
+        Offered at checkout on orders sent as gifts. The charge is added once per order and is never discounted.
+      </p>
+
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            disabled={loading}
+            className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+          />
+          <span>Offer gift wrapping</span>
+        </label>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-lg">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Charge ({baseCurrency})</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={charge}
+              onChange={(e) => setCharge(e.target.value)}
+              disabled={loading}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tax Class</label>
+            <select
+              value={taxClass}
+              onChange={(e) => setTaxClass(e.target.value as TaxClass)}
+              disabled={loading}
+              className={inputClass}
+            >
+              {TAX_CLASSES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+
+        <button
+          type="submit"
+          disabled={loading || saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Settings'}</span>
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import type { Order } from '../types/database';
+
+interface AdminLinkPaymentFormProps {
+  order: Order;
+  onLinkPayment: (order: Order, paymentMethod: 'card' | 'paypal', paymentId: string) => Promise<void>;
+}
+
+const PAYMENT_ID_PLACEHOLDERS: Record<'card' | 'paypal', string> = {
+  paypal: 'PayPal order or transaction ID',
+  card: 'Stripe payment intent ID (pi_...)'
+};
+
+/**
+ * Links a payment the provider took but that never reached this order, e.g.
+ * when the customer's browser closed before checkout finished. The payment
+ * is checked with Stripe / PayPal before the order is marked paid.
+ */
+export function AdminLinkPaymentForm({ order, onLinkPayment }: AdminLinkPaymentFormProps) {
+  const [paymentMethod, setPaymentMethod] = useState<'card' | 'paypal'>(order.payment_method === 'paypal' ? 'paypal' : 'card');
+  const [paymentId, setPaymentId] = useState('');
+  const [linking, setLinking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!paymentId.trim()) return;
+
+    setLinking(true);
+    try {
+      await onLinkPayment(order, paymentMethod, paymentId.trim());
+      setPaymentId('');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Payment taken but order still pending? Enter the payment reference to check it and mark the order paid.
+      </p>
+      <select
+        value={paymentMethod}
+        onChange={(e) => setPaymentMethod(e.target.value as 'card' | 'paypal')}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+      >
+        <option value="paypal">PayPal</option>
+        <option value="card">Card (Stripe)</option>
+      </select>
+      <input
+        type="text"
+        value={paymentId}
+        onChange={(e) => setPaymentId(e.target.value)}
+        placeholder={PAYMENT_ID_PLACEHOLDERS[paymentMethod]}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+      />
+      <button
+        type="submit"
+        disabled={!paymentId.trim() || linking}
+        className="w-full bg-white border border-rose-600 text-rose-600 hover:bg-rose-50 disabled:border-gray-400 disabled:text-gray-400 text-sm font-medium py-2 rounded-lg transition-colors"
+      >
+        {linking ? 'Checking Payment...' : 'Link Payment'}
+      </button>
+    </form>
+  );
+}
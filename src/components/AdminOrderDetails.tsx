@@ -0,0 +1,265 @@
+import { useEffect, useState } from 'react';
+import { Gift } from 'lucide-react';
+import {
+  getOrderItems,
+  formatOrderAddress,
+  formatOrderItemSelections,
+  formatOrderStatus,
+  getNextOrderStatuses,
+  hasInvoice
+} from '../lib/orderService';
+import { formatMoney } from '../lib/money';
+import { formatEstimateDate, isDispatchOverdue } from '../lib/leadTime';
+import { OrderStatusTimeline } from './OrderStatusTimeline';
+import { OrderShipments } from './OrderShipments';
+import { AdminRefundPanel } from './AdminRefundPanel';
+import { AdminLinkPaymentForm } from './AdminLinkPaymentForm';
+import { OrderDocumentButtons } from './OrderDocumentButtons';
+import { OrderGiftCards } from './OrderGiftCards';
+import type { Order, OrderItem, OrderAddress } from '../types/database';
+
+interface AdminOrderDetailsProps {
+  order: Order;
+  onUpdateStatus: (orderId: string, status: Order['status'], note?: string) => Promise<void>;
+  onRefund: (orderId: string, amount?: number, reason?: string) => Promise<void>;
+  onLinkPayment: (order: Order, paymentMethod: 'card' | 'paypal', paymentId: string) => Promise<void>;
+}
+
+export function AdminOrderDetails({ order, onUpdateStatus, onRefund, onLinkPayment }: AdminOrderDetailsProps) {
+  const [items, setItems] = useState<OrderItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const nextStatuses = getNextOrderStatuses(order.status);
+  const [newStatus, setNewStatus] = useState<Order['status'] | ''>('');
+  const [statusNote, setStatusNote] = useState('');
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+  const isGift = Boolean(order.recipient_name || order.gift_wrap || order.gift_message || order.hide_prices);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadItems() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getOrderItems(order.id);
+        if (!cancelled) setItems(data);
+      } catch {
+        if (!cancelled) setError('Failed to load order items');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadItems();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id]);
+
+  const handleStatusSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStatus) return;
+
+    setUpdatingStatus(true);
+    try {
+      await onUpdateStatus(order.id, newStatus, statusNote.trim() || undefined);
+      setNewStatus('');
+      setStatusNote('');
+    } finally {
+      setUpdatingStatus(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="md:col-span-2">
+        <h4 className="text-sm font-semibold text-gray-900 mb-3">Items</h4>
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-rose-600"></div>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500">No items found for this order.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {items.map((item) => (
+              <li key={item.id} className="py-2 flex justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{item.product_name}</p>
+                  {item.custom_selections && item.custom_selections.length > 0 && (
+                    <p className="text-xs text-gray-600">{formatOrderItemSelections(item)}</p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Quantity: {item.quantity} × {formatMoney(item.product_price, order.currency)}
+                  </p>
+                </div>
+                <p className="text-sm font-medium text-gray-900">
+                  {formatMoney(item.product_price * item.quantity, order.currency)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-3">Delivery Address</h4>
+        <p className="text-sm text-gray-600">{order.recipient_name ?? order.full_name}</p>
+        <p className="text-sm text-gray-600">
+          {formatOrderAddress(order.address as unknown as OrderAddress)}
+        </p>
+        {order.recipient_name && (
+          <p className="text-xs text-gray-500 mt-1">Ordered by {order.full_name}</p>
+        )}
+        {order.dispatch_by && (
+          <p className={`text-sm mt-2 ${isDispatchOverdue(order) ? 'font-medium text-red-700' : 'text-gray-600'}`}>
+            Dispatch by {formatEstimateDate(order.dispatch_by)}
+            {isDispatchOverdue(order) && ' (overdue)'}
+            {order.estimated_delivery && ` - delivery expected around ${formatEstimateDate(order.estimated_delivery)}`}
+          </p>
+        )}
+        {isGift && (
+          <div className="mt-4 p-3 bg-rose-50 border border-rose-200 rounded-lg text-sm space-y-2">
+            <p className="flex items-center font-medium text-rose-800">
+              <Gift className="w-4 h-4 mr-2" />
+              Gift order
+            </p>
+            {order.gift_wrap && <p className="text-rose-700">Gift wrap this order</p>}
+            {order.gift_message && (
+              <div>
+                <p className="text-xs text-rose-700">Gift message to include:</p>
+                <p className="text-gray-900 whitespace-pre-line">{order.gift_message}</p>
+              </div>
+            )}
+            {order.hide_prices && (
+              <p className="text-rose-700">No prices in the parcel - don't pack the invoice</p>
+            )}
+          </div>
+        )}
+        <div className="mt-4 space-y-1 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Subtotal</span>
+            <span>{formatMoney(order.subtotal, order.currency)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Delivery</span>
+            <span>{formatMoney(order.delivery_total, order.currency)}</span>
+          </div>
+          {order.gift_wrap_total > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Gift wrap</span>
+              <span>{formatMoney(order.gift_wrap_total, order.currency)}</span>
+            </div>
+          )}
+          {order.discount_total > 0 && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Discount{order.discount_code ? ` (${order.discount_code})` : ''}</span>
+              <span>-{formatMoney(order.discount_total, order.currency)}</span>
+            </div>
+          )}
+          {!order.prices_include_tax && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Tax</span>
+              <span>{formatMoney(order.tax_total, order.currency)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-semibold">
+            <span>Total</span>
+            <span>{formatMoney(order.total, order.currency)}</span>
+          </div>
+          {order.gift_card_total > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Paid by gift card</span>
+              <span>{formatMoney(order.gift_card_total, order.currency)}</span>
+            </div>
+          )}
+          {order.prices_include_tax && order.tax_total > 0 && (
+            <div className="flex justify-between text-gray-500">
+              <span>Includes tax</span>
+              <span>{formatMoney(order.tax_total, order.currency)}</span>
+            </div>
+          )}
+          {order.refunded_total > 0 && (
+            <>
+              <div className="flex justify-between text-red-600">
+                <span>Refunded</span>
+                <span>-{formatMoney(order.refunded_total, order.currency)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Net</span>
+                <span>{formatMoney(order.total - order.refunded_total, order.currency)}</span>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="md:col-span-2">
+        <h4 className="text-sm font-semibold text-gray-900 mb-3">Timeline</h4>
+        <OrderStatusTimeline orderId={order.id} status={order.status} showAdminDetails />
+        {(order.status === 'shipped' || order.status === 'delivered') && (
+          <>
+            <h4 className="text-sm font-semibold text-gray-900 mt-6 mb-3">Shipments</h4>
+            <OrderShipments orderId={order.id} status={order.status} />
+          </>
+        )}
+        <OrderGiftCards orderId={order.id} status={order.status} className="mt-6" />
+        <h4 className="text-sm font-semibold text-gray-900 mt-6 mb-3">Documents</h4>
+        <div className="space-y-3">
+          <OrderDocumentButtons order={order} document="packing_slip" />
+          {hasInvoice(order) && <OrderDocumentButtons order={order} document="invoice" />}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-3">Update Status</h4>
+        {nextStatuses.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            This order is {formatOrderStatus(order.status).toLowerCase()} and can no longer change status.
+          </p>
+        ) : (
+          <form onSubmit={handleStatusSubmit} className="space-y-3">
+            <select
+              value={newStatus}
+              onChange={(e) => setNewStatus(e.target.value as Order['status'] | '')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+            >
+              <option value="">Choose new status…</option>
+              {nextStatuses.map((status) => (
+                <option key={status} value={status}>{formatOrderStatus(status)}</option>
+              ))}
+            </select>
+            <textarea
+              value={statusNote}
+              onChange={(e) => setStatusNote(e.target.value)}
+              maxLength={1000}
+              rows={2}
+              placeholder="Optional note"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+            />
+            <button
+              type="submit"
+              disabled={!newStatus || updatingStatus}
+              className="w-full bg-rose-600 hover:bg-rose-700 disabled:bg-gray-400 text-white text-sm font-medium py-2 rounded-lg transition-colors"
+            >
+              {updatingStatus ? 'Updating...' : 'Update Status'}
+            </button>
+          </form>
+        )}
+
+        {order.status === 'pending' && (
+          <>
+            <h4 className="text-sm font-semibold text-gray-900 mt-6 mb-3">Link Payment</h4>
+            <AdminLinkPaymentForm order={order} onLinkPayment={onLinkPayment} />
+          </>
+        )}
+
+        <h4 className="text-sm font-semibold text-gray-900 mt-6 mb-3">Refunds</h4>
+        <AdminRefundPanel order={order} onRefund={onRefund} />
+      </div>
+    </div>
+  );
+}
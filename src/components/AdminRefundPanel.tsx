@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { getOrderRefunds, getRefundableAmount } from '../lib/orderService';
+import { formatMoney } from '../lib/money';
+import type { Order, Refund } from '../types/database';
+
+interface AdminRefundPanelProps {
+  order: Order;
+  onRefund: (orderId: string, amount?: number, reason?: string) => Promise<void>;
+}
+
+const REFUND_STATUS_COLORS: Record<Refund['status'], string> = {
+  pending: 'text-yellow-700',
+  succeeded: 'text-green-700',
+  failed: 'text-red-700'
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+export function AdminRefundPanel({ order, onRefund }: AdminRefundPanelProps) {
+  const refundable = getRefundableAmount(order);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [amount, setAmount] = useState(refundable.toFixed(2));
+  const [reason, setReason] = useState('');
+  const [refunding, setRefunding] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadRefunds() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getOrderRefunds(order.id);
+        if (!cancelled) setRefunds(data);
+      } catch {
+        if (!cancelled) setError('Failed to load refunds');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadRefunds();
+    return () => {
+      cancelled = true;
+    };
+  }, [order.id, order.refunded_total]);
+
+  useEffect(() => {
+    setAmount(refundable.toFixed(2));
+  }, [refundable]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = Math.round(parseFloat(amount) * 100) / 100;
+
+    if (!(value > 0) || value > refundable) {
+      alert(`Enter an amount between ${formatMoney(0.01, order.currency)} and ${formatMoney(refundable, order.currency)}`);
+      return;
+    }
+
+    const isFullRefund = value === refundable;
+    if (!confirm(`Refund ${formatMoney(value, order.currency)} to ${order.full_name}? This cannot be undone.`)) {
+      return;
+    }
+
+    setRefunding(true);
+    try {
+      // A full refund sends no amount so the server refunds whatever is left
+      await onRefund(order.id, isFullRefund ? undefined : value, reason.trim() || undefined);
+      setReason('');
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  return (
+    <div>
+      {loading ? (
+        <div className="flex items-center py-2">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-rose-600"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : refunds.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {refunds.map((refund) => (
+            <li key={refund.id} className="text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-900">{formatMoney(refund.amount, refund.currency)}</span>
+                <span className={`capitalize ${REFUND_STATUS_COLORS[refund.status]}`}>{refund.status}</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {formatDate(refund.created_at)}
+                {refund.reason && ` · ${refund.reason}`}
+              </p>
+              {refund.failure_reason && (
+                <p className="text-xs text-red-600">{refund.failure_reason}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {refundable <= 0 ? (
+        <p className="text-sm text-gray-500">
+          {order.status === 'pending' ? 'Nothing to refund until the order is paid.' : 'This order has been fully refunded.'}
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">
+              Amount (up to {formatMoney(refundable, order.currency)})
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0.01"
+              max={refundable.toFixed(2)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+            />
+          </div>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            rows={2}
+            placeholder="Reason (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+          />
+          <button
+            type="submit"
+            disabled={refunding}
+            className="w-full bg-white border border-rose-600 text-rose-600 hover:bg-rose-50 disabled:border-gray-400 disabled:text-gray-400 text-sm font-medium py-2 rounded-lg transition-colors"
+          >
+            {refunding ? 'Refunding...' : 'Refund'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
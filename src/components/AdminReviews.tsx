@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { getReviewQueue, moderateProductReview, getReviewImageUrl } from '../lib/apiService';
+import { StarRating } from './StarRating';
+import type { AdminProductReview, ReviewStatus } from '../types/database';
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Waiting',
+  approved: 'Published',
+  rejected: 'Rejected'
+};
+
+const STATUS_COLORS: Record<ReviewStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-800'
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('en-GB');
+
+/**
+ * Admin moderation queue for product reviews. Only approved reviews are
+ * shown in the shop and counted in a product's rating.
+ */
+export function AdminReviews() {
+  const [reviews, setReviews] = useState<AdminProductReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<ReviewStatus | ''>('pending');
+  const [workingReviewId, setWorkingReviewId] = useState<string | null>(null);
+
+  // Bumped to reload after moderating
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadReviews() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getReviewQueue({ status: statusFilter || undefined });
+        if (!cancelled) setReviews(data);
+      } catch {
+        if (!cancelled) setError('Failed to load reviews');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadReviews();
+    return () => {
+      cancelled = true;
+    };
+  }, [statusFilter, reloadKey]);
+
+  const handleModerate = async (review: AdminProductReview, status: 'approved' | 'rejected') => {
+    setWorkingReviewId(review.id);
+    try {
+      await moderateProductReview(review.id, status);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update review');
+    } finally {
+      setWorkingReviewId(null);
+    }
+  };
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Reviews</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Reviews from customers whose orders have been delivered. They appear on the product page once published.
+          </p>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as ReviewStatus | '')}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-rose-500"
+        >
+          <option value="">All reviews</option>
+          {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map(status => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && reviews.length === 0 ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {statusFilter === 'pending' ? 'No reviews waiting.' : statusFilter ? 'No reviews with this status.' : 'No reviews yet.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <div key={review.id} className="bg-white rounded-lg shadow p-5">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-3">
+                <div>
+                  <h3 className="font-semibold text-gray-900">{review.product_name}</h3>
+                  <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1">
+                    <StarRating rating={review.rating} />
+                    <span className="text-sm text-gray-700">{review.reviewer_name}</span>
+                    {review.email && <span className="text-sm text-gray-500">{review.email}</span>}
+                    {review.order_number && <span className="text-sm text-gray-500">Order {review.order_number}</span>}
+                    <span className="text-sm text-gray-500">{formatDate(review.updated_at)}</span>
+                  </div>
+                </div>
+                <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full w-fit ${STATUS_COLORS[review.status]}`}>
+                  {STATUS_LABELS[review.status]}
+                </span>
+              </div>
+
+              <p className="text-sm text-gray-700 whitespace-pre-line">{review.body}</p>
+
+              {review.images.length > 0 && (
+                <div className="flex flex-wrap gap-3 mt-3">
+                  {review.images.map(path => (
+                    <a key={path} href={getReviewImageUrl(path)} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={getReviewImageUrl(path)}
+                        alt="Customer photo"
+                        className="w-24 h-24 object-cover rounded-md border border-gray-200"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-3 mt-4">
+                {review.status !== 'approved' && (
+                  <button
+                    onClick={() => handleModerate(review, 'approved')}
+                    disabled={workingReviewId === review.id}
+                    className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+                  >
+                    <Check className="w-4 h-4" />
+                    <span>Publish</span>
+                  </button>
+                )}
+                {review.status !== 'rejected' && (
+                  <button
+                    onClick={() => handleModerate(review, 'rejected')}
+                    disabled={workingReviewId === review.id}
+                    className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    <X className="w-4 h-4" />
+                    <span>{review.status === 'approved' ? 'Unpublish' : 'Reject'}</span>
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
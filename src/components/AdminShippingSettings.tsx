@@ -0,0 +1,703 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+import {
+  getShippingConfig,
+  createShippingProfile,
+  updateShippingProfile,
+  deleteShippingProfile,
+  createShippingRegion,
+  updateShippingRegion,
+  deleteShippingRegion
+} from '../lib/apiService';
+import { COUNTRIES, DEFAULT_COUNTRY, getCountryName } from '../lib/addressConfig';
+import { formatMoney, getCurrency } from '../lib/money';
+import { useCurrency } from '../contexts/CurrencyContext';
+import type { CurrencyCode, ShippingConfig, ShippingMethod, ShippingProfile, ShippingRate, ShippingRegion } from '../types/database';
+
+const METHOD_LABELS: Record<ShippingMethod, string> = {
+  flat: 'Flat rate per order',
+  per_item: 'First item + each additional item',
+  weight: 'Weight bands'
+};
+
+interface RateFormRow {
+  region_id: string;
+  min_weight_grams: string;
+  first_item: string;
+  additional_item: string;
+}
+
+interface ProfileFormData {
+  name: string;
+  method: ShippingMethod;
+  free_over: string;
+  rates: RateFormRow[];
+}
+
+interface RegionFormData {
+  name: string;
+  countries: string[];
+  postcode_prefixes: string;
+  sort_order: string;
+  transit_days: string;
+}
+
+const emptyRate = (regionId: string): RateFormRow => ({
+  region_id: regionId,
+  min_weight_grams: '0',
+  first_item: '0',
+  additional_item: '0'
+});
+
+const toProfileForm = (profile: ShippingProfile): ProfileFormData => ({
+  name: profile.name,
+  method: profile.method,
+  free_over: profile.free_over?.toString() ?? '',
+  rates: profile.rates.map(rate => ({
+    region_id: rate.region_id,
+    min_weight_grams: rate.min_weight_grams.toString(),
+    first_item: rate.first_item.toString(),
+    additional_item: rate.additional_item.toString()
+  }))
+});
+
+// One line summary of a profile's default region rates for the profile list
+function describeRates(profile: ShippingProfile, defaultRegion: ShippingRegion | undefined, currency: CurrencyCode): string {
+  const rates = profile.rates
+    .filter(rate => rate.region_id === defaultRegion?.id)
+    .sort((a, b) => a.min_weight_grams - b.min_weight_grams);
+  if (rates.length === 0) return 'No rates';
+
+  switch (profile.method) {
+    case 'per_item':
+      return `${formatMoney(rates[0].first_item, currency)} + ${formatMoney(rates[0].additional_item, currency)} per extra item`;
+    case 'weight':
+      return rates.map(rate => `${rate.min_weight_grams}g+ ${formatMoney(rate.first_item, currency)}`).join(', ');
+    default:
+      return `${formatMoney(rates[0].first_item, currency)} per order`;
+  }
+}
+
+interface ShippingProfileFormProps {
+  profile: ShippingProfile | null;
+  regions: ShippingRegion[];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function ShippingProfileForm({ profile, regions, onSaved, onCancel }: ShippingProfileFormProps) {
+  const { baseCurrency } = useCurrency();
+  const baseSymbol = getCurrency(baseCurrency)?.symbol ?? baseCurrency;
+  const defaultRegion = regions.find(region => region.is_default);
+  const [formData, setFormData] = useState<ProfileFormData>(() => profile
+    ? toProfileForm(profile)
+    : { name: '', method: 'per_item', free_over: '', rates: defaultRegion ? [emptyRate(defaultRegion.id)] : [] });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRate = (index: number, changes: Partial<RateFormRow>) => {
+    setFormData(prev => ({
+      ...prev,
+      rates: prev.rates.map((rate, i) => i === index ? { ...rate, ...changes } : rate)
+    }));
+  };
+
+  const addRate = (regionId: string) => {
+    setFormData(prev => ({ ...prev, rates: [...prev.rates, emptyRate(regionId)] }));
+  };
+
+  const removeRate = (index: number) => {
+    setFormData(prev => ({ ...prev, rates: prev.rates.filter((_, i) => i !== index) }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const freeOver = formData.free_over.trim() ? parseFloat(formData.free_over) : null;
+    if (freeOver !== null && (isNaN(freeOver) || freeOver < 0)) {
+      setError('Free delivery threshold must be 0 or greater');
+      return;
+    }
+
+    // Only weight profiles have several rates per region; after switching
+    // away from weight bands the first band of each region is kept
+    const rateRows = formData.method === 'weight'
+      ? formData.rates
+      : formData.rates.filter((rate, index, all) => all.findIndex(r => r.region_id === rate.region_id) === index);
+
+    const rates: ShippingRate[] = rateRows.map(rate => ({
+      region_id: rate.region_id,
+      min_weight_grams: formData.method === 'weight' ? parseInt(rate.min_weight_grams) : 0,
+      first_item: parseFloat(rate.first_item),
+      additional_item: formData.method === 'per_item' ? parseFloat(rate.additional_item) : 0
+    }));
+
+    if (rates.some(rate => [rate.min_weight_grams, rate.first_item, rate.additional_item].some(value => isNaN(value) || value < 0))) {
+      setError('Rates and weights must be 0 or greater');
+      return;
+    }
+
+    if (!rates.some(rate => rate.region_id === defaultRegion?.id)) {
+      setError(`A rate for ${defaultRegion?.name ?? 'the default region'} is required`);
+      return;
+    }
+
+    const input = { name: formData.name.trim(), method: formData.method, free_over: freeOver, rates };
+
+    setSaving(true);
+    try {
+      if (profile) {
+        await updateShippingProfile(profile.id, input);
+      } else {
+        await createShippingProfile(input);
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shipping profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">{profile ? 'Edit Shipping Profile' : 'New Shipping Profile'}</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            required
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="e.g. Small parcel"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Charge</label>
+          <select
+            value={formData.method}
+            onChange={(e) => setFormData({ ...formData, method: e.target.value as ShippingMethod })}
+            className={inputClass}
+          >
+            {(Object.keys(METHOD_LABELS) as ShippingMethod[]).map(method => (
+              <option key={method} value={method}>{METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Free delivery over ({baseSymbol})</label>
+          <input
+            type="number"
+            step="0.01"
+            value={formData.free_over}
+            onChange={(e) => setFormData({ ...formData, free_over: e.target.value })}
+            placeholder="Never"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {regions.map(region => {
+          const rows = formData.rates
+            .map((rate, index) => ({ rate, index }))
+            .filter(({ rate }) => rate.region_id === region.id);
+          const canAddRate = formData.method === 'weight' || rows.length === 0;
+
+          return (
+            <div key={region.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="text-sm font-semibold text-gray-900">
+                  {region.name}
+                  {region.is_default && <span className="ml-2 text-xs font-normal text-gray-500">(default)</span>}
+                </h4>
+                {canAddRate && (
+                  <button
+                    type="button"
+                    onClick={() => addRate(region.id)}
+                    className="flex items-center space-x-1 text-sm text-rose-600 hover:text-rose-700"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>{formData.method === 'weight' && rows.length > 0 ? 'Add Band' : 'Add Rate'}</span>
+                  </button>
+                )}
+              </div>
+
+              {rows.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {region.countries.some(country => defaultRegion?.countries.includes(country))
+                    ? `Uses the ${defaultRegion?.name ?? 'default region'} rate.`
+                    : 'Not delivered here until a rate is added.'}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {rows.map(({ rate, index }) => (
+                    <div key={index} className="flex items-end gap-3">
+                      {formData.method === 'weight' && (
+                        <div className="flex-1">
+                          <label className="block text-xs text-gray-500 mb-1">From weight (g)</label>
+                          <input
+                            type="number"
+                            value={rate.min_weight_grams}
+                            onChange={(e) => updateRate(index, { min_weight_grams: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                      )}
+                      <div className="flex-1">
+                        <label className="block text-xs text-gray-500 mb-1">
+                          {formData.method === 'per_item' ? `First item (${baseSymbol})` : `Price (${baseSymbol})`}
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={rate.first_item}
+                          onChange={(e) => updateRate(index, { first_item: e.target.value })}
+                          className={inputClass}
+                        />
+                      </div>
+                      {formData.method === 'per_item' && (
+                        <div className="flex-1">
+                          <label className="block text-xs text-gray-500 mb-1">Each additional item ({baseSymbol})</label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={rate.additional_item}
+                            onChange={(e) => updateRate(index, { additional_item: e.target.value })}
+                            className={inputClass}
+                          />
+                        </div>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => removeRate(index)}
+                        className="p-2 text-gray-400 hover:text-red-600"
+                        title="Remove rate"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Profile'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface ShippingRegionFormProps {
+  region: ShippingRegion | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function ShippingRegionForm({ region, onSaved, onCancel }: ShippingRegionFormProps) {
+  const [formData, setFormData] = useState<RegionFormData>({
+    name: region?.name ?? '',
+    countries: region?.countries ?? [DEFAULT_COUNTRY],
+    postcode_prefixes: region?.postcode_prefixes.join(', ') ?? '',
+    sort_order: region?.sort_order.toString() ?? '0',
+    transit_days: region?.transit_days.toString() ?? '2'
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCountry = (code: string) => {
+    setFormData(prev => ({
+      ...prev,
+      countries: prev.countries.includes(code)
+        ? prev.countries.filter(country => country !== code)
+        : [...prev.countries, code]
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (formData.countries.length === 0) {
+      setError('Choose at least one country');
+      return;
+    }
+
+    const transitDays = parseInt(formData.transit_days);
+    if (isNaN(transitDays) || transitDays < 0 || transitDays > 60) {
+      setError('Transit time must be 0 to 60 working days');
+      return;
+    }
+
+    const input = {
+      name: formData.name.trim(),
+      countries: formData.countries,
+      postcode_prefixes: formData.postcode_prefixes.split(/[,\s]+/).filter(Boolean),
+      sort_order: parseInt(formData.sort_order) || 0,
+      transit_days: transitDays
+    };
+
+    setSaving(true);
+    try {
+      if (region) {
+        await updateShippingRegion(region.id, input);
+      } else {
+        await createShippingRegion(input);
+      }
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save shipping region');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">{region ? 'Edit Region' : 'New Region'}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            required
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">UK postcode areas / districts</label>
+          <input
+            type="text"
+            value={formData.postcode_prefixes}
+            onChange={(e) => setFormData({ ...formData, postcode_prefixes: e.target.value })}
+            placeholder={region?.is_default ? 'All other UK postcodes' : 'e.g. HS, ZE, KW15 (blank for all)'}
+            disabled={region?.is_default}
+            className={`${inputClass} disabled:bg-gray-100`}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Order</label>
+          <input
+            type="number"
+            value={formData.sort_order}
+            onChange={(e) => setFormData({ ...formData, sort_order: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Transit (working days)</label>
+          <input
+            type="number"
+            min="0"
+            max="60"
+            value={formData.transit_days}
+            onChange={(e) => setFormData({ ...formData, transit_days: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-2">Countries</span>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+          {COUNTRIES.map(country => (
+            <label key={country.code} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={formData.countries.includes(country.code)}
+                onChange={() => toggleCountry(country.code)}
+                className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+              />
+              <span>{country.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Region'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Admin editor for shipping regions and profiles. Products are assigned a
+ * profile from the product form; products without one keep their own
+ * per-item delivery charge.
+ */
+export function AdminShippingSettings() {
+  const { baseCurrency } = useCurrency();
+  const [config, setConfig] = useState<ShippingConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingProfile, setEditingProfile] = useState<ShippingProfile | 'new' | null>(null);
+  const [editingRegion, setEditingRegion] = useState<ShippingRegion | 'new' | null>(null);
+
+  // Bumped to reload after saving or deleting
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadConfig() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getShippingConfig();
+        if (!cancelled) setConfig(data);
+      } catch {
+        if (!cancelled) setError('Failed to load shipping settings');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadConfig();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleSaved = () => {
+    setEditingProfile(null);
+    setEditingRegion(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleDeleteProfile = async (profile: ShippingProfile) => {
+    if (!confirm(`Delete the "${profile.name}" shipping profile? Its products will go back to their own delivery charge.`)) return;
+
+    try {
+      await deleteShippingProfile(profile.id);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete shipping profile');
+    }
+  };
+
+  const handleDeleteRegion = async (region: ShippingRegion) => {
+    if (!confirm(`Delete the "${region.name}" region and its rates?`)) return;
+
+    try {
+      await deleteShippingRegion(region.id);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete shipping region');
+    }
+  };
+
+  if (loading && !config) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !config) {
+    return <p className="text-sm text-red-600">{error ?? 'Failed to load shipping settings'}</p>;
+  }
+
+  const defaultRegion = config.regions.find(region => region.is_default);
+
+  return (
+    <div className="space-y-10">
+      <section>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Shipping Profiles</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Each profile is charged once per order for all of its items.
+            </p>
+          </div>
+          {!editingProfile && (
+            <button
+              onClick={() => setEditingProfile('new')}
+              className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Profile</span>
+            </button>
+          )}
+        </div>
+
+        {editingProfile && (
+          <ShippingProfileForm
+            key={editingProfile === 'new' ? 'new' : editingProfile.id}
+            profile={editingProfile === 'new' ? null : editingProfile}
+            regions={config.regions}
+            onSaved={handleSaved}
+            onCancel={() => setEditingProfile(null)}
+          />
+        )}
+
+        {config.profiles.length === 0 ? (
+          <p className="text-sm text-gray-500">No shipping profiles yet. Products are charged their own delivery charge per item.</p>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Profile</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {defaultRegion?.name ?? 'Default'} Rate
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Free Over</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {config.profiles.map(profile => (
+                    <tr key={profile.id}>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{profile.name}</div>
+                        <div className="text-sm text-gray-500">{METHOD_LABELS[profile.method]}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{describeRates(profile, defaultRegion, baseCurrency)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {profile.free_over !== null ? formatMoney(profile.free_over, baseCurrency) : '—'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => setEditingProfile(profile)}
+                          className="text-rose-600 hover:text-rose-900"
+                          title="Edit profile"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteProfile(profile)}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete profile"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Regions</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Addresses are matched on country, and UK addresses on postcode district (KW15) or area (HS). Countries not in any region are not delivered to.
+            </p>
+          </div>
+          {!editingRegion && (
+            <button
+              onClick={() => setEditingRegion('new')}
+              className="flex items-center justify-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Region</span>
+            </button>
+          )}
+        </div>
+
+        {editingRegion && (
+          <ShippingRegionForm
+            key={editingRegion === 'new' ? 'new' : editingRegion.id}
+            region={editingRegion === 'new' ? null : editingRegion}
+            onSaved={handleSaved}
+            onCancel={() => setEditingRegion(null)}
+          />
+        )}
+
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-200">
+          {config.regions.map(region => (
+            <div key={region.id} className="flex items-start justify-between gap-4 px-6 py-4">
+              <div>
+                <div className="text-sm font-medium text-gray-900">
+                  {region.name}
+                  {region.is_default && <span className="ml-2 text-xs font-normal text-gray-500">(default)</span>}
+                </div>
+                <div className="text-sm text-gray-500 break-words">
+                  {region.countries.map(getCountryName).join(', ')}
+                  {region.postcode_prefixes.length > 0 && ` · ${region.postcode_prefixes.join(', ')}`}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Delivered {region.transit_days} working day{region.transit_days === 1 ? '' : 's'} after dispatch
+                </div>
+              </div>
+              <div className="flex-shrink-0 space-x-2">
+                <button
+                  onClick={() => setEditingRegion(region)}
+                  className="text-rose-600 hover:text-rose-900"
+                  title="Edit region"
+                >
+                  <Edit2 className="w-5 h-5" />
+                </button>
+                {!region.is_default && (
+                  <button
+                    onClick={() => handleDeleteRegion(region)}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete region"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useEffect, useState } from 'react';
+import { Plus, Edit2, Trash2, Save, X } from 'lucide-react';
+import { getTaxConfig, updateTaxSettings, saveTaxRate, deleteTaxRate } from '../lib/apiService';
+import { COUNTRIES, DEFAULT_COUNTRY, getCountryName } from '../lib/addressConfig';
+import { TAX_CLASSES } from '../lib/taxCalculator';
+import type { TaxClass, TaxConfig, TaxRate } from '../types/database';
+
+interface RateFormData {
+  country: string;
+  tax_class: TaxClass;
+  name: string;
+  rate: string;
+}
+
+const taxClassLabel = (taxClass: TaxClass) =>
+  TAX_CLASSES.find(option => option.value === taxClass)?.label ?? taxClass;
+
+interface TaxRateFormProps {
+  rate: TaxRate | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function TaxRateForm({ rate, onSaved, onCancel }: TaxRateFormProps) {
+  const [formData, setFormData] = useState<RateFormData>({
+    country: rate?.country ?? DEFAULT_COUNTRY,
+    tax_class: rate?.tax_class ?? 'standard',
+    name: rate?.name ?? 'VAT',
+    rate: rate?.rate.toString() ?? ''
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const percent = parseFloat(formData.rate);
+    if (isNaN(percent) || percent < 0 || percent >= 100) {
+      setError('Rate must be between 0 and 100');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveTaxRate({
+        country: formData.country,
+        tax_class: formData.tax_class,
+        name: formData.name.trim(),
+        rate: percent
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tax rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900">{rate ? 'Edit Rate' : 'New Rate'}</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Country</label>
+          <select
+            value={formData.country}
+            onChange={(e) => setFormData({ ...formData, country: e.target.value })}
+            disabled={!!rate}
+            className={`${inputClass} disabled:bg-gray-100`}
+          >
+            {COUNTRIES.map(country => (
+              <option key={country.code} value={country.code}>{country.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tax Class</label>
+          <select
+            value={formData.tax_class}
+            onChange={(e) => setFormData({ ...formData, tax_class: e.target.value as TaxClass })}
+            disabled={!!rate}
+            className={`${inputClass} disabled:bg-gray-100`}
+          >
+            {TAX_CLASSES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            placeholder="VAT"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rate (%)</label>
+          <input
+            type="number"
+            step="0.001"
+            required
+            value={formData.rate}
+            onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Save className="w-4 h-4" />
+          <span>{saving ? 'Saving...' : 'Save Rate'}</span>
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex items-center space-x-2 bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          <span>Cancel</span>
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Admin editor for tax settings and rates. Products are given a tax class
+ * from the product form; a country with no rate for a class charges no tax
+ * on it.
+ */
+export function AdminTaxSettings() {
+  const [config, setConfig] = useState<TaxConfig | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingRate, setEditingRate] = useState<TaxRate | 'new' | null>(null);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(true);
+  const [deliveryTaxClass, setDeliveryTaxClass] = useState<TaxClass>('standard');
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [settingsMessage, setSettingsMessage] = useState<string | null>(null);
+
+  // Bumped to reload after saving or deleting
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadConfig() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getTaxConfig();
+        if (!cancelled) {
+          setConfig(data);
+          setPricesIncludeTax(data.prices_include_tax);
+          setDeliveryTaxClass(data.delivery_tax_class);
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load tax settings');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadConfig();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSettingsMessage(null);
+    setSavingSettings(true);
+
+    try {
+      await updateTaxSettings(pricesIncludeTax, deliveryTaxClass);
+      setSettingsMessage('Tax settings saved');
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setSettingsMessage(err instanceof Error ? err.message : 'Failed to save tax settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleSaved = () => {
+    setEditingRate(null);
+    setReloadKey((key) => key + 1);
+  };
+
+  const handleDeleteRate = async (rate: TaxRate) => {
+    if (!confirm(`Delete the ${taxClassLabel(rate.tax_class).toLowerCase()} for ${getCountryName(rate.country)}? No tax will be charged on that class there.`)) return;
+
+    try {
+      await deleteTaxRate(rate.id);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete tax rate');
+    }
+  };
+
+  if (loading && !config) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !config) {
+    return <p className="text-sm text-red-600">{error ?? 'Failed to load tax settings'}</p>;
+  }
+
+  return (
+    <div className="space-y-10">
+      <section>
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Tax</h1>
+        <p className="text-sm text-gray-600 mt-1 mb-6">
+          Tax is worked out for the delivery country at the rate for each product's tax class.
+        </p>
+
+        <form onSubmit={handleSaveSettings} className="bg-white rounded-lg shadow p-6 space-y-4">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={pricesIncludeTax}
+              onChange={(e) => setPricesIncludeTax(e.target.checked)}
+              className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+            />
+            <span>Product prices and delivery charges include tax</span>
+          </label>
+          <p className="text-sm text-gray-500">
+            {pricesIncludeTax
+              ? 'Customers pay the prices shown; the tax in them is listed on the order.'
+              : 'Tax is added on top of the prices shown at checkout.'}
+          </p>
+
+          <div className="max-w-xs">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Delivery Tax Class</label>
+            <select
+              value={deliveryTaxClass}
+              onChange={(e) => setDeliveryTaxClass(e.target.value as TaxClass)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            >
+              {TAX_CLASSES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {settingsMessage && <p className="text-sm text-gray-600">{settingsMessage}</p>}
+
+          <button
+            type="submit"
+            disabled={savingSettings}
+            className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+          >
+            <Save className="w-4 h-4" />
+            <span>{savingSettings ? 'Saving...' : 'Save Settings'}</span>
+          </button>
+        </form>
+      </section>
+
+      <section>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold text-gray-900">Rates</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Countries without a rate for a tax class charge no tax on it.
+            </p>
+          </div>
+          {!editingRate && (
+            <button
+              onClick={() => setEditingRate('new')}
+              className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+            >
+              <Plus className="w-5 h-5" />
+              <span>Add Rate</span>
+            </button>
+          )}
+        </div>
+
+        {editingRate && (
+          <TaxRateForm
+            key={editingRate === 'new' ? 'new' : editingRate.id}
+            rate={editingRate === 'new' ? null : editingRate}
+            onSaved={handleSaved}
+            onCancel={() => setEditingRate(null)}
+          />
+        )}
+
+        {config.rates.length === 0 ? (
+          <p className="text-sm text-gray-500">No tax rates yet. Orders are not charged tax.</p>
+        ) : (
+          <div className="bg-white rounded-lg shadow overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Country</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tax Class</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {config.rates.map(rate => (
+                    <tr key={rate.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{getCountryName(rate.country)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{taxClassLabel(rate.tax_class)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rate.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{rate.rate}%</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => setEditingRate(rate)}
+                          className="text-rose-600 hover:text-rose-900"
+                          title="Edit rate"
+                        >
+                          <Edit2 className="w-5 h-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteRate(rate)}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete rate"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from 'react';
+import { Send, ImagePlus, X, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { submitCommissionRequest, uploadCommissionImage } from '../lib/apiService';
+import { compressImage } from '../lib/imageCompression';
+
+const MAX_REFERENCE_IMAGES = 5;
+
+interface CommissionFormData {
+  fullName: string;
+  email: string;
+  description: string;
+  budget: string;
+  colours: string;
+}
+
+interface ReferenceImage {
+  path: string;
+  previewUrl: string; // Local object URL; the bucket is private
+}
+
+/**
+ * Asks for a custom piece. Reference images are compressed and uploaded as
+ * they are chosen; we reply with a quote by email.
+ */
+export function CommissionRequestForm() {
+  const { user } = useAuth();
+  const [formData, setFormData] = useState<CommissionFormData>({
+    fullName: '',
+    email: user?.email ?? '',
+    description: '',
+    budget: '',
+    colours: ''
+  });
+  const [images, setImages] = useState<ReferenceImage[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_REFERENCE_IMAGES - images.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const uploaded: ReferenceImage[] = [];
+      for (const file of files) {
+        if (!file.type.startsWith('image/')) {
+          throw new Error('Please choose image files only');
+        }
+        const compressedFile = await compressImage(file);
+        const path = await uploadCommissionImage(compressedFile);
+        uploaded.push({ path, previewUrl: URL.createObjectURL(compressedFile) });
+      }
+      setImages((current) => [...current, ...uploaded]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const removeImage = (image: ReferenceImage) => {
+    URL.revokeObjectURL(image.previewUrl);
+    setImages((current) => current.filter(other => other.path !== image.path));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.description.trim().length < 20) {
+      setError('Please tell us a little more about the piece you would like');
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      await submitCommissionRequest({
+        email: formData.email.trim(),
+        full_name: formData.fullName.trim(),
+        description: formData.description.trim(),
+        budget: formData.budget.trim() || null,
+        colours: formData.colours.trim() || null,
+        reference_images: images.map(image => image.path)
+      });
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send your request');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (submitted) {
+    return (
+      <div className="bg-white rounded-lg shadow p-8 text-center">
+        <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+        <h2 className="text-2xl font-serif font-bold text-gray-900 mb-2">Thank you!</h2>
+        <p className="text-gray-600">
+          We have your request and will email {formData.email.trim()} with a quote, usually within a few days.
+        </p>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div>
+        <h2 className="text-2xl font-serif font-bold text-gray-900">Request a Commission</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Tell us about the piece you have in mind and we will reply with a quote you can pay for online.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={formData.fullName}
+            onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+            minLength={2}
+            maxLength={200}
+            required
+            autoComplete="name"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input
+            type="email"
+            value={formData.email}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            maxLength={254}
+            required
+            autoComplete="email"
+            className={inputClass}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">What would you like made?</label>
+          <textarea
+            value={formData.description}
+            onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            rows={5}
+            maxLength={5000}
+            required
+            placeholder="The kind of piece, its size, who it is for and anything else we should know"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Budget (optional)</label>
+          <input
+            type="text"
+            value={formData.budget}
+            onChange={(e) => setFormData({ ...formData, budget: e.target.value })}
+            maxLength={100}
+            placeholder="e.g. around £40"
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Colours (optional)</label>
+          <input
+            type="text"
+            value={formData.colours}
+            onChange={(e) => setFormData({ ...formData, colours: e.target.value })}
+            maxLength={500}
+            placeholder="e.g. sage green and cream"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Reference images (optional, up to {MAX_REFERENCE_IMAGES})
+        </label>
+        <div className="flex flex-wrap gap-3">
+          {images.map(image => (
+            <div key={image.path} className="relative">
+              <img
+                src={image.previewUrl}
+                alt="Reference"
+                className="w-20 h-20 object-cover rounded-md border border-gray-200"
+              />
+              <button
+                type="button"
+                onClick={() => removeImage(image)}
+                className="absolute -top-2 -right-2 bg-white rounded-full shadow text-gray-500 hover:text-red-600"
+                title="Remove"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {images.length < MAX_REFERENCE_IMAGES && (
+            <label className="w-20 h-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-md text-gray-500 hover:border-rose-400 hover:text-rose-600 cursor-pointer">
+              <ImagePlus className="w-6 h-6" />
+              <span className="text-xs mt-1">{uploading ? 'Uploading...' : 'Add'}</span>
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/gif"
+                multiple
+                onChange={handleImageChange}
+                disabled={uploading}
+                className="hidden"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={submitting || uploading}
+        className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+      >
+        <Send className="w-4 h-4" />
+        <span>{submitting ? 'Sending...' : 'Send Request'}</span>
+      </button>
+    </form>
+  );
+}
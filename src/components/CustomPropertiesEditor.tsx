@@ -121,10 +121,24 @@ export function CustomPropertiesEditor({ value, onChange, onUploadImage }: Custo
       delete newOptionImages[oldLabel];
     }
 
+    const newOptionLeadTimes = dropdown.optionLeadTimes ? { ...dropdown.optionLeadTimes } : {};
+    if (oldLabel && oldLabel !== label && newOptionLeadTimes[oldLabel] !== undefined) {
+      newOptionLeadTimes[label] = newOptionLeadTimes[oldLabel];
+      delete newOptionLeadTimes[oldLabel];
+    }
+
+    const newOptionStock = dropdown.optionStock ? { ...dropdown.optionStock } : {};
+    if (oldLabel && oldLabel !== label && newOptionStock[oldLabel] !== undefined) {
+      newOptionStock[label] = newOptionStock[oldLabel];
+      delete newOptionStock[oldLabel];
+    }
+
     updateProperty(propertyIndex, {
       options: newOptions,
       optionPrices: Object.keys(newOptionPrices).length > 0 ? newOptionPrices : undefined,
       optionImages: Object.keys(newOptionImages).length > 0 ? newOptionImages : undefined,
+      optionLeadTimes: Object.keys(newOptionLeadTimes).length > 0 ? newOptionLeadTimes : undefined,
+      optionStock: Object.keys(newOptionStock).length > 0 ? newOptionStock : undefined,
     } as Partial<CustomPropertyDropdown>);
   };
 
@@ -148,6 +162,46 @@ export function CustomPropertiesEditor({ value, onChange, onUploadImage }: Custo
     } as Partial<CustomPropertyDropdown>);
   };
 
+  const updateDropdownOptionLeadTime = (propertyIndex: number, optionLabel: string, daysStr: string) => {
+    const property = properties[propertyIndex];
+    if (property.type !== 'dropdown') return;
+    const dropdown = property as CustomPropertyDropdown;
+
+    const newOptionLeadTimes = dropdown.optionLeadTimes ? { ...dropdown.optionLeadTimes } : {};
+    if (daysStr === '' || daysStr === undefined) {
+      delete newOptionLeadTimes[optionLabel];
+    } else {
+      const days = parseInt(daysStr, 10);
+      if (!isNaN(days) && days >= 0) {
+        newOptionLeadTimes[optionLabel] = days;
+      }
+    }
+
+    updateProperty(propertyIndex, {
+      optionLeadTimes: Object.keys(newOptionLeadTimes).length > 0 ? newOptionLeadTimes : undefined,
+    } as Partial<CustomPropertyDropdown>);
+  };
+
+  const updateDropdownOptionStock = (propertyIndex: number, optionLabel: string, stockStr: string) => {
+    const property = properties[propertyIndex];
+    if (property.type !== 'dropdown') return;
+    const dropdown = property as CustomPropertyDropdown;
+
+    const newOptionStock = dropdown.optionStock ? { ...dropdown.optionStock } : {};
+    if (stockStr === '' || stockStr === undefined) {
+      delete newOptionStock[optionLabel];
+    } else {
+      const stock = parseInt(stockStr, 10);
+      if (!isNaN(stock) && stock >= 0) {
+        newOptionStock[optionLabel] = stock;
+      }
+    }
+
+    updateProperty(propertyIndex, {
+      optionStock: Object.keys(newOptionStock).length > 0 ? newOptionStock : undefined,
+    } as Partial<CustomPropertyDropdown>);
+  };
+
   const removeDropdownOption = (propertyIndex: number, optionIndex: number) => {
     const property = properties[propertyIndex];
     if (property.type !== 'dropdown') return;
@@ -159,11 +213,17 @@ export function CustomPropertiesEditor({ value, onChange, onUploadImage }: Custo
     if (removedLabel) delete newOptionPrices[removedLabel];
     const newOptionImages = dropdown.optionImages ? { ...dropdown.optionImages } : {};
     if (removedLabel) delete newOptionImages[removedLabel];
+    const newOptionLeadTimes = dropdown.optionLeadTimes ? { ...dropdown.optionLeadTimes } : {};
+    if (removedLabel) delete newOptionLeadTimes[removedLabel];
+    const newOptionStock = dropdown.optionStock ? { ...dropdown.optionStock } : {};
+    if (removedLabel) delete newOptionStock[removedLabel];
 
     updateProperty(propertyIndex, {
       options: newOptions,
       optionPrices: Object.keys(newOptionPrices).length > 0 ? newOptionPrices : undefined,
       optionImages: Object.keys(newOptionImages).length > 0 ? newOptionImages : undefined,
+      optionLeadTimes: Object.keys(newOptionLeadTimes).length > 0 ? newOptionLeadTimes : undefined,
+      optionStock: Object.keys(newOptionStock).length > 0 ? newOptionStock : undefined,
     } as Partial<CustomPropertyDropdown>);
   };
 
@@ -374,6 +434,27 @@ export function CustomPropertiesEditor({ value, onChange, onUploadImage }: Custo
                                   className="w-24 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
                                 />
                               </div>
+                              <input
+                                type="number"
+                                min="0"
+                                max="365"
+                                step="1"
+                                value={(property as CustomPropertyDropdown).optionLeadTimes?.[option] ?? ''}
+                                onChange={(e) => updateDropdownOptionLeadTime(index, option, e.target.value)}
+                                placeholder="Days"
+                                title="Lead time in working days"
+                                className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+                              />
+                              <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={(property as CustomPropertyDropdown).optionStock?.[option] ?? ''}
+                                onChange={(e) => updateDropdownOptionStock(index, option, e.target.value)}
+                                placeholder="Stock"
+                                title="Units in stock (leave empty to not track)"
+                                className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+                              />
                               <button
                                 type="button"
                                 onClick={() => removeDropdownOption(index, optIndex)}
@@ -427,6 +508,16 @@ export function CustomPropertiesEditor({ value, onChange, onUploadImage }: Custo
                             Options with a price will override the product price when selected.
                           </p>
                         )}
+                        {Object.keys((property as CustomPropertyDropdown).optionLeadTimes ?? {}).length > 0 && (
+                          <p className="text-xs text-blue-600 mt-1">
+                            Options with a lead time (in working days) will override the product lead time when selected.
+                          </p>
+                        )}
+                        {Object.keys((property as CustomPropertyDropdown).optionStock ?? {}).length > 0 && (
+                          <p className="text-xs text-blue-600 mt-1">
+                            Options with stock are taken off each order and shown as sold out at zero. Leave stock empty for options you make to order.
+                          </p>
+                        )}
                         {Object.keys((property as CustomPropertyDropdown).optionImages ?? {}).length > 0 && (
                           <p className="text-xs text-blue-600 mt-1">
                             Options with an image will update the displayed product image when selected.
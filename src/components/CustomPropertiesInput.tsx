@@ -6,6 +6,7 @@ import type {
   CustomPropertyNumber,
   CustomPropertySelection 
 } from '../types/database';
+import { useCurrency } from '../contexts/CurrencyContext';
 
 interface CustomPropertiesInputProps {
   properties: CustomProperty[];
@@ -16,6 +17,8 @@ interface CustomPropertiesInputProps {
 }
 
 export function CustomPropertiesInput({ properties, values, onChange, basePrice }: CustomPropertiesInputProps) {
+  const { formatPrice } = useCurrency();
+
   if (properties.length === 0) {
     return null;
   }
@@ -79,11 +82,13 @@ export function CustomPropertiesInput({ properties, values, onChange, basePrice
               <option value="">Select {property.label}</option>
               {dropdownProperty.options.map((option) => {
                 const optionPrice = dropdownProperty.optionPrices?.[option];
+                const isSoldOut = dropdownProperty.optionStock?.[option] === 0;
+                const optionLabel = hasPrices && optionPrice !== undefined
+                  ? `${option} — ${formatPrice(optionPrice)}`
+                  : option;
                 return (
-                  <option key={option} value={option}>
-                    {hasPrices && optionPrice !== undefined
-                      ? `${option} — £${optionPrice.toFixed(2)}`
-                      : option}
+                  <option key={option} value={option} disabled={isSoldOut}>
+                    {isSoldOut ? `${optionLabel} (sold out)` : optionLabel}
                   </option>
                 );
               })}
@@ -179,8 +184,8 @@ export function CustomPropertiesInput({ properties, values, onChange, basePrice
           <span className="text-sm text-gray-600">Price</span>
           <span className="text-lg font-bold text-gray-900">
             {effectivePrice !== undefined
-              ? `£${effectivePrice.toFixed(2)}`
-              : `£${basePrice.toFixed(2)}`}
+              ? formatPrice(effectivePrice)
+              : formatPrice(basePrice)}
           </span>
         </div>
       )}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { describeDiscount } from '../lib/discountCalculator';
+
+/**
+ * Enter, show and remove the cart's discount code. Used in the cart and at
+ * checkout; the code is kept with the cart.
+ */
+export function DiscountCodeField() {
+  const { discount, discountProblem, applyDiscountCode, removeDiscountCode } = useCart();
+  const { baseCurrency } = useCurrency();
+  const [code, setCode] = useState('');
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setError(null);
+    setApplying(true);
+    try {
+      await applyDiscountCode(code);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This discount code cannot be used');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (discount) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between bg-rose-50 rounded-lg px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 text-rose-700">
+            <Tag className="w-4 h-4 flex-shrink-0" />
+            <span>
+              <span className="font-semibold">{discount.code}</span> - {discount.description || describeDiscount(discount, baseCurrency)}
+            </span>
+          </span>
+          <button
+            type="button"
+            onClick={removeDiscountCode}
+            className="text-rose-600 hover:text-rose-800"
+            aria-label="Remove discount code"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {discountProblem && <p className="text-sm text-amber-700">{discountProblem}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Discount code"
+          aria-label="Discount code"
+          className="flex-grow min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-rose-500"
+        />
+        <button
+          type="submit"
+          disabled={applying || !code.trim()}
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {applying ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Gift, X } from 'lucide-react';
+import { formatMoney } from '../lib/money';
+import type { AppliedGiftCard, GiftCard } from '../types/database';
+
+interface GiftCardFieldProps {
+  giftCard: GiftCard | null;
+  /** The card with the part of the order it pays, null when it cannot pay */
+  appliedGiftCard: AppliedGiftCard | null;
+  onApply: (code: string) => Promise<void>;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Enter, show and remove a gift card at checkout. The card pays what it can
+ * of the order; the rest is paid with the chosen payment method.
+ */
+export function GiftCardField({ giftCard, appliedGiftCard, onApply, onRemove, disabled = false }: GiftCardFieldProps) {
+  const [code, setCode] = useState('');
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setError(null);
+    setApplying(true);
+    try {
+      await onApply(code);
+      setCode('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This gift card cannot be used');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (giftCard) {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center justify-between bg-rose-50 rounded-lg px-3 py-2 text-sm">
+          <span className="flex items-center gap-2 text-rose-700">
+            <Gift className="w-4 h-4 flex-shrink-0" />
+            <span>
+              <span className="font-mono font-semibold">{giftCard.code}</span>
+              {appliedGiftCard && ` - paying ${formatMoney(appliedGiftCard.amount, appliedGiftCard.currency)} of ${formatMoney(giftCard.balance, giftCard.currency)}`}
+            </span>
+          </span>
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={disabled}
+            className="text-rose-600 hover:text-rose-800 disabled:opacity-50"
+            aria-label="Remove gift card"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {!appliedGiftCard && (
+          <p className="text-sm text-amber-700">
+            This gift card can only be used for orders in {giftCard.currency}. Change your currency to use it.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleApply} className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Gift card code"
+          aria-label="Gift card code"
+          disabled={disabled}
+          className="flex-grow min-w-0 px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-rose-500"
+        />
+        <button
+          type="submit"
+          disabled={disabled || applying || !code.trim()}
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {applying ? 'Checking...' : 'Apply'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+}
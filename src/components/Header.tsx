@@ -1,7 +1,10 @@
 import { useState } from 'react';
-import { ShoppingBag, User, LogOut, UserCog, Menu, X, MessageSquare } from 'lucide-react';
+import { ShoppingBag, User, LogOut, UserCog, Menu, X, MessageSquare, Heart } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useWishlist } from '../contexts/WishlistContext';
+import { getCurrency } from '../lib/money';
 import { AuthModal } from './AuthModal';
 import woolwitchLogo from '../assets/woolwitch.jpg';
 
@@ -9,13 +12,15 @@ import woolwitchLogo from '../assets/woolwitch.jpg';
 const isChatEnabled = import.meta.env.VITE_ENABLE_AI_CHAT === 'true';
 
 interface HeaderProps {
-  currentPage: 'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'product-details' | 'chat';
-  onNavigate: (page: 'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'chat') => void;
+  currentPage: 'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'account' | 'order-lookup' | 'product-details' | 'chat' | 'commission-quote' | 'wishlist';
+  onNavigate: (page: 'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'account' | 'order-lookup' | 'chat' | 'wishlist') => void;
 }
 
 export function Header({ currentPage, onNavigate }: HeaderProps) {
   const { itemCount } = useCart();
   const { user, isAdmin, signOut } = useAuth();
+  const { currency, currencies, setCurrency } = useCurrency();
+  const { productIds: wishlistIds, mergeNotice, dismissMergeNotice } = useWishlist();
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -29,7 +34,7 @@ export function Header({ currentPage, onNavigate }: HeaderProps) {
     }
   };
 
-  const handleNavigation = (page: 'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'chat') => {
+  const handleNavigation = (page: 'shop' | 'cart' | 'checkout' | 'admin' | 'about' | 'contact' | 'privacy-policy' | 'terms-of-service' | 'orders' | 'account' | 'order-lookup' | 'chat' | 'wishlist') => {
     onNavigate(page);
     setMobileMenuOpen(false);
   };
@@ -78,16 +83,39 @@ export function Header({ currentPage, onNavigate }: HeaderProps) {
                 Admin
               </button>
             )}
-            {user && (
+            {user ? (
+              <>
+                <button
+                  onClick={() => handleNavigation('orders')}
+                  className={`font-medium transition-colors ${
+                    currentPage === 'orders'
+                      ? 'text-rose-600'
+                      : 'text-gray-700 hover:text-rose-600'
+                  }`}
+                >
+                  My Orders
+                </button>
+                <button
+                  onClick={() => handleNavigation('account')}
+                  className={`font-medium transition-colors ${
+                    currentPage === 'account'
+                      ? 'text-rose-600'
+                      : 'text-gray-700 hover:text-rose-600'
+                  }`}
+                >
+                  My Account
+                </button>
+              </>
+            ) : (
               <button
-                onClick={() => handleNavigation('orders')}
+                onClick={() => handleNavigation('order-lookup')}
                 className={`font-medium transition-colors ${
-                  currentPage === 'orders'
+                  currentPage === 'order-lookup'
                     ? 'text-rose-600'
                     : 'text-gray-700 hover:text-rose-600'
                 }`}
               >
-                My Orders
+                Track Order
               </button>
             )}
             <button
@@ -126,6 +154,21 @@ export function Header({ currentPage, onNavigate }: HeaderProps) {
           </nav>
 
           <div className="flex items-center space-x-1 sm:space-x-3">
+            {currencies.length > 1 && (
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value as typeof currency)}
+                className="px-2 sm:px-3 py-2 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium border-none focus:ring-2 focus:ring-rose-500 cursor-pointer"
+                aria-label="Currency"
+                title="Currency"
+              >
+                {currencies.map(code => (
+                  <option key={code} value={code}>
+                    {getCurrency(code)?.symbol} {code}
+                  </option>
+                ))}
+              </select>
+            )}
             {user ? (
               <>
                 {isAdmin && (
@@ -151,6 +194,18 @@ export function Header({ currentPage, onNavigate }: HeaderProps) {
                 <span className="hidden md:inline font-medium">Sign In</span>
               </button>
             )}
+            <button
+              onClick={() => handleNavigation('wishlist')}
+              className={`flex items-center space-x-1 sm:space-x-2 px-2 sm:px-4 py-2 rounded-full transition-all ${
+                currentPage === 'wishlist'
+                  ? 'bg-rose-600 text-white'
+                  : 'bg-rose-50 hover:bg-rose-100 text-rose-600'
+              }`}
+              title="Wishlist"
+            >
+              <Heart className="w-4 h-4 sm:w-5 sm:h-5" />
+              <span className="font-medium text-sm sm:text-base">{wishlistIds.length}</span>
+            </button>
             <button
               onClick={() => handleNavigation('cart')}
               className={`flex items-center space-x-1 sm:space-x-2 px-2 sm:px-4 py-2 rounded-full transition-all ${
@@ -179,6 +234,22 @@ export function Header({ currentPage, onNavigate }: HeaderProps) {
         </div>
       </div>
 
+      {/* Guest wishlist that did not fully fit when merged on sign in */}
+      {mergeNotice && (
+        <div className="bg-amber-50 border-t border-amber-200">
+          <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-2 flex items-start justify-between gap-3">
+            <p className="text-sm text-amber-800">{mergeNotice}</p>
+            <button
+              onClick={dismissMergeNotice}
+              className="text-amber-700 hover:text-amber-900 transition-colors"
+              aria-label="Dismiss"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Mobile menu */}
       {mobileMenuOpen && (
         <div className="md:hidden border-t border-gray-200 bg-white">
@@ -205,16 +276,39 @@ export function Header({ currentPage, onNavigate }: HeaderProps) {
                 Admin
               </button>
             )}
-            {user && (
+            {user ? (
+              <>
+                <button
+                  onClick={() => handleNavigation('orders')}
+                  className={`block w-full text-left px-4 py-3 rounded-lg font-medium transition-colors ${
+                    currentPage === 'orders'
+                      ? 'bg-rose-50 text-rose-600'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  My Orders
+                </button>
+                <button
+                  onClick={() => handleNavigation('account')}
+                  className={`block w-full text-left px-4 py-3 rounded-lg font-medium transition-colors ${
+                    currentPage === 'account'
+                      ? 'bg-rose-50 text-rose-600'
+                      : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  My Account
+                </button>
+              </>
+            ) : (
               <button
-                onClick={() => handleNavigation('orders')}
+                onClick={() => handleNavigation('order-lookup')}
                 className={`block w-full text-left px-4 py-3 rounded-lg font-medium transition-colors ${
-                  currentPage === 'orders'
+                  currentPage === 'order-lookup'
                     ? 'bg-rose-50 text-rose-600'
                     : 'text-gray-700 hover:bg-gray-50'
                 }`}
               >
-                My Orders
+                Track Order
               </button>
             )}
             <button
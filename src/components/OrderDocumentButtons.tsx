@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Download, Printer } from 'lucide-react';
+import { getOrderDocument } from '../lib/orderService';
+import type { Order, OrderDocumentType } from '../types/database';
+
+interface OrderDocumentButtonsProps {
+  order: Order;
+  document: OrderDocumentType;
+}
+
+const DOCUMENT_LABELS: Record<OrderDocumentType, string> = {
+  invoice: 'Invoice',
+  packing_slip: 'Packing Slip'
+};
+
+export function OrderDocumentButtons({ order, document: documentType }: OrderDocumentButtonsProps) {
+  const [busy, setBusy] = useState<'pdf' | 'html' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const label = DOCUMENT_LABELS[documentType];
+
+  const handleDownload = async () => {
+    setBusy('pdf');
+    setError(null);
+    try {
+      const blob = await getOrderDocument(order.id, documentType, 'pdf');
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${documentType.replace('_', '-')}-${order.order_number}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to download ${label.toLowerCase()}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handlePrint = async () => {
+    // Open the window before awaiting so pop-up blockers treat it as a click
+    const printWindow = window.open('', '_blank');
+    setBusy('html');
+    setError(null);
+    try {
+      const blob = await getOrderDocument(order.id, documentType, 'html');
+      const url = URL.createObjectURL(blob);
+      if (printWindow) {
+        printWindow.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      printWindow?.close();
+      setError(err instanceof Error ? err.message : `Failed to open ${label.toLowerCase()}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={busy !== null}
+          className="flex items-center bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+        >
+          <Download className="w-4 h-4 mr-1" />
+          {busy === 'pdf' ? 'Preparing...' : `${label} PDF`}
+        </button>
+        <button
+          onClick={handlePrint}
+          disabled={busy !== null}
+          className="flex items-center bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-3 py-2 rounded-md text-sm font-medium transition-colors"
+        >
+          <Printer className="w-4 h-4 mr-1" />
+          {busy === 'html' ? 'Opening...' : `Print ${label}`}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { Gift } from 'lucide-react';
+import { getOrderGiftCards } from '../lib/orderService';
+import { formatMoney } from '../lib/money';
+import type { Order, OrderGiftCard } from '../types/database';
+
+interface OrderGiftCardsProps {
+  orderId: string;
+  /** Current order status - cards are issued when the order is paid */
+  status: Order['status'];
+  className?: string;
+}
+
+/**
+ * Gift cards bought on an order with their codes and what is left on them.
+ * Renders nothing for orders without gift cards.
+ */
+export function OrderGiftCards({ orderId, status, className }: OrderGiftCardsProps) {
+  const [cards, setCards] = useState<OrderGiftCard[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getOrderGiftCards(orderId)
+      .then(data => {
+        if (!cancelled) setCards(data);
+      })
+      .catch(error => console.error('Error loading order gift cards:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, status]);
+
+  if (cards.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h5 className="text-sm font-medium text-gray-900 mb-3">Gift Cards</h5>
+      <ul className="space-y-3">
+        {cards.map(card => (
+          <li key={card.id} className="flex items-start">
+            <Gift className="w-4 h-4 mt-0.5 text-rose-500 flex-shrink-0" />
+            <div className="ml-3">
+              <p className="text-sm font-mono text-gray-900">{card.code}</p>
+              <p className="text-xs text-gray-500">
+                {card.voided_at
+                  ? 'Cancelled'
+                  : `${formatMoney(card.balance, card.currency)} left of ${formatMoney(card.initial_value, card.currency)}`}
+              </p>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import { Truck } from 'lucide-react';
+import { getOrderShipments, getGuestOrderShipments } from '../lib/orderService';
+import { getCarrierName, getTrackingUrl } from '../lib/carrierConfig';
+import type { Order, Shipment } from '../types/database';
+
+interface OrderShipmentsProps {
+  orderId: string;
+  /** Current order status - shipments reload when it changes */
+  status: Order['status'];
+  /** Guest order access token, used instead of the signed-in user's access */
+  accessToken?: string;
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+export function OrderShipments({ orderId, status, accessToken }: OrderShipmentsProps) {
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadShipments() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = accessToken
+          ? await getGuestOrderShipments(accessToken)
+          : await getOrderShipments(orderId);
+        if (!cancelled) setShipments(data);
+      } catch {
+        if (!cancelled) setError('Failed to load shipment details');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadShipments();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, status, accessToken]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center py-2">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (shipments.length === 0) {
+    return <p className="text-sm text-gray-500">No shipments recorded yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {shipments.map((shipment, index) => {
+        const trackingUrl = getTrackingUrl(shipment.carrier, shipment.tracking_number);
+
+        return (
+          <li key={shipment.id} className="flex items-start">
+            <Truck className="w-4 h-4 mt-0.5 text-purple-500 flex-shrink-0" />
+            <div className="ml-3">
+              <p className="text-sm text-gray-900">
+                {shipments.length > 1 && `Parcel ${index + 1} · `}
+                {getCarrierName(shipment.carrier)}
+              </p>
+              <p className="text-xs text-gray-500">Dispatched {formatDate(shipment.dispatched_at)}</p>
+              {shipment.tracking_number && (
+                <p className="text-xs text-gray-600 mt-0.5">
+                  Tracking:{' '}
+                  {trackingUrl ? (
+                    <a
+                      href={trackingUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-rose-600 hover:text-rose-700 underline"
+                    >
+                      {shipment.tracking_number}
+                    </a>
+                  ) : (
+                    shipment.tracking_number
+                  )}
+                </p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { getOrderStatusHistory, getGuestOrderStatusHistory } from '../lib/orderService';
+import type { Order, OrderStatusHistoryEntry } from '../types/database';
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+  /** Current order status - the timeline reloads when it changes */
+  status: Order['status'];
+  /** Show admin-only detail such as who made the change */
+  showAdminDetails?: boolean;
+  /** Guest order access token, used instead of the signed-in user's access */
+  accessToken?: string;
+}
+
+const STATUS_EVENT_LABELS: Record<Order['status'], string> = {
+  pending: 'Order placed',
+  paid: 'Payment confirmed',
+  shipped: 'Order shipped',
+  delivered: 'Order delivered',
+  cancelled: 'Order cancelled'
+};
+
+const STATUS_DOT_COLORS: Record<Order['status'], string> = {
+  pending: 'bg-yellow-400',
+  paid: 'bg-blue-400',
+  shipped: 'bg-purple-400',
+  delivered: 'bg-green-400',
+  cancelled: 'bg-red-400'
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export function OrderStatusTimeline({ orderId, status, showAdminDetails = false, accessToken }: OrderStatusTimelineProps) {
+  const [history, setHistory] = useState<OrderStatusHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadHistory() {
+      try {
+        setLoading(true);
+        setError(null);
+        const entries = accessToken
+          ? await getGuestOrderStatusHistory(accessToken)
+          : await getOrderStatusHistory(orderId);
+        if (!cancelled) setHistory(entries);
+      } catch {
+        if (!cancelled) setError('Failed to load order timeline');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, status, accessToken]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center py-2">
+        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">{error}</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status updates yet.</p>;
+  }
+
+  return (
+    <ol className="space-y-3">
+      {history.map((entry) => (
+        <li key={entry.id} className="flex items-start">
+          <div className={`flex-shrink-0 w-2 h-2 mt-1.5 rounded-full ${STATUS_DOT_COLORS[entry.to_status] ?? 'bg-gray-400'}`}></div>
+          <div className="ml-3">
+            <p className="text-sm text-gray-900">
+              {STATUS_EVENT_LABELS[entry.to_status] ?? entry.to_status}
+            </p>
+            <p className="text-xs text-gray-500">
+              {formatDate(entry.created_at)}
+              {showAdminDetails && (entry.changed_by_admin ? ' · by admin' : ' · automatic')}
+            </p>
+            {entry.note && (
+              <p className="text-xs text-gray-600 mt-0.5">{entry.note}</p>
+            )}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
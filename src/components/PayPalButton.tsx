@@ -7,8 +7,10 @@
 
 import React, { useRef, useEffect, useState } from 'react';
 import { getPayPalConfig, isPayPalConfigured, PayPalErrors } from '../lib/paypalConfig';
-import { calculateSubtotal, calculateDeliveryTotal } from '../lib/orderService';
-import type { CartItem, OrderAddress, PayPalDetails } from '../types/database';
+import { calculateTotal, getAmountDue, getGiftWrap, getOrderQuote } from '../lib/orderService';
+import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import type { AppliedGiftCard, CartItem, DiscountCode, OrderAddress, PayPalDetails, QuotedTotals } from '../types/database';
 import type { PayPalNamespace, PayPalCaptureResult } from '../vite-env.d.ts';
 
 interface PayPalButtonProps {
@@ -18,7 +20,11 @@ interface PayPalButtonProps {
     email: string;
     fullName: string;
     address: OrderAddress;
+    recipientName?: string; // Who the parcel is addressed to when it is a gift
   };
+  discount?: DiscountCode | null;
+  giftCard?: AppliedGiftCard | null; // Pays part of the order; PayPal takes the rest
+  giftWrap?: boolean;
   
   // Callbacks
   onSuccess: (paymentData: PayPalPaymentData) => Promise<void>;
@@ -42,11 +48,15 @@ interface PayPalPaymentData {
   paymentID?: string;
   details: PayPalDetails;
   captureResult: PayPalCaptureResult;
+  quotedTotals: QuotedTotals; // Server totals the payment was taken for
 }
 
 export const PayPalButton: React.FC<PayPalButtonProps> = ({
   cartItems,
   customerInfo,
+  discount,
+  giftCard,
+  giftWrap = false,
   onSuccess,
   onError,
   onCancel,
@@ -56,15 +66,17 @@ export const PayPalButton: React.FC<PayPalButtonProps> = ({
 }) => {
   const paypalRef = useRef<HTMLDivElement>(null);
   const configRef = useRef<any>(null);
+  // Server quote the PayPal order was created for; the order is placed at it
+  const quoteRef = useRef<QuotedTotals | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSDKLoaded, setIsSDKLoaded] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [buttonRendered, setButtonRendered] = useState(false);
+  const { shippingConfig, taxConfig, giftOptions } = useCart();
+  const { currency, exchangeRate } = useCurrency();
 
-  // Calculate order totals
-  const subtotal = calculateSubtotal(cartItems);
-  const deliveryTotal = calculateDeliveryTotal(cartItems);
-  const total = subtotal + deliveryTotal;
+  // Calculate the amount PayPal takes
+  const total = getAmountDue(calculateTotal(cartItems, shippingConfig, customerInfo.address, taxConfig, exchangeRate, discount, getGiftWrap(giftOptions, giftWrap)), giftCard);
 
   useEffect(() => {
     // Check if PayPal is configured
@@ -114,14 +126,14 @@ export const PayPalButton: React.FC<PayPalButtonProps> = ({
       setButtonRendered(false);
 
       // Get PayPal client ID from configuration
-      const config = getPayPalConfig();
+      const config = getPayPalConfig(currency);
       const clientId = config.clientId;
 
       console.log('Loading PayPal SDK with client ID:', clientId?.substring(0, 10) + '...');
 
       // Use the window.loadPayPalSDK function defined in index.html
       if (window.loadPayPalSDK) {
-        await window.loadPayPalSDK(clientId);
+        await window.loadPayPalSDK(clientId, config.currency);
         console.log('PayPal SDK loaded successfully');
         // Setting isSDKLoaded triggers the useEffect which renders the button.
         // Do NOT call renderPayPalButton here directly — that would cause a
@@ -153,7 +165,7 @@ export const PayPalButton: React.FC<PayPalButtonProps> = ({
       setButtonRendered(false);
       console.log('Rendering PayPal button...');
 
-      const config = getPayPalConfig();
+      const config = getPayPalConfig(currency);
       
       // Store current config for comparison
       configRef.current = {
@@ -186,8 +198,17 @@ export const PayPalButton: React.FC<PayPalButtonProps> = ({
               throw new Error('Cart is empty');
             }
 
+            // Charge the server price, not the totals calculated in the browser
+            const quote = await getOrderQuote(cartItems, customerInfo.address, currency, discount?.code, giftWrap);
+            quoteRef.current = { subtotal: quote.subtotal, deliveryTotal: quote.deliveryTotal, total: quote.total };
+
+            // The gift card pays its part; PayPal shows it as a discount
+            const giftCardAmount = Math.min(giftCard?.amount ?? 0, quote.total);
+            const discountTotal = quote.discountTotal + giftCardAmount;
+            const amountDue = getAmountDue(quote.total, giftCard);
+
             // Validate total amount
-            if (total <= 0) {
+            if (amountDue <= 0) {
               throw new Error('Invalid order total');
             }
 
@@ -198,35 +219,57 @@ export const PayPalButton: React.FC<PayPalButtonProps> = ({
                 description: `Wool Witch Order - ${cartItems.length} item(s)`,
                 amount: {
                   currency_code: config.currency,
-                  value: total.toFixed(2),
+                  value: amountDue.toFixed(2),
                   breakdown: {
                     item_total: {
                       currency_code: config.currency,
-                      value: subtotal.toFixed(2)
+                      value: quote.subtotal.toFixed(2)
                     },
                     shipping: {
                       currency_code: config.currency,
-                      value: deliveryTotal.toFixed(2)
-                    }
+                      value: quote.deliveryTotal.toFixed(2)
+                    },
+                    ...(quote.giftWrapTotal > 0 && {
+                      handling: {
+                        currency_code: config.currency,
+                        value: quote.giftWrapTotal.toFixed(2)
+                      }
+                    }),
+                    ...(discountTotal > 0 && {
+                      discount: {
+                        currency_code: config.currency,
+                        value: discountTotal.toFixed(2)
+                      }
+                    }),
+                    // PayPal adds the breakdown up, so tax only appears in
+                    // it when it is charged on top of the prices
+                    ...(!quote.pricesIncludeTax && {
+                      tax_total: {
+                        currency_code: config.currency,
+                        value: quote.taxTotal.toFixed(2)
+                      }
+                    })
                   }
                 },
-                items: cartItems.map(item => ({
-                  name: item.product.name,
-                  description: item.product.description?.substring(0, 127) || 'Handmade crochet item',
+                items: quote.items.map((item, index) => ({
+                  name: item.product_name,
+                  description: cartItems[index]?.product.description?.substring(0, 127) || 'Handmade crochet item',
                   unit_amount: {
                     currency_code: config.currency,
-                    value: item.product.price.toFixed(2)
+                    value: item.unit_price.toFixed(2)
                   },
                   quantity: item.quantity.toString(),
                   category: 'PHYSICAL_GOODS'
                 })),
                 shipping: {
                   address: {
-                    name: { full_name: customerInfo.fullName },
-                    address_line_1: customerInfo.address.address,
+                    name: { full_name: customerInfo.recipientName || customerInfo.fullName },
+                    address_line_1: customerInfo.address.line1,
+                    address_line_2: customerInfo.address.line2,
                     admin_area_2: customerInfo.address.city,
+                    admin_area_1: customerInfo.address.region,
                     postal_code: customerInfo.address.postcode,
-                    country_code: 'GB'
+                    country_code: customerInfo.address.country
                   }
                 }
               }],
@@ -255,25 +298,34 @@ export const PayPalButton: React.FC<PayPalButtonProps> = ({
             const captureResult = await actions.order.capture();
             console.log('PayPal payment captured:', captureResult);
             
+            // Use the amount PayPal actually captured (priced by the server)
+            const capture = captureResult.purchase_units?.[0]?.payments?.captures?.[0];
+            const capturedAmount = capture?.amount?.value ? Number(capture.amount.value) : total;
+
             // Extract payment details
             const paymentDetails: PayPalDetails = {
               paypal_order_id: data.orderID,
               payer_id: data.payerID,
               payer_email: captureResult.payer?.email_address,
               transaction_id: captureResult.id,
-              capture_id: captureResult.purchase_units?.[0]?.payments?.captures?.[0]?.id,
-              gross_amount: total,
+              capture_id: capture?.id,
+              gross_amount: capturedAmount,
               fee_amount: 0, // PayPal doesn't provide fee info in capture
-              net_amount: total
+              net_amount: capturedAmount
             };
 
+            if (!quoteRef.current) {
+              throw new Error('Payment was taken without a price quote');
+            }
+
             // Prepare success data
             const paymentData: PayPalPaymentData = {
               orderID: data.orderID,
               payerID: data.payerID,
               paymentID: captureResult.id,
               details: paymentDetails,
-              captureResult
+              captureResult,
+              quotedTotals: quoteRef.current
             };
 
             // Call success handler
@@ -2,18 +2,27 @@
  * Payment Method Selector Component
  * 
  * Allows users to choose between card payment and PayPal
- * for the checkout process.
+ * for the checkout process, and to pay all or part of the
+ * order with a gift card.
  */
 
 import React from 'react';
 // CreditCard icon not needed since card payment is hidden
 // import { CreditCard } from 'lucide-react';
+import { GiftCardField } from './GiftCardField';
+import type { AppliedGiftCard, GiftCard } from '../types/database';
 
 export type PaymentMethod = 'card' | 'paypal';
 
 interface PaymentMethodSelectorProps {
   selectedMethod: PaymentMethod;
   onMethodChange: (method: PaymentMethod) => void;
+  giftCard: GiftCard | null;
+  appliedGiftCard: AppliedGiftCard | null;
+  onApplyGiftCard: (code: string) => Promise<void>;
+  onRemoveGiftCard: () => void;
+  /** The gift card pays for the whole order, so no other method is needed */
+  coveredByGiftCard?: boolean;
   disabled?: boolean;
   className?: string;
 }
@@ -21,6 +30,11 @@ interface PaymentMethodSelectorProps {
 export const PaymentMethodSelector: React.FC<PaymentMethodSelectorProps> = ({
   selectedMethod,
   onMethodChange,
+  giftCard,
+  appliedGiftCard,
+  onApplyGiftCard,
+  onRemoveGiftCard,
+  coveredByGiftCard = false,
   disabled = false,
   className = ''
 }) => {
@@ -29,104 +43,124 @@ export const PaymentMethodSelector: React.FC<PaymentMethodSelectorProps> = ({
       <h3 className="text-lg font-serif font-semibold text-rose-900">
         Payment Method
       </h3>
-      
-      <div className="space-y-3">
-        {/* Card Payment Option - Hidden for now */}
-        {/* TODO: Re-enable when Stripe is ready to be used
-        <label 
-          className={`
-            flex items-center space-x-3 p-4 border-2 rounded-lg cursor-pointer transition-all
-            ${selectedMethod === 'card' 
-              ? 'border-rose-300 bg-rose-50' 
-              : 'border-gray-200 hover:border-gray-300 bg-white'
-            }
-            ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
-          `}
-        >
-          <input
-            type="radio"
-            name="paymentMethod"
-            value="card"
-            checked={selectedMethod === 'card'}
-            onChange={() => onMethodChange('card')}
-            disabled={disabled}
-            className="w-4 h-4 text-rose-600 border-gray-300 focus:ring-rose-500"
-          />
+
+      {/* Gift Card - pays first, the chosen method pays the rest */}
+      <div>
+        <div className="text-sm font-medium text-gray-900 mb-2">Gift Card</div>
+        <GiftCardField
+          giftCard={giftCard}
+          appliedGiftCard={appliedGiftCard}
+          onApply={onApplyGiftCard}
+          onRemove={onRemoveGiftCard}
+          disabled={disabled}
+        />
+      </div>
+
+      {coveredByGiftCard ? (
+        <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+          Your gift card covers the whole order - there is nothing else to pay.
+        </div>
+      ) : (
+        <>
+          <div className="space-y-3">
+            {/* Card Payment Option - Hidden for now */}
+            {/* TODO: Re-enable when Stripe is ready to be used
+            <label 
+              className={`
+                flex items-center space-x-3 p-4 border-2 rounded-lg cursor-pointer transition-all
+                ${selectedMethod === 'card' 
+                  ? 'border-rose-300 bg-rose-50' 
+                  : 'border-gray-200 hover:border-gray-300 bg-white'
+                }
+                ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+              `}
+            >
+              <input
+                type="radio"
+                name="paymentMethod"
+                value="card"
+                checked={selectedMethod === 'card'}
+                onChange={() => onMethodChange('card')}
+                disabled={disabled}
+                className="w-4 h-4 text-rose-600 border-gray-300 focus:ring-rose-500"
+              />
           
-          <div className="flex items-center space-x-3 flex-1">
-            <div className="flex-shrink-0">
-              <CreditCard className="w-6 h-6 text-gray-600" />
-            </div>
+              <div className="flex items-center space-x-3 flex-1">
+                <div className="flex-shrink-0">
+                  <CreditCard className="w-6 h-6 text-gray-600" />
+                </div>
             
-            <div className="flex-1">
-              <div className="font-medium text-gray-900">Credit/Debit Card</div>
-              <div className="text-sm text-gray-500">
-                Pay securely with your card
-              </div>
-            </div>
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">Credit/Debit Card</div>
+                  <div className="text-sm text-gray-500">
+                    Pay securely with your card
+                  </div>
+                </div>
             
-            <div className="flex space-x-1">
-              <div className="w-8 h-5 bg-gray-100 rounded border text-xs flex items-center justify-center text-gray-600">
-                VISA
-              </div>
-              <div className="w-8 h-5 bg-gray-100 rounded border text-xs flex items-center justify-center text-gray-600">
-                MC
+                <div className="flex space-x-1">
+                  <div className="w-8 h-5 bg-gray-100 rounded border text-xs flex items-center justify-center text-gray-600">
+                    VISA
+                  </div>
+                  <div className="w-8 h-5 bg-gray-100 rounded border text-xs flex items-center justify-center text-gray-600">
+                    MC
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </label>
-        */}
+            </label>
+            */}
 
-        {/* PayPal Payment Option */}
-        <label 
-          className={`
-            flex items-center space-x-3 p-4 border-2 rounded-lg cursor-pointer transition-all
-            ${selectedMethod === 'paypal' 
-              ? 'border-rose-300 bg-rose-50' 
-              : 'border-gray-200 hover:border-gray-300 bg-white'
-            }
-            ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
-          `}
-        >
-          <input
-            type="radio"
-            name="paymentMethod"
-            value="paypal"
-            checked={selectedMethod === 'paypal'}
-            onChange={() => onMethodChange('paypal')}
-            disabled={disabled}
-            className="w-4 h-4 text-rose-600 border-gray-300 focus:ring-rose-500"
-          />
+            {/* PayPal Payment Option */}
+            <label 
+              className={`
+                flex items-center space-x-3 p-4 border-2 rounded-lg cursor-pointer transition-all
+                ${selectedMethod === 'paypal' 
+                  ? 'border-rose-300 bg-rose-50' 
+                  : 'border-gray-200 hover:border-gray-300 bg-white'
+                }
+                ${disabled ? 'opacity-50 cursor-not-allowed' : ''}
+              `}
+            >
+              <input
+                type="radio"
+                name="paymentMethod"
+                value="paypal"
+                checked={selectedMethod === 'paypal'}
+                onChange={() => onMethodChange('paypal')}
+                disabled={disabled}
+                className="w-4 h-4 text-rose-600 border-gray-300 focus:ring-rose-500"
+              />
           
-          <div className="flex items-center space-x-3 flex-1">
-            <div className="flex-shrink-0">
-              {/* PayPal logo */}
-              <div className="w-6 h-6 rounded bg-blue-600 flex items-center justify-center">
-                <span className="text-white text-xs font-bold">PP</span>
-              </div>
-            </div>
+              <div className="flex items-center space-x-3 flex-1">
+                <div className="flex-shrink-0">
+                  {/* PayPal logo */}
+                  <div className="w-6 h-6 rounded bg-blue-600 flex items-center justify-center">
+                    <span className="text-white text-xs font-bold">PP</span>
+                  </div>
+                </div>
             
-            <div className="flex-1">
-              <div className="font-medium text-gray-900">PayPal</div>
-              <div className="text-sm text-gray-500">
-                Pay with your PayPal account or card
-              </div>
-            </div>
+                <div className="flex-1">
+                  <div className="font-medium text-gray-900">PayPal</div>
+                  <div className="text-sm text-gray-500">
+                    Pay with your PayPal account or card
+                  </div>
+                </div>
             
-            <div className="text-blue-600 font-semibold text-lg">
-              PayPal
-            </div>
+                <div className="text-blue-600 font-semibold text-lg">
+                  PayPal
+                </div>
+              </div>
+            </label>
           </div>
-        </label>
-      </div>
 
-      {/* Payment Method Info */}
-      <div className="mt-4 p-3 bg-gray-50 rounded-lg">
-        <div className="text-sm text-gray-600">
-          <p className="font-medium mb-1">PayPal Secure Payment</p>
-          <p>You'll be redirected to PayPal to complete your payment securely. No need to enter card details.</p>
-        </div>
-      </div>
+          {/* Payment Method Info */}
+          <div className="mt-4 p-3 bg-gray-50 rounded-lg">
+            <div className="text-sm text-gray-600">
+              <p className="font-medium mb-1">PayPal Secure Payment</p>
+              <p>You'll be redirected to PayPal to complete your payment securely. No need to enter card details.</p>
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -1,8 +1,11 @@
 import { ShoppingCart, Eye, Settings } from 'lucide-react';
 import { useState } from 'react';
 import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { OptimizedImage } from './OptimizedImage';
 import { CustomPropertiesInput } from './CustomPropertiesInput';
+import { WishlistButton } from './WishlistButton';
+import { StarRating } from './StarRating';
 import { getProductPriceRange } from '../lib/orderService';
 import type { Product, CustomPropertiesConfig, CustomPropertySelection } from '../types/database';
 
@@ -13,6 +16,7 @@ interface ProductCardProps {
 
 export function ProductCard({ product, onViewDetails }: ProductCardProps) {
   const { addItem } = useCart();
+  const { formatPrice } = useCurrency();
   const [isAdded, setIsAdded] = useState(false);
   const [showCustomizeModal, setShowCustomizeModal] = useState(false);
   const [customSelections, setCustomSelections] = useState<CustomPropertySelection[]>([]);
@@ -90,6 +94,7 @@ export function ProductCard({ product, onViewDetails }: ProductCardProps) {
               Customizable
             </div>
           )}
+          <WishlistButton productId={product.id} className="absolute bottom-3 right-3" />
         </div>
 
         <div className="p-5">
@@ -103,6 +108,12 @@ export function ProductCard({ product, onViewDetails }: ProductCardProps) {
             {product.name}
           </h3>
 
+          {product.rating_average != null && product.rating_count > 0 && (
+            <div className="mb-2">
+              <StarRating rating={Number(product.rating_average)} count={product.rating_count} />
+            </div>
+          )}
+
           <p className="text-gray-600 text-sm mb-4 line-clamp-2">
             {product.description}
           </p>
@@ -111,13 +122,13 @@ export function ProductCard({ product, onViewDetails }: ProductCardProps) {
             <div>
               <span className="text-2xl font-bold text-gray-900">
                 {priceMax > priceMin
-                  ? `£${priceMin.toFixed(2)} - £${priceMax.toFixed(2)}`
-                  : `£${priceMin.toFixed(2)}`
+                  ? `${formatPrice(priceMin)} - ${formatPrice(priceMax)}`
+                  : formatPrice(priceMin)
                 }
               </span>
-              {product.delivery_charge != null && product.delivery_charge > 0 && (
+              {!product.shipping_profile_id && product.delivery_charge != null && product.delivery_charge > 0 && (
                 <p className="text-xs text-gray-500">
-                  + £{product.delivery_charge.toFixed(2)} delivery
+                  + {formatPrice(product.delivery_charge)} delivery
                 </p>
               )}
             </div>
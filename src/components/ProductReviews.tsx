@@ -0,0 +1,309 @@
+import { useEffect, useState } from 'react';
+import { ImagePlus, X, BadgeCheck, MessageSquare } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { getProductReviews, getMyProductReview, submitProductReview, uploadReviewImage, getReviewImageUrl } from '../lib/apiService';
+import { compressImage } from '../lib/imageCompression';
+import { StarRating } from './StarRating';
+import type { Product, ProductReview, MyProductReview } from '../types/database';
+
+const MAX_REVIEW_IMAGES = 3;
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+interface ProductReviewsProps {
+  product: Product;
+}
+
+/**
+ * Approved reviews of a product, and a form for signed-in customers who
+ * have received it to write or edit their own
+ */
+export function ProductReviews({ product }: ProductReviewsProps) {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [myReview, setMyReview] = useState<MyProductReview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  // Bumped to reload after submitting a review
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadReviews() {
+      try {
+        setLoading(true);
+        setError(null);
+        const [approved, mine] = await Promise.all([
+          getProductReviews(product.id),
+          user ? getMyProductReview(product.id) : Promise.resolve(null)
+        ]);
+        if (!cancelled) {
+          setReviews(approved);
+          setMyReview(mine);
+        }
+      } catch {
+        if (!cancelled) setError('Failed to load reviews');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadReviews();
+    return () => {
+      cancelled = true;
+    };
+  }, [product.id, user, reloadKey]);
+
+  const ownReview = myReview?.review ?? null;
+
+  return (
+    <section className="mt-16 border-t pt-10">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-serif font-bold text-gray-900">Reviews</h2>
+          {product.rating_average != null && product.rating_count > 0 ? (
+            <div className="mt-1">
+              <StarRating rating={Number(product.rating_average)} count={product.rating_count} size="md" />
+            </div>
+          ) : (
+            <p className="text-gray-600 text-sm mt-1">No reviews yet.</p>
+          )}
+        </div>
+
+        {myReview?.can_review && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+          >
+            <MessageSquare className="w-4 h-4" />
+            <span>{ownReview ? 'Edit Your Review' : 'Write a Review'}</span>
+          </button>
+        )}
+      </div>
+
+      {ownReview && ownReview.status !== 'approved' && !showForm && (
+        <p className={`text-sm px-4 py-3 rounded-lg mb-6 ${
+          ownReview.status === 'rejected' ? 'bg-red-50 text-red-700' : 'bg-amber-50 text-amber-800'
+        }`}>
+          {ownReview.status === 'rejected'
+            ? 'Your review was not published. You can edit it and send it again.'
+            : 'Thank you! Your review will appear here once we have checked it.'}
+        </p>
+      )}
+
+      {showForm && (
+        <ReviewForm
+          productId={product.id}
+          review={ownReview}
+          onSaved={() => {
+            setShowForm(false);
+            setReloadKey((key) => key + 1);
+          }}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {loading && reviews.length === 0 ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {reviews.map(review => (
+            <article key={review.id} className="bg-white rounded-lg shadow p-5">
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mb-2">
+                <StarRating rating={review.rating} />
+                <span className="font-medium text-gray-900">{review.reviewer_name}</span>
+                {review.verified_purchase && (
+                  <span className="flex items-center text-xs text-green-700">
+                    <BadgeCheck className="w-4 h-4 mr-1" />
+                    Verified purchase
+                  </span>
+                )}
+                <span className="text-sm text-gray-500">{formatDate(review.created_at)}</span>
+              </div>
+              <p className="text-gray-700 whitespace-pre-line">{review.body}</p>
+              {review.images.length > 0 && (
+                <div className="flex flex-wrap gap-3 mt-3">
+                  {review.images.map(path => (
+                    <a key={path} href={getReviewImageUrl(path)} target="_blank" rel="noopener noreferrer">
+                      <img
+                        src={getReviewImageUrl(path)}
+                        alt={`Photo from ${review.reviewer_name}`}
+                        loading="lazy"
+                        className="w-24 h-24 object-cover rounded-md border border-gray-200"
+                      />
+                    </a>
+                  ))}
+                </div>
+              )}
+            </article>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+interface ReviewFormProps {
+  productId: string;
+  review: MyProductReview['review'];
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+function ReviewForm({ productId, review, onSaved, onCancel }: ReviewFormProps) {
+  const [rating, setRating] = useState(review?.rating ?? 0);
+  const [body, setBody] = useState(review?.body ?? '');
+  const [images, setImages] = useState<string[]>(review?.images ?? []);
+  const [uploading, setUploading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []).slice(0, MAX_REVIEW_IMAGES - images.length);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setError(null);
+    try {
+      const paths: string[] = [];
+      for (const file of files) {
+        if (!file.type.startsWith('image/')) {
+          throw new Error('Please choose image files only');
+        }
+        const compressedFile = await compressImage(file);
+        paths.push(await uploadReviewImage(compressedFile));
+      }
+      setImages((current) => [...current, ...paths]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload photo');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (rating < 1) {
+      setError('Please choose a star rating');
+      return;
+    }
+    if (body.trim().length < 10) {
+      setError('Please tell us a little more (at least 10 characters)');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await submitProductReview({
+        product_id: productId,
+        rating,
+        body: body.trim(),
+        images
+      });
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-rose-50 rounded-xl p-5 space-y-4 mb-8">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Your rating *</label>
+        <StarRating rating={rating} size="lg" onChange={setRating} />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Your review *</label>
+        <textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={4}
+          maxLength={2000}
+          required
+          placeholder="What did you think of it?"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Photos (optional, up to {MAX_REVIEW_IMAGES})
+        </label>
+        <div className="flex flex-wrap gap-3">
+          {images.map(path => (
+            <div key={path} className="relative">
+              <img
+                src={getReviewImageUrl(path)}
+                alt="Your photo"
+                className="w-20 h-20 object-cover rounded-md border border-gray-200"
+              />
+              <button
+                type="button"
+                onClick={() => setImages((current) => current.filter(image => image !== path))}
+                className="absolute -top-2 -right-2 bg-white rounded-full shadow text-gray-500 hover:text-red-600"
+                title="Remove"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {images.length < MAX_REVIEW_IMAGES && (
+            <label className="w-20 h-20 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-md text-gray-500 hover:border-rose-400 hover:text-rose-600 cursor-pointer bg-white">
+              <ImagePlus className="w-6 h-6" />
+              <span className="text-xs mt-1">{uploading ? 'Uploading...' : 'Add'}</span>
+              <input
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/gif"
+                multiple
+                onChange={handleImageChange}
+                disabled={uploading}
+                className="hidden"
+              />
+            </label>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Reviews are checked before they appear. We show your first name and last initial, never your email.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex space-x-3">
+        <button
+          type="submit"
+          disabled={saving || uploading}
+          className="bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+        >
+          {saving ? 'Saving...' : review ? 'Update Review' : 'Submit Review'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
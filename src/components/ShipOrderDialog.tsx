@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { getCarriers } from '../lib/carrierConfig';
+import type { Order, ShipmentInput } from '../types/database';
+
+interface ShipOrderDialogProps {
+  order: Order;
+  /** Note entered alongside the status change, if any */
+  initialNote?: string;
+  onConfirm: (shipments: ShipmentInput[], note?: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyParcel = (carrier: string, dispatchedAt: string): ShipmentInput => ({
+  carrier,
+  tracking_number: '',
+  dispatched_at: dispatchedAt
+});
+
+export function ShipOrderDialog({ order, initialNote, onConfirm, onClose }: ShipOrderDialogProps) {
+  const carriers = getCarriers();
+  const [parcels, setParcels] = useState<ShipmentInput[]>([emptyParcel(carriers[0].code, today())]);
+  const [note, setNote] = useState(initialNote ?? '');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateParcel = (index: number, changes: Partial<ShipmentInput>) => {
+    setParcels(parcels.map((parcel, i) => (i === index ? { ...parcel, ...changes } : parcel)));
+  };
+
+  // New parcels default to the previous parcel's carrier and dispatch date
+  const addParcel = () => {
+    const last = parcels[parcels.length - 1];
+    setParcels([...parcels, emptyParcel(last.carrier, last.dispatched_at)]);
+  };
+
+  const removeParcel = (index: number) => {
+    setParcels(parcels.filter((_, i) => i !== index));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (parcels.some((parcel) => !parcel.dispatched_at)) {
+      setError('Enter a dispatch date for every parcel');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onConfirm(
+        parcels.map((parcel) => ({ ...parcel, tracking_number: parcel.tracking_number.trim() })),
+        note.trim() || undefined
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to mark order shipped');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full p-6 relative max-h-[90vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        <h2 className="text-xl font-bold text-gray-900 mb-1">Mark Order Shipped</h2>
+        <p className="text-sm text-gray-600 mb-6">
+          Order {order.order_number} · {order.full_name}
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {parcels.map((parcel, index) => (
+            <div key={index} className="border border-gray-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-gray-900">Parcel {index + 1}</h3>
+                {parcels.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => removeParcel(index)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove parcel"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Carrier</label>
+                  <select
+                    value={parcel.carrier}
+                    onChange={(e) => updateParcel(index, { carrier: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+                  >
+                    {carriers.map((carrier) => (
+                      <option key={carrier.code} value={carrier.code}>{carrier.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Dispatch Date</label>
+                  <input
+                    type="date"
+                    value={parcel.dispatched_at}
+                    max={today()}
+                    onChange={(e) => updateParcel(index, { dispatched_at: e.target.value })}
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Tracking Number</label>
+                <input
+                  type="text"
+                  value={parcel.tracking_number}
+                  onChange={(e) => updateParcel(index, { tracking_number: e.target.value })}
+                  maxLength={100}
+                  placeholder="Optional"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+                />
+              </div>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={addParcel}
+            className="flex items-center text-sm text-rose-600 hover:text-rose-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add another parcel
+          </button>
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={1000}
+            rows={2}
+            placeholder="Optional note"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:border-rose-600"
+          />
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-rose-600 hover:bg-rose-700 disabled:bg-gray-400 rounded-lg transition-colors"
+            >
+              {submitting ? 'Saving...' : 'Mark Shipped'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { Star } from 'lucide-react';
+
+interface StarRatingProps {
+  rating: number; // 0-5; halves and above round up to a full star
+  count?: number; // Number of reviews, shown after the stars
+  size?: 'sm' | 'md' | 'lg';
+  onChange?: (rating: number) => void; // Makes the stars a picker
+}
+
+const STAR_SIZES = {
+  sm: 'w-4 h-4',
+  md: 'w-5 h-5',
+  lg: 'w-7 h-7'
+};
+
+/** Five stars showing a rating, or choosing one when onChange is given */
+export function StarRating({ rating, count, size = 'sm', onChange }: StarRatingProps) {
+  const filled = Math.round(rating);
+
+  return (
+    <div className="flex items-center gap-1">
+      <div
+        className="flex items-center"
+        role={onChange ? 'radiogroup' : 'img'}
+        aria-label={onChange ? 'Rating' : `Rated ${rating} out of 5`}
+      >
+        {[1, 2, 3, 4, 5].map(star => {
+          const icon = (
+            <Star className={`${STAR_SIZES[size]} ${star <= filled ? 'fill-amber-400 text-amber-400' : 'text-gray-300'}`} />
+          );
+          return onChange ? (
+            <button
+              key={star}
+              type="button"
+              role="radio"
+              aria-checked={star === filled}
+              aria-label={`${star} star${star !== 1 ? 's' : ''}`}
+              onClick={() => onChange(star)}
+              className="p-0.5 rounded focus:outline-none focus:ring-2 focus:ring-rose-500"
+            >
+              {icon}
+            </button>
+          ) : (
+            <span key={star}>{icon}</span>
+          );
+        })}
+      </div>
+      {count !== undefined && (
+        <span className="text-sm text-gray-600">
+          {rating.toFixed(1)} ({count} review{count !== 1 ? 's' : ''})
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Bell, CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { requestStockNotification } from '../lib/apiService';
+import type { CustomPropertiesConfig, CustomPropertyDropdown, Product } from '../types/database';
+
+// Stored with the request as the customer's consent
+const CONSENT_TEXT = 'Email me once when this item is back. Wool Witch will not use my email address for anything else.';
+
+// Select value for "the item as a whole"; options are `${propertyId}:${option}`
+const ANY_OPTION = '';
+
+interface StockNotificationFormProps {
+  product: Product;
+  /** The product can be bought; offer only the dropdown options that sold out */
+  soldOutOptionsOnly?: boolean;
+}
+
+/**
+ * "Notify me" for a sold out or unavailable product. The customer can wait
+ * for the product as a whole or for one dropdown option.
+ */
+export function StockNotificationForm({ product, soldOutOptionsOnly = false }: StockNotificationFormProps) {
+  const { user } = useAuth();
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [consented, setConsented] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [requested, setRequested] = useState(false);
+
+  const customProperties = product.custom_properties as CustomPropertiesConfig | null;
+  const dropdowns = (customProperties?.properties ?? [])
+    .filter((property): property is CustomPropertyDropdown => property.type === 'dropdown')
+    .map(dropdown => soldOutOptionsOnly
+      ? { ...dropdown, options: dropdown.options.filter(value => dropdown.optionStock?.[value] === 0) }
+      : dropdown)
+    .filter(dropdown => dropdown.options.length > 0);
+  const firstOption = dropdowns[0] ? `${dropdowns[0].id}:${dropdowns[0].options[0]}` : ANY_OPTION;
+  const [option, setOption] = useState(soldOutOptionsOnly ? firstOption : ANY_OPTION);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!consented) {
+      setError('Please tick the box so we can email you');
+      return;
+    }
+
+    const separator = option.indexOf(':');
+    setSaving(true);
+    setError(null);
+    try {
+      await requestStockNotification({
+        product_id: product.id,
+        email: email.trim(),
+        consent_text: CONSENT_TEXT,
+        property_id: option === ANY_OPTION ? null : option.slice(0, separator),
+        option_value: option === ANY_OPTION ? null : option.slice(separator + 1)
+      });
+      setRequested(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save your request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (requested) {
+    return (
+      <div className="flex items-start gap-3 bg-green-50 text-green-800 px-4 py-3 rounded-lg">
+        <CheckCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <p className="text-sm">We will email {email.trim()} as soon as this is back.</p>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-rose-50 rounded-xl p-5 space-y-3">
+      <h2 className="flex items-center text-lg font-semibold text-gray-900">
+        <Bell className="w-5 h-5 text-rose-600 mr-2" />
+        {soldOutOptionsOnly ? 'Tell me when an option is back' : "Tell me when it's back"}
+      </h2>
+
+      {dropdowns.length > 0 && (
+        <select
+          value={option}
+          onChange={(e) => setOption(e.target.value)}
+          className={`${inputClass} bg-white`}
+        >
+          {!soldOutOptionsOnly && <option value={ANY_OPTION}>Any option</option>}
+          {dropdowns.map(dropdown => (
+            <optgroup key={dropdown.id} label={dropdown.label}>
+              {dropdown.options.map(value => (
+                <option key={value} value={`${dropdown.id}:${value}`}>{value}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      )}
+
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        maxLength={254}
+        required
+        autoComplete="email"
+        placeholder="Your email address"
+        className={inputClass}
+      />
+
+      <label className="flex items-start space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={consented}
+          onChange={(e) => setConsented(e.target.checked)}
+          className="mt-0.5 rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+        />
+        <span>{CONSENT_TEXT}</span>
+      </label>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={saving}
+        className="w-full bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+      >
+        {saving ? 'Saving...' : 'Notify Me'}
+      </button>
+    </form>
+  );
+}
@@ -14,7 +14,11 @@ import {
 } from '@stripe/react-stripe-js';
 import { loadStripe } from '@stripe/stripe-js';
 import { getEnvironmentStripeConfig, isDevelopmentMode } from '../lib/stripeConfig';
-import type { CartItem, OrderAddress } from '../types/database';
+import { calculateTotal, getAmountDue, getGiftWrap } from '../lib/orderService';
+import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { formatMoney } from '../lib/money';
+import type { AppliedGiftCard, CartItem, OrderAddress } from '../types/database';
 
 // Card element styling
 const cardElementOptions = {
@@ -51,6 +55,8 @@ interface StripeCardFormProps {
     fullName: string;
     address: OrderAddress;
   };
+  giftCard?: AppliedGiftCard | null; // Pays part of the order; the card takes the rest
+  giftWrap?: boolean;
   onSuccess: (paymentData: StripePaymentData) => Promise<void>;
   onError: (error: string) => void;
   disabled?: boolean;
@@ -65,6 +71,8 @@ interface StripeCardPaymentProps extends StripeCardFormProps {
 const StripeCardForm: React.FC<StripeCardFormProps> = ({
   cartItems,
   customerInfo,
+  giftCard,
+  giftWrap = false,
   onSuccess,
   onError,
   disabled = false,
@@ -75,13 +83,14 @@ const StripeCardForm: React.FC<StripeCardFormProps> = ({
   const [isProcessing, setIsProcessing] = useState(false);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [chargedTotal, setChargedTotal] = useState<number | null>(null);
 
-  // Calculate total amount
-  const total = cartItems.reduce((sum, item) => {
-    const itemTotal = item.product.price * item.quantity;
-    const deliveryTotal = (item.product.delivery_charge || 0) * item.quantity;
-    return sum + itemTotal + deliveryTotal;
-  }, 0);
+  const { shippingConfig, taxConfig, giftOptions, discount, discountProblem } = useCart();
+  const { currency, exchangeRate } = useCurrency();
+  const appliedDiscount = discountProblem ? null : discount;
+
+  // Display total - the amount charged is priced by the server
+  const total = getAmountDue(calculateTotal(cartItems, shippingConfig, customerInfo.address, taxConfig, exchangeRate, appliedDiscount, getGiftWrap(giftOptions, giftWrap)), giftCard);
 
   // Create payment intent when component mounts
   useEffect(() => {
@@ -108,8 +117,18 @@ const StripeCardForm: React.FC<StripeCardFormProps> = ({
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          amount: Math.round(total * 100), // Convert to cents
-          currency: 'gbp',
+          // The edge function prices these items itself
+          items: cartItems.map(item => ({
+            product_id: item.product.id,
+            quantity: item.quantity,
+            custom_selections: item.customSelections ?? [],
+            commission_token: item.commissionToken
+          })),
+          address: customerInfo.address,
+          currency,
+          discount_code: appliedDiscount?.code ?? null,
+          gift_card_code: giftCard?.code ?? null,
+          gift_wrap: giftWrap,
           customer_email: customerInfo.email,
           metadata: {
             customer_name: customerInfo.fullName,
@@ -125,6 +144,7 @@ const StripeCardForm: React.FC<StripeCardFormProps> = ({
       }
 
       setClientSecret(data.client_secret);
+      setChargedTotal(data.amount / 100);
       
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to initialize payment';
@@ -180,11 +200,12 @@ const StripeCardForm: React.FC<StripeCardFormProps> = ({
               name: customerInfo.fullName,
               email: customerInfo.email,
               address: {
-                line1: customerInfo.address.address,
-                line2: undefined,
+                line1: customerInfo.address.line1,
+                line2: customerInfo.address.line2,
                 city: customerInfo.address.city,
+                state: customerInfo.address.region,
                 postal_code: customerInfo.address.postcode,
-                country: 'GB',
+                country: customerInfo.address.country,
               },
             },
           },
@@ -257,7 +278,7 @@ const StripeCardForm: React.FC<StripeCardFormProps> = ({
             Processing Payment...
           </span>
         ) : (
-          `Pay £${total.toFixed(2)}`
+          `Pay ${formatMoney(chargedTotal ?? total, currency)}`
         )}
       </button>
 
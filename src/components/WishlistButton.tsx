@@ -0,0 +1,40 @@
+import { useState } from 'react';
+import { Heart } from 'lucide-react';
+import { useWishlist } from '../contexts/WishlistContext';
+
+interface WishlistButtonProps {
+  productId: string;
+  className?: string;
+}
+
+/** Heart that saves a product to, or removes it from, the wishlist */
+export function WishlistButton({ productId, className = '' }: WishlistButtonProps) {
+  const { isInWishlist, toggleWishlist } = useWishlist();
+  const [saving, setSaving] = useState(false);
+  const saved = isInWishlist(productId);
+
+  const handleClick = async () => {
+    setSaving(true);
+    try {
+      await toggleWishlist(productId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update your wishlist');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      disabled={saving}
+      aria-pressed={saved}
+      aria-label={saved ? 'Remove from wishlist' : 'Save to wishlist'}
+      title={saved ? 'Remove from wishlist' : 'Save to wishlist'}
+      className={`flex items-center justify-center w-10 h-10 rounded-full bg-white shadow-md hover:bg-rose-50 transition-colors ${className}`}
+    >
+      <Heart className={`w-5 h-5 ${saved ? 'fill-rose-600 text-rose-600' : 'text-gray-600'}`} />
+    </button>
+  );
+}
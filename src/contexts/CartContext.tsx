@@ -1,35 +1,61 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { validateCartProducts } from '../lib/cartDebug';
-import { calculateSubtotal, calculateDeliveryTotal, calculateTotal } from '../lib/orderService';
-import type { Product, CustomPropertySelection } from '../types/database';
+import { calculateSubtotal, calculateDeliveryTotal, calculateTotal, getFreeDeliveryRemaining, getOrderTax, getOrderDiscount, getDiscountableLines, getDiscountCode, getShippingRegion } from '../lib/orderService';
+import { estimateCartDelivery, DeliveryEstimate } from '../lib/leadTime';
+import { getShippingConfig, getTaxConfig, getGiftOptions } from '../lib/apiService';
+import { getDiscountProblem } from '../lib/discountCalculator';
+import { useCurrency } from './CurrencyContext';
+import type { Product, CustomPropertySelection, DiscountCode, ShippingConfig, TaxConfig, GiftOptionsConfig } from '../types/database';
 
 export interface CartItem {
   id: string; // Unique identifier for this cart line item
   product: Product;
   quantity: number;
   customSelections?: CustomPropertySelection[];
+  commissionToken?: string; // Quote access token; required to buy a commission piece
 }
 
 interface CartContextType {
   items: CartItem[];
-  addItem: (product: Product, quantity: number, customSelections?: CustomPropertySelection[]) => void;
+  addItem: (product: Product, quantity: number, customSelections?: CustomPropertySelection[], commissionToken?: string) => void;
   removeItem: (cartItemId: string) => void;
   updateQuantity: (cartItemId: string, quantity: number) => void;
   updateCustomSelections: (cartItemId: string, customSelections: CustomPropertySelection[]) => void;
   clearCart: () => void;
   cleanupCart: () => Promise<number>; // Returns number of items removed
+  applyDiscountCode: (code: string) => Promise<void>; // Throws with a message for the customer
+  removeDiscountCode: () => void;
+  discount: DiscountCode | null;
+  discountProblem: string | null; // Why the applied code takes nothing off this cart
+  // Totals are in the customer's chosen currency (see CurrencyContext)
   subtotal: number;
-  deliveryTotal: number;
+  deliveryTotal: number; // Priced for the default shipping region
+  discountTotal: number;
+  taxTotal: number; // Tax for the default country (included in total when prices include tax)
+  taxLabel: string;
+  pricesIncludeTax: boolean;
   total: number;
   itemCount: number;
+  freeDeliveryRemaining: number | null;
+  deliveryEstimate: DeliveryEstimate | null; // For the default shipping region; null when nothing is posted
+  shippingConfig: ShippingConfig | null;
+  taxConfig: TaxConfig | null;
+  giftOptions: GiftOptionsConfig | null;
   isLoading: boolean;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
+const DISCOUNT_STORAGE_KEY = 'woolwitch-discount-code';
+
 export function CartProvider({ children }: { children: ReactNode }) {
   const [items, setItems] = useState<CartItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [shippingConfig, setShippingConfig] = useState<ShippingConfig | null>(null);
+  const [taxConfig, setTaxConfig] = useState<TaxConfig | null>(null);
+  const [giftOptions, setGiftOptions] = useState<GiftOptionsConfig | null>(null);
+  const [discount, setDiscount] = useState<DiscountCode | null>(null);
+  const { exchangeRate, baseCurrency } = useCurrency();
 
   // Load cart from localStorage on mount
   useEffect(() => {
@@ -77,6 +103,41 @@ export function CartProvider({ children }: { children: ReactNode }) {
     loadAndValidateCart();
   }, []);
 
+  // Load shipping rules so delivery is priced the way create_order prices it
+  useEffect(() => {
+    getShippingConfig()
+      .then(setShippingConfig)
+      .catch(error => console.error('Error loading shipping rates:', error));
+  }, []);
+
+  // Load tax rates so tax is worked out the way create_order works it out
+  useEffect(() => {
+    getTaxConfig()
+      .then(setTaxConfig)
+      .catch(error => console.error('Error loading tax rates:', error));
+  }, []);
+
+  // Load gift wrapping so checkout can offer it at the create_order charge
+  useEffect(() => {
+    getGiftOptions()
+      .then(setGiftOptions)
+      .catch(error => console.error('Error loading gift options:', error));
+  }, []);
+
+  // Re-check a saved discount code; it may have expired or been used up
+  useEffect(() => {
+    try {
+      const savedCode = localStorage.getItem(DISCOUNT_STORAGE_KEY);
+      if (savedCode) {
+        getDiscountCode(savedCode)
+          .then(setDiscount)
+          .catch(() => localStorage.removeItem(DISCOUNT_STORAGE_KEY));
+      }
+    } catch (error) {
+      console.error('Error loading discount code from localStorage:', error);
+    }
+  }, []);
+
   // Save cart to localStorage whenever items change
   useEffect(() => {
     if (!isLoading) {
@@ -88,7 +149,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }
   }, [items, isLoading]);
 
-  const addItem = (product: Product, quantity: number, customSelections?: CustomPropertySelection[]) => {
+  const addItem = (product: Product, quantity: number, customSelections?: CustomPropertySelection[], commissionToken?: string) => {
     setItems((prevItems) => {
       // For products with custom properties, we need to check if the same selections already exist
       const existing = prevItems.find((item) => {
@@ -121,7 +182,7 @@ export function CartProvider({ children }: { children: ReactNode }) {
       }
       
       const newId = `cart-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-      return [...prevItems, { id: newId, product, quantity, customSelections }];
+      return [...prevItems, { id: newId, product, quantity, customSelections, commissionToken }];
     });
   };
 
@@ -196,11 +257,32 @@ export function CartProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  const applyDiscountCode = async (code: string) => {
+    const applied = await getDiscountCode(code);
+    setDiscount(applied);
+    try {
+      localStorage.setItem(DISCOUNT_STORAGE_KEY, applied.code);
+    } catch (error) {
+      console.error('Error saving discount code to localStorage:', error);
+    }
+  };
+
+  const removeDiscountCode = () => {
+    setDiscount(null);
+    try {
+      localStorage.removeItem(DISCOUNT_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error clearing discount code from localStorage:', error);
+    }
+  };
+
   const clearCart = () => {
     setItems([]);
+    setDiscount(null);
     // Also clear from localStorage immediately
     try {
       localStorage.removeItem('woolwitch-cart');
+      localStorage.removeItem(DISCOUNT_STORAGE_KEY);
     } catch (error) {
       console.error('Error clearing cart from localStorage:', error);
     }
@@ -231,10 +313,15 @@ export function CartProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const subtotal = calculateSubtotal(items);
-  const deliveryTotal = calculateDeliveryTotal(items);
-  const total = calculateTotal(items);
+  const subtotal = calculateSubtotal(items, exchangeRate);
+  const deliveryTotal = calculateDeliveryTotal(items, shippingConfig, undefined, exchangeRate);
+  const discountProblem = discount && items.length > 0 ? getDiscountProblem(discount, getDiscountableLines(items), baseCurrency) : null;
+  const { discountTotal } = getOrderDiscount(items, shippingConfig, undefined, discount, exchangeRate);
+  const { taxTotal, label: taxLabel, pricesIncludeTax } = getOrderTax(items, shippingConfig, undefined, taxConfig, exchangeRate, discount);
+  const total = calculateTotal(items, shippingConfig, undefined, taxConfig, exchangeRate, discount);
   const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
+  const freeDeliveryRemaining = getFreeDeliveryRemaining(items, shippingConfig, exchangeRate);
+  const deliveryEstimate = estimateCartDelivery(items, shippingConfig ? getShippingRegion(shippingConfig.regions) : undefined);
 
   return (
     <CartContext.Provider value={{ 
@@ -245,10 +332,23 @@ export function CartProvider({ children }: { children: ReactNode }) {
       updateCustomSelections,
       clearCart,
       cleanupCart,
+      applyDiscountCode,
+      removeDiscountCode,
+      discount,
+      discountProblem,
       subtotal,
       deliveryTotal,
+      discountTotal,
+      taxTotal,
+      taxLabel,
+      pricesIncludeTax,
       total,
       itemCount,
+      freeDeliveryRemaining,
+      deliveryEstimate,
+      shippingConfig,
+      taxConfig,
+      giftOptions,
       isLoading
     }}>
       {children}
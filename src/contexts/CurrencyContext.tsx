@@ -0,0 +1,80 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { getCurrencyConfig } from '../lib/apiService';
+import { DEFAULT_CURRENCY, convertAmount, formatMoney, getAvailableCurrencies, getExchangeRate, isCurrencyCode } from '../lib/money';
+import type { CurrencyCode, CurrencyConfig } from '../types/database';
+
+interface CurrencyContextType {
+  currency: CurrencyCode; // Currency the customer is shopping in
+  setCurrency: (currency: CurrencyCode) => void;
+  currencies: CurrencyCode[]; // Base currency plus every currency with an exchange rate
+  baseCurrency: CurrencyCode;
+  exchangeRate: number; // Units of the chosen currency per 1 unit of the base currency
+  currencyConfig: CurrencyConfig | null;
+  formatPrice: (amount: number) => string; // Converts a base currency amount and formats it
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'woolwitch-currency';
+
+const loadSavedCurrency = (): CurrencyCode | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return isCurrencyCode(saved) ? saved : null;
+  } catch {
+    return null;
+  }
+};
+
+export function CurrencyProvider({ children }: { children: ReactNode }) {
+  const [currencyConfig, setCurrencyConfig] = useState<CurrencyConfig | null>(null);
+  const [selectedCurrency, setSelectedCurrency] = useState<CurrencyCode | null>(loadSavedCurrency);
+
+  // Load exchange rates so prices are converted the way create_order converts them
+  useEffect(() => {
+    getCurrencyConfig()
+      .then(setCurrencyConfig)
+      .catch(error => console.error('Error loading exchange rates:', error));
+  }, []);
+
+  const baseCurrency = currencyConfig?.base_currency ?? DEFAULT_CURRENCY;
+  const currencies = getAvailableCurrencies(currencyConfig);
+
+  // Until the rates have loaded (or when a saved currency is no longer
+  // offered) prices are shown in the base currency
+  const currency = selectedCurrency && currencies.includes(selectedCurrency) ? selectedCurrency : baseCurrency;
+  const exchangeRate = getExchangeRate(currencyConfig, currency);
+
+  const setCurrency = (code: CurrencyCode) => {
+    setSelectedCurrency(code);
+    try {
+      localStorage.setItem(STORAGE_KEY, code);
+    } catch (error) {
+      console.error('Error saving currency to localStorage:', error);
+    }
+  };
+
+  const formatPrice = (amount: number) => formatMoney(convertAmount(amount, exchangeRate), currency);
+
+  return (
+    <CurrencyContext.Provider value={{
+      currency,
+      setCurrency,
+      currencies,
+      baseCurrency,
+      exchangeRate,
+      currencyConfig,
+      formatPrice
+    }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+}
+
+export function useCurrency() {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within CurrencyProvider');
+  }
+  return context;
+}
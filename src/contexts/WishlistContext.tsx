@@ -0,0 +1,144 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { getWishlist, addToWishlist, removeFromWishlist, getWishlistShareToken } from '../lib/apiService';
+
+interface WishlistContextType {
+  productIds: string[]; // Newest first
+  isInWishlist: (productId: string) => boolean;
+  toggleWishlist: (productId: string) => Promise<void>; // Throws with a message for the customer
+  getShareLink: (reset?: boolean) => Promise<string>; // Signed-in customers only
+  isLoading: boolean;
+  mergeNotice: string | null; // Set when a guest wishlist did not fully fit on sign in
+  dismissMergeNotice: () => void;
+}
+
+const WishlistContext = createContext<WishlistContextType | undefined>(undefined);
+
+// Guests' wishlists; moved to their saved wishlist when they sign in
+const STORAGE_KEY = 'woolwitch-wishlist';
+
+const loadGuestWishlist = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveGuestWishlist = (productIds: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(productIds));
+  } catch (error) {
+    console.error('Error saving wishlist to localStorage:', error);
+  }
+};
+
+export function WishlistProvider({ children }: { children: ReactNode }) {
+  const { user, loading: authLoading } = useAuth();
+  const [productIds, setProductIds] = useState<string[]>(loadGuestWishlist);
+  const [isLoading, setIsLoading] = useState(true);
+  const [mergeNotice, setMergeNotice] = useState<string | null>(null);
+  const userId = user?.id ?? null;
+
+  // Load the saved wishlist on sign in, adding anything saved as a guest
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (!userId) {
+      setProductIds(loadGuestWishlist());
+      setMergeNotice(null);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    const loadWishlist = async () => {
+      try {
+        const guestIds = loadGuestWishlist();
+        if (guestIds.length > 0) {
+          // Anything past the 200 item limit is dropped rather than retried
+          // on every sign in
+          const leftOut = await addToWishlist(guestIds);
+          localStorage.removeItem(STORAGE_KEY);
+          if (leftOut > 0 && !cancelled) {
+            setMergeNotice(`Your wishlist is full, so ${leftOut} ${leftOut === 1 ? 'item' : 'items'} saved in this browser could not be added. You can save up to 200 items.`);
+          }
+        }
+        const savedIds = await getWishlist();
+        if (!cancelled) setProductIds(savedIds);
+      } catch (error) {
+        console.error('Error loading wishlist:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadWishlist();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, authLoading]);
+
+  const isInWishlist = (productId: string) => productIds.includes(productId);
+
+  const toggleWishlist = async (productId: string) => {
+    const saved = isInWishlist(productId);
+    const previous = productIds;
+    const next = saved
+      ? productIds.filter(id => id !== productId)
+      : [productId, ...productIds];
+
+    setProductIds(next);
+
+    if (!userId) {
+      saveGuestWishlist(next);
+      return;
+    }
+
+    try {
+      if (saved) {
+        await removeFromWishlist(productId);
+      } else {
+        if (await addToWishlist([productId]) > 0) {
+          throw new Error('You can save up to 200 items');
+        }
+      }
+    } catch (error) {
+      setProductIds(previous);
+      throw error;
+    }
+  };
+
+  const getShareLink = async (reset: boolean = false) => {
+    if (!userId) {
+      throw new Error('Sign in to share your wishlist');
+    }
+    const token = await getWishlistShareToken(reset);
+    return `${window.location.origin}/?wishlist=${encodeURIComponent(token)}`;
+  };
+
+  return (
+    <WishlistContext.Provider value={{
+      productIds,
+      isInWishlist,
+      toggleWishlist,
+      getShareLink,
+      isLoading,
+      mergeNotice,
+      dismissMergeNotice: () => setMergeNotice(null)
+    }}>
+      {children}
+    </WishlistContext.Provider>
+  );
+}
+
+export function useWishlist() {
+  const context = useContext(WishlistContext);
+  if (!context) {
+    throw new Error('useWishlist must be used within WishlistProvider');
+  }
+  return context;
+}
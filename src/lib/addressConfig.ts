@@ -0,0 +1,166 @@
+/**
+ * Address Configuration Utility
+ *
+ * Lists the countries addresses can be taken for, with their postcode and
+ * region rules, and validates and formats structured order addresses. The
+ * same rules are in woolwitch.address_countries and
+ * woolwitch.normalize_order_address; keep them in step.
+ */
+
+import type { OrderAddress, LegacyOrderAddress } from '../types/database';
+
+// Country configuration interface
+export interface CountryConfig {
+  /** ISO 3166-1 alpha-2 code */
+  code: string;
+  name: string;
+  postcodeLabel: string;
+  postcodePlaceholder: string;
+  /** Pattern the normalised postcode must match, or null to accept any */
+  postcodePattern: RegExp | null;
+  postcodeRequired: boolean;
+  regionLabel: string;
+  regionRequired: boolean;
+}
+
+export const DEFAULT_COUNTRY = 'GB';
+
+// UK and Ireland first, then alphabetical
+export const COUNTRIES: CountryConfig[] = [
+  { code: 'GB', name: 'United Kingdom', postcodeLabel: 'Postcode', postcodePlaceholder: 'SW1A 1AA', postcodePattern: /^[A-Z]{1,2}[0-9][A-Z0-9]? [0-9][A-Z]{2}$/, postcodeRequired: true, regionLabel: 'County', regionRequired: false },
+  { code: 'IE', name: 'Ireland', postcodeLabel: 'Eircode', postcodePlaceholder: 'D02 X285', postcodePattern: /^[A-Z][0-9][0-9W] ?[0-9A-Z]{4}$/, postcodeRequired: false, regionLabel: 'County', regionRequired: false },
+  { code: 'AU', name: 'Australia', postcodeLabel: 'Postcode', postcodePlaceholder: '2000', postcodePattern: /^[0-9]{4}$/, postcodeRequired: true, regionLabel: 'State / Territory', regionRequired: true },
+  { code: 'AT', name: 'Austria', postcodeLabel: 'Postal code', postcodePlaceholder: '1010', postcodePattern: /^[0-9]{4}$/, postcodeRequired: true, regionLabel: 'Region', regionRequired: false },
+  { code: 'BE', name: 'Belgium', postcodeLabel: 'Postal code', postcodePlaceholder: '1000', postcodePattern: /^[0-9]{4}$/, postcodeRequired: true, regionLabel: 'Region', regionRequired: false },
+  { code: 'CA', name: 'Canada', postcodeLabel: 'Postal code', postcodePlaceholder: 'K1A 0B1', postcodePattern: /^[A-Z][0-9][A-Z] ?[0-9][A-Z][0-9]$/, postcodeRequired: true, regionLabel: 'Province', regionRequired: true },
+  { code: 'DK', name: 'Denmark', postcodeLabel: 'Postal code', postcodePlaceholder: '1050', postcodePattern: /^[0-9]{4}$/, postcodeRequired: true, regionLabel: 'Region', regionRequired: false },
+  { code: 'FI', name: 'Finland', postcodeLabel: 'Postal code', postcodePlaceholder: '00100', postcodePattern: /^[0-9]{5}$/, postcodeRequired: true, regionLabel: 'Region', regionRequired: false },
+  { code: 'FR', name: 'France', postcodeLabel: 'Postal code', postcodePlaceholder: '75001', postcodePattern: /^[0-9]{5}$/, postcodeRequired: true, regionLabel: 'Region', regionRequired: false },
+  { code: 'DE', name: 'Germany', postcodeLabel: 'Postal code', postcodePlaceholder: '10115', postcodePattern: /^[0-9]{5}$/, postcodeRequired: true, regionLabel: 'State', regionRequired: false },
+  { code: 'IT', name: 'Italy', postcodeLabel: 'Postal code', postcodePlaceholder: '00118', postcodePattern: /^[0-9]{5}$/, postcodeRequired: true, regionLabel: 'Province', regionRequired: false },
+  { code: 'NL', name: 'Netherlands', postcodeLabel: 'Postal code', postcodePlaceholder: '1012 AB', postcodePattern: /^[0-9]{4} ?[A-Z]{2}$/, postcodeRequired: true, regionLabel: 'Province', regionRequired: false },
+  { code: 'NZ', name: 'New Zealand', postcodeLabel: 'Postcode', postcodePlaceholder: '6011', postcodePattern: /^[0-9]{4}$/, postcodeRequired: true, regionLabel: 'Region', regionRequired: false },
+  { code: 'NO', name: 'Norway', postcodeLabel: 'Postal code', postcodePlaceholder: '0150', postcodePattern: /^[0-9]{4}$/, postcodeRequired: true, regionLabel: 'County', regionRequired: false },
+  { code: 'PL', name: 'Poland', postcodeLabel: 'Postal code', postcodePlaceholder: '00-001', postcodePattern: /^[0-9]{2}-[0-9]{3}$/, postcodeRequired: true, regionLabel: 'Province', regionRequired: false },
+  { code: 'PT', name: 'Portugal', postcodeLabel: 'Postal code', postcodePlaceholder: '1000-001', postcodePattern: /^[0-9]{4}-[0-9]{3}$/, postcodeRequired: true, regionLabel: 'District', regionRequired: false },
+  { code: 'ES', name: 'Spain', postcodeLabel: 'Postal code', postcodePlaceholder: '28001', postcodePattern: /^[0-9]{5}$/, postcodeRequired: true, regionLabel: 'Province', regionRequired: false },
+  { code: 'SE', name: 'Sweden', postcodeLabel: 'Postal code', postcodePlaceholder: '111 22', postcodePattern: /^[0-9]{3} ?[0-9]{2}$/, postcodeRequired: true, regionLabel: 'County', regionRequired: false },
+  { code: 'CH', name: 'Switzerland', postcodeLabel: 'Postal code', postcodePlaceholder: '8001', postcodePattern: /^[0-9]{4}$/, postcodeRequired: true, regionLabel: 'Canton', regionRequired: false },
+  { code: 'US', name: 'United States', postcodeLabel: 'ZIP code', postcodePlaceholder: '10001', postcodePattern: /^[0-9]{5}(-[0-9]{4})?$/, postcodeRequired: true, regionLabel: 'State', regionRequired: true }
+];
+
+/**
+ * Get the configuration for a country code
+ */
+export const getCountry = (code: string | undefined): CountryConfig | undefined => {
+  const normalized = (code ?? '').trim().toUpperCase();
+  return COUNTRIES.find(country => country.code === normalized);
+};
+
+/**
+ * Display name for a country code, falling back to the code itself
+ */
+export const getCountryName = (code: string | undefined): string => {
+  return getCountry(code)?.name ?? (code ?? '').toUpperCase();
+};
+
+/**
+ * Upper-case a postcode and collapse its spaces; UK postcodes get a single
+ * space before the inward code ("sw1a1aa" -> "SW1A 1AA")
+ */
+export const normalizePostcode = (postcode: string, countryCode: string): string => {
+  const normalized = postcode.trim().replace(/\s+/g, ' ').toUpperCase();
+
+  if (countryCode.toUpperCase() === 'GB') {
+    const compact = normalized.replace(/ /g, '');
+    if (compact.length > 3) {
+      return `${compact.slice(0, -3)} ${compact.slice(-3)}`;
+    }
+  }
+
+  return normalized;
+};
+
+/**
+ * Read a stored order address, accepting the old { address, city, postcode }
+ * shape as a UK address
+ */
+export const toOrderAddress = (address: OrderAddress | LegacyOrderAddress): OrderAddress => {
+  if ('line1' in address) return address;
+
+  return {
+    line1: address.address,
+    city: address.city,
+    postcode: address.postcode,
+    country: DEFAULT_COUNTRY
+  };
+};
+
+/**
+ * Check an address against its country's rules, returning the problems
+ * found (empty when valid)
+ */
+export const validateAddress = (address: OrderAddress): string[] => {
+  const errors: string[] = [];
+  const country = getCountry(address.country);
+
+  if (!address.line1 || address.line1.trim().length < 3) {
+    errors.push('Street address is required');
+  }
+
+  if (!address.city || address.city.trim().length < 2) {
+    errors.push('City is required');
+  }
+
+  if (!country) {
+    errors.push('Please choose a country we can deliver to');
+    return errors;
+  }
+
+  if (country.regionRequired && !address.region?.trim()) {
+    errors.push(`${country.regionLabel} is required`);
+  }
+
+  const postcode = normalizePostcode(address.postcode ?? '', country.code);
+  if (!postcode) {
+    if (country.postcodeRequired) {
+      errors.push(`${country.postcodeLabel} is required`);
+    }
+  } else if (country.postcodePattern && !country.postcodePattern.test(postcode)) {
+    errors.push(`Please enter a valid ${country.postcodeLabel.toLowerCase()} for ${country.name}`);
+  }
+
+  return errors;
+};
+
+/**
+ * Address as display lines: street lines, city with region and postcode,
+ * then the country for addresses outside the UK
+ */
+export const formatAddressLines = (address: OrderAddress | LegacyOrderAddress): string[] => {
+  const { line1, line2, city, region, postcode, country } = toOrderAddress(address);
+  const locality = [city, region, postcode].filter(Boolean).join(', ');
+
+  return [
+    line1,
+    line2,
+    locality,
+    country && country !== DEFAULT_COUNTRY ? getCountryName(country) : undefined
+  ].filter((line): line is string => Boolean(line));
+};
+
+/**
+ * Whether two addresses are the same once normalised, ignoring case
+ */
+export const isSameAddress = (a: OrderAddress, b: OrderAddress): boolean => {
+  const key = (address: OrderAddress) => [
+    address.line1,
+    address.line2,
+    address.city,
+    address.region,
+    normalizePostcode(address.postcode ?? '', address.country),
+    address.country
+  ].map(part => (part ?? '').trim().toLowerCase()).join('|');
+
+  return key(a) === key(b);
+};
@@ -8,32 +8,39 @@
 
 import { supabase } from './supabase';
 import { handleApiError } from './errorHandler';
-import type { Product, Order, OrderItem, CustomPropertiesConfig } from '../types/database';
+import type { Product, ProductReview, MyProductReview, AdminProductReview, ReviewStatus, Order, OrderItem, OrderAddress, OrderQuote, OrderStatusHistoryEntry, Shipment, ShipmentInput, Refund, OrderDocumentType, OrderDocumentFormat, GuestOrderAccess, EmailOutboxEntry, EmailDelivery, CustomPropertiesConfig, CustomPropertySelection, ShippingConfig, ShippingMethod, ShippingRate, TaxClass, TaxConfig, GiftOptionsConfig, CustomerAddress, CurrencyCode, CurrencyConfig, DiscountCode, DiscountType, AdminDiscountCode, GiftCard, OrderGiftCard, AdminGiftCard, GiftCardTransaction, CommissionStatus, CommissionQuote, AdminCommissionRequest } from '../types/database';
 
 // ========================================
 // PRODUCT API
 // ========================================
 
+export type ProductSort = 'featured' | 'rating';
+
 export interface ProductListParams {
   category?: string;
   search?: string;
   limit?: number;
   offset?: number;
+  sort?: ProductSort; // 'rating' lists the best rated first
 }
 
 export async function getProducts(params: ProductListParams = {}): Promise<Product[]> {
-  const { category, search, limit = 50, offset = 0 } = params;
+  const { category, search, limit = 50, offset = 0, sort = 'featured' } = params;
   
   const { data, error } = await supabase.rpc('get_products', {
     p_category: category || null,
     p_search: search || null,
     p_limit: limit,
-    p_offset: offset
+    p_offset: offset,
+    p_sort: sort === 'featured' ? null : sort
   });
 
   if (error) handleApiError(error, 'fetching products');
 
-  return (data || []) as Product[];
+  return ((data || []) as Product[]).map(product => ({
+    ...product,
+    rating_average: product.rating_average === null ? null : Number(product.rating_average)
+  }));
 }
 
 export async function getProductById(productId: string): Promise<Product | null> {
@@ -81,6 +88,11 @@ export interface CreateProductData {
   is_available?: boolean;
   price_max?: number;
   custom_properties?: CustomPropertiesConfig | null;
+  shipping_profile_id?: string | null;
+  weight_grams?: number | null;
+  tax_class?: TaxClass;
+  is_gift_card?: boolean;
+  lead_time_days?: number;
 }
 
 export async function createProduct(productData: CreateProductData): Promise<string> {
@@ -94,7 +106,12 @@ export async function createProduct(productData: CreateProductData): Promise<str
     p_delivery_charge: productData.delivery_charge ?? 0,
     p_is_available: productData.is_available ?? true,
     p_price_max: productData.price_max ?? null,
-    p_custom_properties: productData.custom_properties ?? null
+    p_custom_properties: productData.custom_properties ?? null,
+    p_shipping_profile_id: productData.shipping_profile_id ?? null,
+    p_weight_grams: productData.weight_grams ?? null,
+    p_tax_class: productData.tax_class ?? 'standard',
+    p_is_gift_card: productData.is_gift_card ?? false,
+    p_lead_time_days: productData.lead_time_days ?? 0
   });
 
   if (error) handleApiError(error, 'creating product');
@@ -117,7 +134,12 @@ export async function updateProduct(
     p_delivery_charge: productData.delivery_charge ?? 0,
     p_is_available: productData.is_available ?? true,
     p_price_max: productData.price_max ?? null,
-    p_custom_properties: productData.custom_properties ?? null
+    p_custom_properties: productData.custom_properties ?? null,
+    p_shipping_profile_id: productData.shipping_profile_id ?? null,
+    p_weight_grams: productData.weight_grams ?? null,
+    p_tax_class: productData.tax_class ?? 'standard',
+    p_is_gift_card: productData.is_gift_card ?? false,
+    p_lead_time_days: productData.lead_time_days ?? 0
   });
 
   if (error) handleApiError(error, 'updating product');
@@ -142,145 +164,1415 @@ export async function deleteProduct(productId: string): Promise<void> {
 }
 
 // ========================================
-// ORDER API
+// SHIPPING API
 // ========================================
 
-export interface CreateOrderParams {
-  email: string;
-  fullName: string;
-  address: {
-    address: string;
-    city: string;
-    postcode: string;
+export async function getShippingConfig(): Promise<ShippingConfig> {
+  const { data, error } = await supabase.rpc('get_shipping_config');
+
+  if (error) handleApiError(error, 'fetching shipping rates');
+
+  const config = (data || { regions: [], profiles: [] }) as ShippingConfig;
+
+  return {
+    regions: config.regions,
+    profiles: config.profiles.map(profile => ({
+      ...profile,
+      free_over: profile.free_over === null ? null : Number(profile.free_over),
+      rates: profile.rates.map(rate => ({
+        ...rate,
+        first_item: Number(rate.first_item),
+        additional_item: Number(rate.additional_item)
+      }))
+    }))
   };
-  subtotal: number;
-  deliveryTotal: number;
-  total: number;
-  paymentMethod: 'card' | 'paypal' | 'stripe';
-  orderItems: Array<{
-    product_id: string;
-    product_name: string;
-    product_price: number;
-    quantity: number;
-    delivery_charge: number;
-  }>;
 }
 
-export async function createOrder(orderData: CreateOrderParams): Promise<string> {
-  const { data, error } = await supabase.rpc('create_order', {
-    p_email: orderData.email,
-    p_full_name: orderData.fullName,
-    p_address: orderData.address,
-    p_subtotal: orderData.subtotal,
-    p_delivery_total: orderData.deliveryTotal,
-    p_total: orderData.total,
-    p_payment_method: orderData.paymentMethod,
-    p_order_items: orderData.orderItems
+export interface ShippingProfileInput {
+  name: string;
+  method: ShippingMethod;
+  free_over: number | null;
+  rates: ShippingRate[];
+}
+
+export async function createShippingProfile(profile: ShippingProfileInput): Promise<string> {
+  const { data, error } = await supabase.rpc('create_shipping_profile', {
+    p_name: profile.name,
+    p_method: profile.method,
+    p_free_over: profile.free_over,
+    p_rates: profile.rates
   });
 
-  if (error) handleApiError(error, 'creating order');
+  if (error) handleApiError(error, 'creating shipping profile');
 
   return data as string;
 }
 
-export async function createPayment(params: {
-  orderId: string;
-  paymentMethod: string;
-  paymentId: string;
-  amount: number;
-  status?: string;
-  paypalDetails?: any;
-  stripeDetails?: any;
-}): Promise<string> {
-  const { data, error } = await supabase.rpc('create_payment', {
-    p_order_id: params.orderId,
-    p_payment_method: params.paymentMethod,
-    p_payment_id: params.paymentId,
-    p_amount: params.amount,
-    p_status: params.status || 'pending',
-    p_paypal_details: params.paypalDetails || null,
-    p_stripe_details: params.stripeDetails || null
+export async function updateShippingProfile(profileId: string, profile: ShippingProfileInput): Promise<void> {
+  const { error } = await supabase.rpc('update_shipping_profile', {
+    p_profile_id: profileId,
+    p_name: profile.name,
+    p_method: profile.method,
+    p_free_over: profile.free_over,
+    p_rates: profile.rates
   });
 
-  if (error) handleApiError(error, 'creating payment');
+  if (error) handleApiError(error, 'updating shipping profile');
+}
+
+export async function deleteShippingProfile(profileId: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_shipping_profile', {
+    p_profile_id: profileId
+  });
+
+  if (error) handleApiError(error, 'deleting shipping profile');
+}
+
+export interface ShippingRegionInput {
+  name: string;
+  countries: string[];
+  postcode_prefixes: string[];
+  sort_order: number;
+  transit_days: number;
+}
+
+export async function createShippingRegion(region: ShippingRegionInput): Promise<string> {
+  const { data, error } = await supabase.rpc('create_shipping_region', {
+    p_name: region.name,
+    p_postcode_prefixes: region.postcode_prefixes,
+    p_sort_order: region.sort_order,
+    p_countries: region.countries,
+    p_transit_days: region.transit_days
+  });
+
+  if (error) handleApiError(error, 'creating shipping region');
 
   return data as string;
 }
 
-export async function updateOrderStatus(
-  orderId: string,
-  status: Order['status']
-): Promise<void> {
-  const { error } = await supabase.rpc('update_order_status', {
-    p_order_id: orderId,
-    p_status: status
+export async function updateShippingRegion(regionId: string, region: ShippingRegionInput): Promise<void> {
+  const { error } = await supabase.rpc('update_shipping_region', {
+    p_region_id: regionId,
+    p_name: region.name,
+    p_postcode_prefixes: region.postcode_prefixes,
+    p_sort_order: region.sort_order,
+    p_countries: region.countries,
+    p_transit_days: region.transit_days
   });
 
-  if (error) handleApiError(error, 'updating order status');
+  if (error) handleApiError(error, 'updating shipping region');
 }
 
-export async function updatePaymentStatus(
-  paymentId: string,
-  status: 'pending' | 'completed' | 'failed' | 'refunded',
-  paymentDetails?: any
-): Promise<void> {
-  const { error } = await supabase.rpc('update_payment_status', {
-    p_payment_id: paymentId,
-    p_status: status,
-    p_payment_details: paymentDetails || null
+export async function deleteShippingRegion(regionId: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_shipping_region', {
+    p_region_id: regionId
   });
 
-  if (error) handleApiError(error, 'updating payment status');
+  if (error) handleApiError(error, 'deleting shipping region');
 }
 
-export async function getUserOrders(limit: number = 50): Promise<Order[]> {
-  const { data, error } = await supabase.rpc('get_user_orders', {
-    p_limit: limit
+// ========================================
+// TAX API
+// ========================================
+
+export async function getTaxConfig(): Promise<TaxConfig> {
+  const { data, error } = await supabase.rpc('get_tax_config');
+
+  if (error) handleApiError(error, 'fetching tax rates');
+
+  const config = (data || { prices_include_tax: true, delivery_tax_class: 'standard', rates: [] }) as TaxConfig;
+
+  return {
+    prices_include_tax: config.prices_include_tax,
+    delivery_tax_class: config.delivery_tax_class,
+    rates: config.rates.map(rate => ({ ...rate, rate: Number(rate.rate) }))
+  };
+}
+
+export async function updateTaxSettings(pricesIncludeTax: boolean, deliveryTaxClass: TaxClass): Promise<void> {
+  const { error } = await supabase.rpc('update_tax_settings', {
+    p_prices_include_tax: pricesIncludeTax,
+    p_delivery_tax_class: deliveryTaxClass
   });
 
-  if (error) handleApiError(error, 'fetching user orders');
+  if (error) handleApiError(error, 'updating tax settings');
+}
 
-  return (data || []) as Order[];
+export interface TaxRateInput {
+  country: string;
+  tax_class: TaxClass;
+  name: string;
+  rate: number;
 }
 
-export async function getAllOrders(params: {
-  status?: string;
-  paymentMethod?: string;
+export async function saveTaxRate(rate: TaxRateInput): Promise<string> {
+  const { data, error } = await supabase.rpc('save_tax_rate', {
+    p_country: rate.country,
+    p_tax_class: rate.tax_class,
+    p_name: rate.name,
+    p_rate: rate.rate
+  });
+
+  if (error) handleApiError(error, 'saving tax rate');
+
+  return data as string;
+}
+
+export async function deleteTaxRate(taxRateId: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_tax_rate', {
+    p_tax_rate_id: taxRateId
+  });
+
+  if (error) handleApiError(error, 'deleting tax rate');
+}
+
+// ========================================
+// CURRENCY API
+// ========================================
+
+export async function getCurrencyConfig(): Promise<CurrencyConfig> {
+  const { data, error } = await supabase.rpc('get_currency_config');
+
+  if (error) handleApiError(error, 'fetching exchange rates');
+
+  const config = (data || { base_currency: 'GBP', rates: [] }) as CurrencyConfig;
+
+  return {
+    base_currency: config.base_currency,
+    rates: config.rates.map(rate => ({ ...rate, rate: Number(rate.rate) }))
+  };
+}
+
+export async function updateBaseCurrency(baseCurrency: CurrencyCode): Promise<void> {
+  const { error } = await supabase.rpc('update_base_currency', {
+    p_base_currency: baseCurrency
+  });
+
+  if (error) handleApiError(error, 'updating base currency');
+}
+
+export async function saveExchangeRate(currency: CurrencyCode, rate: number): Promise<void> {
+  const { error } = await supabase.rpc('save_exchange_rate', {
+    p_currency: currency,
+    p_rate: rate
+  });
+
+  if (error) handleApiError(error, 'saving exchange rate');
+}
+
+export async function deleteExchangeRate(currency: CurrencyCode): Promise<void> {
+  const { error } = await supabase.rpc('delete_exchange_rate', {
+    p_currency: currency
+  });
+
+  if (error) handleApiError(error, 'deleting exchange rate');
+}
+
+// ========================================
+// DISCOUNT API
+// ========================================
+
+/**
+ * A discount code the customer entered. Throws the WWD01 error from
+ * get_discount_code (message written for the customer) when it cannot be used.
+ */
+export async function getDiscountCode(code: string): Promise<DiscountCode> {
+  const { data, error } = await supabase.rpc('get_discount_code', {
+    p_code: code
+  });
+
+  if (error) handleApiError(error, 'checking discount code');
+
+  const discount = data as DiscountCode;
+
+  return {
+    ...discount,
+    value: Number(discount.value),
+    min_spend: discount.min_spend === null ? null : Number(discount.min_spend)
+  };
+}
+
+export async function getDiscountCodes(): Promise<AdminDiscountCode[]> {
+  const { data, error } = await supabase.rpc('get_discount_codes');
+
+  if (error) handleApiError(error, 'fetching discount codes');
+
+  return ((data || []) as AdminDiscountCode[]).map(discount => ({
+    ...discount,
+    value: Number(discount.value),
+    min_spend: discount.min_spend === null ? null : Number(discount.min_spend)
+  }));
+}
+
+export interface DiscountCodeInput {
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  value: number;
+  min_spend: number | null;
+  max_uses: number | null;
+  starts_at: string | null;
+  expires_at: string | null;
+  product_ids: string[];
+  categories: string[];
+  is_active: boolean;
+}
+
+const toDiscountCodeParams = (discount: DiscountCodeInput) => ({
+  p_code: discount.code,
+  p_description: discount.description,
+  p_discount_type: discount.discount_type,
+  p_value: discount.value,
+  p_min_spend: discount.min_spend,
+  p_max_uses: discount.max_uses,
+  p_starts_at: discount.starts_at,
+  p_expires_at: discount.expires_at,
+  p_product_ids: discount.product_ids,
+  p_categories: discount.categories,
+  p_is_active: discount.is_active
+});
+
+export async function createDiscountCode(discount: DiscountCodeInput): Promise<string> {
+  const { data, error } = await supabase.rpc('create_discount_code', toDiscountCodeParams(discount));
+
+  if (error) handleApiError(error, 'creating discount code');
+
+  return data as string;
+}
+
+export async function updateDiscountCode(discountCodeId: string, discount: DiscountCodeInput): Promise<void> {
+  const { error } = await supabase.rpc('update_discount_code', {
+    p_discount_code_id: discountCodeId,
+    ...toDiscountCodeParams(discount)
+  });
+
+  if (error) handleApiError(error, 'updating discount code');
+}
+
+export async function deleteDiscountCode(discountCodeId: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_discount_code', {
+    p_discount_code_id: discountCodeId
+  });
+
+  if (error) handleApiError(error, 'deleting discount code');
+}
+
+// ========================================
+// GIFT CARD API
+// ========================================
+
+/**
+ * A gift card the customer entered. Throws the WWG01 error from
+ * get_gift_card (message written for the customer) when it cannot be used.
+ */
+export async function getGiftCard(code: string): Promise<GiftCard> {
+  const { data, error } = await supabase.rpc('get_gift_card', {
+    p_code: code
+  });
+
+  if (error) handleApiError(error, 'checking gift card');
+
+  const card = data as GiftCard;
+
+  return { ...card, balance: Number(card.balance) };
+}
+
+export async function getOrderGiftCards(orderId: string): Promise<OrderGiftCard[]> {
+  const { data, error } = await supabase.rpc('get_order_gift_cards', {
+    p_order_id: orderId
+  });
+
+  if (error) handleApiError(error, 'fetching order gift cards');
+
+  return ((data || []) as OrderGiftCard[]).map(card => ({
+    ...card,
+    initial_value: Number(card.initial_value),
+    balance: Number(card.balance)
+  }));
+}
+
+export async function getGiftCards(params: {
+  search?: string;
   limit?: number;
   offset?: number;
-} = {}): Promise<Order[]> {
-  const { status, paymentMethod, limit = 50, offset = 0 } = params;
-  
-  const { data, error } = await supabase.rpc('get_all_orders', {
-    p_status: status || null,
-    p_payment_method: paymentMethod || null,
-    p_limit: limit,
-    p_offset: offset
+} = {}): Promise<AdminGiftCard[]> {
+  const { data, error } = await supabase.rpc('get_gift_cards', {
+    p_search: params.search || null,
+    p_limit: params.limit ?? 50,
+    p_offset: params.offset ?? 0
   });
 
-  if (error) handleApiError(error, 'fetching all orders');
+  if (error) handleApiError(error, 'fetching gift cards');
 
-  return (data || []) as Order[];
+  return ((data || []) as AdminGiftCard[]).map(card => ({
+    ...card,
+    initial_value: Number(card.initial_value),
+    balance: Number(card.balance)
+  }));
 }
 
-export async function getOrderById(orderId: string): Promise<Order | null> {
-  const { data, error } = await supabase.rpc('get_order_by_id', {
-    p_order_id: orderId
+export async function getGiftCardTransactions(giftCardId: string): Promise<GiftCardTransaction[]> {
+  const { data, error } = await supabase.rpc('get_gift_card_transactions', {
+    p_gift_card_id: giftCardId
   });
 
-  if (error) handleApiError(error, 'fetching order');
+  if (error) handleApiError(error, 'fetching gift card transactions');
 
-  return data && data.length > 0 ? (data[0] as Order) : null;
+  return ((data || []) as GiftCardTransaction[]).map(transaction => ({
+    ...transaction,
+    amount: Number(transaction.amount)
+  }));
 }
 
-export async function getOrderItems(orderId: string): Promise<OrderItem[]> {
-  const { data, error } = await supabase.rpc('get_order_items', {
-    p_order_id: orderId
+export interface GiftCardInput {
+  amount: number;
+  currency: CurrencyCode;
+  recipient_email: string | null;
+  note: string | null;
+}
+
+/**
+ * Issue a gift card by hand; returns the new card's code
+ */
+export async function issueGiftCard(card: GiftCardInput): Promise<string> {
+  const { data, error } = await supabase.rpc('issue_gift_card', {
+    p_amount: card.amount,
+    p_currency: card.currency,
+    p_recipient_email: card.recipient_email,
+    p_note: card.note
   });
 
-  if (error) handleApiError(error, 'fetching order items');
+  if (error) handleApiError(error, 'issuing gift card');
 
-  return (data || []) as OrderItem[];
+  return data as string;
+}
+
+export async function voidGiftCard(giftCardId: string, reason?: string): Promise<void> {
+  const { error } = await supabase.rpc('void_gift_card', {
+    p_gift_card_id: giftCardId,
+    p_reason: reason || null
+  });
+
+  if (error) handleApiError(error, 'voiding gift card');
+}
+
+// ========================================
+// GIFT OPTIONS API
+// ========================================
+
+export async function getGiftOptions(): Promise<GiftOptionsConfig> {
+  const { data, error } = await supabase.rpc('get_gift_options');
+
+  if (error) handleApiError(error, 'fetching gift options');
+
+  const options = (data || { gift_wrap_enabled: false, gift_wrap_charge: 0, gift_wrap_tax_class: 'standard' }) as GiftOptionsConfig;
+
+  return { ...options, gift_wrap_charge: Number(options.gift_wrap_charge) };
+}
+
+export async function updateGiftOptions(options: GiftOptionsConfig): Promise<void> {
+  const { error } = await supabase.rpc('update_gift_options', {
+    p_gift_wrap_enabled: options.gift_wrap_enabled,
+    p_gift_wrap_charge: options.gift_wrap_charge,
+    p_gift_wrap_tax_class: options.gift_wrap_tax_class
+  });
+
+  if (error) handleApiError(error, 'updating gift options');
+}
+
+// ========================================
+// CUSTOMER ADDRESS API
+// ========================================
+
+/**
+ * The signed-in customer's address book, default first
+ */
+export async function getCustomerAddresses(): Promise<CustomerAddress[]> {
+  const { data, error } = await supabase.rpc('get_customer_addresses');
+
+  if (error) handleApiError(error, 'fetching saved addresses');
+
+  return (data || []) as CustomerAddress[];
+}
+
+export interface CustomerAddressInput {
+  label: string | null;
+  full_name: string;
+  address: OrderAddress;
+  is_default: boolean;
+}
+
+const toCustomerAddressParams = (address: CustomerAddressInput) => ({
+  p_label: address.label,
+  p_full_name: address.full_name,
+  p_address: address.address,
+  p_is_default: address.is_default
+});
+
+export async function createCustomerAddress(address: CustomerAddressInput): Promise<string> {
+  const { data, error } = await supabase.rpc('create_customer_address', toCustomerAddressParams(address));
+
+  if (error) handleApiError(error, 'saving address');
+
+  return data as string;
+}
+
+export async function updateCustomerAddress(addressId: string, address: CustomerAddressInput): Promise<void> {
+  const { error } = await supabase.rpc('update_customer_address', {
+    p_address_id: addressId,
+    ...toCustomerAddressParams(address)
+  });
+
+  if (error) handleApiError(error, 'updating address');
+}
+
+export async function deleteCustomerAddress(addressId: string): Promise<void> {
+  const { error } = await supabase.rpc('delete_customer_address', {
+    p_address_id: addressId
+  });
+
+  if (error) handleApiError(error, 'deleting address');
+}
+
+// ========================================
+// COMMISSION API
+// ========================================
+
+const COMMISSION_IMAGE_BUCKET = 'commission-images';
+const PRODUCT_IMAGE_BUCKET = 'woolwitch-images';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+/**
+ * Upload a reference image for a commission request and return its path in
+ * the commission-images bucket. Compress it first: the bucket takes 50KB.
+ * The bucket is private, so the commission-upload-url edge function hands
+ * out the path with a signed upload URL.
+ */
+export async function uploadCommissionImage(file: File): Promise<string> {
+  const { data, error } = await supabase.functions.invoke('commission-upload-url', {
+    body: {
+      content_type: file.type
+    }
+  });
+
+  if (error) {
+    // Surface the edge function's message instead of the generic HTTP error
+    const details = await error.context?.json?.().catch(() => null);
+    handleApiError(details?.error ? new Error(details.error) : error, 'uploading reference image');
+  }
+
+  const { path, token } = data as { path: string; token: string };
+  const { error: uploadError } = await supabase.storage
+    .from(COMMISSION_IMAGE_BUCKET)
+    .uploadToSignedUrl(path, token, file, { cacheControl: '3600' });
+
+  if (uploadError) handleApiError(uploadError, 'uploading reference image');
+
+  return path;
+}
+
+/**
+ * Short-lived URLs for commission reference images (admin only), keyed by
+ * path. Paths that could not be signed are left out.
+ */
+export async function getCommissionImageUrls(paths: string[]): Promise<Record<string, string>> {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(COMMISSION_IMAGE_BUCKET)
+    .createSignedUrls(paths, 3600);
+
+  if (error) handleApiError(error, 'fetching reference images');
+
+  const urls: Record<string, string> = {};
+  for (const entry of data || []) {
+    if (entry.path && entry.signedUrl) {
+      urls[entry.path] = entry.signedUrl;
+    }
+  }
+  return urls;
+}
+
+/**
+ * Copy a reference image into the public product image bucket so it can be
+ * the quoted piece's picture (admin only). Returns its public URL.
+ */
+export async function publishCommissionImage(path: string): Promise<string> {
+  const { error } = await supabase.storage
+    .from(COMMISSION_IMAGE_BUCKET)
+    .copy(path, path, { destinationBucket: PRODUCT_IMAGE_BUCKET });
+
+  // Already copied for an earlier quote
+  if (error && !/exists/i.test(error.message)) handleApiError(error, 'copying reference image');
+
+  return supabase.storage.from(PRODUCT_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export interface CommissionRequestInput {
+  email: string;
+  full_name: string;
+  description: string;
+  budget: string | null;
+  colours: string | null;
+  reference_images: string[];
+}
+
+export async function submitCommissionRequest(request: CommissionRequestInput): Promise<string> {
+  const { data, error } = await supabase.rpc('submit_commission_request', {
+    p_email: request.email,
+    p_full_name: request.full_name,
+    p_description: request.description,
+    p_budget: request.budget,
+    p_colours: request.colours,
+    p_reference_images: request.reference_images
+  });
+
+  if (error) handleApiError(error, 'submitting commission request');
+
+  return data as string;
+}
+
+/**
+ * The request and quote for the token in a quote link, or null when the
+ * token does not match one
+ */
+export async function getCommissionQuote(accessToken: string): Promise<CommissionQuote | null> {
+  const { data, error } = await supabase.rpc('get_commission_quote', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'fetching quote');
+
+  if (!data || data.length === 0) return null;
+
+  const quote = data[0] as CommissionQuote;
+
+  return { ...quote, quote_price: quote.quote_price === null ? null : Number(quote.quote_price) };
+}
+
+/**
+ * Accept a quote; returns the id of the quoted piece to add to the cart
+ */
+export async function acceptCommissionQuote(accessToken: string): Promise<string> {
+  const { data, error } = await supabase.rpc('accept_commission_quote', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'accepting quote');
+
+  return data as string;
+}
+
+/**
+ * The quoted piece for the quote page's cart. Commission pieces are not
+ * listed in the shop, so they are only readable with the quote's token.
+ */
+export async function getCommissionProduct(accessToken: string): Promise<Product | null> {
+  const { data, error } = await supabase.rpc('get_commission_product', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'fetching quoted piece');
+
+  return data && data.length > 0 ? (data[0] as Product) : null;
+}
+
+export async function declineCommissionQuote(accessToken: string): Promise<void> {
+  const { error } = await supabase.rpc('decline_commission_quote', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'declining quote');
+}
+
+export async function getCommissionRequests(params: {
+  status?: CommissionStatus;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<AdminCommissionRequest[]> {
+  const { data, error } = await supabase.rpc('get_commission_requests', {
+    p_status: params.status || null,
+    p_limit: params.limit ?? 50,
+    p_offset: params.offset ?? 0
+  });
+
+  if (error) handleApiError(error, 'fetching commission requests');
+
+  return ((data || []) as AdminCommissionRequest[]).map(request => ({
+    ...request,
+    quote_price: request.quote_price === null ? null : Number(request.quote_price),
+    delivery_charge: request.delivery_charge === null ? null : Number(request.delivery_charge)
+  }));
+}
+
+export interface CommissionQuoteInput {
+  title: string;
+  price: number;
+  message: string | null;
+  lead_time_days: number;
+  image_url: string | null;
+  shipping_profile_id: string | null;
+  delivery_charge: number;
+  weight_grams: number | null;
+}
+
+/**
+ * Quote a request (or quote it again) and email the quote to the customer
+ */
+export async function quoteCommissionRequest(requestId: string, quote: CommissionQuoteInput): Promise<void> {
+  const { error } = await supabase.rpc('quote_commission_request', {
+    p_request_id: requestId,
+    p_title: quote.title,
+    p_price: quote.price,
+    p_message: quote.message,
+    p_lead_time_days: quote.lead_time_days,
+    p_image_url: quote.image_url,
+    p_shipping_profile_id: quote.shipping_profile_id,
+    p_delivery_charge: quote.delivery_charge,
+    p_weight_grams: quote.weight_grams
+  });
+
+  if (error) handleApiError(error, 'quoting commission request');
+}
+
+export async function closeCommissionRequest(requestId: string): Promise<void> {
+  const { error } = await supabase.rpc('close_commission_request', {
+    p_request_id: requestId
+  });
+
+  if (error) handleApiError(error, 'closing commission request');
+}
+
+// ========================================
+// STOCK NOTIFICATION API
+// ========================================
+
+export interface StockNotificationInput {
+  product_id: string;
+  email: string;
+  /** The wording the customer agreed to, stored with the request */
+  consent_text: string;
+  /** Set both to wait for one dropdown option */
+  property_id: string | null;
+  option_value: string | null;
+}
+
+/**
+ * Ask to be emailed once when a sold out or unavailable product can be
+ * bought again
+ */
+export async function requestStockNotification(request: StockNotificationInput): Promise<void> {
+  const { error } = await supabase.rpc('request_stock_notification', {
+    p_product_id: request.product_id,
+    p_email: request.email,
+    p_consent_text: request.consent_text,
+    p_property_id: request.property_id,
+    p_option_value: request.option_value
+  });
+
+  if (error) handleApiError(error, 'requesting stock notification');
+}
+
+// ========================================
+// WISHLIST API
+// ========================================
+
+/** Product ids on the signed-in customer's wishlist, newest first */
+export async function getWishlist(): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_wishlist');
+
+  if (error) handleApiError(error, 'fetching wishlist');
+
+  return ((data || []) as { product_id: string }[]).map(item => item.product_id);
+}
+
+/**
+ * Also used to merge a guest's wishlist when they sign in. Adds as many as
+ * fit under the 200 item limit, earliest in the list first, and returns how
+ * many were left out.
+ */
+export async function addToWishlist(productIds: string[]): Promise<number> {
+  if (productIds.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('add_to_wishlist', {
+    p_product_ids: productIds
+  });
+
+  if (error) handleApiError(error, 'adding to wishlist');
+  return data ?? 0;
+}
+
+export async function removeFromWishlist(productId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_from_wishlist', {
+    p_product_id: productId
+  });
+
+  if (error) handleApiError(error, 'removing from wishlist');
+}
+
+/**
+ * Token for the customer's public wishlist link; reset replaces it so links
+ * already shared stop working
+ */
+export async function getWishlistShareToken(reset: boolean = false): Promise<string> {
+  const { data, error } = await supabase.rpc('get_wishlist_share_token', {
+    p_reset: reset
+  });
+
+  if (error) handleApiError(error, 'fetching wishlist link');
+
+  return data as string;
+}
+
+/** Product ids on a shared wishlist; empty when the link is not valid */
+export async function getSharedWishlist(shareToken: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc('get_shared_wishlist', {
+    p_token: shareToken
+  });
+
+  if (error) handleApiError(error, 'fetching shared wishlist');
+
+  return ((data || []) as { product_id: string }[]).map(item => item.product_id);
+}
+
+/**
+ * Wishlist products from products_view, in the order given. Products the
+ * shop has since switched off are left out.
+ */
+export async function getWishlistProducts(productIds: string[]): Promise<Product[]> {
+  if (productIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('products_view')
+    .select('*')
+    .in('id', productIds);
+
+  if (error) handleApiError(error, 'fetching wishlist products');
+
+  const products = (data || []) as unknown as Product[];
+  return productIds
+    .map(id => products.find(product => product.id === id))
+    .filter((product): product is Product => product !== undefined);
+}
+
+// ========================================
+// PRODUCT REVIEW API
+// ========================================
+
+const REVIEW_IMAGE_BUCKET = 'review-images';
+
+/**
+ * Upload a photo for a review to the customer's folder and return its path in
+ * the review-images bucket. Compress it first: the bucket takes 50KB.
+ */
+export async function uploadReviewImage(file: File): Promise<string> {
+  const extension = IMAGE_EXTENSIONS[file.type];
+  if (!extension) {
+    throw new Error('Please choose a JPEG, PNG, WebP or GIF image');
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Sign in to add photos');
+  }
+
+  const path = `${session.user.id}/${crypto.randomUUID()}.${extension}`;
+  const { error } = await supabase.storage
+    .from(REVIEW_IMAGE_BUCKET)
+    .upload(path, file, { cacheControl: '3600', upsert: false });
+
+  if (error) handleApiError(error, 'uploading review photo');
+
+  return path;
+}
+
+export function getReviewImageUrl(path: string): string {
+  return supabase.storage.from(REVIEW_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+/** Approved reviews of a product, newest first */
+export async function getProductReviews(productId: string, limit: number = 20, offset: number = 0): Promise<ProductReview[]> {
+  const { data, error } = await supabase.rpc('get_product_reviews', {
+    p_product_id: productId,
+    p_limit: limit,
+    p_offset: offset
+  });
+
+  if (error) handleApiError(error, 'fetching reviews');
+
+  return (data || []) as ProductReview[];
+}
+
+/**
+ * Whether the signed-in customer can review a product, and their review of
+ * it if they have written one
+ */
+export async function getMyProductReview(productId: string): Promise<MyProductReview> {
+  const { data, error } = await supabase.rpc('get_my_product_review', {
+    p_product_id: productId
+  });
+
+  if (error) handleApiError(error, 'fetching your review');
+
+  const row = data && data.length > 0 ? data[0] : null;
+  return {
+    can_review: row?.can_review ?? false,
+    review: row?.id
+      ? {
+          id: row.id,
+          rating: row.rating,
+          body: row.body,
+          images: row.images ?? [],
+          status: row.status as ReviewStatus,
+          created_at: row.created_at
+        }
+      : null
+  };
+}
+
+export interface ProductReviewInput {
+  product_id: string;
+  rating: number;
+  body: string;
+  images: string[]; // Paths from uploadReviewImage
+}
+
+/**
+ * Write or replace the customer's review; it is shown once an admin
+ * approves it
+ */
+export async function submitProductReview(review: ProductReviewInput): Promise<string> {
+  const { data, error } = await supabase.rpc('submit_product_review', {
+    p_product_id: review.product_id,
+    p_rating: review.rating,
+    p_body: review.body,
+    p_images: review.images
+  });
+
+  if (error) handleApiError(error, 'submitting review');
+
+  return data as string;
+}
+
+export async function getReviewQueue(params: {
+  status?: ReviewStatus;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<AdminProductReview[]> {
+  const { data, error } = await supabase.rpc('get_review_queue', {
+    p_status: params.status || null,
+    p_limit: params.limit ?? 50,
+    p_offset: params.offset ?? 0
+  });
+
+  if (error) handleApiError(error, 'fetching reviews');
+
+  return (data || []) as AdminProductReview[];
+}
+
+export async function moderateProductReview(reviewId: string, status: Exclude<ReviewStatus, 'pending'>): Promise<void> {
+  const { error } = await supabase.rpc('moderate_product_review', {
+    p_review_id: reviewId,
+    p_status: status
+  });
+
+  if (error) handleApiError(error, 'moderating review');
+}
+
+// ========================================
+// ORDER API
+// ========================================
+
+export interface OrderItemInput {
+  product_id: string;
+  product_name: string;
+  product_price: number;
+  quantity: number;
+  delivery_charge: number;
+  custom_selections?: CustomPropertySelection[];
+  commission_token?: string; // Quote access token for a commission piece
+}
+
+export interface CreateOrderParams {
+  email: string;
+  fullName: string;
+  address: OrderAddress;
+  subtotal: number;
+  deliveryTotal: number;
+  total: number;
+  paymentMethod: 'card' | 'paypal' | 'stripe' | 'gift_card';
+  orderItems: OrderItemInput[];
+  idempotencyKey?: string;
+  currency?: CurrencyCode;
+  discountCode?: string;
+  giftCardCode?: string;
+  giftCardAmount?: number;
+  recipientName?: string;
+  giftWrap?: boolean;
+  giftMessage?: string;
+  hidePrices?: boolean;
+}
+
+export async function quoteOrder(
+  orderItems: OrderItemInput[],
+  address?: CreateOrderParams['address'],
+  currency?: CurrencyCode,
+  discountCode?: string,
+  giftWrap: boolean = false
+): Promise<OrderQuote> {
+  const { data, error } = await supabase.rpc('quote_order', {
+    p_order_items: orderItems,
+    p_address: address ?? null,
+    p_currency: currency ?? null,
+    p_discount_code: discountCode ?? null,
+    p_gift_wrap: giftWrap
+  });
+
+  if (error) handleApiError(error, 'pricing order');
+
+  const quote = data && data.length > 0 ? data[0] : null;
+  if (!quote) throw new Error('Unknown error pricing order');
+
+  return {
+    subtotal: Number(quote.subtotal),
+    deliveryTotal: Number(quote.delivery_total),
+    giftWrapTotal: Number(quote.gift_wrap_total),
+    discountTotal: Number(quote.discount_total),
+    taxTotal: Number(quote.tax_total),
+    total: Number(quote.total),
+    pricesIncludeTax: Boolean(quote.prices_include_tax),
+    currency: quote.currency as CurrencyCode,
+    exchangeRate: Number(quote.exchange_rate),
+    discountCode: quote.discount_code ?? null,
+    items: ((quote.items ?? []) as OrderQuote['items']).map(item => ({
+      ...item,
+      tax_rate: Number(item.tax_rate),
+      tax_amount: Number(item.tax_amount),
+      discount_amount: Number(item.discount_amount)
+    }))
+  };
+}
+
+export async function createOrder(orderData: CreateOrderParams): Promise<string> {
+  const { data, error } = await supabase.rpc('create_order', {
+    p_email: orderData.email,
+    p_full_name: orderData.fullName,
+    p_address: orderData.address,
+    p_subtotal: orderData.subtotal,
+    p_delivery_total: orderData.deliveryTotal,
+    p_total: orderData.total,
+    p_payment_method: orderData.paymentMethod,
+    p_order_items: orderData.orderItems,
+    p_idempotency_key: orderData.idempotencyKey || null,
+    p_currency: orderData.currency ?? null,
+    p_discount_code: orderData.discountCode ?? null,
+    p_gift_card_code: orderData.giftCardCode ?? null,
+    p_gift_card_amount: orderData.giftCardAmount ?? null,
+    p_recipient_name: orderData.recipientName || null,
+    p_gift_wrap: orderData.giftWrap ?? false,
+    p_gift_message: orderData.giftMessage || null,
+    p_hide_prices: orderData.hidePrices ?? false
+  });
+
+  if (error) handleApiError(error, 'creating order');
+
+  return data as string;
+}
+
+export async function createPayment(params: {
+  orderId: string;
+  paymentMethod: string;
+  paymentId: string;
+  amount: number;
+  status?: string;
+  paypalDetails?: any;
+  stripeDetails?: any;
+  idempotencyKey?: string;
+}): Promise<string> {
+  const { data, error } = await supabase.rpc('create_payment', {
+    p_order_id: params.orderId,
+    p_payment_method: params.paymentMethod,
+    p_payment_id: params.paymentId,
+    p_amount: params.amount,
+    p_status: params.status || 'pending',
+    p_paypal_details: params.paypalDetails || null,
+    p_stripe_details: params.stripeDetails || null,
+    p_idempotency_key: params.idempotencyKey || null
+  });
+
+  if (error) handleApiError(error, 'creating payment');
+
+  return data as string;
+}
+
+export interface ConfirmPaymentResult {
+  payment_id: string;
+  order_status: Order['status'];
+}
+
+/**
+ * Record a successful Stripe / PayPal payment through the confirm-payment
+ * edge function, which checks it with the provider first. Checkout passes
+ * its idempotency key; without one (linking an orphaned payment) the caller
+ * must be an admin.
+ */
+export async function confirmPayment(params: {
+  orderId: string;
+  paymentMethod: 'card' | 'paypal';
+  paymentId: string;
+  amount?: number;
+  currency?: CurrencyCode;
+  idempotencyKey?: string;
+}): Promise<ConfirmPaymentResult> {
+  const { data, error } = await supabase.functions.invoke('confirm-payment', {
+    body: {
+      order_id: params.orderId,
+      payment_method: params.paymentMethod,
+      payment_id: params.paymentId,
+      amount: params.amount ?? null,
+      currency: params.currency ?? null,
+      idempotency_key: params.idempotencyKey || null
+    }
+  });
+
+  if (error) {
+    // Surface the edge function's message instead of the generic HTTP error
+    const details = await error.context?.json?.().catch(() => null);
+    handleApiError(details?.error ? new Error(details.error) : error, 'confirming payment');
+  }
+
+  return data as ConfirmPaymentResult;
+}
+
+/**
+ * Refund a Stripe / PayPal payment in full through the void-payment edge
+ * function, for a payment checkout could not place an order for. Refused
+ * once the payment is linked to an order.
+ */
+export async function voidPayment(params: {
+  paymentMethod: 'card' | 'paypal';
+  paymentId: string;
+}): Promise<void> {
+  const { error } = await supabase.functions.invoke('void-payment', {
+    body: {
+      payment_method: params.paymentMethod,
+      payment_id: params.paymentId
+    }
+  });
+
+  if (error) {
+    // Surface the edge function's message instead of the generic HTTP error
+    const details = await error.context?.json?.().catch(() => null);
+    handleApiError(details?.error ? new Error(details.error) : error, 'refunding payment');
+  }
+}
+
+export async function updateOrderStatus(
+  orderId: string,
+  status: Order['status'],
+  note?: string
+): Promise<void> {
+  const { error } = await supabase.rpc('update_order_status', {
+    p_order_id: orderId,
+    p_status: status,
+    p_note: note || null
+  });
+
+  if (error) handleApiError(error, 'updating order status');
+}
+
+export async function getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+  const { data, error } = await supabase.rpc('get_order_status_history', {
+    p_order_id: orderId
+  });
+
+  if (error) handleApiError(error, 'fetching order status history');
+
+  return (data || []) as OrderStatusHistoryEntry[];
+}
+
+export async function markOrderShipped(
+  orderId: string,
+  shipments: ShipmentInput[],
+  note?: string
+): Promise<void> {
+  const { error } = await supabase.rpc('mark_order_shipped', {
+    p_order_id: orderId,
+    p_shipments: shipments,
+    p_note: note || null
+  });
+
+  if (error) handleApiError(error, 'marking order shipped');
+}
+
+export async function getOrderShipments(orderId: string): Promise<Shipment[]> {
+  const { data, error } = await supabase.rpc('get_order_shipments', {
+    p_order_id: orderId
+  });
+
+  if (error) handleApiError(error, 'fetching order shipments');
+
+  return (data || []) as Shipment[];
+}
+
+export interface RefundResult {
+  refund_id: string;
+  amount: number;
+  status: 'succeeded';
+}
+
+/**
+ * Issue a refund through the refund-payment edge function (admin only).
+ * Omitting the amount refunds the remaining balance.
+ */
+export async function refundOrder(orderId: string, amount?: number, reason?: string): Promise<RefundResult> {
+  const { data, error } = await supabase.functions.invoke('refund-payment', {
+    body: {
+      order_id: orderId,
+      amount: amount ?? null,
+      reason: reason || null
+    }
+  });
+
+  if (error) {
+    // Surface the edge function's message instead of the generic HTTP error
+    const details = await error.context?.json?.().catch(() => null);
+    handleApiError(details?.error ? new Error(details.error) : error, 'refunding order');
+  }
+
+  return data as RefundResult;
+}
+
+export async function getOrderRefunds(orderId: string): Promise<Refund[]> {
+  const { data, error } = await supabase.rpc('get_order_refunds', {
+    p_order_id: orderId
+  });
+
+  if (error) handleApiError(error, 'fetching order refunds');
+
+  return (data || []) as Refund[];
+}
+
+/**
+ * Render an order's invoice or packing slip through the generate-invoice
+ * edge function. Packing slips are admin only.
+ */
+export async function generateOrderDocument(
+  orderId: string,
+  document: OrderDocumentType,
+  format: OrderDocumentFormat
+): Promise<Blob> {
+  const { data, error } = await supabase.functions.invoke('generate-invoice', {
+    body: {
+      order_id: orderId,
+      document,
+      format
+    }
+  });
+
+  if (error) {
+    // Surface the edge function's message instead of the generic HTTP error
+    const details = await error.context?.json?.().catch(() => null);
+    handleApiError(details?.error ? new Error(details.error) : error, 'generating order document');
+  }
+
+  return new Blob([data], { type: format === 'pdf' ? 'application/pdf' : 'text/html' });
+}
+
+export async function updatePaymentStatus(
+  paymentId: string,
+  status: 'pending' | 'completed' | 'failed' | 'refunded',
+  paymentDetails?: any
+): Promise<void> {
+  const { error } = await supabase.rpc('update_payment_status', {
+    p_payment_id: paymentId,
+    p_status: status,
+    p_payment_details: paymentDetails || null
+  });
+
+  if (error) handleApiError(error, 'updating payment status');
+}
+
+export async function getUserOrders(limit: number = 50): Promise<Order[]> {
+  const { data, error } = await supabase.rpc('get_user_orders', {
+    p_limit: limit
+  });
+
+  if (error) handleApiError(error, 'fetching user orders');
+
+  return (data || []) as Order[];
+}
+
+export async function getAllOrders(params: {
+  status?: string;
+  paymentMethod?: string;
+  limit?: number;
+  offset?: number;
+  search?: string;
+  /** 'dispatch_by' lists the soonest promised dispatch first; newest first otherwise */
+  sort?: 'newest' | 'dispatch_by';
+} = {}): Promise<Order[]> {
+  const { status, paymentMethod, limit = 50, offset = 0, search, sort } = params;
+  
+  const { data, error } = await supabase.rpc('get_all_orders', {
+    p_status: status || null,
+    p_payment_method: paymentMethod || null,
+    p_limit: limit,
+    p_offset: offset,
+    p_search: search || null,
+    p_sort: sort === 'dispatch_by' ? 'dispatch_by' : null
+  });
+
+  if (error) handleApiError(error, 'fetching all orders');
+
+  return (data || []) as Order[];
+}
+
+export async function getOrderById(orderId: string): Promise<Order | null> {
+  const { data, error } = await supabase.rpc('get_order_by_id', {
+    p_order_id: orderId
+  });
+
+  if (error) handleApiError(error, 'fetching order');
+
+  return data && data.length > 0 ? (data[0] as Order) : null;
+}
+
+export async function getOrderItems(orderId: string): Promise<OrderItem[]> {
+  const { data, error } = await supabase.rpc('get_order_items', {
+    p_order_id: orderId
+  });
+
+  if (error) handleApiError(error, 'fetching order items');
+
+  return (data || []) as OrderItem[];
+}
+
+// ========================================
+// GUEST ORDER ACCESS API
+// ========================================
+
+/**
+ * Exchange an email address and order reference for an order access token.
+ * Returns null when they do not match an order.
+ */
+export async function requestGuestOrderAccess(email: string, orderReference: string): Promise<GuestOrderAccess | null> {
+  const { data, error } = await supabase.rpc('request_guest_order_access', {
+    p_email: email,
+    p_order_reference: orderReference
+  });
+
+  if (error) handleApiError(error, 'looking up order');
+
+  return data && data.length > 0 ? (data[0] as GuestOrderAccess) : null;
+}
+
+export async function getGuestOrder(accessToken: string): Promise<Order | null> {
+  const { data, error } = await supabase.rpc('get_guest_order', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'fetching order');
+
+  return data && data.length > 0 ? (data[0] as Order) : null;
+}
+
+export async function getGuestOrderItems(accessToken: string): Promise<OrderItem[]> {
+  const { data, error } = await supabase.rpc('get_guest_order_items', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'fetching order items');
+
+  return (data || []) as OrderItem[];
+}
+
+export async function getGuestOrderStatusHistory(accessToken: string): Promise<OrderStatusHistoryEntry[]> {
+  const { data, error } = await supabase.rpc('get_guest_order_status_history', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'fetching order status history');
+
+  return (data || []) as OrderStatusHistoryEntry[];
+}
+
+export async function getGuestOrderShipments(accessToken: string): Promise<Shipment[]> {
+  const { data, error } = await supabase.rpc('get_guest_order_shipments', {
+    p_token: accessToken
+  });
+
+  if (error) handleApiError(error, 'fetching order shipments');
+
+  return (data || []) as Shipment[];
+}
+
+// ========================================
+// ORDER EMAIL API (admin only)
+// ========================================
+
+export async function getEmailOutbox(
+  status?: EmailOutboxEntry['status'],
+  limit: number = 50,
+  offset: number = 0
+): Promise<EmailOutboxEntry[]> {
+  const { data, error } = await supabase.rpc('get_email_outbox', {
+    p_status: status || null,
+    p_limit: limit,
+    p_offset: offset
+  });
+
+  if (error) handleApiError(error, 'fetching email log');
+
+  return (data || []) as EmailOutboxEntry[];
+}
+
+export async function getEmailDeliveries(emailId: string): Promise<EmailDelivery[]> {
+  const { data, error } = await supabase.rpc('get_email_deliveries', {
+    p_email_id: emailId
+  });
+
+  if (error) handleApiError(error, 'fetching email deliveries');
+
+  return (data || []) as EmailDelivery[];
+}
+
+export async function retryEmail(emailId: string): Promise<void> {
+  const { error } = await supabase.rpc('retry_email', {
+    p_email_id: emailId
+  });
+
+  if (error) handleApiError(error, 'retrying email');
+}
+
+export interface SendEmailsResult {
+  claimed: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Send due emails now through the send-order-emails edge function instead of
+ * waiting for the next scheduled run.
+ */
+export async function sendPendingEmails(): Promise<SendEmailsResult> {
+  const { data, error } = await supabase.functions.invoke('send-order-emails', {
+    body: {}
+  });
+
+  if (error) {
+    // Surface the edge function's message instead of the generic HTTP error
+    const details = await error.context?.json?.().catch(() => null);
+    handleApiError(details?.error ? new Error(details.error) : error, 'sending emails');
+  }
+
+  return data as SendEmailsResult;
 }
 
 // ========================================
@@ -0,0 +1,105 @@
+/**
+ * Carrier Configuration Utility
+ *
+ * Lists the carriers available when shipping an order and builds
+ * tracking links from per-carrier URL templates.
+ */
+
+// Carrier configuration interface
+export interface CarrierConfig {
+  code: string;
+  name: string;
+  /** Tracking page URL with a {tracking} placeholder, or null if the carrier has no public tracking page */
+  trackingUrlTemplate: string | null;
+}
+
+const TRACKING_PLACEHOLDER = '{tracking}';
+
+// Built-in carriers; templates can be overridden with VITE_CARRIER_TRACKING_URLS
+const DEFAULT_CARRIERS: CarrierConfig[] = [
+  { code: 'royal_mail', name: 'Royal Mail', trackingUrlTemplate: 'https://www.royalmail.com/track-your-item#/tracking-results/{tracking}' },
+  { code: 'evri', name: 'Evri', trackingUrlTemplate: 'https://www.evri.com/track/parcel/{tracking}' },
+  { code: 'dpd', name: 'DPD', trackingUrlTemplate: 'https://track.dpd.co.uk/parcels/{tracking}' },
+  { code: 'parcelforce', name: 'Parcelforce', trackingUrlTemplate: 'https://www.parcelforce.com/track-trace?trackNumber={tracking}' },
+  { code: 'ups', name: 'UPS', trackingUrlTemplate: 'https://www.ups.com/track?tracknum={tracking}' },
+  { code: 'dhl', name: 'DHL', trackingUrlTemplate: 'https://www.dhl.com/gb-en/home/tracking.html?tracking-id={tracking}' },
+  { code: 'other', name: 'Other', trackingUrlTemplate: null }
+];
+
+/**
+ * Read tracking URL overrides from VITE_CARRIER_TRACKING_URLS
+ * (a JSON object of carrier code to URL template)
+ */
+const getTrackingUrlOverrides = (): Record<string, string> => {
+  const raw = import.meta.env.VITE_CARRIER_TRACKING_URLS;
+  if (!raw) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected a JSON object');
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1].includes(TRACKING_PLACEHOLDER)
+      )
+    );
+  } catch (error) {
+    console.warn('Ignoring invalid VITE_CARRIER_TRACKING_URLS:', error);
+    return {};
+  }
+};
+
+/**
+ * Format an unknown carrier code for display (e.g. "yodel_direct" -> "Yodel Direct")
+ */
+const formatCarrierCode = (code: string): string => {
+  return code
+    .split('_')
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+};
+
+/**
+ * Get all carriers, with any configured tracking URL overrides applied.
+ * Carriers that only appear in the overrides are added before "Other".
+ */
+export const getCarriers = (): CarrierConfig[] => {
+  const overrides = getTrackingUrlOverrides();
+
+  const carriers = DEFAULT_CARRIERS.map((carrier) => ({
+    ...carrier,
+    trackingUrlTemplate: overrides[carrier.code] ?? carrier.trackingUrlTemplate
+  }));
+
+  const extraCarriers = Object.entries(overrides)
+    .filter(([code]) => !DEFAULT_CARRIERS.some((carrier) => carrier.code === code))
+    .map(([code, trackingUrlTemplate]) => ({ code, name: formatCarrierCode(code), trackingUrlTemplate }));
+
+  const otherIndex = carriers.findIndex((carrier) => carrier.code === 'other');
+  carriers.splice(otherIndex, 0, ...extraCarriers);
+
+  return carriers;
+};
+
+/**
+ * Get the display name for a carrier code
+ */
+export const getCarrierName = (code: string): string => {
+  return getCarriers().find((carrier) => carrier.code === code)?.name ?? formatCarrierCode(code);
+};
+
+/**
+ * Build the tracking page URL for a parcel, or null if the carrier
+ * has no template or there is no tracking number
+ */
+export const getTrackingUrl = (code: string, trackingNumber: string | null): string | null => {
+  if (!trackingNumber) return null;
+
+  const template = getCarriers().find((carrier) => carrier.code === code)?.trackingUrlTemplate;
+  if (!template) return null;
+
+  return template.split(TRACKING_PLACEHOLDER).join(encodeURIComponent(trackingNumber));
+};
@@ -5,42 +5,101 @@
  */
 
 import { supabase } from './supabase';
-import type { CartItem } from '../types/database';
+import type { CartItem, CustomPropertiesConfig, CustomPropertyDropdown, StockShortage } from '../types/database';
 
 /**
  * Validate that all products in cart items exist in the database
+ * and that there is enough stock for the quantities in the cart
  */
 export async function validateCartProducts(cartItems: CartItem[]): Promise<{
   valid: boolean;
   invalidItems: CartItem[];
+  stockShortages: StockShortage[];
   errors: string[];
 }> {
   const errors: string[] = [];
   const invalidItems: CartItem[] = [];
+  const stockShortages: StockShortage[] = [];
   
   // Get all current product IDs from database using the products_view
   const { data: products, error } = await supabase
     .from('products_view')
-    .select('id, name');
+    .select('id, name, stock_quantity, custom_properties');
     
   if (error) {
     errors.push(`Failed to fetch products: ${error.message}`);
-    return { valid: false, invalidItems, errors };
+    return { valid: false, invalidItems, stockShortages, errors };
   }
   
-  const validProductIds = new Set(products.map(p => p.id));
+  const productsById = new Map(products.map(p => [p.id, p]));
   
   // Check each cart item
   for (const item of cartItems) {
-    if (!validProductIds.has(item.product.id)) {
+    // Commission pieces are not in products_view; checkout checks them
+    // against their quote instead
+    if (item.commissionToken) continue;
+
+    if (!productsById.has(item.product.id)) {
       invalidItems.push(item);
       errors.push(`Product "${item.product.name}" (ID: ${item.product.id}) no longer exists in database`);
     }
   }
+
+  // Check stock per product - the same product can appear on several lines
+  // with different custom selections
+  const requestedById = new Map<string, number>();
+  for (const item of cartItems) {
+    requestedById.set(item.product.id, (requestedById.get(item.product.id) ?? 0) + item.quantity);
+  }
+
+  for (const [productId, requested] of requestedById) {
+    const product = productsById.get(productId);
+    if (!product || product.stock_quantity == null || product.stock_quantity >= requested) continue;
+
+    stockShortages.push({
+      productId,
+      productName: product.name,
+      requested,
+      available: product.stock_quantity
+    });
+    errors.push(`Only ${product.stock_quantity} of "${product.name}" left in stock (${requested} in cart)`);
+  }
+
+  // Check stock per dropdown option that tracks it, across all lines
+  const requestedByOption = new Map<string, { productId: string; propertyId: string; option: string; requested: number }>();
+  for (const item of cartItems) {
+    for (const selection of item.customSelections ?? []) {
+      const key = `${item.product.id}:${selection.propertyId}:${selection.value}`;
+      const line = requestedByOption.get(key)
+        ?? { productId: item.product.id, propertyId: selection.propertyId, option: String(selection.value), requested: 0 };
+      line.requested += item.quantity;
+      requestedByOption.set(key, line);
+    }
+  }
+
+  for (const { productId, propertyId, option, requested } of requestedByOption.values()) {
+    const product = productsById.get(productId);
+    const config = product?.custom_properties as CustomPropertiesConfig | null | undefined;
+    const property = config?.properties.find(p => p.id === propertyId);
+    if (!product || property?.type !== 'dropdown') continue;
+
+    const available = (property as CustomPropertyDropdown).optionStock?.[option];
+    if (available === undefined || available >= requested) continue;
+
+    stockShortages.push({
+      productId,
+      productName: product.name,
+      option: `${property.label}: ${option}`,
+      requested,
+      available
+    });
+    errors.push(`Only ${available} of "${product.name}" in ${option} left in stock (${requested} in cart)`);
+  }
   
   return {
-    valid: invalidItems.length === 0,
+    valid: invalidItems.length === 0 && stockShortages.length === 0,
     invalidItems,
+    stockShortages,
     errors
   };
 }
@@ -12,9 +12,16 @@ interface ProductListFields {
   category: string;
   stock_quantity: number | null;
   delivery_charge: number | null;
+  shipping_profile_id: string | null;
+  weight_grams: number | null;
+  tax_class: string;
+  is_gift_card: boolean;
+  lead_time_days: number;
   is_available: boolean | null;
   sort_order: number;
   custom_properties: import('../types/database').CustomPropertiesConfig | null;
+  rating_average: number | null;
+  rating_count: number;
 }
 
 interface ProductSummaryFields {
@@ -103,8 +110,9 @@ export class DataService {
     search?: string;
     limit?: number;
     offset?: number;
+    sort?: 'featured' | 'rating';
   } = {}): Promise<ProductListFields[]> {
-    const { category, search, offset = 0 } = options;
+    const { category, search, offset = 0, sort = 'featured' } = options;
     
     // Adapt limit based on network conditions
     const limit = options.limit || networkOptimizer.getOptimalBatchSize();
@@ -122,8 +130,18 @@ export class DataService {
     try {
       let query = supabase
         .from('products_view')
-        .select('id, name, description, price, price_max, image_url, category, stock_quantity, delivery_charge, is_available, sort_order, custom_properties')
+        .select('id, name, description, price, price_max, image_url, category, stock_quantity, delivery_charge, shipping_profile_id, weight_grams, tax_class, is_gift_card, lead_time_days, is_available, sort_order, custom_properties, rating_average, rating_count')
         .eq('is_available', true)
+        // Quoted commission pieces are only sold through their quote link
+        .is('commission_request_id', null);
+
+      if (sort === 'rating') {
+        query = query
+          .order('rating_average', { ascending: false, nullsFirst: false })
+          .order('rating_count', { ascending: false });
+      }
+
+      query = query
         .order('sort_order', { ascending: true })
         .order('created_at', { ascending: false })
         .range(offset, offset + limit - 1);
@@ -232,7 +250,8 @@ export class DataService {
       const { data, error } = await supabase
         .from('products_view')
         .select('category')
-        .eq('is_available', true);
+        .eq('is_available', true)
+        .is('commission_request_id', null);
 
       if (error) throw error;
 
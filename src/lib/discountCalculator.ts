@@ -0,0 +1,137 @@
+/**
+ * Discount Calculator Utility
+ *
+ * Works out what a discount code takes off a cart. Percentage codes take the
+ * percentage off each eligible line; fixed codes share their amount between
+ * the eligible lines in proportion to price (never more than they cost);
+ * free delivery codes waive the delivery charge. A code limited to products
+ * or categories only applies to lines matching either, and no code applies
+ * to gift cards, which are issued at their full price. Amounts are worked
+ * out in the base currency, before tax. The same rules are in
+ * woolwitch.discount_applies_to and woolwitch_api.quote_order; keep them in
+ * step.
+ */
+
+import { formatMoney } from './money';
+import type { CurrencyCode, DiscountCode, DiscountType } from '../types/database';
+
+// Discount type options for the admin form
+export const DISCOUNT_TYPES: { value: DiscountType; label: string }[] = [
+  { value: 'percentage', label: 'Percentage off' },
+  { value: 'fixed', label: 'Fixed amount off' },
+  { value: 'free_delivery', label: 'Free delivery' }
+];
+
+// A priced cart line and what a code's product limits look at
+export interface DiscountableLine {
+  amount: number;
+  productId: string;
+  category: string;
+  isGiftCard: boolean;
+}
+
+export interface DiscountBreakdown {
+  /** Discount on each line, in the order given */
+  lineDiscounts: number[];
+  deliveryDiscount: number;
+  discountTotal: number;
+}
+
+const noDiscount = (lines: DiscountableLine[]): DiscountBreakdown => ({
+  lineDiscounts: lines.map(() => 0),
+  deliveryDiscount: 0,
+  discountTotal: 0
+});
+
+/**
+ * Whether a code applies to a line; codes without product or category limits
+ * apply to everything but gift cards
+ */
+export const discountAppliesTo = (discount: DiscountCode, line: DiscountableLine): boolean => {
+  if (line.isGiftCard) return false;
+  if (discount.product_ids.length === 0 && discount.categories.length === 0) return true;
+  return discount.product_ids.includes(line.productId) || discount.categories.includes(line.category);
+};
+
+/**
+ * Why a code cannot be used on these lines, or null when it can. create_order
+ * rejects the same codes (WWD01).
+ */
+export const getDiscountProblem = (
+  discount: DiscountCode,
+  lines: DiscountableLine[],
+  baseCurrency?: CurrencyCode
+): string | null => {
+  const subtotal = lines.reduce((sum, line) => sum + line.amount, 0);
+
+  if (discount.min_spend !== null && subtotal < discount.min_spend) {
+    return `Spend at least ${formatMoney(discount.min_spend, baseCurrency)} to use ${discount.code}`;
+  }
+
+  if (!lines.some(line => discountAppliesTo(discount, line))) {
+    return `${discount.code} does not apply to anything in your cart`;
+  }
+
+  return null;
+};
+
+/**
+ * Discount on a set of lines and the delivery charge. Nothing is taken off
+ * without a code, or when the code cannot be used on these lines.
+ */
+export const calculateDiscount = (
+  discount: DiscountCode | null | undefined,
+  lines: DiscountableLine[],
+  deliveryTotal: number
+): DiscountBreakdown => {
+  if (!discount || getDiscountProblem(discount, lines) !== null) return noDiscount(lines);
+
+  const eligible = lines.map(line => discountAppliesTo(discount, line));
+  const eligibleSubtotal = lines.reduce((sum, line, index) => eligible[index] ? sum + line.amount : sum, 0);
+  const lastEligible = eligible.lastIndexOf(true);
+  const fixedAmount = discount.discount_type === 'fixed' ? Math.min(discount.value, eligibleSubtotal) : 0;
+  let fixedRemaining = fixedAmount;
+
+  const lineDiscounts = lines.map((line, index) => {
+    if (!eligible[index]) return 0;
+
+    if (discount.discount_type === 'percentage') {
+      return Math.round(line.amount * discount.value) / 100;
+    }
+
+    if (discount.discount_type === 'fixed') {
+      // The last eligible line takes the rounding remainder
+      const lineDiscount = index === lastEligible
+        ? Math.round(fixedRemaining * 100) / 100
+        : Math.round(fixedAmount * line.amount / eligibleSubtotal * 100) / 100;
+      fixedRemaining -= lineDiscount;
+      return lineDiscount;
+    }
+
+    return 0;
+  });
+
+  const deliveryDiscount = discount.discount_type === 'free_delivery' ? deliveryTotal : 0;
+
+  return {
+    lineDiscounts,
+    deliveryDiscount,
+    discountTotal: Math.round((lineDiscounts.reduce((sum, amount) => sum + amount, 0) + deliveryDiscount) * 100) / 100
+  };
+};
+
+/**
+ * Short description of a code for the cart, e.g. "10% off", "£5.00 off"
+ */
+export const describeDiscount = (discount: DiscountCode, baseCurrency?: CurrencyCode): string => {
+  const scope = discount.product_ids.length > 0 || discount.categories.length > 0 ? ' selected items' : '';
+
+  switch (discount.discount_type) {
+    case 'percentage':
+      return `${discount.value}% off${scope}`;
+    case 'fixed':
+      return `${formatMoney(discount.value, baseCurrency)} off${scope}`;
+    default:
+      return 'Free delivery';
+  }
+};
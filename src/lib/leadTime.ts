@@ -0,0 +1,123 @@
+/**
+ * Lead Time Utility
+ *
+ * Estimates when an order will be dispatched and when it should arrive.
+ * Most pieces are made to order: a product's lead_time_days is how many
+ * working days (Monday to Friday) it takes before it can be sent, and a
+ * dropdown option with a lead time in optionLeadTimes replaces it when
+ * chosen (the longest chosen option wins). An order is dispatched once its
+ * longest lead time has passed and arrives after its shipping region's
+ * transit_days. Gift cards are not posted and have no lead time. The same
+ * rules are in woolwitch.get_selection_lead_time and
+ * woolwitch.order_dispatch_date, which set the dates stored on the order;
+ * keep them in step.
+ */
+
+import type {
+  CartItem,
+  CustomPropertiesConfig,
+  CustomPropertyDropdown,
+  CustomPropertySelection,
+  Order,
+  Product,
+  ShippingRegion
+} from '../types/database';
+
+export interface DeliveryEstimate {
+  dispatchBy: Date;
+  /** null until the delivery region is known */
+  deliveryBy: Date | null;
+}
+
+const isWorkingDay = (date: Date) => date.getDay() !== 0 && date.getDay() !== 6;
+
+/**
+ * The date a number of working days after from. A weekend date moves to the
+ * Monday first, so 0 days is the next working day.
+ */
+export function addWorkingDays(from: Date, days: number): Date {
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (!isWorkingDay(date)) {
+    date.setDate(date.getDate() + 1);
+  }
+
+  let remaining = Math.max(days, 0);
+  while (remaining > 0) {
+    date.setDate(date.getDate() + 1);
+    if (isWorkingDay(date)) remaining--;
+  }
+
+  return date;
+}
+
+/**
+ * Lead time in working days for a product with the customer's selections.
+ * Mirrors woolwitch.get_selection_lead_time.
+ */
+export function getItemLeadTime(product: Product, customSelections?: CustomPropertySelection[]): number {
+  const config = product.custom_properties as CustomPropertiesConfig | null;
+  if (!config || !customSelections || customSelections.length === 0) return product.lead_time_days;
+
+  let optionLeadTime: number | undefined;
+  for (const selection of customSelections) {
+    const property = config.properties.find(p => p.id === selection.propertyId);
+    if (property?.type === 'dropdown') {
+      const dropdown = property as CustomPropertyDropdown;
+      const days = dropdown.optionLeadTimes?.[selection.value as string];
+      if (days !== undefined) optionLeadTime = Math.max(optionLeadTime ?? 0, days);
+    }
+  }
+
+  return optionLeadTime ?? product.lead_time_days;
+}
+
+/** The longest lead time in the cart; null when nothing in it is posted */
+export function getCartLeadTime(cartItems: CartItem[]): number | null {
+  const leadTimes = cartItems
+    .filter(item => !item.product.is_gift_card)
+    .map(item => getItemLeadTime(item.product, item.customSelections));
+
+  return leadTimes.length > 0 ? Math.max(...leadTimes) : null;
+}
+
+export function estimateDelivery(
+  leadTimeDays: number,
+  region?: ShippingRegion,
+  orderDate: Date = new Date()
+): DeliveryEstimate {
+  const dispatchBy = addWorkingDays(orderDate, leadTimeDays);
+  return {
+    dispatchBy,
+    deliveryBy: region ? addWorkingDays(dispatchBy, region.transit_days) : null
+  };
+}
+
+/** Estimate for a cart ordered today; null when nothing in it is posted */
+export function estimateCartDelivery(cartItems: CartItem[], region?: ShippingRegion): DeliveryEstimate | null {
+  const leadTimeDays = getCartLeadTime(cartItems);
+  return leadTimeDays === null ? null : estimateDelivery(leadTimeDays, region);
+}
+
+/** A date column ('2026-11-12') as a local date, so it shows as the same day */
+export function parseDateOnly(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** e.g. "Thu 12 Nov" */
+export function formatEstimateDate(date: Date | string): string {
+  const value = typeof date === 'string' ? parseDateOnly(date) : date;
+  return value.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+export function formatLeadTime(days: number): string {
+  if (days === 0) return 'Ready to send';
+  return `Made to order in ${days} working day${days === 1 ? '' : 's'}`;
+}
+
+/** A paid order, not yet shipped, whose promised dispatch date has passed */
+export function isDispatchOverdue(order: Pick<Order, 'status' | 'dispatch_by'>, today: Date = new Date()): boolean {
+  if (!order.dispatch_by || order.status !== 'paid') return false;
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return parseDateOnly(order.dispatch_by) < startOfToday;
+}
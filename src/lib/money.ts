@@ -0,0 +1,89 @@
+/**
+ * Money Utility
+ *
+ * Formats amounts for display and converts base currency prices into the
+ * currency a customer has chosen. Prices, delivery rates and tax are entered
+ * in the shop's base currency; each unit price, line tax and the delivery
+ * charge is converted at the admin-set exchange rate and rounded to the
+ * penny. The same conversion is in woolwitch.convert_amount and
+ * woolwitch_api.quote_order; keep them in step.
+ */
+
+import type { CurrencyCode, CurrencyConfig } from '../types/database';
+
+// Currency display configuration interface
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  name: string;
+  symbol: string;
+  /** Locale used to format amounts, so each currency reads naturally */
+  locale: string;
+}
+
+export const DEFAULT_CURRENCY: CurrencyCode = 'GBP';
+
+export const CURRENCIES: CurrencyInfo[] = [
+  { code: 'GBP', name: 'British pound', symbol: '£', locale: 'en-GB' },
+  { code: 'USD', name: 'US dollar', symbol: '$', locale: 'en-US' },
+  { code: 'EUR', name: 'Euro', symbol: '€', locale: 'en-IE' }
+];
+
+/**
+ * Get the display configuration for a currency code
+ */
+export const getCurrency = (code: string | null | undefined): CurrencyInfo | undefined => {
+  const normalized = (code ?? '').trim().toUpperCase();
+  return CURRENCIES.find(currency => currency.code === normalized);
+};
+
+export const isCurrencyCode = (code: string | null | undefined): code is CurrencyCode => {
+  return getCurrency(code)?.code === code;
+};
+
+/**
+ * Currencies prices can be shown in: the base currency and every currency
+ * with an exchange rate
+ */
+export const getAvailableCurrencies = (config: CurrencyConfig | null | undefined): CurrencyCode[] => {
+  const base = config?.base_currency ?? DEFAULT_CURRENCY;
+  const codes = [base, ...(config?.rates ?? []).map(rate => rate.currency)];
+  return CURRENCIES.map(currency => currency.code).filter(code => codes.includes(code));
+};
+
+/**
+ * Units of a currency per 1 unit of the base currency; 1 for the base
+ * currency, and when no config or rate is known
+ */
+export const getExchangeRate = (config: CurrencyConfig | null | undefined, currency: CurrencyCode | null | undefined): number => {
+  if (!config || !currency || currency === config.base_currency) return 1;
+  return config.rates.find(rate => rate.currency === currency)?.rate ?? 1;
+};
+
+/**
+ * A base currency amount at an exchange rate, rounded to the penny
+ */
+export const convertAmount = (amount: number, rate: number): number => {
+  if (rate === 1) return amount;
+  return Math.round(amount * rate * 100) / 100;
+};
+
+/**
+ * Amount with its currency symbol, e.g. "£12.50", "$12.50", "€12.50"
+ */
+export const formatMoney = (amount: number, currency: string | null | undefined = DEFAULT_CURRENCY): string => {
+  const info = getCurrency(currency) ?? CURRENCIES[0];
+
+  return new Intl.NumberFormat(info.locale, {
+    style: 'currency',
+    currency: (currency || info.code).toUpperCase()
+  }).format(amount);
+};
+
+/**
+ * A price, or a "from - to" range when the product has a maximum price
+ */
+export const formatPriceRange = (min: number, max: number | null | undefined, currency?: string | null): string => {
+  return max != null && max > min
+    ? `${formatMoney(min, currency)} - ${formatMoney(max, currency)}`
+    : formatMoney(min, currency);
+};
@@ -7,25 +7,71 @@
 import {
   createOrder as apiCreateOrder,
   createPayment as apiCreatePayment,
+  confirmPayment as apiConfirmPayment,
+  voidPayment as apiVoidPayment,
   updateOrderStatus as apiUpdateOrderStatus,
   getUserOrders as apiGetUserOrders,
   getAllOrders as apiGetAllOrders,
   getOrderById as apiGetOrderById,
   getOrderItems as apiGetOrderItems,
-  CreateOrderParams
+  quoteOrder as apiQuoteOrder,
+  getOrderStatusHistory as apiGetOrderStatusHistory,
+  markOrderShipped as apiMarkOrderShipped,
+  getOrderShipments as apiGetOrderShipments,
+  refundOrder as apiRefundOrder,
+  requestGuestOrderAccess as apiRequestGuestOrderAccess,
+  getGuestOrder as apiGetGuestOrder,
+  getGuestOrderItems as apiGetGuestOrderItems,
+  getGuestOrderStatusHistory as apiGetGuestOrderStatusHistory,
+  getGuestOrderShipments as apiGetGuestOrderShipments,
+  getOrderRefunds as apiGetOrderRefunds,
+  generateOrderDocument as apiGenerateOrderDocument,
+  getDiscountCode as apiGetDiscountCode,
+  getGiftCard as apiGetGiftCard,
+  getOrderGiftCards as apiGetOrderGiftCards,
+  RefundResult,
+  ConfirmPaymentResult,
+  OrderItemInput
 } from './apiService';
 import { validateCartProducts, logCartValidation } from './cartDebug';
+import { DEFAULT_COUNTRY, getCountryName, validateAddress, formatAddressLines } from './addressConfig';
+import { calculateTax, type TaxBreakdown, type TaxableLine } from './taxCalculator';
+import { calculateDiscount, type DiscountBreakdown, type DiscountableLine } from './discountCalculator';
+import { convertAmount, getExchangeRate } from './money';
 import type { 
   Order, 
+  OrderItem,
   Payment, 
   CreateOrderData, 
   OrderSummary, 
+  OrderQuote,
+  OrderStatusHistoryEntry,
+  Shipment,
+  ShipmentInput,
+  Refund,
+  OrderDocumentType,
+  OrderDocumentFormat,
+  GuestOrderAccess,
   CartItem,
   OrderAddress,
+  LegacyOrderAddress,
   PayPalDetails,
   StripeDetails,
   CustomPropertiesConfig,
-  CustomPropertyDropdown
+  CustomPropertyDropdown,
+  StockShortage,
+  ShippingConfig,
+  ShippingProfile,
+  ShippingRate,
+  ShippingRegion,
+  TaxConfig,
+  GiftOptionsConfig,
+  CurrencyCode,
+  DiscountCode,
+  GiftCard,
+  AppliedGiftCard,
+  OrderGiftCard,
+  PaymentMethod
 } from '../types/database';
 
 const isDevRuntime = (): boolean => {
@@ -90,6 +136,29 @@ export function getEffectiveImage(item: CartItem): string {
   return item.product.image_url;
 }
 
+/**
+ * Returns how many of a cart item can be ordered: the lowest of the product
+ * stock and the stock of each chosen dropdown option that tracks stock.
+ * Null when none of them is tracked. Mirrors woolwitch.reserve_order_stock.
+ */
+export function getAvailableStock(item: CartItem): number | null {
+  let available = item.product.stock_quantity;
+
+  const config = item.product.custom_properties as CustomPropertiesConfig | null;
+  if (!config || !item.customSelections) return available;
+
+  for (const selection of item.customSelections) {
+    const property = config.properties.find(p => p.id === selection.propertyId);
+    if (property?.type === 'dropdown') {
+      const dropdown = property as CustomPropertyDropdown;
+      const optionStock = dropdown.optionStock?.[selection.value as string];
+      if (optionStock !== undefined) available = Math.min(available ?? optionStock, optionStock);
+    }
+  }
+
+  return available;
+}
+
 /**
  * Returns the { min, max } price range for a product, taking into account any
  * dropdown option prices defined on custom properties.
@@ -120,31 +189,374 @@ export function getProductPriceRange(
   };
 }
 
-export function calculateSubtotal(cartItems: CartItem[]): number {
-  return cartItems.reduce((total, item) => {
-    return total + (getEffectivePrice(item) * item.quantity);
-  }, 0);
+/**
+ * Price of a cart line, converted at an exchange rate (base currency when
+ * omitted). Converted unit prices are rounded before multiplying, as
+ * quote_order does.
+ */
+export function calculateLineTotal(item: CartItem, exchangeRate: number = 1): number {
+  return convertAmount(getEffectivePrice(item), exchangeRate) * item.quantity;
 }
 
-export function calculateDeliveryTotal(cartItems: CartItem[]): number {
+export function calculateSubtotal(cartItems: CartItem[], exchangeRate: number = 1): number {
   return cartItems.reduce((total, item) => {
-    const deliveryCharge = item.product.delivery_charge || 0;
-    return total + (deliveryCharge * item.quantity);
+    return total + calculateLineTotal(item, exchangeRate);
   }, 0);
 }
 
-export function calculateTotal(cartItems: CartItem[]): number {
-  return calculateSubtotal(cartItems) + calculateDeliveryTotal(cartItems);
+/** Where an order is being delivered; only country and postcode affect delivery */
+export type ShippingDestination = Pick<OrderAddress, 'country' | 'postcode'>;
+
+/**
+ * Shipping region for a destination: a region with a matching UK outward
+ * code (KW15), then postcode area (HS), then a region covering the whole
+ * country (the default region first). Undefined when no region delivers
+ * there. Without a destination the default region is used.
+ * Mirrors woolwitch.shipping_region_for_address.
+ */
+export function getShippingRegion(regions: ShippingRegion[], destination?: ShippingDestination): ShippingRegion | undefined {
+  if (!destination) return regions.find(region => region.is_default);
+
+  const country = (destination.country || DEFAULT_COUNTRY).toUpperCase();
+  const normalized = (destination.postcode ?? '').replace(/\s/g, '').toUpperCase();
+  const outward = normalized.length > 3 ? normalized.slice(0, -3) : normalized;
+  const area = outward.match(/^[A-Z]+/)?.[0];
+  const candidates = regions
+    .filter(region => region.countries.includes(country))
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+  if (country === 'GB' && outward) {
+    const match = candidates.find(region => region.postcode_prefixes.includes(outward))
+      ?? (area ? candidates.find(region => region.postcode_prefixes.includes(area)) : undefined);
+    if (match) return match;
+  }
+
+  const wholeCountry = candidates.filter(region => country !== 'GB' || region.postcode_prefixes.length === 0);
+  return wholeCountry.find(region => region.is_default) ?? wholeCountry[0];
+}
+
+/**
+ * Picks the weight band a parcel falls in: the heaviest band it reaches, or
+ * the lightest band when it is below all of them. Flat and per-item profiles
+ * have a single rate per region.
+ */
+function pickShippingRate(rates: ShippingRate[], weightGrams: number): ShippingRate | undefined {
+  const reached = rates.filter(rate => rate.min_weight_grams <= weightGrams);
+
+  if (reached.length > 0) {
+    return reached.reduce((best, rate) => rate.min_weight_grams > best.min_weight_grams ? rate : best);
+  }
+
+  return rates.reduce<ShippingRate | undefined>(
+    (best, rate) => !best || rate.min_weight_grams < best.min_weight_grams ? rate : best,
+    undefined
+  );
+}
+
+interface ShippingPrice {
+  total: number;
+  /** No region delivers to the destination country */
+  countryUnavailable: boolean;
+  /** Products whose shipping profile has no rate for the destination */
+  undeliverable: string[];
+}
+
+/**
+ * Prices delivery for the cart. Products with a shipping profile are
+ * charged once per profile at the rate for the destination's region,
+ * falling back to the default region's rate within the default region's
+ * countries; products without one pay their own delivery charge per item.
+ * Mirrors woolwitch.calculate_shipping.
+ */
+function priceShipping(
+  cartItems: CartItem[],
+  shipping?: ShippingConfig | null,
+  destination?: ShippingDestination
+): ShippingPrice {
+  const profiles = new Map((shipping?.profiles ?? []).map(profile => [profile.id, profile]));
+  const groups = new Map<string, { profile: ShippingProfile; quantity: number; weightGrams: number; productNames: string[] }>();
+  const price: ShippingPrice = { total: 0, countryUnavailable: false, undeliverable: [] };
+
+  for (const item of cartItems) {
+    const profile = item.product.shipping_profile_id ? profiles.get(item.product.shipping_profile_id) : undefined;
+
+    if (!profile) {
+      price.total += Math.round((item.product.delivery_charge || 0) * 100) / 100 * item.quantity;
+      continue;
+    }
+
+    const group = groups.get(profile.id) ?? { profile, quantity: 0, weightGrams: 0, productNames: [] };
+    group.quantity += item.quantity;
+    group.weightGrams += (item.product.weight_grams ?? 0) * item.quantity;
+    group.productNames.push(item.product.name);
+    groups.set(profile.id, group);
+  }
+
+  if (shipping) {
+    const region = getShippingRegion(shipping.regions, destination);
+    const defaultRegion = shipping.regions.find(r => r.is_default);
+    const country = (destination?.country || DEFAULT_COUNTRY).toUpperCase();
+    const useDefaultRates = Boolean(defaultRegion?.countries.includes(country));
+    const subtotal = calculateSubtotal(cartItems);
+
+    price.countryUnavailable = !region;
+
+    for (const { profile, quantity, weightGrams, productNames } of groups.values()) {
+      if (profile.free_over !== null && subtotal >= profile.free_over) continue;
+
+      const regionRates = region ? profile.rates.filter(rate => rate.region_id === region.id) : [];
+      const rates = regionRates.length > 0 || !useDefaultRates
+        ? regionRates
+        : profile.rates.filter(rate => rate.region_id === defaultRegion?.id);
+
+      const rate = pickShippingRate(rates, weightGrams);
+      if (!rate) {
+        price.undeliverable.push(...productNames);
+        continue;
+      }
+
+      price.total += profile.method === 'per_item'
+        ? rate.first_item + rate.additional_item * (quantity - 1)
+        : rate.first_item;
+    }
+  }
+
+  price.total = Math.round(price.total * 100) / 100;
+  return price;
+}
+
+/**
+ * Delivery for the cart to a destination (the default region when no
+ * address is known yet), matching what create_order charges. Until the
+ * shipping config has loaded every item is charged its per-item delivery
+ * charge. Products that cannot be delivered to the destination add
+ * nothing; check getDeliveryRestriction before taking payment.
+ */
+export function calculateDeliveryTotal(
+  cartItems: CartItem[],
+  shipping?: ShippingConfig | null,
+  destination?: ShippingDestination,
+  exchangeRate: number = 1
+): number {
+  return convertAmount(priceShipping(cartItems, shipping, destination).total, exchangeRate);
+}
+
+/**
+ * Why the cart cannot be delivered to a destination, or null when it can
+ * (or the shipping config has not loaded). create_order rejects these
+ * orders, so checkout should not take payment for them.
+ */
+export function getDeliveryRestriction(
+  cartItems: CartItem[],
+  shipping: ShippingConfig | null | undefined,
+  destination: ShippingDestination
+): string | null {
+  if (!shipping) return null;
+
+  const { countryUnavailable, undeliverable } = priceShipping(cartItems, shipping, destination);
+  const countryName = getCountryName(destination.country);
+
+  if (countryUnavailable) {
+    return `Sorry, we do not currently deliver to ${countryName}`;
+  }
+
+  if (undeliverable.length > 0) {
+    return `Sorry, ${undeliverable.join(', ')} cannot be delivered to ${countryName}`;
+  }
+
+  return null;
+}
+
+/**
+ * How much more the customer needs to spend for free delivery, or null when
+ * this cart cannot ship free (a product without a free delivery threshold)
+ * or already does.
+ */
+export function getFreeDeliveryRemaining(
+  cartItems: CartItem[],
+  shipping?: ShippingConfig | null,
+  exchangeRate: number = 1
+): number | null {
+  if (!shipping || cartItems.length === 0) return null;
+
+  const profiles = new Map(shipping.profiles.map(profile => [profile.id, profile]));
+  let threshold = 0;
+
+  for (const item of cartItems) {
+    const profile = item.product.shipping_profile_id ? profiles.get(item.product.shipping_profile_id) : undefined;
+
+    if (!profile) {
+      if ((item.product.delivery_charge || 0) > 0) return null;
+      continue;
+    }
+
+    if (profile.free_over === null) return null;
+    threshold = Math.max(threshold, profile.free_over);
+  }
+
+  // Thresholds are in the base currency
+  const remaining = Math.round((threshold - calculateSubtotal(cartItems)) * 100) / 100;
+  return remaining > 0 ? convertAmount(remaining, exchangeRate) : null;
+}
+
+/**
+ * Cart lines in the base currency, as discount codes see them
+ */
+export function getDiscountableLines(cartItems: CartItem[]): DiscountableLine[] {
+  return cartItems.map(item => ({
+    amount: Math.round(getEffectivePrice(item) * 100) / 100 * item.quantity,
+    productId: item.product.id,
+    category: item.product.category,
+    isGiftCard: item.product.is_gift_card
+  }));
+}
+
+/**
+ * Discount a code takes off the cart and its delivery. Worked out in the base
+ * currency with each line's discount converted at the exchange rate. Mirrors
+ * the discount in woolwitch_api.quote_order.
+ */
+export function getOrderDiscount(
+  cartItems: CartItem[],
+  shipping?: ShippingConfig | null,
+  destination?: ShippingDestination,
+  discount?: DiscountCode | null,
+  exchangeRate: number = 1
+): DiscountBreakdown {
+  const breakdown = calculateDiscount(discount, getDiscountableLines(cartItems), calculateDeliveryTotal(cartItems, shipping, destination));
+  if (exchangeRate === 1) return breakdown;
+
+  const lineDiscounts = breakdown.lineDiscounts.map(lineDiscount => convertAmount(lineDiscount, exchangeRate));
+  const deliveryDiscount = convertAmount(breakdown.deliveryDiscount, exchangeRate);
+
+  return {
+    lineDiscounts,
+    deliveryDiscount,
+    discountTotal: Math.round((lineDiscounts.reduce((sum, lineDiscount) => sum + lineDiscount, 0) + deliveryDiscount) * 100) / 100
+  };
+}
+
+/**
+ * Gift options to price an order with: the options when the customer chose
+ * gift wrapping and it is offered, otherwise null
+ */
+export function getGiftWrap(giftOptions: GiftOptionsConfig | null | undefined, giftWrap: boolean | undefined): GiftOptionsConfig | null {
+  return giftWrap && giftOptions?.gift_wrap_enabled ? giftOptions : null;
+}
+
+/**
+ * Gift wrapping charge in the display currency. Charged once per order and
+ * never discounted.
+ */
+export function calculateGiftWrapTotal(giftWrap?: GiftOptionsConfig | null, exchangeRate: number = 1): number {
+  return giftWrap ? convertAmount(giftWrap.gift_wrap_charge, exchangeRate) : 0;
+}
+
+/**
+ * Tax on the cart, its delivery and any gift wrapping for a destination, at
+ * the rates for each product's tax class, after any discount; gift cards are
+ * not taxed. Tax is worked out in the base currency and each line's tax
+ * converted at the exchange rate. Mirrors the tax in
+ * woolwitch_api.quote_order.
+ */
+export function getOrderTax(
+  cartItems: CartItem[],
+  shipping?: ShippingConfig | null,
+  destination?: ShippingDestination,
+  tax?: TaxConfig | null,
+  exchangeRate: number = 1,
+  discount?: DiscountCode | null,
+  giftWrap?: GiftOptionsConfig | null
+): TaxBreakdown {
+  const deliveryTotal = calculateDeliveryTotal(cartItems, shipping, destination);
+  const { lineDiscounts, deliveryDiscount } = getOrderDiscount(cartItems, shipping, destination, discount);
+  // Gift cards are taxed when they are spent, not when they are bought
+  const lines: TaxableLine[] = getDiscountableLines(cartItems).map((line, index) => ({
+    amount: line.isGiftCard ? 0 : line.amount - lineDiscounts[index],
+    taxClass: cartItems[index].product.tax_class
+  }));
+  // Gift wrapping is taxed as one more line at its own tax class
+  if (giftWrap) {
+    lines.push({ amount: giftWrap.gift_wrap_charge, taxClass: giftWrap.gift_wrap_tax_class });
+  }
+
+  const breakdown = calculateTax(tax, lines, deliveryTotal - deliveryDiscount, destination?.country);
+  if (exchangeRate === 1) return breakdown;
+
+  const lineTaxes = breakdown.lineTaxes.map(lineTax => convertAmount(lineTax, exchangeRate));
+  const deliveryTax = convertAmount(breakdown.deliveryTax, exchangeRate);
+
+  return {
+    ...breakdown,
+    lineTaxes,
+    deliveryTax,
+    taxTotal: Math.round((lineTaxes.reduce((sum, lineTax) => sum + lineTax, 0) + deliveryTax) * 100) / 100
+  };
+}
+
+/**
+ * Amount the customer pays: subtotal, delivery and gift wrapping less any
+ * discount, plus tax when prices are entered excluding it
+ */
+export function calculateTotal(
+  cartItems: CartItem[],
+  shipping?: ShippingConfig | null,
+  destination?: ShippingDestination,
+  tax?: TaxConfig | null,
+  exchangeRate: number = 1,
+  discount?: DiscountCode | null,
+  giftWrap?: GiftOptionsConfig | null
+): number {
+  const { taxTotal, pricesIncludeTax } = getOrderTax(cartItems, shipping, destination, tax, exchangeRate, discount, giftWrap);
+  const { discountTotal } = getOrderDiscount(cartItems, shipping, destination, discount, exchangeRate);
+  const total = Math.round((
+    calculateSubtotal(cartItems, exchangeRate)
+    + calculateDeliveryTotal(cartItems, shipping, destination, exchangeRate)
+    + calculateGiftWrapTotal(giftWrap, exchangeRate)
+    - discountTotal
+  ) * 100) / 100;
+  return pricesIncludeTax ? total : Math.round((total + taxTotal) * 100) / 100;
+}
+
+/**
+ * Part of an order total a gift card pays: its balance, up to the total.
+ * Null when the card is in a different currency from the order, which
+ * create_order rejects.
+ */
+export function applyGiftCard(card: GiftCard, total: number, currency: CurrencyCode): AppliedGiftCard | null {
+  if (card.currency !== currency) return null;
+  return { ...card, amount: Math.min(card.balance, total) };
+}
+
+/**
+ * What is left to pay with Stripe or PayPal after any gift card
+ */
+export function getAmountDue(total: number, giftCard?: AppliedGiftCard | null): number {
+  return Math.max(0, Math.round((total - (giftCard?.amount ?? 0)) * 100) / 100);
 }
 
-export function getOrderSummary(cartItems: CartItem[]): OrderSummary {
-  const subtotal = calculateSubtotal(cartItems);
-  const deliveryTotal = calculateDeliveryTotal(cartItems);
-  const total = subtotal + deliveryTotal;
+export function getOrderSummary(
+  cartItems: CartItem[],
+  shipping?: ShippingConfig | null,
+  destination?: ShippingDestination,
+  tax?: TaxConfig | null,
+  exchangeRate: number = 1,
+  discount?: DiscountCode | null,
+  giftWrap?: GiftOptionsConfig | null
+): OrderSummary {
+  const subtotal = calculateSubtotal(cartItems, exchangeRate);
+  const deliveryTotal = calculateDeliveryTotal(cartItems, shipping, destination, exchangeRate);
+  const giftWrapTotal = calculateGiftWrapTotal(giftWrap, exchangeRate);
+  const discountTotal = getOrderDiscount(cartItems, shipping, destination, discount, exchangeRate).discountTotal;
+  const taxTotal = getOrderTax(cartItems, shipping, destination, tax, exchangeRate, discount, giftWrap).taxTotal;
+  const total = calculateTotal(cartItems, shipping, destination, tax, exchangeRate, discount, giftWrap);
   
   return {
     subtotal,
     deliveryTotal,
+    giftWrapTotal,
+    discountTotal,
+    taxTotal,
     total,
     itemCount: cartItems.reduce((count, item) => count + item.quantity, 0)
   };
@@ -154,11 +566,17 @@ export function validateCartTotals(
   cartItems: CartItem[],
   expectedSubtotal: number,
   expectedDelivery: number,
-  expectedTotal: number
+  expectedTotal: number,
+  shipping?: ShippingConfig | null,
+  destination?: ShippingDestination,
+  tax?: TaxConfig | null,
+  exchangeRate: number = 1,
+  discount?: DiscountCode | null,
+  giftWrap?: GiftOptionsConfig | null
 ): boolean {
-  const actualSubtotal = calculateSubtotal(cartItems);
-  const actualDelivery = calculateDeliveryTotal(cartItems);
-  const actualTotal = calculateTotal(cartItems);
+  const actualSubtotal = calculateSubtotal(cartItems, exchangeRate);
+  const actualDelivery = calculateDeliveryTotal(cartItems, shipping, destination, exchangeRate);
+  const actualTotal = calculateTotal(cartItems, shipping, destination, tax, exchangeRate, discount, giftWrap);
   
   const subtotalMatch = Math.abs(actualSubtotal - expectedSubtotal) < 0.01;
   const deliveryMatch = Math.abs(actualDelivery - expectedDelivery) < 0.01;
@@ -171,42 +589,267 @@ export function validateCartTotals(
 // ORDER CREATION SERVICES
 // ========================================
 
+/** SQLSTATE raised by woolwitch.reserve_order_stock when stock runs out */
+export const INSUFFICIENT_STOCK_ERROR_CODE = 'WWS01';
+
+/**
+ * Thrown when an order asks for more than the available stock.
+ * `shortages` lists each affected product so the UI can point at the lines.
+ */
+export class InsufficientStockError extends Error {
+  readonly shortages: StockShortage[];
+
+  constructor(shortages: StockShortage[]) {
+    super(
+      'Some items in your cart are out of stock: ' +
+      shortages.map(s => `${s.productName}${s.option ? ` - ${s.option}` : ''} (${s.available} available)`).join(', ')
+    );
+    this.name = 'InsufficientStockError';
+    this.shortages = shortages;
+  }
+}
+
+/** SQLSTATE raised by create_order when submitted totals differ from the server price */
+export const PRICE_MISMATCH_ERROR_CODE = 'WWP01';
+
+/**
+ * Thrown when the totals shown to the customer no longer match the server
+ * price, e.g. a product price changed while they were checking out.
+ */
+export class PriceMismatchError extends Error {
+  readonly serverTotals: Pick<OrderQuote, 'subtotal' | 'deliveryTotal' | 'giftWrapTotal' | 'discountTotal' | 'taxTotal' | 'total'> | null;
+
+  constructor(serverTotals: Pick<OrderQuote, 'subtotal' | 'deliveryTotal' | 'giftWrapTotal' | 'discountTotal' | 'taxTotal' | 'total'> | null) {
+    super('Prices in your cart have changed. Please review your order and try again.');
+    this.name = 'PriceMismatchError';
+    this.serverTotals = serverTotals;
+  }
+}
+
+/**
+ * Thrown when a payment was taken but no order could be placed for it, and
+ * the payment has been refunded in full. The customer can check out again;
+ * reason is why the order was refused (e.g. an InsufficientStockError).
+ */
+export class PaymentRefundedError extends Error {
+  readonly reason: Error;
+
+  constructor(message: string, reason: Error) {
+    super(message);
+    this.name = 'PaymentRefundedError';
+    this.reason = reason;
+  }
+}
+
+/** SQLSTATE raised by quote_order / create_order when a discount code cannot be used */
+export const INVALID_DISCOUNT_ERROR_CODE = 'WWD01';
+
+/**
+ * Thrown when a discount code cannot be used: unknown, expired, used up, or
+ * not applicable to the cart. The message is written for the customer.
+ */
+export class DiscountCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiscountCodeError';
+  }
+}
+
+/** SQLSTATE raised by get_gift_card / create_order when a gift card cannot be used */
+export const INVALID_GIFT_CARD_ERROR_CODE = 'WWG01';
+
+/**
+ * Thrown when a gift card cannot be used: unknown, voided, spent, in another
+ * currency or short of the order total. The message is written for the
+ * customer.
+ */
+export class GiftCardError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GiftCardError';
+  }
+}
+
+/**
+ * Converts the typed errors raised by create_order (WWS01, WWP01, WWD01,
+ * WWG01) into InsufficientStockError / PriceMismatchError / DiscountCodeError /
+ * GiftCardError. Details are sent as JSON in the Postgres error DETAIL.
+ */
+function toOrderError(error: unknown): Error | null {
+  const pgError = error as { code?: string; details?: string } | null;
+
+  if (pgError?.code === INSUFFICIENT_STOCK_ERROR_CODE) {
+    try {
+      const details = JSON.parse(pgError.details ?? '[]') as Array<{
+        product_id: string;
+        product_name: string;
+        option?: string;
+        requested: number;
+        available: number;
+      }>;
+      return new InsufficientStockError(details.map(d => ({
+        productId: d.product_id,
+        productName: d.product_name,
+        option: d.option,
+        requested: d.requested,
+        available: d.available
+      })));
+    } catch {
+      return new InsufficientStockError([]);
+    }
+  }
+
+  if (pgError?.code === PRICE_MISMATCH_ERROR_CODE) {
+    try {
+      const details = JSON.parse(pgError.details ?? '{}') as {
+        subtotal: number;
+        delivery_total: number;
+        gift_wrap_total: number;
+        discount_total: number;
+        tax_total: number;
+        total: number;
+      };
+      return new PriceMismatchError({
+        subtotal: Number(details.subtotal),
+        deliveryTotal: Number(details.delivery_total),
+        giftWrapTotal: Number(details.gift_wrap_total ?? 0),
+        discountTotal: Number(details.discount_total ?? 0),
+        taxTotal: Number(details.tax_total ?? 0),
+        total: Number(details.total)
+      });
+    } catch {
+      return new PriceMismatchError(null);
+    }
+  }
+
+  if (pgError?.code === INVALID_DISCOUNT_ERROR_CODE) {
+    return new DiscountCodeError((error as { message?: string }).message || 'This discount code cannot be used');
+  }
+
+  if (pgError?.code === INVALID_GIFT_CARD_ERROR_CODE) {
+    return new GiftCardError((error as { message?: string }).message || 'This gift card cannot be used');
+  }
+
+  return null;
+}
+
+/**
+ * Builds the order item payload sent to create_order / quote_order
+ */
+function buildOrderItems(cartItems: CartItem[]): OrderItemInput[] {
+  return cartItems.map(item => ({
+    product_id: item.product.id,
+    product_name: item.product.name,
+    product_price: getEffectivePrice(item),
+    quantity: item.quantity,
+    delivery_charge: item.product.delivery_charge || 0,
+    custom_selections: item.customSelections ?? [],
+    commission_token: item.commissionToken
+  }));
+}
+
+/**
+ * Prices the cart on the server. Use these totals for anything that charges
+ * the customer - the browser totals are for display only.
+ */
+export async function getOrderQuote(
+  cartItems: CartItem[],
+  address?: OrderAddress,
+  currency?: CurrencyCode,
+  discountCode?: string,
+  giftWrap: boolean = false
+): Promise<OrderQuote> {
+  try {
+    return await apiQuoteOrder(buildOrderItems(cartItems), address, currency, discountCode, giftWrap);
+  } catch (error) {
+    const orderError = toOrderError(error);
+    if (orderError) throw orderError;
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Failed to price order: ${errorMessage}`);
+  }
+}
+
+/**
+ * Looks up a discount code the customer entered. Throws DiscountCodeError
+ * when it cannot be used.
+ */
+export async function getDiscountCode(code: string): Promise<DiscountCode> {
+  try {
+    return await apiGetDiscountCode(code.trim());
+  } catch (error) {
+    throw toOrderError(error) ?? new Error('Could not check the discount code. Please try again.');
+  }
+}
+
+/**
+ * Looks up a gift card the customer entered. Throws GiftCardError when it
+ * cannot be used.
+ */
+export async function getGiftCard(code: string): Promise<GiftCard> {
+  try {
+    return await apiGetGiftCard(code.trim());
+  } catch (error) {
+    throw toOrderError(error) ?? new Error('Could not check the gift card. Please try again.');
+  }
+}
+
+/**
+ * Gift cards bought on an order, issued once it is paid
+ */
+export async function getOrderGiftCards(orderId: string): Promise<OrderGiftCard[]> {
+  try {
+    return await apiGetOrderGiftCards(orderId);
+  } catch (error) {
+    throw new Error(`Failed to fetch order gift cards: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function createOrder(orderData: CreateOrderData): Promise<Order> {
-  const { cartItems, paymentMethod, paymentId, paypalDetails, stripeDetails, ...customerInfo } = orderData;
+  const { cartItems, paymentMethod, paymentId, paypalDetails, stripeDetails, idempotencyKey, shippingConfig, taxConfig, currency, currencyConfig, discount, giftCard, recipientName, giftWrap, giftMessage, hidePrices, giftOptions, quotedTotals, ...customerInfo } = orderData;
 
   // Validate cart products before proceeding
   await logCartValidation(cartItems);
   const validation = await validateCartProducts(cartItems);
   
-  if (!validation.valid) {
+  if (validation.invalidItems.length > 0) {
     // Log validation errors in development only
     if (isDevRuntime()) {
       console.error('Invalid cart items detected:', validation.errors);
     }
     
     // Instead of throwing an error, suggest automatic cleanup
-    throw new Error(
+    const invalidItemsError = new Error(
       'Some products in your cart are no longer available and need to be removed. ' +
       'Please clear your cart and re-add the items, or refresh the page to automatically clean up invalid items.'
     );
+    if (paymentId && (paymentMethod === 'paypal' || paymentMethod === 'card')) {
+      await refundUnplacedOrder(paymentMethod, paymentId, invalidItemsError);
+    }
+    throw invalidItemsError;
+  }
+
+  // A retry's own stock reservation would show up here as a shortage, so
+  // keyed attempts leave the stock check to create_order (WWS01)
+  if (validation.stockShortages.length > 0 && !idempotencyKey) {
+    throw new InsufficientStockError(validation.stockShortages);
   }
 
-  const subtotal = calculateSubtotal(cartItems);
-  const deliveryTotal = calculateDeliveryTotal(cartItems);
-  const total = subtotal + deliveryTotal;
+  // A payment taken for a server quote is checked against that quote, so
+  // create_order rejects it only if prices changed after it was taken
+  const exchangeRate = getExchangeRate(currencyConfig, currency);
+  const subtotal = quotedTotals?.subtotal ?? calculateSubtotal(cartItems, exchangeRate);
+  const deliveryTotal = quotedTotals?.deliveryTotal ?? calculateDeliveryTotal(cartItems, shippingConfig, customerInfo.address, exchangeRate);
+  const total = quotedTotals?.total ?? calculateTotal(cartItems, shippingConfig, customerInfo.address, taxConfig, exchangeRate, discount, getGiftWrap(giftOptions, giftWrap));
+  const amountDue = getAmountDue(total, giftCard);
+  let orderId: string | undefined;
 
   try {
     // Build order items array for API call
-    const orderItems = cartItems.map(item => ({
-      product_id: item.product.id,
-      product_name: item.product.name,
-      product_price: getEffectivePrice(item),
-      quantity: item.quantity,
-      delivery_charge: item.product.delivery_charge || 0
-    }));
+    const orderItems = buildOrderItems(cartItems);
 
     // Use API layer to create order
-    const orderId = await apiCreateOrder({
+    orderId = await apiCreateOrder({
       email: customerInfo.email,
       fullName: customerInfo.fullName,
       address: customerInfo.address,
@@ -214,24 +857,51 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
       deliveryTotal,
       total,
       paymentMethod,
-      orderItems
+      orderItems,
+      idempotencyKey,
+      currency,
+      discountCode: discount?.code,
+      giftCardCode: giftCard?.code,
+      giftCardAmount: giftCard?.amount,
+      recipientName: recipientName?.trim(),
+      giftWrap,
+      giftMessage: giftMessage?.trim(),
+      hidePrices
     });
 
-    // If payment ID is provided, create payment record
-    if (paymentId) {
+    // If payment ID is provided, record the payment as pending, then have
+    // confirm-payment check it with the provider and mark the order paid.
+    // All three calls are safe to repeat with the same idempotency key.
+    // Orders the gift card covers in full are already paid.
+    if (paymentId && paymentMethod !== 'gift_card') {
       await apiCreatePayment({
         orderId,
         paymentMethod,
         paymentId,
-        amount: total,
-        status: paymentMethod === 'paypal' ? 'completed' : (paymentMethod === 'card' ? 'completed' : 'pending'),
+        amount: amountDue,
+        status: 'pending',
         paypalDetails,
-        stripeDetails
+        stripeDetails,
+        idempotencyKey
+      });
+      await apiConfirmPayment({
+        orderId,
+        paymentMethod,
+        paymentId,
+        amount: amountDue,
+        currency: currency ?? currencyConfig?.base_currency,
+        idempotencyKey
       });
     }
 
-    // Fetch the created order to return
-    const order = await apiGetOrderById(orderId);
+    // Fetch the created order to return. Guest orders are not visible to
+    // get_order_by_id, so fetch those through a guest access token (the
+    // lookup also accepts the last 8 characters of the order id).
+    let order = await apiGetOrderById(orderId);
+    if (!order) {
+      const access = await apiRequestGuestOrderAccess(customerInfo.email, orderId.slice(-8));
+      order = access ? await apiGetGuestOrder(access.access_token) : null;
+    }
     if (!order) {
       throw new Error('Failed to retrieve created order');
     }
@@ -243,14 +913,57 @@ export async function createOrder(orderData: CreateOrderData): Promise<Order> {
     if (isDevRuntime()) {
       console.error('Error creating order:', error);
     }
-    throw error;
+
+    const orderError = toOrderError(error) ?? error;
+
+    // The payment has been taken but create_order refused the order (stock,
+    // prices, discount code, gift card, address...) - give the money back.
+    // Failures that never reached the database are left to a retry with the
+    // same idempotency key, as the order may have been placed.
+    if (orderId === undefined && isOrderRejection(error) && paymentId && (paymentMethod === 'paypal' || paymentMethod === 'card')) {
+      await refundUnplacedOrder(paymentMethod, paymentId, orderError instanceof Error ? orderError : new Error(String(orderError)));
+    }
+
+    throw orderError;
+  }
+}
+
+/**
+ * True for errors raised by the database (they carry a five character
+ * SQLSTATE), as opposed to network failures
+ */
+function isOrderRejection(error: unknown): boolean {
+  return /^[0-9A-Z]{5}$/.test((error as { code?: string } | null)?.code ?? '');
+}
+
+/**
+ * Refunds a payment taken for an order that could not be placed. Throws
+ * PaymentRefundedError once refunded, or an error asking the customer to
+ * contact us if the refund failed.
+ */
+async function refundUnplacedOrder(paymentMethod: 'paypal' | 'card', paymentId: string, reason: Error): Promise<never> {
+  const problem = reason instanceof PriceMismatchError
+    ? 'Prices changed while you were paying, so we could not place your order.'
+    : `We could not place your order: ${reason.message.replace(/\.?$/, '.')}`;
+
+  try {
+    await apiVoidPayment({ paymentMethod, paymentId });
+  } catch {
+    throw new Error(
+      `${problem} We could not refund your payment automatically - please contact us quoting payment reference ${paymentId}.`
+    );
   }
+
+  throw new PaymentRefundedError(
+    `${problem} Your payment has been refunded in full - please review your order and try again.`,
+    reason
+  );
 }
 
 /**
  * Get order items for a specific order
  */
-export async function getOrderItems(orderId: string): Promise<any[]> {
+export async function getOrderItems(orderId: string): Promise<OrderItem[]> {
   try {
     const items = await apiGetOrderItems(orderId);
     return items || [];
@@ -263,14 +976,124 @@ export async function getOrderItems(orderId: string): Promise<any[]> {
   }
 }
 
-export async function updateOrderStatus(orderId: string, status: Order['status']): Promise<void> {
+export async function updateOrderStatus(
+  orderId: string,
+  status: Order['status'],
+  note?: string
+): Promise<void> {
   try {
-    await apiUpdateOrderStatus(orderId, status);
+    await apiUpdateOrderStatus(orderId, status, note);
   } catch (error) {
     throw new Error(`Failed to update order status: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Get the status timeline for an order, oldest first
+ */
+export async function getOrderStatusHistory(orderId: string): Promise<OrderStatusHistoryEntry[]> {
+  try {
+    return await apiGetOrderStatusHistory(orderId);
+  } catch (error) {
+    throw new Error(`Failed to fetch order status history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Mark an order as shipped, recording one entry per parcel
+ */
+export async function markOrderShipped(
+  orderId: string,
+  shipments: ShipmentInput[],
+  note?: string
+): Promise<void> {
+  try {
+    await apiMarkOrderShipped(orderId, shipments, note);
+  } catch (error) {
+    throw new Error(`Failed to mark order shipped: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get the parcels sent for an order, in dispatch order
+ */
+export async function getOrderShipments(orderId: string): Promise<Shipment[]> {
+  try {
+    return await apiGetOrderShipments(orderId);
+  } catch (error) {
+    throw new Error(`Failed to fetch order shipments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Refund an order's payment in full (no amount) or in part
+ */
+export async function refundOrder(orderId: string, amount?: number, reason?: string): Promise<RefundResult> {
+  try {
+    return await apiRefundOrder(orderId, amount, reason);
+  } catch (error) {
+    throw new Error(`Failed to refund order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Link a payment taken by Stripe / PayPal that never reached its order
+ * (admin only). The payment is checked with the provider before it is
+ * recorded, and a pending order is marked paid.
+ */
+export async function linkOrderPayment(
+  order: Order,
+  paymentMethod: 'card' | 'paypal',
+  paymentId: string
+): Promise<ConfirmPaymentResult> {
+  try {
+    return await apiConfirmPayment({ orderId: order.id, paymentMethod, paymentId, amount: Math.round((order.total - order.gift_card_total) * 100) / 100 });
+  } catch (error) {
+    throw new Error(`Failed to link payment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Get the refunds issued for an order, oldest first
+ */
+export async function getOrderRefunds(orderId: string): Promise<Refund[]> {
+  try {
+    return await apiGetOrderRefunds(orderId);
+  } catch (error) {
+    throw new Error(`Failed to fetch order refunds: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Amount that can still be refunded for an order
+ */
+export function getRefundableAmount(order: Order): number {
+  if (order.status === 'pending') return 0;
+  return Math.max(0, Math.round((order.total - order.refunded_total) * 100) / 100);
+}
+
+/**
+ * Whether an order has been issued an invoice (issued when it is first paid)
+ */
+export function hasInvoice(order: Order): boolean {
+  return ['paid', 'shipped', 'delivered'].includes(order.status) || order.refunded_total > 0;
+}
+
+/**
+ * Render an order's invoice or packing slip as a PDF or printable HTML page
+ */
+export async function getOrderDocument(
+  orderId: string,
+  document: OrderDocumentType,
+  format: OrderDocumentFormat
+): Promise<Blob> {
+  try {
+    return await apiGenerateOrderDocument(orderId, document, format);
+  } catch (error) {
+    throw new Error(`Failed to generate ${document === 'invoice' ? 'invoice' : 'packing slip'}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function createPaymentRecord(
   orderId: string, 
   paymentMethod: 'card' | 'paypal',
@@ -317,11 +1140,57 @@ export async function getOrderById(orderId: string): Promise<Order | null> {
   }
 }
 
+/**
+ * Exchange an email address and order reference for a signed, expiring
+ * access token. Returns null when they do not match an order.
+ */
+export async function requestGuestOrderAccess(email: string, orderReference: string): Promise<GuestOrderAccess | null> {
+  try {
+    return await apiRequestGuestOrderAccess(email.trim(), orderReference.trim());
+  } catch (error) {
+    throw new Error(`Failed to look up order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getGuestOrder(accessToken: string): Promise<Order | null> {
+  try {
+    return await apiGetGuestOrder(accessToken);
+  } catch (error) {
+    throw new Error(`Failed to fetch order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getGuestOrderItems(accessToken: string): Promise<OrderItem[]> {
+  try {
+    return await apiGetGuestOrderItems(accessToken);
+  } catch (error) {
+    throw new Error(`Failed to fetch order items: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getGuestOrderStatusHistory(accessToken: string): Promise<OrderStatusHistoryEntry[]> {
+  try {
+    return await apiGetGuestOrderStatusHistory(accessToken);
+  } catch (error) {
+    throw new Error(`Failed to fetch order status history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function getGuestOrderShipments(accessToken: string): Promise<Shipment[]> {
+  try {
+    return await apiGetGuestOrderShipments(accessToken);
+  } catch (error) {
+    throw new Error(`Failed to fetch order shipments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 export async function getAllOrders(options: {
   status?: string;
   paymentMethod?: string;
   limit?: number;
   offset?: number;
+  search?: string;
+  sort?: 'newest' | 'dispatch_by';
 } = {}): Promise<Order[]> {
   try {
     const orders = await apiGetAllOrders(options);
@@ -334,6 +1203,8 @@ export async function getAllOrders(options: {
 export async function getOrderStatistics(): Promise<{
   totalOrders: number;
   totalRevenue: number;
+  totalRefunded: number;
+  totalTax: number;
   ordersByStatus: Record<string, number>;
   ordersByPaymentMethod: Record<string, number>;
   recentOrders: Order[];
@@ -341,7 +1212,12 @@ export async function getOrderStatistics(): Promise<{
   const orders = await getAllOrders({ limit: 100 });
   
   const totalOrders = orders.length;
-  const totalRevenue = orders.reduce((sum: number, order: any) => sum + (order.total || 0), 0);
+  // Revenue is reported net of refunds, in the base currency: orders paid in
+  // another currency are converted back at the rate they were charged at
+  const toBase = (order: any, amount: number) => amount / (Number(order.exchange_rate) || 1);
+  const totalRefunded = orders.reduce((sum: number, order: any) => sum + toBase(order, order.refunded_total || 0), 0);
+  const totalRevenue = orders.reduce((sum: number, order: any) => sum + toBase(order, order.total || 0), 0) - totalRefunded;
+  const totalTax = orders.reduce((sum: number, order: any) => sum + toBase(order, order.tax_total || 0), 0);
   
   const ordersByStatus = orders.reduce((acc: Record<string, number>, order: any) => {
     const status = order.status || 'unknown';
@@ -360,6 +1236,8 @@ export async function getOrderStatistics(): Promise<{
   return {
     totalOrders,
     totalRevenue,
+    totalRefunded,
+    totalTax,
     ordersByStatus,
     ordersByPaymentMethod,
     recentOrders
@@ -384,17 +1262,15 @@ export function validateOrderData(orderData: CreateOrderData): string[] {
     errors.push('Full name is required');
   }
 
-  const { address } = orderData;
-  if (!address.address || address.address.trim().length < 5) {
-    errors.push('Street address is required');
+  if (orderData.recipientName && orderData.recipientName.trim().length > 200) {
+    errors.push('Recipient name must be 200 characters or fewer');
   }
 
-  if (!address.city || address.city.trim().length < 2) {
-    errors.push('City is required');
-  }
+  errors.push(...validateAddress(orderData.address));
 
-  if (!address.postcode || address.postcode.trim().length < 3) {
-    errors.push('Postcode is required');
+  const deliveryRestriction = getDeliveryRestriction(orderData.cartItems, orderData.shippingConfig, orderData.address);
+  if (deliveryRestriction) {
+    errors.push(deliveryRestriction);
   }
 
   if (!orderData.cartItems || orderData.cartItems.length === 0) {
@@ -411,15 +1287,54 @@ export function validateOrderData(orderData: CreateOrderData): string[] {
     }
   });
 
-  if (!['card', 'paypal'].includes(orderData.paymentMethod)) {
+  if (!['card', 'paypal', 'gift_card'].includes(orderData.paymentMethod)) {
     errors.push('Invalid payment method');
   }
 
+  if (orderData.paymentMethod === 'gift_card' && !orderData.giftCard) {
+    errors.push('A gift card is required to pay by gift card');
+  }
+
+  if (orderData.giftWrap && !orderData.giftOptions?.gift_wrap_enabled) {
+    errors.push('Gift wrapping is not available');
+  }
+
+  if (orderData.giftMessage && orderData.giftMessage.trim().length > 500) {
+    errors.push('Gift message must be 500 characters or fewer');
+  }
+
   return errors;
 }
 
-export function formatOrderAddress(address: OrderAddress): string {
-  return `${address.address}, ${address.city}, ${address.postcode}`;
+export function formatOrderAddress(address: OrderAddress | LegacyOrderAddress): string {
+  return formatAddressLines(address).join(', ');
+}
+
+/**
+ * Formats the custom property selections stored on an order item,
+ * e.g. "Size: Large · Colour: Sage".
+ */
+export function formatOrderItemSelections(item: Pick<OrderItem, 'custom_selections'>): string {
+  if (!item.custom_selections || item.custom_selections.length === 0) return '';
+  return item.custom_selections
+    .map(selection => `${selection.label}: ${selection.value}`)
+    .join(' · ');
+}
+
+/**
+ * Allowed order status transitions. Mirrors woolwitch.is_valid_status_transition,
+ * which enforces the same rules in the database.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<Order['status'], Order['status'][]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['shipped', 'cancelled'],
+  shipped: ['delivered'],
+  delivered: [],
+  cancelled: []
+};
+
+export function getNextOrderStatuses(status: Order['status']): Order['status'][] {
+  return ORDER_STATUS_TRANSITIONS[status] ?? [];
 }
 
 export function formatOrderStatus(status: Order['status']): string {
@@ -434,6 +1349,25 @@ export function formatOrderStatus(status: Order['status']): string {
   return statusMap[status] || status;
 }
 
+export function formatPaymentMethod(method: PaymentMethod): string {
+  const methodMap: Record<PaymentMethod, string> = {
+    card: 'Card',
+    paypal: 'PayPal',
+    gift_card: 'Gift card'
+  };
+
+  return methodMap[method] || method;
+}
+
+/**
+ * How an order was paid, e.g. "PayPal and gift card" when a gift card paid
+ * part of it
+ */
+export function formatOrderPaymentMethod(order: Pick<Order, 'payment_method' | 'gift_card_total'>): string {
+  const method = formatPaymentMethod(order.payment_method);
+  return order.gift_card_total > 0 && order.payment_method !== 'gift_card' ? `${method} and gift card` : method;
+}
+
 export function getOrderStatusColor(status: Order['status']): string {
   const colorMap: Record<Order['status'], string> = {
     pending: 'text-yellow-600 bg-yellow-50 border-yellow-200',
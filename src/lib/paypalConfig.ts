@@ -5,10 +5,12 @@
  * and provides type-safe configuration options.
  */
 
+import type { CurrencyCode } from '../types/database';
+
 // PayPal environment types
 export type PayPalEnvironment = 'sandbox' | 'production';
 export type PayPalIntent = 'capture' | 'authorize';
-export type PayPalCurrency = 'GBP' | 'USD' | 'EUR';
+export type PayPalCurrency = CurrencyCode;
 
 // PayPal configuration interface
 export interface PayPalConfig {
@@ -61,13 +63,13 @@ export const isPayPalConfigured = (): boolean => {
 };
 
 /**
- * Get complete PayPal configuration
+ * Get complete PayPal configuration for the currency the customer pays in
  */
-export const getPayPalConfig = (): PayPalConfig => {
+export const getPayPalConfig = (currency: PayPalCurrency = 'GBP'): PayPalConfig => {
   return {
     clientId: getPayPalClientId(),
     environment: getPayPalEnvironment(),
-    currency: 'GBP', // Wool Witch uses GBP
+    currency,
     intent: 'capture', // Immediate payment capture
   };
 };
@@ -75,8 +77,8 @@ export const getPayPalConfig = (): PayPalConfig => {
 /**
  * Generate PayPal SDK URL with query parameters
  */
-export const getPayPalSDKUrl = (additionalOptions: Record<string, string> = {}): string => {
-  const config = getPayPalConfig();
+export const getPayPalSDKUrl = (additionalOptions: Record<string, string> = {}, currency?: PayPalCurrency): string => {
+  const config = getPayPalConfig(currency);
   
   const params = new URLSearchParams({
     'client-id': config.clientId,
@@ -0,0 +1,98 @@
+/**
+ * Tax Calculator Utility
+ *
+ * Works out VAT / sales tax for a cart from the shop's tax config: each line
+ * is taxed at the rate for its product's tax class in the destination
+ * country, and delivery at the delivery tax class. Prices are either entered
+ * including tax (the tax is the part of the price that is tax) or excluding
+ * it (the tax is added on top). The same rules are in woolwitch.tax_rate_for,
+ * woolwitch.tax_amount and woolwitch_api.quote_order; keep them in step.
+ */
+
+import { DEFAULT_COUNTRY } from './addressConfig';
+import type { TaxClass, TaxConfig } from '../types/database';
+
+// Tax class options for product and delivery settings
+export const TAX_CLASSES: { value: TaxClass; label: string }[] = [
+  { value: 'standard', label: 'Standard rate' },
+  { value: 'reduced', label: 'Reduced rate' },
+  { value: 'zero', label: 'Zero rate' }
+];
+
+// A priced amount and the tax class it is charged at
+export interface TaxableLine {
+  amount: number;
+  taxClass: TaxClass | string | null | undefined;
+}
+
+export interface TaxBreakdown {
+  /** Tax on each line, in the order given */
+  lineTaxes: number[];
+  deliveryTax: number;
+  taxTotal: number;
+  pricesIncludeTax: boolean;
+  /** Name of the tax in the destination country, e.g. "VAT" */
+  label: string;
+}
+
+/**
+ * Rate (percent) for a destination country and tax class; 0 when none is set
+ */
+export const getTaxRate = (config: TaxConfig | null | undefined, country: string | undefined, taxClass: string | null | undefined): number => {
+  const code = (country || DEFAULT_COUNTRY).toUpperCase();
+  const rate = config?.rates.find(r => r.country === code && r.tax_class === (taxClass || 'standard'));
+  return rate?.rate ?? 0;
+};
+
+/**
+ * Name of the tax charged in a country, defaulting to "VAT"
+ */
+export const getTaxLabel = (config: TaxConfig | null | undefined, country: string | undefined): string => {
+  const code = (country || DEFAULT_COUNTRY).toUpperCase();
+  return config?.rates.find(r => r.country === code && r.tax_class === 'standard')?.name
+    ?? config?.rates.find(r => r.country === code)?.name
+    ?? 'VAT';
+};
+
+/**
+ * Tax in an amount at a rate, rounded to the penny: the tax part of a
+ * tax-inclusive amount, or the tax to add to a tax-exclusive one
+ */
+export const calculateTaxAmount = (amount: number, rate: number, pricesIncludeTax: boolean): number => {
+  if (rate <= 0 || amount <= 0) return 0;
+
+  const tax = pricesIncludeTax ? amount * rate / (100 + rate) : amount * rate / 100;
+  return Math.round(tax * 100) / 100;
+};
+
+/**
+ * Tax on a set of lines and the delivery charge for a destination country
+ * (the UK when not known yet). Without a config nothing is taxed and prices
+ * are treated as tax-inclusive, so totals are unchanged.
+ */
+export const calculateTax = (
+  config: TaxConfig | null | undefined,
+  lines: TaxableLine[],
+  deliveryTotal: number,
+  country?: string
+): TaxBreakdown => {
+  const pricesIncludeTax = config?.prices_include_tax ?? true;
+
+  const lineTaxes = lines.map(line =>
+    calculateTaxAmount(line.amount, getTaxRate(config, country, line.taxClass), pricesIncludeTax)
+  );
+  const deliveryTax = calculateTaxAmount(
+    deliveryTotal,
+    getTaxRate(config, country, config?.delivery_tax_class),
+    pricesIncludeTax
+  );
+  const taxTotal = Math.round((lineTaxes.reduce((sum, tax) => sum + tax, 0) + deliveryTax) * 100) / 100;
+
+  return {
+    lineTaxes,
+    deliveryTax,
+    taxTotal,
+    pricesIncludeTax,
+    label: getTaxLabel(config, country)
+  };
+};
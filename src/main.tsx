@@ -3,14 +3,20 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import { CartProvider } from './contexts/CartContext.tsx';
 import { AuthProvider } from './contexts/AuthContext.tsx';
+import { CurrencyProvider } from './contexts/CurrencyContext.tsx';
+import { WishlistProvider } from './contexts/WishlistContext.tsx';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <AuthProvider>
-      <CartProvider>
-        <App />
-      </CartProvider>
+      <CurrencyProvider>
+        <CartProvider>
+          <WishlistProvider>
+            <App />
+          </WishlistProvider>
+        </CartProvider>
+      </CurrencyProvider>
     </AuthProvider>
   </StrictMode>
 );
@@ -0,0 +1,37 @@
+import { useAuth } from '../contexts/AuthContext';
+import { AddressBook } from '../components/AddressBook';
+
+export function Account() {
+  const { user, isAuthenticated } = useAuth();
+
+  if (!isAuthenticated) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-serif text-gray-900 mb-4">
+            Sign in Required
+          </h2>
+          <p className="text-gray-600 mb-8">
+            Please sign in to manage your account.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <h1 className="text-3xl font-serif text-gray-900">My Account</h1>
+          <p className="text-gray-600 mt-2">
+            Signed in as {user?.email}
+          </p>
+        </div>
+
+        <AddressBook />
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,28 @@
-import { useEffect, useState, useRef } from 'react';
-import { Plus, Edit2, Trash2, Save, X, Upload, Package, ShoppingCart, GripVertical, ChevronUp, ChevronDown } from 'lucide-react';
+import { Fragment, useEffect, useState, useRef } from 'react';
+import { Plus, Edit2, Trash2, Save, X, Upload, Package, ShoppingCart, Mail, Truck, Percent, Coins, Tag, Gift, Palette, Star, Search, GripVertical, ChevronUp, ChevronDown } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { dataService } from '../lib/dataService';
-import { getProducts, createProduct, updateProduct, deleteProduct, updateProductSortOrders, CreateProductData } from '../lib/apiService';
-import type { Product, Order, CustomPropertiesConfig } from '../types/database';
+import { getProducts, createProduct, updateProduct, deleteProduct, updateProductSortOrders, getShippingConfig, CreateProductData } from '../lib/apiService';
+import type { Product, Order, ShipmentInput, CustomPropertiesConfig, ShippingProfile, TaxClass } from '../types/database';
 import { useAuth } from '../contexts/AuthContext';
-import { getAllOrders, updateOrderStatus, getOrderStatistics, formatOrderStatus, getOrderStatusColor } from '../lib/orderService';
+import { getAllOrders, updateOrderStatus, markOrderShipped, refundOrder, linkOrderPayment, getOrderStatistics, formatOrderStatus, formatOrderPaymentMethod, getOrderStatusColor, getNextOrderStatuses } from '../lib/orderService';
 import { compressImage, formatFileSize } from '../lib/imageCompression';
 import { CustomPropertiesEditor } from '../components/CustomPropertiesEditor';
+import { AdminOrderDetails } from '../components/AdminOrderDetails';
+import { ShipOrderDialog } from '../components/ShipOrderDialog';
+import { AdminEmailLog } from '../components/AdminEmailLog';
+import { AdminShippingSettings } from '../components/AdminShippingSettings';
+import { AdminGiftWrapSettings } from '../components/AdminGiftWrapSettings';
+import { AdminTaxSettings } from '../components/AdminTaxSettings';
+import { AdminCurrencySettings } from '../components/AdminCurrencySettings';
+import { AdminDiscountCodes } from '../components/AdminDiscountCodes';
+import { AdminGiftCards } from '../components/AdminGiftCards';
+import { AdminCommissions } from '../components/AdminCommissions';
+import { AdminReviews } from '../components/AdminReviews';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { formatMoney, formatPriceRange, getCurrency } from '../lib/money';
+import { formatEstimateDate, isDispatchOverdue } from '../lib/leadTime';
+import { TAX_CLASSES } from '../lib/taxCalculator';
 import {
   DndContext,
   closestCenter,
@@ -36,6 +51,11 @@ interface ProductFormData {
   category: string;
   stock_quantity: string;
   delivery_charge: string;
+  shipping_profile_id: string;
+  weight_grams: string;
+  lead_time_days: string;
+  tax_class: TaxClass;
+  is_gift_card: boolean;
   is_available: boolean;
   custom_properties: CustomPropertiesConfig | null;
 }
@@ -48,6 +68,7 @@ interface SortableProductRowProps {
 }
 
 function SortableProductRow({ product, onEdit, onDelete, isReordering }: SortableProductRowProps) {
+  const { baseCurrency } = useCurrency();
   const {
     attributes,
     listeners,
@@ -94,10 +115,7 @@ function SortableProductRow({ product, onEdit, onDelete, isReordering }: Sortabl
         {product.category}
       </td>
       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-        {product.price_max && product.price_max > product.price
-          ? `£${product.price.toFixed(2)} - £${product.price_max.toFixed(2)}`
-          : `£${product.price.toFixed(2)}`
-        }
+        {formatPriceRange(product.price, product.price_max, baseCurrency)}
       </td>
       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
         {product.stock_quantity}
@@ -149,6 +167,7 @@ interface SortableProductCardProps {
 }
 
 function SortableProductCard({ product, onEdit, onDelete, isReordering, onMoveUp, onMoveDown, isFirst, isLast }: SortableProductCardProps) {
+  const { baseCurrency } = useCurrency();
   const {
     attributes,
     listeners,
@@ -214,10 +233,7 @@ function SortableProductCard({ product, onEdit, onDelete, isReordering, onMoveUp
               <h3 className="text-sm font-medium text-gray-900 truncate">{product.name}</h3>
               <p className="text-xs text-gray-500 mb-1">{product.category}</p>
               <p className="text-sm font-semibold text-gray-900">
-                {product.price_max && product.price_max > product.price
-                  ? `£${product.price.toFixed(2)} - £${product.price_max.toFixed(2)}`
-                  : `£${product.price.toFixed(2)}`
-                }
+                {formatPriceRange(product.price, product.price_max, baseCurrency)}
               </p>
             </div>
             {!isReordering && (
@@ -259,11 +275,19 @@ function SortableProductCard({ product, onEdit, onDelete, isReordering, onMoveUp
 
 export function Admin() {
   const { isAdmin, loading: authLoading } = useAuth();
+  const { baseCurrency } = useCurrency();
+  const baseSymbol = getCurrency(baseCurrency)?.symbol ?? baseCurrency;
   const formRef = useRef<HTMLDivElement>(null);
-  const [activeTab, setActiveTab] = useState<'products' | 'orders'>('products');
+  const [activeTab, setActiveTab] = useState<'products' | 'orders' | 'emails' | 'shipping' | 'tax' | 'currency' | 'discounts' | 'giftcards' | 'commissions' | 'reviews'>('products');
   const [products, setProducts] = useState<Product[]>([]);
+  const [shippingProfiles, setShippingProfiles] = useState<ShippingProfile[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [orderStats, setOrderStats] = useState<any>(null);
+  const [orderSearch, setOrderSearch] = useState('');
+  // The dispatch queue is paid orders, soonest promised dispatch first
+  const [orderView, setOrderView] = useState<'all' | 'dispatch'>('all');
+  const [expandedOrderId, setExpandedOrderId] = useState<string | null>(null);
+  const [shippingOrder, setShippingOrder] = useState<{ order: Order; note?: string } | null>(null);
   const [loading, setLoading] = useState(true);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [isAdding, setIsAdding] = useState(false);
@@ -282,6 +306,11 @@ export function Admin() {
     category: '',
     stock_quantity: '0',
     delivery_charge: '0',
+    shipping_profile_id: '',
+    weight_grams: '',
+    lead_time_days: '0',
+    tax_class: 'standard',
+    is_gift_card: false,
     is_available: true,
     custom_properties: null,
   });
@@ -308,7 +337,10 @@ export function Admin() {
     if (isAdmin) {
       if (activeTab === 'products') {
         fetchAllProducts();
-      } else {
+        fetchShippingProfiles();
+      } else if (activeTab === 'orders') {
+        setOrderSearch('');
+        setOrderView('all');
         fetchAllOrders();
         fetchOrderStatistics();
       }
@@ -331,10 +363,23 @@ export function Admin() {
     }
   }
 
-  async function fetchAllOrders() {
+  async function fetchShippingProfiles() {
+    try {
+      const config = await getShippingConfig();
+      setShippingProfiles(config.profiles);
+    } catch {
+      // The product form falls back to per-item delivery charges
+    }
+  }
+
+  async function fetchAllOrders(search?: string, view: 'all' | 'dispatch' = 'all') {
     try {
       setLoading(true);
-      const ordersData = await getAllOrders({ limit: 100 });
+      const ordersData = await getAllOrders(
+        view === 'dispatch'
+          ? { limit: 100, search, status: 'paid', sort: 'dispatch_by' }
+          : { limit: 100, search }
+      );
       setOrders(ordersData);
     } catch {
       console.error('Error loading orders');
@@ -430,16 +475,59 @@ export function Admin() {
     }
   }
 
-  async function handleUpdateOrderStatus(orderId: string, newStatus: Order['status']) {
+  async function handleUpdateOrderStatus(orderId: string, newStatus: Order['status'], note?: string) {
+    // Shipping needs parcel details, which are captured by ShipOrderDialog
+    if (newStatus === 'shipped') {
+      const order = orders.find(o => o.id === orderId);
+      if (order) setShippingOrder({ order, note });
+      return;
+    }
+
     try {
-      await updateOrderStatus(orderId, newStatus);
+      await updateOrderStatus(orderId, newStatus, note);
       setOrders(orders.map(order => 
         order.id === orderId ? { ...order, status: newStatus } : order
       ));
       // Refresh stats
       fetchOrderStatistics();
-    } catch {
+    } catch (error) {
       console.error('Error updating order status');
+      alert(error instanceof Error ? error.message : 'Failed to update order status');
+    }
+  }
+
+  async function handleMarkShipped(orderId: string, shipments: ShipmentInput[], note?: string) {
+    await markOrderShipped(orderId, shipments, note);
+    setOrders(orders.map(order =>
+      order.id === orderId ? { ...order, status: 'shipped' } : order
+    ));
+    setShippingOrder(null);
+    fetchOrderStatistics();
+  }
+
+  async function handleRefundOrder(orderId: string, amount?: number, reason?: string) {
+    try {
+      const refund = await refundOrder(orderId, amount, reason);
+      setOrders(orders.map(order =>
+        order.id === orderId ? { ...order, refunded_total: order.refunded_total + refund.amount } : order
+      ));
+      fetchOrderStatistics();
+    } catch (error) {
+      console.error('Error refunding order');
+      alert(error instanceof Error ? error.message : 'Failed to refund order');
+    }
+  }
+
+  async function handleLinkPayment(order: Order, paymentMethod: 'card' | 'paypal', paymentId: string) {
+    try {
+      const result = await linkOrderPayment(order, paymentMethod, paymentId);
+      setOrders(orders.map(o =>
+        o.id === order.id ? { ...o, status: result.order_status } : o
+      ));
+      fetchOrderStatistics();
+    } catch (error) {
+      console.error('Error linking payment');
+      alert(error instanceof Error ? error.message : 'Failed to link payment');
     }
   }
 
@@ -454,6 +542,11 @@ export function Admin() {
       category: product.category,
       stock_quantity: (product.stock_quantity ?? 0).toString(),
       delivery_charge: (product.delivery_charge ?? 0).toString(),
+      shipping_profile_id: product.shipping_profile_id ?? '',
+      weight_grams: product.weight_grams?.toString() ?? '',
+      lead_time_days: (product.lead_time_days ?? 0).toString(),
+      tax_class: (product.tax_class as TaxClass | undefined) ?? 'standard',
+      is_gift_card: product.is_gift_card ?? false,
       is_available: product.is_available ?? false,
       custom_properties: (product.custom_properties as CustomPropertiesConfig | null) ?? null,
     });
@@ -489,6 +582,11 @@ export function Admin() {
       category: '',
       stock_quantity: '0',
       delivery_charge: '0',
+      shipping_profile_id: '',
+      weight_grams: '',
+      lead_time_days: '0',
+      tax_class: 'standard',
+      is_gift_card: false,
       is_available: true,
       custom_properties: null,
     });
@@ -633,6 +731,8 @@ export function Admin() {
       const price = parseFloat(formData.price);
       const stockQuantity = parseInt(formData.stock_quantity);
       const deliveryCharge = parseFloat(formData.delivery_charge);
+      const weightGrams = formData.weight_grams.trim() ? parseInt(formData.weight_grams) : null;
+      const leadTimeDays = parseInt(formData.lead_time_days || '0');
       const priceMax = formData.price_max.trim() ? parseFloat(formData.price_max) : undefined;
 
       if (isNaN(price) || price < 0) {
@@ -655,6 +755,14 @@ export function Admin() {
         alert('Please enter a valid delivery charge (must be 0 or greater)');
         return;
       }
+      if (weightGrams !== null && (isNaN(weightGrams) || weightGrams < 0)) {
+        alert('Please enter a valid weight in grams (must be 0 or greater)');
+        return;
+      }
+      if (isNaN(leadTimeDays) || leadTimeDays < 0 || leadTimeDays > 365) {
+        alert('Please enter a valid lead time (0 to 365 working days)');
+        return;
+      }
 
       const productData: CreateProductData = {
         name: formData.name.trim(),
@@ -664,6 +772,11 @@ export function Admin() {
         category: formData.category.trim(),
         stock_quantity: stockQuantity,
         delivery_charge: deliveryCharge,
+        shipping_profile_id: formData.shipping_profile_id || null,
+        weight_grams: weightGrams,
+        lead_time_days: leadTimeDays,
+        tax_class: formData.tax_class,
+        is_gift_card: formData.is_gift_card,
         is_available: formData.is_available,
         price_max: priceMax,
         custom_properties: formData.custom_properties,
@@ -740,6 +853,94 @@ export function Admin() {
               <ShoppingCart className="w-5 h-5" />
               <span className="text-sm sm:text-base">Orders</span>
             </button>
+            <button
+              onClick={() => setActiveTab('emails')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'emails'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Mail className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Emails</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('shipping')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'shipping'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Truck className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Shipping</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('tax')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'tax'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Percent className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Tax</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('currency')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'currency'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Coins className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Currency</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('discounts')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'discounts'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Tag className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Discounts</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('giftcards')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'giftcards'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Gift className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Gift Cards</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('commissions')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'commissions'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Palette className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Commissions</span>
+            </button>
+            <button
+              onClick={() => setActiveTab('reviews')}
+              className={`flex items-center space-x-2 px-3 sm:px-4 py-2 rounded-lg font-medium transition-colors ${
+                activeTab === 'reviews'
+                  ? 'bg-rose-600 text-white'
+                  : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+            >
+              <Star className="w-5 h-5" />
+              <span className="text-sm sm:text-base">Reviews</span>
+            </button>
           </div>
           
           {activeTab === 'products' && (
@@ -826,9 +1027,9 @@ export function Admin() {
                 </div>
               </div>
               
-              <div className="sm:col-span-2 sm:grid sm:grid-cols-3 sm:gap-4 space-y-4 sm:space-y-0">
+              <div className="sm:col-span-2 sm:grid sm:grid-cols-4 sm:gap-4 space-y-4 sm:space-y-0">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Price (£)</label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Price ({baseSymbol})</label>
                   <input
                     type="number"
                     step="0.01"
@@ -838,7 +1039,7 @@ export function Admin() {
                   />
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Max Price (£) <span className="text-gray-500 text-xs">(optional)</span></label>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Max Price ({baseSymbol}) <span className="text-gray-500 text-xs">(optional)</span></label>
                   <input
                     type="number"
                     step="0.01"
@@ -857,17 +1058,67 @@ export function Admin() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Lead Time (working days)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="365"
+                    value={formData.lead_time_days}
+                    onChange={(e) => setFormData({ ...formData, lead_time_days: e.target.value })}
+                    placeholder="0 if ready to send"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+                  />
+                </div>
               </div>
               
-              <div className="sm:col-span-2">
-                <label className="block text-sm font-medium text-gray-700 mb-1">Delivery (£)</label>
-                <input
-                  type="number"
-                  step="0.01"
-                  value={formData.delivery_charge}
-                  onChange={(e) => setFormData({ ...formData, delivery_charge: e.target.value })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
-                />
+              <div className="sm:col-span-2 grid grid-cols-1 sm:grid-cols-4 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Shipping Profile</label>
+                  <select
+                    value={formData.shipping_profile_id}
+                    onChange={(e) => setFormData({ ...formData, shipping_profile_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+                  >
+                    <option value="">None - charge per item</option>
+                    {shippingProfiles.map(profile => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Delivery per item ({baseSymbol})</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={formData.delivery_charge}
+                    onChange={(e) => setFormData({ ...formData, delivery_charge: e.target.value })}
+                    disabled={!!formData.shipping_profile_id}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500 disabled:bg-gray-100"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Weight (g)</label>
+                  <input
+                    type="number"
+                    value={formData.weight_grams}
+                    onChange={(e) => setFormData({ ...formData, weight_grams: e.target.value })}
+                    placeholder="For weight bands"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tax Class</label>
+                  <select
+                    value={formData.tax_class}
+                    onChange={(e) => setFormData({ ...formData, tax_class: e.target.value as TaxClass })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+                  >
+                    {TAX_CLASSES.map(taxClass => (
+                      <option key={taxClass.value} value={taxClass.value}>{taxClass.label}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
               
               <div className="sm:col-span-2">
@@ -950,6 +1201,21 @@ export function Admin() {
                   <span className="text-sm font-medium text-gray-700">Available for purchase</span>
                 </label>
               </div>
+
+              <div className="sm:col-span-2">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_gift_card}
+                    onChange={(e) => setFormData({ ...formData, is_gift_card: e.target.checked })}
+                    className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Sold as a gift card</span>
+                </label>
+                <p className="text-xs text-gray-500 mt-1 ml-6">
+                  Each one bought is emailed as a gift card worth the price paid, once the order is paid.
+                </p>
+              </div>
             </div>
             
             {/* Desktop action buttons */}
@@ -1052,6 +1318,25 @@ export function Admin() {
           </>
         )}
         </div>
+        ) : activeTab === 'emails' ? (
+          <AdminEmailLog />
+        ) : activeTab === 'shipping' ? (
+          <div className="space-y-10">
+            <AdminShippingSettings />
+            <AdminGiftWrapSettings />
+          </div>
+        ) : activeTab === 'tax' ? (
+          <AdminTaxSettings />
+        ) : activeTab === 'currency' ? (
+          <AdminCurrencySettings />
+        ) : activeTab === 'discounts' ? (
+          <AdminDiscountCodes />
+        ) : activeTab === 'giftcards' ? (
+          <AdminGiftCards />
+        ) : activeTab === 'commissions' ? (
+          <AdminCommissions />
+        ) : activeTab === 'reviews' ? (
+          <AdminReviews />
         ) : (
           <div>
             <h1 className="text-3xl font-bold text-gray-900 mb-8">Order Management</h1>
@@ -1064,10 +1349,20 @@ export function Admin() {
                   <p className="text-3xl font-bold text-rose-600">{orderStats.totalOrders}</p>
                 </div>
                 <div className="bg-white rounded-lg shadow p-6">
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">Total Revenue</h3>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">Net Revenue</h3>
                   <p className="text-3xl font-bold text-green-600">
-                    £{orderStats.totalRevenue.toFixed(2)}
+                    {formatMoney(orderStats.totalRevenue, baseCurrency)}
                   </p>
+                  {orderStats.totalRefunded > 0 && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      after {formatMoney(orderStats.totalRefunded, baseCurrency)} refunded
+                    </p>
+                  )}
+                  {orderStats.totalTax > 0 && (
+                    <p className="text-sm text-gray-500 mt-1">
+                      includes {formatMoney(orderStats.totalTax, baseCurrency)} tax collected
+                    </p>
+                  )}
                 </div>
                 <div className="bg-white rounded-lg shadow p-6">
                   <h3 className="text-lg font-medium text-gray-900 mb-2">Payment Methods</h3>
@@ -1092,6 +1387,66 @@ export function Admin() {
               </div>
             )}
 
+            {/* Order View */}
+            <div className="flex gap-2 mb-4">
+              {([['all', 'All Orders'], ['dispatch', 'Dispatch Queue']] as const).map(([view, label]) => (
+                <button
+                  key={view}
+                  onClick={() => {
+                    setOrderView(view);
+                    fetchAllOrders(orderSearch || undefined, view);
+                  }}
+                  className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                    orderView === view
+                      ? 'bg-rose-600 text-white'
+                      : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {/* Order Search */}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                fetchAllOrders(orderSearch, orderView);
+              }}
+              className="flex items-center gap-2 mb-4 max-w-md"
+            >
+              <div className="relative flex-1">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Search className="h-4 w-4 text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  placeholder="Order number, email or name"
+                  value={orderSearch}
+                  onChange={(e) => setOrderSearch(e.target.value)}
+                  className="w-full pl-9 pr-9 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:border-rose-600"
+                />
+                {orderSearch && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setOrderSearch('');
+                      fetchAllOrders(undefined, orderView);
+                    }}
+                    className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  >
+                    <X className="h-4 w-4 text-gray-400 hover:text-gray-600" />
+                  </button>
+                )}
+              </div>
+              <button
+                type="submit"
+                className="bg-rose-600 hover:bg-rose-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+              >
+                Search
+              </button>
+            </form>
+
             {/* Orders Table */}
             {loading ? (
               <div className="flex justify-center items-center h-64">
@@ -1104,7 +1459,7 @@ export function Admin() {
                   <thead className="bg-gray-50">
                     <tr>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                        Order ID
+                        Order
                       </th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Customer
@@ -1121,26 +1476,37 @@ export function Admin() {
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Date
                       </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Dispatch By
+                      </th>
                       <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                         Actions
                       </th>
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
+                    {orders.length === 0 && (
+                      <tr>
+                        <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-500">
+                          No orders found
+                        </td>
+                      </tr>
+                    )}
                     {orders.map((order) => (
-                      <tr key={order.id}>
+                      <Fragment key={order.id}>
+                      <tr className={isDispatchOverdue(order) ? 'bg-red-50' : undefined}>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          #{order.id.slice(-8).toUpperCase()}
+                          {order.order_number}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm font-medium text-gray-900">{order.full_name}</div>
                           <div className="text-sm text-gray-500">{order.email}</div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                          £{order.total.toFixed(2)}
+                          {formatMoney(order.total, order.currency)}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
-                          {order.payment_method === 'paypal' ? 'PayPal' : 'Card'}
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                          {formatOrderPaymentMethod(order)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <select
@@ -1148,26 +1514,60 @@ export function Admin() {
                             onChange={(e) => handleUpdateOrderStatus(order.id, e.target.value as Order['status'])}
                             className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${getOrderStatusColor(order.status)}`}
                           >
-                            <option value="pending">Pending</option>
-                            <option value="paid">Paid</option>
-                            <option value="shipped">Shipped</option>
-                            <option value="delivered">Delivered</option>
-                            <option value="cancelled">Cancelled</option>
+                            {[order.status, ...getNextOrderStatuses(order.status)].map((status) => (
+                              <option key={status} value={status}>{formatOrderStatus(status)}</option>
+                            ))}
                           </select>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                           {order.created_at ? new Date(order.created_at).toLocaleDateString() : 'N/A'}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {order.dispatch_by ? (
+                            isDispatchOverdue(order) ? (
+                              <span className="font-medium text-red-700">
+                                {formatEstimateDate(order.dispatch_by)}
+                                <span className="ml-2 bg-red-100 text-red-700 px-2 py-0.5 rounded text-xs">Overdue</span>
+                              </span>
+                            ) : (
+                              formatEstimateDate(order.dispatch_by)
+                            )
+                          ) : '-'}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                          <button className="text-rose-600 hover:text-rose-900 text-sm">
-                            View Details
+                          <button
+                            onClick={() => setExpandedOrderId(expandedOrderId === order.id ? null : order.id)}
+                            className="text-rose-600 hover:text-rose-900 text-sm"
+                          >
+                            {expandedOrderId === order.id ? 'Hide Details' : 'View Details'}
                           </button>
                         </td>
                       </tr>
+                      {expandedOrderId === order.id && (
+                        <tr>
+                          <td colSpan={8} className="px-6 py-4 bg-gray-50">
+                            <AdminOrderDetails
+                              order={order}
+                              onUpdateStatus={handleUpdateOrderStatus}
+                              onRefund={handleRefundOrder}
+                              onLinkPayment={handleLinkPayment}
+                            />
+                          </td>
+                        </tr>
+                      )}
+                      </Fragment>
                     ))}
                   </tbody>
                 </table>
                 </div>
+                {shippingOrder && (
+                  <ShipOrderDialog
+                    order={shippingOrder.order}
+                    initialNote={shippingOrder.note}
+                    onConfirm={(shipments, note) => handleMarkShipped(shippingOrder.order.id, shipments, note)}
+                    onClose={() => setShippingOrder(null)}
+                  />
+                )}
               </div>
             )}
           </div>
@@ -1,8 +1,12 @@
 import { useState, Fragment } from 'react';
-import { Trash2, Plus, Minus, ArrowLeft, Edit2, X } from 'lucide-react';
+import { Trash2, Plus, Minus, ArrowLeft, Edit2, X, Truck, CalendarClock } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { CustomPropertiesInput } from '../components/CustomPropertiesInput';
-import { getEffectivePrice, getEffectiveImage } from '../lib/orderService';
+import { DiscountCodeField } from '../components/DiscountCodeField';
+import { getEffectivePrice, getEffectiveImage, calculateLineTotal } from '../lib/orderService';
+import { formatMoney } from '../lib/money';
+import { formatEstimateDate } from '../lib/leadTime';
 import type { CustomPropertiesConfig, CustomPropertySelection } from '../types/database';
 
 interface CartProps {
@@ -10,7 +14,8 @@ interface CartProps {
 }
 
 export function Cart({ onNavigate }: CartProps) {
-  const { items, removeItem, updateQuantity, updateCustomSelections, subtotal, deliveryTotal, total } = useCart();
+  const { items, removeItem, updateQuantity, updateCustomSelections, subtotal, deliveryTotal, discountTotal, discount, taxTotal, taxLabel, pricesIncludeTax, total, freeDeliveryRemaining, deliveryEstimate } = useCart();
+  const { currency, exchangeRate, formatPrice } = useCurrency();
   const [editingItemId, setEditingItemId] = useState<string | null>(null);
   const [editingSelections, setEditingSelections] = useState<CustomPropertySelection[]>([]);
 
@@ -121,11 +126,11 @@ export function Cart({ onNavigate }: CartProps) {
                         )}
                         
                         <p className="text-2xl font-bold text-gray-900">
-                          £{getEffectivePrice(item).toFixed(2)}
+                          {formatPrice(getEffectivePrice(item))}
                         </p>
-                        {item.product.delivery_charge != null && item.product.delivery_charge > 0 && (
+                        {!item.product.shipping_profile_id && item.product.delivery_charge != null && item.product.delivery_charge > 0 && (
                           <p className="text-sm text-gray-600">
-                            + £{item.product.delivery_charge.toFixed(2)} delivery
+                            + {formatPrice(item.product.delivery_charge)} delivery
                           </p>
                         )}
                       </div>
@@ -209,28 +214,62 @@ export function Cart({ onNavigate }: CartProps) {
                   <div key={item.id} className="flex justify-between text-sm">
                     <span className="text-gray-600">{item.product.name} x {item.quantity}</span>
                     <span className="font-medium text-gray-900">
-                      £{(getEffectivePrice(item) * item.quantity).toFixed(2)}
+                      {formatMoney(calculateLineTotal(item, exchangeRate), currency)}
                     </span>
                   </div>
                 ))}
               </div>
 
+              <div className="mb-6">
+                <DiscountCodeField />
+              </div>
+
               <div className="space-y-3 mb-6">
                 <div className="flex justify-between">
                   <span className="text-gray-600">Subtotal</span>
-                  <span className="font-medium text-gray-900">£{subtotal.toFixed(2)}</span>
+                  <span className="font-medium text-gray-900">{formatMoney(subtotal, currency)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Delivery</span>
-                  <span className="font-medium text-gray-900">£{deliveryTotal.toFixed(2)}</span>
+                  <span className="font-medium text-gray-900">{formatMoney(deliveryTotal, currency)}</span>
                 </div>
+                {discountTotal > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Discount{discount ? ` (${discount.code})` : ''}</span>
+                    <span className="font-medium text-green-700">-{formatMoney(discountTotal, currency)}</span>
+                  </div>
+                )}
+                {!pricesIncludeTax && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">{taxLabel}</span>
+                    <span className="font-medium text-gray-900">{formatMoney(taxTotal, currency)}</span>
+                  </div>
+                )}
+                {freeDeliveryRemaining !== null && (
+                  <div className="flex items-center gap-2 bg-rose-50 text-rose-700 text-sm rounded-lg px-3 py-2">
+                    <Truck className="w-4 h-4 flex-shrink-0" />
+                    <span>Spend {formatMoney(freeDeliveryRemaining, currency)} more for free delivery</span>
+                  </div>
+                )}
+                {deliveryEstimate && (
+                  <div className="flex items-start gap-2 text-sm text-gray-600">
+                    <CalendarClock className="w-4 h-4 flex-shrink-0 mt-0.5 text-rose-600" />
+                    <span>
+                      Dispatched by {formatEstimateDate(deliveryEstimate.dispatchBy)}
+                      {deliveryEstimate.deliveryBy && `, arriving around ${formatEstimateDate(deliveryEstimate.deliveryBy)}`}
+                    </span>
+                  </div>
+                )}
               </div>
 
               <div className="border-t border-gray-200 pt-4 mb-6">
                 <div className="flex justify-between">
                   <span className="text-lg font-semibold text-gray-900">Total</span>
-                  <span className="text-2xl font-bold text-rose-600">£{total.toFixed(2)}</span>
+                  <span className="text-2xl font-bold text-rose-600">{formatMoney(total, currency)}</span>
                 </div>
+                {pricesIncludeTax && taxTotal > 0 && (
+                  <p className="text-right text-sm text-gray-500 mt-1">Includes {formatMoney(taxTotal, currency)} {taxLabel}</p>
+                )}
               </div>
 
               <button
@@ -1,15 +1,20 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft } from 'lucide-react';
+import { ArrowLeft, Gift, BookUser, CalendarClock } from 'lucide-react';
 import { useCart } from '../contexts/CartContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import PaymentMethodSelector, { PaymentMethod } from '../components/PaymentMethodSelector';
 import PayPalButton, { PayPalPaymentData } from '../components/PayPalButton';
+import { DiscountCodeField } from '../components/DiscountCodeField';
 // StripeCardPayment not needed since card payment is hidden
 // import StripeCardPayment from '../components/StripeCardPayment';
-import { createOrder, validateOrderData, getEffectivePrice } from '../lib/orderService';
-import type { OrderAddress, CreateOrderData } from '../types/database';
-// StripeDetails not needed since card payment is hidden
-// import type { StripeDetails } from '../types/database';
+import { createOrder, validateOrderData, calculateLineTotal, calculateDeliveryTotal, calculateTotal, getOrderTax, getOrderDiscount, getGiftWrap, calculateGiftWrapTotal, getDeliveryRestriction, getShippingRegion, getGiftCard, applyGiftCard, getAmountDue, formatOrderPaymentMethod, InsufficientStockError, PaymentRefundedError } from '../lib/orderService';
+import { COUNTRIES, DEFAULT_COUNTRY, getCountry, normalizePostcode, validateAddress, isSameAddress, formatAddressLines } from '../lib/addressConfig';
+import { getCustomerAddresses, createCustomerAddress } from '../lib/apiService';
+import { validateCartProducts } from '../lib/cartDebug';
+import { formatMoney } from '../lib/money';
+import { estimateCartDelivery, formatEstimateDate } from '../lib/leadTime';
+import type { OrderAddress, CreateOrderData, StockShortage, PayPalDetails, StripeDetails, CurrencyCode, DiscountCode, GiftCard, AppliedGiftCard, CustomerAddress, QuotedTotals, PaymentMethod as OrderPaymentMethod } from '../types/database';
 
 interface CheckoutProps {
   onNavigate: (page: 'shop' | 'cart' | 'checkout') => void;
@@ -18,11 +23,30 @@ interface CheckoutProps {
 interface OrderDetails {
   email: string;
   fullName: string;
-  address: string;
+  line1: string;
+  line2: string;
   city: string;
+  region: string;
   postcode: string;
+  country: string;
+  // Gift options; the address above is the recipient's
+  isGift: boolean;
+  recipientName: string;
+  giftWrap: boolean;
+  giftMessage: string;
+  hidePrices: boolean;
 }
 
+const NO_GIFT_OPTIONS = {
+  isGift: false,
+  recipientName: '',
+  giftWrap: false,
+  giftMessage: '',
+  hidePrices: false
+};
+
+const GIFT_MESSAGE_MAX_LENGTH = 500;
+
 // StripePaymentData interface - Not used since card payment is hidden
 // TODO: Re-enable when Stripe is ready to be used
 /*
@@ -41,17 +65,114 @@ interface PaymentState {
   error: string | null;
 }
 
+// How an order is being paid for: a provider payment, a gift card or both
+interface OrderPayment {
+  paymentMethod: OrderPaymentMethod;
+  paymentId?: string;
+  paypalDetails?: PayPalDetails;
+  stripeDetails?: StripeDetails;
+  orderDetails: OrderDetails;
+  idempotencyKey: string;
+  currency?: CurrencyCode; // Currency the payment was taken in
+  discount?: DiscountCode | null; // Discount code the payment was priced with
+  giftCard?: AppliedGiftCard | null; // Gift card paying the rest of the order
+  quotedTotals?: QuotedTotals; // Server totals the payment was taken for
+}
+
+// A payment the provider has taken but that is not yet attached to an order.
+// Kept in session storage so the order can be finished after an error or a
+// reload without paying again; the idempotency key makes retries safe.
+interface CapturedPayment extends OrderPayment {
+  paymentMethod: 'card' | 'paypal';
+  paymentId: string;
+}
+
+const CAPTURED_PAYMENT_STORAGE_KEY = 'woolwitch-captured-payment';
+
+const loadCapturedPayment = (): CapturedPayment | null => {
+  try {
+    const saved = sessionStorage.getItem(CAPTURED_PAYMENT_STORAGE_KEY);
+    if (!saved) return null;
+
+    // Payments saved before addresses had separate lines and a country
+    const payment = JSON.parse(saved) as CapturedPayment;
+    const details: Partial<OrderDetails> & { address?: string } = payment.orderDetails;
+    if (details.line1 === undefined) {
+      payment.orderDetails = {
+        email: details.email ?? '',
+        fullName: details.fullName ?? '',
+        line1: details.address ?? '',
+        line2: '',
+        city: details.city ?? '',
+        region: '',
+        postcode: details.postcode ?? '',
+        country: DEFAULT_COUNTRY,
+        ...NO_GIFT_OPTIONS
+      };
+    }
+    // Payments saved before gift options
+    payment.orderDetails = { ...NO_GIFT_OPTIONS, ...payment.orderDetails };
+    return payment;
+  } catch {
+    return null;
+  }
+};
+
+const saveCapturedPayment = (payment: CapturedPayment | null) => {
+  try {
+    if (payment) {
+      sessionStorage.setItem(CAPTURED_PAYMENT_STORAGE_KEY, JSON.stringify(payment));
+    } else {
+      sessionStorage.removeItem(CAPTURED_PAYMENT_STORAGE_KEY);
+    }
+  } catch {
+    // Session storage unavailable - retries still work until the page is left
+  }
+};
+
+// Structured address from the form, with the postcode in its country's format
+const getOrderAddress = (details: OrderDetails): OrderAddress => ({
+  line1: details.line1.trim(),
+  line2: details.line2.trim() || undefined,
+  city: details.city.trim(),
+  region: details.region.trim() || undefined,
+  postcode: normalizePostcode(details.postcode, details.country),
+  country: details.country
+});
+
+// Form fields filled in from an address book entry
+const fromCustomerAddress = (details: OrderDetails, saved: CustomerAddress): OrderDetails => ({
+  ...details,
+  fullName: details.fullName || saved.full_name,
+  line1: saved.address.line1,
+  line2: saved.address.line2 ?? '',
+  city: saved.address.city,
+  region: saved.address.region ?? '',
+  postcode: saved.address.postcode,
+  country: saved.address.country
+});
+
 export function Checkout({ onNavigate }: CheckoutProps) {
-  const { items, subtotal, deliveryTotal, total, clearCart, cleanupCart } = useCart();
+  const { items, subtotal, shippingConfig, taxConfig, giftOptions, discount, discountProblem, clearCart, cleanupCart } = useCart();
   const { user } = useAuth();
+  const { currency, currencyConfig, exchangeRate } = useCurrency();
   const [isCompleted, setIsCompleted] = useState(false);
-  const [completedOrderData, setCompletedOrderData] = useState<{ total: number; email: string; paymentMethod: PaymentMethod } | null>(null);
-  const [formData, setFormData] = useState<OrderDetails>({
+  const [completedOrderData, setCompletedOrderData] = useState<{ total: number; currency: string; email: string; paymentMethod: string; orderNumber: string } | null>(null);
+  const [capturedPayment, setCapturedPayment] = useState<CapturedPayment | null>(loadCapturedPayment);
+  const [giftCard, setGiftCard] = useState<GiftCard | null>(() => loadCapturedPayment()?.giftCard ?? null);
+  // Orders the gift card pays in full skip the provider, so they get their
+  // own idempotency key for retries
+  const [giftCardOrderKey] = useState(() => crypto.randomUUID());
+  const [formData, setFormData] = useState<OrderDetails>(() => loadCapturedPayment()?.orderDetails ?? {
     email: '',
     fullName: '',
-    address: '',
+    line1: '',
+    line2: '',
     city: '',
+    region: '',
     postcode: '',
+    country: DEFAULT_COUNTRY,
+    ...NO_GIFT_OPTIONS
   });
   const [paymentState, setPaymentState] = useState<PaymentState>({
     method: 'paypal', // Default to PayPal since card payment is hidden
@@ -59,6 +180,80 @@ export function Checkout({ onNavigate }: CheckoutProps) {
     error: null
   });
 
+  const [stockShortages, setStockShortages] = useState<StockShortage[]>([]);
+  const [savedAddresses, setSavedAddresses] = useState<CustomerAddress[]>([]);
+  // Address from the completed order that is not in the address book yet
+  const [addressToSave, setAddressToSave] = useState<Pick<CustomerAddress, 'full_name' | 'address'> | null>(null);
+  const [addressSaveState, setAddressSaveState] = useState<'idle' | 'saving' | 'saved' | 'failed'>('idle');
+
+  // Delivery and tax depend on the country and shipping region, so price
+  // them for the address being entered rather than the cart's defaults
+  const orderAddress = getOrderAddress(formData);
+  const country = getCountry(formData.country);
+  const addressErrors = validateAddress(orderAddress);
+  const deliveryRestriction = getDeliveryRestriction(items, shippingConfig, orderAddress);
+  const deliveryTotal = calculateDeliveryTotal(items, shippingConfig, orderAddress, exchangeRate);
+  const deliveryEstimate = estimateCartDelivery(
+    items,
+    shippingConfig && !deliveryRestriction ? getShippingRegion(shippingConfig.regions, orderAddress) : undefined
+  );
+  const appliedDiscount = discountProblem ? null : discount;
+  const giftWrap = formData.isGift ? getGiftWrap(giftOptions, formData.giftWrap) : null;
+  const giftWrapTotal = calculateGiftWrapTotal(giftWrap, exchangeRate);
+  const { discountTotal } = getOrderDiscount(items, shippingConfig, orderAddress, appliedDiscount, exchangeRate);
+  const tax = getOrderTax(items, shippingConfig, orderAddress, taxConfig, exchangeRate, appliedDiscount, giftWrap);
+  const total = calculateTotal(items, shippingConfig, orderAddress, taxConfig, exchangeRate, appliedDiscount, giftWrap);
+  const appliedGiftCard = giftCard ? applyGiftCard(giftCard, total, currency) : null;
+  const amountDue = getAmountDue(total, appliedGiftCard);
+  const coveredByGiftCard = appliedGiftCard !== null && amountDue === 0;
+  const canPay = Boolean(formData.email && formData.fullName) && addressErrors.length === 0 && !deliveryRestriction;
+
+  // Check stock up front - PayPal captures the payment before the order is created
+  useEffect(() => {
+    let cancelled = false;
+    if (items.length === 0) {
+      setStockShortages([]);
+      return;
+    }
+
+    validateCartProducts(items)
+      .then(result => {
+        if (!cancelled) setStockShortages(result.stockShortages);
+      })
+      .catch(() => {
+        // Stock is checked again when the order is created
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [items]);
+
+  // Load the signed-in customer's address book and fill in their default
+  // address, unless an address has already been entered
+  useEffect(() => {
+    let cancelled = false;
+    if (!user) {
+      setSavedAddresses([]);
+      return;
+    }
+
+    getCustomerAddresses()
+      .then(addresses => {
+        if (cancelled) return;
+        setSavedAddresses(addresses);
+        const defaultAddress = addresses.find(address => address.is_default);
+        if (defaultAddress) {
+          setFormData(prev => prev.line1 ? prev : fromCustomerAddress(prev, defaultAddress));
+        }
+      })
+      .catch(error => console.error('Error loading saved addresses:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
   // Auto-populate email when user is logged in
   useEffect(() => {
     if (user?.email && !formData.email) {
@@ -69,38 +264,112 @@ export function Checkout({ onNavigate }: CheckoutProps) {
     }
   }, [user?.email, formData.email]);
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
+    const isCheckbox = e.target instanceof HTMLInputElement && e.target.type === 'checkbox';
     setFormData((prev) => ({
       ...prev,
-      [name]: value,
+      [name]: isCheckbox ? (e.target as HTMLInputElement).checked : value,
     }));
   };
 
-  // Helper to create address object
-  const getOrderAddress = (): OrderAddress => ({
-    address: formData.address,
-    city: formData.city,
-    postcode: formData.postcode
-  });
-
   // Common payment success handler
   const handlePaymentSuccess = async (
     paymentMethod: 'card' | 'paypal',
     paymentId: string,
-    paymentDetails?: any
+    paymentDetails?: any,
+    quotedTotals?: QuotedTotals
   ) => {
+    const payment: CapturedPayment = {
+      paymentMethod,
+      paymentId,
+      ...(paymentMethod === 'paypal' ? { paypalDetails: paymentDetails } : { stripeDetails: paymentDetails }),
+      orderDetails: formData,
+      idempotencyKey: crypto.randomUUID(),
+      currency,
+      discount: appliedDiscount,
+      giftCard: appliedGiftCard,
+      quotedTotals
+    };
+    setCapturedPayment(payment);
+    saveCapturedPayment(payment);
+
+    await placeOrder(payment);
+  };
+
+  // Places an order the gift card pays for in full
+  const handleGiftCardOrder = async () => {
+    await placeOrder({
+      paymentMethod: 'gift_card',
+      orderDetails: formData,
+      idempotencyKey: giftCardOrderKey,
+      currency,
+      discount: appliedDiscount,
+      giftCard: appliedGiftCard
+    });
+  };
+
+  const handleSavedAddressChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const saved = savedAddresses.find(address => address.id === e.target.value);
+    if (saved) {
+      setFormData(prev => fromCustomerAddress(prev, saved));
+    }
+  };
+
+  const handleSaveAddress = async () => {
+    if (!addressToSave) return;
+
+    setAddressSaveState('saving');
+    try {
+      await createCustomerAddress({
+        label: null,
+        full_name: addressToSave.full_name,
+        address: addressToSave.address,
+        is_default: savedAddresses.length === 0
+      });
+      setAddressSaveState('saved');
+    } catch {
+      setAddressSaveState('failed');
+    }
+  };
+
+  const handleApplyGiftCard = async (code: string) => {
+    setGiftCard(await getGiftCard(code));
+    setPaymentState(prev => ({ ...prev, error: null }));
+  };
+
+  // Creates the order for a captured payment. Safe to call again for the
+  // same payment - the server returns the order from the first attempt.
+  const placeOrder = async (payment: OrderPayment) => {
+    const { paymentMethod, paymentId, paypalDetails, stripeDetails, orderDetails, idempotencyKey } = payment;
+
     try {
       setPaymentState(prev => ({ ...prev, isProcessing: true, error: null }));
       
       const orderData: CreateOrderData = {
-        email: formData.email,
-        fullName: formData.fullName,
-        address: getOrderAddress(),
-        cartItems: items.map(item => ({ product: item.product, quantity: item.quantity })),
+        email: orderDetails.email,
+        fullName: orderDetails.fullName,
+        address: getOrderAddress(orderDetails),
+        cartItems: items.map(item => ({ product: item.product, quantity: item.quantity, customSelections: item.customSelections, commissionToken: item.commissionToken })),
         paymentMethod,
         paymentId,
-        ...(paymentMethod === 'paypal' ? { paypalDetails: paymentDetails } : { stripeDetails: paymentDetails })
+        idempotencyKey,
+        paypalDetails,
+        stripeDetails,
+        shippingConfig,
+        taxConfig,
+        currency: payment.currency ?? currency,
+        currencyConfig,
+        discount: 'discount' in payment ? payment.discount : appliedDiscount,
+        giftCard: 'giftCard' in payment ? payment.giftCard : appliedGiftCard,
+        ...(orderDetails.isGift && {
+          recipientName: orderDetails.recipientName,
+          giftWrap: orderDetails.giftWrap,
+          giftMessage: orderDetails.giftMessage,
+          hidePrices: orderDetails.hidePrices
+        }),
+        giftOptions,
+        quotedTotals: payment.quotedTotals
       };
 
       // Validate order data
@@ -110,18 +379,41 @@ export function Checkout({ onNavigate }: CheckoutProps) {
       }
 
       // Create order in database
-      await createOrder(orderData);
+      const order = await createOrder(orderData);
+
+      // Offer to keep a new address in the address book
+      if (user && !savedAddresses.some(saved => isSameAddress(saved.address, orderData.address))) {
+        setAddressToSave({
+          full_name: (orderDetails.isGift && orderDetails.recipientName.trim()) || orderDetails.fullName.trim(),
+          address: orderData.address
+        });
+        setAddressSaveState('idle');
+      }
       
       // Clear cart and show success
       clearCart();
+      setCapturedPayment(null);
+      saveCapturedPayment(null);
+      setGiftCard(null);
       setCompletedOrderData({ 
-        total, 
-        email: formData.email, 
-        paymentMethod 
+        total: order.total, 
+        currency: order.currency,
+        email: orderDetails.email, 
+        paymentMethod: formatOrderPaymentMethod(order),
+        orderNumber: order.order_number
       });
       setIsCompleted(true);
       
     } catch (error) {
+      const reason = error instanceof PaymentRefundedError ? error.reason : error;
+      if (reason instanceof InsufficientStockError) {
+        setStockShortages(reason.shortages);
+      }
+      // Nothing left to retry - the customer pays again
+      if (error instanceof PaymentRefundedError) {
+        setCapturedPayment(null);
+        saveCapturedPayment(null);
+      }
       const errorMessage = error instanceof Error ? error.message : 'Payment processing failed';
       setPaymentState(prev => ({ ...prev, error: errorMessage }));
     } finally {
@@ -147,7 +439,7 @@ export function Checkout({ onNavigate }: CheckoutProps) {
 
   // PayPal payment success handler
   const handlePayPalSuccess = async (paymentData: PayPalPaymentData) => {
-    await handlePaymentSuccess('paypal', paymentData.paymentID, paymentData.details);
+    await handlePaymentSuccess('paypal', paymentData.paymentID, paymentData.details, paymentData.quotedTotals);
   };
 
   // Common payment error handler
@@ -203,17 +495,55 @@ export function Checkout({ onNavigate }: CheckoutProps) {
               Thank you for your purchase. We'll send you a confirmation email shortly.
             </p>
             <div className="bg-white rounded-xl shadow-md p-8 mb-8">
+              {completedOrderData?.orderNumber && (
+                <div className="mb-6">
+                  <p className="text-gray-600 mb-1">Order Number</p>
+                  <p className="text-2xl font-mono font-semibold text-gray-900">{completedOrderData.orderNumber}</p>
+                  {!user && (
+                    <p className="text-sm text-gray-500 mt-2">
+                      Keep this order number - use it with your email under Track Order to check on your order.
+                    </p>
+                  )}
+                </div>
+              )}
               <p className="text-gray-600 mb-4">Order Total</p>
-              <p className="text-4xl font-bold text-rose-600 mb-6">£{(completedOrderData?.total || total).toFixed(2)}</p>
+              <p className="text-4xl font-bold text-rose-600 mb-6">{formatMoney(completedOrderData?.total || total, completedOrderData?.currency ?? currency)}</p>
               <div className="flex items-center justify-center space-x-2 mb-4">
                 <span className="text-sm text-gray-600">Paid with</span>
                 <span className="bg-green-100 text-green-800 px-2 py-1 rounded text-sm font-medium">
-                  {completedOrderData?.paymentMethod === 'paypal' ? 'PayPal' : 'Card'}
+                  {completedOrderData?.paymentMethod}
                 </span>
               </div>
               <p className="text-sm text-gray-600 mb-4">Confirmation email sent to</p>
               <p className="font-medium text-gray-900">{completedOrderData?.email || formData.email}</p>
             </div>
+            {addressToSave && (
+              <div className="bg-white rounded-xl shadow-md p-6 mb-8 text-left">
+                <p className="flex items-center font-medium text-gray-900 mb-2">
+                  <BookUser className="w-5 h-5 mr-2 text-rose-500" />
+                  Save this address for next time?
+                </p>
+                <p className="text-sm text-gray-600">
+                  {[addressToSave.full_name, ...formatAddressLines(addressToSave.address)].join(', ')}
+                </p>
+                {addressSaveState === 'saved' ? (
+                  <p className="text-sm text-green-700 mt-3">Saved to your address book.</p>
+                ) : (
+                  <>
+                    <button
+                      onClick={handleSaveAddress}
+                      disabled={addressSaveState === 'saving'}
+                      className="mt-3 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-900 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+                    >
+                      {addressSaveState === 'saving' ? 'Saving...' : 'Save Address'}
+                    </button>
+                    {addressSaveState === 'failed' && (
+                      <p className="text-sm text-red-600 mt-2">We couldn't save this address. You can add it from My Account.</p>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
             <button
               onClick={() => {
                 onNavigate('shop');
@@ -249,6 +579,24 @@ export function Checkout({ onNavigate }: CheckoutProps) {
                 <h2 className="text-2xl font-semibold text-gray-900 mb-6">Shipping Information</h2>
 
                 <div className="space-y-4">
+                  {savedAddresses.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900 mb-2">Saved Addresses</label>
+                      <select
+                        value={savedAddresses.find(saved => isSameAddress(saved.address, orderAddress))?.id ?? ''}
+                        onChange={handleSavedAddressChange}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600 bg-white"
+                      >
+                        <option value="">Enter a new address</option>
+                        {savedAddresses.map((saved) => (
+                          <option key={saved.id} value={saved.id}>
+                            {[saved.label ?? saved.full_name, saved.address.line1, saved.address.postcode].filter(Boolean).join(' - ')}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-900 mb-2">Email</label>
                     <input
@@ -275,17 +623,42 @@ export function Checkout({ onNavigate }: CheckoutProps) {
                     />
                   </div>
 
+                  <div>
+                    <label className="block text-sm font-medium text-gray-900 mb-2">Country</label>
+                    <select
+                      name="country"
+                      value={formData.country}
+                      onChange={handleInputChange}
+                      required
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600 bg-white"
+                    >
+                      {COUNTRIES.map((option) => (
+                        <option key={option.code} value={option.code}>{option.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
                   <div>
                     <label className="block text-sm font-medium text-gray-900 mb-2">Address</label>
                     <input
                       type="text"
-                      name="address"
-                      value={formData.address}
+                      name="line1"
+                      value={formData.line1}
                       onChange={handleInputChange}
                       required
+                      autoComplete="address-line1"
                       className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
                       placeholder="123 Main Street"
                     />
+                    <input
+                      type="text"
+                      name="line2"
+                      value={formData.line2}
+                      onChange={handleInputChange}
+                      autoComplete="address-line2"
+                      className="w-full mt-2 px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
+                      placeholder="Flat, building, etc. (optional)"
+                    />
                   </div>
 
                   <div className="grid grid-cols-2 gap-4">
@@ -297,34 +670,177 @@ export function Checkout({ onNavigate }: CheckoutProps) {
                         value={formData.city}
                         onChange={handleInputChange}
                         required
+                        autoComplete="address-level2"
                         className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
                         placeholder="London"
                       />
                     </div>
                     <div>
-                      <label className="block text-sm font-medium text-gray-900 mb-2">Postcode</label>
+                      <label className="block text-sm font-medium text-gray-900 mb-2">
+                        {country?.regionLabel ?? 'Region'}{!country?.regionRequired && ' (optional)'}
+                      </label>
+                      <input
+                        type="text"
+                        name="region"
+                        value={formData.region}
+                        onChange={handleInputChange}
+                        required={country?.regionRequired}
+                        autoComplete="address-level1"
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-900 mb-2">
+                        {country?.postcodeLabel ?? 'Postcode'}{country && !country.postcodeRequired && ' (optional)'}
+                      </label>
                       <input
                         type="text"
                         name="postcode"
                         value={formData.postcode}
                         onChange={handleInputChange}
-                        required
+                        required={country?.postcodeRequired ?? true}
+                        autoComplete="postal-code"
                         className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
-                        placeholder="SW1A 1AA"
+                        placeholder={country?.postcodePlaceholder}
                       />
                     </div>
                   </div>
                 </div>
               </div>
 
+              <div className="bg-white rounded-xl shadow-md p-6">
+                <h2 className="text-2xl font-semibold text-gray-900 mb-6">Gift Options</h2>
+
+                {/* Gift wrapping changes the total, so it is fixed once paid */}
+                <fieldset disabled={!!capturedPayment} className="space-y-4">
+                  <label className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      name="isGift"
+                      checked={formData.isGift}
+                      onChange={handleInputChange}
+                      className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+                    />
+                    <span className="flex items-center text-gray-900">
+                      <Gift className="w-4 h-4 mr-2 text-rose-500" />
+                      This order is a gift
+                    </span>
+                  </label>
+
+                  {formData.isGift && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-2">Recipient Name</label>
+                        <input
+                          type="text"
+                          name="recipientName"
+                          value={formData.recipientName}
+                          onChange={handleInputChange}
+                          maxLength={200}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
+                          placeholder="Who the parcel is for"
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          We'll send it to the address above. Your name and email stay on the order for the receipt.
+                        </p>
+                      </div>
+
+                      {giftOptions?.gift_wrap_enabled && (
+                        <label className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            name="giftWrap"
+                            checked={formData.giftWrap}
+                            onChange={handleInputChange}
+                            className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+                          />
+                          <span className="text-gray-900">
+                            Gift wrap this order
+                            {giftOptions.gift_wrap_charge > 0 && (
+                              <span className="text-gray-500"> (+{formatMoney(calculateGiftWrapTotal(giftOptions, exchangeRate), currency)})</span>
+                            )}
+                          </span>
+                        </label>
+                      )}
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-900 mb-2">Gift Message (optional)</label>
+                        <textarea
+                          name="giftMessage"
+                          value={formData.giftMessage}
+                          onChange={handleInputChange}
+                          maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                          rows={3}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
+                          placeholder="We'll include it with the parcel"
+                        />
+                        <p className="text-xs text-gray-500 text-right">
+                          {formData.giftMessage.length}/{GIFT_MESSAGE_MAX_LENGTH}
+                        </p>
+                      </div>
+
+                      <label className="flex items-center space-x-3">
+                        <input
+                          type="checkbox"
+                          name="hidePrices"
+                          checked={formData.hidePrices}
+                          onChange={handleInputChange}
+                          className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+                        />
+                        <span className="text-gray-900">Leave prices out of the parcel</span>
+                      </label>
+                    </>
+                  )}
+                </fieldset>
+              </div>
+
               <div className="bg-white rounded-xl shadow-md p-6">
                 <PaymentMethodSelector
                   selectedMethod={paymentState.method}
                   onMethodChange={(method) => setPaymentState(prev => ({ ...prev, method, error: null }))}
-                  disabled={paymentState.isProcessing}
+                  giftCard={giftCard}
+                  appliedGiftCard={appliedGiftCard}
+                  onApplyGiftCard={handleApplyGiftCard}
+                  onRemoveGiftCard={() => setGiftCard(null)}
+                  coveredByGiftCard={coveredByGiftCard}
+                  disabled={paymentState.isProcessing || !!capturedPayment}
                   className="mb-6"
                 />
 
+                {/* Out of stock lines */}
+                {stockShortages.length > 0 && (
+                  <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                    <span className="text-amber-800 font-medium">Not enough stock for some items</span>
+                    <ul className="mt-2 space-y-1 text-sm text-amber-700">
+                      {stockShortages.map((shortage) => (
+                        <li key={`${shortage.productId}:${shortage.option ?? ''}`}>
+                          {shortage.productName}{shortage.option && ` (${shortage.option})`}: {shortage.requested} in your cart,{' '}
+                          {shortage.available === 0 ? 'now sold out' : `only ${shortage.available} available`}
+                        </li>
+                      ))}
+                    </ul>
+                    <button
+                      onClick={() => onNavigate('cart')}
+                      className="mt-3 px-3 py-2 bg-amber-600 hover:bg-amber-700 text-white text-sm font-medium rounded-md transition-colors"
+                    >
+                      Update Cart
+                    </button>
+                  </div>
+                )}
+
+                {/* Destination not delivered to */}
+                {deliveryRestriction && !capturedPayment && (
+                  <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                    <span className="text-amber-800 font-medium">{deliveryRestriction}</span>
+                    <p className="mt-1 text-sm text-amber-700">
+                      Choose another delivery country or remove these items from your cart.
+                    </p>
+                  </div>
+                )}
+
                 {/* Error message display */}
                 {paymentState.error && (
                   <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -358,16 +874,18 @@ export function Checkout({ onNavigate }: CheckoutProps) {
 
                 {/* Card Payment Form - Hidden for now */}
                 {/* TODO: Re-enable when Stripe is ready to be used
-                {paymentState.method === 'card' && (
+                {paymentState.method === 'card' && !coveredByGiftCard && (
                   <div className="space-y-4">
-                    {formData.email && formData.fullName && formData.address && formData.city && formData.postcode ? (
+                    {canPay ? (
                       <StripeCardPayment
-                        cartItems={items.map(item => ({ product: item.product, quantity: item.quantity }))}
+                        cartItems={items.map(item => ({ product: item.product, quantity: item.quantity, customSelections: item.customSelections, commissionToken: item.commissionToken }))}
                         customerInfo={{
                           email: formData.email,
                           fullName: formData.fullName,
-                          address: getOrderAddress()
+                          address: orderAddress
                         }}
+                        giftCard={appliedGiftCard}
+                        giftWrap={giftWrap !== null}
                         onSuccess={handleStripeSuccess}
                         onError={handleStripeError}
                         disabled={paymentState.isProcessing}
@@ -384,32 +902,74 @@ export function Checkout({ onNavigate }: CheckoutProps) {
                 )}
                 */}
 
-                {/* PayPal Payment */}
-                {paymentState.method === 'paypal' && (
+                {/* Payment already taken - finish the order instead of paying again */}
+                {capturedPayment ? (!paymentState.isProcessing && (
+                  <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                    <p className="text-blue-800 font-medium">Your payment has been received</p>
+                    <p className="text-sm text-blue-700 mt-1">
+                      We couldn't finish placing your order. Please try again - you won't be charged a second time.
+                      If this keeps happening, contact us quoting payment reference {capturedPayment.paymentId}.
+                    </p>
+                    <button
+                      onClick={() => placeOrder(capturedPayment)}
+                      className="mt-3 px-3 py-2 bg-rose-600 hover:bg-rose-700 text-white text-sm font-medium rounded-md transition-colors"
+                    >
+                      Finish Placing Order
+                    </button>
+                  </div>
+                )) : coveredByGiftCard ? (
+                  canPay ? (
+                    <button
+                      onClick={handleGiftCardOrder}
+                      disabled={paymentState.isProcessing || stockShortages.length > 0}
+                      className="w-full bg-rose-600 hover:bg-rose-700 text-white py-3 rounded-lg font-semibold transition-colors disabled:bg-gray-400"
+                    >
+                      {paymentState.isProcessing ? 'Placing Order...' : 'Place Order'}
+                    </button>
+                  ) : !deliveryRestriction && (
+                    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                      <p className="text-yellow-800 text-sm">
+                        Please fill in all shipping information above to place your order.
+                      </p>
+                    </div>
+                  )
+                ) : paymentState.method === 'paypal' && (
                   <div className="space-y-4">
                     <div className="text-sm text-gray-600 mb-4">
                       <p>You will be redirected to PayPal to complete your payment securely.</p>
                     </div>
                     
                     {/* Form validation check for PayPal */}
-                    {formData.email && formData.fullName && formData.address && formData.city && formData.postcode ? (
+                    {canPay ? (
                       <PayPalButton
-                        cartItems={items.map(item => ({ product: item.product, quantity: item.quantity }))}
+                        key={`${currency}-${appliedDiscount?.code ?? ''}-${appliedGiftCard?.code ?? ''}-${appliedGiftCard?.amount ?? ''}-${giftWrap !== null}`}
+                        cartItems={items.map(item => ({ product: item.product, quantity: item.quantity, customSelections: item.customSelections, commissionToken: item.commissionToken }))}
                         customerInfo={{
                           email: formData.email,
                           fullName: formData.fullName,
-                          address: getOrderAddress()
+                          address: orderAddress,
+                          recipientName: formData.isGift ? formData.recipientName.trim() : undefined
                         }}
+                        discount={appliedDiscount}
+                        giftCard={appliedGiftCard}
+                        giftWrap={giftWrap !== null}
                         onSuccess={handlePayPalSuccess}
                         onError={handlePayPalError}
-                        disabled={paymentState.isProcessing}
+                        disabled={paymentState.isProcessing || stockShortages.length > 0}
                         className="mt-4"
                       />
-                    ) : (
+                    ) : !deliveryRestriction && (
                       <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
                         <p className="text-yellow-800 text-sm">
                           Please fill in all shipping information above to enable PayPal payment.
                         </p>
+                        {formData.postcode && addressErrors.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-sm text-yellow-700">
+                            {addressErrors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
                       </div>
                     )}
                   </div>
@@ -417,7 +977,7 @@ export function Checkout({ onNavigate }: CheckoutProps) {
               </div>
 
               {/* PayPal processing indicator */}
-              {paymentState.method === 'paypal' && paymentState.isProcessing && (
+              {paymentState.method === 'paypal' && paymentState.isProcessing && !coveredByGiftCard && (
                 <div className="w-full bg-blue-50 border border-blue-200 text-blue-800 py-4 rounded-lg font-semibold text-lg text-center">
                   <div className="flex items-center justify-center space-x-2">
                     <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
@@ -437,29 +997,78 @@ export function Checkout({ onNavigate }: CheckoutProps) {
                   <div key={`${item.product.id}-${index}`} className="flex justify-between text-sm">
                     <span className="text-gray-600">{item.product.name} x {item.quantity}</span>
                     <span className="font-medium text-gray-900">
-                      £{(getEffectivePrice(item) * item.quantity).toFixed(2)}
+                      {formatMoney(calculateLineTotal(item, exchangeRate), currency)}
                     </span>
                   </div>
                 ))}
               </div>
 
+              <div className="mb-6">
+                <DiscountCodeField />
+              </div>
+
               <div className="space-y-3 mb-6">
                 <div className="flex justify-between">
                   <span className="text-gray-600">Subtotal</span>
-                  <span className="font-medium text-gray-900">£{subtotal.toFixed(2)}</span>
+                  <span className="font-medium text-gray-900">{formatMoney(subtotal, currency)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Delivery</span>
-                  <span className="font-medium text-gray-900">£{deliveryTotal.toFixed(2)}</span>
+                  <span className="font-medium text-gray-900">
+                    {deliveryRestriction ? 'Unavailable' : formatMoney(deliveryTotal, currency)}
+                  </span>
                 </div>
+                {giftWrap && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Gift wrap</span>
+                    <span className="font-medium text-gray-900">{formatMoney(giftWrapTotal, currency)}</span>
+                  </div>
+                )}
+                {discountTotal > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Discount{appliedDiscount ? ` (${appliedDiscount.code})` : ''}</span>
+                    <span className="font-medium text-green-700">-{formatMoney(discountTotal, currency)}</span>
+                  </div>
+                )}
+                {!tax.pricesIncludeTax && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">{tax.label}</span>
+                    <span className="font-medium text-gray-900">{formatMoney(tax.taxTotal, currency)}</span>
+                  </div>
+                )}
               </div>
 
               <div className="border-t border-gray-200 pt-4">
                 <div className="flex justify-between">
                   <span className="text-lg font-semibold text-gray-900">Total</span>
-                  <span className="text-2xl font-bold text-rose-600">£{total.toFixed(2)}</span>
+                  <span className="text-2xl font-bold text-rose-600">{formatMoney(total, currency)}</span>
                 </div>
+                {tax.pricesIncludeTax && tax.taxTotal > 0 && (
+                  <p className="text-right text-sm text-gray-500 mt-1">Includes {formatMoney(tax.taxTotal, currency)} {tax.label}</p>
+                )}
+                {appliedGiftCard && (
+                  <>
+                    <div className="flex justify-between mt-3">
+                      <span className="text-gray-600">Gift card ({appliedGiftCard.code})</span>
+                      <span className="font-medium text-green-700">-{formatMoney(appliedGiftCard.amount, currency)}</span>
+                    </div>
+                    <div className="flex justify-between mt-1">
+                      <span className="font-semibold text-gray-900">To pay</span>
+                      <span className="font-semibold text-gray-900">{formatMoney(amountDue, currency)}</span>
+                    </div>
+                  </>
+                )}
               </div>
+
+              {deliveryEstimate && (
+                <div className="flex items-start gap-2 mt-4 text-sm text-gray-600">
+                  <CalendarClock className="w-4 h-4 flex-shrink-0 mt-0.5 text-rose-600" />
+                  <span>
+                    Dispatched by {formatEstimateDate(deliveryEstimate.dispatchBy)}
+                    {deliveryEstimate.deliveryBy && `, arriving around ${formatEstimateDate(deliveryEstimate.deliveryBy)}`}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
         </div>
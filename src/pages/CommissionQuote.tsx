@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { Palette, ShoppingCart, CheckCircle, XCircle, CalendarClock } from 'lucide-react';
+import { getCommissionQuote, acceptCommissionQuote, declineCommissionQuote, getCommissionProduct } from '../lib/apiService';
+import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { formatLeadTime } from '../lib/leadTime';
+import type { CommissionQuote as CommissionQuoteData } from '../types/database';
+
+interface CommissionQuoteProps {
+  accessToken: string;
+  onNavigate: (page: 'shop' | 'cart' | 'checkout') => void;
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+/**
+ * The page a quote email links to. Accepting puts the quoted piece in the
+ * cart and goes to the usual checkout.
+ */
+export function CommissionQuote({ accessToken, onNavigate }: CommissionQuoteProps) {
+  const [quote, setQuote] = useState<CommissionQuoteData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const { items, addItem } = useCart();
+  const { formatPrice } = useCurrency();
+
+  // Bumped to reload after declining
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadQuote() {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await getCommissionQuote(accessToken);
+        if (!cancelled) setQuote(data);
+      } catch {
+        if (!cancelled) setError('Failed to load your quote');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadQuote();
+    return () => {
+      cancelled = true;
+    };
+  }, [accessToken, reloadKey]);
+
+  const handleAccept = async () => {
+    setWorking(true);
+    setError(null);
+    try {
+      const productId = await acceptCommissionQuote(accessToken);
+      if (!items.some(item => item.product.id === productId)) {
+        const product = await getCommissionProduct(accessToken);
+        if (!product) throw new Error('This piece is no longer available');
+        // The token lets checkout buy the piece
+        addItem(product, 1, undefined, accessToken);
+      }
+      onNavigate('checkout');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept quote');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!confirm('Decline this quote? We will not make the piece.')) return;
+
+    setWorking(true);
+    setError(null);
+    try {
+      await declineCommissionQuote(accessToken);
+      setReloadKey((key) => key + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decline quote');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (loading && !quote) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-600"></div>
+      </div>
+    );
+  }
+
+  if (!quote) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="max-w-md w-full text-center">
+          <h2 className="text-2xl font-serif text-gray-900 mb-4">Quote not found</h2>
+          <p className="text-gray-600 mb-8">
+            {error ?? 'This link does not match a commission request. Please check the link in your email.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const isExpired = quote.status === 'quoted'
+    && quote.quote_expires_at !== null
+    && new Date(quote.quote_expires_at) < new Date();
+  const canAccept = (quote.status === 'quoted' && !isExpired) || quote.status === 'accepted';
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-serif text-gray-900 flex items-center">
+            <Palette className="w-7 h-7 text-rose-500 mr-3" />
+            Your Commission
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Requested by {quote.full_name} on {formatDate(quote.created_at)}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">What you asked for</h2>
+          <p className="text-gray-700 whitespace-pre-line">{quote.description}</p>
+          {quote.colours && (
+            <p className="text-sm text-gray-600 mt-2">Colours: {quote.colours}</p>
+          )}
+        </div>
+
+        {quote.status === 'new' ? (
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-gray-700">
+              We are looking at your request and will email you a quote soon.
+            </p>
+          </div>
+        ) : quote.quote_title && quote.quote_price !== null ? (
+          <div className="bg-white rounded-lg shadow p-6">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">{quote.quote_title}</h2>
+                {quote.quote_lead_time_days !== null && (
+                  <p className="text-sm text-gray-600 flex items-center mt-1">
+                    <CalendarClock className="w-4 h-4 mr-1" />
+                    {formatLeadTime(quote.quote_lead_time_days)}
+                  </p>
+                )}
+              </div>
+              <p className="text-2xl font-bold text-gray-900">{formatPrice(quote.quote_price)}</p>
+            </div>
+
+            {quote.quote_message && (
+              <p className="text-gray-700 whitespace-pre-line mb-4">{quote.quote_message}</p>
+            )}
+
+            {quote.status === 'ordered' ? (
+              <p className="flex items-center text-green-700">
+                <CheckCircle className="w-5 h-5 mr-2" />
+                Ordered{quote.order_number && ` as ${quote.order_number}`}. Thank you!
+              </p>
+            ) : quote.status === 'declined' ? (
+              <p className="flex items-center text-gray-600">
+                <XCircle className="w-5 h-5 mr-2" />
+                You declined this quote. Get in touch if you change your mind.
+              </p>
+            ) : quote.status === 'closed' ? (
+              <p className="text-gray-600">This request has been closed.</p>
+            ) : isExpired ? (
+              <p className="text-gray-600">
+                This quote expired on {formatDate(quote.quote_expires_at!)}. Get in touch and we will send a new one.
+              </p>
+            ) : (
+              <>
+                {quote.quote_expires_at && (
+                  <p className="text-sm text-gray-500 mb-4">
+                    Quote valid until {formatDate(quote.quote_expires_at)}. Postage is added at checkout.
+                  </p>
+                )}
+                {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+                <div className="flex space-x-3">
+                  <button
+                    onClick={handleAccept}
+                    disabled={working || !canAccept}
+                    className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+                  >
+                    <ShoppingCart className="w-4 h-4" />
+                    <span>{quote.status === 'accepted' ? 'Continue to Checkout' : 'Accept and Pay'}</span>
+                  </button>
+                  <button
+                    onClick={handleDecline}
+                    disabled={working}
+                    className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+                  >
+                    Decline
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow p-6">
+            <p className="text-gray-600">This request has been closed.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
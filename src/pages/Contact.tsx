@@ -1,4 +1,5 @@
 import { MessageSquare } from 'lucide-react';
+import { CommissionRequestForm } from '../components/CommissionRequestForm';
 
 export function Contact() {
   return (
@@ -25,6 +26,13 @@ export function Contact() {
           </a>
         </div>
       </section>
+
+      {/* Commission Request */}
+      <section className="pb-20 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-3xl mx-auto">
+          <CommissionRequestForm />
+        </div>
+      </section>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import {
+  requestGuestOrderAccess,
+  getGuestOrder,
+  getGuestOrderItems,
+  formatOrderAddress,
+  formatOrderItemSelections,
+  formatOrderStatus,
+  getOrderStatusColor
+} from '../lib/orderService';
+import { formatMoney } from '../lib/money';
+import { formatEstimateDate } from '../lib/leadTime';
+import { OrderStatusTimeline } from '../components/OrderStatusTimeline';
+import { OrderShipments } from '../components/OrderShipments';
+import type { Order, OrderItem, OrderAddress } from '../types/database';
+
+interface GuestOrderView {
+  accessToken: string;
+  order: Order;
+  items: OrderItem[];
+}
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+export function GuestOrderLookup() {
+  const [email, setEmail] = useState('');
+  const [reference, setReference] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<GuestOrderView | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSearching(true);
+    setError(null);
+
+    try {
+      const access = await requestGuestOrderAccess(email, reference);
+      if (!access) {
+        setError('We could not find an order with that email address and order number.');
+        return;
+      }
+
+      const [order, items] = await Promise.all([
+        getGuestOrder(access.access_token),
+        getGuestOrderItems(access.access_token)
+      ]);
+
+      if (!order) {
+        setError('We could not find an order with that email address and order number.');
+        return;
+      }
+
+      setView({ accessToken: access.access_token, order, items });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up order');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleReset = () => {
+    setView(null);
+    setReference('');
+    setError(null);
+  };
+
+  if (!view) {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-md mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-serif text-gray-900">Track Your Order</h1>
+            <p className="text-gray-600 mt-2">
+              Enter the email address you checked out with and the order number from your confirmation.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="bg-white shadow rounded-lg p-6 space-y-4">
+            <div>
+              <label htmlFor="lookup-email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email Address
+              </label>
+              <input
+                id="lookup-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:border-rose-600"
+              />
+            </div>
+            <div>
+              <label htmlFor="lookup-reference" className="block text-sm font-medium text-gray-700 mb-1">
+                Order Number
+              </label>
+              <input
+                id="lookup-reference"
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="e.g. WW-2026-00042"
+                required
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg uppercase focus:outline-none focus:border-rose-600"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={searching}
+              className="w-full bg-rose-600 hover:bg-rose-700 disabled:bg-gray-400 text-white font-semibold py-3 rounded-lg transition-colors"
+            >
+              {searching ? 'Looking up...' : 'Find My Order'}
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  const { order, items, accessToken } = view;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-serif text-gray-900">Order {order.order_number}</h1>
+            <p className="text-gray-600 mt-2">Placed {formatDate(order.created_at)}</p>
+            {order.dispatch_by && (order.status === 'pending' || order.status === 'paid') && (
+              <p className="text-gray-600">
+                Dispatched by {formatEstimateDate(order.dispatch_by)}
+                {order.estimated_delivery && `, arriving around ${formatEstimateDate(order.estimated_delivery)}`}
+              </p>
+            )}
+          </div>
+          <span
+            className={`inline-flex items-center px-3 py-1 rounded-full text-xs font-medium border ${getOrderStatusColor(order.status)}`}
+          >
+            {formatOrderStatus(order.status)}
+          </span>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-6 space-y-6">
+          <div>
+            <h2 className="text-sm font-medium text-gray-900 mb-3">Items</h2>
+            <div className="space-y-3">
+              {items.map((item) => (
+                <div key={item.id} className="flex justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{item.product_name}</p>
+                    {item.custom_selections && item.custom_selections.length > 0 && (
+                      <p className="text-xs text-gray-600">{formatOrderItemSelections(item)}</p>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Quantity: {item.quantity} × {formatMoney(item.product_price, order.currency)}
+                    </p>
+                  </div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {formatMoney(item.product_price * item.quantity, order.currency)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-4 border-t border-gray-200">
+            <div>
+              <h2 className="text-sm font-medium text-gray-900 mb-1">Shipping Address</h2>
+              <p className="text-sm text-gray-500">{order.recipient_name ?? order.full_name}</p>
+              <p className="text-sm text-gray-500">
+                {formatOrderAddress(order.address as unknown as OrderAddress)}
+              </p>
+              {order.gift_message && (
+                <p className="text-sm text-gray-500 mt-1">Gift message: {order.gift_message}</p>
+              )}
+            </div>
+            <div>
+              <h2 className="text-sm font-medium text-gray-900 mb-1">Order Total</h2>
+              <p className="text-sm text-gray-500">Subtotal: {formatMoney(order.subtotal, order.currency)}</p>
+              <p className="text-sm text-gray-500">Delivery: {formatMoney(order.delivery_total, order.currency)}</p>
+              {order.gift_wrap_total > 0 && (
+                <p className="text-sm text-gray-500">Gift wrap: {formatMoney(order.gift_wrap_total, order.currency)}</p>
+              )}
+              {order.discount_total > 0 && (
+                <p className="text-sm text-gray-500">
+                  Discount{order.discount_code ? ` (${order.discount_code})` : ''}: -{formatMoney(order.discount_total, order.currency)}
+                </p>
+              )}
+              {!order.prices_include_tax && (
+                <p className="text-sm text-gray-500">Tax: {formatMoney(order.tax_total, order.currency)}</p>
+              )}
+              <p className="text-sm font-medium text-gray-900">Total: {formatMoney(order.total, order.currency)}</p>
+              {order.gift_card_total > 0 && (
+                <p className="text-sm text-gray-500">Paid by gift card: {formatMoney(order.gift_card_total, order.currency)}</p>
+              )}
+              {order.prices_include_tax && order.tax_total > 0 && (
+                <p className="text-xs text-gray-500">Includes {formatMoney(order.tax_total, order.currency)} tax</p>
+              )}
+              {order.refunded_total > 0 && (
+                <p className="text-sm text-green-700">Refunded: {formatMoney(order.refunded_total, order.currency)}</p>
+              )}
+            </div>
+          </div>
+
+          {(order.status === 'shipped' || order.status === 'delivered') && (
+            <div className="pt-4 border-t border-gray-200">
+              <h2 className="text-sm font-medium text-gray-900 mb-3">Shipment Tracking</h2>
+              <OrderShipments orderId={order.id} status={order.status} accessToken={accessToken} />
+            </div>
+          )}
+
+          <div className="pt-4 border-t border-gray-200">
+            <h2 className="text-sm font-medium text-gray-900 mb-3">Order Timeline</h2>
+            <OrderStatusTimeline orderId={order.id} status={order.status} accessToken={accessToken} />
+          </div>
+        </div>
+
+        <button
+          onClick={handleReset}
+          className="mt-6 text-rose-600 hover:text-rose-700 text-sm font-medium"
+        >
+          Look up another order
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -4,17 +4,26 @@ import {
   getUserOrders, 
   getOrderItems,
   formatOrderAddress, 
+  formatOrderItemSelections,
   formatOrderStatus, 
-  getOrderStatusColor 
+  getOrderStatusColor,
+  formatOrderPaymentMethod,
+  hasInvoice
 } from '../lib/orderService';
-import type { Order } from '../types/database';
+import { formatMoney } from '../lib/money';
+import { formatEstimateDate } from '../lib/leadTime';
+import { OrderStatusTimeline } from '../components/OrderStatusTimeline';
+import { OrderShipments } from '../components/OrderShipments';
+import { OrderDocumentButtons } from '../components/OrderDocumentButtons';
+import { OrderGiftCards } from '../components/OrderGiftCards';
+import type { Order, OrderItem } from '../types/database';
 
 export default function Orders() {
   const { isAuthenticated } = useAuth();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
-  const [orderItems, setOrderItems] = useState<Record<string, any[]>>({});
+  const [orderItems, setOrderItems] = useState<Record<string, OrderItem[]>>({});
   const [loadingItems, setLoadingItems] = useState<Record<string, boolean>>({});
 
   useEffect(() => {
@@ -69,13 +78,6 @@ export default function Orders() {
     });
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-GB', {
-      style: 'currency',
-      currency: 'GBP'
-    }).format(amount);
-  };
-
   const loadOrderItems = async (orderId: string) => {
     if (orderItems[orderId]) {
       return; // Already loaded
@@ -149,11 +151,17 @@ export default function Orders() {
                   <div className="flex items-center justify-between mb-4">
                     <div>
                       <p className="text-sm text-gray-500">
-                        Order #{order.id.slice(-8).toUpperCase()}
+                        Order {order.order_number}
                       </p>
                       <p className="text-sm text-gray-500">
                         Placed {formatDate(order.created_at)}
                       </p>
+                      {order.dispatch_by && (order.status === 'pending' || order.status === 'paid') && (
+                        <p className="text-sm text-gray-500">
+                          Dispatched by {formatEstimateDate(order.dispatch_by)}
+                          {order.estimated_delivery && `, arriving around ${formatEstimateDate(order.estimated_delivery)}`}
+                        </p>
+                      )}
                     </div>
                     <div className="flex items-center space-x-4">
                       <span
@@ -164,7 +172,7 @@ export default function Orders() {
                         {formatOrderStatus(order.status)}
                       </span>
                       <span className="text-lg font-semibold text-gray-900">
-                        {formatCurrency(order.total)}
+                        {formatMoney(order.total, order.currency)}
                       </span>
                     </div>
                   </div>
@@ -175,19 +183,24 @@ export default function Orders() {
                         Shipping Address
                       </h4>
                       <p className="text-sm text-gray-500">
-                        {order.full_name}
+                        {order.recipient_name ?? order.full_name}
                       </p>
                       <p className="text-sm text-gray-500">
                         {formatOrderAddress(order.address as any)}
                       </p>
+                      {order.gift_message && (
+                        <p className="text-sm text-gray-500 mt-1">
+                          Gift message: {order.gift_message}
+                        </p>
+                      )}
                     </div>
 
                     <div>
                       <h4 className="text-sm font-medium text-gray-900 mb-1">
                         Payment Method
                       </h4>
-                      <p className="text-sm text-gray-500 capitalize">
-                        {order.payment_method === 'paypal' ? 'PayPal' : 'Card'}
+                      <p className="text-sm text-gray-500">
+                        {formatOrderPaymentMethod(order)}
                       </p>
                     </div>
 
@@ -196,14 +209,44 @@ export default function Orders() {
                         Order Total
                       </h4>
                       <p className="text-sm text-gray-500">
-                        Subtotal: {formatCurrency(order.subtotal)}
+                        Subtotal: {formatMoney(order.subtotal, order.currency)}
                       </p>
                       <p className="text-sm text-gray-500">
-                        Delivery: {formatCurrency(order.delivery_total)}
+                        Delivery: {formatMoney(order.delivery_total, order.currency)}
                       </p>
+                      {order.gift_wrap_total > 0 && (
+                        <p className="text-sm text-gray-500">
+                          Gift wrap: {formatMoney(order.gift_wrap_total, order.currency)}
+                        </p>
+                      )}
+                      {order.discount_total > 0 && (
+                        <p className="text-sm text-gray-500">
+                          Discount{order.discount_code ? ` (${order.discount_code})` : ''}: -{formatMoney(order.discount_total, order.currency)}
+                        </p>
+                      )}
+                      {!order.prices_include_tax && (
+                        <p className="text-sm text-gray-500">
+                          Tax: {formatMoney(order.tax_total, order.currency)}
+                        </p>
+                      )}
                       <p className="text-sm font-medium text-gray-900">
-                        Total: {formatCurrency(order.total)}
+                        Total: {formatMoney(order.total, order.currency)}
                       </p>
+                      {order.gift_card_total > 0 && (
+                        <p className="text-sm text-gray-500">
+                          Paid by gift card: {formatMoney(order.gift_card_total, order.currency)}
+                        </p>
+                      )}
+                      {order.prices_include_tax && order.tax_total > 0 && (
+                        <p className="text-xs text-gray-500">
+                          Includes {formatMoney(order.tax_total, order.currency)} tax
+                        </p>
+                      )}
+                      {order.refunded_total > 0 && (
+                        <p className="text-sm text-green-700">
+                          Refunded: {formatMoney(order.refunded_total, order.currency)}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -247,28 +290,33 @@ export default function Orders() {
                           </div>
                         ) : orderItems[order.id] && orderItems[order.id].length > 0 ? (
                           <div className="space-y-3">
-                            {orderItems[order.id].map((item: any) => (
+                            {orderItems[order.id].map((item) => (
                               <div key={item.id} className="flex justify-between items-center py-2 border-b border-gray-200 last:border-0">
                                 <div className="flex-1">
                                   <h6 className="text-sm font-medium text-gray-900">
                                     {item.product_name}
                                   </h6>
+                                  {item.custom_selections && item.custom_selections.length > 0 && (
+                                    <p className="text-xs text-gray-600">
+                                      {formatOrderItemSelections(item)}
+                                    </p>
+                                  )}
                                   <p className="text-xs text-gray-500">
-                                    Quantity: {item.quantity} × {formatCurrency(item.product_price)}
+                                    Quantity: {item.quantity} × {formatMoney(item.product_price, order.currency)}
                                   </p>
                                   {item.delivery_charge > 0 && (
                                     <p className="text-xs text-gray-500">
-                                      Delivery: {formatCurrency(item.delivery_charge)} each
+                                      Delivery: {formatMoney(item.delivery_charge, order.currency)} each
                                     </p>
                                   )}
                                 </div>
                                 <div className="text-right">
                                   <p className="text-sm font-medium text-gray-900">
-                                    {formatCurrency(item.product_price * item.quantity)}
+                                    {formatMoney(item.product_price * item.quantity, order.currency)}
                                   </p>
                                   {item.delivery_charge > 0 && (
                                     <p className="text-xs text-gray-500">
-                                      + {formatCurrency(item.delivery_charge * item.quantity)} delivery
+                                      + {formatMoney(item.delivery_charge * item.quantity, order.currency)} delivery
                                     </p>
                                   )}
                                 </div>
@@ -282,65 +330,44 @@ export default function Orders() {
                         )}
                         
                         <div className="mt-4 pt-3 border-t border-gray-200 text-xs text-gray-500">
-                          <p>Order ID: {order.id}</p>
+                          <p>Order Number: {order.order_number}</p>
                           <p>Email: {order.email}</p>
                           <p>Status: {order.status}</p>
-                          <p>Payment Method: {order.payment_method}</p>
+                          <p>Payment Method: {formatOrderPaymentMethod(order)}</p>
                         </div>
                       </div>
 
+                      {/* Shipment Tracking */}
+                      {(order.status === 'shipped' || order.status === 'delivered') && (
+                        <div className="mt-6">
+                          <h5 className="text-sm font-medium text-gray-900 mb-3">
+                            Shipment Tracking
+                          </h5>
+                          <OrderShipments orderId={order.id} status={order.status} />
+                        </div>
+                      )}
+
+                      {/* Gift cards bought on the order */}
+                      {order.status !== 'pending' && order.status !== 'cancelled' && (
+                        <OrderGiftCards orderId={order.id} status={order.status} className="mt-6" />
+                      )}
+
+                      {/* Invoice / Receipt */}
+                      {hasInvoice(order) && (
+                        <div className="mt-6">
+                          <h5 className="text-sm font-medium text-gray-900 mb-3">
+                            Invoice &amp; Receipt
+                          </h5>
+                          <OrderDocumentButtons order={order} document="invoice" />
+                        </div>
+                      )}
+
                       {/* Order Timeline */}
                       <div className="mt-6">
                         <h5 className="text-sm font-medium text-gray-900 mb-3">
                           Order Timeline
                         </h5>
-                        <div className="space-y-3">
-                          <div className="flex items-center">
-                            <div className="flex-shrink-0 w-2 h-2 bg-green-400 rounded-full"></div>
-                            <div className="ml-3">
-                              <p className="text-sm text-gray-900">Order placed</p>
-                              <p className="text-xs text-gray-500">
-                                {formatDate(order.created_at)}
-                              </p>
-                            </div>
-                          </div>
-                          
-                          {order.status !== 'pending' && (
-                            <div className="flex items-center">
-                              <div className="flex-shrink-0 w-2 h-2 bg-blue-400 rounded-full"></div>
-                              <div className="ml-3">
-                                <p className="text-sm text-gray-900">Payment confirmed</p>
-                                <p className="text-xs text-gray-500">
-                                  {formatDate(order.updated_at || order.created_at)}
-                                </p>
-                              </div>
-                            </div>
-                          )}
-
-                          {['shipped', 'delivered'].includes(order.status) && (
-                            <div className="flex items-center">
-                              <div className="flex-shrink-0 w-2 h-2 bg-purple-400 rounded-full"></div>
-                              <div className="ml-3">
-                                <p className="text-sm text-gray-900">Order shipped</p>
-                                <p className="text-xs text-gray-500">
-                                  Estimated delivery: 3-5 business days
-                                </p>
-                              </div>
-                            </div>
-                          )}
-
-                          {order.status === 'delivered' && (
-                            <div className="flex items-center">
-                              <div className="flex-shrink-0 w-2 h-2 bg-green-400 rounded-full"></div>
-                              <div className="ml-3">
-                                <p className="text-sm text-gray-900">Order delivered</p>
-                                <p className="text-xs text-gray-500">
-                                  {formatDate(order.updated_at || order.created_at)}
-                                </p>
-                              </div>
-                            </div>
-                          )}
-                        </div>
+                        <OrderStatusTimeline orderId={order.id} status={order.status} />
                       </div>
                     </div>
                   )}
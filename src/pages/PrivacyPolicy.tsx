@@ -51,6 +51,16 @@ export function PrivacyPolicy({ onNavigate }: PrivacyPolicyProps = {}) {
           <p className="text-gray-700 leading-relaxed mb-4">
             Your shopping cart is stored locally in your browser's local storage to preserve your selections between visits.
           </p>
+
+          <h3 className="text-xl font-semibold text-gray-900 mb-3 mt-4">Reviews</h3>
+          <p className="text-gray-700 leading-relaxed mb-4">
+            If you review a product, we publish your rating, review and any photos you add with your first name and last initial from your order. We check reviews before they are published. Your review is deleted if you delete your account.
+          </p>
+
+          <h3 className="text-xl font-semibold text-gray-900 mb-3 mt-4">Wishlist</h3>
+          <p className="text-gray-700 leading-relaxed mb-4">
+            If you are not signed in, items you save to your wishlist are stored in your browser's local storage. When you sign in they are saved to your account. Anyone you give your wishlist share link to can see the items on it, but not your name or email address.
+          </p>
         </section>
 
         <section className="mb-8">
@@ -114,7 +124,7 @@ export function PrivacyPolicy({ onNavigate }: PrivacyPolicyProps = {}) {
           </p>
           <ul className="list-disc pl-6 mb-4 text-gray-700 space-y-2">
             <li><strong>Essential cookies:</strong> For authentication and session management</li>
-            <li><strong>Local storage:</strong> To save your shopping cart between visits</li>
+            <li><strong>Local storage:</strong> To save your shopping cart and wishlist between visits</li>
           </ul>
           <p className="text-gray-700 leading-relaxed mb-4">
             We do not use tracking cookies or analytics tools. Your browsing behavior is not tracked.
@@ -1,10 +1,16 @@
 import { useEffect, useState } from 'react';
-import { ArrowLeft, ShoppingCart, Package, Truck, Check, AlertCircle } from 'lucide-react';
+import { ArrowLeft, ShoppingCart, Package, Truck, Check, AlertCircle, CalendarClock } from 'lucide-react';
 import { dataService } from '../lib/dataService';
 import { useCart } from '../contexts/CartContext';
+import { useCurrency } from '../contexts/CurrencyContext';
 import { OptimizedImage } from '../components/OptimizedImage';
 import { CustomPropertiesInput } from '../components/CustomPropertiesInput';
-import { getProductPriceRange, getEffectivePrice } from '../lib/orderService';
+import { StockNotificationForm } from '../components/StockNotificationForm';
+import { WishlistButton } from '../components/WishlistButton';
+import { StarRating } from '../components/StarRating';
+import { ProductReviews } from '../components/ProductReviews';
+import { getProductPriceRange, getEffectivePrice, getAvailableStock, getShippingRegion } from '../lib/orderService';
+import { getItemLeadTime, estimateDelivery, formatEstimateDate, formatLeadTime } from '../lib/leadTime';
 import type { Product, CustomPropertiesConfig, CustomPropertySelection, CustomPropertyDropdown } from '../types/database';
 
 interface ProductDetailsProps {
@@ -21,7 +27,8 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
   const [customSelections, setCustomSelections] = useState<CustomPropertySelection[]>([]);
   const [customError, setCustomError] = useState<string | null>(null);
   const [activeImage, setActiveImage] = useState<string | null>(null);
-  const { addItem } = useCart();
+  const { addItem, shippingConfig } = useCart();
+  const { formatPrice } = useCurrency();
 
   useEffect(() => {
     fetchProductDetails();
@@ -74,6 +81,13 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
     setCustomError(null);
 
     if (!product) return;
+
+    // Options can hold less stock than the product
+    const available = getAvailableStock({ product, quantity, customSelections: values });
+    if (available != null && available > 0 && quantity > available) {
+      setQuantity(available);
+    }
+
     const customProperties = product.custom_properties as CustomPropertiesConfig | null;
     if (!customProperties?.properties) return;
 
@@ -92,7 +106,9 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
   };
 
   const incrementQuantity = () => {
-    if (product?.stock_quantity != null && quantity >= product.stock_quantity) {
+    if (!product) return;
+    const available = getAvailableStock({ product, quantity, customSelections });
+    if (available != null && quantity >= available) {
       return;
     }
     setQuantity(prev => prev + 1);
@@ -151,10 +167,17 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
   }
 
   const isOutOfStock = product.stock_quantity != null && product.stock_quantity === 0;
+  // Switched off by an admin, or by selling out
+  const isUnavailable = isOutOfStock || product.is_available === false;
   const isLowStock = product.stock_quantity != null && product.stock_quantity < 5 && product.stock_quantity > 0;
   const customProperties = product.custom_properties as CustomPropertiesConfig | null;
   const hasCustomProperties = !!(customProperties?.properties && customProperties.properties.length > 0);
+  const availableStock = getAvailableStock({ product, quantity, customSelections });
+  const hasSoldOutOption = (customProperties?.properties ?? []).some(p =>
+    p.type === 'dropdown' && Object.values((p as CustomPropertyDropdown).optionStock ?? {}).some(stock => stock === 0)
+  );
   const { min: priceMin, max: priceMax } = getProductPriceRange(customProperties, product.price, product.price_max ?? null);
+  const shippingProfile = shippingConfig?.profiles.find(p => p.id === product.shipping_profile_id);
 
   // Compute the effective price for the current custom selections so the displayed price
   // updates as the customer picks options (e.g. size dropdown with per-option prices).
@@ -162,6 +185,14 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
     ? getEffectivePrice({ product, quantity, customSelections })
     : product.price;
 
+  // Dispatch estimate for the chosen options if ordered today; delivery is
+  // estimated for the default region until checkout knows the address
+  const leadTimeDays = getItemLeadTime(product, customSelections);
+  const deliveryEstimate = estimateDelivery(
+    leadTimeDays,
+    shippingConfig ? getShippingRegion(shippingConfig.regions) : undefined
+  );
+
   // Build the full gallery: main image first, then any extras from custom_properties.images, then option images
   const galleryImages: string[] = [
     product.image_url,
@@ -217,11 +248,12 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
                     Only {product.stock_quantity} left!
                   </div>
                 )}
-                {isOutOfStock && (
+                {isUnavailable && (
                   <div className="absolute top-4 right-4 bg-gray-800 text-white px-4 py-2 rounded-full text-sm font-semibold shadow-lg">
-                    Sold Out
+                    {isOutOfStock ? 'Sold Out' : 'Unavailable'}
                   </div>
                 )}
+                <WishlistButton productId={product.id} className="absolute bottom-4 right-4" />
               </div>
               {/* Thumbnail gallery strip */}
               {galleryImages.length > 1 && (
@@ -261,25 +293,29 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
               {product.name}
             </h1>
 
+            {product.rating_average != null && product.rating_count > 0 && (
+              <StarRating rating={Number(product.rating_average)} count={product.rating_count} size="md" />
+            )}
+
             {/* Price */}
             <div className="flex items-baseline gap-3">
               <span className="text-4xl font-bold text-gray-900">
                 {effectiveDisplayPrice !== product.price
-                  ? `£${effectiveDisplayPrice.toFixed(2)}`
+                  ? formatPrice(effectiveDisplayPrice)
                   : priceMax > priceMin
-                    ? `£${priceMin.toFixed(2)} - £${priceMax.toFixed(2)}`
-                    : `£${priceMin.toFixed(2)}`
+                    ? `${formatPrice(priceMin)} - ${formatPrice(priceMax)}`
+                    : formatPrice(priceMin)
                 }
               </span>
-              {product.delivery_charge != null && product.delivery_charge > 0 && (
+              {!product.shipping_profile_id && product.delivery_charge != null && product.delivery_charge > 0 && (
                 <span className="text-lg text-gray-600">
-                  + £{product.delivery_charge.toFixed(2)} delivery
+                  + {formatPrice(product.delivery_charge)} delivery
                 </span>
               )}
             </div>
 
             {/* Stock Status */}
-            {!isOutOfStock && (
+            {!isUnavailable && (
               <div className="flex items-center text-green-700 bg-green-50 px-4 py-2 rounded-lg w-fit">
                 <Check className="w-5 h-5 mr-2" />
                 <span className="font-medium">In Stock</span>
@@ -295,7 +331,7 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
             </div>
 
             {/* Quantity Selector */}
-            {!isOutOfStock && (
+            {!isUnavailable && (
               <div className="space-y-3">
                 <label className="text-sm font-semibold text-gray-900">Quantity</label>
                 <div className="flex items-center gap-4">
@@ -311,14 +347,14 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
                   </span>
                   <button
                     onClick={incrementQuantity}
-                    disabled={product.stock_quantity != null && quantity >= product.stock_quantity}
+                    disabled={availableStock != null && quantity >= availableStock}
                     className="w-12 h-12 rounded-lg border-2 border-gray-300 flex items-center justify-center text-2xl font-semibold hover:border-rose-600 hover:text-rose-600 transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-300 disabled:hover:text-gray-900"
                   >
                     +
                   </button>
-                  {product.stock_quantity != null && (
+                  {availableStock != null && (
                     <span className="text-sm text-gray-600 ml-2">
-                      {product.stock_quantity} available
+                      {availableStock} available
                     </span>
                   )}
                 </div>
@@ -342,7 +378,7 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
             {/* Add to Bag Button */}
             <button
               onClick={handleAddToCart}
-              disabled={isOutOfStock}
+              disabled={isUnavailable}
               className={`w-full flex items-center justify-center space-x-3 px-8 py-4 rounded-xl transition-all font-semibold text-lg shadow-lg ${
                 isAdded
                   ? 'bg-green-600 hover:bg-green-700 text-white'
@@ -350,9 +386,13 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
               }`}
             >
               <ShoppingCart className="w-6 h-6" />
-              <span>{isAdded ? 'Added to Bag!' : isOutOfStock ? 'Out of Stock' : 'Add to Bag'}</span>
+              <span>{isAdded ? 'Added to Bag!' : isOutOfStock ? 'Out of Stock' : isUnavailable ? 'Unavailable' : 'Add to Bag'}</span>
             </button>
 
+            {(isUnavailable || hasSoldOutOption) && (
+              <StockNotificationForm product={product} soldOutOptionsOnly={!isUnavailable} />
+            )}
+
             {/* Product Features */}
             <div className="border-t pt-6 space-y-4">
               <div className="flex items-start gap-4">
@@ -369,15 +409,31 @@ export function ProductDetails({ productId, onBack }: ProductDetailsProps) {
                 <div>
                   <h3 className="font-semibold text-gray-900 mb-1">Delivery Information</h3>
                   <p className="text-gray-600 text-sm">
-                    {product.delivery_charge != null && product.delivery_charge > 0
-                      ? `Delivery charge: £${product.delivery_charge.toFixed(2)}`
-                      : 'Free delivery on this item'}
+                    {product.shipping_profile_id
+                      ? `Delivery is charged once per order at checkout${shippingProfile?.free_over != null ? `, free on orders over ${formatPrice(shippingProfile.free_over)}` : ''}`
+                      : product.delivery_charge != null && product.delivery_charge > 0
+                        ? `Delivery charge: ${formatPrice(product.delivery_charge)}`
+                        : 'Free delivery on this item'}
                   </p>
                 </div>
               </div>
+              {!product.is_gift_card && (
+                <div className="flex items-start gap-4">
+                  <CalendarClock className="w-6 h-6 text-rose-600 flex-shrink-0 mt-1" />
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-1">{formatLeadTime(leadTimeDays)}</h3>
+                    <p className="text-gray-600 text-sm">
+                      Order today and we'll dispatch it by {formatEstimateDate(deliveryEstimate.dispatchBy)}
+                      {deliveryEstimate.deliveryBy && `, for delivery around ${formatEstimateDate(deliveryEstimate.deliveryBy)}`}.
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
+
+        <ProductReviews product={product} />
       </div>
     </div>
   );
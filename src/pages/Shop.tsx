@@ -15,6 +15,7 @@ export function Shop({ onViewProduct }: ShopProps) {
   const [selectedCategory, setSelectedCategory] = useState<string>('All');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [categories, setCategories] = useState<string[]>(['All']);
+  const [sort, setSort] = useState<'featured' | 'rating'>('featured');
 
   useEffect(() => {
     fetchProducts();
@@ -28,7 +29,7 @@ export function Shop({ onViewProduct }: ShopProps) {
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [selectedCategory, searchTerm]);
+  }, [selectedCategory, searchTerm, sort]);
 
   async function fetchCategories() {
     try {
@@ -45,7 +46,8 @@ export function Shop({ onViewProduct }: ShopProps) {
       const productList = await dataService.getProductList({
         category: selectedCategory !== 'All' ? selectedCategory : undefined,
         search: searchTerm || undefined,
-        limit: 50
+        limit: 50,
+        sort
       });
       
       // Cast to Product[] for component compatibility (fields are subset but sufficient)
@@ -135,7 +137,7 @@ export function Shop({ onViewProduct }: ShopProps) {
         </div>
 
         {/* Category Filters */}
-        <div className="flex flex-wrap items-center justify-center gap-3 mb-12">
+        <div className="flex flex-wrap items-center justify-center gap-3 mb-6">
           {categories.map((category) => (
             <button
               key={category}
@@ -151,6 +153,20 @@ export function Shop({ onViewProduct }: ShopProps) {
           ))}
         </div>
 
+        <div className="flex justify-center mb-12">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <span>Sort by</span>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as 'featured' | 'rating')}
+              className="px-3 py-2 rounded-full bg-white border border-gray-300 shadow-sm focus:ring-2 focus:ring-rose-500 focus:border-transparent"
+            >
+              <option value="featured">Featured</option>
+              <option value="rating">Top rated</option>
+            </select>
+          </label>
+        </div>
+
         {loading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
             {[1, 2, 3, 4, 5, 6].map((i) => (
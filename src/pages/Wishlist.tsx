@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Heart, Link as LinkIcon, Copy } from 'lucide-react';
+import { ProductCard } from '../components/ProductCard';
+import { useAuth } from '../contexts/AuthContext';
+import { useWishlist } from '../contexts/WishlistContext';
+import { getSharedWishlist, getWishlistProducts } from '../lib/apiService';
+import type { Product } from '../types/database';
+
+interface WishlistProps {
+  shareToken: string | null; // From a shared link (/?wishlist=<token>)
+  onViewProduct: (productId: string) => void;
+}
+
+/**
+ * The customer's own wishlist, or someone else's when opened from a share
+ * link.
+ */
+export function Wishlist({ shareToken, onViewProduct }: WishlistProps) {
+  const { user } = useAuth();
+  const { productIds, getShareLink, isLoading: wishlistLoading } = useWishlist();
+  const [viewingShared, setViewingShared] = useState(shareToken !== null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const ownIdsKey = productIds.join(',');
+
+  useEffect(() => {
+    if (!viewingShared && wishlistLoading) return;
+
+    let cancelled = false;
+
+    async function loadProducts() {
+      try {
+        setLoading(true);
+        setError(null);
+        const ids = viewingShared && shareToken
+          ? await getSharedWishlist(shareToken)
+          : (ownIdsKey ? ownIdsKey.split(',') : []);
+        const data = await getWishlistProducts(ids);
+        if (!cancelled) setProducts(data);
+      } catch {
+        if (!cancelled) setError('Failed to load the wishlist');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadProducts();
+    return () => {
+      cancelled = true;
+    };
+  }, [viewingShared, shareToken, ownIdsKey, wishlistLoading]);
+
+  const handleShare = async (reset: boolean = false) => {
+    if (reset && !confirm('Make a new link? Links you have already shared will stop working.')) return;
+
+    setSharing(true);
+    setError(null);
+    try {
+      setShareLink(await getShareLink(reset));
+      setCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to make a share link');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareLink) return;
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Older browsers: the link is selectable in the box instead
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-serif text-gray-900 flex items-center">
+              <Heart className="w-7 h-7 text-rose-500 mr-3" />
+              {viewingShared ? 'A Shared Wishlist' : 'Your Wishlist'}
+            </h1>
+            <p className="text-gray-600 mt-2">
+              {viewingShared
+                ? 'Things someone would love from Wool Witch.'
+                : user
+                  ? 'Things you have saved for later.'
+                  : 'Saved in this browser. Sign in to keep it on every device and share it.'}
+            </p>
+          </div>
+
+          {viewingShared ? (
+            <button
+              onClick={() => setViewingShared(false)}
+              className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              View My Wishlist
+            </button>
+          ) : user && productIds.length > 0 && !shareLink && (
+            <button
+              onClick={() => handleShare()}
+              disabled={sharing}
+              className="flex items-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 disabled:bg-gray-400 transition-colors"
+            >
+              <LinkIcon className="w-4 h-4" />
+              <span>{sharing ? 'Making link...' : 'Share Wishlist'}</span>
+            </button>
+          )}
+        </div>
+
+        {!viewingShared && shareLink && (
+          <div className="bg-white rounded-lg shadow p-4 mb-8">
+            <p className="text-sm text-gray-700 mb-2">
+              Anyone with this link can see your wishlist, but not your name or email address.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={shareLink}
+                readOnly
+                onFocus={(e) => e.target.select()}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm"
+              />
+              <button
+                onClick={handleCopy}
+                className="flex items-center justify-center space-x-2 bg-rose-600 text-white px-4 py-2 rounded-lg hover:bg-rose-700 transition-colors"
+              >
+                <Copy className="w-4 h-4" />
+                <span>{copied ? 'Copied!' : 'Copy'}</span>
+              </button>
+              <button
+                onClick={() => handleShare(true)}
+                disabled={sharing}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                New Link
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {loading && products.length === 0 ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-600"></div>
+          </div>
+        ) : products.length === 0 ? (
+          <div className="text-center py-16">
+            <Heart className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">
+              {viewingShared
+                ? 'There is nothing on this wishlist, or the link is no longer valid.'
+                : 'Nothing saved yet. Tap the heart on anything you like.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {products.map(product => (
+              <ProductCard key={product.id} product={product} onViewDetails={onViewProduct} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
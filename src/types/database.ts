@@ -651,36 +651,550 @@ export type Database = {
   }
   woolwitch: {
     Tables: {
+      address_countries: {
+        Row: {
+          code: string
+          name: string
+          postcode_pattern: string | null
+          postcode_required: boolean
+          region_required: boolean
+          sort_order: number
+        }
+        Insert: {
+          code: string
+          name: string
+          postcode_pattern?: string | null
+          postcode_required?: boolean
+          region_required?: boolean
+          sort_order?: number
+        }
+        Update: {
+          code?: string
+          name?: string
+          postcode_pattern?: string | null
+          postcode_required?: boolean
+          region_required?: boolean
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      commission_requests: {
+        Row: {
+          accepted_at: string | null
+          access_token: string
+          budget: string | null
+          colours: string | null
+          created_at: string
+          description: string
+          email: string
+          full_name: string
+          id: string
+          order_id: string | null
+          quote_expires_at: string | null
+          quote_lead_time_days: number | null
+          quote_message: string | null
+          quote_price: number | null
+          quote_title: string | null
+          quoted_at: string | null
+          reference_images: string[]
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          access_token?: string
+          budget?: string | null
+          colours?: string | null
+          created_at?: string
+          description: string
+          email: string
+          full_name: string
+          id?: string
+          order_id?: string | null
+          quote_expires_at?: string | null
+          quote_lead_time_days?: number | null
+          quote_message?: string | null
+          quote_price?: number | null
+          quote_title?: string | null
+          quoted_at?: string | null
+          reference_images?: string[]
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          access_token?: string
+          budget?: string | null
+          colours?: string | null
+          created_at?: string
+          description?: string
+          email?: string
+          full_name?: string
+          id?: string
+          order_id?: string | null
+          quote_expires_at?: string | null
+          quote_lead_time_days?: number | null
+          quote_message?: string | null
+          quote_price?: number | null
+          quote_title?: string | null
+          quoted_at?: string | null
+          reference_images?: string[]
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      currency_settings: {
+        Row: {
+          base_currency: string
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          base_currency?: string
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          base_currency?: string
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      customer_addresses: {
+        Row: {
+          address: Json
+          created_at: string
+          full_name: string
+          id: string
+          is_default: boolean
+          label: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address: Json
+          created_at?: string
+          full_name: string
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address?: Json
+          created_at?: string
+          full_name?: string
+          id?: string
+          is_default?: boolean
+          label?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      discount_codes: {
+        Row: {
+          categories: string[]
+          code: string
+          created_at: string
+          description: string | null
+          discount_type: string
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          min_spend: number | null
+          product_ids: string[]
+          starts_at: string | null
+          updated_at: string
+          value: number
+        }
+        Insert: {
+          categories?: string[]
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_type: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          min_spend?: number | null
+          product_ids?: string[]
+          starts_at?: string | null
+          updated_at?: string
+          value?: number
+        }
+        Update: {
+          categories?: string[]
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_type?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          min_spend?: number | null
+          product_ids?: string[]
+          starts_at?: string | null
+          updated_at?: string
+          value?: number
+        }
+        Relationships: []
+      }
+      email_deliveries: {
+        Row: {
+          attempt: number
+          created_at: string
+          email_id: string
+          error: string | null
+          id: string
+          succeeded: boolean
+          transport: string
+        }
+        Insert: {
+          attempt: number
+          created_at?: string
+          email_id: string
+          error?: string | null
+          id?: string
+          succeeded: boolean
+          transport: string
+        }
+        Update: {
+          attempt?: number
+          created_at?: string
+          email_id?: string
+          error?: string | null
+          id?: string
+          succeeded?: boolean
+          transport?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_deliveries_email_id_fkey"
+            columns: ["email_id"]
+            isOneToOne: false
+            referencedRelation: "email_outbox"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          commission_request_id: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          max_attempts: number
+          next_attempt_at: string
+          order_id: string | null
+          recipient: string
+          sent_at: string | null
+          status: string
+          stock_notification_id: string | null
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          commission_request_id?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          order_id?: string | null
+          recipient: string
+          sent_at?: string | null
+          status?: string
+          stock_notification_id?: string | null
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          commission_request_id?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          order_id?: string | null
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+          stock_notification_id?: string | null
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_commission_request_id_fkey"
+            columns: ["commission_request_id"]
+            isOneToOne: false
+            referencedRelation: "commission_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_outbox_stock_notification_id_fkey"
+            columns: ["stock_notification_id"]
+            isOneToOne: false
+            referencedRelation: "stock_notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          currency: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          currency: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          currency?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      gift_card_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          gift_card_id: string
+          id: string
+          kind: string
+          note: string | null
+          order_id: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          gift_card_id: string
+          id?: string
+          kind: string
+          note?: string | null
+          order_id?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          gift_card_id?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          order_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_card_transactions_gift_card_id_fkey"
+            columns: ["gift_card_id"]
+            isOneToOne: false
+            referencedRelation: "gift_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gift_cards: {
+        Row: {
+          code: string
+          created_at: string
+          currency: string
+          id: string
+          initial_value: number
+          issued_by: string | null
+          note: string | null
+          order_id: string | null
+          order_item_id: string | null
+          recipient_email: string | null
+          updated_at: string
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          currency?: string
+          id?: string
+          initial_value: number
+          issued_by?: string | null
+          note?: string | null
+          order_id?: string | null
+          order_item_id?: string | null
+          recipient_email?: string | null
+          updated_at?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          initial_value?: number
+          issued_by?: string | null
+          note?: string | null
+          order_id?: string | null
+          order_item_id?: string | null
+          recipient_email?: string | null
+          updated_at?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_cards_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_cards_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gift_options: {
+        Row: {
+          gift_wrap_charge: number
+          gift_wrap_enabled: boolean
+          gift_wrap_tax_class: string
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          gift_wrap_charge?: number
+          gift_wrap_enabled?: boolean
+          gift_wrap_tax_class?: string
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          gift_wrap_charge?: number
+          gift_wrap_enabled?: boolean
+          gift_wrap_tax_class?: string
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          id: string
+          invoice_number: number
+          issued_at: string
+          order_id: string
+        }
+        Insert: {
+          id?: string
+          invoice_number: number
+          issued_at?: string
+          order_id: string
+        }
+        Update: {
+          id?: string
+          invoice_number?: number
+          issued_at?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           created_at: string | null
+          custom_selections: Json | null
           delivery_charge: number
+          discount_amount: number
           id: string
           order_id: string
           product_id: string | null
           product_name: string
           product_price: number
           quantity: number
+          tax_amount: number
+          tax_rate: number
         }
         Insert: {
           created_at?: string | null
+          custom_selections?: Json | null
           delivery_charge: number
+          discount_amount?: number
           id?: string
           order_id: string
           product_id?: string | null
           product_name: string
           product_price: number
           quantity: number
+          tax_amount?: number
+          tax_rate?: number
         }
         Update: {
           created_at?: string | null
+          custom_selections?: Json | null
           delivery_charge?: number
+          discount_amount?: number
           id?: string
           order_id?: string
           product_id?: string | null
           product_name?: string
           product_price?: number
           quantity?: number
+          tax_amount?: number
+          tax_rate?: number
         }
         Relationships: [
           {
@@ -699,17 +1213,74 @@ export type Database = {
           },
         ]
       }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
           address: Json
           created_at: string | null
+          currency: string
           delivery_total: number
+          discount_code: string | null
+          discount_code_id: string | null
+          discount_total: number
+          dispatch_by: string | null
           email: string
+          estimated_delivery: string | null
+          exchange_rate: number
           full_name: string
+          gift_card_total: number
+          gift_message: string | null
+          gift_wrap: boolean
+          gift_wrap_total: number
+          hide_prices: boolean
           id: string
+          idempotency_key: string | null
+          order_number: string
           payment_method: string
+          prices_include_tax: boolean
+          recipient_name: string | null
+          refunded_total: number
           status: string
+          stock_reserved: boolean
           subtotal: number
+          tax_total: number
           total: number
           updated_at: string | null
           user_id: string | null
@@ -717,13 +1288,32 @@ export type Database = {
         Insert: {
           address: Json
           created_at?: string | null
+          currency?: string
           delivery_total: number
+          discount_code?: string | null
+          discount_code_id?: string | null
+          discount_total?: number
+          dispatch_by?: string | null
           email: string
+          estimated_delivery?: string | null
+          exchange_rate?: number
           full_name: string
+          gift_card_total?: number
+          gift_message?: string | null
+          gift_wrap?: boolean
+          gift_wrap_total?: number
+          hide_prices?: boolean
           id?: string
+          idempotency_key?: string | null
+          order_number: string
           payment_method: string
+          prices_include_tax?: boolean
+          recipient_name?: string | null
+          refunded_total?: number
           status?: string
+          stock_reserved?: boolean
           subtotal: number
+          tax_total?: number
           total: number
           updated_at?: string | null
           user_id?: string | null
@@ -731,111 +1321,541 @@ export type Database = {
         Update: {
           address?: Json
           created_at?: string | null
+          currency?: string
           delivery_total?: number
+          discount_code?: string | null
+          discount_code_id?: string | null
+          discount_total?: number
+          dispatch_by?: string | null
           email?: string
+          estimated_delivery?: string | null
+          exchange_rate?: number
           full_name?: string
+          gift_card_total?: number
+          gift_message?: string | null
+          gift_wrap?: boolean
+          gift_wrap_total?: number
+          hide_prices?: boolean
           id?: string
+          idempotency_key?: string | null
+          order_number?: string
           payment_method?: string
+          prices_include_tax?: boolean
+          recipient_name?: string | null
+          refunded_total?: number
           status?: string
+          stock_reserved?: boolean
           subtotal?: number
+          tax_total?: number
           total?: number
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: []
       }
-      payments: {
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          currency: string | null
+          id: string
+          idempotency_key: string | null
+          order_id: string
+          payment_id: string | null
+          payment_method: string
+          paypal_details: Json | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          currency?: string | null
+          id?: string
+          idempotency_key?: string | null
+          order_id: string
+          payment_id?: string | null
+          payment_method: string
+          paypal_details?: Json | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          currency?: string | null
+          id?: string
+          idempotency_key?: string | null
+          order_id?: string
+          payment_id?: string | null
+          payment_method?: string
+          paypal_details?: Json | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_reviews: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          images: string[]
+          moderated_at: string | null
+          moderated_by: string | null
+          order_id: string | null
+          product_id: string
+          rating: number
+          reviewer_name: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          images?: string[]
+          moderated_at?: string | null
+          moderated_by?: string | null
+          order_id?: string | null
+          product_id: string
+          rating: number
+          reviewer_name: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          images?: string[]
+          moderated_at?: string | null
+          moderated_by?: string | null
+          order_id?: string | null
+          product_id?: string
+          rating?: number
+          reviewer_name?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_reviews_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category: string
+          commission_request_id: string | null
+          created_at: string | null
+          custom_properties: Json | null
+          delivery_charge: number | null
+          description: string
+          id: string
+          image_url: string
+          is_available: boolean | null
+          is_gift_card: boolean
+          lead_time_days: number
+          name: string
+          price: number
+          price_max: number | null
+          rating_average: number | null
+          rating_count: number
+          shipping_profile_id: string | null
+          sold_out_at: string | null
+          sort_order: number | null
+          stock_quantity: number | null
+          tax_class: string
+          weight_grams: number | null
+        }
+        Insert: {
+          category: string
+          commission_request_id?: string | null
+          created_at?: string | null
+          custom_properties?: Json | null
+          delivery_charge?: number | null
+          description: string
+          id?: string
+          image_url: string
+          is_available?: boolean | null
+          is_gift_card?: boolean
+          lead_time_days?: number
+          name: string
+          price: number
+          price_max?: number | null
+          rating_average?: number | null
+          rating_count?: number
+          shipping_profile_id?: string | null
+          sold_out_at?: string | null
+          sort_order?: number | null
+          stock_quantity?: number | null
+          tax_class?: string
+          weight_grams?: number | null
+        }
+        Update: {
+          category?: string
+          commission_request_id?: string | null
+          created_at?: string | null
+          custom_properties?: Json | null
+          delivery_charge?: number | null
+          description?: string
+          id?: string
+          image_url?: string
+          is_available?: boolean | null
+          is_gift_card?: boolean
+          lead_time_days?: number
+          name?: string
+          price?: number
+          price_max?: number | null
+          rating_average?: number | null
+          rating_count?: number
+          shipping_profile_id?: string | null
+          sold_out_at?: string | null
+          sort_order?: number | null
+          stock_quantity?: number | null
+          tax_class?: string
+          weight_grams?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_commission_request_id_fkey"
+            columns: ["commission_request_id"]
+            isOneToOne: false
+            referencedRelation: "commission_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_shipping_profile_id_fkey"
+            columns: ["shipping_profile_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          id: string
+          order_id: string
+          payment_id: string
+          provider_refund_id: string | null
+          reason: string | null
+          requested_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          payment_id: string
+          provider_refund_id?: string | null
+          reason?: string | null
+          requested_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id?: string
+          payment_id?: string
+          provider_refund_id?: string | null
+          reason?: string | null
+          requested_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipments: {
+        Row: {
+          carrier: string
+          created_at: string
+          created_by: string | null
+          dispatched_at: string
+          id: string
+          order_id: string
+          tracking_number: string | null
+        }
+        Insert: {
+          carrier: string
+          created_at?: string
+          created_by?: string | null
+          dispatched_at?: string
+          id?: string
+          order_id: string
+          tracking_number?: string | null
+        }
+        Update: {
+          carrier?: string
+          created_at?: string
+          created_by?: string | null
+          dispatched_at?: string
+          id?: string
+          order_id?: string
+          tracking_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_profiles: {
+        Row: {
+          created_at: string
+          free_over: number | null
+          id: string
+          method: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          free_over?: number | null
+          id?: string
+          method: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          free_over?: number | null
+          id?: string
+          method?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      shipping_rates: {
+        Row: {
+          additional_item: number
+          first_item: number
+          id: string
+          min_weight_grams: number
+          profile_id: string
+          region_id: string
+        }
+        Insert: {
+          additional_item?: number
+          first_item?: number
+          id?: string
+          min_weight_grams?: number
+          profile_id: string
+          region_id: string
+        }
+        Update: {
+          additional_item?: number
+          first_item?: number
+          id?: string
+          min_weight_grams?: number
+          profile_id?: string
+          region_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipping_rates_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipping_rates_region_id_fkey"
+            columns: ["region_id"]
+            isOneToOne: false
+            referencedRelation: "shipping_regions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shipping_regions: {
+        Row: {
+          countries: string[]
+          created_at: string
+          id: string
+          is_default: boolean
+          name: string
+          postcode_prefixes: string[]
+          sort_order: number
+          transit_days: number
+        }
+        Insert: {
+          countries?: string[]
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name: string
+          postcode_prefixes?: string[]
+          sort_order?: number
+          transit_days?: number
+        }
+        Update: {
+          countries?: string[]
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          name?: string
+          postcode_prefixes?: string[]
+          sort_order?: number
+          transit_days?: number
+        }
+        Relationships: []
+      }
+      stock_notifications: {
         Row: {
-          amount: number
-          created_at: string | null
-          currency: string | null
+          consent_text: string
+          consented_at: string
+          created_at: string
+          email: string
           id: string
-          order_id: string
-          payment_id: string | null
-          payment_method: string
-          paypal_details: Json | null
-          status: string
-          updated_at: string | null
+          notified_at: string | null
+          option_value: string | null
+          product_id: string
+          property_id: string | null
+          user_id: string | null
         }
         Insert: {
-          amount: number
-          created_at?: string | null
-          currency?: string | null
+          consent_text: string
+          consented_at?: string
+          created_at?: string
+          email: string
           id?: string
-          order_id: string
-          payment_id?: string | null
-          payment_method: string
-          paypal_details?: Json | null
-          status?: string
-          updated_at?: string | null
+          notified_at?: string | null
+          option_value?: string | null
+          product_id: string
+          property_id?: string | null
+          user_id?: string | null
         }
         Update: {
-          amount?: number
-          created_at?: string | null
-          currency?: string | null
+          consent_text?: string
+          consented_at?: string
+          created_at?: string
+          email?: string
           id?: string
-          order_id?: string
-          payment_id?: string | null
-          payment_method?: string
-          paypal_details?: Json | null
-          status?: string
-          updated_at?: string | null
+          notified_at?: string | null
+          option_value?: string | null
+          product_id?: string
+          property_id?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "payments_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "stock_notifications_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "products"
             referencedColumns: ["id"]
           },
         ]
       }
-      products: {
+      tax_rates: {
         Row: {
-          category: string
-          created_at: string | null
-          custom_properties: Json | null
-          delivery_charge: number | null
-          description: string
+          country: string
+          created_at: string
           id: string
-          image_url: string
-          is_available: boolean | null
           name: string
-          price: number
-          price_max: number | null
-          sort_order: number | null
-          stock_quantity: number | null
+          rate: number
+          tax_class: string
         }
         Insert: {
-          category: string
-          created_at?: string | null
-          custom_properties?: Json | null
-          delivery_charge?: number | null
-          description: string
+          country: string
+          created_at?: string
           id?: string
-          image_url: string
-          is_available?: boolean | null
-          name: string
-          price: number
-          price_max?: number | null
-          sort_order?: number | null
-          stock_quantity?: number | null
+          name?: string
+          rate: number
+          tax_class: string
         }
         Update: {
-          category?: string
-          created_at?: string | null
-          custom_properties?: Json | null
-          delivery_charge?: number | null
-          description?: string
+          country?: string
+          created_at?: string
           id?: string
-          image_url?: string
-          is_available?: boolean | null
           name?: string
-          price?: number
-          price_max?: number | null
-          sort_order?: number | null
-          stock_quantity?: number | null
+          rate?: number
+          tax_class?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tax_rates_country_fkey"
+            columns: ["country"]
+            isOneToOne: false
+            referencedRelation: "address_countries"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      tax_settings: {
+        Row: {
+          delivery_tax_class: string
+          id: boolean
+          prices_include_tax: boolean
+          updated_at: string
+        }
+        Insert: {
+          delivery_tax_class?: string
+          id?: boolean
+          prices_include_tax?: boolean
+          updated_at?: string
+        }
+        Update: {
+          delivery_tax_class?: string
+          id?: boolean
+          prices_include_tax?: boolean
+          updated_at?: string
         }
         Relationships: []
       }
@@ -860,6 +1880,63 @@ export type Database = {
         }
         Relationships: []
       }
+      wishlist_items: {
+        Row: {
+          created_at: string
+          product_id: string
+          wishlist_id: string
+        }
+        Insert: {
+          created_at?: string
+          product_id: string
+          wishlist_id: string
+        }
+        Update: {
+          created_at?: string
+          product_id?: string
+          wishlist_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlist_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wishlist_items_wishlist_id_fkey"
+            columns: ["wishlist_id"]
+            isOneToOne: false
+            referencedRelation: "wishlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wishlists: {
+        Row: {
+          created_at: string
+          id: string
+          share_token: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          share_token?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          share_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -1014,20 +2091,34 @@ export const Constants = {
 // ORDER SYSTEM INTERFACES
 // ========================================
 
-// Address interface for order shipping info
+// Address interface for order shipping info; country is an ISO 3166-1
+// alpha-2 code (see src/lib/addressConfig.ts)
 export interface OrderAddress {
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string;
+  postcode: string;
+  country: string;
+}
+
+// Address shape stored on orders before international addresses; read as UK
+export interface LegacyOrderAddress {
   address: string;
   city: string;
   postcode: string;
 }
 
+// How an order was paid; 'gift_card' orders were paid in full by gift card
+export type PaymentMethod = 'card' | 'paypal' | 'gift_card';
+
 // Base order type from database
 export type BaseOrder = Database['woolwitch']['Tables']['orders']['Row'];
 
 // Strongly typed order with proper address and status  
 export interface Order extends BaseOrder {
   status: 'pending' | 'paid' | 'shipped' | 'delivered' | 'cancelled';
-  payment_method: 'card' | 'paypal';
+  payment_method: PaymentMethod;
 }
 
 // Order with items for display purposes
@@ -1036,8 +2127,55 @@ export interface OrderWithItems extends Order {
   payments?: Payment[];
 }
 
+// Base order item type from database
+export type BaseOrderItem = Database['woolwitch']['Tables']['order_items']['Row'];
+
+// Custom property selection snapshotted onto an order item at purchase time
+export interface OrderItemSelection {
+  propertyId: string;
+  label: string;
+  value: string | number;
+}
+
 // Order item with product information
-export type OrderItem = Database['woolwitch']['Tables']['order_items']['Row'];
+export interface OrderItem extends Omit<BaseOrderItem, 'custom_selections'> {
+  custom_selections: OrderItemSelection[] | null;
+}
+
+// Entry in an order's status timeline (woolwitch_api.get_order_status_history)
+export interface OrderStatusHistoryEntry {
+  id: string;
+  order_id: string;
+  from_status: Order['status'] | null;
+  to_status: Order['status'];
+  note: string | null;
+  changed_by_admin: boolean;
+  created_at: string;
+}
+
+// Parcel sent for an order (woolwitch_api.get_order_shipments)
+export interface Shipment {
+  id: string;
+  order_id: string;
+  carrier: string;
+  tracking_number: string | null;
+  dispatched_at: string;
+  created_at: string;
+}
+
+// Parcel details entered when marking an order shipped
+export interface ShipmentInput {
+  carrier: string;
+  tracking_number: string;
+  dispatched_at: string;
+}
+
+// Signed, expiring token for viewing an order without signing in
+export interface GuestOrderAccess {
+  order_id: string;
+  access_token: string;
+  expires_at: string;
+}
 
 // Base payment type from database
 export type BasePayment = Database['woolwitch']['Tables']['payments']['Row'];
@@ -1045,10 +2183,67 @@ export type BasePayment = Database['woolwitch']['Tables']['payments']['Row'];
 // Payment record type
 export interface Payment extends BasePayment {
   status: 'pending' | 'completed' | 'failed' | 'refunded';
-  payment_method: 'card' | 'paypal';
+  payment_method: PaymentMethod;
+  currency: string;
+}
+
+// Refund issued against an order's payment (woolwitch_api.get_order_refunds)
+export interface Refund {
+  id: string;
+  order_id: string;
+  amount: number;
   currency: string;
+  reason: string | null;
+  status: 'pending' | 'succeeded' | 'failed';
+  failure_reason: string | null;
+  created_at: string;
+}
+
+// Email templates queued in woolwitch.email_outbox
+export type EmailTemplate =
+  | 'order_confirmation'
+  | 'payment_received'
+  | 'order_shipped'
+  | 'order_cancelled'
+  | 'commission_received'
+  | 'commission_quote'
+  | 'back_in_stock';
+
+// Queued email (woolwitch_api.get_email_outbox); commission and back in
+// stock emails have no order
+export interface EmailOutboxEntry {
+  id: string;
+  order_id: string | null;
+  order_number: string | null;
+  commission_request_id: string | null;
+  stock_notification_id: string | null;
+  product_name: string | null;
+  template: EmailTemplate;
+  recipient: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+// One attempt to deliver an outbox email (woolwitch_api.get_email_deliveries)
+export interface EmailDelivery {
+  id: string;
+  email_id: string;
+  attempt: number;
+  transport: string;
+  succeeded: boolean;
+  error: string | null;
+  created_at: string;
 }
 
+// Printable order documents rendered by the generate-invoice edge function
+export type OrderDocumentType = 'invoice' | 'packing_slip';
+export type OrderDocumentFormat = 'pdf' | 'html';
+
 // PayPal payment details structure
 export interface PayPalDetails {
   paypal_order_id?: string;
@@ -1075,6 +2270,7 @@ export interface CartItem {
   product: Product;
   quantity: number;
   customSelections?: CustomPropertySelection[];
+  commissionToken?: string;
 }
 
 // Order creation data interface
@@ -1083,16 +2279,325 @@ export interface CreateOrderData {
   fullName: string;
   address: OrderAddress;
   cartItems: CartItem[];
-  paymentMethod: 'card' | 'paypal';
+  paymentMethod: PaymentMethod;
   paymentId?: string; // For PayPal orders or Stripe payment intent ID
   paypalDetails?: PayPalDetails;
   stripeDetails?: StripeDetails;
+  idempotencyKey?: string; // One per checkout attempt; retries reuse it
+  shippingConfig?: ShippingConfig | null; // Rules the displayed delivery was priced with
+  taxConfig?: TaxConfig | null; // Rates the displayed tax was worked out with
+  currency?: CurrencyCode; // Currency the customer is paying in (base currency when omitted)
+  currencyConfig?: CurrencyConfig | null; // Exchange rates the displayed prices were converted with
+  discount?: DiscountCode | null; // Code the displayed discount was worked out with
+  giftCard?: AppliedGiftCard | null; // Card paying for all or part of the order
+  recipientName?: string; // Who the parcel is addressed to when it is not the customer
+  giftWrap?: boolean;
+  giftMessage?: string;
+  hidePrices?: boolean; // Leave prices out of the parcel
+  giftOptions?: GiftOptionsConfig | null; // Charge the displayed gift wrapping was priced with
+  quotedTotals?: QuotedTotals; // Server totals a provider payment was taken for
+}
+
+// Cart line that cannot be fulfilled from current stock
+export interface StockShortage {
+  productId: string;
+  productName: string;
+  option?: string; // e.g. "Colour: Blue" when a dropdown option ran short
+  requested: number;
+  available: number;
+}
+
+// Server-priced line returned by quote_order
+export interface OrderQuoteLine {
+  product_id: string;
+  product_name: string;
+  unit_price: number;
+  delivery_charge: number;
+  quantity: number;
+  custom_selections: OrderItemSelection[] | null;
+  tax_rate: number;
+  tax_amount: number;
+  discount_amount: number;
+}
+
+// Server-calculated totals for a cart (woolwitch_api.quote_order)
+export interface OrderQuote {
+  subtotal: number;
+  deliveryTotal: number;
+  giftWrapTotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  total: number;
+  pricesIncludeTax: boolean;
+  currency: CurrencyCode;
+  exchangeRate: number;
+  discountCode: string | null;
+  items: OrderQuoteLine[];
+}
+
+// Totals from quote_order that a payment was taken for; create_order is
+// sent these instead of the totals worked out in the browser
+export type QuotedTotals = Pick<OrderQuote, 'subtotal' | 'deliveryTotal' | 'total'>;
+
+// How a shipping profile charges its items (see woolwitch.calculate_shipping)
+export type ShippingMethod = 'flat' | 'per_item' | 'weight';
+
+// Delivery region covering whole countries, or only the UK outward codes
+// (KW15) and postcode areas (HS) in postcode_prefixes
+export interface ShippingRegion {
+  id: string;
+  name: string;
+  countries: string[];
+  postcode_prefixes: string[];
+  is_default: boolean;
+  sort_order: number;
+  /** Working days from dispatch to delivery, for delivery estimates */
+  transit_days: number;
+}
+
+// Price of a shipping profile in one region; weight profiles have one per band
+export interface ShippingRate {
+  region_id: string;
+  min_weight_grams: number;
+  first_item: number;
+  additional_item: number;
+}
+
+export interface ShippingProfile {
+  id: string;
+  name: string;
+  method: ShippingMethod;
+  free_over: number | null;
+  rates: ShippingRate[];
+}
+
+// Shipping rules for pricing delivery in the browser (woolwitch_api.get_shipping_config)
+export interface ShippingConfig {
+  regions: ShippingRegion[];
+  profiles: ShippingProfile[];
+}
+
+// Tax class a product (or delivery) is charged at (see woolwitch.tax_rates)
+export type TaxClass = 'standard' | 'reduced' | 'zero';
+
+// Percentage charged on one tax class in one destination country
+export interface TaxRate {
+  id: string;
+  country: string;
+  tax_class: TaxClass;
+  name: string;
+  rate: number;
+}
+
+// Tax rules for working out tax in the browser (woolwitch_api.get_tax_config)
+export interface TaxConfig {
+  prices_include_tax: boolean;
+  delivery_tax_class: TaxClass;
+  rates: TaxRate[];
+}
+
+// Gift wrapping offered at checkout (woolwitch_api.get_gift_options); the
+// charge is in the base currency
+export interface GiftOptionsConfig {
+  gift_wrap_enabled: boolean;
+  gift_wrap_charge: number;
+  gift_wrap_tax_class: TaxClass;
+}
+
+// Currencies prices can be shown and paid in (see src/lib/money.ts)
+export type CurrencyCode = 'GBP' | 'USD' | 'EUR';
+
+// Units of a currency per 1 unit of the base currency
+export interface ExchangeRate {
+  currency: CurrencyCode;
+  rate: number;
+  updated_at: string;
+}
+
+// Base currency and exchange rates (woolwitch_api.get_currency_config)
+export interface CurrencyConfig {
+  base_currency: CurrencyCode;
+  rates: ExchangeRate[];
+}
+
+// What a discount code takes off (see woolwitch.discount_codes)
+export type DiscountType = 'percentage' | 'fixed' | 'free_delivery';
+
+// A code the customer has applied (woolwitch_api.get_discount_code). Amounts
+// are in the base currency; empty product_ids and categories mean every product.
+export interface DiscountCode {
+  code: string;
+  description: string | null;
+  discount_type: DiscountType;
+  value: number;
+  min_spend: number | null;
+  product_ids: string[];
+  categories: string[];
+  expires_at: string | null;
+}
+
+// Discount code as managed by admins (woolwitch_api.get_discount_codes)
+export interface AdminDiscountCode extends DiscountCode {
+  id: string;
+  max_uses: number | null;
+  starts_at: string | null;
+  is_active: boolean;
+  times_used: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// A gift card the customer entered at checkout (woolwitch_api.get_gift_card).
+// The balance is in the card's currency; it only pays for orders in it.
+export interface GiftCard {
+  code: string;
+  balance: number;
+  currency: CurrencyCode;
+}
+
+// Gift card applied to an order, with the part of the total it pays
+export interface AppliedGiftCard extends GiftCard {
+  amount: number;
+}
+
+// Gift card bought on an order (woolwitch_api.get_order_gift_cards)
+export interface OrderGiftCard {
+  id: string;
+  code: string;
+  initial_value: number;
+  balance: number;
+  currency: CurrencyCode;
+  voided_at: string | null;
+  created_at: string;
+}
+
+// Gift card as looked up by admins (woolwitch_api.get_gift_cards)
+export interface AdminGiftCard extends OrderGiftCard {
+  order_id: string | null;
+  order_number: string | null;
+  recipient_email: string | null;
+  note: string | null;
+  void_reason: string | null;
+}
+
+// Entry in a gift card's balance ledger (woolwitch_api.get_gift_card_transactions)
+export interface GiftCardTransaction {
+  id: string;
+  kind: 'issue' | 'redeem' | 'refund' | 'void';
+  amount: number;
+  order_id: string | null;
+  order_number: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+// Address in a signed-in customer's address book (woolwitch_api.get_customer_addresses)
+export interface CustomerAddress {
+  id: string;
+  label: string | null;
+  full_name: string; // Who parcels to the address are addressed to
+  address: OrderAddress;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// ========================================
+// PRODUCT REVIEWS
+// ========================================
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+// An approved review as shown on the product page (woolwitch_api.get_product_reviews)
+export interface ProductReview {
+  id: string;
+  reviewer_name: string; // First name and last initial
+  rating: number; // 1-5 stars
+  body: string;
+  images: string[]; // Paths in the review-images bucket
+  verified_purchase: boolean;
+  created_at: string;
+}
+
+// The signed-in customer's own review (woolwitch_api.get_my_product_review)
+export interface MyProductReview {
+  can_review: boolean; // They have a delivered order containing the product
+  review: {
+    id: string;
+    rating: number;
+    body: string;
+    images: string[];
+    status: ReviewStatus;
+    created_at: string;
+  } | null;
+}
+
+// A review in the admin moderation queue (woolwitch_api.get_review_queue)
+export interface AdminProductReview {
+  id: string;
+  product_id: string;
+  product_name: string;
+  reviewer_name: string;
+  email: string | null;
+  order_number: string | null;
+  rating: number;
+  body: string;
+  images: string[];
+  status: ReviewStatus;
+  moderated_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ========================================
+// COMMISSIONS
+// ========================================
+
+export type CommissionStatus = 'new' | 'quoted' | 'accepted' | 'declined' | 'ordered' | 'closed';
+
+// A commission request and its quote as the customer sees it from the quote
+// link (woolwitch_api.get_commission_quote); prices are in the base currency
+export interface CommissionQuote {
+  id: string;
+  full_name: string;
+  description: string;
+  colours: string | null;
+  status: CommissionStatus;
+  quote_title: string | null;
+  quote_price: number | null;
+  quote_message: string | null;
+  quote_lead_time_days: number | null;
+  quoted_at: string | null;
+  quote_expires_at: string | null;
+  product_id: string | null; // The quoted piece, added to the cart on acceptance
+  order_number: string | null;
+  created_at: string;
+}
+
+// Commission request in the Admin inbox (woolwitch_api.get_commission_requests),
+// with the delivery settings of its quoted piece
+export interface AdminCommissionRequest extends CommissionQuote {
+  user_id: string | null;
+  email: string;
+  budget: string | null;
+  reference_images: string[]; // Paths in the commission-images storage bucket
+  accepted_at: string | null;
+  shipping_profile_id: string | null;
+  delivery_charge: number | null;
+  weight_grams: number | null;
+  image_url: string | null;
+  order_id: string | null;
+  access_token: string;
+  updated_at: string;
 }
 
 // Order summary for display
 export interface OrderSummary {
   subtotal: number;
   deliveryTotal: number;
+  giftWrapTotal: number;
+  discountTotal: number;
+  taxTotal: number;
   total: number;
   itemCount: number;
 }
@@ -1122,6 +2627,8 @@ export interface CustomPropertyDropdown extends CustomPropertyBase {
   options: string[];
   optionPrices?: Record<string, number>; // map of option label to absolute price
   optionImages?: Record<string, string>; // map of option label to image URL
+  optionLeadTimes?: Record<string, number>; // map of option label to lead time in working days
+  optionStock?: Record<string, number>; // map of option label to units in stock; options not in the map are not tracked
   defaultValue?: string;
 }
 
@@ -8,7 +8,8 @@
 declare global {
   interface Window {
     paypal?: PayPalNamespace;
-    loadPayPalSDK?: (clientId: string) => Promise<PayPalNamespace>;
+    paypalCurrency?: string;
+    loadPayPalSDK?: (clientId: string, currency?: string) => Promise<PayPalNamespace>;
   }
 }
 
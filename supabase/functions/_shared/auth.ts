@@ -0,0 +1,47 @@
+/**
+ * Caller checks for the edge functions. Roles are read with the caller's own
+ * token, the same way the app's AuthContext reads them.
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// A client that acts as the caller, so RLS and role checks apply to them
+export const getUserClient = (authHeader: string | null) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Sign in unavailable');
+  }
+
+  if (!authHeader) {
+    throw new Error('Missing authorization header');
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authHeader } },
+    db: { schema: 'woolwitch_api' }
+  });
+};
+
+export type UserClient = ReturnType<typeof getUserClient>;
+
+// Returns the caller's user id if they are an admin
+export const requireAdmin = async (userClient: UserClient): Promise<string> => {
+  const { data: { user }, error } = await userClient.auth.getUser();
+  if (error || !user) {
+    throw new Error('Not signed in');
+  }
+
+  const { data: role } = await userClient
+    .from('user_roles_view')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (role?.role !== 'admin') {
+    throw new Error('Admin access required');
+  }
+
+  return user.id;
+};
@@ -0,0 +1,35 @@
+/**
+ * CORS for the edge functions: only origins in ALLOWED_ORIGINS (comma
+ * separated) may call them, or the local dev server when it is not set.
+ */
+
+const getAllowedOrigins = (): string[] => {
+  const envOrigins = Deno.env.get('ALLOWED_ORIGINS');
+
+  if (envOrigins) {
+    return envOrigins.split(',').map(origin => origin.trim());
+  }
+
+  // Default allowed origins for development
+  return [
+    'http://localhost:5173',
+    'http://localhost:3000',
+    'http://127.0.0.1:5173',
+    'http://127.0.0.1:3000'
+  ];
+};
+
+// null when the origin is not allowed; the caller rejects the request
+export const getCorsHeaders = (origin: string | null): Record<string, string> | null => {
+  const allowedOrigins = getAllowedOrigins();
+
+  if (!origin || !allowedOrigins.includes(origin)) {
+    return null;
+  }
+
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  };
+};
@@ -0,0 +1,36 @@
+/**
+ * PayPal REST API access for the edge functions that look up and refund
+ * PayPal payments.
+ */
+
+// Live PayPal unless ENVIRONMENT=development, the same split as the client,
+// which uses the sandbox outside production builds. PAYPAL_API_BASE
+// overrides it.
+export const getPayPalApiBase = (): string => {
+  return Deno.env.get('PAYPAL_API_BASE')
+    ?? (Deno.env.get('ENVIRONMENT') === 'development' ? 'https://api-m.sandbox.paypal.com' : 'https://api-m.paypal.com');
+};
+
+export const getPayPalAccessToken = async (apiBase: string): Promise<string> => {
+  const clientId = Deno.env.get('PAYPAL_CLIENT_ID');
+  const clientSecret = Deno.env.get('PAYPAL_CLIENT_SECRET');
+  if (!clientId || !clientSecret) {
+    throw new Error('PayPal unavailable');
+  }
+
+  const response = await fetch(`${apiBase}/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: 'grant_type=client_credentials',
+  });
+
+  if (!response.ok) {
+    throw new Error('Unable to authenticate with PayPal');
+  }
+
+  const data = await response.json();
+  return data.access_token;
+};
@@ -0,0 +1,122 @@
+/**
+ * Commission Upload URL Edge Function
+ *
+ * Hands out a signed upload URL for a commission reference image. The
+ * commission-images bucket is private and has no customer upload policy, so
+ * this is the only way customers can add images to it.
+ *
+ * Security:
+ * - Upload paths are generated by woolwitch_api.reserve_commission_upload,
+ *   which rate limits per client address
+ * - Only JPEG, PNG, WebP and GIF images; the bucket enforces the size limit
+ * - submit_commission_request only accepts paths handed out here
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCorsHeaders } from '../_shared/cors.ts';
+
+const isDevelopment = () => Deno.env.get('ENVIRONMENT') === 'development';
+
+const COMMISSION_IMAGE_BUCKET = 'commission-images';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const getServiceClient = () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    throw new Error('Image uploads unavailable');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
+    db: { schema: 'woolwitch_api' }
+  });
+};
+
+// The edge proxy puts the original client first in x-forwarded-for
+const getClientIp = (req: Request): string | null => {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  return forwardedFor?.split(',')[0].trim() || null;
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Reject requests from non-whitelisted origins
+  if (!corsHeaders) {
+    return new Response(
+      JSON.stringify({ error: 'Origin not allowed' }),
+      {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { content_type } = await req.json();
+
+    const extension = typeof content_type === 'string' ? IMAGE_EXTENSIONS[content_type] : undefined;
+    if (!extension) {
+      throw new Error('Please choose a JPEG, PNG, WebP or GIF image');
+    }
+
+    const supabase = getServiceClient();
+
+    const { data: path, error: reserveError } = await supabase.rpc('reserve_commission_upload', {
+      p_extension: extension,
+      p_client_ip: getClientIp(req),
+    });
+
+    if (reserveError || !path) {
+      throw new Error(reserveError?.message ?? 'Unable to upload image');
+    }
+
+    const { data, error: signError } = await supabase.storage
+      .from(COMMISSION_IMAGE_BUCKET)
+      .createSignedUploadUrl(path);
+
+    if (signError || !data) {
+      throw new Error('Unable to upload image');
+    }
+
+    return new Response(
+      JSON.stringify({
+        path: data.path,
+        token: data.token,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    if (isDevelopment()) {
+      console.error('Error creating commission upload URL:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Unable to upload image'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
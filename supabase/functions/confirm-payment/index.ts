@@ -0,0 +1,242 @@
+/**
+ * Confirm Payment Edge Function
+ *
+ * Records a successful Stripe or PayPal payment against its order. The
+ * payment is looked up with the provider (status, amount and currency) and
+ * then recorded as completed by woolwitch_api.record_verified_payment, which
+ * also moves a pending order to paid. Calling it again for the same payment
+ * is harmless, so checkout can retry after a network failure.
+ *
+ * Security:
+ * - Checkout confirmations carry the idempotency key the order was created
+ *   with
+ * - Without the order's own key (linking an orphaned payment to an order)
+ *   the caller must be signed in as an admin
+ *
+ * Set PAYMENT_VERIFICATION=mock for local development to record payments
+ * without calling Stripe or PayPal.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getUserClient, requireAdmin } from '../_shared/auth.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { getPayPalAccessToken, getPayPalApiBase } from '../_shared/paypal.ts';
+
+const isDevelopment = () => Deno.env.get('ENVIRONMENT') === 'development';
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+const getServiceClient = (): ServiceClient => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    throw new Error('Payment confirmation unavailable');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
+    db: { schema: 'woolwitch_api' }
+  });
+};
+
+// Checkout confirms with the idempotency key its order was created with
+const isOrderIdempotencyKey = async (supabase: ServiceClient, orderId: string, idempotencyKey: unknown): Promise<boolean> => {
+  if (typeof idempotencyKey !== 'string' || !idempotencyKey) {
+    return false;
+  }
+
+  const { data: order } = await supabase
+    .schema('woolwitch')
+    .from('orders')
+    .select('idempotency_key')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  return order?.idempotency_key != null && order.idempotency_key === idempotencyKey;
+};
+
+interface VerifiedPayment {
+  paymentId: string;
+  amount: number;
+  currency: string;
+  details: Record<string, unknown>;
+}
+
+const verifyStripePayment = async (paymentIntentId: string): Promise<VerifiedPayment> => {
+  const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!stripeSecretKey) {
+    throw new Error('Payment confirmation unavailable');
+  }
+
+  const response = await fetch(`https://api.stripe.com/v1/payment_intents/${encodeURIComponent(paymentIntentId)}`, {
+    headers: { 'Authorization': `Bearer ${stripeSecretKey}` },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    if (isDevelopment()) {
+      console.error('Stripe lookup error:', data);
+    }
+    throw new Error(data.error?.message ?? 'Stripe payment not found');
+  }
+
+  if (data.status !== 'succeeded') {
+    throw new Error(`Stripe payment has not succeeded (status: ${data.status})`);
+  }
+
+  return {
+    paymentId: data.id,
+    amount: data.amount_received / 100,
+    currency: String(data.currency).toUpperCase(),
+    details: { payment_intent_id: data.id },
+  };
+};
+
+// Accepts a PayPal order id (what checkout stores) or a capture id (the
+// transaction id shown in the PayPal dashboard)
+const verifyPayPalPayment = async (paypalId: string): Promise<VerifiedPayment> => {
+  const apiBase = getPayPalApiBase();
+  const accessToken = await getPayPalAccessToken(apiBase);
+  const headers = { 'Authorization': `Bearer ${accessToken}` };
+
+  let orderId = paypalId;
+  let capture;
+
+  const orderResponse = await fetch(`${apiBase}/v2/checkout/orders/${encodeURIComponent(paypalId)}`, { headers });
+  if (orderResponse.ok) {
+    const order = await orderResponse.json();
+    capture = order.purchase_units?.[0]?.payments?.captures?.[0];
+  } else {
+    const captureResponse = await fetch(`${apiBase}/v2/payments/captures/${encodeURIComponent(paypalId)}`, { headers });
+    if (!captureResponse.ok) {
+      throw new Error('PayPal payment not found');
+    }
+    capture = await captureResponse.json();
+    orderId = capture.supplementary_data?.related_ids?.order_id ?? paypalId;
+  }
+
+  if (!capture || capture.status !== 'COMPLETED') {
+    throw new Error(`PayPal payment has not completed (status: ${capture?.status ?? 'not captured'})`);
+  }
+
+  return {
+    paymentId: orderId,
+    amount: Number(capture.amount.value),
+    currency: capture.amount.currency_code,
+    details: { transaction_id: orderId, capture_id: capture.id },
+  };
+};
+
+// Local development provider - trusts the amount and currency reported by
+// the client
+const verifyMockPayment = (paymentId: string, amount: unknown, currency: unknown): VerifiedPayment => {
+  if (typeof amount !== 'number') {
+    throw new Error('Amount is required for mock payment verification');
+  }
+
+  return {
+    paymentId,
+    amount,
+    currency: typeof currency === 'string' ? currency.toUpperCase() : 'GBP',
+    details: { mock: true }
+  };
+};
+
+const verifyPayment = (paymentMethod: string, paymentId: string, amount: unknown, currency: unknown): Promise<VerifiedPayment> | VerifiedPayment => {
+  if (Deno.env.get('PAYMENT_VERIFICATION') === 'mock') {
+    return verifyMockPayment(paymentId, amount, currency);
+  }
+
+  return paymentMethod === 'paypal'
+    ? verifyPayPalPayment(paymentId)
+    : verifyStripePayment(paymentId);
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Reject requests from non-whitelisted origins
+  if (!corsHeaders) {
+    return new Response(
+      JSON.stringify({ error: 'Origin not allowed' }),
+      {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { order_id, payment_method, payment_id, idempotency_key, amount, currency } = await req.json();
+
+    if (!order_id) {
+      throw new Error('Order id is required');
+    }
+
+    if (payment_method !== 'paypal' && payment_method !== 'card') {
+      throw new Error('Payment method must be paypal or card');
+    }
+
+    if (typeof payment_id !== 'string' || !payment_id.trim()) {
+      throw new Error('Payment id is required');
+    }
+
+    const supabase = getServiceClient();
+    const fromCheckout = await isOrderIdempotencyKey(supabase, order_id, idempotency_key);
+
+    if (!fromCheckout) {
+      await requireAdmin(getUserClient(req.headers.get('Authorization')));
+    }
+
+    const payment = await verifyPayment(payment_method, payment_id.trim(), amount, currency);
+
+    const { data, error } = await supabase.rpc('record_verified_payment', {
+      p_order_id: order_id,
+      p_payment_method: payment_method,
+      p_payment_id: payment.paymentId,
+      p_amount: payment.amount,
+      p_currency: payment.currency,
+      p_details: payment.details,
+      p_idempotency_key: fromCheckout ? idempotency_key : null,
+      p_note: fromCheckout ? null : 'Payment linked by admin',
+    });
+
+    if (error || !data || data.length === 0) {
+      throw new Error(error?.message ?? 'Unable to record payment');
+    }
+
+    return new Response(
+      JSON.stringify({
+        payment_id: data[0].payment_id,
+        order_status: data[0].order_status,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    if (isDevelopment()) {
+      console.error('Error confirming payment:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Payment confirmation failed'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -1,43 +1,113 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCorsHeaders } from '../_shared/cors.ts';
 
 // Payment amount limits
-const MAX_PAYMENT_AMOUNT = 100000000; // £1,000,000 in pence
-const MIN_PAYMENT_AMOUNT = 1; // £0.01 in pence
+const MAX_PAYMENT_AMOUNT = 100000000; // 1,000,000 in pence / cents
+const MIN_PAYMENT_AMOUNT = 1; // 0.01 in pence / cents
 
-// CORS headers - restrict to specific origins in production
-const getAllowedOrigins = (): string[] => {
-  // Get allowed origins from environment variable
-  const envOrigins = Deno.env.get('ALLOWED_ORIGINS');
-  
-  if (envOrigins) {
-    return envOrigins.split(',').map(origin => origin.trim());
+type ServiceClient = ReturnType<typeof createClient>;
+
+const getServiceClient = (): ServiceClient => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    throw new Error('Payment processing unavailable');
   }
-  
-  // Default allowed origins for development
-  return [
-    'http://localhost:5173',
-    'http://localhost:3000',
-    'http://127.0.0.1:5173',
-    'http://127.0.0.1:3000'
-  ];
+
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
+    db: { schema: 'woolwitch_api' }
+  });
 };
 
-const getCorsHeaders = (origin: string | null): Record<string, string> | null => {
-  const allowedOrigins = getAllowedOrigins();
-  
-  // Only allow requests from whitelisted origins
-  if (!origin || !allowedOrigins.includes(origin)) {
-    return null;
+// Amount (in pence, cents) and currency of a payment
+interface PaymentAmount {
+  amount: number;
+  currency: string;
+}
+
+// Amount left to pay for an existing order that has not been paid yet, after
+// any gift card payment, in the currency the order was placed in
+const getOrderAmount = async (supabase: ServiceClient, orderId: string): Promise<PaymentAmount> => {
+  const { data: order, error } = await supabase
+    .schema('woolwitch')
+    .from('orders')
+    .select('total, gift_card_total, currency, status')
+    .eq('id', orderId)
+    .single();
+
+  if (error || !order) {
+    throw new Error('Order not found');
   }
-  
+
+  if (order.status !== 'pending') {
+    throw new Error('Order has already been paid or cancelled');
+  }
+
+  return {
+    amount: Math.round((Number(order.total) - Number(order.gift_card_total)) * 100),
+    currency: String(order.currency)
+  };
+};
+
+// Amount for a cart, priced by woolwitch_api.quote_order in the chosen
+// currency. The address picks the shipping region delivery is charged for;
+// a discount code is checked and taken off, and gift wrapping charged, the
+// same way create_order does.
+const getCartAmount = async (
+  supabase: ServiceClient,
+  items: unknown[],
+  address: unknown,
+  currency: unknown,
+  discountCode: unknown,
+  giftWrap: unknown
+): Promise<PaymentAmount> => {
+  const { data, error } = await supabase.rpc('quote_order', {
+    p_order_items: items,
+    p_address: address ?? null,
+    p_currency: typeof currency === 'string' ? currency : null,
+    p_discount_code: typeof discountCode === 'string' ? discountCode : null,
+    p_gift_wrap: giftWrap === true
+  });
+
+  if (error || !data || data.length === 0) {
+    if (Deno.env.get('ENVIRONMENT') === 'development') {
+      console.error('Error pricing cart:', error);
+    }
+    throw new Error(error?.message ?? 'Unable to price cart');
+  }
+
   return {
-    'Access-Control-Allow-Origin': origin,
-    'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    amount: Math.round(Number(data[0].total) * 100),
+    currency: String(data[0].currency)
   };
 };
 
+// Part of a cart payment a gift card covers: its balance, up to the amount.
+// create_order takes the same amount from the card when the order is placed.
+const getGiftCardAmount = async (
+  supabase: ServiceClient,
+  giftCardCode: unknown,
+  payment: PaymentAmount
+): Promise<number> => {
+  if (typeof giftCardCode !== 'string' || !giftCardCode.trim()) return 0;
+
+  const { data, error } = await supabase.rpc('get_gift_card', {
+    p_code: giftCardCode
+  });
+
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Unable to check gift card');
+  }
+
+  if (data.currency !== payment.currency) {
+    throw new Error(`Gift card ${data.code} can only be used for orders in ${data.currency}`);
+  }
+
+  return Math.min(Math.round(Number(data.balance) * 100), payment.amount);
+};
+
 serve(async (req) => {
   const origin = req.headers.get('origin');
   const corsHeaders = getCorsHeaders(origin);
@@ -66,16 +136,15 @@ serve(async (req) => {
   }
 
   try {
-    const { amount, currency = 'gbp', customer_email, metadata } = await req.json();
+    const { order_id, items, address, currency: requestedCurrency, discount_code, gift_card_code, gift_wrap, customer_email, metadata } = await req.json();
 
-    // Validate required fields
-    if (!amount || !customer_email) {
-      throw new Error('Amount and customer email are required');
+    // Validate required fields - the amount is never taken from the client
+    if (!customer_email) {
+      throw new Error('Customer email is required');
     }
 
-    // Validate amount is positive and reasonable
-    if (amount < MIN_PAYMENT_AMOUNT || amount > MAX_PAYMENT_AMOUNT) {
-      throw new Error('Invalid payment amount');
+    if (!order_id && (!Array.isArray(items) || items.length === 0)) {
+      throw new Error('An order id or cart items are required');
     }
 
     // Validate email format
@@ -96,6 +165,21 @@ serve(async (req) => {
       throw new Error('Payment processing unavailable');
     }
 
+    // Price the payment on the server, less anything a gift card pays
+    const supabase = getServiceClient();
+    const payment = order_id
+      ? await getOrderAmount(supabase, order_id)
+      : await getCartAmount(supabase, items, address, requestedCurrency, discount_code, gift_wrap);
+    const currency = payment.currency;
+    const amount = order_id
+      ? payment.amount
+      : payment.amount - await getGiftCardAmount(supabase, gift_card_code, payment);
+
+    // Validate amount is positive and reasonable
+    if (amount < MIN_PAYMENT_AMOUNT || amount > MAX_PAYMENT_AMOUNT) {
+      throw new Error('Invalid payment amount');
+    }
+
     // Create payment intent with Stripe
     const stripeResponse = await fetch('https://api.stripe.com/v1/payment_intents', {
       method: 'POST',
@@ -105,10 +189,11 @@ serve(async (req) => {
       },
       body: new URLSearchParams({
         amount: amount.toString(),
-        currency,
+        currency: currency.toLowerCase(),
         receipt_email: customer_email,
         ...Object.fromEntries(
-          Object.entries(metadata || {}).map(([key, value]) => [`metadata[${key}]`, String(value)])
+          Object.entries({ ...(metadata || {}), ...(order_id ? { order_id } : {}) })
+            .map(([key, value]) => [`metadata[${key}]`, String(value)])
         ),
       }),
     });
@@ -128,6 +213,8 @@ serve(async (req) => {
       JSON.stringify({
         client_secret: paymentIntent.client_secret,
         payment_intent_id: paymentIntent.id,
+        amount,
+        currency,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -0,0 +1,272 @@
+/**
+ * Invoice and packing slip layout
+ *
+ * Builds a format-neutral document from woolwitch_api.get_order_invoice data
+ * and the shop details in the function environment. html.ts and pdf.ts
+ * render the same document, so the printed and downloaded copies match.
+ */
+
+export type DocumentType = 'invoice' | 'packing_slip';
+
+interface OrderItemSelection {
+  label: string;
+  value: string | number;
+}
+
+// Orders placed before international addresses have { address, city, postcode }
+interface OrderAddress {
+  line1?: string;
+  line2?: string;
+  address?: string;
+  city: string;
+  region?: string;
+  postcode?: string;
+  country?: string;
+}
+
+export interface InvoiceData {
+  invoice: {
+    invoice_number: number;
+    issued_at: string;
+  } | null;
+  order: {
+    id: string;
+    order_number: string;
+    email: string;
+    full_name: string;
+    recipient_name: string | null;
+    address: OrderAddress;
+    subtotal: number;
+    delivery_total: number;
+    gift_wrap_total: number;
+    discount_code: string | null;
+    discount_total: number;
+    gift_card_total: number;
+    tax_total: number;
+    total: number;
+    prices_include_tax: boolean;
+    currency: string;
+    refunded_total: number;
+    status: string;
+    payment_method: string;
+    gift_wrap: boolean;
+    gift_message: string | null;
+    created_at: string;
+  };
+  items: {
+    product_name: string;
+    product_price: number;
+    quantity: number;
+    delivery_charge: number;
+    tax_rate: number;
+    tax_amount: number;
+    discount_amount: number;
+    custom_selections: OrderItemSelection[] | null;
+  }[];
+  payments: {
+    payment_method: string;
+    amount: number;
+    currency: string;
+    status: string;
+    created_at: string;
+  }[];
+}
+
+export interface ShopDetails {
+  name: string;
+  addressLines: string[];
+  email: string | null;
+  vatNumber: string | null;
+}
+
+export interface DocumentColumn {
+  label: string;
+  align: 'left' | 'right';
+  /** Width in PDF points; the first column takes the remaining width */
+  width?: number;
+}
+
+export interface OrderDocument {
+  title: string;
+  fileName: string;
+  shop: ShopDetails;
+  meta: [string, string][];
+  addresses: { heading: string; lines: string[] }[];
+  columns: DocumentColumn[];
+  rows: string[][];
+  totals: [string, string][];
+  notes: string[];
+}
+
+// SHOP_ADDRESS lines are separated with '|', e.g. "1 High Street|Bath|BA1 1AA"
+export const getShopDetails = (): ShopDetails => ({
+  name: Deno.env.get('SHOP_NAME') || 'Wool Witch',
+  addressLines: (Deno.env.get('SHOP_ADDRESS') ?? '')
+    .split('|')
+    .map((line) => line.trim())
+    .filter(Boolean),
+  email: Deno.env.get('SHOP_EMAIL') || null,
+  vatNumber: Deno.env.get('SHOP_VAT_NUMBER') || null,
+});
+
+const formatCurrency = (amount: number, currency: string) => {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: currency || 'GBP'
+  }).format(Number(amount));
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+export const formatInvoiceNumber = (invoiceNumber: number) => {
+  const prefix = Deno.env.get('INVOICE_PREFIX') ?? 'INV-';
+  return `${prefix}${String(invoiceNumber).padStart(6, '0')}`;
+};
+
+const formatPaymentMethod = (method: string) => {
+  switch (method) {
+    case 'paypal':
+      return 'PayPal';
+    case 'gift_card':
+      return 'Gift card';
+    default:
+      return 'Card';
+  }
+};
+
+// Orders part paid by gift card name both ways they were paid
+const formatOrderPaymentMethod = (order: InvoiceData['order']) =>
+  order.gift_card_total > 0 && order.payment_method !== 'gift_card'
+    ? `${formatPaymentMethod(order.payment_method)} and gift card`
+    : formatPaymentMethod(order.payment_method);
+
+const describeItem = (item: InvoiceData['items'][number]) => {
+  const selections = (item.custom_selections ?? []).map((s) => `${s.label}: ${s.value}`).join(' · ');
+  return selections ? `${item.product_name} (${selections})` : item.product_name;
+};
+
+const countryNames = new Intl.DisplayNames(['en-GB'], { type: 'region' });
+
+const formatAddressLines = (address: OrderAddress) => {
+  const locality = [address.city, address.region, address.postcode].filter(Boolean).join(', ');
+  const country = address.country && address.country !== 'GB' ? countryNames.of(address.country) : undefined;
+  return [address.line1 ?? address.address, address.line2, locality, country].filter((line): line is string => Boolean(line));
+};
+
+const buildInvoice = (data: InvoiceData, shop: ShopDetails): OrderDocument => {
+  if (!data.invoice) {
+    throw new Error('An invoice is issued once the order has been paid');
+  }
+
+  const { order } = data;
+  const invoiceNumber = formatInvoiceNumber(data.invoice.invoice_number);
+
+  // Tax added on top of the prices is its own line; tax already in them is
+  // shown after the total
+  const totals: [string, string][] = [
+    ['Subtotal', formatCurrency(order.subtotal, order.currency)],
+    ['Delivery', formatCurrency(order.delivery_total, order.currency)],
+    ...(order.gift_wrap_total > 0 ? [['Gift wrap', formatCurrency(order.gift_wrap_total, order.currency)] as [string, string]] : []),
+    ...(order.discount_total > 0
+      ? [[order.discount_code ? `Discount (${order.discount_code})` : 'Discount', `-${formatCurrency(order.discount_total, order.currency)}`] as [string, string]]
+      : []),
+    ...(!order.prices_include_tax ? [['Tax', formatCurrency(order.tax_total, order.currency)] as [string, string]] : []),
+    ['Total', formatCurrency(order.total, order.currency)],
+    ...(order.prices_include_tax && order.tax_total > 0 ? [['Includes tax', formatCurrency(order.tax_total, order.currency)] as [string, string]] : []),
+    ...(order.gift_card_total > 0 ? [['Paid by gift card', formatCurrency(order.gift_card_total, order.currency)] as [string, string]] : []),
+  ];
+
+  if (order.refunded_total > 0) {
+    totals.push(['Refunded', `-${formatCurrency(order.refunded_total, order.currency)}`]);
+    totals.push(['Net paid', formatCurrency(order.total - order.refunded_total, order.currency)]);
+  }
+
+  const notes = data.payments.map((payment) =>
+    `Paid ${formatCurrency(payment.amount, payment.currency)} by ${formatPaymentMethod(payment.payment_method)} on ${formatDate(payment.created_at)}.`
+  );
+  if (shop.vatNumber) {
+    notes.push(`VAT registration number: ${shop.vatNumber}`);
+  }
+  notes.push(`Thank you for shopping with ${shop.name}.`);
+
+  return {
+    title: 'Invoice',
+    fileName: `invoice-${invoiceNumber}`,
+    shop,
+    meta: [
+      ['Invoice number', invoiceNumber],
+      ['Invoice date', formatDate(data.invoice.issued_at)],
+      ['Order number', order.order_number],
+      ['Order date', formatDate(order.created_at)],
+      ['Payment', formatOrderPaymentMethod(order)],
+    ],
+    // The only address taken at checkout is where the order is delivered,
+    // which for a gift is the recipient's, so the buyer is billed by name
+    addresses: [
+      { heading: 'Bill to', lines: [order.full_name, order.email] },
+      { heading: 'Ship to', lines: [order.recipient_name ?? order.full_name, ...formatAddressLines(order.address)] },
+    ],
+    columns: [
+      { label: 'Description', align: 'left' },
+      { label: 'Qty', align: 'right', width: 40 },
+      { label: 'Unit price', align: 'right', width: 70 },
+      { label: 'Delivery', align: 'right', width: 70 },
+      { label: 'Tax', align: 'right', width: 70 },
+      { label: 'Amount', align: 'right', width: 70 },
+    ],
+    // Tax is charged on the discounted amount, so each line's discount is shown
+    rows: data.items.map((item) => [
+      item.discount_amount > 0
+        ? `${describeItem(item)} - ${formatCurrency(item.discount_amount, order.currency)} discount`
+        : describeItem(item),
+      String(item.quantity),
+      formatCurrency(item.product_price, order.currency),
+      formatCurrency(item.delivery_charge * item.quantity, order.currency),
+      `${formatCurrency(item.tax_amount, order.currency)} (${Number(item.tax_rate)}%)`,
+      formatCurrency(item.product_price * item.quantity, order.currency),
+    ]),
+    totals,
+    notes,
+  };
+};
+
+// Packing slips go in the parcel, so they never show prices and carry any
+// gift message
+const buildPackingSlip = (data: InvoiceData, shop: ShopDetails): OrderDocument => {
+  const { order } = data;
+  const notes = order.gift_message ? [`Gift message: ${order.gift_message}`] : [];
+  notes.push(`Thank you for shopping with ${shop.name}.`);
+
+  return {
+    title: 'Packing Slip',
+    fileName: `packing-slip-${order.order_number}`,
+    shop,
+    meta: [
+      ['Order number', order.order_number],
+      ['Order date', formatDate(order.created_at)],
+      ...(data.invoice ? [['Invoice number', formatInvoiceNumber(data.invoice.invoice_number)] as [string, string]] : []),
+      ...(order.gift_wrap ? [['Gift wrap', 'Yes'] as [string, string]] : []),
+    ],
+    addresses: [
+      { heading: 'Ship to', lines: [order.recipient_name ?? order.full_name, ...formatAddressLines(order.address)] },
+    ],
+    columns: [
+      { label: 'Item', align: 'left' },
+      { label: 'Qty', align: 'right', width: 40 },
+      { label: 'Packed', align: 'right', width: 60 },
+    ],
+    rows: data.items.map((item) => [describeItem(item), String(item.quantity), '']),
+    totals: [],
+    notes,
+  };
+};
+
+export const buildOrderDocument = (type: DocumentType, data: InvoiceData, shop: ShopDetails): OrderDocument => {
+  return type === 'invoice' ? buildInvoice(data, shop) : buildPackingSlip(data, shop);
+};
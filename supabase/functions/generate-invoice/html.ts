@@ -0,0 +1,84 @@
+/**
+ * Print-friendly HTML rendering of an order document
+ */
+
+import type { OrderDocument } from './document.ts';
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const lines = (values: string[]) => values.map(escapeHtml).join('<br>');
+
+export const renderHtml = (doc: OrderDocument): string => {
+  const shopLines = [
+    ...doc.shop.addressLines,
+    ...(doc.shop.email ? [doc.shop.email] : []),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(`${doc.title} - ${doc.meta[0][1]}`)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111827; font-size: 13px; max-width: 800px; margin: 0 auto; padding: 32px; }
+    header { display: flex; justify-content: space-between; margin-bottom: 32px; }
+    h1 { font-size: 24px; margin: 0 0 8px; }
+    h2 { font-size: 20px; margin: 0 0 8px; text-align: right; color: #e11d48; }
+    .meta { text-align: right; }
+    .meta span { color: #6b7280; }
+    .addresses { display: flex; gap: 48px; margin-bottom: 32px; }
+    .addresses h3 { font-size: 13px; margin: 0 0 4px; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 24px; }
+    th { text-align: left; border-bottom: 2px solid #111827; padding: 6px 4px; }
+    td { border-bottom: 1px solid #e5e7eb; padding: 6px 4px; vertical-align: top; }
+    .right { text-align: right; }
+    .totals { margin-left: auto; width: 280px; }
+    .totals td { border: none; padding: 3px 4px; }
+    .totals tr:last-child td { font-weight: bold; border-top: 1px solid #111827; }
+    .notes { color: #4b5563; }
+    .print { margin-bottom: 24px; padding: 8px 16px; background: #e11d48; color: #fff; border: none; border-radius: 6px; cursor: pointer; }
+    @media print {
+      .print { display: none; }
+      body { padding: 0; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">Print</button>
+  <header>
+    <div>
+      <h1>${escapeHtml(doc.shop.name)}</h1>
+      <div>${lines(shopLines)}</div>
+    </div>
+    <div class="meta">
+      <h2>${escapeHtml(doc.title)}</h2>
+      ${doc.meta.map(([label, value]) => `<div><span>${escapeHtml(label)}:</span> ${escapeHtml(value)}</div>`).join('\n      ')}
+    </div>
+  </header>
+  <section class="addresses">
+    ${doc.addresses.map((address) => `<div><h3>${escapeHtml(address.heading)}</h3>${lines(address.lines)}</div>`).join('\n    ')}
+  </section>
+  <table>
+    <thead>
+      <tr>${doc.columns.map((column) => `<th class="${column.align}">${escapeHtml(column.label)}</th>`).join('')}</tr>
+    </thead>
+    <tbody>
+      ${doc.rows.map((row) => `<tr>${row.map((cell, i) => `<td class="${doc.columns[i].align}">${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n      ')}
+    </tbody>
+  </table>
+  ${doc.totals.length > 0 ? `<table class="totals">
+    ${doc.totals.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td class="right">${escapeHtml(value)}</td></tr>`).join('\n    ')}
+  </table>` : ''}
+  <div class="notes">
+    ${doc.notes.map((note) => `<p>${escapeHtml(note)}</p>`).join('\n    ')}
+  </div>
+</body>
+</html>`;
+};
@@ -0,0 +1,106 @@
+/**
+ * Generate Invoice Edge Function
+ *
+ * Renders an order's invoice/receipt, or an admin packing slip, as a PDF
+ * download or a print-friendly HTML page. Invoice numbers are issued by the
+ * database when an order is paid; shop details come from SHOP_NAME,
+ * SHOP_ADDRESS, SHOP_EMAIL and SHOP_VAT_NUMBER.
+ *
+ * Security:
+ * - Order data is read with the caller's own token, so customers only see
+ *   their own orders (woolwitch_api.get_order_invoice checks access)
+ * - Packing slips are admin only
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { getUserClient, requireAdmin } from '../_shared/auth.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { buildOrderDocument, getShopDetails, type DocumentType, type InvoiceData } from './document.ts';
+import { renderHtml } from './html.ts';
+import { renderPdf } from './pdf.ts';
+
+const isDevelopment = () => Deno.env.get('ENVIRONMENT') === 'development';
+
+const DOCUMENT_TYPES: DocumentType[] = ['invoice', 'packing_slip'];
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Reject requests from non-whitelisted origins
+  if (!corsHeaders) {
+    return new Response(
+      JSON.stringify({ error: 'Origin not allowed' }),
+      {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { order_id, document = 'invoice', format = 'pdf' } = await req.json();
+
+    if (!order_id) {
+      throw new Error('Order id is required');
+    }
+
+    if (!DOCUMENT_TYPES.includes(document)) {
+      throw new Error('Unknown document type');
+    }
+
+    if (format !== 'pdf' && format !== 'html') {
+      throw new Error('Format must be pdf or html');
+    }
+
+    const userClient = getUserClient(req.headers.get('Authorization'));
+
+    if (document === 'packing_slip') {
+      await requireAdmin(userClient);
+    }
+
+    const { data, error } = await userClient.rpc('get_order_invoice', { p_order_id: order_id });
+    if (error || !data) {
+      throw new Error(error?.message ?? 'Order not found');
+    }
+
+    const orderDocument = buildOrderDocument(document, data as InvoiceData, getShopDetails());
+
+    if (format === 'html') {
+      return new Response(renderHtml(orderDocument), {
+        headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' },
+        status: 200,
+      });
+    }
+
+    // supabase-js only hands binary bodies back as a Blob for octet-stream
+    return new Response(await renderPdf(orderDocument), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${orderDocument.fileName}.pdf"`,
+      },
+      status: 200,
+    });
+
+  } catch (error) {
+    if (isDevelopment()) {
+      console.error('Error generating invoice:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Failed to generate invoice'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,187 @@
+/**
+ * PDF rendering of an order document (A4, standard Helvetica fonts)
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'https://esm.sh/pdf-lib@1.17.1';
+import type { OrderDocument } from './document.ts';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COLUMN_GAP = 8;
+
+const TEXT_COLOR = rgb(0.07, 0.09, 0.15);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const ACCENT_COLOR = rgb(0.88, 0.11, 0.28);
+const RULE_COLOR = rgb(0.9, 0.91, 0.92);
+
+// The standard fonts only cover WinAnsi, so anything else (emoji, most
+// non-Latin scripts) is replaced rather than failing the whole document
+const toWinAnsi = (value: string) => {
+  return value
+    .replace(/\s+/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF€–—‘’“”•]/g, '?');
+};
+
+const wrapText = (value: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const words = toWinAnsi(value).split(' ');
+  const result: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      result.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+
+  if (line) result.push(line);
+  return result.length > 0 ? result : [''];
+};
+
+export const renderPdf = async (doc: OrderDocument): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${doc.title} ${doc.meta[0][1]}`);
+  pdf.setAuthor(doc.shop.name);
+
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) newPage();
+  };
+
+  const drawText = (value: string, x: number, size: number, options: { font?: PDFFont; color?: typeof TEXT_COLOR; align?: 'left' | 'right' } = {}) => {
+    const textFont = options.font ?? font;
+    const text = toWinAnsi(value);
+    const left = options.align === 'right' ? x - textFont.widthOfTextAtSize(text, size) : x;
+    page.drawText(text, { x: left, y, size, font: textFont, color: options.color ?? TEXT_COLOR });
+  };
+
+  const drawRule = (thickness = 0.5, color = RULE_COLOR) => {
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness,
+      color,
+    });
+  };
+
+  // Header: shop on the left, document title and details on the right
+  const right = PAGE_WIDTH - MARGIN;
+  drawText(doc.shop.name, MARGIN, 20, { font: bold });
+  drawText(doc.title, right, 18, { font: bold, color: ACCENT_COLOR, align: 'right' });
+  y -= 22;
+
+  const shopLines = [...doc.shop.addressLines, ...(doc.shop.email ? [doc.shop.email] : [])];
+  const headerRows = Math.max(shopLines.length, doc.meta.length);
+  for (let i = 0; i < headerRows; i++) {
+    if (shopLines[i]) drawText(shopLines[i], MARGIN, 9, { color: MUTED_COLOR });
+    if (doc.meta[i]) {
+      const [label, value] = doc.meta[i];
+      drawText(value, right, 9, { font: bold, align: 'right' });
+      drawText(`${label}:`, right - bold.widthOfTextAtSize(toWinAnsi(value), 9) - 4, 9, { color: MUTED_COLOR, align: 'right' });
+    }
+    y -= 13;
+  }
+  y -= 20;
+
+  // Addresses side by side
+  const addressWidth = CONTENT_WIDTH / Math.max(doc.addresses.length, 2);
+  const addressTop = y;
+  let addressBottom = y;
+  doc.addresses.forEach((address, index) => {
+    const x = MARGIN + index * addressWidth;
+    y = addressTop;
+    drawText(address.heading, x, 10, { font: bold });
+    y -= 14;
+    for (const line of address.lines) {
+      for (const wrapped of wrapText(line, font, 10, addressWidth - COLUMN_GAP)) {
+        drawText(wrapped, x, 10);
+        y -= 13;
+      }
+    }
+    addressBottom = Math.min(addressBottom, y);
+  });
+  y = addressBottom - 20;
+
+  // Line items
+  const fixedWidth = doc.columns.slice(1).reduce((sum, column) => sum + (column.width ?? 70), 0);
+  const widths = doc.columns.map((column, index) => (index === 0 ? CONTENT_WIDTH - fixedWidth : column.width ?? 70));
+  const columnRight = (index: number) => MARGIN + widths.slice(0, index + 1).reduce((sum, width) => sum + width, 0);
+
+  const drawTableHeader = () => {
+    doc.columns.forEach((column, index) => {
+      const x = column.align === 'right' ? columnRight(index) : columnRight(index) - widths[index];
+      drawText(column.label, x, 9, { font: bold, align: column.align });
+    });
+    y -= 6;
+    drawRule(1, TEXT_COLOR);
+    y -= 14;
+  };
+
+  ensureSpace(40);
+  drawTableHeader();
+
+  for (const row of doc.rows) {
+    const cells = row.map((cell, index) => wrapText(cell, font, 9, widths[index] - COLUMN_GAP));
+    const rowHeight = Math.max(...cells.map((cell) => cell.length)) * 12;
+
+    // Repeat the column headings when a row spills onto a new page
+    if (y - rowHeight < MARGIN) {
+      newPage();
+      drawTableHeader();
+    }
+
+    const rowTop = y;
+    cells.forEach((cell, index) => {
+      const column = doc.columns[index];
+      const x = column.align === 'right' ? columnRight(index) : columnRight(index) - widths[index];
+      y = rowTop;
+      for (const line of cell) {
+        drawText(line, x, 9, { align: column.align });
+        y -= 12;
+      }
+    });
+    y = rowTop - rowHeight + 6;
+    drawRule();
+    y -= 14;
+  }
+
+  // Totals
+  if (doc.totals.length > 0) {
+    ensureSpace(doc.totals.length * 14 + 10);
+    y -= 4;
+    doc.totals.forEach(([label, value], index) => {
+      const isLast = index === doc.totals.length - 1;
+      drawText(label, right - 170, 10, { font: isLast ? bold : font });
+      drawText(value, right, 10, { font: isLast ? bold : font, align: 'right' });
+      y -= 14;
+    });
+    y -= 10;
+  }
+
+  // Notes
+  for (const note of doc.notes) {
+    for (const line of wrapText(note, font, 9, CONTENT_WIDTH)) {
+      ensureSpace(12);
+      drawText(line, MARGIN, 9, { color: MUTED_COLOR });
+      y -= 12;
+    }
+    y -= 4;
+  }
+
+  return await pdf.save();
+};
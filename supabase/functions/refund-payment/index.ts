@@ -0,0 +1,256 @@
+/**
+ * Refund Payment Edge Function
+ *
+ * Issues a full or partial refund for an order's captured payment through
+ * Stripe (refunds API) or PayPal (capture refund).
+ *
+ * Security:
+ * - Caller must be signed in as an admin (checked against woolwitch.user_roles)
+ * - Refundable balance is enforced by woolwitch_api.begin_refund
+ *
+ * Each call refunds one payment. An order part paid by gift card has two:
+ * the provider payment is refunded first, then the gift card, so refunding
+ * more than is left on the provider payment takes two calls (a call with no
+ * amount refunds what is left on the current payment).
+ *
+ * Set REFUND_PROVIDER=mock for local development to record refunds without
+ * calling Stripe or PayPal.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getUserClient, requireAdmin } from '../_shared/auth.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { getPayPalAccessToken, getPayPalApiBase } from '../_shared/paypal.ts';
+
+const isDevelopment = () => Deno.env.get('ENVIRONMENT') === 'development';
+
+type ServiceClient = ReturnType<typeof createClient>;
+
+const getServiceClient = (): ServiceClient => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    throw new Error('Refund processing unavailable');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
+    db: { schema: 'woolwitch_api' }
+  });
+};
+
+interface PendingRefund {
+  refund_id: string;
+  amount: number;
+  currency: string;
+  payment_method: string;
+  provider_payment_id: string | null;
+  capture_id: string | null;
+}
+
+interface ProviderResult {
+  succeeded: boolean;
+  providerRefundId?: string;
+  failureReason?: string;
+}
+
+const refundWithStripe = async (refund: PendingRefund, orderId: string): Promise<ProviderResult> => {
+  const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!stripeSecretKey) {
+    throw new Error('Refund processing unavailable');
+  }
+
+  if (!refund.provider_payment_id) {
+    return { succeeded: false, failureReason: 'Payment has no Stripe payment intent' };
+  }
+
+  const response = await fetch('https://api.stripe.com/v1/refunds', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      // Retries of the same refund record never refund twice
+      'Idempotency-Key': refund.refund_id,
+    },
+    body: new URLSearchParams({
+      payment_intent: refund.provider_payment_id,
+      amount: Math.round(Number(refund.amount) * 100).toString(),
+      'metadata[order_id]': orderId,
+      'metadata[refund_id]': refund.refund_id,
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || data.status === 'failed' || data.status === 'canceled') {
+    if (isDevelopment()) {
+      console.error('Stripe refund error:', data);
+    }
+    return { succeeded: false, failureReason: data.error?.message ?? data.failure_reason ?? 'Stripe refund failed' };
+  }
+
+  return { succeeded: true, providerRefundId: data.id };
+};
+
+const refundWithPayPal = async (refund: PendingRefund): Promise<ProviderResult> => {
+  if (!refund.capture_id) {
+    return { succeeded: false, failureReason: 'Payment has no PayPal capture id' };
+  }
+
+  const apiBase = getPayPalApiBase();
+  const accessToken = await getPayPalAccessToken(apiBase);
+
+  const response = await fetch(`${apiBase}/v2/payments/captures/${encodeURIComponent(refund.capture_id)}/refund`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'PayPal-Request-Id': refund.refund_id,
+    },
+    body: JSON.stringify({
+      amount: {
+        value: Number(refund.amount).toFixed(2),
+        currency_code: refund.currency,
+      },
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || data.status === 'FAILED' || data.status === 'CANCELLED') {
+    if (isDevelopment()) {
+      console.error('PayPal refund error:', data);
+    }
+    return { succeeded: false, failureReason: data.message ?? data.status_details?.reason ?? 'PayPal refund failed' };
+  }
+
+  return { succeeded: true, providerRefundId: data.id };
+};
+
+// Local development provider - always succeeds without contacting Stripe or PayPal
+const refundWithMock = (refund: PendingRefund): ProviderResult => {
+  return { succeeded: true, providerRefundId: `mock_${refund.refund_id}` };
+};
+
+// Gift card payments have no provider - complete_refund puts the amount back on the card
+const refundToGiftCard = (refund: PendingRefund): ProviderResult => {
+  return { succeeded: true, providerRefundId: `gift_card_${refund.refund_id}` };
+};
+
+const issueRefund = async (refund: PendingRefund, orderId: string): Promise<ProviderResult> => {
+  if (refund.payment_method === 'gift_card') {
+    return refundToGiftCard(refund);
+  }
+
+  if (Deno.env.get('REFUND_PROVIDER') === 'mock') {
+    return refundWithMock(refund);
+  }
+
+  return refund.payment_method === 'paypal'
+    ? refundWithPayPal(refund)
+    : refundWithStripe(refund, orderId);
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Reject requests from non-whitelisted origins
+  if (!corsHeaders) {
+    return new Response(
+      JSON.stringify({ error: 'Origin not allowed' }),
+      {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { order_id, amount, reason } = await req.json();
+
+    if (!order_id) {
+      throw new Error('Order id is required');
+    }
+
+    if (amount !== undefined && amount !== null && (typeof amount !== 'number' || !(amount > 0))) {
+      throw new Error('Refund amount must be a positive number');
+    }
+
+    const adminId = await requireAdmin(getUserClient(req.headers.get('Authorization')));
+    const supabase = getServiceClient();
+
+    // Record the pending refund (validates the refundable balance)
+    const { data, error: beginError } = await supabase.rpc('begin_refund', {
+      p_order_id: order_id,
+      p_amount: amount ?? null,
+      p_reason: reason ?? null,
+      p_requested_by: adminId,
+    });
+
+    if (beginError || !data || data.length === 0) {
+      throw new Error(beginError?.message ?? 'Unable to start refund');
+    }
+
+    const refund = data[0] as PendingRefund;
+
+    let result: ProviderResult;
+    try {
+      result = await issueRefund(refund, order_id);
+    } catch (error) {
+      result = { succeeded: false, failureReason: error instanceof Error ? error.message : 'Refund failed' };
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_refund', {
+      p_refund_id: refund.refund_id,
+      p_succeeded: result.succeeded,
+      p_provider_refund_id: result.providerRefundId ?? null,
+      p_failure_reason: result.failureReason ?? null,
+    });
+
+    if (completeError) {
+      // The provider call has already happened; the refund stays pending for manual review
+      console.error(`Failed to record refund ${refund.refund_id}:`, completeError);
+      throw new Error(result.succeeded
+        ? 'Refund was issued but could not be recorded'
+        : 'Refund failed and could not be recorded');
+    }
+
+    if (!result.succeeded) {
+      throw new Error(result.failureReason ?? 'Refund failed');
+    }
+
+    return new Response(
+      JSON.stringify({
+        refund_id: refund.refund_id,
+        amount: Number(refund.amount),
+        status: 'succeeded',
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    if (isDevelopment()) {
+      console.error('Error processing refund:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Refund failed'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
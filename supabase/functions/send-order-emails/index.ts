@@ -0,0 +1,221 @@
+/**
+ * Send Order Emails Edge Function
+ *
+ * Drains the woolwitch.email_outbox queue: renders order confirmation,
+ * payment received, shipped and cancelled emails from the order data,
+ * commission request and quote emails from the request, and back in stock
+ * emails from the stock notification request, and delivers them through
+ * the configured transport (see transports.ts).
+ * Failed sends are retried with exponential backoff by
+ * woolwitch_api.record_email_delivery, and every attempt is logged for the
+ * Admin email log.
+ *
+ * This function should be scheduled to run every minute via Supabase Cron.
+ * Admins can also trigger a run from the Admin email log.
+ *
+ * Security:
+ * - Requires the service_role key (scheduled runs) or an admin session
+ * - No customer access - emails are queued by database trigger only
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getUserClient, requireAdmin } from '../_shared/auth.ts';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import {
+  renderOrderEmail,
+  renderCommissionEmail,
+  renderStockNotificationEmail,
+  type EmailTemplate,
+  type OrderEmailTemplate,
+  type CommissionEmailTemplate,
+  type OrderEmailData,
+  type CommissionEmailData,
+  type StockNotificationEmailData,
+} from './templates.ts';
+import { createTransport } from './transports.ts';
+
+const isDevelopment = () => Deno.env.get('ENVIRONMENT') === 'development';
+
+const getServiceClient = () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    throw new Error('Email delivery unavailable');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
+    db: { schema: 'woolwitch_api' }
+  });
+};
+
+// Scheduled runs authenticate with the service role key; anyone else must be
+// signed in as an admin.
+const requireServiceRoleOrAdmin = async (authHeader: string | null): Promise<void> => {
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (supabaseServiceRoleKey && authHeader === `Bearer ${supabaseServiceRoleKey}`) {
+    return;
+  }
+
+  await requireAdmin(getUserClient(authHeader));
+};
+
+interface ClaimedEmail {
+  email_id: string;
+  template: EmailTemplate;
+  recipient: string;
+  attempt: number;
+  order_data: OrderEmailData | null;
+  commission_data: CommissionEmailData | null;
+  stock_notification_data: StockNotificationEmailData | null;
+}
+
+interface SendResult {
+  claimed: number;
+  sent: number;
+  failed: number;
+}
+
+// The shop is copied on new orders, payments, cancellations and commission requests
+const SHOP_COPY_TEMPLATES: EmailTemplate[] = ['order_confirmation', 'payment_received', 'order_cancelled', 'commission_received'];
+
+const COMMISSION_TEMPLATES: EmailTemplate[] = ['commission_received', 'commission_quote'];
+
+const sendDueEmails = async (limit: number): Promise<SendResult> => {
+  const supabase = getServiceClient();
+  // Fail on bad transport configuration before any emails are claimed
+  const transport = createTransport();
+
+  const { data, error } = await supabase.rpc('claim_order_emails', { p_limit: limit });
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const emails = (data ?? []) as ClaimedEmail[];
+  const result: SendResult = { claimed: emails.length, sent: 0, failed: 0 };
+
+  if (emails.length === 0) {
+    return result;
+  }
+
+  const from = Deno.env.get('EMAIL_FROM') || 'Wool Witch <orders@woolwitch.local>';
+  const shopEmail = Deno.env.get('SHOP_NOTIFICATION_EMAIL') || undefined;
+  const siteUrl = Deno.env.get('SITE_URL') || 'http://localhost:5173';
+
+  try {
+    for (const email of emails) {
+      let deliveryError: string | null = null;
+
+      try {
+        let rendered;
+        if (email.template === 'back_in_stock') {
+          if (!email.stock_notification_data) {
+            throw new Error('Product no longer exists');
+          }
+          rendered = renderStockNotificationEmail(email.stock_notification_data, siteUrl);
+        } else if (COMMISSION_TEMPLATES.includes(email.template)) {
+          if (!email.commission_data) {
+            throw new Error('Commission request no longer exists');
+          }
+          rendered = renderCommissionEmail(email.template as CommissionEmailTemplate, email.commission_data, siteUrl);
+        } else {
+          if (!email.order_data) {
+            throw new Error('Order no longer exists');
+          }
+          rendered = renderOrderEmail(email.template as OrderEmailTemplate, email.order_data, siteUrl);
+        }
+
+        await transport.send({
+          from,
+          to: email.recipient,
+          bcc: shopEmail && SHOP_COPY_TEMPLATES.includes(email.template) ? shopEmail : undefined,
+          ...rendered,
+        });
+      } catch (sendError) {
+        deliveryError = sendError instanceof Error ? sendError.message : 'Email delivery failed';
+        if (isDevelopment()) {
+          console.error(`Failed to send ${email.template} email ${email.email_id}:`, sendError);
+        }
+      }
+
+      const { error: recordError } = await supabase.rpc('record_email_delivery', {
+        p_email_id: email.email_id,
+        p_succeeded: deliveryError === null,
+        p_transport: transport.name,
+        p_error: deliveryError,
+      });
+
+      if (recordError) {
+        // The email stays 'sending' and is reclaimed after the stale timeout
+        console.error(`Failed to record delivery of email ${email.email_id}:`, recordError);
+      }
+
+      if (deliveryError === null) {
+        result.sent++;
+      } else {
+        result.failed++;
+      }
+    }
+  } finally {
+    await transport.close();
+  }
+
+  return result;
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Scheduled runs send no Origin; browser requests must come from a whitelisted one
+  if (origin && !corsHeaders) {
+    return new Response(
+      JSON.stringify({ error: 'Origin not allowed' }),
+      {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders ?? {} });
+  }
+
+  try {
+    await requireServiceRoleOrAdmin(req.headers.get('Authorization'));
+
+    const body = await req.json().catch(() => ({}));
+    const limit = typeof body.limit === 'number' && body.limit > 0 ? Math.min(body.limit, 100) : 20;
+
+    const result = await sendDueEmails(limit);
+
+    console.log(`Order emails: ${result.claimed} claimed, ${result.sent} sent, ${result.failed} failed`);
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    if (isDevelopment()) {
+      console.error('Error sending order emails:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Email delivery failed'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,433 @@
+/**
+ * Order email templates
+ *
+ * Renders each outbox template to a subject plus plain text and HTML bodies
+ * from the data returned by woolwitch_api.claim_order_emails. Commission
+ * request emails are rendered from the request instead of an order, and
+ * back in stock emails from the customer's stock notification request.
+ */
+
+export type OrderEmailTemplate =
+  | 'order_confirmation'
+  | 'payment_received'
+  | 'order_shipped'
+  | 'order_cancelled';
+
+export type CommissionEmailTemplate =
+  | 'commission_received'
+  | 'commission_quote';
+
+export type EmailTemplate = OrderEmailTemplate | CommissionEmailTemplate | 'back_in_stock';
+
+interface OrderItemSelection {
+  label: string;
+  value: string | number;
+}
+
+// Orders placed before international addresses have { address, city, postcode }
+interface OrderAddress {
+  line1?: string;
+  line2?: string;
+  address?: string;
+  city: string;
+  region?: string;
+  postcode?: string;
+  country?: string;
+}
+
+export interface OrderEmailData {
+  order: {
+    id: string;
+    order_number: string;
+    email: string;
+    full_name: string;
+    address: OrderAddress;
+    subtotal: number;
+    delivery_total: number;
+    gift_wrap_total: number;
+    discount_code: string | null;
+    discount_total: number;
+    gift_card_total: number;
+    tax_total: number;
+    total: number;
+    prices_include_tax: boolean;
+    currency: string;
+    refunded_total: number;
+    status: string;
+    payment_method: string;
+    dispatch_by: string | null;
+    estimated_delivery: string | null;
+    created_at: string;
+  };
+  items: {
+    product_name: string;
+    product_price: number;
+    quantity: number;
+    custom_selections: OrderItemSelection[] | null;
+  }[];
+  shipments: {
+    carrier: string;
+    tracking_number: string | null;
+    dispatched_at: string;
+  }[];
+  gift_cards: {
+    code: string;
+    initial_value: number;
+    currency: string;
+  }[];
+}
+
+export interface CommissionEmailData {
+  id: string;
+  email: string;
+  full_name: string;
+  description: string;
+  status: string;
+  quote_title: string | null;
+  quote_price: number | null;
+  quote_message: string | null;
+  quote_lead_time_days: number | null;
+  quote_expires_at: string | null;
+  currency: string;
+  access_token: string;
+  created_at: string;
+}
+
+export interface StockNotificationEmailData {
+  id: string;
+  email: string;
+  product_id: string;
+  product_name: string;
+  image_url: string;
+  option_label: string | null;
+  option_value: string | null;
+  created_at: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Display names for the carrier codes in src/lib/carrierConfig.ts
+const CARRIER_NAMES: Record<string, string> = {
+  royal_mail: 'Royal Mail',
+  evri: 'Evri',
+  dpd: 'DPD',
+  parcelforce: 'Parcelforce',
+  ups: 'UPS',
+  dhl: 'DHL',
+  other: 'Other',
+};
+
+const SHOP_NAME = 'Wool Witch';
+
+const formatCurrency = (amount: number, currency: string) => {
+  return new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: currency || 'GBP'
+  }).format(Number(amount));
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+};
+
+const formatSelections = (selections: OrderItemSelection[] | null) => {
+  return (selections ?? []).map((s) => `${s.label}: ${s.value}`).join(' · ');
+};
+
+const countryNames = new Intl.DisplayNames(['en-GB'], { type: 'region' });
+
+const formatAddress = (address: OrderAddress) => {
+  const country = address.country && address.country !== 'GB' ? countryNames.of(address.country) : undefined;
+  return [address.line1 ?? address.address, address.line2, address.city, address.region, address.postcode, country]
+    .filter(Boolean)
+    .join(', ');
+};
+
+const itemLines = (data: OrderEmailData) => {
+  return data.items.map((item) => {
+    const selections = formatSelections(item.custom_selections);
+    return {
+      label: `${item.quantity} × ${item.product_name}${selections ? ` (${selections})` : ''}`,
+      amount: formatCurrency(item.product_price * item.quantity, data.order.currency),
+    };
+  });
+};
+
+const shipmentLines = (data: OrderEmailData) => {
+  return data.shipments.map((shipment, index) => {
+    const parcel = data.shipments.length > 1 ? `Parcel ${index + 1}: ` : '';
+    const carrier = CARRIER_NAMES[shipment.carrier] ?? shipment.carrier;
+    const tracking = shipment.tracking_number ? `, tracking number ${shipment.tracking_number}` : '';
+    return `${parcel}${carrier}, dispatched ${formatDate(shipment.dispatched_at)}${tracking}`;
+  });
+};
+
+const giftCardLines = (data: OrderEmailData) => {
+  return data.gift_cards.map((card) => `${card.code} - ${formatCurrency(card.initial_value, card.currency)}`);
+};
+
+// When a made-to-order order should be sent and arrive
+const dispatchLine = (data: OrderEmailData) => {
+  if (!data.order.dispatch_by) return null;
+  const arrival = data.order.estimated_delivery
+    ? ` and for it to arrive around ${formatDate(data.order.estimated_delivery)}`
+    : '';
+  return `We expect to dispatch your order by ${formatDate(data.order.dispatch_by)}${arrival}.`;
+};
+
+interface TemplateContent {
+  subject: string;
+  intro: string;
+  includeItems: boolean;
+  includeDispatchDate: boolean;
+  includeShipments: boolean;
+  includeGiftCards: boolean;
+}
+
+const getTemplateContent = (template: OrderEmailTemplate, data: OrderEmailData, orderNumber: string): TemplateContent => {
+  switch (template) {
+    case 'order_confirmation':
+      return {
+        subject: `Order ${orderNumber} received`,
+        intro: `Thank you for your order! We've received order ${orderNumber} and will let you know when your payment has been confirmed.`,
+        includeItems: true,
+        includeDispatchDate: true,
+        includeShipments: false,
+        includeGiftCards: false,
+      };
+    case 'payment_received':
+      return {
+        subject: `Payment received for order ${orderNumber}`,
+        intro: `We've received your payment of ${formatCurrency(data.order.total, data.order.currency)} for order ${orderNumber}. We'll start making your order and let you know when it's on its way.`,
+        includeItems: true,
+        includeDispatchDate: true,
+        includeShipments: false,
+        includeGiftCards: true,
+      };
+    case 'order_shipped':
+      return {
+        subject: `Order ${orderNumber} is on its way`,
+        intro: `Good news - order ${orderNumber} has been dispatched to ${formatAddress(data.order.address)}.`,
+        includeItems: false,
+        includeDispatchDate: false,
+        includeShipments: true,
+        includeGiftCards: false,
+      };
+    case 'order_cancelled':
+      return {
+        subject: `Order ${orderNumber} has been cancelled`,
+        intro: `Order ${orderNumber} has been cancelled. If you have already paid, any refund will be returned to your original payment method.`,
+        includeItems: true,
+        includeDispatchDate: false,
+        includeShipments: false,
+        includeGiftCards: false,
+      };
+  }
+};
+
+export const renderOrderEmail = (
+  template: OrderEmailTemplate,
+  data: OrderEmailData,
+  siteUrl: string
+): RenderedEmail => {
+  const orderNumber = data.order.order_number;
+  const content = getTemplateContent(template, data, orderNumber);
+  const items = itemLines(data);
+  const shipments = shipmentLines(data);
+  const giftCards = content.includeGiftCards ? giftCardLines(data) : [];
+  const dispatch = content.includeDispatchDate ? dispatchLine(data) : null;
+  const giftCardPaid = formatCurrency(data.order.gift_card_total, data.order.currency);
+  const { tax_total: taxTotal, prices_include_tax: pricesIncludeTax } = data.order;
+  const discountLabel = data.order.discount_code ? `Discount (${data.order.discount_code})` : 'Discount';
+  const discountAmount = `-${formatCurrency(data.order.discount_total, data.order.currency)}`;
+  const trackLine = `You can check on your order at any time at ${siteUrl} using Track Order with your email address and order number ${orderNumber}.`;
+
+  const text = [
+    `Hi ${data.order.full_name},`,
+    '',
+    content.intro,
+    ...(content.includeItems
+      ? [
+          '',
+          ...items.map((item) => `${item.label} - ${item.amount}`),
+          '',
+          `Subtotal: ${formatCurrency(data.order.subtotal, data.order.currency)}`,
+          `Delivery: ${formatCurrency(data.order.delivery_total, data.order.currency)}`,
+          ...(data.order.gift_wrap_total > 0 ? [`Gift wrap: ${formatCurrency(data.order.gift_wrap_total, data.order.currency)}`] : []),
+          ...(data.order.discount_total > 0 ? [`${discountLabel}: ${discountAmount}`] : []),
+          ...(!pricesIncludeTax ? [`Tax: ${formatCurrency(taxTotal, data.order.currency)}`] : []),
+          `Total: ${formatCurrency(data.order.total, data.order.currency)}`,
+          ...(pricesIncludeTax && taxTotal > 0 ? [`(includes ${formatCurrency(taxTotal, data.order.currency)} tax)`] : []),
+          ...(data.order.gift_card_total > 0 ? [`Paid by gift card: ${giftCardPaid}`] : []),
+        ]
+      : []),
+    ...(dispatch ? ['', dispatch] : []),
+    ...(content.includeShipments && shipments.length > 0 ? ['', ...shipments] : []),
+    ...(giftCards.length > 0 ? ['', 'Your gift card codes:', ...giftCards] : []),
+    '',
+    trackLine,
+    '',
+    SHOP_NAME,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Georgia, serif; color: #111827; max-width: 600px; margin: 0 auto; padding: 24px;">
+    <h1 style="color: #e11d48; font-size: 24px;">${escapeHtml(content.subject)}</h1>
+    <p>Hi ${escapeHtml(data.order.full_name)},</p>
+    <p>${escapeHtml(content.intro)}</p>
+    ${content.includeItems ? `
+    <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+      ${items.map((item) => `
+      <tr>
+        <td style="padding: 6px 0; border-bottom: 1px solid #e5e7eb;">${escapeHtml(item.label)}</td>
+        <td style="padding: 6px 0; border-bottom: 1px solid #e5e7eb; text-align: right;">${escapeHtml(item.amount)}</td>
+      </tr>`).join('')}
+      <tr><td style="padding: 6px 0;">Subtotal</td><td style="padding: 6px 0; text-align: right;">${escapeHtml(formatCurrency(data.order.subtotal, data.order.currency))}</td></tr>
+      <tr><td style="padding: 6px 0;">Delivery</td><td style="padding: 6px 0; text-align: right;">${escapeHtml(formatCurrency(data.order.delivery_total, data.order.currency))}</td></tr>
+      ${data.order.gift_wrap_total > 0 ? `<tr><td style="padding: 6px 0;">Gift wrap</td><td style="padding: 6px 0; text-align: right;">${escapeHtml(formatCurrency(data.order.gift_wrap_total, data.order.currency))}</td></tr>` : ''}
+      ${data.order.discount_total > 0 ? `<tr><td style="padding: 6px 0;">${escapeHtml(discountLabel)}</td><td style="padding: 6px 0; text-align: right;">${escapeHtml(discountAmount)}</td></tr>` : ''}
+      ${!pricesIncludeTax ? `<tr><td style="padding: 6px 0;">Tax</td><td style="padding: 6px 0; text-align: right;">${escapeHtml(formatCurrency(taxTotal, data.order.currency))}</td></tr>` : ''}
+      <tr><td style="padding: 6px 0; font-weight: bold;">Total</td><td style="padding: 6px 0; text-align: right; font-weight: bold;">${escapeHtml(formatCurrency(data.order.total, data.order.currency))}</td></tr>
+      ${pricesIncludeTax && taxTotal > 0 ? `<tr><td style="padding: 6px 0; color: #6b7280;">Includes tax</td><td style="padding: 6px 0; text-align: right; color: #6b7280;">${escapeHtml(formatCurrency(taxTotal, data.order.currency))}</td></tr>` : ''}
+      ${data.order.gift_card_total > 0 ? `<tr><td style="padding: 6px 0;">Paid by gift card</td><td style="padding: 6px 0; text-align: right;">${escapeHtml(giftCardPaid)}</td></tr>` : ''}
+    </table>` : ''}
+    ${dispatch ? `<p>${escapeHtml(dispatch)}</p>` : ''}
+    ${content.includeShipments && shipments.length > 0 ? `
+    <ul style="font-size: 14px; padding-left: 20px;">
+      ${shipments.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}
+    </ul>` : ''}
+    ${giftCards.length > 0 ? `
+    <p>Your gift card codes:</p>
+    <ul style="font-size: 14px; padding-left: 20px; font-family: monospace;">
+      ${giftCards.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}
+    </ul>` : ''}
+    <p style="font-size: 14px; color: #4b5563;">
+      You can check on your order at any time at <a href="${escapeHtml(siteUrl)}" style="color: #e11d48;">${escapeHtml(siteUrl)}</a>
+      using Track Order with your email address and order number <strong>${escapeHtml(orderNumber)}</strong>.
+    </p>
+    <p>${SHOP_NAME}</p>
+  </body>
+</html>`;
+
+  return { subject: content.subject, text, html };
+};
+
+export const renderCommissionEmail = (
+  template: CommissionEmailTemplate,
+  data: CommissionEmailData,
+  siteUrl: string
+): RenderedEmail => {
+  const quoteUrl = `${siteUrl}/?commission=${encodeURIComponent(data.access_token)}`;
+  let subject: string;
+  let paragraphs: string[];
+
+  if (template === 'commission_received') {
+    subject = 'We have your commission request';
+    paragraphs = [
+      `Thank you for asking us to make something for you. We'll look at your request and email you a quote, usually within a few days.`,
+      `You asked for: ${data.description}`,
+    ];
+  } else {
+    if (!data.quote_title || data.quote_price === null) {
+      throw new Error('Commission request has no quote');
+    }
+
+    const leadTime = data.quote_lead_time_days
+      ? ` It will take about ${data.quote_lead_time_days} working day${data.quote_lead_time_days === 1 ? '' : 's'} to make once you order.`
+      : '';
+    const expiry = data.quote_expires_at ? ` The quote is open until ${formatDate(data.quote_expires_at)}.` : '';
+    subject = `Your quote: ${data.quote_title}`;
+    paragraphs = [
+      `Here is our quote for your commission: ${data.quote_title}, ${formatCurrency(data.quote_price, data.currency)} plus postage.${leadTime}`,
+      ...(data.quote_message ? [data.quote_message] : []),
+      `To accept it and pay, or to decline it, open your quote.${expiry}`,
+    ];
+  }
+
+  const text = [
+    `Hi ${data.full_name},`,
+    '',
+    ...paragraphs.flatMap((paragraph) => [paragraph, '']),
+    `Your quote page: ${quoteUrl}`,
+    '',
+    SHOP_NAME,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Georgia, serif; color: #111827; max-width: 600px; margin: 0 auto; padding: 24px;">
+    <h1 style="color: #e11d48; font-size: 24px;">${escapeHtml(subject)}</h1>
+    <p>Hi ${escapeHtml(data.full_name)},</p>
+    ${paragraphs.map((paragraph) => `<p style="white-space: pre-line;">${escapeHtml(paragraph)}</p>`).join('')}
+    <p>
+      <a href="${escapeHtml(quoteUrl)}" style="display: inline-block; background: #e11d48; color: #ffffff; padding: 10px 20px; border-radius: 8px; text-decoration: none;">
+        ${template === 'commission_quote' ? 'View your quote' : 'View your request'}
+      </a>
+    </p>
+    <p>${SHOP_NAME}</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+};
+
+export const renderStockNotificationEmail = (
+  data: StockNotificationEmailData,
+  siteUrl: string
+): RenderedEmail => {
+  const productUrl = `${siteUrl}/?product=${encodeURIComponent(data.product_id)}`;
+  const option = data.option_value
+    ? ` in ${data.option_label ? `${data.option_label}: ` : ''}${data.option_value}`
+    : '';
+  const subject = `${data.product_name} is back`;
+  const intro = `Good news - ${data.product_name}${option} can be ordered again. Handmade pieces often sell quickly, so don't wait too long.`;
+  const footer = `You asked us to email you when it was back on ${formatDate(data.created_at)}. This is the only email we will send you about it.`;
+
+  const text = [
+    'Hi,',
+    '',
+    intro,
+    '',
+    `Order it here: ${productUrl}`,
+    '',
+    footer,
+    '',
+    SHOP_NAME,
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="font-family: Georgia, serif; color: #111827; max-width: 600px; margin: 0 auto; padding: 24px;">
+    <h1 style="color: #e11d48; font-size: 24px;">${escapeHtml(subject)}</h1>
+    <p>Hi,</p>
+    <p>${escapeHtml(intro)}</p>
+    <p>
+      <a href="${escapeHtml(productUrl)}" style="display: inline-block; background: #e11d48; color: #ffffff; padding: 10px 20px; border-radius: 8px; text-decoration: none;">
+        Order now
+      </a>
+    </p>
+    <p style="font-size: 14px; color: #4b5563;">${escapeHtml(footer)}</p>
+    <p>${SHOP_NAME}</p>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+};
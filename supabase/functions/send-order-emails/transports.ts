@@ -0,0 +1,98 @@
+/**
+ * Email transports
+ *
+ * EMAIL_TRANSPORT selects how rendered emails are delivered:
+ * - smtp (default): any SMTP server. In local development this defaults to
+ *   the Supabase Inbucket mail catcher, viewable at http://localhost:54324
+ * - log: writes emails to the function log instead of sending them
+ */
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  bcc?: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+const isDevelopment = () => Deno.env.get('ENVIRONMENT') === 'development';
+
+const createSmtpTransport = (): EmailTransport => {
+  // Inbucket is reachable from the edge runtime by its container name
+  const hostname = Deno.env.get('SMTP_HOST') || (isDevelopment() ? 'supabase_inbucket_wool-witch' : undefined);
+  const port = Number(Deno.env.get('SMTP_PORT') || (isDevelopment() ? 2500 : 465));
+  const secure = (Deno.env.get('SMTP_SECURE') || (isDevelopment() ? 'false' : 'true')) === 'true';
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASS');
+
+  if (!hostname) {
+    throw new Error('Email delivery unavailable');
+  }
+
+  // Connect on first send so runs with an empty queue never open a connection
+  let client: SMTPClient | null = null;
+  const getClient = () => {
+    client ??= new SMTPClient({
+      connection: {
+        hostname,
+        port,
+        tls: secure,
+        auth: username && password ? { username, password } : undefined,
+      },
+      // Inbucket speaks plain SMTP without STARTTLS
+      debug: secure ? undefined : { allowUnsecure: true, noStartTLS: true },
+    });
+    return client;
+  };
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await getClient().send({
+        from: message.from,
+        to: message.to,
+        bcc: message.bcc,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    },
+    close: async () => {
+      await client?.close();
+    },
+  };
+};
+
+const createLogTransport = (): EmailTransport => ({
+  name: 'log',
+  send: (message) => {
+    console.log(`Email to ${message.to}${message.bcc ? ` (bcc ${message.bcc})` : ''}: ${message.subject}\n${message.text}`);
+    return Promise.resolve();
+  },
+  close: () => Promise.resolve(),
+});
+
+const transports: Record<string, () => EmailTransport> = {
+  smtp: createSmtpTransport,
+  log: createLogTransport,
+};
+
+export const createTransport = (): EmailTransport => {
+  const name = Deno.env.get('EMAIL_TRANSPORT') || 'smtp';
+  const factory = transports[name];
+
+  if (!factory) {
+    throw new Error(`Unknown email transport: ${name}`);
+  }
+
+  return factory();
+};
@@ -0,0 +1,305 @@
+/**
+ * Void Payment Edge Function
+ *
+ * Refunds a Stripe or PayPal payment in full when checkout could not place
+ * an order for it - PayPal takes the payment before the order is created,
+ * and create_order can still refuse the order (prices changed since the
+ * quote the payment was taken for, stock ran out, a discount code or gift
+ * card can no longer be used...). The payment is looked up with the provider
+ * (status, amount and currency) first.
+ *
+ * Security:
+ * - Only payments not linked to any order can be voided; the check and the
+ *   link made by record_verified_payment are serialised per payment, and a
+ *   voided payment can no longer pay for an order
+ * - Refund requests carry an idempotency key derived from the payment, so
+ *   retries never refund twice
+ *
+ * Set PAYMENT_VERIFICATION=mock and REFUND_PROVIDER=mock for local
+ * development to record voids without calling Stripe or PayPal.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getCorsHeaders } from '../_shared/cors.ts';
+import { getPayPalAccessToken, getPayPalApiBase } from '../_shared/paypal.ts';
+
+const isDevelopment = () => Deno.env.get('ENVIRONMENT') === 'development';
+
+const getServiceClient = () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceRoleKey) {
+    throw new Error('Refund processing unavailable');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
+    db: { schema: 'woolwitch_api' }
+  });
+};
+
+interface CapturedPayment {
+  paymentId: string; // The id record_verified_payment stores
+  captureId?: string;
+  amount: number | null;
+  currency: string | null;
+}
+
+interface ProviderResult {
+  succeeded: boolean;
+  providerRefundId?: string;
+  failureReason?: string;
+}
+
+const findStripePayment = async (paymentIntentId: string): Promise<CapturedPayment> => {
+  const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!stripeSecretKey) {
+    throw new Error('Refund processing unavailable');
+  }
+
+  const response = await fetch(`https://api.stripe.com/v1/payment_intents/${encodeURIComponent(paymentIntentId)}`, {
+    headers: { 'Authorization': `Bearer ${stripeSecretKey}` },
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    if (isDevelopment()) {
+      console.error('Stripe lookup error:', data);
+    }
+    throw new Error(data.error?.message ?? 'Stripe payment not found');
+  }
+
+  if (data.status !== 'succeeded') {
+    throw new Error(`Stripe payment has not succeeded (status: ${data.status})`);
+  }
+
+  return {
+    paymentId: data.id,
+    amount: data.amount_received / 100,
+    currency: String(data.currency).toUpperCase(),
+  };
+};
+
+// Checkout passes the PayPal order id
+const findPayPalPayment = async (paypalOrderId: string): Promise<CapturedPayment> => {
+  const apiBase = getPayPalApiBase();
+  const accessToken = await getPayPalAccessToken(apiBase);
+
+  const response = await fetch(`${apiBase}/v2/checkout/orders/${encodeURIComponent(paypalOrderId)}`, {
+    headers: { 'Authorization': `Bearer ${accessToken}` },
+  });
+
+  if (!response.ok) {
+    throw new Error('PayPal payment not found');
+  }
+
+  const order = await response.json();
+  const capture = order.purchase_units?.[0]?.payments?.captures?.[0];
+
+  if (!capture || capture.status !== 'COMPLETED') {
+    throw new Error(`PayPal payment has not completed (status: ${capture?.status ?? 'not captured'})`);
+  }
+
+  return {
+    paymentId: order.id,
+    captureId: capture.id,
+    amount: Number(capture.amount.value),
+    currency: capture.amount.currency_code,
+  };
+};
+
+const findPayment = (paymentMethod: string, paymentId: string): Promise<CapturedPayment> | CapturedPayment => {
+  if (Deno.env.get('PAYMENT_VERIFICATION') === 'mock') {
+    return { paymentId, amount: null, currency: null };
+  }
+
+  return paymentMethod === 'paypal'
+    ? findPayPalPayment(paymentId)
+    : findStripePayment(paymentId);
+};
+
+const refundWithStripe = async (payment: CapturedPayment): Promise<ProviderResult> => {
+  const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!stripeSecretKey) {
+    throw new Error('Refund processing unavailable');
+  }
+
+  const response = await fetch('https://api.stripe.com/v1/refunds', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${stripeSecretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      // Retries of the same void never refund twice
+      'Idempotency-Key': `void_${payment.paymentId}`,
+    },
+    body: new URLSearchParams({
+      payment_intent: payment.paymentId,
+      'metadata[reason]': 'order_not_placed',
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || data.status === 'failed' || data.status === 'canceled') {
+    if (isDevelopment()) {
+      console.error('Stripe refund error:', data);
+    }
+    return { succeeded: false, failureReason: data.error?.message ?? data.failure_reason ?? 'Stripe refund failed' };
+  }
+
+  return { succeeded: true, providerRefundId: data.id };
+};
+
+// No amount in the request refunds the whole capture
+const refundWithPayPal = async (payment: CapturedPayment): Promise<ProviderResult> => {
+  if (!payment.captureId) {
+    return { succeeded: false, failureReason: 'Payment has no PayPal capture id' };
+  }
+
+  const apiBase = getPayPalApiBase();
+  const accessToken = await getPayPalAccessToken(apiBase);
+
+  const response = await fetch(`${apiBase}/v2/payments/captures/${encodeURIComponent(payment.captureId)}/refund`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'PayPal-Request-Id': `void_${payment.captureId}`,
+    },
+    body: JSON.stringify({
+      note_to_payer: 'Your order could not be placed, so your payment has been refunded.',
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok || data.status === 'FAILED' || data.status === 'CANCELLED') {
+    if (isDevelopment()) {
+      console.error('PayPal refund error:', data);
+    }
+    return { succeeded: false, failureReason: data.message ?? data.status_details?.reason ?? 'PayPal refund failed' };
+  }
+
+  return { succeeded: true, providerRefundId: data.id };
+};
+
+const voidPayment = async (paymentMethod: string, payment: CapturedPayment): Promise<ProviderResult> => {
+  if (Deno.env.get('REFUND_PROVIDER') === 'mock') {
+    return { succeeded: true, providerRefundId: `mock_void_${payment.paymentId}` };
+  }
+
+  return paymentMethod === 'paypal'
+    ? refundWithPayPal(payment)
+    : refundWithStripe(payment);
+};
+
+serve(async (req) => {
+  const origin = req.headers.get('origin');
+  const corsHeaders = getCorsHeaders(origin);
+
+  // Reject requests from non-whitelisted origins
+  if (!corsHeaders) {
+    return new Response(
+      JSON.stringify({ error: 'Origin not allowed' }),
+      {
+        status: 403,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { payment_method, payment_id } = await req.json();
+
+    if (payment_method !== 'paypal' && payment_method !== 'card') {
+      throw new Error('Payment method must be paypal or card');
+    }
+
+    if (typeof payment_id !== 'string' || !payment_id.trim()) {
+      throw new Error('Payment id is required');
+    }
+
+    const payment = await findPayment(payment_method, payment_id.trim());
+    const supabase = getServiceClient();
+
+    // Record the pending void (refuses payments linked to an order)
+    const { data: started, error: beginError } = await supabase.rpc('begin_payment_void', {
+      p_payment_method: payment_method,
+      p_payment_id: payment.paymentId,
+      p_amount: payment.amount,
+      p_currency: payment.currency,
+    });
+
+    if (beginError) {
+      throw new Error(beginError.message);
+    }
+
+    // Already voided by an earlier call
+    if (started === false) {
+      return new Response(
+        JSON.stringify({ status: 'succeeded' }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    let result: ProviderResult;
+    try {
+      result = await voidPayment(payment_method, payment);
+    } catch (error) {
+      result = { succeeded: false, failureReason: error instanceof Error ? error.message : 'Refund failed' };
+    }
+
+    const { error: completeError } = await supabase.rpc('complete_payment_void', {
+      p_payment_method: payment_method,
+      p_payment_id: payment.paymentId,
+      p_succeeded: result.succeeded,
+      p_provider_refund_id: result.providerRefundId ?? null,
+      p_failure_reason: result.failureReason ?? null,
+    });
+
+    if (completeError) {
+      // The provider call has already happened; the void stays pending for manual review
+      console.error(`Failed to record void of ${payment.paymentId}:`, completeError);
+      throw new Error(result.succeeded
+        ? 'Refund was issued but could not be recorded'
+        : 'Refund failed and could not be recorded');
+    }
+
+    if (!result.succeeded) {
+      throw new Error(result.failureReason ?? 'Refund failed');
+    }
+
+    return new Response(
+      JSON.stringify({ status: 'succeeded' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    if (isDevelopment()) {
+      console.error('Error voiding payment:', error);
+    }
+
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Refund failed'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,344 @@
+-- Persist customer custom property selections on order items
+-- Selections chosen at checkout (size, colour, personalisation text, etc.) are
+-- snapshotted onto each order item together with the property label, so the
+-- order still reads correctly after the product configuration is edited.
+
+-- ========================================
+-- ADD CUSTOM_SELECTIONS COLUMN
+-- ========================================
+
+-- Structure: [
+--   { "propertyId": "size", "label": "Size", "value": "Large" },
+--   { "propertyId": "name", "label": "Name to embroider", "value": "Ada" }
+-- ]
+
+ALTER TABLE woolwitch.order_items
+  ADD COLUMN custom_selections jsonb DEFAULT NULL;
+
+COMMENT ON COLUMN woolwitch.order_items.custom_selections IS
+  'Snapshot of the customer custom property selections (propertyId, label, value) at time of purchase';
+
+-- ========================================
+-- SELECTION HELPERS
+-- ========================================
+
+-- Build the stored snapshot for a line item from the product configuration.
+-- Unknown properties and empty values are dropped; dropdown values must be one
+-- of the configured options and required properties must be present.
+CREATE OR REPLACE FUNCTION woolwitch.snapshot_custom_selections(
+  p_custom_properties jsonb,
+  p_selections jsonb,
+  p_product_name text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_property jsonb;
+  v_selection jsonb;
+  v_value text;
+  v_result jsonb := '[]'::jsonb;
+BEGIN
+  IF p_custom_properties IS NULL OR jsonb_typeof(p_custom_properties->'properties') <> 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_property IN SELECT * FROM jsonb_array_elements(p_custom_properties->'properties')
+  LOOP
+    v_selection := NULL;
+    IF p_selections IS NOT NULL AND jsonb_typeof(p_selections) = 'array' THEN
+      SELECT s INTO v_selection
+      FROM jsonb_array_elements(p_selections) s
+      WHERE s->>'propertyId' = v_property->>'id'
+      LIMIT 1;
+    END IF;
+
+    v_value := NULLIF(btrim(v_selection->>'value'), '');
+
+    IF v_value IS NULL THEN
+      IF COALESCE((v_property->>'required')::boolean, false) THEN
+        RAISE EXCEPTION 'Please choose "%" for %', v_property->>'label', p_product_name;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_property->>'type' = 'dropdown'
+       AND NOT COALESCE(v_property->'options', '[]'::jsonb) ? v_value THEN
+      RAISE EXCEPTION 'Option "%" is not available for % on %', v_value, v_property->>'label', p_product_name;
+    END IF;
+
+    IF v_property->>'type' IN ('text', 'textarea')
+       AND v_property ? 'maxLength'
+       AND length(v_value) > (v_property->>'maxLength')::integer THEN
+      RAISE EXCEPTION '% for % is too long', v_property->>'label', p_product_name;
+    END IF;
+
+    v_result := v_result || jsonb_build_array(jsonb_build_object(
+      'propertyId', v_property->>'id',
+      'label', v_property->>'label',
+      'value', v_selection->'value'
+    ));
+  END LOOP;
+
+  IF jsonb_array_length(v_result) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Resolve the unit price for a line item. Mirrors getEffectivePrice in
+-- src/lib/orderService.ts: the first selected dropdown option with a price wins.
+CREATE OR REPLACE FUNCTION woolwitch.get_selection_price(
+  p_custom_properties jsonb,
+  p_selections jsonb,
+  p_base_price numeric
+)
+RETURNS numeric AS $$
+DECLARE
+  v_selection jsonb;
+  v_property jsonb;
+BEGIN
+  IF p_custom_properties IS NULL OR p_selections IS NULL OR jsonb_typeof(p_selections) <> 'array' THEN
+    RETURN p_base_price;
+  END IF;
+
+  FOR v_selection IN SELECT * FROM jsonb_array_elements(p_selections)
+  LOOP
+    SELECT p INTO v_property
+    FROM jsonb_array_elements(COALESCE(p_custom_properties->'properties', '[]'::jsonb)) p
+    WHERE p->>'id' = v_selection->>'propertyId'
+    LIMIT 1;
+
+    IF v_property->>'type' = 'dropdown'
+       AND v_property->'optionPrices' ? (v_selection->>'value') THEN
+      RETURN (v_property->'optionPrices'->>(v_selection->>'value'))::numeric;
+    END IF;
+  END LOOP;
+
+  RETURN p_base_price;
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Store selections and option prices
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_item jsonb;
+  v_calculated_subtotal numeric := 0;
+  v_calculated_delivery numeric := 0;
+  v_product_name text;
+  v_product_price numeric;
+  v_product_delivery numeric;
+  v_product_available boolean;
+  v_custom_properties jsonb;
+  v_unit_price numeric;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- Validate all products and calculate totals from database
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT name, price, delivery_charge, is_available, custom_properties
+    INTO v_product_name, v_product_price, v_product_delivery, v_product_available, v_custom_properties
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    -- Ensure product exists and is available
+    IF v_product_price IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_item->>'product_name';
+    END IF;
+
+    -- Validates the selections (raises on invalid options)
+    PERFORM woolwitch.snapshot_custom_selections(v_custom_properties, v_item->'custom_selections', v_product_name);
+    v_unit_price := woolwitch.get_selection_price(v_custom_properties, v_item->'custom_selections', v_product_price);
+
+    -- Calculate running totals using database prices
+    v_calculated_subtotal := v_calculated_subtotal + (v_unit_price * (v_item->>'quantity')::integer);
+    v_calculated_delivery := v_calculated_delivery + (COALESCE(v_product_delivery, 0) * (v_item->>'quantity')::integer);
+  END LOOP;
+
+  -- Validate that submitted totals match calculated totals (within 0.01 for rounding)
+  IF ABS(v_calculated_subtotal - p_subtotal) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted subtotal % does not match calculated subtotal %', p_subtotal, v_calculated_subtotal;
+  END IF;
+
+  IF ABS(v_calculated_delivery - p_delivery_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted delivery total % does not match calculated delivery total %', p_delivery_total, v_calculated_delivery;
+  END IF;
+
+  IF ABS((v_calculated_subtotal + v_calculated_delivery) - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, (v_calculated_subtotal + v_calculated_delivery);
+  END IF;
+
+  -- Create order with validated totals
+  INSERT INTO woolwitch.orders (
+    user_id,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    total,
+    status,
+    payment_method
+  ) VALUES (
+    v_user_id,
+    p_email,
+    p_full_name,
+    p_address,
+    v_calculated_subtotal,  -- Use calculated value
+    v_calculated_delivery,  -- Use calculated value
+    v_calculated_subtotal + v_calculated_delivery,  -- Use calculated value
+    'pending',
+    p_payment_method
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items using validated database prices
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT name, price, delivery_charge, custom_properties
+    INTO v_product_name, v_product_price, v_product_delivery, v_custom_properties
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_item->>'product_id')::uuid,
+      v_item->>'product_name',
+      woolwitch.get_selection_price(v_custom_properties, v_item->'custom_selections', v_product_price),
+      (v_item->>'quantity')::integer,
+      COALESCE(v_product_delivery, 0),  -- Use database delivery charge
+      woolwitch.snapshot_custom_selections(v_custom_properties, v_item->'custom_selections', v_product_name)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE get_order_items - Return selections
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_items(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_items(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  product_id uuid,
+  product_name text,
+  product_price numeric,
+  quantity integer,
+  delivery_charge numeric,
+  custom_selections jsonb,
+  created_at timestamptz
+) AS $$
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    oi.id,
+    oi.order_id,
+    oi.product_id,
+    oi.product_name,
+    oi.product_price,
+    oi.quantity,
+    oi.delivery_charge,
+    oi.custom_selections,
+    oi.created_at
+  FROM woolwitch.order_items oi
+  WHERE oi.order_id = p_order_id
+  ORDER BY oi.created_at;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- ORDER ITEMS VIEW
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.order_items_view CASCADE;
+CREATE VIEW woolwitch_api.order_items_view
+WITH (security_invoker = true)
+AS
+SELECT
+  oi.id,
+  oi.order_id,
+  oi.product_id,
+  oi.product_name,
+  oi.product_price,
+  oi.quantity,
+  oi.delivery_charge,
+  oi.custom_selections,
+  oi.created_at
+FROM woolwitch.order_items oi
+WHERE EXISTS (
+  SELECT 1 FROM woolwitch.orders o
+  WHERE o.id = oi.order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+);
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch_api.order_items_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch.snapshot_custom_selections(jsonb, jsonb, text) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch.get_selection_price(jsonb, jsonb, numeric) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_items(uuid) TO authenticated, anon;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.snapshot_custom_selections(jsonb, jsonb, text) IS 'Validates customer selections against a product configuration and returns the labelled snapshot stored on order items';
+COMMENT ON FUNCTION woolwitch.get_selection_price(jsonb, jsonb, numeric) IS 'Resolves the unit price for a line item from selected dropdown option prices, falling back to the base price';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with server-side price validation (including option prices) and stores custom property selections on each item';
+COMMENT ON FUNCTION woolwitch_api.get_order_items IS 'Get items for a specific order, including custom property selections';
+COMMENT ON VIEW woolwitch_api.order_items_view IS 'View of order items for accessible orders';
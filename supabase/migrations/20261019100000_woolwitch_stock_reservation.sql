@@ -0,0 +1,300 @@
+-- Stock reservation for orders
+-- create_order now locks the product rows it sells, rejects the order when
+-- there is not enough stock and decrements stock_quantity in the same
+-- transaction. Products whose stock reaches zero are switched off, and
+-- cancelling an order puts its stock back.
+--
+-- A NULL stock_quantity means stock is not tracked for that product.
+
+-- ========================================
+-- STOCK TRACKING COLUMNS
+-- ========================================
+
+ALTER TABLE woolwitch.products
+  ADD COLUMN sold_out_at timestamptz DEFAULT NULL;
+
+COMMENT ON COLUMN woolwitch.products.sold_out_at IS
+  'Set when a sale takes stock to zero and the product is switched off automatically; cleared when stock is restored';
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN stock_reserved boolean NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN woolwitch.orders.stock_reserved IS
+  'True while the order holds stock taken by create_order; cleared when the stock is released on cancellation';
+
+-- ========================================
+-- STOCK HELPERS
+-- ========================================
+
+-- Lock, check and decrement stock for a set of order items.
+-- Raises SQLSTATE WWS01 with a JSON array of shortages in DETAIL:
+--   [{ "product_id": "...", "product_name": "...", "requested": 2, "available": 1 }]
+CREATE OR REPLACE FUNCTION woolwitch.reserve_order_stock(p_order_items jsonb)
+RETURNS void AS $$
+DECLARE
+  v_line record;
+  v_stock integer;
+  v_shortages jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  FOR v_line IN
+    SELECT
+      (i->>'product_id')::uuid AS product_id,
+      MIN(i->>'product_name') AS product_name,
+      SUM((i->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_order_items) i
+    GROUP BY (i->>'product_id')::uuid
+    ORDER BY (i->>'product_id')::uuid
+  LOOP
+    SELECT stock_quantity INTO v_stock
+    FROM woolwitch.products
+    WHERE id = v_line.product_id
+    FOR UPDATE;
+
+    IF v_stock IS NOT NULL AND v_stock < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_array(jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.product_name,
+        'requested', v_line.quantity,
+        'available', v_stock
+      ));
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for % item(s)', jsonb_array_length(v_shortages)
+      USING ERRCODE = 'WWS01',
+            DETAIL = v_shortages::text,
+            HINT = 'insufficient_stock';
+  END IF;
+
+  UPDATE woolwitch.products p
+  SET stock_quantity = p.stock_quantity - l.quantity,
+      is_available = CASE WHEN p.stock_quantity - l.quantity = 0 THEN false ELSE p.is_available END,
+      sold_out_at = CASE WHEN p.stock_quantity - l.quantity = 0 THEN now() ELSE p.sold_out_at END
+  FROM (
+    SELECT (i->>'product_id')::uuid AS product_id, SUM((i->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_order_items) i
+    GROUP BY (i->>'product_id')::uuid
+  ) l
+  WHERE p.id = l.product_id
+    AND p.stock_quantity IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- Put back the stock held by an order. Products that were switched off by a
+-- sale are made available again; products an admin switched off stay off.
+CREATE OR REPLACE FUNCTION woolwitch.release_order_stock(p_order_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE woolwitch.products p
+  SET stock_quantity = p.stock_quantity + l.quantity,
+      is_available = CASE WHEN p.sold_out_at IS NOT NULL THEN true ELSE p.is_available END,
+      sold_out_at = NULL
+  FROM (
+    SELECT oi.product_id, SUM(oi.quantity) AS quantity
+    FROM woolwitch.order_items oi
+    WHERE oi.order_id = p_order_id
+      AND oi.product_id IS NOT NULL
+    GROUP BY oi.product_id
+  ) l
+  WHERE p.id = l.product_id
+    AND p.stock_quantity IS NOT NULL;
+
+  UPDATE woolwitch.orders
+  SET stock_reserved = false
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Reserve stock
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_item jsonb;
+  v_calculated_subtotal numeric := 0;
+  v_calculated_delivery numeric := 0;
+  v_product_name text;
+  v_product_price numeric;
+  v_product_delivery numeric;
+  v_product_available boolean;
+  v_custom_properties jsonb;
+  v_unit_price numeric;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- Validate all products and calculate totals from database
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT name, price, delivery_charge, is_available, custom_properties
+    INTO v_product_name, v_product_price, v_product_delivery, v_product_available, v_custom_properties
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    -- Ensure product exists and is available
+    IF v_product_price IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_item->>'product_name';
+    END IF;
+
+    -- Validates the selections (raises on invalid options)
+    PERFORM woolwitch.snapshot_custom_selections(v_custom_properties, v_item->'custom_selections', v_product_name);
+    v_unit_price := woolwitch.get_selection_price(v_custom_properties, v_item->'custom_selections', v_product_price);
+
+    -- Calculate running totals using database prices
+    v_calculated_subtotal := v_calculated_subtotal + (v_unit_price * (v_item->>'quantity')::integer);
+    v_calculated_delivery := v_calculated_delivery + (COALESCE(v_product_delivery, 0) * (v_item->>'quantity')::integer);
+  END LOOP;
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Validate that submitted totals match calculated totals (within 0.01 for rounding)
+  IF ABS(v_calculated_subtotal - p_subtotal) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted subtotal % does not match calculated subtotal %', p_subtotal, v_calculated_subtotal;
+  END IF;
+
+  IF ABS(v_calculated_delivery - p_delivery_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted delivery total % does not match calculated delivery total %', p_delivery_total, v_calculated_delivery;
+  END IF;
+
+  IF ABS((v_calculated_subtotal + v_calculated_delivery) - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, (v_calculated_subtotal + v_calculated_delivery);
+  END IF;
+
+  -- Create order with validated totals
+  INSERT INTO woolwitch.orders (
+    user_id,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    total,
+    status,
+    payment_method,
+    stock_reserved
+  ) VALUES (
+    v_user_id,
+    p_email,
+    p_full_name,
+    p_address,
+    v_calculated_subtotal,  -- Use calculated value
+    v_calculated_delivery,  -- Use calculated value
+    v_calculated_subtotal + v_calculated_delivery,  -- Use calculated value
+    'pending',
+    p_payment_method,
+    true
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items using validated database prices
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT name, price, delivery_charge, custom_properties
+    INTO v_product_name, v_product_price, v_product_delivery, v_custom_properties
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_item->>'product_id')::uuid,
+      v_item->>'product_name',
+      woolwitch.get_selection_price(v_custom_properties, v_item->'custom_selections', v_product_price),
+      (v_item->>'quantity')::integer,
+      COALESCE(v_product_delivery, 0),  -- Use database delivery charge
+      woolwitch.snapshot_custom_selections(v_custom_properties, v_item->'custom_selections', v_product_name)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE update_order_status - Release stock on cancellation
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_order_status(uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.update_order_status(
+  p_order_id uuid,
+  p_status text
+)
+RETURNS void AS $$
+DECLARE
+  v_stock_reserved boolean;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT stock_reserved INTO v_stock_reserved
+  FROM woolwitch.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  UPDATE woolwitch.orders
+  SET status = p_status,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  IF p_status = 'cancelled' AND v_stock_reserved THEN
+    PERFORM woolwitch.release_order_stock(p_order_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE EXECUTE ON FUNCTION woolwitch.reserve_order_stock(jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.release_order_stock(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION woolwitch.reserve_order_stock(jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch.release_order_stock(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_order_status(uuid, text) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.reserve_order_stock(jsonb) IS 'Locks products, raises WWS01 (insufficient_stock) on shortages and decrements tracked stock';
+COMMENT ON FUNCTION woolwitch.release_order_stock(uuid) IS 'Restores stock held by an order and re-enables products that sold out';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with server-side price validation and atomic stock reservation';
+COMMENT ON FUNCTION woolwitch_api.update_order_status IS 'Update order status (admin only) - cancelling releases reserved stock';
@@ -0,0 +1,198 @@
+-- Server-authoritative pricing
+-- Order totals are priced by the database, not the browser. quote_order
+-- prices a cart from the product table (base price, option prices and
+-- delivery charges) and is used by create_order, the PayPal button and the
+-- create-payment-intent edge function, so every path charges the same amount.
+--
+-- Line price rules (mirrors getEffectivePrice in src/lib/orderService.ts):
+--   * the first selected dropdown option with an entry in optionPrices wins
+--   * otherwise the product's base price is charged; for a price range
+--     product this is the "from" price and price_max is only advertised
+
+-- ========================================
+-- QUOTE ORDER
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(p_order_items jsonb)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  items jsonb
+) AS $$
+DECLARE
+  v_item jsonb;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_delivery numeric;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+    v_delivery := round(COALESCE(v_product.delivery_charge, 0), 2);
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_delivery_total := v_delivery_total + v_delivery * v_quantity;
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  RETURN QUERY SELECT v_subtotal, v_delivery_total, v_subtotal + v_delivery_total, v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Price from quote_order
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_quote record;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- Price the order from the product table
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals
+  INSERT INTO woolwitch.orders (
+    user_id,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    total,
+    status,
+    payment_method,
+    stock_reserved
+  ) VALUES (
+    v_user_id,
+    p_email,
+    p_full_name,
+    p_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.total,
+    'pending',
+    p_payment_method,
+    true
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) TO authenticated, anon;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb) IS 'Prices a cart from the product table (base, option and delivery prices) - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order priced by quote_order (rejects mismatched client totals with WWP01) and reserves stock';
@@ -0,0 +1,300 @@
+-- Order status state machine and history
+-- Status changes are validated against the allowed transitions below and
+-- every change is recorded in order_status_history (who, when, optional note).
+-- Both are enforced by triggers so every path that touches orders.status
+-- (update_order_status, update_payment_status, service role scripts) is covered.
+--
+-- Allowed transitions:
+--   pending  -> paid, cancelled
+--   paid     -> shipped, cancelled
+--   shipped  -> delivered
+--   delivered, cancelled are final
+
+-- ========================================
+-- ORDER STATUS HISTORY TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES woolwitch.orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text CHECK (note IS NULL OR length(note) <= 1000),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_order_status_history_order ON woolwitch.order_status_history(order_id, created_at);
+
+ALTER TABLE woolwitch.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order status history access" ON woolwitch.order_status_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM woolwitch.orders
+      WHERE id = order_id
+      AND (user_id = auth.uid() OR woolwitch.is_admin())
+    )
+  );
+
+COMMENT ON TABLE woolwitch.order_status_history IS 'Audit trail of order status changes, written by trigger';
+
+-- Backfill existing orders: the initial pending state plus the current status
+INSERT INTO woolwitch.order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, NULL, 'pending', COALESCE(created_at, now())
+FROM woolwitch.orders;
+
+INSERT INTO woolwitch.order_status_history (order_id, from_status, to_status, note, created_at)
+SELECT id, 'pending', status, 'Recorded before status history was tracked', COALESCE(updated_at, created_at, now())
+FROM woolwitch.orders
+WHERE status <> 'pending';
+
+-- ========================================
+-- STATE MACHINE
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.is_valid_status_transition(p_from text, p_to text)
+RETURNS boolean AS $$
+BEGIN
+  RETURN CASE p_from
+    WHEN 'pending' THEN p_to IN ('paid', 'cancelled')
+    WHEN 'paid' THEN p_to IN ('shipped', 'cancelled')
+    WHEN 'shipped' THEN p_to IN ('delivered')
+    ELSE false
+  END;
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+CREATE OR REPLACE FUNCTION woolwitch.enforce_order_status_transition()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT woolwitch.is_valid_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Cannot change order status from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'WWO01',
+            HINT = 'invalid_status_transition';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SET search_path = woolwitch, pg_catalog;
+
+-- Records status changes. update_order_status passes the admin's note via the
+-- transaction-local setting woolwitch.status_note.
+CREATE OR REPLACE FUNCTION woolwitch.log_order_status_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO woolwitch.order_status_history (
+      order_id,
+      from_status,
+      to_status,
+      changed_by,
+      note
+    ) VALUES (
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid(),
+      NULLIF(current_setting('woolwitch.status_note', true), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, auth, pg_catalog;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition ON woolwitch.orders;
+CREATE TRIGGER enforce_order_status_transition
+  BEFORE UPDATE OF status ON woolwitch.orders
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.enforce_order_status_transition();
+
+DROP TRIGGER IF EXISTS log_order_status_change ON woolwitch.orders;
+CREATE TRIGGER log_order_status_change
+  AFTER INSERT OR UPDATE OF status ON woolwitch.orders
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.log_order_status_change();
+
+-- ========================================
+-- UPDATE update_order_status - Optional note
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_order_status(uuid, text) CASCADE;
+DROP FUNCTION IF EXISTS woolwitch_api.update_order_status(uuid, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_stock_reserved boolean;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT stock_reserved INTO v_stock_reserved
+  FROM woolwitch.orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('woolwitch.status_note', COALESCE(btrim(p_note), ''), true);
+
+  UPDATE woolwitch.orders
+  SET status = p_status,
+      updated_at = now()
+  WHERE id = p_order_id;
+
+  PERFORM set_config('woolwitch.status_note', '', true);
+
+  IF p_status = 'cancelled' AND v_stock_reserved THEN
+    PERFORM woolwitch.release_order_stock(p_order_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE update_payment_status - Only pending orders become paid
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_payment_status(uuid, text, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.update_payment_status(
+  p_payment_id uuid,
+  p_status text,
+  p_payment_details jsonb DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  -- Only admin or service_role can update payment status
+  -- In production, this should be called by payment webhook handlers
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admin/service can update payment status';
+  END IF;
+
+  -- Validate status
+  IF p_status NOT IN ('pending', 'completed', 'failed', 'refunded') THEN
+    RAISE EXCEPTION 'Invalid payment status: %', p_status;
+  END IF;
+
+  UPDATE woolwitch.payments
+  SET
+    status = p_status,
+    updated_at = now(),
+    -- Update payment details based on method
+    paypal_details = CASE
+      WHEN payment_method = 'paypal' AND p_payment_details IS NOT NULL
+      THEN COALESCE(paypal_details, '{}'::jsonb) || p_payment_details
+      ELSE paypal_details
+    END,
+    stripe_details = CASE
+      WHEN payment_method = 'stripe' AND p_payment_details IS NOT NULL
+      THEN COALESCE(stripe_details, '{}'::jsonb) || p_payment_details
+      ELSE stripe_details
+    END
+  WHERE id = p_payment_id;
+
+  -- Move the order to paid if payment completed (later states are left alone)
+  IF p_status = 'completed' THEN
+    UPDATE woolwitch.orders o
+    SET status = 'paid',
+        updated_at = now()
+    WHERE id = (SELECT order_id FROM woolwitch.payments WHERE id = p_payment_id)
+      AND status = 'pending';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: STATUS HISTORY
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_status_history(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_status_history(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  from_status text,
+  to_status text,
+  note text,
+  changed_by_admin boolean,
+  created_at timestamptz
+) AS $$
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.order_id,
+    h.from_status,
+    h.to_status,
+    h.note,
+    EXISTS (
+      SELECT 1 FROM woolwitch.user_roles ur
+      WHERE ur.user_id = h.changed_by AND ur.role = 'admin'
+    ),
+    h.created_at
+  FROM woolwitch.order_status_history h
+  WHERE h.order_id = p_order_id
+  ORDER BY h.created_at, h.id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP VIEW IF EXISTS woolwitch_api.order_status_history_view CASCADE;
+CREATE VIEW woolwitch_api.order_status_history_view
+WITH (security_invoker = true)
+AS
+SELECT
+  h.id,
+  h.order_id,
+  h.from_status,
+  h.to_status,
+  h.note,
+  h.created_at
+FROM woolwitch.order_status_history h;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.order_status_history TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.order_status_history TO service_role, postgres;
+GRANT SELECT ON woolwitch_api.order_status_history_view TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_order_status(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_payment_status(uuid, text, jsonb) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_status_history(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.is_valid_status_transition(text, text) IS 'Order status state machine - returns true when a status change is allowed';
+COMMENT ON FUNCTION woolwitch.enforce_order_status_transition() IS 'Trigger - rejects invalid order status changes with WWO01';
+COMMENT ON FUNCTION woolwitch.log_order_status_change() IS 'Trigger - records order status changes in order_status_history';
+COMMENT ON FUNCTION woolwitch_api.update_order_status(uuid, text, text) IS 'Update order status (admin only) - enforces allowed transitions, records an optional note and releases stock on cancellation';
+COMMENT ON FUNCTION woolwitch_api.update_payment_status IS 'Updates payment status - admin/service only, moves pending orders to paid on completion';
+COMMENT ON FUNCTION woolwitch_api.get_order_status_history(uuid) IS 'Status timeline for an order (owner or admin)';
+COMMENT ON VIEW woolwitch_api.order_status_history_view IS 'View of order status history for accessible orders';
@@ -0,0 +1,155 @@
+-- Shipment tracking
+-- An order can be sent in one or more parcels. Each parcel records the
+-- carrier, tracking number and dispatch date. Tracking links are built in the
+-- client from per-carrier URL templates (src/lib/carrierConfig.ts), so only
+-- the carrier code is stored here.
+
+-- ========================================
+-- SHIPMENTS TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.shipments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES woolwitch.orders(id) ON DELETE CASCADE,
+  carrier text NOT NULL CHECK (carrier ~ '^[a-z0-9_]{1,50}$'),
+  tracking_number text CHECK (tracking_number IS NULL OR length(tracking_number) BETWEEN 1 AND 100),
+  dispatched_at date NOT NULL DEFAULT CURRENT_DATE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_shipments_order ON woolwitch.shipments(order_id, dispatched_at);
+
+ALTER TABLE woolwitch.shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shipment access" ON woolwitch.shipments
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM woolwitch.orders
+      WHERE id = order_id
+      AND (user_id = auth.uid() OR woolwitch.is_admin())
+    )
+  );
+
+CREATE POLICY "Admin shipment management" ON woolwitch.shipments
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.shipments IS 'Parcels sent for an order (carrier code, tracking number, dispatch date)';
+
+-- ========================================
+-- API: SHIPMENTS
+-- ========================================
+
+-- Mark an order as shipped and record its parcels in one transaction.
+-- p_shipments: [{ "carrier": "royal_mail", "tracking_number": "AB123456789GB", "dispatched_at": "2026-10-19" }]
+DROP FUNCTION IF EXISTS woolwitch_api.mark_order_shipped(uuid, jsonb, text) CASCADE;
+CREATE FUNCTION woolwitch_api.mark_order_shipped(
+  p_order_id uuid,
+  p_shipments jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_shipment jsonb;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_shipments IS NULL OR jsonb_typeof(p_shipments) <> 'array' OR jsonb_array_length(p_shipments) = 0 THEN
+    RAISE EXCEPTION 'At least one shipment is required';
+  END IF;
+
+  -- Validates the transition (paid -> shipped) and records history
+  PERFORM woolwitch_api.update_order_status(p_order_id, 'shipped', p_note);
+
+  FOR v_shipment IN SELECT * FROM jsonb_array_elements(p_shipments)
+  LOOP
+    INSERT INTO woolwitch.shipments (
+      order_id,
+      carrier,
+      tracking_number,
+      dispatched_at,
+      created_by
+    ) VALUES (
+      p_order_id,
+      v_shipment->>'carrier',
+      NULLIF(btrim(v_shipment->>'tracking_number'), ''),
+      COALESCE((v_shipment->>'dispatched_at')::date, CURRENT_DATE),
+      auth.uid()
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_shipments(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_shipments(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  carrier text,
+  tracking_number text,
+  dispatched_at date,
+  created_at timestamptz
+) AS $$
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.order_id,
+    s.carrier,
+    s.tracking_number,
+    s.dispatched_at,
+    s.created_at
+  FROM woolwitch.shipments s
+  WHERE s.order_id = p_order_id
+  ORDER BY s.dispatched_at, s.created_at;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP VIEW IF EXISTS woolwitch_api.shipments_view CASCADE;
+CREATE VIEW woolwitch_api.shipments_view
+WITH (security_invoker = true)
+AS
+SELECT
+  s.id,
+  s.order_id,
+  s.carrier,
+  s.tracking_number,
+  s.dispatched_at,
+  s.created_at
+FROM woolwitch.shipments s;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.shipments TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.shipments TO service_role, postgres;
+GRANT SELECT ON woolwitch_api.shipments_view TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.mark_order_shipped(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_shipments(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.mark_order_shipped(uuid, jsonb, text) IS 'Marks an order shipped and records its parcels (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_shipments(uuid) IS 'Parcels for an order (owner or admin)';
+COMMENT ON VIEW woolwitch_api.shipments_view IS 'View of shipments for accessible orders';
@@ -0,0 +1,435 @@
+-- Refunds
+-- Full and partial refunds against a captured payment. The refund-payment
+-- edge function drives the flow with the service role:
+--   1. begin_refund locks the payment, checks the refundable balance and
+--      records a pending refund
+--   2. the edge function calls Stripe / PayPal (or the mock provider)
+--   3. complete_refund marks the refund succeeded or failed; succeeded
+--      refunds are added to orders.refunded_total and a fully refunded
+--      payment is marked 'refunded'
+-- Pending refunds count against the refundable balance so two admins cannot
+-- refund the same money twice.
+
+-- ========================================
+-- REFUNDS TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES woolwitch.payments(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES woolwitch.orders(id) ON DELETE CASCADE,
+  amount numeric(10, 2) NOT NULL CHECK (amount > 0),
+  currency text DEFAULT 'GBP' NOT NULL,
+  reason text CHECK (reason IS NULL OR length(reason) <= 500),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'failed')),
+  provider_refund_id text,
+  failure_reason text,
+  requested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_refunds_payment_status ON woolwitch.refunds(payment_id, status);
+CREATE INDEX idx_refunds_order ON woolwitch.refunds(order_id, created_at);
+
+ALTER TABLE woolwitch.refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Refund access" ON woolwitch.refunds
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM woolwitch.orders
+      WHERE id = order_id
+      AND (user_id = auth.uid() OR woolwitch.is_admin())
+    )
+  );
+
+COMMENT ON TABLE woolwitch.refunds IS 'Refunds issued against payments, written by the refund-payment edge function';
+
+-- Running total of succeeded refunds, so revenue can be reported net
+ALTER TABLE woolwitch.orders
+  ADD COLUMN refunded_total numeric(10, 2) NOT NULL DEFAULT 0 CHECK (refunded_total >= 0);
+
+COMMENT ON COLUMN woolwitch.orders.refunded_total IS 'Sum of succeeded refunds; net revenue is total - refunded_total';
+
+-- ========================================
+-- REFUND WORKFLOW (service role only)
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.begin_refund(uuid, numeric, text, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.begin_refund(
+  p_order_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_requested_by uuid
+)
+RETURNS TABLE (
+  refund_id uuid,
+  amount numeric,
+  currency text,
+  payment_method text,
+  provider_payment_id text,
+  capture_id text
+) AS $$
+DECLARE
+  v_payment woolwitch.payments%ROWTYPE;
+  v_refundable numeric;
+  v_amount numeric;
+  v_refund_id uuid;
+BEGIN
+  -- Lock the order's captured payment
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.order_id = p_order_id
+    AND p.status IN ('completed', 'refunded')
+  ORDER BY p.created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_payment.id IS NULL THEN
+    RAISE EXCEPTION 'No completed payment found for this order';
+  END IF;
+
+  SELECT v_payment.amount - COALESCE(SUM(r.amount), 0) INTO v_refundable
+  FROM woolwitch.refunds r
+  WHERE r.payment_id = v_payment.id
+    AND r.status IN ('pending', 'succeeded');
+
+  -- No amount means refund whatever is left
+  v_amount := round(COALESCE(p_amount, v_refundable), 2);
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  IF v_amount > v_refundable THEN
+    RAISE EXCEPTION 'Refund amount % exceeds refundable balance %', v_amount, v_refundable;
+  END IF;
+
+  INSERT INTO woolwitch.refunds (
+    payment_id,
+    order_id,
+    amount,
+    currency,
+    reason,
+    requested_by
+  ) VALUES (
+    v_payment.id,
+    p_order_id,
+    v_amount,
+    v_payment.currency,
+    NULLIF(btrim(p_reason), ''),
+    p_requested_by
+  )
+  RETURNING id INTO v_refund_id;
+
+  RETURN QUERY SELECT
+    v_refund_id,
+    v_amount,
+    v_payment.currency,
+    v_payment.payment_method,
+    COALESCE(v_payment.stripe_details->>'payment_intent_id', v_payment.payment_id),
+    v_payment.paypal_details->>'capture_id';
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.complete_refund(uuid, boolean, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.complete_refund(
+  p_refund_id uuid,
+  p_succeeded boolean,
+  p_provider_refund_id text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_refund woolwitch.refunds%ROWTYPE;
+  v_refunded numeric;
+BEGIN
+  SELECT * INTO v_refund
+  FROM woolwitch.refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF v_refund.id IS NULL THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund has already been completed';
+  END IF;
+
+  UPDATE woolwitch.refunds
+  SET status = CASE WHEN p_succeeded THEN 'succeeded' ELSE 'failed' END,
+      provider_refund_id = p_provider_refund_id,
+      failure_reason = CASE WHEN p_succeeded THEN NULL ELSE left(p_failure_reason, 500) END,
+      updated_at = now()
+  WHERE id = p_refund_id;
+
+  IF NOT p_succeeded THEN
+    RETURN;
+  END IF;
+
+  UPDATE woolwitch.orders
+  SET refunded_total = refunded_total + v_refund.amount,
+      updated_at = now()
+  WHERE id = v_refund.order_id;
+
+  -- Mark the payment refunded once nothing is left to refund
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded
+  FROM woolwitch.refunds
+  WHERE payment_id = v_refund.payment_id
+    AND status = 'succeeded';
+
+  UPDATE woolwitch.payments
+  SET status = 'refunded',
+      updated_at = now()
+  WHERE id = v_refund.payment_id
+    AND v_refunded >= amount;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: REFUNDS
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_refunds(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_refunds(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  amount numeric,
+  currency text,
+  reason text,
+  status text,
+  failure_reason text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.order_id,
+    r.amount,
+    r.currency,
+    r.reason,
+    r.status,
+    r.failure_reason,
+    r.created_at
+  FROM woolwitch.refunds r
+  WHERE r.order_id = p_order_id
+  ORDER BY r.created_at;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE ORDER READS - Include refunded_total
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.total,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+  ORDER BY o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.refunds TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.refunds TO service_role, postgres;
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION woolwitch_api.complete_refund(uuid, boolean, text, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.complete_refund(uuid, boolean, text, text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_refunds(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) IS 'Records a pending refund against an order''s payment after checking the refundable balance (service role only)';
+COMMENT ON FUNCTION woolwitch_api.complete_refund(uuid, boolean, text, text) IS 'Marks a refund succeeded or failed and updates order and payment totals (service role only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_refunds(uuid) IS 'Refunds for an order (owner or admin)';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
@@ -0,0 +1,347 @@
+-- Guest order access
+-- Guests (orders.user_id IS NULL) cannot use get_user_orders, so they look an
+-- order up with their email address and order reference instead. A successful
+-- lookup returns a signed, expiring access token; the get_guest_order_*
+-- functions validate that token in place of auth.uid().
+--
+-- Token format: <order_id>.<expires_at epoch>.<hex HMAC-SHA256 of the first two parts>
+-- The signing key lives in woolwitch.signing_keys and never leaves the database.
+--
+-- Order reference: the last 8 characters of the order id, as shown to
+-- customers (e.g. #3F2A9C01).
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- ========================================
+-- SIGNING KEYS
+-- ========================================
+
+CREATE TABLE woolwitch.signing_keys (
+  purpose text PRIMARY KEY,
+  secret bytea NOT NULL DEFAULT extensions.gen_random_bytes(32),
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- No policies: only SECURITY DEFINER functions read this table
+ALTER TABLE woolwitch.signing_keys ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO woolwitch.signing_keys (purpose) VALUES ('guest_order_access');
+
+COMMENT ON TABLE woolwitch.signing_keys IS 'HMAC keys for tokens issued by the database (rotate by updating secret)';
+
+-- ========================================
+-- LOOKUP ATTEMPTS (rate limiting)
+-- ========================================
+
+CREATE TABLE woolwitch.guest_order_lookups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  succeeded boolean NOT NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_guest_order_lookups_email ON woolwitch.guest_order_lookups(email, created_at);
+CREATE INDEX idx_guest_order_lookups_created ON woolwitch.guest_order_lookups(created_at);
+
+ALTER TABLE woolwitch.guest_order_lookups ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE woolwitch.guest_order_lookups IS 'Guest order lookup attempts, used to rate limit reference guessing';
+
+-- ========================================
+-- TOKEN HELPERS
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.sign_guest_order_token(p_order_id uuid, p_expires_at timestamptz)
+RETURNS text AS $$
+DECLARE
+  v_payload text;
+BEGIN
+  v_payload := p_order_id::text || '.' || floor(extract(epoch FROM p_expires_at))::bigint::text;
+
+  RETURN v_payload || '.' || encode(
+    extensions.hmac(
+      convert_to(v_payload, 'UTF8'),
+      (SELECT secret FROM woolwitch.signing_keys WHERE purpose = 'guest_order_access'),
+      'sha256'
+    ),
+    'hex'
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Returns the order id for a valid, unexpired token
+CREATE OR REPLACE FUNCTION woolwitch.verify_guest_order_token(p_token text)
+RETURNS uuid AS $$
+DECLARE
+  v_parts text[];
+  v_order_id uuid;
+  v_expires_at timestamptz;
+BEGIN
+  v_parts := string_to_array(COALESCE(p_token, ''), '.');
+
+  IF array_length(v_parts, 1) IS DISTINCT FROM 3
+     OR v_parts[1] !~ '^[0-9a-f-]{36}$'
+     OR v_parts[2] !~ '^[0-9]{1,12}$' THEN
+    RAISE EXCEPTION 'Invalid or expired order link';
+  END IF;
+
+  v_order_id := v_parts[1]::uuid;
+  v_expires_at := to_timestamp(v_parts[2]::bigint);
+
+  IF v_expires_at < now()
+     OR woolwitch.sign_guest_order_token(v_order_id, v_expires_at) <> p_token THEN
+    RAISE EXCEPTION 'Invalid or expired order link';
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- API: GUEST ORDER LOOKUP
+-- ========================================
+
+-- Returns no rows when the email and reference do not match an order, so
+-- failed attempts are recorded for rate limiting.
+DROP FUNCTION IF EXISTS woolwitch_api.request_guest_order_access(text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.request_guest_order_access(
+  p_email text,
+  p_order_reference text
+)
+RETURNS TABLE (
+  order_id uuid,
+  access_token text,
+  expires_at timestamptz
+) AS $$
+DECLARE
+  v_email text;
+  v_reference text;
+  v_order_id uuid;
+  v_expires_at timestamptz;
+BEGIN
+  v_email := lower(btrim(COALESCE(p_email, '')));
+  v_reference := lower(regexp_replace(COALESCE(p_order_reference, ''), '[^A-Za-z0-9]', '', 'g'));
+
+  IF v_email = '' OR length(v_reference) <> 8 THEN
+    RAISE EXCEPTION 'Enter the email address and 8 character order reference from your order';
+  END IF;
+
+  -- At most 10 failed attempts per email, and 200 overall, per hour
+  IF (SELECT COUNT(*) FROM woolwitch.guest_order_lookups l
+      WHERE l.email = v_email AND NOT l.succeeded AND l.created_at > now() - interval '1 hour') >= 10
+     OR (SELECT COUNT(*) FROM woolwitch.guest_order_lookups l
+      WHERE NOT l.succeeded AND l.created_at > now() - interval '1 hour') >= 200 THEN
+    RAISE EXCEPTION 'Too many lookup attempts. Please try again later.';
+  END IF;
+
+  SELECT o.id INTO v_order_id
+  FROM woolwitch.orders o
+  WHERE lower(o.email) = v_email
+    AND right(o.id::text, 8) = v_reference
+  LIMIT 1;
+
+  INSERT INTO woolwitch.guest_order_lookups (email, succeeded)
+  VALUES (v_email, v_order_id IS NOT NULL);
+
+  IF v_order_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_expires_at := now() + interval '24 hours';
+
+  RETURN QUERY SELECT
+    v_order_id,
+    woolwitch.sign_guest_order_token(v_order_id, v_expires_at),
+    date_trunc('second', v_expires_at);
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order_items(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order_items(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  product_id uuid,
+  product_name text,
+  product_price numeric,
+  quantity integer,
+  delivery_charge numeric,
+  custom_selections jsonb,
+  created_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    oi.id,
+    oi.order_id,
+    oi.product_id,
+    oi.product_name,
+    oi.product_price,
+    oi.quantity,
+    oi.delivery_charge,
+    oi.custom_selections,
+    oi.created_at
+  FROM woolwitch.order_items oi
+  WHERE oi.order_id = v_order_id
+  ORDER BY oi.created_at;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order_status_history(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order_status_history(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  from_status text,
+  to_status text,
+  note text,
+  changed_by_admin boolean,
+  created_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    h.id,
+    h.order_id,
+    h.from_status,
+    h.to_status,
+    h.note,
+    EXISTS (
+      SELECT 1 FROM woolwitch.user_roles ur
+      WHERE ur.user_id = h.changed_by AND ur.role = 'admin'
+    ),
+    h.created_at
+  FROM woolwitch.order_status_history h
+  WHERE h.order_id = v_order_id
+  ORDER BY h.created_at, h.id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order_shipments(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order_shipments(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  carrier text,
+  tracking_number text,
+  dispatched_at date,
+  created_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.order_id,
+    s.carrier,
+    s.tracking_number,
+    s.dispatched_at,
+    s.created_at
+  FROM woolwitch.shipments s
+  WHERE s.order_id = v_order_id
+  ORDER BY s.dispatched_at, s.created_at;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT ALL PRIVILEGES ON woolwitch.signing_keys TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.guest_order_lookups TO service_role, postgres;
+
+REVOKE EXECUTE ON FUNCTION woolwitch.sign_guest_order_token(uuid, timestamptz) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.verify_guest_order_token(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION woolwitch.sign_guest_order_token(uuid, timestamptz) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch.verify_guest_order_token(text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.request_guest_order_access(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order_items(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order_status_history(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order_shipments(text) TO anon, authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.sign_guest_order_token(uuid, timestamptz) IS 'Signs a guest order access token with the guest_order_access key';
+COMMENT ON FUNCTION woolwitch.verify_guest_order_token(text) IS 'Validates a guest order access token and returns its order id';
+COMMENT ON FUNCTION woolwitch_api.request_guest_order_access(text, text) IS 'Exchanges email + order reference for a 24 hour order access token (rate limited)';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order_items(text) IS 'Order items for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order_status_history(text) IS 'Status timeline for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order_shipments(text) IS 'Shipments for a guest access token';
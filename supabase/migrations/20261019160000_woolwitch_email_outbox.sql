@@ -0,0 +1,403 @@
+-- Transactional email outbox
+-- Order emails are queued by trigger in the same transaction as the order
+-- change, so an email is never lost when the order commits and never sent
+-- when it rolls back. The send-order-emails edge function drains the queue
+-- with the service role:
+--   1. claim_order_emails marks due emails 'sending' and returns the order,
+--      item and shipment data needed to render them
+--   2. the edge function renders and delivers each email through the
+--      configured transport (SMTP, or Inbucket in local development)
+--   3. record_email_delivery logs the attempt and marks the email sent, or
+--      schedules a retry with exponential backoff until max_attempts
+-- Each order gets at most one email per template.
+
+-- ========================================
+-- EMAIL OUTBOX TABLES
+-- ========================================
+
+CREATE TABLE woolwitch.email_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES woolwitch.orders(id) ON DELETE CASCADE,
+  template text NOT NULL
+    CHECK (template IN ('order_confirmation', 'payment_received', 'order_shipped', 'order_cancelled')),
+  recipient text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts int NOT NULL DEFAULT 0 CHECK (attempts >= 0),
+  max_attempts int NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  next_attempt_at timestamptz DEFAULT now() NOT NULL,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (order_id, template)
+);
+
+CREATE INDEX idx_email_outbox_due ON woolwitch.email_outbox(status, next_attempt_at);
+CREATE INDEX idx_email_outbox_created ON woolwitch.email_outbox(created_at DESC);
+
+CREATE TABLE woolwitch.email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email_id uuid NOT NULL REFERENCES woolwitch.email_outbox(id) ON DELETE CASCADE,
+  attempt int NOT NULL,
+  transport text NOT NULL,
+  succeeded boolean NOT NULL,
+  error text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_email_deliveries_email ON woolwitch.email_deliveries(email_id, created_at);
+
+ALTER TABLE woolwitch.email_outbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE woolwitch.email_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin email access" ON woolwitch.email_outbox
+  FOR SELECT USING (woolwitch.is_admin());
+
+CREATE POLICY "Admin email delivery access" ON woolwitch.email_deliveries
+  FOR SELECT USING (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.email_outbox IS 'Queued order emails, one per order and template, drained by the send-order-emails edge function';
+COMMENT ON TABLE woolwitch.email_deliveries IS 'Delivery log - one row per attempt to send an outbox email';
+
+-- ========================================
+-- ENQUEUE TRIGGER
+-- ========================================
+
+-- Queues the confirmation when an order is placed and a status email when it
+-- becomes paid, shipped or cancelled.
+CREATE OR REPLACE FUNCTION woolwitch.enqueue_order_emails()
+RETURNS trigger AS $$
+DECLARE
+  v_template text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO woolwitch.email_outbox (order_id, template, recipient)
+    VALUES (NEW.id, 'order_confirmation', NEW.email)
+    ON CONFLICT (order_id, template) DO NOTHING;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    v_template := CASE NEW.status
+      WHEN 'paid' THEN 'payment_received'
+      WHEN 'shipped' THEN 'order_shipped'
+      WHEN 'cancelled' THEN 'order_cancelled'
+    END;
+
+    IF v_template IS NOT NULL THEN
+      INSERT INTO woolwitch.email_outbox (order_id, template, recipient)
+      VALUES (NEW.id, v_template, NEW.email)
+      ON CONFLICT (order_id, template) DO NOTHING;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+DROP TRIGGER IF EXISTS enqueue_order_emails ON woolwitch.orders;
+CREATE TRIGGER enqueue_order_emails
+  AFTER INSERT OR UPDATE OF status ON woolwitch.orders
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.enqueue_order_emails();
+
+-- ========================================
+-- EMAIL RENDERING DATA
+-- ========================================
+
+-- Everything the email templates need about an order, read at send time so
+-- shipped emails include the parcels recorded alongside the status change
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'total', o.total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- DELIVERY WORKFLOW (service role only)
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.claim_order_emails(int) CASCADE;
+CREATE FUNCTION woolwitch_api.claim_order_emails(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  email_id uuid,
+  template text,
+  recipient text,
+  attempt int,
+  order_data jsonb
+) AS $$
+BEGIN
+  -- Emails left 'sending' by a run that died are picked up again after 15 minutes
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE woolwitch.email_outbox e
+    SET status = 'sending',
+        attempts = e.attempts + 1,
+        updated_at = now()
+    WHERE e.id IN (
+      SELECT q.id
+      FROM woolwitch.email_outbox q
+      WHERE q.attempts < q.max_attempts
+      AND (
+        (q.status = 'pending' AND q.next_attempt_at <= now())
+        OR (q.status = 'sending' AND q.updated_at < now() - interval '15 minutes')
+      )
+      ORDER BY q.next_attempt_at
+      LIMIT LEAST(GREATEST(p_limit, 1), 100)
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING e.id, e.order_id, e.template, e.recipient, e.attempts
+  )
+  SELECT
+    c.id,
+    c.template,
+    c.recipient,
+    c.attempts,
+    woolwitch.build_order_email_data(c.order_id)
+  FROM claimed c;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.record_email_delivery(uuid, boolean, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.record_email_delivery(
+  p_email_id uuid,
+  p_succeeded boolean,
+  p_transport text,
+  p_error text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_email woolwitch.email_outbox%ROWTYPE;
+BEGIN
+  SELECT * INTO v_email
+  FROM woolwitch.email_outbox
+  WHERE id = p_email_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email not found';
+  END IF;
+
+  INSERT INTO woolwitch.email_deliveries (email_id, attempt, transport, succeeded, error)
+  VALUES (p_email_id, v_email.attempts, p_transport, p_succeeded, left(p_error, 1000));
+
+  IF p_succeeded THEN
+    UPDATE woolwitch.email_outbox
+    SET status = 'sent',
+        sent_at = now(),
+        last_error = NULL,
+        updated_at = now()
+    WHERE id = p_email_id;
+  ELSIF v_email.attempts >= v_email.max_attempts THEN
+    UPDATE woolwitch.email_outbox
+    SET status = 'failed',
+        last_error = left(p_error, 1000),
+        updated_at = now()
+    WHERE id = p_email_id;
+  ELSE
+    -- Back off 4, 16, 64, 256 minutes between attempts
+    UPDATE woolwitch.email_outbox
+    SET status = 'pending',
+        last_error = left(p_error, 1000),
+        next_attempt_at = now() + interval '1 minute' * power(4, v_email.attempts),
+        updated_at = now()
+    WHERE id = p_email_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: EMAIL LOG (admin only)
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_email_outbox(text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_email_outbox(
+  p_status text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  template text,
+  recipient text,
+  status text,
+  attempts int,
+  max_attempts int,
+  next_attempt_at timestamptz,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.order_id,
+    e.template,
+    e.recipient,
+    e.status,
+    e.attempts,
+    e.max_attempts,
+    e.next_attempt_at,
+    e.last_error,
+    e.sent_at,
+    e.created_at
+  FROM woolwitch.email_outbox e
+  WHERE (p_status IS NULL OR e.status = p_status)
+  ORDER BY e.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_email_deliveries(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_email_deliveries(p_email_id uuid)
+RETURNS TABLE (
+  id uuid,
+  email_id uuid,
+  attempt int,
+  transport text,
+  succeeded boolean,
+  error text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.email_id,
+    d.attempt,
+    d.transport,
+    d.succeeded,
+    d.error,
+    d.created_at
+  FROM woolwitch.email_deliveries d
+  WHERE d.email_id = p_email_id
+  ORDER BY d.created_at;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Queues an email to be sent again on the next run. Works for failed emails
+-- and for resending one the customer says never arrived.
+DROP FUNCTION IF EXISTS woolwitch_api.retry_email(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.retry_email(p_email_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_status text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT e.status INTO v_status
+  FROM woolwitch.email_outbox e
+  WHERE e.id = p_email_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Email not found';
+  END IF;
+
+  IF v_status = 'sending' THEN
+    RAISE EXCEPTION 'Email is being sent';
+  END IF;
+
+  UPDATE woolwitch.email_outbox
+  SET status = 'pending',
+      next_attempt_at = now(),
+      max_attempts = GREATEST(max_attempts, attempts + 1),
+      updated_at = now()
+  WHERE id = p_email_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.email_outbox TO authenticated;
+GRANT SELECT ON woolwitch.email_deliveries TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.email_outbox TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.email_deliveries TO service_role, postgres;
+
+REVOKE EXECUTE ON FUNCTION woolwitch.enqueue_order_emails() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.build_order_email_data(uuid) FROM PUBLIC;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.claim_order_emails(int) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION woolwitch_api.record_email_delivery(uuid, boolean, text, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.claim_order_emails(int) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.record_email_delivery(uuid, boolean, text, text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_email_deliveries(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.retry_email(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.enqueue_order_emails() IS 'Trigger: queues order emails when an order is placed, paid, shipped or cancelled';
+COMMENT ON FUNCTION woolwitch.build_order_email_data(uuid) IS 'Order, items and shipments as JSON for rendering order emails';
+COMMENT ON FUNCTION woolwitch_api.claim_order_emails(int) IS 'Claims due outbox emails for sending and returns their render data (service role only)';
+COMMENT ON FUNCTION woolwitch_api.record_email_delivery(uuid, boolean, text, text) IS 'Logs a delivery attempt and marks the email sent, retrying or failed (service role only)';
+COMMENT ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) IS 'Outbox emails, newest first, optionally filtered by status (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_email_deliveries(uuid) IS 'Delivery attempts for an outbox email (admin only)';
+COMMENT ON FUNCTION woolwitch_api.retry_email(uuid) IS 'Queues an outbox email to be sent again (admin only)';
@@ -0,0 +1,209 @@
+-- Invoices
+-- Every order gets a sequential invoice number the first time it is paid.
+-- Numbers come from a single counter row that is locked while issuing, so
+-- they are gapless and in payment order. The generate-invoice edge function
+-- renders the invoice (and admin packing slips) as PDF or print-friendly
+-- HTML from get_order_invoice.
+
+-- ========================================
+-- INVOICE TABLES
+-- ========================================
+
+CREATE TABLE woolwitch.invoice_counter (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  last_number bigint NOT NULL DEFAULT 0
+);
+
+INSERT INTO woolwitch.invoice_counter (id, last_number) VALUES (true, 0);
+
+ALTER TABLE woolwitch.invoice_counter ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE woolwitch.invoice_counter IS 'Last issued invoice number (single row, no client access)';
+
+CREATE TABLE woolwitch.invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES woolwitch.orders(id) ON DELETE RESTRICT,
+  invoice_number bigint NOT NULL UNIQUE,
+  issued_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE woolwitch.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Invoice access" ON woolwitch.invoices
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM woolwitch.orders
+      WHERE id = order_id
+      AND (user_id = auth.uid() OR woolwitch.is_admin())
+    )
+  );
+
+COMMENT ON TABLE woolwitch.invoices IS 'Invoice numbers issued to paid orders; orders with an invoice cannot be deleted';
+
+-- ========================================
+-- ISSUING
+-- ========================================
+
+-- Returns the order's invoice, issuing the next number if it has none
+CREATE OR REPLACE FUNCTION woolwitch.issue_invoice(p_order_id uuid)
+RETURNS woolwitch.invoices AS $$
+DECLARE
+  v_invoice woolwitch.invoices%ROWTYPE;
+  v_number bigint;
+BEGIN
+  SELECT * INTO v_invoice FROM woolwitch.invoices WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  -- The row lock serialises issuing so numbers are never skipped or reused
+  UPDATE woolwitch.invoice_counter
+  SET last_number = last_number + 1
+  WHERE id
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO woolwitch.invoices (order_id, invoice_number)
+  VALUES (p_order_id, v_number)
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+CREATE OR REPLACE FUNCTION woolwitch.issue_invoice_on_payment()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'paid' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+    PERFORM woolwitch.issue_invoice(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+DROP TRIGGER IF EXISTS issue_invoice_on_payment ON woolwitch.orders;
+CREATE TRIGGER issue_invoice_on_payment
+  AFTER INSERT OR UPDATE OF status ON woolwitch.orders
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.issue_invoice_on_payment();
+
+-- Backfill orders that were paid before invoices existed, oldest first
+DO $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  FOR v_order_id IN
+    SELECT o.id
+    FROM woolwitch.orders o
+    WHERE o.status IN ('paid', 'shipped', 'delivered')
+    OR EXISTS (
+      SELECT 1 FROM woolwitch.order_status_history h
+      WHERE h.order_id = o.id AND h.to_status = 'paid'
+    )
+    ORDER BY o.created_at, o.id
+  LOOP
+    PERFORM woolwitch.issue_invoice(v_order_id);
+  END LOOP;
+END;
+$$;
+
+-- ========================================
+-- API: INVOICES
+-- ========================================
+
+-- Everything needed to render an invoice or packing slip. invoice is null
+-- until the order has been paid.
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_invoice(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_invoice(p_order_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'invoice', (
+      SELECT jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'issued_at', inv.issued_at
+      )
+      FROM woolwitch.invoices inv
+      WHERE inv.order_id = o.id
+    ),
+    'order', jsonb_build_object(
+      'id', o.id,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'total', o.total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'delivery_charge', i.delivery_charge,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', p.payment_method,
+        'amount', p.amount,
+        'currency', p.currency,
+        'status', p.status,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM woolwitch.payments p
+      WHERE p.order_id = o.id
+      AND p.status IN ('completed', 'refunded')
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.invoices TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.invoices TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.invoice_counter TO service_role, postgres;
+
+REVOKE EXECUTE ON FUNCTION woolwitch.issue_invoice(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.issue_invoice_on_payment() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_invoice(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.issue_invoice(uuid) IS 'Returns the order''s invoice, issuing the next sequential number if needed';
+COMMENT ON FUNCTION woolwitch.issue_invoice_on_payment() IS 'Trigger: issues an invoice when an order becomes paid';
+COMMENT ON FUNCTION woolwitch_api.get_order_invoice(uuid) IS 'Invoice number, order, items and captured payments for rendering an invoice or packing slip (owner or admin)';
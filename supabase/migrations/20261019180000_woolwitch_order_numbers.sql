@@ -0,0 +1,674 @@
+-- Order numbers
+-- Human-readable order numbers such as WW-2026-00042, sequential within each
+-- calendar year. create_order takes the next number from a per-year counter
+-- row (locked by the upsert), so concurrent orders never share or skip a
+-- number. Existing orders are numbered in the order they were placed.
+-- Guest order lookup accepts the order number as well as the 8 character
+-- reference shown before order numbers existed.
+
+-- ========================================
+-- ORDER NUMBER COUNTERS
+-- ========================================
+
+CREATE TABLE woolwitch.order_number_counters (
+  year int PRIMARY KEY,
+  last_number int NOT NULL DEFAULT 0
+);
+
+ALTER TABLE woolwitch.order_number_counters ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE woolwitch.order_number_counters IS 'Last order number issued per calendar year (no client access)';
+
+CREATE OR REPLACE FUNCTION woolwitch.next_order_number(p_year int)
+RETURNS text AS $$
+DECLARE
+  v_number int;
+BEGIN
+  INSERT INTO woolwitch.order_number_counters AS c (year, last_number)
+  VALUES (p_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_number = c.last_number + 1
+  RETURNING c.last_number INTO v_number;
+
+  RETURN 'WW-' || p_year || '-' || lpad(v_number::text, GREATEST(5, length(v_number::text)), '0');
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- ORDERS.ORDER_NUMBER
+-- ========================================
+
+ALTER TABLE woolwitch.orders ADD COLUMN order_number text;
+
+DO $$
+DECLARE
+  v_order record;
+BEGIN
+  FOR v_order IN
+    SELECT o.id, o.created_at
+    FROM woolwitch.orders o
+    ORDER BY o.created_at, o.id
+  LOOP
+    UPDATE woolwitch.orders
+    SET order_number = woolwitch.next_order_number(
+      extract(year FROM COALESCE(v_order.created_at, now()) AT TIME ZONE 'UTC')::int
+    )
+    WHERE id = v_order.id;
+  END LOOP;
+END;
+$$;
+
+ALTER TABLE woolwitch.orders ALTER COLUMN order_number SET NOT NULL;
+ALTER TABLE woolwitch.orders ADD CONSTRAINT orders_order_number_key UNIQUE (order_number);
+
+COMMENT ON COLUMN woolwitch.orders.order_number IS 'Customer-facing order number, e.g. WW-2026-00042 (assigned by create_order)';
+
+-- ========================================
+-- UPDATE create_order - Assign order number
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_quote record;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- Price the order from the product table
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    total,
+    status,
+    payment_method,
+    stock_reserved
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    p_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.total,
+    'pending',
+    p_payment_method,
+    true
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE ORDER READS - Include order_number
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.order_number,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.total,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the order number (with or without dashes), email or name
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (
+      v_pattern IS NULL
+      OR o.order_number ILIKE v_pattern
+      OR (v_compact_pattern <> '%%' AND replace(o.order_number, '-', '') ILIKE v_compact_pattern)
+      OR o.email ILIKE v_pattern
+      OR o.full_name ILIKE v_pattern
+    )
+  ORDER BY o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE GUEST ORDER ACCESS - Order numbers
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.request_guest_order_access(text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.request_guest_order_access(
+  p_email text,
+  p_order_reference text
+)
+RETURNS TABLE (
+  order_id uuid,
+  access_token text,
+  expires_at timestamptz
+) AS $$
+DECLARE
+  v_email text;
+  v_reference text;
+  v_order_id uuid;
+  v_expires_at timestamptz;
+BEGIN
+  v_email := lower(btrim(COALESCE(p_email, '')));
+  v_reference := lower(regexp_replace(COALESCE(p_order_reference, ''), '[^A-Za-z0-9]', '', 'g'));
+
+  IF v_email = '' OR length(v_reference) < 8 THEN
+    RAISE EXCEPTION 'Enter the email address and order number from your order';
+  END IF;
+
+  -- At most 10 failed attempts per email, and 200 overall, per hour
+  IF (SELECT COUNT(*) FROM woolwitch.guest_order_lookups l
+      WHERE l.email = v_email AND NOT l.succeeded AND l.created_at > now() - interval '1 hour') >= 10
+     OR (SELECT COUNT(*) FROM woolwitch.guest_order_lookups l
+      WHERE NOT l.succeeded AND l.created_at > now() - interval '1 hour') >= 200 THEN
+    RAISE EXCEPTION 'Too many lookup attempts. Please try again later.';
+  END IF;
+
+  -- Order number (dashes optional), or the 8 character reference from the
+  -- end of the order id that was shown before order numbers existed
+  SELECT o.id INTO v_order_id
+  FROM woolwitch.orders o
+  WHERE lower(o.email) = v_email
+    AND (
+      lower(replace(o.order_number, '-', '')) = v_reference
+      OR right(o.id::text, 8) = v_reference
+    )
+  LIMIT 1;
+
+  INSERT INTO woolwitch.guest_order_lookups (email, succeeded)
+  VALUES (v_email, v_order_id IS NOT NULL);
+
+  IF v_order_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_expires_at := now() + interval '24 hours';
+
+  RETURN QUERY SELECT
+    v_order_id,
+    woolwitch.sign_guest_order_token(v_order_id, v_expires_at),
+    date_trunc('second', v_expires_at);
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL AND INVOICE DATA - Include order_number
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'total', o.total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_invoice(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_invoice(p_order_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'invoice', (
+      SELECT jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'issued_at', inv.issued_at
+      )
+      FROM woolwitch.invoices inv
+      WHERE inv.order_id = o.id
+    ),
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'total', o.total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'delivery_charge', i.delivery_charge,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', p.payment_method,
+        'amount', p.amount,
+        'currency', p.currency,
+        'status', p.status,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM woolwitch.payments p
+      WHERE p.order_id = o.id
+      AND p.status IN ('completed', 'refunded')
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_email_outbox(text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_email_outbox(
+  p_status text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  order_number text,
+  template text,
+  recipient text,
+  status text,
+  attempts int,
+  max_attempts int,
+  next_attempt_at timestamptz,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.order_id,
+    o.order_number,
+    e.template,
+    e.recipient,
+    e.status,
+    e.attempts,
+    e.max_attempts,
+    e.next_attempt_at,
+    e.last_error,
+    e.sent_at,
+    e.created_at
+  FROM woolwitch.email_outbox e
+  JOIN woolwitch.orders o ON o.id = e.order_id
+  WHERE (p_status IS NULL OR e.status = p_status)
+  ORDER BY e.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT ALL PRIVILEGES ON woolwitch.order_number_counters TO service_role, postgres;
+REVOKE EXECUTE ON FUNCTION woolwitch.next_order_number(int) FROM PUBLIC;
+
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.request_guest_order_access(text, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_invoice(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.next_order_number(int) IS 'Issues the next order number for a year, e.g. WW-2026-00042';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order priced by quote_order (rejects mismatched client totals with WWP01), assigns its order number and reserves stock';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters and search by order number, email or name (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
+COMMENT ON FUNCTION woolwitch_api.request_guest_order_access(text, text) IS 'Exchanges email + order number for a 24 hour order access token (rate limited)';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_order_invoice(uuid) IS 'Invoice number, order, items and captured payments for rendering an invoice or packing slip (owner or admin)';
+COMMENT ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) IS 'Outbox emails, newest first, optionally filtered by status (admin only)';
@@ -0,0 +1,400 @@
+-- Checkout idempotency
+-- Checkout generates an idempotency key for each payment it takes and sends
+-- it with create_order and create_payment. Retrying with the same key (after
+-- a dropped response or a double submit) returns the order / payment made by
+-- the first attempt instead of creating another one.
+--
+-- Successful payments are recorded by the confirm-payment edge function,
+-- which checks the payment with Stripe / PayPal and then calls
+-- record_verified_payment with the service role. Admins use the same
+-- function to link an orphaned payment (taken by the provider but never
+-- recorded) to its order.
+
+-- ========================================
+-- IDEMPOTENCY KEYS
+-- ========================================
+
+ALTER TABLE woolwitch.orders ADD COLUMN idempotency_key uuid;
+ALTER TABLE woolwitch.orders ADD CONSTRAINT orders_idempotency_key_key UNIQUE (idempotency_key);
+
+ALTER TABLE woolwitch.payments ADD COLUMN idempotency_key uuid;
+ALTER TABLE woolwitch.payments ADD CONSTRAINT payments_idempotency_key_key UNIQUE (idempotency_key);
+
+COMMENT ON COLUMN woolwitch.orders.idempotency_key IS 'Checkout attempt key; create_order returns the existing order when it is reused';
+COMMENT ON COLUMN woolwitch.payments.idempotency_key IS 'Checkout attempt key; create_payment returns the existing payment when it is reused';
+
+-- ========================================
+-- UPDATE create_order - Idempotency key
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_quote record;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  -- Price the order from the product table
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    total,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    p_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.total,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE create_payment - Idempotency key
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_payment(uuid, text, text, numeric, text, jsonb, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_status text DEFAULT 'pending',
+  p_paypal_details jsonb DEFAULT NULL,
+  p_stripe_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_payment_id uuid;
+  v_existing_order_id uuid;
+  v_order_total numeric;
+  v_order_user_id uuid;
+BEGIN
+  -- Get order details and validate access
+  SELECT total, user_id INTO v_order_total, v_order_user_id
+  FROM woolwitch.orders
+  WHERE id = p_order_id;
+
+  -- Ensure order exists
+  IF v_order_total IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Verify user has access to this order
+  IF NOT (v_order_user_id = auth.uid() OR v_order_user_id IS NULL OR woolwitch.is_admin()) THEN
+    RAISE EXCEPTION 'Access denied to order';
+  END IF;
+
+  -- A retried checkout returns the payment recorded by the first attempt
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT p.id, p.order_id INTO v_payment_id, v_existing_order_id
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key;
+
+    IF v_payment_id IS NOT NULL THEN
+      IF v_existing_order_id <> p_order_id THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another payment';
+      END IF;
+
+      RETURN v_payment_id;
+    END IF;
+  END IF;
+
+  -- Validate payment amount matches order total
+  IF ABS(p_amount - v_order_total) > 0.01 THEN
+    RAISE EXCEPTION 'Payment amount % does not match order total %', p_amount, v_order_total;
+  END IF;
+
+  -- Only allow 'pending' status from client
+  -- Payment status should be updated by webhook/backend verification
+  IF p_status != 'pending' AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admin can set payment status to %', p_status;
+  END IF;
+
+  INSERT INTO woolwitch.payments (
+    order_id,
+    payment_method,
+    payment_id,
+    status,
+    amount,
+    currency,
+    paypal_details,
+    stripe_details,
+    idempotency_key
+  ) VALUES (
+    p_order_id,
+    p_payment_method,
+    p_payment_id,
+    p_status,
+    v_order_total,  -- Use validated order total
+    'GBP',
+    p_paypal_details,
+    p_stripe_details,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- VERIFIED PAYMENTS (service role only)
+-- ========================================
+
+-- Records a payment the confirm-payment edge function has checked with the
+-- provider. Completes the checkout's pending payment (matched by provider
+-- payment id, then idempotency key) or records a new one, and moves a
+-- pending order to paid. Safe to call again for the same payment.
+DROP FUNCTION IF EXISTS woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.record_verified_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_currency text,
+  p_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_id uuid,
+  order_status text
+) AS $$
+DECLARE
+  v_order woolwitch.orders%ROWTYPE;
+  v_payment woolwitch.payments%ROWTYPE;
+  v_other_order_number text;
+BEGIN
+  IF p_payment_method NOT IN ('card', 'paypal') THEN
+    RAISE EXCEPTION 'Invalid payment method: %', p_payment_method;
+  END IF;
+
+  IF NULLIF(btrim(p_payment_id), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment id is required';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF upper(p_currency) <> 'GBP' OR ABS(p_amount - v_order.total) > 0.01 THEN
+    RAISE EXCEPTION 'Payment of % % does not match order total %', p_amount, upper(p_currency), v_order.total;
+  END IF;
+
+  -- A provider payment can only pay for one order
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.payment_method = p_payment_method
+    AND p.payment_id = p_payment_id
+  ORDER BY p.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND AND v_payment.order_id <> p_order_id THEN
+    SELECT o.order_number INTO v_other_order_number
+    FROM woolwitch.orders o
+    WHERE o.id = v_payment.order_id;
+
+    RAISE EXCEPTION 'Payment is already linked to order %', v_other_order_number;
+  END IF;
+
+  IF NOT FOUND AND p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_payment
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key
+      AND p.order_id = p_order_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    INSERT INTO woolwitch.payments (
+      order_id,
+      payment_method,
+      payment_id,
+      status,
+      amount,
+      currency,
+      paypal_details,
+      stripe_details,
+      idempotency_key
+    ) VALUES (
+      p_order_id,
+      p_payment_method,
+      p_payment_id,
+      'completed',
+      v_order.total,
+      'GBP',
+      CASE WHEN p_payment_method = 'paypal' THEN p_details END,
+      CASE WHEN p_payment_method = 'card' THEN p_details END,
+      p_idempotency_key
+    )
+    RETURNING * INTO v_payment;
+  ELSIF v_payment.status IN ('pending', 'failed') THEN
+    UPDATE woolwitch.payments p
+    SET
+      payment_id = p_payment_id,
+      status = 'completed',
+      paypal_details = CASE
+        WHEN p_payment_method = 'paypal' AND p_details IS NOT NULL
+        THEN COALESCE(p.paypal_details, '{}'::jsonb) || p_details
+        ELSE p.paypal_details
+      END,
+      stripe_details = CASE
+        WHEN p_payment_method = 'card' AND p_details IS NOT NULL
+        THEN COALESCE(p.stripe_details, '{}'::jsonb) || p_details
+        ELSE p.stripe_details
+      END,
+      updated_at = now()
+    WHERE p.id = v_payment.id
+    RETURNING * INTO v_payment;
+  END IF;
+
+  -- Move the order to paid (later states, and cancelled orders that now need
+  -- a refund, are left alone)
+  IF v_order.status = 'pending' THEN
+    PERFORM set_config('woolwitch.status_note', COALESCE(btrim(p_note), ''), true);
+
+    UPDATE woolwitch.orders o
+    SET status = 'paid',
+        updated_at = now()
+    WHERE o.id = p_order_id
+    RETURNING o.status INTO v_order.status;
+
+    PERFORM set_config('woolwitch.status_note', '', true);
+  END IF;
+
+  RETURN QUERY SELECT v_payment.id, v_order.status;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_payment(uuid, text, text, numeric, text, jsonb, jsonb, uuid) TO authenticated, anon;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) TO service_role;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order priced by quote_order (rejects mismatched client totals with WWP01), assigns its order number and reserves stock; returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.create_payment IS 'Creates payment record - validates amount, restricts status to pending for non-admin; returns the existing payment for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) IS 'Records a provider-verified payment as completed and marks a pending order paid (service role only)';
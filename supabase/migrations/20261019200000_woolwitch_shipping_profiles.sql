@@ -0,0 +1,1062 @@
+-- Shipping profiles
+-- Delivery used to be each product's delivery_charge times its quantity, so
+-- three hats paid three postage fees. Products can now be assigned a
+-- shipping profile, and each profile is charged once per order for all of
+-- its items:
+--
+--   * flat      - first_item once, however many items
+--   * per_item  - first_item for the first item, additional_item for each
+--                 one after it
+--   * weight    - first_item of the weight band the parcel falls in (the
+--                 band with the highest min_weight_grams not above the
+--                 total weight; the lightest band when below all of them)
+--
+-- Rates are set per shipping region. The address's region is picked from
+-- its postcode (exact outward code first, then postcode area), falling back
+-- to the default region, and a profile without a rate for that region uses
+-- its default region rate. A profile with free_over set costs nothing once
+-- the order subtotal reaches that amount.
+--
+-- Products without a profile keep paying their own delivery_charge per
+-- item, so existing prices are unchanged until a profile is assigned.
+--
+-- The same rules are implemented by calculateDeliveryTotal in
+-- src/lib/orderService.ts; keep the two in step.
+
+-- ========================================
+-- SHIPPING TABLES
+-- ========================================
+
+CREATE TABLE woolwitch.shipping_regions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  postcode_prefixes text[] NOT NULL DEFAULT '{}',
+  is_default boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE UNIQUE INDEX shipping_regions_single_default ON woolwitch.shipping_regions(is_default) WHERE is_default;
+
+CREATE TABLE woolwitch.shipping_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+  method text NOT NULL CHECK (method IN ('flat', 'per_item', 'weight')),
+  free_over numeric(10, 2) CHECK (free_over IS NULL OR free_over >= 0),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE woolwitch.shipping_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES woolwitch.shipping_profiles(id) ON DELETE CASCADE,
+  region_id uuid NOT NULL REFERENCES woolwitch.shipping_regions(id) ON DELETE CASCADE,
+  min_weight_grams integer NOT NULL DEFAULT 0 CHECK (min_weight_grams >= 0),
+  first_item numeric(10, 2) NOT NULL DEFAULT 0 CHECK (first_item >= 0),
+  additional_item numeric(10, 2) NOT NULL DEFAULT 0 CHECK (additional_item >= 0),
+  UNIQUE (profile_id, region_id, min_weight_grams)
+);
+
+CREATE INDEX idx_shipping_rates_region ON woolwitch.shipping_rates(region_id);
+
+ALTER TABLE woolwitch.products
+  ADD COLUMN shipping_profile_id uuid REFERENCES woolwitch.shipping_profiles(id) ON DELETE SET NULL,
+  ADD COLUMN weight_grams integer CHECK (weight_grams IS NULL OR weight_grams >= 0);
+
+CREATE INDEX idx_products_shipping_profile ON woolwitch.products(shipping_profile_id);
+
+ALTER TABLE woolwitch.shipping_regions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE woolwitch.shipping_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE woolwitch.shipping_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shipping regions are public" ON woolwitch.shipping_regions
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin shipping region management" ON woolwitch.shipping_regions
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+CREATE POLICY "Shipping profiles are public" ON woolwitch.shipping_profiles
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin shipping profile management" ON woolwitch.shipping_profiles
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+CREATE POLICY "Shipping rates are public" ON woolwitch.shipping_rates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin shipping rate management" ON woolwitch.shipping_rates
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.shipping_regions IS 'Delivery regions, matched on postcode outward code or area';
+COMMENT ON TABLE woolwitch.shipping_profiles IS 'How a group of products is charged for delivery (flat, per item or weight bands)';
+COMMENT ON TABLE woolwitch.shipping_rates IS 'Prices for a shipping profile in one region (one row per weight band for weight profiles)';
+COMMENT ON COLUMN woolwitch.shipping_regions.postcode_prefixes IS 'Upper-case outward codes (KW15) or postcode areas (HS) in this region';
+COMMENT ON COLUMN woolwitch.shipping_profiles.free_over IS 'Order subtotal at which this profile ships free; NULL for never';
+COMMENT ON COLUMN woolwitch.products.shipping_profile_id IS 'Shipping profile; NULL charges delivery_charge per item';
+COMMENT ON COLUMN woolwitch.products.weight_grams IS 'Packed weight of one item, used by weight band profiles';
+
+-- The default region covers every postcode not matched by another region
+INSERT INTO woolwitch.shipping_regions (name, postcode_prefixes, is_default, sort_order) VALUES
+  ('UK Mainland', '{}', true, 0),
+  ('Highlands, Islands & Northern Ireland',
+   ARRAY['BT', 'HS', 'ZE', 'IM', 'GY', 'JE', 'KW15', 'KW16', 'KW17',
+         'IV41', 'IV42', 'IV43', 'IV44', 'IV45', 'IV46', 'IV47', 'IV48', 'IV49', 'IV51', 'IV55', 'IV56',
+         'PA41', 'PA42', 'PA43', 'PA44', 'PA45', 'PA46', 'PA47', 'PA48', 'PA49',
+         'PA60', 'PA61', 'PA62', 'PA63', 'PA64', 'PA65', 'PA66', 'PA67', 'PA68', 'PA69',
+         'PA70', 'PA71', 'PA72', 'PA73', 'PA74', 'PA75', 'PA76', 'PA77', 'PA78',
+         'KA27', 'KA28', 'TR21', 'TR22', 'TR23', 'TR24', 'TR25'],
+   false, 1);
+
+-- ========================================
+-- SHIPPING CALCULATION
+-- ========================================
+
+-- Region for a postcode: exact outward code match, then postcode area,
+-- then the default region
+DROP FUNCTION IF EXISTS woolwitch.shipping_region_for_postcode(text) CASCADE;
+CREATE FUNCTION woolwitch.shipping_region_for_postcode(p_postcode text)
+RETURNS uuid AS $$
+DECLARE
+  v_postcode text := upper(regexp_replace(COALESCE(p_postcode, ''), '\s', '', 'g'));
+  v_outward text;
+  v_area text;
+  v_region_id uuid;
+BEGIN
+  v_outward := CASE WHEN length(v_postcode) > 3 THEN left(v_postcode, length(v_postcode) - 3) ELSE v_postcode END;
+  v_area := substring(v_outward FROM '^[A-Z]+');
+
+  IF v_outward <> '' THEN
+    SELECT r.id INTO v_region_id
+    FROM woolwitch.shipping_regions r
+    WHERE v_outward = ANY(r.postcode_prefixes)
+    ORDER BY r.sort_order, r.name
+    LIMIT 1;
+
+    IF v_region_id IS NULL AND v_area IS NOT NULL THEN
+      SELECT r.id INTO v_region_id
+      FROM woolwitch.shipping_regions r
+      WHERE v_area = ANY(r.postcode_prefixes)
+      ORDER BY r.sort_order, r.name
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF v_region_id IS NULL THEN
+    SELECT r.id INTO v_region_id
+    FROM woolwitch.shipping_regions r
+    WHERE r.is_default;
+  END IF;
+
+  RETURN v_region_id;
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Delivery total for priced order lines.
+-- p_lines: [{ "shipping_profile_id": uuid|null, "quantity": 2, "weight_grams": 150, "delivery_charge": 3.50 }]
+DROP FUNCTION IF EXISTS woolwitch.calculate_shipping(jsonb, numeric, text) CASCADE;
+CREATE FUNCTION woolwitch.calculate_shipping(
+  p_lines jsonb,
+  p_subtotal numeric,
+  p_postcode text DEFAULT NULL
+)
+RETURNS numeric AS $$
+DECLARE
+  v_region_id uuid := woolwitch.shipping_region_for_postcode(p_postcode);
+  v_group record;
+  v_profile woolwitch.shipping_profiles%ROWTYPE;
+  v_rate woolwitch.shipping_rates%ROWTYPE;
+  v_total numeric := 0;
+BEGIN
+  -- Products without a profile pay their own delivery charge per item
+  SELECT COALESCE(sum(round(COALESCE((l->>'delivery_charge')::numeric, 0), 2) * (l->>'quantity')::integer), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_lines) l
+  WHERE l->>'shipping_profile_id' IS NULL;
+
+  FOR v_group IN
+    SELECT
+      (l->>'shipping_profile_id')::uuid AS profile_id,
+      sum((l->>'quantity')::integer) AS quantity,
+      sum(COALESCE((l->>'weight_grams')::integer, 0) * (l->>'quantity')::integer) AS weight_grams
+    FROM jsonb_array_elements(p_lines) l
+    WHERE l->>'shipping_profile_id' IS NOT NULL
+    GROUP BY 1
+  LOOP
+    SELECT * INTO v_profile
+    FROM woolwitch.shipping_profiles
+    WHERE id = v_group.profile_id;
+
+    IF v_profile.free_over IS NOT NULL AND p_subtotal >= v_profile.free_over THEN
+      CONTINUE;
+    END IF;
+
+    -- Rates for the address's region, or the default region when the
+    -- profile has none there
+    SELECT r.* INTO v_rate
+    FROM woolwitch.shipping_rates r
+    WHERE r.profile_id = v_profile.id
+      AND r.region_id = COALESCE(
+        (SELECT rr.region_id FROM woolwitch.shipping_rates rr
+         WHERE rr.profile_id = v_profile.id AND rr.region_id = v_region_id
+         LIMIT 1),
+        (SELECT dr.id FROM woolwitch.shipping_regions dr WHERE dr.is_default)
+      )
+    ORDER BY
+      (r.min_weight_grams <= v_group.weight_grams) DESC,
+      CASE WHEN r.min_weight_grams <= v_group.weight_grams THEN -r.min_weight_grams ELSE r.min_weight_grams END
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Delivery is not set up for % to this address', v_profile.name;
+    END IF;
+
+    v_total := v_total + CASE v_profile.method
+      WHEN 'per_item' THEN v_rate.first_item + v_rate.additional_item * (v_group.quantity - 1)
+      ELSE v_rate.first_item
+    END;
+  END LOOP;
+
+  RETURN round(v_total, 2);
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE quote_order - Shipping profiles
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  items jsonb
+) AS $$
+DECLARE
+  v_item jsonb;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_delivery numeric;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  v_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_subtotal, p_address->>'postcode');
+
+  RETURN QUERY SELECT v_subtotal, v_delivery_total, v_subtotal + v_delivery_total, v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Price delivery for the address
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_quote record;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  -- Price the order from the product table, with delivery for the
+  -- address's shipping region
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, p_address);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    total,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    p_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.total,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: SHIPPING CONFIGURATION
+-- ========================================
+
+-- Everything the storefront needs to price delivery in the browser:
+-- { "regions": [...], "profiles": [{ ..., "rates": [...] }] }
+DROP FUNCTION IF EXISTS woolwitch_api.get_shipping_config() CASCADE;
+CREATE FUNCTION woolwitch_api.get_shipping_config()
+RETURNS jsonb AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'regions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'postcode_prefixes', to_jsonb(r.postcode_prefixes),
+        'is_default', r.is_default,
+        'sort_order', r.sort_order
+      ) ORDER BY r.sort_order, r.name)
+      FROM woolwitch.shipping_regions r
+    ), '[]'::jsonb),
+    'profiles', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'method', p.method,
+        'free_over', p.free_over,
+        'rates', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'region_id', sr.region_id,
+            'min_weight_grams', sr.min_weight_grams,
+            'first_item', sr.first_item,
+            'additional_item', sr.additional_item
+          ) ORDER BY sr.region_id, sr.min_weight_grams)
+          FROM woolwitch.shipping_rates sr
+          WHERE sr.profile_id = p.id
+        ), '[]'::jsonb)
+      ) ORDER BY p.name)
+      FROM woolwitch.shipping_profiles p
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- Replaces a profile's rates.
+-- p_rates: [{ "region_id": uuid, "min_weight_grams": 0, "first_item": 3.20, "additional_item": 1.00 }]
+DROP FUNCTION IF EXISTS woolwitch.save_shipping_rates(uuid, text, jsonb) CASCADE;
+CREATE FUNCTION woolwitch.save_shipping_rates(
+  p_profile_id uuid,
+  p_method text,
+  p_rates jsonb
+)
+RETURNS void AS $$
+BEGIN
+  IF p_rates IS NULL OR jsonb_typeof(p_rates) <> 'array' THEN
+    RAISE EXCEPTION 'Rates must be a list';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_rates) r
+    JOIN woolwitch.shipping_regions sr ON sr.id = (r->>'region_id')::uuid
+    WHERE sr.is_default
+  ) THEN
+    RAISE EXCEPTION 'A rate for the default region is required';
+  END IF;
+
+  DELETE FROM woolwitch.shipping_rates WHERE profile_id = p_profile_id;
+
+  -- Only weight profiles have bands; other methods keep one rate per region
+  INSERT INTO woolwitch.shipping_rates (
+    profile_id,
+    region_id,
+    min_weight_grams,
+    first_item,
+    additional_item
+  )
+  SELECT
+    p_profile_id,
+    (r->>'region_id')::uuid,
+    CASE WHEN p_method = 'weight' THEN COALESCE((r->>'min_weight_grams')::integer, 0) ELSE 0 END,
+    round(COALESCE((r->>'first_item')::numeric, 0), 2),
+    CASE WHEN p_method = 'per_item' THEN round(COALESCE((r->>'additional_item')::numeric, 0), 2) ELSE 0 END
+  FROM jsonb_array_elements(p_rates) r;
+END;
+$$ LANGUAGE plpgsql
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_shipping_profile(text, text, numeric, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_shipping_profile(
+  p_name text,
+  p_method text,
+  p_free_over numeric,
+  p_rates jsonb
+)
+RETURNS uuid AS $$
+DECLARE
+  v_profile_id uuid;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO woolwitch.shipping_profiles (name, method, free_over)
+  VALUES (btrim(p_name), p_method, p_free_over)
+  RETURNING id INTO v_profile_id;
+
+  PERFORM woolwitch.save_shipping_rates(v_profile_id, p_method, p_rates);
+
+  RETURN v_profile_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_shipping_profile(uuid, text, text, numeric, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.update_shipping_profile(
+  p_profile_id uuid,
+  p_name text,
+  p_method text,
+  p_free_over numeric,
+  p_rates jsonb
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE woolwitch.shipping_profiles
+  SET
+    name = btrim(p_name),
+    method = p_method,
+    free_over = p_free_over,
+    updated_at = now()
+  WHERE id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping profile not found';
+  END IF;
+
+  PERFORM woolwitch.save_shipping_rates(p_profile_id, p_method, p_rates);
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Products using the profile go back to their per-item delivery charge
+DROP FUNCTION IF EXISTS woolwitch_api.delete_shipping_profile(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.delete_shipping_profile(p_profile_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  DELETE FROM woolwitch.shipping_profiles WHERE id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping profile not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Prefixes are stored upper-case without spaces so they compare directly
+-- with the normalised postcode
+DROP FUNCTION IF EXISTS woolwitch_api.create_shipping_region(text, text[], integer) CASCADE;
+CREATE FUNCTION woolwitch_api.create_shipping_region(
+  p_name text,
+  p_postcode_prefixes text[],
+  p_sort_order integer DEFAULT 0
+)
+RETURNS uuid AS $$
+DECLARE
+  v_region_id uuid;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO woolwitch.shipping_regions (name, postcode_prefixes, sort_order)
+  VALUES (
+    btrim(p_name),
+    ARRAY(
+      SELECT DISTINCT upper(regexp_replace(prefix, '\s', '', 'g'))
+      FROM unnest(COALESCE(p_postcode_prefixes, '{}')) prefix
+      WHERE btrim(prefix) <> ''
+    ),
+    COALESCE(p_sort_order, 0)
+  )
+  RETURNING id INTO v_region_id;
+
+  RETURN v_region_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_shipping_region(uuid, text, text[], integer) CASCADE;
+CREATE FUNCTION woolwitch_api.update_shipping_region(
+  p_region_id uuid,
+  p_name text,
+  p_postcode_prefixes text[],
+  p_sort_order integer DEFAULT 0
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE woolwitch.shipping_regions
+  SET
+    name = btrim(p_name),
+    postcode_prefixes = ARRAY(
+      SELECT DISTINCT upper(regexp_replace(prefix, '\s', '', 'g'))
+      FROM unnest(COALESCE(p_postcode_prefixes, '{}')) prefix
+      WHERE btrim(prefix) <> ''
+    ),
+    sort_order = COALESCE(p_sort_order, 0)
+  WHERE id = p_region_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping region not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- The default region cannot be deleted; its rates are every profile's fallback
+DROP FUNCTION IF EXISTS woolwitch_api.delete_shipping_region(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.delete_shipping_region(p_region_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM woolwitch.shipping_regions WHERE id = p_region_id AND is_default) THEN
+    RAISE EXCEPTION 'The default shipping region cannot be deleted';
+  END IF;
+
+  DELETE FROM woolwitch.shipping_regions WHERE id = p_region_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping region not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE PRODUCT API - Shipping profile and weight
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties
+FROM woolwitch.products
+WHERE is_available = true OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products(text, text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products(
+  p_category text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE
+    (p_category IS NULL OR p.category = p_category)
+    AND (p_search IS NULL OR
+         p.name ILIKE '%' || p_search || '%' OR
+         p.description ILIKE '%' || p_search || '%' OR
+         p.category ILIKE '%' || p_search || '%')
+  ORDER BY p.sort_order ASC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_product_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_product_by_id(p_product_id uuid)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = p_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products_by_ids(uuid[]) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products_by_ids(p_product_ids uuid[])
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = ANY(p_product_ids);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_product(text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.create_product(
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL
+)
+RETURNS uuid
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id uuid;
+  v_sort_order integer;
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create products';
+  END IF;
+
+  -- Calculate sort_order if not provided
+  IF p_sort_order IS NULL THEN
+    SELECT COALESCE(MAX(sort_order), 0) + 1 INTO v_sort_order
+    FROM woolwitch.products;
+  ELSE
+    v_sort_order := p_sort_order;
+  END IF;
+
+  INSERT INTO woolwitch.products (
+    name,
+    description,
+    price,
+    image_url,
+    category,
+    stock_quantity,
+    delivery_charge,
+    is_available,
+    sort_order,
+    price_max,
+    custom_properties,
+    shipping_profile_id,
+    weight_grams
+  ) VALUES (
+    p_name,
+    p_description,
+    p_price,
+    p_image_url,
+    p_category,
+    p_stock_quantity,
+    p_delivery_charge,
+    p_is_available,
+    v_sort_order,
+    p_price_max,
+    p_custom_properties,
+    p_shipping_profile_id,
+    p_weight_grams
+  ) RETURNING id INTO v_product_id;
+
+  RETURN v_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_product(uuid, text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.update_product(
+  p_product_id uuid,
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can update products';
+  END IF;
+
+  UPDATE woolwitch.products
+  SET
+    name = p_name,
+    description = p_description,
+    price = p_price,
+    image_url = p_image_url,
+    category = p_category,
+    stock_quantity = p_stock_quantity,
+    delivery_charge = p_delivery_charge,
+    is_available = p_is_available,
+    sort_order = COALESCE(p_sort_order, sort_order),
+    price_max = p_price_max,
+    custom_properties = p_custom_properties,
+    shipping_profile_id = p_shipping_profile_id,
+    weight_grams = p_weight_grams
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+END;
+$$;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.shipping_regions TO authenticated, anon;
+GRANT SELECT ON woolwitch.shipping_profiles TO authenticated, anon;
+GRANT SELECT ON woolwitch.shipping_rates TO authenticated, anon;
+GRANT ALL PRIVILEGES ON woolwitch.shipping_regions TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.shipping_profiles TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.shipping_rates TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.shipping_region_for_postcode(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.calculate_shipping(jsonb, numeric, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.save_shipping_rates(uuid, text, jsonb) FROM PUBLIC;
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_product_by_id TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products_by_ids TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_product TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_product TO authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_shipping_config() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_shipping_profile(text, text, numeric, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_shipping_profile(uuid, text, text, numeric, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.delete_shipping_profile(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_shipping_region(text, text[], integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_shipping_region(uuid, text, text[], integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.delete_shipping_region(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON VIEW woolwitch_api.products_view IS 'Public view of available products with custom properties and shipping profile';
+COMMENT ON FUNCTION woolwitch_api.get_products IS 'Fetch products with optional category and search filters';
+COMMENT ON FUNCTION woolwitch_api.get_product_by_id IS 'Fetch single product by ID';
+COMMENT ON FUNCTION woolwitch_api.get_products_by_ids IS 'Fetch multiple products by IDs (for cart/summary)';
+COMMENT ON FUNCTION woolwitch.shipping_region_for_postcode(text) IS 'Shipping region for a postcode (outward code, then area, then the default region)';
+COMMENT ON FUNCTION woolwitch.calculate_shipping(jsonb, numeric, text) IS 'Delivery total for priced order lines using shipping profiles (mirrors calculateDeliveryTotal in the client)';
+COMMENT ON FUNCTION woolwitch.save_shipping_rates(uuid, text, jsonb) IS 'Replaces the rates of a shipping profile';
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb) IS 'Prices a cart from the product table and shipping profiles (delivery for the address''s region) - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order priced by quote_order for its address (rejects mismatched client totals with WWP01), reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.get_shipping_config() IS 'Shipping regions, profiles and rates for pricing delivery in the browser';
+COMMENT ON FUNCTION woolwitch_api.create_shipping_profile(text, text, numeric, jsonb) IS 'Creates a shipping profile with its rates (admin only)';
+COMMENT ON FUNCTION woolwitch_api.update_shipping_profile(uuid, text, text, numeric, jsonb) IS 'Updates a shipping profile and replaces its rates (admin only)';
+COMMENT ON FUNCTION woolwitch_api.delete_shipping_profile(uuid) IS 'Deletes a shipping profile; its products fall back to per-item delivery charges (admin only)';
+COMMENT ON FUNCTION woolwitch_api.create_shipping_region(text, text[], integer) IS 'Creates a shipping region matched on postcode prefixes (admin only)';
+COMMENT ON FUNCTION woolwitch_api.update_shipping_region(uuid, text, text[], integer) IS 'Updates a shipping region (admin only)';
+COMMENT ON FUNCTION woolwitch_api.delete_shipping_region(uuid) IS 'Deletes a non-default shipping region and its rates (admin only)';
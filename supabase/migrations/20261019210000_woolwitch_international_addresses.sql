@@ -0,0 +1,720 @@
+-- International addresses
+-- Order addresses were { address, city, postcode } with UK-only checks, so
+-- nothing could be sent abroad. Addresses are now structured:
+--
+--   { "line1": "...", "line2": "...", "city": "...", "region": "...",
+--     "postcode": "...", "country": "GB" }
+--
+-- line2 and region are optional (region is required where the country needs
+-- it, e.g. US states). country is an ISO 3166-1 alpha-2 code from
+-- woolwitch.address_countries, which also holds each country's postcode
+-- rule. create_order normalises and validates the address before pricing.
+--
+-- Existing orders are rewritten to the new shape with country GB, and the
+-- old shape is still accepted by create_order so older clients keep working.
+--
+-- Shipping regions gain a list of countries. A region covers the whole of
+-- each of its countries, except that a region with postcode prefixes only
+-- covers those UK postcodes. An address in a country no region covers
+-- cannot be delivered to, and a profile only falls back to its default
+-- region rates within the default region's countries, so a profile with no
+-- rate for a foreign region does not ship there.
+--
+-- The same rules are implemented in src/lib/addressConfig.ts and
+-- src/lib/orderService.ts; keep them in step.
+
+-- ========================================
+-- ADDRESS COUNTRIES
+-- ========================================
+
+CREATE TABLE woolwitch.address_countries (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z]{2}$'),
+  name text NOT NULL UNIQUE,
+  postcode_pattern text,
+  postcode_required boolean NOT NULL DEFAULT true,
+  region_required boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE woolwitch.address_countries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Address countries are public" ON woolwitch.address_countries
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin address country management" ON woolwitch.address_countries
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.address_countries IS 'Countries addresses can be taken for, with their postcode rules';
+COMMENT ON COLUMN woolwitch.address_countries.postcode_pattern IS 'Regular expression the upper-case postcode must match; NULL accepts any postcode';
+COMMENT ON COLUMN woolwitch.address_countries.region_required IS 'Whether addresses must include a region (state, province)';
+
+-- Patterns match the normalised postcode (upper case, single spaces)
+INSERT INTO woolwitch.address_countries (code, name, postcode_pattern, postcode_required, region_required, sort_order) VALUES
+  ('GB', 'United Kingdom', '^[A-Z]{1,2}[0-9][A-Z0-9]? [0-9][A-Z]{2}$', true, false, 0),
+  ('IE', 'Ireland', '^[A-Z][0-9][0-9W] ?[0-9A-Z]{4}$', false, false, 1),
+  ('AT', 'Austria', '^[0-9]{4}$', true, false, 10),
+  ('AU', 'Australia', '^[0-9]{4}$', true, true, 10),
+  ('BE', 'Belgium', '^[0-9]{4}$', true, false, 10),
+  ('CA', 'Canada', '^[A-Z][0-9][A-Z] ?[0-9][A-Z][0-9]$', true, true, 10),
+  ('CH', 'Switzerland', '^[0-9]{4}$', true, false, 10),
+  ('DE', 'Germany', '^[0-9]{5}$', true, false, 10),
+  ('DK', 'Denmark', '^[0-9]{4}$', true, false, 10),
+  ('ES', 'Spain', '^[0-9]{5}$', true, false, 10),
+  ('FI', 'Finland', '^[0-9]{5}$', true, false, 10),
+  ('FR', 'France', '^[0-9]{5}$', true, false, 10),
+  ('IT', 'Italy', '^[0-9]{5}$', true, false, 10),
+  ('NL', 'Netherlands', '^[0-9]{4} ?[A-Z]{2}$', true, false, 10),
+  ('NO', 'Norway', '^[0-9]{4}$', true, false, 10),
+  ('NZ', 'New Zealand', '^[0-9]{4}$', true, false, 10),
+  ('PL', 'Poland', '^[0-9]{2}-[0-9]{3}$', true, false, 10),
+  ('PT', 'Portugal', '^[0-9]{4}-[0-9]{3}$', true, false, 10),
+  ('SE', 'Sweden', '^[0-9]{3} ?[0-9]{2}$', true, false, 10),
+  ('US', 'United States', '^[0-9]{5}(-[0-9]{4})?$', true, true, 10);
+
+-- ========================================
+-- ADDRESS NORMALISATION
+-- ========================================
+
+-- Trims the address, upper-cases the country and postcode (UK postcodes get
+-- a single space before the inward code) and checks it against the
+-- country's rules. Accepts the old { address, city, postcode } shape as a
+-- UK address.
+DROP FUNCTION IF EXISTS woolwitch.normalize_order_address(jsonb) CASCADE;
+CREATE FUNCTION woolwitch.normalize_order_address(p_address jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_country woolwitch.address_countries%ROWTYPE;
+  v_line1 text;
+  v_line2 text;
+  v_city text;
+  v_region text;
+  v_postcode text;
+BEGIN
+  IF p_address IS NULL OR jsonb_typeof(p_address) <> 'object' THEN
+    RAISE EXCEPTION 'Delivery address is required';
+  END IF;
+
+  SELECT * INTO v_country
+  FROM woolwitch.address_countries
+  WHERE code = upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'We cannot take addresses in %', p_address->>'country';
+  END IF;
+
+  v_line1 := btrim(COALESCE(p_address->>'line1', p_address->>'address', ''));
+  v_line2 := NULLIF(btrim(COALESCE(p_address->>'line2', '')), '');
+  v_city := btrim(COALESCE(p_address->>'city', ''));
+  v_region := NULLIF(btrim(COALESCE(p_address->>'region', '')), '');
+  v_postcode := upper(regexp_replace(btrim(COALESCE(p_address->>'postcode', '')), '\s+', ' ', 'g'));
+
+  IF v_country.code = 'GB' AND length(replace(v_postcode, ' ', '')) > 3 THEN
+    v_postcode := replace(v_postcode, ' ', '');
+    v_postcode := left(v_postcode, length(v_postcode) - 3) || ' ' || right(v_postcode, 3);
+  END IF;
+
+  IF length(v_line1) < 3 THEN
+    RAISE EXCEPTION 'Street address is required';
+  END IF;
+
+  IF length(v_city) < 2 THEN
+    RAISE EXCEPTION 'City is required';
+  END IF;
+
+  IF v_region IS NULL AND v_country.region_required THEN
+    RAISE EXCEPTION 'A state or region is required for addresses in %', v_country.name;
+  END IF;
+
+  IF v_postcode = '' THEN
+    IF v_country.postcode_required THEN
+      RAISE EXCEPTION 'A postcode is required for addresses in %', v_country.name;
+    END IF;
+  ELSIF v_country.postcode_pattern IS NOT NULL AND v_postcode !~ v_country.postcode_pattern THEN
+    RAISE EXCEPTION '% is not a valid postcode in %', v_postcode, v_country.name;
+  END IF;
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'line1', v_line1,
+    'line2', v_line2,
+    'city', v_city,
+    'region', v_region,
+    'postcode', NULLIF(v_postcode, ''),
+    'country', v_country.code
+  ));
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- MIGRATE EXISTING ORDER ADDRESSES
+-- ========================================
+
+-- Orders so far were all UK; keep the values as entered
+UPDATE woolwitch.orders
+SET address = jsonb_strip_nulls(jsonb_build_object(
+  'line1', address->>'address',
+  'city', address->>'city',
+  'postcode', address->>'postcode',
+  'country', 'GB'
+))
+WHERE address ? 'address' AND NOT address ? 'line1';
+
+COMMENT ON COLUMN woolwitch.orders.address IS
+  'Customer shipping address as JSONB: {line1, line2, city, region, postcode, country}. Contains PII.';
+
+-- ========================================
+-- SHIPPING REGION COUNTRIES
+-- ========================================
+
+ALTER TABLE woolwitch.shipping_regions
+  ADD COLUMN countries text[] NOT NULL DEFAULT '{GB}';
+
+COMMENT ON COLUMN woolwitch.shipping_regions.countries IS 'ISO country codes this region delivers to; postcode prefixes narrow its UK coverage';
+
+-- Region for an address: a region with a matching UK outward code, then
+-- postcode area, then a region covering the whole country (the default
+-- region first). NULL when no region delivers to the country.
+DROP FUNCTION IF EXISTS woolwitch.shipping_region_for_postcode(text) CASCADE;
+DROP FUNCTION IF EXISTS woolwitch.shipping_region_for_address(text, text) CASCADE;
+CREATE FUNCTION woolwitch.shipping_region_for_address(p_country text, p_postcode text)
+RETURNS uuid AS $$
+DECLARE
+  v_country text := upper(COALESCE(NULLIF(btrim(p_country), ''), 'GB'));
+  v_postcode text := upper(regexp_replace(COALESCE(p_postcode, ''), '\s', '', 'g'));
+  v_outward text;
+  v_area text;
+  v_region_id uuid;
+BEGIN
+  v_outward := CASE WHEN length(v_postcode) > 3 THEN left(v_postcode, length(v_postcode) - 3) ELSE v_postcode END;
+  v_area := substring(v_outward FROM '^[A-Z]+');
+
+  IF v_country = 'GB' AND v_outward <> '' THEN
+    SELECT r.id INTO v_region_id
+    FROM woolwitch.shipping_regions r
+    WHERE v_country = ANY(r.countries)
+      AND v_outward = ANY(r.postcode_prefixes)
+    ORDER BY r.sort_order, r.name
+    LIMIT 1;
+
+    IF v_region_id IS NULL AND v_area IS NOT NULL THEN
+      SELECT r.id INTO v_region_id
+      FROM woolwitch.shipping_regions r
+      WHERE v_country = ANY(r.countries)
+        AND v_area = ANY(r.postcode_prefixes)
+      ORDER BY r.sort_order, r.name
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF v_region_id IS NULL THEN
+    SELECT r.id INTO v_region_id
+    FROM woolwitch.shipping_regions r
+    WHERE v_country = ANY(r.countries)
+      AND (v_country <> 'GB' OR cardinality(r.postcode_prefixes) = 0)
+    ORDER BY r.is_default DESC, r.sort_order, r.name
+    LIMIT 1;
+  END IF;
+
+  RETURN v_region_id;
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- SHIPPING CALCULATION - Destination country
+-- ========================================
+
+-- Delivery total for priced order lines sent to p_address (only country and
+-- postcode are read; NULL prices for the default region).
+-- p_lines: [{ "shipping_profile_id": uuid|null, "quantity": 2, "weight_grams": 150, "delivery_charge": 3.50 }]
+DROP FUNCTION IF EXISTS woolwitch.calculate_shipping(jsonb, numeric, text) CASCADE;
+DROP FUNCTION IF EXISTS woolwitch.calculate_shipping(jsonb, numeric, jsonb) CASCADE;
+CREATE FUNCTION woolwitch.calculate_shipping(
+  p_lines jsonb,
+  p_subtotal numeric,
+  p_address jsonb DEFAULT NULL
+)
+RETURNS numeric AS $$
+DECLARE
+  v_country text := upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+  v_country_name text;
+  v_region_id uuid;
+  v_default woolwitch.shipping_regions%ROWTYPE;
+  v_group record;
+  v_profile woolwitch.shipping_profiles%ROWTYPE;
+  v_rate woolwitch.shipping_rates%ROWTYPE;
+  v_total numeric := 0;
+BEGIN
+  SELECT COALESCE((SELECT name FROM woolwitch.address_countries WHERE code = v_country), v_country)
+  INTO v_country_name;
+
+  v_region_id := woolwitch.shipping_region_for_address(v_country, p_address->>'postcode');
+  IF v_region_id IS NULL THEN
+    RAISE EXCEPTION 'We do not currently deliver to %', v_country_name;
+  END IF;
+
+  SELECT * INTO v_default
+  FROM woolwitch.shipping_regions
+  WHERE is_default;
+
+  -- Products without a profile pay their own delivery charge per item
+  SELECT COALESCE(sum(round(COALESCE((l->>'delivery_charge')::numeric, 0), 2) * (l->>'quantity')::integer), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_lines) l
+  WHERE l->>'shipping_profile_id' IS NULL;
+
+  FOR v_group IN
+    SELECT
+      (l->>'shipping_profile_id')::uuid AS profile_id,
+      sum((l->>'quantity')::integer) AS quantity,
+      sum(COALESCE((l->>'weight_grams')::integer, 0) * (l->>'quantity')::integer) AS weight_grams
+    FROM jsonb_array_elements(p_lines) l
+    WHERE l->>'shipping_profile_id' IS NOT NULL
+    GROUP BY 1
+  LOOP
+    SELECT * INTO v_profile
+    FROM woolwitch.shipping_profiles
+    WHERE id = v_group.profile_id;
+
+    IF v_profile.free_over IS NOT NULL AND p_subtotal >= v_profile.free_over THEN
+      CONTINUE;
+    END IF;
+
+    -- Rates for the address's region, or the default region when the
+    -- profile has none there and the country is one the default covers
+    SELECT r.* INTO v_rate
+    FROM woolwitch.shipping_rates r
+    WHERE r.profile_id = v_profile.id
+      AND r.region_id = COALESCE(
+        (SELECT rr.region_id FROM woolwitch.shipping_rates rr
+         WHERE rr.profile_id = v_profile.id AND rr.region_id = v_region_id
+         LIMIT 1),
+        CASE WHEN v_country = ANY(v_default.countries) THEN v_default.id END
+      )
+    ORDER BY
+      (r.min_weight_grams <= v_group.weight_grams) DESC,
+      CASE WHEN r.min_weight_grams <= v_group.weight_grams THEN -r.min_weight_grams ELSE r.min_weight_grams END
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Delivery is not available for % to %', v_profile.name, v_country_name;
+    END IF;
+
+    v_total := v_total + CASE v_profile.method
+      WHEN 'per_item' THEN v_rate.first_item + v_rate.additional_item * (v_group.quantity - 1)
+      ELSE v_rate.first_item
+    END;
+  END LOOP;
+
+  RETURN round(v_total, 2);
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE quote_order - Destination country
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  total numeric,
+  items jsonb
+) AS $$
+DECLARE
+  v_item jsonb;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_delivery numeric;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  v_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_subtotal, p_address);
+
+  RETURN QUERY SELECT v_subtotal, v_delivery_total, v_subtotal + v_delivery_total, v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Validate the address
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Price the order from the product table, with delivery for the
+  -- address's country and shipping region
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    total,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.total,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE SHIPPING CONFIGURATION - Region countries
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_shipping_config() CASCADE;
+CREATE FUNCTION woolwitch_api.get_shipping_config()
+RETURNS jsonb AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'regions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'countries', to_jsonb(r.countries),
+        'postcode_prefixes', to_jsonb(r.postcode_prefixes),
+        'is_default', r.is_default,
+        'sort_order', r.sort_order
+      ) ORDER BY r.sort_order, r.name)
+      FROM woolwitch.shipping_regions r
+    ), '[]'::jsonb),
+    'profiles', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'method', p.method,
+        'free_over', p.free_over,
+        'rates', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'region_id', sr.region_id,
+            'min_weight_grams', sr.min_weight_grams,
+            'first_item', sr.first_item,
+            'additional_item', sr.additional_item
+          ) ORDER BY sr.region_id, sr.min_weight_grams)
+          FROM woolwitch.shipping_rates sr
+          WHERE sr.profile_id = p.id
+        ), '[]'::jsonb)
+      ) ORDER BY p.name)
+      FROM woolwitch.shipping_profiles p
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- Upper-cased, de-duplicated country codes, each one a known address country
+DROP FUNCTION IF EXISTS woolwitch.normalize_region_countries(text[]) CASCADE;
+CREATE FUNCTION woolwitch.normalize_region_countries(p_countries text[])
+RETURNS text[] AS $$
+DECLARE
+  v_countries text[];
+  v_unknown text;
+BEGIN
+  v_countries := ARRAY(
+    SELECT DISTINCT upper(btrim(country))
+    FROM unnest(COALESCE(p_countries, '{}')) country
+    WHERE btrim(country) <> ''
+    ORDER BY 1
+  );
+
+  IF cardinality(v_countries) = 0 THEN
+    RAISE EXCEPTION 'A shipping region needs at least one country';
+  END IF;
+
+  SELECT country INTO v_unknown
+  FROM unnest(v_countries) country
+  WHERE NOT EXISTS (SELECT 1 FROM woolwitch.address_countries c WHERE c.code = country)
+  LIMIT 1;
+
+  IF v_unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Unknown country %', v_unknown;
+  END IF;
+
+  RETURN v_countries;
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_shipping_region(text, text[], integer) CASCADE;
+CREATE FUNCTION woolwitch_api.create_shipping_region(
+  p_name text,
+  p_postcode_prefixes text[],
+  p_sort_order integer DEFAULT 0,
+  p_countries text[] DEFAULT '{GB}'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_region_id uuid;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO woolwitch.shipping_regions (name, countries, postcode_prefixes, sort_order)
+  VALUES (
+    btrim(p_name),
+    woolwitch.normalize_region_countries(p_countries),
+    ARRAY(
+      SELECT DISTINCT upper(regexp_replace(prefix, '\s', '', 'g'))
+      FROM unnest(COALESCE(p_postcode_prefixes, '{}')) prefix
+      WHERE btrim(prefix) <> ''
+    ),
+    COALESCE(p_sort_order, 0)
+  )
+  RETURNING id INTO v_region_id;
+
+  RETURN v_region_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_shipping_region(uuid, text, text[], integer) CASCADE;
+CREATE FUNCTION woolwitch_api.update_shipping_region(
+  p_region_id uuid,
+  p_name text,
+  p_postcode_prefixes text[],
+  p_sort_order integer DEFAULT 0,
+  p_countries text[] DEFAULT '{GB}'
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE woolwitch.shipping_regions
+  SET
+    name = btrim(p_name),
+    countries = woolwitch.normalize_region_countries(p_countries),
+    postcode_prefixes = ARRAY(
+      SELECT DISTINCT upper(regexp_replace(prefix, '\s', '', 'g'))
+      FROM unnest(COALESCE(p_postcode_prefixes, '{}')) prefix
+      WHERE btrim(prefix) <> ''
+    ),
+    sort_order = COALESCE(p_sort_order, 0)
+  WHERE id = p_region_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping region not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.address_countries TO authenticated, anon;
+GRANT ALL PRIVILEGES ON woolwitch.address_countries TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.normalize_order_address(jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.shipping_region_for_address(text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.calculate_shipping(jsonb, numeric, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.normalize_region_countries(text[]) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_shipping_config() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_shipping_region(text, text[], integer, text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_shipping_region(uuid, text, text[], integer, text[]) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.normalize_order_address(jsonb) IS 'Normalises an order address (accepting the old {address, city, postcode} shape) and validates it against its country''s rules';
+COMMENT ON FUNCTION woolwitch.shipping_region_for_address(text, text) IS 'Shipping region for a country and postcode (UK outward code, then area, then a whole-country region); NULL when not delivered to';
+COMMENT ON FUNCTION woolwitch.calculate_shipping(jsonb, numeric, jsonb) IS 'Delivery total for priced order lines to an address using shipping profiles (mirrors calculateDeliveryTotal in the client)';
+COMMENT ON FUNCTION woolwitch.normalize_region_countries(text[]) IS 'Validates and normalises the country codes of a shipping region';
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb) IS 'Prices a cart from the product table and shipping profiles (delivery for the address''s country and region) - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, priced by quote_order (rejects mismatched client totals with WWP01), reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.get_shipping_config() IS 'Shipping regions (with countries), profiles and rates for pricing delivery in the browser';
+COMMENT ON FUNCTION woolwitch_api.create_shipping_region(text, text[], integer, text[]) IS 'Creates a shipping region for a set of countries, optionally narrowed to UK postcode prefixes (admin only)';
+COMMENT ON FUNCTION woolwitch_api.update_shipping_region(uuid, text, text[], integer, text[]) IS 'Updates a shipping region (admin only)';
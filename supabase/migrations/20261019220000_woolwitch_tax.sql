@@ -0,0 +1,1249 @@
+-- Tax (VAT / sales tax)
+-- Orders had no tax: the total was subtotal + delivery. Tax is now worked
+-- out for every order from configurable rates:
+--
+--   * woolwitch.tax_rates     - a rate per destination country and tax class
+--                               (standard, reduced, zero); a country with no
+--                               rate for a class charges no tax on it
+--   * woolwitch.tax_settings  - whether product prices and delivery charges
+--                               are entered including tax, and the tax class
+--                               delivery is charged at
+--   * products.tax_class      - the class each product is taxed at
+--
+-- Tax is worked out per order line (and once for delivery) and rounded to
+-- the penny. With tax-inclusive prices the tax is the part of the price that
+-- is tax and the total does not change; with tax-exclusive prices it is
+-- added on top. quote_order returns the tax, and create_order stores it on
+-- orders.tax_total and on each order item with the rate used.
+--
+-- UK VAT is set up with prices including tax, so existing prices and totals
+-- stay the same. Orders placed before this migration keep a tax_total of 0.
+--
+-- The same rules are implemented by src/lib/taxCalculator.ts for the
+-- storefront, using get_tax_config; keep the two in step.
+
+-- ========================================
+-- TAX TABLES
+-- ========================================
+
+-- Single row of tax settings
+CREATE TABLE woolwitch.tax_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  prices_include_tax boolean NOT NULL DEFAULT true,
+  delivery_tax_class text NOT NULL DEFAULT 'standard' CHECK (delivery_tax_class IN ('standard', 'reduced', 'zero')),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE woolwitch.tax_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  country text NOT NULL REFERENCES woolwitch.address_countries(code) ON DELETE CASCADE,
+  tax_class text NOT NULL CHECK (tax_class IN ('standard', 'reduced', 'zero')),
+  name text NOT NULL DEFAULT 'VAT',
+  rate numeric(6,3) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (country, tax_class)
+);
+
+ALTER TABLE woolwitch.products
+  ADD COLUMN tax_class text NOT NULL DEFAULT 'standard' CHECK (tax_class IN ('standard', 'reduced', 'zero'));
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN tax_total numeric(10,2) NOT NULL DEFAULT 0 CHECK (tax_total >= 0),
+  ADD COLUMN prices_include_tax boolean NOT NULL DEFAULT true;
+
+-- Tax-exclusive orders add the tax on top of subtotal and delivery
+ALTER TABLE woolwitch.orders
+DROP CONSTRAINT IF EXISTS orders_total_calculation_check;
+
+ALTER TABLE woolwitch.orders
+ADD CONSTRAINT orders_total_calculation_check
+CHECK (abs(total - (subtotal + delivery_total + CASE WHEN prices_include_tax THEN 0 ELSE tax_total END)) < 0.01);
+
+ALTER TABLE woolwitch.order_items
+  ADD COLUMN tax_rate numeric(6,3) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_amount numeric(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE woolwitch.tax_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE woolwitch.tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tax settings are public" ON woolwitch.tax_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin tax settings management" ON woolwitch.tax_settings
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+CREATE POLICY "Tax rates are public" ON woolwitch.tax_rates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin tax rate management" ON woolwitch.tax_rates
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.tax_settings IS 'Shop-wide tax settings (single row)';
+COMMENT ON TABLE woolwitch.tax_rates IS 'Tax rate (percent) per destination country and tax class';
+COMMENT ON COLUMN woolwitch.tax_settings.prices_include_tax IS 'Whether product prices and delivery charges are entered including tax';
+COMMENT ON COLUMN woolwitch.tax_settings.delivery_tax_class IS 'Tax class delivery charges are taxed at';
+COMMENT ON COLUMN woolwitch.products.tax_class IS 'Tax class: standard, reduced or zero';
+COMMENT ON COLUMN woolwitch.orders.tax_total IS 'Tax on the order (items and delivery); part of total when prices_include_tax, added to it otherwise';
+COMMENT ON COLUMN woolwitch.orders.prices_include_tax IS 'Whether the order''s prices included tax when it was placed';
+COMMENT ON COLUMN woolwitch.order_items.tax_rate IS 'Tax rate (percent) charged on this line';
+COMMENT ON COLUMN woolwitch.order_items.tax_amount IS 'Tax on the whole line (unit price x quantity)';
+COMMENT ON CONSTRAINT orders_total_calculation_check ON woolwitch.orders IS
+  'Validates that total equals subtotal plus delivery, plus tax when prices exclude it';
+
+INSERT INTO woolwitch.tax_settings (id, prices_include_tax, delivery_tax_class) VALUES (true, true, 'standard');
+
+INSERT INTO woolwitch.tax_rates (country, tax_class, name, rate) VALUES
+  ('GB', 'standard', 'VAT', 20),
+  ('GB', 'reduced', 'VAT', 5),
+  ('GB', 'zero', 'VAT', 0);
+
+-- ========================================
+-- TAX CALCULATION
+-- ========================================
+
+-- Rate (percent) for a destination country and tax class; 0 when none is set
+DROP FUNCTION IF EXISTS woolwitch.tax_rate_for(text, text) CASCADE;
+CREATE FUNCTION woolwitch.tax_rate_for(p_country text, p_tax_class text)
+RETURNS numeric AS $$
+  SELECT COALESCE((
+    SELECT r.rate
+    FROM woolwitch.tax_rates r
+    WHERE r.country = upper(COALESCE(NULLIF(btrim(p_country), ''), 'GB'))
+      AND r.tax_class = p_tax_class
+  ), 0);
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Tax in an amount at a rate: the tax part of a tax-inclusive amount, or the
+-- tax to add to a tax-exclusive one, rounded to the penny
+DROP FUNCTION IF EXISTS woolwitch.tax_amount(numeric, numeric, boolean) CASCADE;
+CREATE FUNCTION woolwitch.tax_amount(p_amount numeric, p_rate numeric, p_prices_include_tax boolean)
+RETURNS numeric AS $$
+  SELECT round(CASE
+    WHEN p_prices_include_tax THEN p_amount * p_rate / (100 + p_rate)
+    ELSE p_amount * p_rate / 100
+  END, 2);
+$$ LANGUAGE sql
+   IMMUTABLE
+   SET search_path = pg_catalog;
+
+-- ========================================
+-- UPDATE quote_order - Tax
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  items jsonb
+) AS $$
+DECLARE
+  v_settings woolwitch.tax_settings%ROWTYPE;
+  v_country text := upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+  v_item jsonb;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_delivery numeric;
+  v_tax_rate numeric;
+  v_tax numeric;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_tax_total numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  SELECT * INTO v_settings FROM woolwitch.tax_settings;
+  v_settings.prices_include_tax := COALESCE(v_settings.prices_include_tax, true);
+  v_settings.delivery_tax_class := COALESCE(v_settings.delivery_tax_class, 'standard');
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_tax_rate := woolwitch.tax_rate_for(v_country, v_product.tax_class);
+    v_tax := woolwitch.tax_amount(v_unit_price * v_quantity, v_tax_rate, v_settings.prices_include_tax);
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_tax_total := v_tax_total + v_tax;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'tax_rate', v_tax_rate,
+      'tax_amount', v_tax,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  v_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_subtotal, p_address);
+
+  -- Delivery is taxed once, at the delivery tax class
+  v_tax_total := v_tax_total + woolwitch.tax_amount(
+    v_delivery_total,
+    woolwitch.tax_rate_for(v_country, v_settings.delivery_tax_class),
+    v_settings.prices_include_tax
+  );
+
+  RETURN QUERY SELECT
+    v_subtotal,
+    v_delivery_total,
+    v_tax_total,
+    v_subtotal + v_delivery_total + CASE WHEN v_settings.prices_include_tax THEN 0 ELSE v_tax_total END,
+    v_settings.prices_include_tax,
+    v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Store tax
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: TAX CONFIGURATION
+-- ========================================
+
+-- Everything the storefront needs to work out tax in the browser:
+-- { "prices_include_tax": true, "delivery_tax_class": "standard", "rates": [...] }
+DROP FUNCTION IF EXISTS woolwitch_api.get_tax_config() CASCADE;
+CREATE FUNCTION woolwitch_api.get_tax_config()
+RETURNS jsonb AS $$
+DECLARE
+  v_settings woolwitch.tax_settings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_settings FROM woolwitch.tax_settings;
+
+  RETURN jsonb_build_object(
+    'prices_include_tax', COALESCE(v_settings.prices_include_tax, true),
+    'delivery_tax_class', COALESCE(v_settings.delivery_tax_class, 'standard'),
+    'rates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'country', r.country,
+        'tax_class', r.tax_class,
+        'name', r.name,
+        'rate', r.rate
+      ) ORDER BY r.country, r.tax_class)
+      FROM woolwitch.tax_rates r
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_tax_settings(boolean, text) CASCADE;
+CREATE FUNCTION woolwitch_api.update_tax_settings(
+  p_prices_include_tax boolean,
+  p_delivery_tax_class text
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO woolwitch.tax_settings (id, prices_include_tax, delivery_tax_class, updated_at)
+  VALUES (true, p_prices_include_tax, p_delivery_tax_class, now())
+  ON CONFLICT (id) DO UPDATE
+  SET
+    prices_include_tax = EXCLUDED.prices_include_tax,
+    delivery_tax_class = EXCLUDED.delivery_tax_class,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Adds or replaces the rate for a country and tax class
+DROP FUNCTION IF EXISTS woolwitch_api.save_tax_rate(text, text, text, numeric) CASCADE;
+CREATE FUNCTION woolwitch_api.save_tax_rate(
+  p_country text,
+  p_tax_class text,
+  p_name text,
+  p_rate numeric
+)
+RETURNS uuid AS $$
+DECLARE
+  v_tax_rate_id uuid;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO woolwitch.tax_rates (country, tax_class, name, rate)
+  VALUES (upper(btrim(p_country)), p_tax_class, COALESCE(NULLIF(btrim(p_name), ''), 'VAT'), p_rate)
+  ON CONFLICT (country, tax_class) DO UPDATE
+  SET
+    name = EXCLUDED.name,
+    rate = EXCLUDED.rate
+  RETURNING id INTO v_tax_rate_id;
+
+  RETURN v_tax_rate_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.delete_tax_rate(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.delete_tax_rate(p_tax_rate_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  DELETE FROM woolwitch.tax_rates WHERE id = p_tax_rate_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tax rate not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE PRODUCT API - Tax class
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  tax_class,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties
+FROM woolwitch.products
+WHERE is_available = true OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products(text, text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products(
+  p_category text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE
+    (p_category IS NULL OR p.category = p_category)
+    AND (p_search IS NULL OR
+         p.name ILIKE '%' || p_search || '%' OR
+         p.description ILIKE '%' || p_search || '%' OR
+         p.category ILIKE '%' || p_search || '%')
+  ORDER BY p.sort_order ASC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_product_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_product_by_id(p_product_id uuid)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = p_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products_by_ids(uuid[]) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products_by_ids(p_product_ids uuid[])
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = ANY(p_product_ids);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_product(text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb, uuid, integer) CASCADE;
+CREATE FUNCTION woolwitch_api.create_product(
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL,
+  p_tax_class text DEFAULT 'standard'
+)
+RETURNS uuid
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id uuid;
+  v_sort_order integer;
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create products';
+  END IF;
+
+  -- Calculate sort_order if not provided
+  IF p_sort_order IS NULL THEN
+    SELECT COALESCE(MAX(sort_order), 0) + 1 INTO v_sort_order
+    FROM woolwitch.products;
+  ELSE
+    v_sort_order := p_sort_order;
+  END IF;
+
+  INSERT INTO woolwitch.products (
+    name,
+    description,
+    price,
+    image_url,
+    category,
+    stock_quantity,
+    delivery_charge,
+    is_available,
+    sort_order,
+    price_max,
+    custom_properties,
+    shipping_profile_id,
+    weight_grams,
+    tax_class
+  ) VALUES (
+    p_name,
+    p_description,
+    p_price,
+    p_image_url,
+    p_category,
+    p_stock_quantity,
+    p_delivery_charge,
+    p_is_available,
+    v_sort_order,
+    p_price_max,
+    p_custom_properties,
+    p_shipping_profile_id,
+    p_weight_grams,
+    COALESCE(p_tax_class, 'standard')
+  ) RETURNING id INTO v_product_id;
+
+  RETURN v_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_product(uuid, text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb, uuid, integer) CASCADE;
+CREATE FUNCTION woolwitch_api.update_product(
+  p_product_id uuid,
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL,
+  p_tax_class text DEFAULT 'standard'
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can update products';
+  END IF;
+
+  UPDATE woolwitch.products
+  SET
+    name = p_name,
+    description = p_description,
+    price = p_price,
+    image_url = p_image_url,
+    category = p_category,
+    stock_quantity = p_stock_quantity,
+    delivery_charge = p_delivery_charge,
+    is_available = p_is_available,
+    sort_order = COALESCE(p_sort_order, sort_order),
+    price_max = p_price_max,
+    custom_properties = p_custom_properties,
+    shipping_profile_id = p_shipping_profile_id,
+    weight_grams = p_weight_grams,
+    tax_class = COALESCE(p_tax_class, 'standard')
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+END;
+$$;
+-- ========================================
+-- UPDATE ORDER READS - Include tax
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.order_number,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.tax_total,
+  o.total,
+  o.prices_include_tax,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the order number (with or without dashes), email or name
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int, text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (
+      v_pattern IS NULL
+      OR o.order_number ILIKE v_pattern
+      OR (v_compact_pattern <> '%%' AND replace(o.order_number, '-', '') ILIKE v_compact_pattern)
+      OR o.email ILIKE v_pattern
+      OR o.full_name ILIKE v_pattern
+    )
+  ORDER BY o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL AND INVOICE DATA - Include tax
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_invoice(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_invoice(p_order_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'invoice', (
+      SELECT jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'issued_at', inv.issued_at
+      )
+      FROM woolwitch.invoices inv
+      WHERE inv.order_id = o.id
+    ),
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'delivery_charge', i.delivery_charge,
+        'tax_rate', i.tax_rate,
+        'tax_amount', i.tax_amount,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', p.payment_method,
+        'amount', p.amount,
+        'currency', p.currency,
+        'status', p.status,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM woolwitch.payments p
+      WHERE p.order_id = o.id
+      AND p.status IN ('completed', 'refunded')
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.tax_settings TO authenticated, anon;
+GRANT SELECT ON woolwitch.tax_rates TO authenticated, anon;
+GRANT ALL PRIVILEGES ON woolwitch.tax_settings TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.tax_rates TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.tax_rate_for(text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.tax_amount(numeric, numeric, boolean) FROM PUBLIC;
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_product_by_id TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products_by_ids TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_product TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_product TO authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_tax_config() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_tax_settings(boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.save_tax_rate(text, text, text, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.delete_tax_rate(uuid) TO authenticated;
+
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_invoice(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.tax_rate_for(text, text) IS 'Tax rate (percent) for a destination country and tax class; 0 when none is set';
+COMMENT ON FUNCTION woolwitch.tax_amount(numeric, numeric, boolean) IS 'Tax in an amount at a rate, for tax-inclusive or tax-exclusive prices (mirrors taxCalculator.ts in the client)';
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb) IS 'Prices a cart from the product table, shipping profiles and tax rates for the address - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, priced and taxed by quote_order (rejects mismatched client totals with WWP01), reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.get_tax_config() IS 'Tax settings and rates for working out tax in the browser';
+COMMENT ON FUNCTION woolwitch_api.update_tax_settings(boolean, text) IS 'Sets whether prices include tax and the tax class of delivery (admin only)';
+COMMENT ON FUNCTION woolwitch_api.save_tax_rate(text, text, text, numeric) IS 'Adds or replaces the tax rate for a country and tax class (admin only)';
+COMMENT ON FUNCTION woolwitch_api.delete_tax_rate(uuid) IS 'Deletes a tax rate (admin only)';
+COMMENT ON VIEW woolwitch_api.products_view IS 'Public view of available products with custom properties, shipping profile and tax class';
+COMMENT ON FUNCTION woolwitch_api.get_products IS 'Fetch products with optional category and search filters';
+COMMENT ON FUNCTION woolwitch_api.get_product_by_id IS 'Fetch single product by ID';
+COMMENT ON FUNCTION woolwitch_api.get_products_by_ids IS 'Fetch multiple products by IDs (for cart/summary)';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters and search by order number, email or name (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_order_invoice(uuid) IS 'Invoice number, order, items (with tax) and captured payments for rendering an invoice or packing slip (owner or admin)';
@@ -0,0 +1,1208 @@
+-- Multi-currency pricing
+-- Prices were bare numbers in pounds. Products, delivery rates and tax are
+-- still entered in the shop's base currency, but customers can now shop and
+-- pay in another supported currency at an exchange rate set by an admin:
+--   * woolwitch.currency_settings - the base currency prices are entered in
+--   * woolwitch.exchange_rates    - units of each other currency per 1 unit
+--                                   of the base currency
+--
+-- quote_order prices the cart in the base currency as before, then converts
+-- each unit price, line tax and the delivery charge and its tax to the
+-- chosen currency, rounded to the penny. Orders record the currency and the
+-- rate they were charged at, and their amounts are in that currency.
+-- Existing orders are in GBP at a rate of 1.
+--
+-- The same conversion is implemented by src/lib/money.ts for the
+-- storefront, using get_currency_config; keep the two in step.
+
+-- ========================================
+-- CURRENCY TABLES
+-- ========================================
+
+-- Single row holding the base currency
+CREATE TABLE woolwitch.currency_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  base_currency text NOT NULL DEFAULT 'GBP' CHECK (base_currency IN ('GBP', 'USD', 'EUR')),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE woolwitch.exchange_rates (
+  currency text PRIMARY KEY CHECK (currency IN ('GBP', 'USD', 'EUR')),
+  rate numeric(12,6) NOT NULL CHECK (rate > 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN currency text NOT NULL DEFAULT 'GBP' CHECK (currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN exchange_rate numeric(12,6) NOT NULL DEFAULT 1 CHECK (exchange_rate > 0);
+
+ALTER TABLE woolwitch.currency_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE woolwitch.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Currency settings are public" ON woolwitch.currency_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin currency settings management" ON woolwitch.currency_settings
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+CREATE POLICY "Exchange rates are public" ON woolwitch.exchange_rates
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin exchange rate management" ON woolwitch.exchange_rates
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.currency_settings IS 'Shop-wide currency settings (single row)';
+COMMENT ON TABLE woolwitch.exchange_rates IS 'Units of each supported currency per 1 unit of the base currency';
+COMMENT ON COLUMN woolwitch.currency_settings.base_currency IS 'Currency product prices, delivery rates and thresholds are entered in';
+COMMENT ON COLUMN woolwitch.orders.currency IS 'Currency the order was charged in; its amounts are in this currency';
+COMMENT ON COLUMN woolwitch.orders.exchange_rate IS 'Units of the order currency per 1 unit of the base currency when the order was placed';
+
+INSERT INTO woolwitch.currency_settings (id, base_currency) VALUES (true, 'GBP');
+
+-- Starting rates; admins keep these up to date under Admin -> Currency
+INSERT INTO woolwitch.exchange_rates (currency, rate) VALUES
+  ('USD', 1.27),
+  ('EUR', 1.17);
+
+-- ========================================
+-- CURRENCY CONVERSION
+-- ========================================
+
+-- Units of a currency per 1 unit of the base currency (1 for the base
+-- currency itself). Raises for currencies without an exchange rate.
+DROP FUNCTION IF EXISTS woolwitch.exchange_rate_for(text) CASCADE;
+CREATE FUNCTION woolwitch.exchange_rate_for(p_currency text)
+RETURNS numeric AS $$
+DECLARE
+  v_base text;
+  v_rate numeric;
+BEGIN
+  SELECT s.base_currency INTO v_base FROM woolwitch.currency_settings s;
+  v_base := COALESCE(v_base, 'GBP');
+
+  IF p_currency IS NULL OR upper(p_currency) = v_base THEN
+    RETURN 1;
+  END IF;
+
+  SELECT r.rate INTO v_rate
+  FROM woolwitch.exchange_rates r
+  WHERE r.currency = upper(p_currency);
+
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'Currency % is not supported', upper(p_currency);
+  END IF;
+
+  RETURN v_rate;
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- A base currency amount in another currency, rounded to the penny
+DROP FUNCTION IF EXISTS woolwitch.convert_amount(numeric, numeric) CASCADE;
+CREATE FUNCTION woolwitch.convert_amount(p_amount numeric, p_rate numeric)
+RETURNS numeric AS $$
+  SELECT round(p_amount * p_rate, 2);
+$$ LANGUAGE sql
+   IMMUTABLE
+   SET search_path = pg_catalog;
+
+-- ========================================
+-- UPDATE quote_order - Currency
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb, jsonb) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL,
+  p_currency text DEFAULT NULL
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  items jsonb
+) AS $$
+DECLARE
+  v_settings woolwitch.tax_settings%ROWTYPE;
+  v_country text := upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+  v_currency text;
+  v_rate numeric;
+  v_item jsonb;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_delivery numeric;
+  v_tax_rate numeric;
+  v_tax numeric;
+  v_base_subtotal numeric := 0;
+  v_base_delivery_total numeric;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_tax_total numeric := 0;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  SELECT * INTO v_settings FROM woolwitch.tax_settings;
+  v_settings.prices_include_tax := COALESCE(v_settings.prices_include_tax, true);
+  v_settings.delivery_tax_class := COALESCE(v_settings.delivery_tax_class, 'standard');
+
+  -- Without a currency the order is priced in the base currency
+  SELECT upper(COALESCE(NULLIF(btrim(p_currency), ''), s.base_currency)) INTO v_currency
+  FROM woolwitch.currency_settings s;
+  v_currency := COALESCE(v_currency, 'GBP');
+  v_rate := woolwitch.exchange_rate_for(v_currency);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_tax_rate := woolwitch.tax_rate_for(v_country, v_product.tax_class);
+    v_tax := woolwitch.tax_amount(v_unit_price * v_quantity, v_tax_rate, v_settings.prices_include_tax);
+
+    -- Free delivery thresholds are in the base currency
+    v_base_subtotal := v_base_subtotal + v_unit_price * v_quantity;
+
+    v_unit_price := woolwitch.convert_amount(v_unit_price, v_rate);
+    v_tax := woolwitch.convert_amount(v_tax, v_rate);
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_tax_total := v_tax_total + v_tax;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', woolwitch.convert_amount(v_delivery, v_rate),
+      'quantity', v_quantity,
+      'tax_rate', v_tax_rate,
+      'tax_amount', v_tax,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  v_base_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_base_subtotal, p_address);
+  v_delivery_total := woolwitch.convert_amount(v_base_delivery_total, v_rate);
+
+  -- Delivery is taxed once, at the delivery tax class
+  v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+    v_base_delivery_total,
+    woolwitch.tax_rate_for(v_country, v_settings.delivery_tax_class),
+    v_settings.prices_include_tax
+  ), v_rate);
+
+  RETURN QUERY SELECT
+    v_subtotal,
+    v_delivery_total,
+    v_tax_total,
+    v_subtotal + v_delivery_total + CASE WHEN v_settings.prices_include_tax THEN 0 ELSE v_tax_total END,
+    v_settings.prices_include_tax,
+    v_currency,
+    v_rate,
+    v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Store currency
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region, in the chosen currency
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address, p_currency);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    currency,
+    exchange_rate,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    v_quote.currency,
+    v_quote.exchange_rate,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE PAYMENTS - Order currency
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_payment(uuid, text, text, numeric, text, jsonb, jsonb, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.create_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_status text DEFAULT 'pending',
+  p_paypal_details jsonb DEFAULT NULL,
+  p_stripe_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_payment_id uuid;
+  v_existing_order_id uuid;
+  v_order_total numeric;
+  v_order_currency text;
+  v_order_user_id uuid;
+BEGIN
+  -- Get order details and validate access
+  SELECT total, currency, user_id INTO v_order_total, v_order_currency, v_order_user_id
+  FROM woolwitch.orders
+  WHERE id = p_order_id;
+
+  -- Ensure order exists
+  IF v_order_total IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Verify user has access to this order
+  IF NOT (v_order_user_id = auth.uid() OR v_order_user_id IS NULL OR woolwitch.is_admin()) THEN
+    RAISE EXCEPTION 'Access denied to order';
+  END IF;
+
+  -- A retried checkout returns the payment recorded by the first attempt
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT p.id, p.order_id INTO v_payment_id, v_existing_order_id
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key;
+
+    IF v_payment_id IS NOT NULL THEN
+      IF v_existing_order_id <> p_order_id THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another payment';
+      END IF;
+
+      RETURN v_payment_id;
+    END IF;
+  END IF;
+
+  -- Validate payment amount matches order total
+  IF ABS(p_amount - v_order_total) > 0.01 THEN
+    RAISE EXCEPTION 'Payment amount % does not match order total %', p_amount, v_order_total;
+  END IF;
+
+  -- Only allow 'pending' status from client
+  -- Payment status should be updated by webhook/backend verification
+  IF p_status != 'pending' AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admin can set payment status to %', p_status;
+  END IF;
+
+  INSERT INTO woolwitch.payments (
+    order_id,
+    payment_method,
+    payment_id,
+    status,
+    amount,
+    currency,
+    paypal_details,
+    stripe_details,
+    idempotency_key
+  ) VALUES (
+    p_order_id,
+    p_payment_method,
+    p_payment_id,
+    p_status,
+    v_order_total,  -- Use validated order total
+    v_order_currency,
+    p_paypal_details,
+    p_stripe_details,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Records a payment the confirm-payment edge function has checked with the
+-- provider. Completes the checkout's pending payment (matched by provider
+-- payment id, then idempotency key) or records a new one, and moves a
+-- pending order to paid. Safe to call again for the same payment.
+DROP FUNCTION IF EXISTS woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.record_verified_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_currency text,
+  p_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_id uuid,
+  order_status text
+) AS $$
+DECLARE
+  v_order woolwitch.orders%ROWTYPE;
+  v_payment woolwitch.payments%ROWTYPE;
+  v_other_order_number text;
+BEGIN
+  IF p_payment_method NOT IN ('card', 'paypal') THEN
+    RAISE EXCEPTION 'Invalid payment method: %', p_payment_method;
+  END IF;
+
+  IF NULLIF(btrim(p_payment_id), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment id is required';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF upper(p_currency) <> v_order.currency OR ABS(p_amount - v_order.total) > 0.01 THEN
+    RAISE EXCEPTION 'Payment of % % does not match order total %', p_amount, upper(p_currency), v_order.total;
+  END IF;
+
+  -- A provider payment can only pay for one order
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.payment_method = p_payment_method
+    AND p.payment_id = p_payment_id
+  ORDER BY p.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND AND v_payment.order_id <> p_order_id THEN
+    SELECT o.order_number INTO v_other_order_number
+    FROM woolwitch.orders o
+    WHERE o.id = v_payment.order_id;
+
+    RAISE EXCEPTION 'Payment is already linked to order %', v_other_order_number;
+  END IF;
+
+  IF NOT FOUND AND p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_payment
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key
+      AND p.order_id = p_order_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    INSERT INTO woolwitch.payments (
+      order_id,
+      payment_method,
+      payment_id,
+      status,
+      amount,
+      currency,
+      paypal_details,
+      stripe_details,
+      idempotency_key
+    ) VALUES (
+      p_order_id,
+      p_payment_method,
+      p_payment_id,
+      'completed',
+      v_order.total,
+      v_order.currency,
+      CASE WHEN p_payment_method = 'paypal' THEN p_details END,
+      CASE WHEN p_payment_method = 'card' THEN p_details END,
+      p_idempotency_key
+    )
+    RETURNING * INTO v_payment;
+  ELSIF v_payment.status IN ('pending', 'failed') THEN
+    UPDATE woolwitch.payments p
+    SET
+      payment_id = p_payment_id,
+      status = 'completed',
+      paypal_details = CASE
+        WHEN p_payment_method = 'paypal' AND p_details IS NOT NULL
+        THEN COALESCE(p.paypal_details, '{}'::jsonb) || p_details
+        ELSE p.paypal_details
+      END,
+      stripe_details = CASE
+        WHEN p_payment_method = 'card' AND p_details IS NOT NULL
+        THEN COALESCE(p.stripe_details, '{}'::jsonb) || p_details
+        ELSE p.stripe_details
+      END,
+      updated_at = now()
+    WHERE p.id = v_payment.id
+    RETURNING * INTO v_payment;
+  END IF;
+
+  -- Move the order to paid (later states, and cancelled orders that now need
+  -- a refund, are left alone)
+  IF v_order.status = 'pending' THEN
+    PERFORM set_config('woolwitch.status_note', COALESCE(btrim(p_note), ''), true);
+
+    UPDATE woolwitch.orders o
+    SET status = 'paid',
+        updated_at = now()
+    WHERE o.id = p_order_id
+    RETURNING o.status INTO v_order.status;
+
+    PERFORM set_config('woolwitch.status_note', '', true);
+  END IF;
+
+  RETURN QUERY SELECT v_payment.id, v_order.status;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: CURRENCY CONFIGURATION
+-- ========================================
+
+-- Everything the storefront needs to show prices in another currency:
+-- { "base_currency": "GBP", "rates": [{ "currency": "USD", "rate": 1.27, ... }] }
+DROP FUNCTION IF EXISTS woolwitch_api.get_currency_config() CASCADE;
+CREATE FUNCTION woolwitch_api.get_currency_config()
+RETURNS jsonb AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'base_currency', COALESCE((SELECT s.base_currency FROM woolwitch.currency_settings s), 'GBP'),
+    'rates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'currency', r.currency,
+        'rate', r.rate,
+        'updated_at', r.updated_at
+      ) ORDER BY r.currency)
+      FROM woolwitch.exchange_rates r
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- Changes the base currency. Existing rates are restated against the new
+-- base (which must already have a rate); product prices are not converted.
+DROP FUNCTION IF EXISTS woolwitch_api.update_base_currency(text) CASCADE;
+CREATE FUNCTION woolwitch_api.update_base_currency(p_base_currency text)
+RETURNS void AS $$
+DECLARE
+  v_old_base text;
+  v_new_base text := upper(btrim(p_base_currency));
+  v_rate numeric;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT s.base_currency INTO v_old_base
+  FROM woolwitch.currency_settings s
+  FOR UPDATE;
+  v_old_base := COALESCE(v_old_base, 'GBP');
+
+  IF v_new_base = v_old_base THEN
+    RETURN;
+  END IF;
+
+  SELECT r.rate INTO v_rate
+  FROM woolwitch.exchange_rates r
+  WHERE r.currency = v_new_base;
+
+  IF v_rate IS NULL THEN
+    RAISE EXCEPTION 'Add an exchange rate for % before making it the base currency', v_new_base;
+  END IF;
+
+  DELETE FROM woolwitch.exchange_rates WHERE currency = v_new_base;
+
+  UPDATE woolwitch.exchange_rates
+  SET
+    rate = round(rate / v_rate, 6),
+    updated_at = now();
+
+  INSERT INTO woolwitch.exchange_rates (currency, rate)
+  VALUES (v_old_base, round(1 / v_rate, 6));
+
+  INSERT INTO woolwitch.currency_settings (id, base_currency, updated_at)
+  VALUES (true, v_new_base, now())
+  ON CONFLICT (id) DO UPDATE
+  SET
+    base_currency = EXCLUDED.base_currency,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Adds or replaces the rate for a currency other than the base currency
+DROP FUNCTION IF EXISTS woolwitch_api.save_exchange_rate(text, numeric) CASCADE;
+CREATE FUNCTION woolwitch_api.save_exchange_rate(
+  p_currency text,
+  p_rate numeric
+)
+RETURNS void AS $$
+DECLARE
+  v_currency text := upper(btrim(p_currency));
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF v_currency = (SELECT s.base_currency FROM woolwitch.currency_settings s) THEN
+    RAISE EXCEPTION 'The base currency always has a rate of 1';
+  END IF;
+
+  INSERT INTO woolwitch.exchange_rates (currency, rate, updated_at)
+  VALUES (v_currency, p_rate, now())
+  ON CONFLICT (currency) DO UPDATE
+  SET
+    rate = EXCLUDED.rate,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.delete_exchange_rate(text) CASCADE;
+CREATE FUNCTION woolwitch_api.delete_exchange_rate(p_currency text)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  DELETE FROM woolwitch.exchange_rates WHERE currency = upper(btrim(p_currency));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exchange rate not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE ORDER READS - Include currency
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.order_number,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.tax_total,
+  o.total,
+  o.prices_include_tax,
+  o.currency,
+  o.exchange_rate,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the order number (with or without dashes), email or name
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int, text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (
+      v_pattern IS NULL
+      OR o.order_number ILIKE v_pattern
+      OR (v_compact_pattern <> '%%' AND replace(o.order_number, '-', '') ILIKE v_compact_pattern)
+      OR o.email ILIKE v_pattern
+      OR o.full_name ILIKE v_pattern
+    )
+  ORDER BY o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL AND INVOICE DATA - Include currency
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_invoice(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_invoice(p_order_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'invoice', (
+      SELECT jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'issued_at', inv.issued_at
+      )
+      FROM woolwitch.invoices inv
+      WHERE inv.order_id = o.id
+    ),
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'delivery_charge', i.delivery_charge,
+        'tax_rate', i.tax_rate,
+        'tax_amount', i.tax_amount,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', p.payment_method,
+        'amount', p.amount,
+        'currency', p.currency,
+        'status', p.status,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM woolwitch.payments p
+      WHERE p.order_id = o.id
+      AND p.status IN ('completed', 'refunded')
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.currency_settings TO authenticated, anon;
+GRANT SELECT ON woolwitch.exchange_rates TO authenticated, anon;
+GRANT ALL PRIVILEGES ON woolwitch.currency_settings TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.exchange_rates TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.exchange_rate_for(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.convert_amount(numeric, numeric) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_payment(uuid, text, text, numeric, text, jsonb, jsonb, uuid) TO authenticated, anon;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_currency_config() TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_base_currency(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.save_exchange_rate(text, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.delete_exchange_rate(text) TO authenticated;
+
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_invoice(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.exchange_rate_for(text) IS 'Units of a currency per 1 unit of the base currency; raises for currencies without a rate';
+COMMENT ON FUNCTION woolwitch.convert_amount(numeric, numeric) IS 'Base currency amount converted at a rate and rounded to the penny (mirrors money.ts in the client)';
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text) IS 'Prices a cart from the product table, shipping profiles and tax rates for the address, in the chosen currency - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, priced by quote_order in the chosen currency (rejects mismatched client totals with WWP01), reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.create_payment IS 'Creates payment record in the order currency - validates amount, restricts status to pending for non-admin; returns the existing payment for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) IS 'Records a provider-verified payment in the order currency as completed and marks a pending order paid (service role only)';
+COMMENT ON FUNCTION woolwitch_api.get_currency_config() IS 'Base currency and exchange rates for showing prices in the browser';
+COMMENT ON FUNCTION woolwitch_api.update_base_currency(text) IS 'Changes the base currency and restates exchange rates against it (admin only)';
+COMMENT ON FUNCTION woolwitch_api.save_exchange_rate(text, numeric) IS 'Adds or replaces the exchange rate for a currency (admin only)';
+COMMENT ON FUNCTION woolwitch_api.delete_exchange_rate(text) IS 'Deletes an exchange rate (admin only)';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters and search by order number, email or name (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_order_invoice(uuid) IS 'Invoice number, order (with currency), items and captured payments for rendering an invoice or packing slip (owner or admin)';
@@ -0,0 +1,1243 @@
+-- Discount codes
+-- Customers can enter a code in the cart or at checkout for:
+--   * percentage    - value percent off each eligible line
+--   * fixed         - value (in the base currency) off the eligible lines,
+--                     shared between them in proportion to their price and
+--                     never more than they cost
+--   * free_delivery - the delivery charge is waived
+--
+-- A code can be limited to some products and/or categories (lines matching
+-- either are eligible; no limits means every line), need a minimum spend
+-- (the base currency subtotal before discount), only be valid between
+-- starts_at and expires_at, and be capped at max_uses orders. Cancelled
+-- orders do not count towards the cap.
+--
+-- quote_order works out each line's discount in the base currency before
+-- tax, so tax is charged on the discounted price, then converts it like any
+-- other amount. Orders record the code, the discount_total and each item's
+-- discount_amount; total = subtotal + delivery_total - discount_total, plus
+-- tax when prices exclude it. Free delivery thresholds still look at the
+-- subtotal before discount.
+--
+-- The same rules are implemented by src/lib/discountCalculator.ts for the
+-- storefront; keep the two in step.
+
+-- ========================================
+-- DISCOUNT TABLES
+-- ========================================
+
+-- Codes are stored upper-case so they match however the customer types them
+CREATE TABLE woolwitch.discount_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description text,
+  discount_type text NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'free_delivery')),
+  value numeric(10, 2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  min_spend numeric(10, 2) CHECK (min_spend IS NULL OR min_spend >= 0),
+  max_uses integer CHECK (max_uses IS NULL OR max_uses > 0),
+  starts_at timestamptz,
+  expires_at timestamptz,
+  product_ids uuid[] NOT NULL DEFAULT '{}',
+  categories text[] NOT NULL DEFAULT '{}',
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (discount_type <> 'percentage' OR value BETWEEN 0.01 AND 100),
+  CHECK (discount_type <> 'fixed' OR value > 0),
+  CHECK (expires_at IS NULL OR starts_at IS NULL OR expires_at > starts_at)
+);
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN discount_code_id uuid REFERENCES woolwitch.discount_codes(id) ON DELETE SET NULL,
+  ADD COLUMN discount_code text,
+  ADD COLUMN discount_total numeric(10, 2) NOT NULL DEFAULT 0 CHECK (discount_total >= 0);
+
+ALTER TABLE woolwitch.order_items
+  ADD COLUMN discount_amount numeric(10, 2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+-- The discount comes off the total
+ALTER TABLE woolwitch.orders
+DROP CONSTRAINT IF EXISTS orders_total_calculation_check;
+
+ALTER TABLE woolwitch.orders
+ADD CONSTRAINT orders_total_calculation_check
+CHECK (abs(total - (subtotal + delivery_total - discount_total + CASE WHEN prices_include_tax THEN 0 ELSE tax_total END)) < 0.01);
+
+CREATE INDEX idx_orders_discount_code ON woolwitch.orders(discount_code_id);
+
+ALTER TABLE woolwitch.discount_codes ENABLE ROW LEVEL SECURITY;
+
+-- Not public: customers look up a single code with get_discount_code
+CREATE POLICY "Admin discount code management" ON woolwitch.discount_codes
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.discount_codes IS 'Discount codes customers can apply to an order';
+COMMENT ON COLUMN woolwitch.discount_codes.value IS 'Percent off for percentage codes, base currency amount off for fixed codes; unused for free delivery';
+COMMENT ON COLUMN woolwitch.discount_codes.min_spend IS 'Base currency subtotal (before discount) the order must reach; NULL for none';
+COMMENT ON COLUMN woolwitch.discount_codes.max_uses IS 'Orders that can use the code, not counting cancelled ones; NULL for unlimited';
+COMMENT ON COLUMN woolwitch.discount_codes.product_ids IS 'Products the code applies to; with categories empty too it applies to every product';
+COMMENT ON COLUMN woolwitch.discount_codes.categories IS 'Categories the code applies to; with product_ids empty too it applies to every product';
+COMMENT ON COLUMN woolwitch.orders.discount_code IS 'Code applied to the order, as entered when it was placed';
+COMMENT ON COLUMN woolwitch.orders.discount_total IS 'Discount on items and delivery, in the order currency';
+COMMENT ON COLUMN woolwitch.order_items.discount_amount IS 'Discount on the whole line, in the order currency';
+COMMENT ON CONSTRAINT orders_total_calculation_check ON woolwitch.orders IS
+  'Validates that total equals subtotal plus delivery less discount, plus tax when prices exclude it';
+
+-- ========================================
+-- DISCOUNT RULES
+-- ========================================
+
+-- Orders (other than cancelled ones) that have used a code
+DROP FUNCTION IF EXISTS woolwitch.discount_code_uses(uuid) CASCADE;
+CREATE FUNCTION woolwitch.discount_code_uses(p_discount_code_id uuid)
+RETURNS integer AS $$
+  SELECT count(*)::integer
+  FROM woolwitch.orders o
+  WHERE o.discount_code_id = p_discount_code_id
+  AND o.status <> 'cancelled';
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- The code a customer entered, if it can be used now. Raises WWD01 with a
+-- message for the customer when it cannot. Minimum spend and product limits
+-- depend on the cart and are checked by quote_order.
+DROP FUNCTION IF EXISTS woolwitch.discount_code_for(text) CASCADE;
+CREATE FUNCTION woolwitch.discount_code_for(p_code text)
+RETURNS woolwitch.discount_codes AS $$
+DECLARE
+  v_code text := upper(btrim(p_code));
+  v_discount woolwitch.discount_codes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_discount
+  FROM woolwitch.discount_codes d
+  WHERE d.code = v_code;
+
+  IF v_discount.id IS NULL OR NOT v_discount.is_active THEN
+    RAISE EXCEPTION 'Discount code % is not valid', v_code
+      USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+  END IF;
+
+  IF v_discount.starts_at IS NOT NULL AND v_discount.starts_at > now() THEN
+    RAISE EXCEPTION 'Discount code % is not valid yet', v_code
+      USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+  END IF;
+
+  IF v_discount.expires_at IS NOT NULL AND v_discount.expires_at <= now() THEN
+    RAISE EXCEPTION 'Discount code % has expired', v_code
+      USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+  END IF;
+
+  IF v_discount.max_uses IS NOT NULL
+     AND woolwitch.discount_code_uses(v_discount.id) >= v_discount.max_uses THEN
+    RAISE EXCEPTION 'Discount code % has been used up', v_code
+      USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+  END IF;
+
+  RETURN v_discount;
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Whether a product is one a code applies to
+DROP FUNCTION IF EXISTS woolwitch.discount_applies_to(woolwitch.discount_codes, uuid, text) CASCADE;
+CREATE FUNCTION woolwitch.discount_applies_to(
+  p_discount woolwitch.discount_codes,
+  p_product_id uuid,
+  p_category text
+)
+RETURNS boolean AS $$
+  SELECT (cardinality(p_discount.product_ids) = 0 AND cardinality(p_discount.categories) = 0)
+    OR p_product_id = ANY(p_discount.product_ids)
+    OR p_category = ANY(p_discount.categories);
+$$ LANGUAGE sql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE quote_order - Discount codes
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb, jsonb, text) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  discount_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  items jsonb
+) AS $$
+DECLARE
+  v_settings woolwitch.tax_settings%ROWTYPE;
+  v_country text := upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+  v_currency text;
+  v_rate numeric;
+  v_discount woolwitch.discount_codes%ROWTYPE;
+  v_item jsonb;
+  v_line jsonb;
+  v_index integer := 0;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_line_amount numeric;
+  v_eligible boolean;
+  v_line_discount numeric;
+  v_delivery numeric;
+  v_tax_rate numeric;
+  v_tax numeric;
+  v_base_subtotal numeric := 0;
+  v_eligible_subtotal numeric := 0;
+  v_last_eligible integer;
+  v_fixed_amount numeric := 0;
+  v_fixed_remaining numeric := 0;
+  v_base_delivery_total numeric;
+  v_delivery_discount numeric := 0;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_discount_total numeric := 0;
+  v_tax_total numeric := 0;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  SELECT * INTO v_settings FROM woolwitch.tax_settings;
+  v_settings.prices_include_tax := COALESCE(v_settings.prices_include_tax, true);
+  v_settings.delivery_tax_class := COALESCE(v_settings.delivery_tax_class, 'standard');
+
+  -- Without a currency the order is priced in the base currency
+  SELECT upper(COALESCE(NULLIF(btrim(p_currency), ''), s.base_currency)) INTO v_currency
+  FROM woolwitch.currency_settings s;
+  v_currency := COALESCE(v_currency, 'GBP');
+  v_rate := woolwitch.exchange_rate_for(v_currency);
+
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    v_discount := woolwitch.discount_code_for(p_discount_code);
+  END IF;
+
+  -- Price each line in the base currency
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+    v_eligible := v_discount.id IS NOT NULL
+      AND woolwitch.discount_applies_to(v_discount, v_product.id, v_product.category);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_base_subtotal := v_base_subtotal + v_unit_price * v_quantity;
+    IF v_eligible THEN
+      v_eligible_subtotal := v_eligible_subtotal + v_unit_price * v_quantity;
+      v_last_eligible := v_index;
+    END IF;
+    v_index := v_index + 1;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'tax_class', v_product.tax_class,
+      'eligible', v_eligible,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  IF v_discount.id IS NOT NULL THEN
+    IF v_discount.min_spend IS NOT NULL AND v_base_subtotal < v_discount.min_spend THEN
+      RAISE EXCEPTION 'Spend at least % to use discount code %', v_discount.min_spend, v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_last_eligible IS NULL THEN
+      RAISE EXCEPTION 'Discount code % does not apply to anything in your order', v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_discount.discount_type = 'fixed' THEN
+      v_fixed_amount := LEAST(v_discount.value, v_eligible_subtotal);
+      v_fixed_remaining := v_fixed_amount;
+    END IF;
+  END IF;
+
+  -- Discount and tax each line, then convert it to the order currency
+  v_index := 0;
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines)
+  LOOP
+    v_unit_price := (v_line->>'unit_price')::numeric;
+    v_quantity := (v_line->>'quantity')::integer;
+    v_line_amount := v_unit_price * v_quantity;
+    v_line_discount := 0;
+
+    IF (v_line->>'eligible')::boolean THEN
+      IF v_discount.discount_type = 'percentage' THEN
+        v_line_discount := round(v_line_amount * v_discount.value / 100, 2);
+      ELSIF v_discount.discount_type = 'fixed' THEN
+        -- Shared in proportion to price; the last eligible line takes the
+        -- rounding remainder so the lines add up to the fixed amount
+        v_line_discount := CASE
+          WHEN v_index = v_last_eligible THEN v_fixed_remaining
+          ELSE round(v_fixed_amount * v_line_amount / v_eligible_subtotal, 2)
+        END;
+        v_fixed_remaining := v_fixed_remaining - v_line_discount;
+      END IF;
+    END IF;
+    v_index := v_index + 1;
+
+    v_tax_rate := woolwitch.tax_rate_for(v_country, v_line->>'tax_class');
+    v_tax := woolwitch.tax_amount(v_line_amount - v_line_discount, v_tax_rate, v_settings.prices_include_tax);
+
+    v_unit_price := woolwitch.convert_amount(v_unit_price, v_rate);
+    v_line_discount := woolwitch.convert_amount(v_line_discount, v_rate);
+    v_tax := woolwitch.convert_amount(v_tax, v_rate);
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_discount_total := v_discount_total + v_line_discount;
+    v_tax_total := v_tax_total + v_tax;
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_line->'product_id',
+      'product_name', v_line->'product_name',
+      'unit_price', v_unit_price,
+      'delivery_charge', woolwitch.convert_amount((v_line->>'delivery_charge')::numeric, v_rate),
+      'quantity', v_quantity,
+      'tax_rate', v_tax_rate,
+      'tax_amount', v_tax,
+      'discount_amount', v_line_discount,
+      'custom_selections', v_line->'custom_selections'
+    ));
+  END LOOP;
+
+  -- Free delivery thresholds are in the base currency, before discount
+  v_base_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_base_subtotal, p_address);
+  v_delivery_total := woolwitch.convert_amount(v_base_delivery_total, v_rate);
+
+  IF v_discount.discount_type = 'free_delivery' THEN
+    v_delivery_discount := v_base_delivery_total;
+    v_discount_total := v_discount_total + v_delivery_total;
+  END IF;
+
+  -- Delivery is taxed once, at the delivery tax class
+  v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+    v_base_delivery_total - v_delivery_discount,
+    woolwitch.tax_rate_for(v_country, v_settings.delivery_tax_class),
+    v_settings.prices_include_tax
+  ), v_rate);
+
+  RETURN QUERY SELECT
+    v_subtotal,
+    v_delivery_total,
+    v_discount_total,
+    v_tax_total,
+    v_subtotal + v_delivery_total - v_discount_total
+      + CASE WHEN v_settings.prices_include_tax THEN 0 ELSE v_tax_total END,
+    v_settings.prices_include_tax,
+    v_currency,
+    v_rate,
+    v_discount.code,
+    v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Discount codes
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_discount_code_id uuid;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Lock the discount code so concurrent orders cannot go over its usage
+  -- limit; quote_order checks the limit once the lock is held
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    SELECT d.id INTO v_discount_code_id
+    FROM woolwitch.discount_codes d
+    WHERE d.code = upper(btrim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region and the discount, in the chosen
+  -- currency
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address, p_currency, p_discount_code);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'discount_total', v_quote.discount_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    currency,
+    exchange_rate,
+    discount_code_id,
+    discount_code,
+    discount_total,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    v_quote.currency,
+    v_quote.exchange_rate,
+    v_discount_code_id,
+    v_quote.discount_code,
+    v_quote.discount_total,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      discount_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      (v_line->>'discount_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: DISCOUNT CODES
+-- ========================================
+
+-- A code the customer entered, if it can be used now (raises WWD01 when it
+-- cannot), with what the storefront needs to work out the discount:
+-- { "code": "WINTER10", "discount_type": "percentage", "value": 10, ... }
+DROP FUNCTION IF EXISTS woolwitch_api.get_discount_code(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_discount_code(p_code text)
+RETURNS jsonb AS $$
+DECLARE
+  v_discount woolwitch.discount_codes%ROWTYPE;
+BEGIN
+  v_discount := woolwitch.discount_code_for(p_code);
+
+  RETURN jsonb_build_object(
+    'code', v_discount.code,
+    'description', v_discount.description,
+    'discount_type', v_discount.discount_type,
+    'value', v_discount.value,
+    'min_spend', v_discount.min_spend,
+    'product_ids', to_jsonb(v_discount.product_ids),
+    'categories', to_jsonb(v_discount.categories),
+    'expires_at', v_discount.expires_at
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_discount_codes() CASCADE;
+CREATE FUNCTION woolwitch_api.get_discount_codes()
+RETURNS TABLE (
+  id uuid,
+  code text,
+  description text,
+  discount_type text,
+  value numeric,
+  min_spend numeric,
+  max_uses integer,
+  starts_at timestamptz,
+  expires_at timestamptz,
+  product_ids uuid[],
+  categories text[],
+  is_active boolean,
+  times_used integer,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.code,
+    d.description,
+    d.discount_type,
+    d.value,
+    d.min_spend,
+    d.max_uses,
+    d.starts_at,
+    d.expires_at,
+    d.product_ids,
+    d.categories,
+    d.is_active,
+    woolwitch.discount_code_uses(d.id),
+    d.created_at,
+    d.updated_at
+  FROM woolwitch.discount_codes d
+  ORDER BY d.created_at DESC;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_discount_code(text, text, text, numeric, numeric, integer, timestamptz, timestamptz, uuid[], text[], boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.create_discount_code(
+  p_code text,
+  p_description text,
+  p_discount_type text,
+  p_value numeric,
+  p_min_spend numeric DEFAULT NULL,
+  p_max_uses integer DEFAULT NULL,
+  p_starts_at timestamptz DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL,
+  p_product_ids uuid[] DEFAULT '{}',
+  p_categories text[] DEFAULT '{}',
+  p_is_active boolean DEFAULT true
+)
+RETURNS uuid AS $$
+DECLARE
+  v_discount_code_id uuid;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM woolwitch.discount_codes d WHERE d.code = upper(btrim(p_code))) THEN
+    RAISE EXCEPTION 'Discount code % already exists', upper(btrim(p_code));
+  END IF;
+
+  INSERT INTO woolwitch.discount_codes (
+    code,
+    description,
+    discount_type,
+    value,
+    min_spend,
+    max_uses,
+    starts_at,
+    expires_at,
+    product_ids,
+    categories,
+    is_active
+  ) VALUES (
+    upper(btrim(p_code)),
+    NULLIF(btrim(p_description), ''),
+    p_discount_type,
+    CASE WHEN p_discount_type = 'free_delivery' THEN 0 ELSE COALESCE(p_value, 0) END,
+    p_min_spend,
+    p_max_uses,
+    p_starts_at,
+    p_expires_at,
+    COALESCE(p_product_ids, '{}'),
+    COALESCE(p_categories, '{}'),
+    COALESCE(p_is_active, true)
+  )
+  RETURNING id INTO v_discount_code_id;
+
+  RETURN v_discount_code_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Orders keep the code they were placed with if it is renamed
+DROP FUNCTION IF EXISTS woolwitch_api.update_discount_code(uuid, text, text, text, numeric, numeric, integer, timestamptz, timestamptz, uuid[], text[], boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.update_discount_code(
+  p_discount_code_id uuid,
+  p_code text,
+  p_description text,
+  p_discount_type text,
+  p_value numeric,
+  p_min_spend numeric DEFAULT NULL,
+  p_max_uses integer DEFAULT NULL,
+  p_starts_at timestamptz DEFAULT NULL,
+  p_expires_at timestamptz DEFAULT NULL,
+  p_product_ids uuid[] DEFAULT '{}',
+  p_categories text[] DEFAULT '{}',
+  p_is_active boolean DEFAULT true
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM woolwitch.discount_codes d
+    WHERE d.code = upper(btrim(p_code))
+    AND d.id <> p_discount_code_id
+  ) THEN
+    RAISE EXCEPTION 'Discount code % already exists', upper(btrim(p_code));
+  END IF;
+
+  UPDATE woolwitch.discount_codes
+  SET
+    code = upper(btrim(p_code)),
+    description = NULLIF(btrim(p_description), ''),
+    discount_type = p_discount_type,
+    value = CASE WHEN p_discount_type = 'free_delivery' THEN 0 ELSE COALESCE(p_value, 0) END,
+    min_spend = p_min_spend,
+    max_uses = p_max_uses,
+    starts_at = p_starts_at,
+    expires_at = p_expires_at,
+    product_ids = COALESCE(p_product_ids, '{}'),
+    categories = COALESCE(p_categories, '{}'),
+    is_active = COALESCE(p_is_active, true),
+    updated_at = now()
+  WHERE id = p_discount_code_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount code not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Orders that used the code keep it in discount_code
+DROP FUNCTION IF EXISTS woolwitch_api.delete_discount_code(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.delete_discount_code(p_discount_code_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  DELETE FROM woolwitch.discount_codes WHERE id = p_discount_code_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Discount code not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE ORDER READS - Include discount
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.order_number,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.tax_total,
+  o.total,
+  o.prices_include_tax,
+  o.currency,
+  o.exchange_rate,
+  o.discount_code,
+  o.discount_total,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the order number (with or without dashes), email or name
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int, text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (
+      v_pattern IS NULL
+      OR o.order_number ILIKE v_pattern
+      OR (v_compact_pattern <> '%%' AND replace(o.order_number, '-', '') ILIKE v_compact_pattern)
+      OR o.email ILIKE v_pattern
+      OR o.full_name ILIKE v_pattern
+    )
+  ORDER BY o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL AND INVOICE DATA - Include discount
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'discount_code', o.discount_code,
+      'discount_total', o.discount_total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_invoice(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_invoice(p_order_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'invoice', (
+      SELECT jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'issued_at', inv.issued_at
+      )
+      FROM woolwitch.invoices inv
+      WHERE inv.order_id = o.id
+    ),
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'discount_code', o.discount_code,
+      'discount_total', o.discount_total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'delivery_charge', i.delivery_charge,
+        'tax_rate', i.tax_rate,
+        'tax_amount', i.tax_amount,
+        'discount_amount', i.discount_amount,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', p.payment_method,
+        'amount', p.amount,
+        'currency', p.currency,
+        'status', p.status,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM woolwitch.payments p
+      WHERE p.order_id = o.id
+      AND p.status IN ('completed', 'refunded')
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT ALL PRIVILEGES ON woolwitch.discount_codes TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.discount_code_uses(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.discount_code_for(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.discount_applies_to(woolwitch.discount_codes, uuid, text) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text) TO authenticated, anon;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_discount_code(text) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_discount_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_discount_code(text, text, text, numeric, numeric, integer, timestamptz, timestamptz, uuid[], text[], boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_discount_code(uuid, text, text, text, numeric, numeric, integer, timestamptz, timestamptz, uuid[], text[], boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.delete_discount_code(uuid) TO authenticated;
+
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_invoice(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.discount_code_uses(uuid) IS 'Orders, other than cancelled ones, that used a discount code';
+COMMENT ON FUNCTION woolwitch.discount_code_for(text) IS 'Discount code a customer entered if it is active, in date and not used up; raises WWD01 otherwise';
+COMMENT ON FUNCTION woolwitch.discount_applies_to(woolwitch.discount_codes, uuid, text) IS 'Whether a discount code applies to a product (mirrors discountCalculator.ts in the client)';
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text) IS 'Prices a cart from the product table, shipping profiles, tax rates and discount code for the address, in the chosen currency - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, priced by quote_order with any discount code (rejects mismatched client totals with WWP01 and unusable codes with WWD01), reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.get_discount_code(text) IS 'Discount code details for working out a discount in the browser; raises WWD01 when the code cannot be used';
+COMMENT ON FUNCTION woolwitch_api.get_discount_codes() IS 'All discount codes with how many orders have used them (admin only)';
+COMMENT ON FUNCTION woolwitch_api.create_discount_code(text, text, text, numeric, numeric, integer, timestamptz, timestamptz, uuid[], text[], boolean) IS 'Creates a discount code (admin only)';
+COMMENT ON FUNCTION woolwitch_api.update_discount_code(uuid, text, text, text, numeric, numeric, integer, timestamptz, timestamptz, uuid[], text[], boolean) IS 'Updates a discount code (admin only)';
+COMMENT ON FUNCTION woolwitch_api.delete_discount_code(uuid) IS 'Deletes a discount code; orders that used it keep the code (admin only)';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters and search by order number, email or name (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_order_invoice(uuid) IS 'Invoice number, order (with currency and discount), items and captured payments for rendering an invoice or packing slip (owner or admin)';
@@ -0,0 +1,2117 @@
+-- Gift cards
+-- Gift cards can be bought like any other product and spent at checkout:
+--   * products.is_gift_card        - a product that is sold as a gift card;
+--                                    each one bought becomes a card worth the
+--                                    price paid for it, in the order currency
+--   * woolwitch.gift_cards         - issued cards, with a unique code such as
+--                                    WXYZ-2345-ABCD-6789
+--   * woolwitch.gift_card_transactions
+--                                  - the balance ledger: what each card was
+--                                    issued with, spent, had refunded and
+--                                    voided. A card's balance is the sum of
+--                                    its transactions.
+--
+-- Cards are issued when the order buying them is paid. Admins can also issue
+-- cards by hand, look cards up and void them.
+--
+-- At checkout a card pays for all or part of an order in the card's
+-- currency. create_order takes the amount from the card, records it as a
+-- completed 'gift_card' payment and stores it on orders.gift_card_total; the
+-- rest is paid with Stripe or PayPal as before. An order the card covers in
+-- full is paid straight away. Cancelling an unpaid order puts the amount back
+-- on the card, and refunds of the gift card payment are credited to it.
+
+-- ========================================
+-- GIFT CARD TABLES
+-- ========================================
+
+ALTER TABLE woolwitch.products
+  ADD COLUMN is_gift_card boolean NOT NULL DEFAULT false;
+
+-- Codes are stored upper-case in groups of four, however they are typed
+CREATE TABLE woolwitch.gift_cards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9]{4}(-[A-Z0-9]{4}){3}$'),
+  initial_value numeric(10, 2) NOT NULL CHECK (initial_value > 0),
+  currency text NOT NULL DEFAULT 'GBP',
+  order_id uuid REFERENCES woolwitch.orders(id) ON DELETE SET NULL,
+  order_item_id uuid REFERENCES woolwitch.order_items(id) ON DELETE SET NULL,
+  recipient_email text,
+  note text,
+  issued_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  voided_at timestamptz,
+  voided_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  void_reason text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE woolwitch.gift_card_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  gift_card_id uuid NOT NULL REFERENCES woolwitch.gift_cards(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES woolwitch.orders(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('issue', 'redeem', 'refund', 'void')),
+  amount numeric(10, 2) NOT NULL CHECK (amount <> 0),
+  note text,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_gift_cards_order ON woolwitch.gift_cards(order_id) WHERE order_id IS NOT NULL;
+CREATE INDEX idx_gift_cards_created ON woolwitch.gift_cards(created_at DESC);
+CREATE INDEX idx_gift_card_transactions_card ON woolwitch.gift_card_transactions(gift_card_id, created_at);
+CREATE INDEX idx_gift_card_transactions_order ON woolwitch.gift_card_transactions(order_id) WHERE order_id IS NOT NULL;
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN gift_card_total numeric(10, 2) NOT NULL DEFAULT 0 CHECK (gift_card_total >= 0);
+
+-- Orders the gift card covers in full have no other payment method
+ALTER TABLE woolwitch.orders
+  DROP CONSTRAINT IF EXISTS orders_payment_method_check,
+  ADD CONSTRAINT orders_payment_method_check
+    CHECK (payment_method IN ('card', 'paypal', 'stripe', 'gift_card'));
+
+ALTER TABLE woolwitch.payments
+  DROP CONSTRAINT IF EXISTS payments_payment_method_check,
+  ADD CONSTRAINT payments_payment_method_check
+    CHECK (payment_method IN ('card', 'paypal', 'stripe', 'gift_card'));
+
+ALTER TABLE woolwitch.gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE woolwitch.gift_card_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Not public: customers look up a single card with get_gift_card
+CREATE POLICY "Admin gift card access" ON woolwitch.gift_cards
+  FOR SELECT TO authenticated
+  USING (woolwitch.is_admin());
+
+CREATE POLICY "Admin gift card transaction access" ON woolwitch.gift_card_transactions
+  FOR SELECT TO authenticated
+  USING (woolwitch.is_admin());
+
+COMMENT ON COLUMN woolwitch.products.is_gift_card IS 'Sold as a gift card: each one bought is issued as a card worth its price once the order is paid';
+COMMENT ON TABLE woolwitch.gift_cards IS 'Issued gift cards; the balance is the sum of gift_card_transactions';
+COMMENT ON COLUMN woolwitch.gift_cards.currency IS 'Currency the card was issued in; it can only pay for orders in this currency';
+COMMENT ON COLUMN woolwitch.gift_cards.order_id IS 'Order the card was bought on; NULL for cards issued by an admin';
+COMMENT ON TABLE woolwitch.gift_card_transactions IS 'Gift card balance ledger: credits are positive, debits negative';
+COMMENT ON COLUMN woolwitch.orders.gift_card_total IS 'Part of the total paid by gift card, in the order currency';
+
+-- ========================================
+-- GIFT CARD BALANCES
+-- ========================================
+
+-- A code as typed ("wxyz 2345 abcd 6789") in its stored form
+-- ("WXYZ-2345-ABCD-6789")
+DROP FUNCTION IF EXISTS woolwitch.normalize_gift_card_code(text) CASCADE;
+CREATE FUNCTION woolwitch.normalize_gift_card_code(p_code text)
+RETURNS text AS $$
+DECLARE
+  v_code text := regexp_replace(upper(COALESCE(p_code, '')), '[^A-Z0-9]', '', 'g');
+BEGIN
+  IF length(v_code) <> 16 THEN
+    RETURN v_code;
+  END IF;
+
+  RETURN substr(v_code, 1, 4) || '-' || substr(v_code, 5, 4) || '-'
+    || substr(v_code, 9, 4) || '-' || substr(v_code, 13, 4);
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- A new random code: 16 characters from 32 that cannot be mistaken for each
+-- other (no 0/O or 1/I), so 80 bits that cannot be guessed
+DROP FUNCTION IF EXISTS woolwitch.generate_gift_card_code() CASCADE;
+CREATE FUNCTION woolwitch.generate_gift_card_code()
+RETURNS text AS $$
+DECLARE
+  v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_bytes bytea;
+  v_code text;
+BEGIN
+  LOOP
+    v_bytes := extensions.gen_random_bytes(16);
+    v_code := '';
+
+    FOR i IN 0..15 LOOP
+      v_code := v_code || substr(v_alphabet, get_byte(v_bytes, i) % 32 + 1, 1);
+    END LOOP;
+
+    v_code := woolwitch.normalize_gift_card_code(v_code);
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM woolwitch.gift_cards g WHERE g.code = v_code);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql
+   VOLATILE
+   SET search_path = woolwitch, extensions, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch.gift_card_balance(uuid) CASCADE;
+CREATE FUNCTION woolwitch.gift_card_balance(p_gift_card_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(t.amount), 0)
+  FROM woolwitch.gift_card_transactions t
+  WHERE t.gift_card_id = p_gift_card_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- The card for a code a customer entered, if it can be spent. Raises WWG01
+-- with a message for the customer when it cannot. p_lock locks the card so
+-- its balance cannot change until the transaction ends.
+DROP FUNCTION IF EXISTS woolwitch.gift_card_for(text, boolean) CASCADE;
+CREATE FUNCTION woolwitch.gift_card_for(p_code text, p_lock boolean DEFAULT false)
+RETURNS woolwitch.gift_cards AS $$
+DECLARE
+  v_code text := woolwitch.normalize_gift_card_code(p_code);
+  v_card woolwitch.gift_cards%ROWTYPE;
+BEGIN
+  IF p_lock THEN
+    SELECT * INTO v_card
+    FROM woolwitch.gift_cards g
+    WHERE g.code = v_code
+    FOR UPDATE;
+  ELSE
+    SELECT * INTO v_card
+    FROM woolwitch.gift_cards g
+    WHERE g.code = v_code;
+  END IF;
+
+  IF v_card.id IS NULL THEN
+    RAISE EXCEPTION 'Gift card % is not valid', v_code
+      USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+  END IF;
+
+  IF v_card.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Gift card % has been cancelled', v_code
+      USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+  END IF;
+
+  IF woolwitch.gift_card_balance(v_card.id) <= 0 THEN
+    RAISE EXCEPTION 'Gift card % has no balance left', v_code
+      USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+  END IF;
+
+  RETURN v_card;
+END;
+$$ LANGUAGE plpgsql
+   SET search_path = woolwitch, pg_catalog;
+
+-- Creates a card with its opening balance
+DROP FUNCTION IF EXISTS woolwitch.issue_gift_card(numeric, text, uuid, uuid, text, text, uuid) CASCADE;
+CREATE FUNCTION woolwitch.issue_gift_card(
+  p_amount numeric,
+  p_currency text,
+  p_order_id uuid DEFAULT NULL,
+  p_order_item_id uuid DEFAULT NULL,
+  p_recipient_email text DEFAULT NULL,
+  p_note text DEFAULT NULL,
+  p_issued_by uuid DEFAULT NULL
+)
+RETURNS woolwitch.gift_cards AS $$
+DECLARE
+  v_card woolwitch.gift_cards%ROWTYPE;
+BEGIN
+  IF p_amount IS NULL OR round(p_amount, 2) <= 0 THEN
+    RAISE EXCEPTION 'Gift card value must be greater than zero';
+  END IF;
+
+  INSERT INTO woolwitch.gift_cards (
+    code,
+    initial_value,
+    currency,
+    order_id,
+    order_item_id,
+    recipient_email,
+    note,
+    issued_by
+  ) VALUES (
+    woolwitch.generate_gift_card_code(),
+    round(p_amount, 2),
+    upper(p_currency),
+    p_order_id,
+    p_order_item_id,
+    NULLIF(btrim(p_recipient_email), ''),
+    NULLIF(btrim(p_note), ''),
+    p_issued_by
+  )
+  RETURNING * INTO v_card;
+
+  INSERT INTO woolwitch.gift_card_transactions (gift_card_id, order_id, kind, amount, created_by)
+  VALUES (v_card.id, p_order_id, 'issue', v_card.initial_value, p_issued_by);
+
+  RETURN v_card;
+END;
+$$ LANGUAGE plpgsql
+   SET search_path = woolwitch, pg_catalog;
+
+-- Spends part of a card's balance on an order: records the debit, a
+-- completed 'gift_card' payment and the order's gift_card_total. Raises
+-- WWG01 when the card cannot pay this much towards this order.
+DROP FUNCTION IF EXISTS woolwitch.redeem_gift_card(text, uuid, numeric) CASCADE;
+CREATE FUNCTION woolwitch.redeem_gift_card(p_code text, p_order_id uuid, p_amount numeric)
+RETURNS uuid AS $$
+DECLARE
+  v_card woolwitch.gift_cards%ROWTYPE;
+  v_order woolwitch.orders%ROWTYPE;
+  v_amount numeric := round(p_amount, 2);
+  v_payment_id uuid;
+BEGIN
+  v_card := woolwitch.gift_card_for(p_code, true);
+
+  SELECT * INTO v_order
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  FOR UPDATE;
+
+  IF v_card.currency <> v_order.currency THEN
+    RAISE EXCEPTION 'Gift card % can only be used for orders in %', v_card.code, v_card.currency
+      USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Gift card amount must be greater than zero';
+  END IF;
+
+  IF v_amount > woolwitch.gift_card_balance(v_card.id) THEN
+    RAISE EXCEPTION 'Gift card % only has % left', v_card.code, woolwitch.gift_card_balance(v_card.id)
+      USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+  END IF;
+
+  IF v_amount > v_order.total - v_order.gift_card_total THEN
+    RAISE EXCEPTION 'Gift card amount % is more than the % left to pay', v_amount, v_order.total - v_order.gift_card_total;
+  END IF;
+
+  INSERT INTO woolwitch.gift_card_transactions (gift_card_id, order_id, kind, amount, created_by)
+  VALUES (v_card.id, p_order_id, 'redeem', -v_amount, auth.uid());
+
+  INSERT INTO woolwitch.payments (
+    order_id,
+    payment_method,
+    payment_id,
+    status,
+    amount,
+    currency
+  ) VALUES (
+    p_order_id,
+    'gift_card',
+    v_card.code,
+    'completed',
+    v_amount,
+    v_order.currency
+  )
+  RETURNING id INTO v_payment_id;
+
+  UPDATE woolwitch.orders o
+  SET gift_card_total = o.gift_card_total + v_amount,
+      updated_at = now()
+  WHERE o.id = p_order_id;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql
+   SET search_path = woolwitch, auth, pg_catalog;
+
+-- Puts money back on the card a 'gift_card' payment was taken from
+DROP FUNCTION IF EXISTS woolwitch.credit_gift_card_payment(uuid, numeric, text) CASCADE;
+CREATE FUNCTION woolwitch.credit_gift_card_payment(p_payment_id uuid, p_amount numeric, p_note text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_payment woolwitch.payments%ROWTYPE;
+  v_card_id uuid;
+BEGIN
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.id = p_payment_id;
+
+  SELECT g.id INTO v_card_id
+  FROM woolwitch.gift_cards g
+  WHERE g.code = v_payment.payment_id
+  FOR UPDATE;
+
+  IF v_payment.payment_method <> 'gift_card' OR v_card_id IS NULL THEN
+    RAISE EXCEPTION 'Payment was not made with a gift card';
+  END IF;
+
+  INSERT INTO woolwitch.gift_card_transactions (gift_card_id, order_id, kind, amount, note, created_by)
+  VALUES (v_card_id, v_payment.order_id, 'refund', round(p_amount, 2), NULLIF(btrim(p_note), ''), auth.uid());
+END;
+$$ LANGUAGE plpgsql
+   SET search_path = woolwitch, auth, pg_catalog;
+
+-- Issues a card for each gift card bought on an order, worth the price paid
+-- for it. Does nothing if the order's cards have already been issued.
+DROP FUNCTION IF EXISTS woolwitch.issue_order_gift_cards(uuid) CASCADE;
+CREATE FUNCTION woolwitch.issue_order_gift_cards(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_order woolwitch.orders%ROWTYPE;
+  v_item record;
+BEGIN
+  IF EXISTS (SELECT 1 FROM woolwitch.gift_cards g WHERE g.order_id = p_order_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_order
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  FOR v_item IN
+    SELECT i.id, i.product_price, i.quantity
+    FROM woolwitch.order_items i
+    JOIN woolwitch.products p ON p.id = i.product_id
+    WHERE i.order_id = p_order_id
+      AND p.is_gift_card
+    ORDER BY i.created_at, i.id
+  LOOP
+    FOR n IN 1..v_item.quantity LOOP
+      PERFORM woolwitch.issue_gift_card(
+        v_item.product_price,
+        v_order.currency,
+        p_order_id,
+        v_item.id,
+        v_order.email,
+        'Bought on order ' || v_order.order_number
+      );
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql
+   SET search_path = woolwitch, pg_catalog;
+
+-- Issues bought cards once an order is paid, and puts gift card payments
+-- back on their cards when an unpaid order is cancelled (paid orders are
+-- refunded through refund-payment instead)
+CREATE OR REPLACE FUNCTION woolwitch.handle_order_gift_cards()
+RETURNS trigger AS $$
+DECLARE
+  v_payment woolwitch.payments%ROWTYPE;
+BEGIN
+  IF OLD.status = 'pending' AND NEW.status = 'paid' THEN
+    PERFORM woolwitch.issue_order_gift_cards(NEW.id);
+  END IF;
+
+  IF OLD.status = 'pending' AND NEW.status = 'cancelled' THEN
+    FOR v_payment IN
+      SELECT *
+      FROM woolwitch.payments p
+      WHERE p.order_id = NEW.id
+        AND p.payment_method = 'gift_card'
+        AND p.status = 'completed'
+      FOR UPDATE
+    LOOP
+      -- Recorded as a refund so begin_refund cannot refund it again
+      INSERT INTO woolwitch.refunds (payment_id, order_id, amount, currency, reason, status, requested_by)
+      VALUES (v_payment.id, NEW.id, v_payment.amount, v_payment.currency, 'Order cancelled before payment', 'succeeded', auth.uid());
+
+      PERFORM woolwitch.credit_gift_card_payment(v_payment.id, v_payment.amount, 'Order ' || NEW.order_number || ' cancelled');
+
+      UPDATE woolwitch.payments p
+      SET status = 'refunded',
+          updated_at = now()
+      WHERE p.id = v_payment.id;
+
+      UPDATE woolwitch.orders o
+      SET refunded_total = o.refunded_total + v_payment.amount
+      WHERE o.id = NEW.id;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, auth, pg_catalog;
+
+DROP TRIGGER IF EXISTS handle_order_gift_cards ON woolwitch.orders;
+CREATE TRIGGER handle_order_gift_cards
+  AFTER UPDATE OF status ON woolwitch.orders
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.handle_order_gift_cards();
+
+-- ========================================
+-- UPDATE create_order - Gift card payments
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_card_code text DEFAULT NULL,
+  p_gift_card_amount numeric DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_discount_code_id uuid;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_payment_method = 'gift_card' AND NULLIF(btrim(p_gift_card_code), '') IS NULL THEN
+    RAISE EXCEPTION 'A gift card is required to pay by gift card';
+  END IF;
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Lock the discount code so concurrent orders cannot go over its usage
+  -- limit; quote_order checks the limit once the lock is held
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    SELECT d.id INTO v_discount_code_id
+    FROM woolwitch.discount_codes d
+    WHERE d.code = upper(btrim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region and the discount, in the chosen
+  -- currency
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address, p_currency, p_discount_code);
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'discount_total', v_quote.discount_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    address,
+    subtotal,
+    delivery_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    currency,
+    exchange_rate,
+    discount_code_id,
+    discount_code,
+    discount_total,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    v_quote.currency,
+    v_quote.exchange_rate,
+    v_discount_code_id,
+    v_quote.discount_code,
+    v_quote.discount_total,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      discount_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      (v_line->>'discount_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  -- Take the gift card's part of the payment (raises WWG01 when the card
+  -- cannot pay it). An order the card covers in full is paid now; otherwise
+  -- the rest is paid with Stripe or PayPal.
+  IF NULLIF(btrim(p_gift_card_code), '') IS NOT NULL THEN
+    PERFORM woolwitch.redeem_gift_card(p_gift_card_code, v_order_id, p_gift_card_amount);
+
+    IF round(p_gift_card_amount, 2) >= v_quote.total THEN
+      PERFORM set_config('woolwitch.status_note', 'Paid by gift card', true);
+
+      UPDATE woolwitch.orders o
+      SET status = 'paid',
+          updated_at = now()
+      WHERE o.id = v_order_id;
+
+      PERFORM set_config('woolwitch.status_note', '', true);
+    ELSIF p_payment_method = 'gift_card' THEN
+      RAISE EXCEPTION 'Gift card does not cover the order total of %', v_quote.total
+        USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+    END IF;
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE PAYMENTS - Amount left after gift cards
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_payment(uuid, text, text, numeric, text, jsonb, jsonb, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.create_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_status text DEFAULT 'pending',
+  p_paypal_details jsonb DEFAULT NULL,
+  p_stripe_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL
+)
+RETURNS uuid AS $$
+DECLARE
+  v_payment_id uuid;
+  v_existing_order_id uuid;
+  v_order_total numeric;
+  v_order_currency text;
+  v_order_user_id uuid;
+BEGIN
+  -- Get order details and validate access. Providers are paid what the
+  -- gift card does not cover.
+  SELECT total - gift_card_total, currency, user_id INTO v_order_total, v_order_currency, v_order_user_id
+  FROM woolwitch.orders
+  WHERE id = p_order_id;
+
+  -- Ensure order exists
+  IF v_order_total IS NULL THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Verify user has access to this order
+  IF NOT (v_order_user_id = auth.uid() OR v_order_user_id IS NULL OR woolwitch.is_admin()) THEN
+    RAISE EXCEPTION 'Access denied to order';
+  END IF;
+
+  -- A retried checkout returns the payment recorded by the first attempt
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT p.id, p.order_id INTO v_payment_id, v_existing_order_id
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key;
+
+    IF v_payment_id IS NOT NULL THEN
+      IF v_existing_order_id <> p_order_id THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another payment';
+      END IF;
+
+      RETURN v_payment_id;
+    END IF;
+  END IF;
+
+  -- Validate payment amount matches the amount due
+  IF ABS(p_amount - v_order_total) > 0.01 THEN
+    RAISE EXCEPTION 'Payment amount % does not match order total %', p_amount, v_order_total;
+  END IF;
+
+  -- Only allow 'pending' status from client
+  -- Payment status should be updated by webhook/backend verification
+  IF p_status != 'pending' AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admin can set payment status to %', p_status;
+  END IF;
+
+  INSERT INTO woolwitch.payments (
+    order_id,
+    payment_method,
+    payment_id,
+    status,
+    amount,
+    currency,
+    paypal_details,
+    stripe_details,
+    idempotency_key
+  ) VALUES (
+    p_order_id,
+    p_payment_method,
+    p_payment_id,
+    p_status,
+    v_order_total,  -- Use validated amount due
+    v_order_currency,
+    p_paypal_details,
+    p_stripe_details,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_payment_id;
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Records a payment the confirm-payment edge function has checked with the
+-- provider. Completes the checkout's pending payment (matched by provider
+-- payment id, then idempotency key) or records a new one, and moves a
+-- pending order to paid. The payment must cover what is left after any gift
+-- card. Safe to call again for the same payment.
+DROP FUNCTION IF EXISTS woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.record_verified_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_currency text,
+  p_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_id uuid,
+  order_status text
+) AS $$
+DECLARE
+  v_order woolwitch.orders%ROWTYPE;
+  v_payment woolwitch.payments%ROWTYPE;
+  v_other_order_number text;
+  v_amount_due numeric;
+BEGIN
+  IF p_payment_method NOT IN ('card', 'paypal') THEN
+    RAISE EXCEPTION 'Invalid payment method: %', p_payment_method;
+  END IF;
+
+  IF NULLIF(btrim(p_payment_id), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment id is required';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  v_amount_due := v_order.total - v_order.gift_card_total;
+
+  IF upper(p_currency) <> v_order.currency OR ABS(p_amount - v_amount_due) > 0.01 THEN
+    RAISE EXCEPTION 'Payment of % % does not match amount due %', p_amount, upper(p_currency), v_amount_due;
+  END IF;
+
+  -- A provider payment can only pay for one order
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.payment_method = p_payment_method
+    AND p.payment_id = p_payment_id
+  ORDER BY p.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND AND v_payment.order_id <> p_order_id THEN
+    SELECT o.order_number INTO v_other_order_number
+    FROM woolwitch.orders o
+    WHERE o.id = v_payment.order_id;
+
+    RAISE EXCEPTION 'Payment is already linked to order %', v_other_order_number;
+  END IF;
+
+  IF NOT FOUND AND p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_payment
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key
+      AND p.order_id = p_order_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    INSERT INTO woolwitch.payments (
+      order_id,
+      payment_method,
+      payment_id,
+      status,
+      amount,
+      currency,
+      paypal_details,
+      stripe_details,
+      idempotency_key
+    ) VALUES (
+      p_order_id,
+      p_payment_method,
+      p_payment_id,
+      'completed',
+      v_amount_due,
+      v_order.currency,
+      CASE WHEN p_payment_method = 'paypal' THEN p_details END,
+      CASE WHEN p_payment_method = 'card' THEN p_details END,
+      p_idempotency_key
+    )
+    RETURNING * INTO v_payment;
+  ELSIF v_payment.status IN ('pending', 'failed') THEN
+    UPDATE woolwitch.payments p
+    SET
+      payment_id = p_payment_id,
+      status = 'completed',
+      paypal_details = CASE
+        WHEN p_payment_method = 'paypal' AND p_details IS NOT NULL
+        THEN COALESCE(p.paypal_details, '{}'::jsonb) || p_details
+        ELSE p.paypal_details
+      END,
+      stripe_details = CASE
+        WHEN p_payment_method = 'card' AND p_details IS NOT NULL
+        THEN COALESCE(p.stripe_details, '{}'::jsonb) || p_details
+        ELSE p.stripe_details
+      END,
+      updated_at = now()
+    WHERE p.id = v_payment.id
+    RETURNING * INTO v_payment;
+  END IF;
+
+  -- Move the order to paid (later states, and cancelled orders that now need
+  -- a refund, are left alone)
+  IF v_order.status = 'pending' THEN
+    PERFORM set_config('woolwitch.status_note', COALESCE(btrim(p_note), ''), true);
+
+    UPDATE woolwitch.orders o
+    SET status = 'paid',
+        updated_at = now()
+    WHERE o.id = p_order_id
+    RETURNING o.status INTO v_order.status;
+
+    PERFORM set_config('woolwitch.status_note', '', true);
+  END IF;
+
+  RETURN QUERY SELECT v_payment.id, v_order.status;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE REFUNDS - Gift card payments
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.begin_refund(uuid, numeric, text, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.begin_refund(
+  p_order_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_requested_by uuid
+)
+RETURNS TABLE (
+  refund_id uuid,
+  amount numeric,
+  currency text,
+  payment_method text,
+  provider_payment_id text,
+  capture_id text
+) AS $$
+DECLARE
+  v_payment woolwitch.payments%ROWTYPE;
+  v_payment_id uuid;
+  v_refundable numeric;
+  v_amount numeric;
+  v_refund_id uuid;
+BEGIN
+  -- Lock the order's captured payments. An order part paid by gift card
+  -- has two; the newest one with money left to refund is refunded first, so
+  -- the card payment is refunded once the provider payment has been.
+  PERFORM 1
+  FROM woolwitch.payments p
+  WHERE p.order_id = p_order_id
+    AND p.status IN ('completed', 'refunded')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No completed payment found for this order';
+  END IF;
+
+  SELECT p.id, p.amount - COALESCE(r.refunded, 0)
+  INTO v_payment_id, v_refundable
+  FROM woolwitch.payments p
+  LEFT JOIN LATERAL (
+    SELECT SUM(r.amount) AS refunded
+    FROM woolwitch.refunds r
+    WHERE r.payment_id = p.id
+      AND r.status IN ('pending', 'succeeded')
+  ) r ON true
+  WHERE p.order_id = p_order_id
+    AND p.status IN ('completed', 'refunded')
+  ORDER BY p.amount - COALESCE(r.refunded, 0) > 0 DESC, p.created_at DESC
+  LIMIT 1;
+
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.id = v_payment_id;
+
+  -- No amount means refund whatever is left
+  v_amount := round(COALESCE(p_amount, v_refundable), 2);
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  IF v_amount > v_refundable THEN
+    RAISE EXCEPTION 'Refund amount % exceeds refundable balance %', v_amount, v_refundable;
+  END IF;
+
+  INSERT INTO woolwitch.refunds (
+    payment_id,
+    order_id,
+    amount,
+    currency,
+    reason,
+    requested_by
+  ) VALUES (
+    v_payment.id,
+    p_order_id,
+    v_amount,
+    v_payment.currency,
+    NULLIF(btrim(p_reason), ''),
+    p_requested_by
+  )
+  RETURNING id INTO v_refund_id;
+
+  RETURN QUERY SELECT
+    v_refund_id,
+    v_amount,
+    v_payment.currency,
+    v_payment.payment_method,
+    COALESCE(v_payment.stripe_details->>'payment_intent_id', v_payment.payment_id),
+    v_payment.paypal_details->>'capture_id';
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.complete_refund(uuid, boolean, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.complete_refund(
+  p_refund_id uuid,
+  p_succeeded boolean,
+  p_provider_refund_id text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_refund woolwitch.refunds%ROWTYPE;
+  v_refunded numeric;
+BEGIN
+  SELECT * INTO v_refund
+  FROM woolwitch.refunds
+  WHERE id = p_refund_id
+  FOR UPDATE;
+
+  IF v_refund.id IS NULL THEN
+    RAISE EXCEPTION 'Refund not found';
+  END IF;
+
+  IF v_refund.status <> 'pending' THEN
+    RAISE EXCEPTION 'Refund has already been completed';
+  END IF;
+
+  UPDATE woolwitch.refunds
+  SET status = CASE WHEN p_succeeded THEN 'succeeded' ELSE 'failed' END,
+      provider_refund_id = p_provider_refund_id,
+      failure_reason = CASE WHEN p_succeeded THEN NULL ELSE left(p_failure_reason, 500) END,
+      updated_at = now()
+  WHERE id = p_refund_id;
+
+  IF NOT p_succeeded THEN
+    RETURN;
+  END IF;
+
+  -- Gift card payments are refunded to the card
+  IF EXISTS (
+    SELECT 1 FROM woolwitch.payments p
+    WHERE p.id = v_refund.payment_id
+      AND p.payment_method = 'gift_card'
+  ) THEN
+    PERFORM woolwitch.credit_gift_card_payment(v_refund.payment_id, v_refund.amount, v_refund.reason);
+  END IF;
+
+  UPDATE woolwitch.orders
+  SET refunded_total = refunded_total + v_refund.amount,
+      updated_at = now()
+  WHERE id = v_refund.order_id;
+
+  -- Mark the payment refunded once nothing is left to refund
+  SELECT COALESCE(SUM(amount), 0) INTO v_refunded
+  FROM woolwitch.refunds
+  WHERE payment_id = v_refund.payment_id
+    AND status = 'succeeded';
+
+  UPDATE woolwitch.payments
+  SET status = 'refunded',
+      updated_at = now()
+  WHERE id = v_refund.payment_id
+    AND v_refunded >= amount;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- API: GIFT CARDS
+-- ========================================
+
+-- A card the customer entered, if it can be spent (raises WWG01 when it
+-- cannot): { "code": "WXYZ-2345-ABCD-6789", "balance": 25.00, "currency": "GBP" }
+DROP FUNCTION IF EXISTS woolwitch_api.get_gift_card(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_gift_card(p_code text)
+RETURNS jsonb AS $$
+DECLARE
+  v_card woolwitch.gift_cards%ROWTYPE;
+BEGIN
+  v_card := woolwitch.gift_card_for(p_code);
+
+  RETURN jsonb_build_object(
+    'code', v_card.code,
+    'balance', woolwitch.gift_card_balance(v_card.id),
+    'currency', v_card.currency
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- Cards bought on an order, for the customer who placed it or an admin
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_gift_cards(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_gift_cards(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  code text,
+  initial_value numeric,
+  balance numeric,
+  currency text,
+  voided_at timestamptz,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    g.id,
+    g.code,
+    g.initial_value,
+    woolwitch.gift_card_balance(g.id),
+    g.currency,
+    g.voided_at,
+    g.created_at
+  FROM woolwitch.gift_cards g
+  WHERE g.order_id = p_order_id
+  ORDER BY g.created_at, g.id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the code (with or without dashes), recipient email or the
+-- number of the order the card was bought on
+DROP FUNCTION IF EXISTS woolwitch_api.get_gift_cards(text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_gift_cards(
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  code text,
+  initial_value numeric,
+  balance numeric,
+  currency text,
+  order_id uuid,
+  order_number text,
+  recipient_email text,
+  note text,
+  voided_at timestamptz,
+  void_reason text,
+  created_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    g.id,
+    g.code,
+    g.initial_value,
+    woolwitch.gift_card_balance(g.id),
+    g.currency,
+    g.order_id,
+    o.order_number,
+    g.recipient_email,
+    g.note,
+    g.voided_at,
+    g.void_reason,
+    g.created_at
+  FROM woolwitch.gift_cards g
+  LEFT JOIN woolwitch.orders o ON o.id = g.order_id
+  WHERE
+    v_pattern IS NULL
+    OR (v_compact_pattern <> '%%' AND replace(g.code, '-', '') ILIKE v_compact_pattern)
+    OR g.recipient_email ILIKE v_pattern
+    OR o.order_number ILIKE v_pattern
+  ORDER BY g.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_gift_card_transactions(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_gift_card_transactions(p_gift_card_id uuid)
+RETURNS TABLE (
+  id uuid,
+  kind text,
+  amount numeric,
+  order_id uuid,
+  order_number text,
+  note text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.kind,
+    t.amount,
+    t.order_id,
+    o.order_number,
+    t.note,
+    t.created_at
+  FROM woolwitch.gift_card_transactions t
+  LEFT JOIN woolwitch.orders o ON o.id = t.order_id
+  WHERE t.gift_card_id = p_gift_card_id
+  ORDER BY t.created_at, t.id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Issues a card by hand, e.g. as a prize or to make up for a problem order.
+-- The currency must be the base currency or have an exchange rate.
+-- Returns the new card's code.
+DROP FUNCTION IF EXISTS woolwitch_api.issue_gift_card(numeric, text, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.issue_gift_card(
+  p_amount numeric,
+  p_currency text,
+  p_recipient_email text DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS text AS $$
+DECLARE
+  v_card woolwitch.gift_cards%ROWTYPE;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  -- Raises for a currency customers cannot pay in
+  PERFORM woolwitch.exchange_rate_for(p_currency);
+
+  v_card := woolwitch.issue_gift_card(
+    p_amount,
+    upper(p_currency),
+    NULL,
+    NULL,
+    p_recipient_email,
+    p_note,
+    auth.uid()
+  );
+
+  RETURN v_card.code;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Cancels a card: whatever is left on it is written off and it can no longer
+-- be spent. Orders it has already paid for are not affected.
+DROP FUNCTION IF EXISTS woolwitch_api.void_gift_card(uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.void_gift_card(p_gift_card_id uuid, p_reason text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_card woolwitch.gift_cards%ROWTYPE;
+  v_balance numeric;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_card
+  FROM woolwitch.gift_cards g
+  WHERE g.id = p_gift_card_id
+  FOR UPDATE;
+
+  IF v_card.id IS NULL THEN
+    RAISE EXCEPTION 'Gift card not found';
+  END IF;
+
+  IF v_card.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Gift card % has already been voided', v_card.code;
+  END IF;
+
+  v_balance := woolwitch.gift_card_balance(v_card.id);
+
+  IF v_balance > 0 THEN
+    INSERT INTO woolwitch.gift_card_transactions (gift_card_id, kind, amount, note, created_by)
+    VALUES (v_card.id, 'void', -v_balance, NULLIF(btrim(p_reason), ''), auth.uid());
+  END IF;
+
+  UPDATE woolwitch.gift_cards g
+  SET voided_at = now(),
+      voided_by = auth.uid(),
+      void_reason = NULLIF(btrim(p_reason), ''),
+      updated_at = now()
+  WHERE g.id = v_card.id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE PRODUCT API - Gift card products
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  tax_class,
+  is_gift_card,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties
+FROM woolwitch.products
+WHERE is_available = true OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products(text, text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products(
+  p_category text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE
+    (p_category IS NULL OR p.category = p_category)
+    AND (p_search IS NULL OR
+         p.name ILIKE '%' || p_search || '%' OR
+         p.description ILIKE '%' || p_search || '%' OR
+         p.category ILIKE '%' || p_search || '%')
+  ORDER BY p.sort_order ASC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_product_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_product_by_id(p_product_id uuid)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = p_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products_by_ids(uuid[]) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products_by_ids(p_product_ids uuid[])
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = ANY(p_product_ids);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_product(text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb, uuid, integer, text) CASCADE;
+CREATE FUNCTION woolwitch_api.create_product(
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL,
+  p_tax_class text DEFAULT 'standard',
+  p_is_gift_card boolean DEFAULT false
+)
+RETURNS uuid
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id uuid;
+  v_sort_order integer;
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create products';
+  END IF;
+
+  -- Calculate sort_order if not provided
+  IF p_sort_order IS NULL THEN
+    SELECT COALESCE(MAX(sort_order), 0) + 1 INTO v_sort_order
+    FROM woolwitch.products;
+  ELSE
+    v_sort_order := p_sort_order;
+  END IF;
+
+  INSERT INTO woolwitch.products (
+    name,
+    description,
+    price,
+    image_url,
+    category,
+    stock_quantity,
+    delivery_charge,
+    is_available,
+    sort_order,
+    price_max,
+    custom_properties,
+    shipping_profile_id,
+    weight_grams,
+    tax_class,
+    is_gift_card
+  ) VALUES (
+    p_name,
+    p_description,
+    p_price,
+    p_image_url,
+    p_category,
+    p_stock_quantity,
+    p_delivery_charge,
+    p_is_available,
+    v_sort_order,
+    p_price_max,
+    p_custom_properties,
+    p_shipping_profile_id,
+    p_weight_grams,
+    COALESCE(p_tax_class, 'standard'),
+    COALESCE(p_is_gift_card, false)
+  ) RETURNING id INTO v_product_id;
+
+  RETURN v_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_product(uuid, text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb, uuid, integer, text) CASCADE;
+CREATE FUNCTION woolwitch_api.update_product(
+  p_product_id uuid,
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL,
+  p_tax_class text DEFAULT 'standard',
+  p_is_gift_card boolean DEFAULT false
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can update products';
+  END IF;
+
+  UPDATE woolwitch.products
+  SET
+    name = p_name,
+    description = p_description,
+    price = p_price,
+    image_url = p_image_url,
+    category = p_category,
+    stock_quantity = p_stock_quantity,
+    delivery_charge = p_delivery_charge,
+    is_available = p_is_available,
+    sort_order = COALESCE(p_sort_order, sort_order),
+    price_max = p_price_max,
+    custom_properties = p_custom_properties,
+    shipping_profile_id = p_shipping_profile_id,
+    weight_grams = p_weight_grams,
+    tax_class = COALESCE(p_tax_class, 'standard'),
+    is_gift_card = COALESCE(p_is_gift_card, false)
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+END;
+$$;
+
+-- ========================================
+-- UPDATE ORDER READS - Include gift card payments
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.order_number,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.tax_total,
+  o.total,
+  o.prices_include_tax,
+  o.currency,
+  o.exchange_rate,
+  o.discount_code,
+  o.discount_total,
+  o.gift_card_total,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the order number (with or without dashes), email or name
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int, text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (
+      v_pattern IS NULL
+      OR o.order_number ILIKE v_pattern
+      OR (v_compact_pattern <> '%%' AND replace(o.order_number, '-', '') ILIKE v_compact_pattern)
+      OR o.email ILIKE v_pattern
+      OR o.full_name ILIKE v_pattern
+    )
+  ORDER BY o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL AND INVOICE DATA - Gift cards
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'discount_code', o.discount_code,
+      'discount_total', o.discount_total,
+      'gift_card_total', o.gift_card_total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb),
+    'gift_cards', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'code', g.code,
+        'initial_value', g.initial_value,
+        'currency', g.currency
+      ) ORDER BY g.created_at, g.id)
+      FROM woolwitch.gift_cards g
+      WHERE g.order_id = o.id
+      AND g.voided_at IS NULL
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_invoice(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_invoice(p_order_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'invoice', (
+      SELECT jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'issued_at', inv.issued_at
+      )
+      FROM woolwitch.invoices inv
+      WHERE inv.order_id = o.id
+    ),
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'discount_code', o.discount_code,
+      'discount_total', o.discount_total,
+      'gift_card_total', o.gift_card_total,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'delivery_charge', i.delivery_charge,
+        'tax_rate', i.tax_rate,
+        'tax_amount', i.tax_amount,
+        'discount_amount', i.discount_amount,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', p.payment_method,
+        'amount', p.amount,
+        'currency', p.currency,
+        'status', p.status,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM woolwitch.payments p
+      WHERE p.order_id = o.id
+      AND p.status IN ('completed', 'refunded')
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT ALL PRIVILEGES ON woolwitch.gift_cards TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.gift_card_transactions TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.normalize_gift_card_code(text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.generate_gift_card_code() FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.gift_card_balance(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.gift_card_for(text, boolean) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.issue_gift_card(numeric, text, uuid, uuid, text, text, uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.redeem_gift_card(text, uuid, numeric) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.credit_gift_card_payment(uuid, numeric, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.issue_order_gift_cards(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.handle_order_gift_cards() FROM PUBLIC;
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_product_by_id TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products_by_ids TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_product TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_product TO authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_payment(uuid, text, text, numeric, text, jsonb, jsonb, uuid) TO authenticated, anon;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION woolwitch_api.complete_refund(uuid, boolean, text, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.complete_refund(uuid, boolean, text, text) TO service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_gift_card(text) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_gift_cards(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_gift_cards(text, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_gift_card_transactions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.issue_gift_card(numeric, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.void_gift_card(uuid, text) TO authenticated;
+
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_invoice(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.normalize_gift_card_code(text) IS 'Gift card code as stored (XXXX-XXXX-XXXX-XXXX) from whatever a customer typed';
+COMMENT ON FUNCTION woolwitch.generate_gift_card_code() IS 'New random, unused gift card code';
+COMMENT ON FUNCTION woolwitch.gift_card_balance(uuid) IS 'What is left on a gift card - the sum of its transactions';
+COMMENT ON FUNCTION woolwitch.gift_card_for(text, boolean) IS 'Gift card a customer entered if it exists, is not voided and has a balance; raises WWG01 otherwise';
+COMMENT ON FUNCTION woolwitch.issue_gift_card(numeric, text, uuid, uuid, text, text, uuid) IS 'Creates a gift card with its opening balance';
+COMMENT ON FUNCTION woolwitch.redeem_gift_card(text, uuid, numeric) IS 'Takes an amount off a gift card for an order and records it as a completed gift_card payment';
+COMMENT ON FUNCTION woolwitch.credit_gift_card_payment(uuid, numeric, text) IS 'Puts a refunded amount of a gift card payment back on the card';
+COMMENT ON FUNCTION woolwitch.issue_order_gift_cards(uuid) IS 'Issues a gift card for each gift card product bought on an order (once per order)';
+COMMENT ON FUNCTION woolwitch.handle_order_gift_cards() IS 'Issues bought gift cards when an order is paid and returns gift card payments when an unpaid order is cancelled';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, priced by quote_order with any discount code (rejects mismatched client totals with WWP01, unusable codes with WWD01 and unusable gift cards with WWG01), takes any gift card payment, reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.create_payment IS 'Creates payment record in the order currency for what is left after any gift card payment - validates amount, restricts status to pending for non-admin; returns the existing payment for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) IS 'Records a provider-verified payment of what is left after any gift card payment as completed and marks a pending order paid (service role only)';
+COMMENT ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) IS 'Validates and records a pending refund against the order''s most recent payment with something left to refund (service role only)';
+COMMENT ON FUNCTION woolwitch_api.complete_refund(uuid, boolean, text, text) IS 'Marks a refund succeeded or failed and updates order and payment totals; succeeded refunds of gift card payments go back on the card (service role only)';
+COMMENT ON FUNCTION woolwitch_api.get_gift_card(text) IS 'Balance and currency of a gift card for paying at checkout; raises WWG01 when the card cannot be used';
+COMMENT ON FUNCTION woolwitch_api.get_order_gift_cards(uuid) IS 'Gift cards bought on an order with their balances (owner or admin)';
+COMMENT ON FUNCTION woolwitch_api.get_gift_cards(text, int, int) IS 'Gift cards with their balances, searchable by code, recipient email or order number (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_gift_card_transactions(uuid) IS 'Balance ledger of a gift card (admin only)';
+COMMENT ON FUNCTION woolwitch_api.issue_gift_card(numeric, text, text, text) IS 'Issues a gift card by hand and returns its code (admin only)';
+COMMENT ON FUNCTION woolwitch_api.void_gift_card(uuid, text) IS 'Voids a gift card, writing off its balance (admin only)';
+COMMENT ON VIEW woolwitch_api.products_view IS 'Public view of available products with custom properties, shipping profile, tax class and whether they are sold as gift cards';
+COMMENT ON FUNCTION woolwitch_api.get_products IS 'Fetch products with optional category and search filters';
+COMMENT ON FUNCTION woolwitch_api.get_product_by_id IS 'Fetch single product by ID';
+COMMENT ON FUNCTION woolwitch_api.get_products_by_ids IS 'Fetch multiple products by IDs (for cart/summary)';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters and search by order number, email or name (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_order_invoice(uuid) IS 'Invoice number, order (with currency, discount and gift card payments), items and captured payments for rendering an invoice or packing slip (owner or admin)';
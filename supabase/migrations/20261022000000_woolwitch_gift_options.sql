@@ -0,0 +1,1139 @@
+-- Gift options
+-- Many orders are gifts. Checkout can now record, for each order:
+--   * orders.recipient_name  - who the parcel is addressed to when it is not
+--                              the customer; the order address is theirs and
+--                              full_name / email stay the billing contact
+--   * orders.gift_wrap       - whether the order is gift wrapped, and
+--     orders.gift_wrap_total   what was charged for it
+--   * orders.gift_message    - a message to put in the parcel
+--   * orders.hide_prices     - leave prices out of the parcel: the invoice is
+--                              not packed with it and the packing slip (which
+--                              never shows prices) says so
+--
+-- Gift wrapping is charged once per order at the charge in
+-- woolwitch.gift_options (in the base currency, entered like product
+-- prices with or without tax) and taxed at its own tax class. quote_order
+-- adds it after any discount, which does not apply to it:
+-- total = subtotal + delivery_total + gift_wrap_total - discount_total, plus
+-- tax when prices exclude it.
+--
+-- The same charge is worked out by src/lib/orderService.ts for the
+-- storefront, using get_gift_options; keep the two in step.
+
+-- ========================================
+-- GIFT OPTION TABLES
+-- ========================================
+
+-- Single row of gift options
+CREATE TABLE woolwitch.gift_options (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  gift_wrap_enabled boolean NOT NULL DEFAULT false,
+  gift_wrap_charge numeric(10, 2) NOT NULL DEFAULT 0 CHECK (gift_wrap_charge >= 0),
+  gift_wrap_tax_class text NOT NULL DEFAULT 'standard' CHECK (gift_wrap_tax_class IN ('standard', 'reduced', 'zero')),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN recipient_name text CHECK (recipient_name IS NULL OR char_length(recipient_name) <= 200),
+  ADD COLUMN gift_wrap boolean NOT NULL DEFAULT false,
+  ADD COLUMN gift_wrap_total numeric(10, 2) NOT NULL DEFAULT 0 CHECK (gift_wrap_total >= 0),
+  ADD COLUMN gift_message text CHECK (gift_message IS NULL OR char_length(gift_message) <= 500),
+  ADD COLUMN hide_prices boolean NOT NULL DEFAULT false;
+
+-- Gift wrapping is added to the total
+ALTER TABLE woolwitch.orders
+DROP CONSTRAINT IF EXISTS orders_total_calculation_check;
+
+ALTER TABLE woolwitch.orders
+ADD CONSTRAINT orders_total_calculation_check
+CHECK (abs(total - (subtotal + delivery_total + gift_wrap_total - discount_total + CASE WHEN prices_include_tax THEN 0 ELSE tax_total END)) < 0.01);
+
+ALTER TABLE woolwitch.gift_options ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Gift options are public" ON woolwitch.gift_options
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admin gift options management" ON woolwitch.gift_options
+  FOR ALL TO authenticated
+  USING (woolwitch.is_admin())
+  WITH CHECK (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.gift_options IS 'Shop-wide gift options (single row)';
+COMMENT ON COLUMN woolwitch.gift_options.gift_wrap_enabled IS 'Whether customers can have their order gift wrapped';
+COMMENT ON COLUMN woolwitch.gift_options.gift_wrap_charge IS 'Charge for gift wrapping an order, in the base currency; includes tax when product prices do';
+COMMENT ON COLUMN woolwitch.gift_options.gift_wrap_tax_class IS 'Tax class gift wrapping is taxed at';
+COMMENT ON COLUMN woolwitch.orders.recipient_name IS 'Who the parcel is addressed to when it is not the customer; NULL to address it to full_name';
+COMMENT ON COLUMN woolwitch.orders.gift_wrap IS 'Whether the order is to be gift wrapped';
+COMMENT ON COLUMN woolwitch.orders.gift_wrap_total IS 'Charge for gift wrapping, in the order currency';
+COMMENT ON COLUMN woolwitch.orders.gift_message IS 'Message to put in the parcel';
+COMMENT ON COLUMN woolwitch.orders.hide_prices IS 'Leave prices out of the parcel (do not pack the invoice)';
+COMMENT ON CONSTRAINT orders_total_calculation_check ON woolwitch.orders IS
+  'Validates that total equals subtotal plus delivery and gift wrapping less discount, plus tax when prices exclude it';
+
+INSERT INTO woolwitch.gift_options (id, gift_wrap_enabled, gift_wrap_charge, gift_wrap_tax_class) VALUES (true, false, 0, 'standard');
+
+-- ========================================
+-- UPDATE quote_order - Gift wrapping
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb, jsonb, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_wrap boolean DEFAULT false
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  discount_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  items jsonb
+) AS $$
+DECLARE
+  v_settings woolwitch.tax_settings%ROWTYPE;
+  v_gift_options woolwitch.gift_options%ROWTYPE;
+  v_country text := upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+  v_currency text;
+  v_rate numeric;
+  v_discount woolwitch.discount_codes%ROWTYPE;
+  v_item jsonb;
+  v_line jsonb;
+  v_index integer := 0;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_line_amount numeric;
+  v_eligible boolean;
+  v_line_discount numeric;
+  v_delivery numeric;
+  v_tax_rate numeric;
+  v_tax numeric;
+  v_base_subtotal numeric := 0;
+  v_eligible_subtotal numeric := 0;
+  v_last_eligible integer;
+  v_fixed_amount numeric := 0;
+  v_fixed_remaining numeric := 0;
+  v_base_delivery_total numeric;
+  v_delivery_discount numeric := 0;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_gift_wrap_total numeric := 0;
+  v_discount_total numeric := 0;
+  v_tax_total numeric := 0;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  SELECT * INTO v_settings FROM woolwitch.tax_settings;
+  v_settings.prices_include_tax := COALESCE(v_settings.prices_include_tax, true);
+  v_settings.delivery_tax_class := COALESCE(v_settings.delivery_tax_class, 'standard');
+
+  -- Without a currency the order is priced in the base currency
+  SELECT upper(COALESCE(NULLIF(btrim(p_currency), ''), s.base_currency)) INTO v_currency
+  FROM woolwitch.currency_settings s;
+  v_currency := COALESCE(v_currency, 'GBP');
+  v_rate := woolwitch.exchange_rate_for(v_currency);
+
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    v_discount := woolwitch.discount_code_for(p_discount_code);
+  END IF;
+
+  IF p_gift_wrap THEN
+    SELECT * INTO v_gift_options FROM woolwitch.gift_options;
+
+    IF NOT COALESCE(v_gift_options.gift_wrap_enabled, false) THEN
+      RAISE EXCEPTION 'Gift wrapping is not available';
+    END IF;
+  END IF;
+
+  -- Price each line in the base currency
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+    v_eligible := v_discount.id IS NOT NULL
+      AND woolwitch.discount_applies_to(v_discount, v_product.id, v_product.category);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_base_subtotal := v_base_subtotal + v_unit_price * v_quantity;
+    IF v_eligible THEN
+      v_eligible_subtotal := v_eligible_subtotal + v_unit_price * v_quantity;
+      v_last_eligible := v_index;
+    END IF;
+    v_index := v_index + 1;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'tax_class', v_product.tax_class,
+      'eligible', v_eligible,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  IF v_discount.id IS NOT NULL THEN
+    IF v_discount.min_spend IS NOT NULL AND v_base_subtotal < v_discount.min_spend THEN
+      RAISE EXCEPTION 'Spend at least % to use discount code %', v_discount.min_spend, v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_last_eligible IS NULL THEN
+      RAISE EXCEPTION 'Discount code % does not apply to anything in your order', v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_discount.discount_type = 'fixed' THEN
+      v_fixed_amount := LEAST(v_discount.value, v_eligible_subtotal);
+      v_fixed_remaining := v_fixed_amount;
+    END IF;
+  END IF;
+
+  -- Discount and tax each line, then convert it to the order currency
+  v_index := 0;
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines)
+  LOOP
+    v_unit_price := (v_line->>'unit_price')::numeric;
+    v_quantity := (v_line->>'quantity')::integer;
+    v_line_amount := v_unit_price * v_quantity;
+    v_line_discount := 0;
+
+    IF (v_line->>'eligible')::boolean THEN
+      IF v_discount.discount_type = 'percentage' THEN
+        v_line_discount := round(v_line_amount * v_discount.value / 100, 2);
+      ELSIF v_discount.discount_type = 'fixed' THEN
+        -- Shared in proportion to price; the last eligible line takes the
+        -- rounding remainder so the lines add up to the fixed amount
+        v_line_discount := CASE
+          WHEN v_index = v_last_eligible THEN v_fixed_remaining
+          ELSE round(v_fixed_amount * v_line_amount / v_eligible_subtotal, 2)
+        END;
+        v_fixed_remaining := v_fixed_remaining - v_line_discount;
+      END IF;
+    END IF;
+    v_index := v_index + 1;
+
+    v_tax_rate := woolwitch.tax_rate_for(v_country, v_line->>'tax_class');
+    v_tax := woolwitch.tax_amount(v_line_amount - v_line_discount, v_tax_rate, v_settings.prices_include_tax);
+
+    v_unit_price := woolwitch.convert_amount(v_unit_price, v_rate);
+    v_line_discount := woolwitch.convert_amount(v_line_discount, v_rate);
+    v_tax := woolwitch.convert_amount(v_tax, v_rate);
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_discount_total := v_discount_total + v_line_discount;
+    v_tax_total := v_tax_total + v_tax;
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_line->'product_id',
+      'product_name', v_line->'product_name',
+      'unit_price', v_unit_price,
+      'delivery_charge', woolwitch.convert_amount((v_line->>'delivery_charge')::numeric, v_rate),
+      'quantity', v_quantity,
+      'tax_rate', v_tax_rate,
+      'tax_amount', v_tax,
+      'discount_amount', v_line_discount,
+      'custom_selections', v_line->'custom_selections'
+    ));
+  END LOOP;
+
+  -- Free delivery thresholds are in the base currency, before discount
+  v_base_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_base_subtotal, p_address);
+  v_delivery_total := woolwitch.convert_amount(v_base_delivery_total, v_rate);
+
+  IF v_discount.discount_type = 'free_delivery' THEN
+    v_delivery_discount := v_base_delivery_total;
+    v_discount_total := v_discount_total + v_delivery_total;
+  END IF;
+
+  -- Delivery is taxed once, at the delivery tax class
+  v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+    v_base_delivery_total - v_delivery_discount,
+    woolwitch.tax_rate_for(v_country, v_settings.delivery_tax_class),
+    v_settings.prices_include_tax
+  ), v_rate);
+
+  -- Gift wrapping is charged once, is not discounted and is taxed at its
+  -- own tax class
+  IF p_gift_wrap THEN
+    v_gift_wrap_total := woolwitch.convert_amount(v_gift_options.gift_wrap_charge, v_rate);
+    v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+      v_gift_options.gift_wrap_charge,
+      woolwitch.tax_rate_for(v_country, v_gift_options.gift_wrap_tax_class),
+      v_settings.prices_include_tax
+    ), v_rate);
+  END IF;
+
+  RETURN QUERY SELECT
+    v_subtotal,
+    v_delivery_total,
+    v_gift_wrap_total,
+    v_discount_total,
+    v_tax_total,
+    v_subtotal + v_delivery_total + v_gift_wrap_total - v_discount_total
+      + CASE WHEN v_settings.prices_include_tax THEN 0 ELSE v_tax_total END,
+    v_settings.prices_include_tax,
+    v_currency,
+    v_rate,
+    v_discount.code,
+    v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Gift options
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_card_code text DEFAULT NULL,
+  p_gift_card_amount numeric DEFAULT NULL,
+  p_recipient_name text DEFAULT NULL,
+  p_gift_wrap boolean DEFAULT false,
+  p_gift_message text DEFAULT NULL,
+  p_hide_prices boolean DEFAULT false
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_discount_code_id uuid;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_payment_method = 'gift_card' AND NULLIF(btrim(p_gift_card_code), '') IS NULL THEN
+    RAISE EXCEPTION 'A gift card is required to pay by gift card';
+  END IF;
+
+  IF char_length(btrim(p_recipient_name)) > 200 THEN
+    RAISE EXCEPTION 'Recipient name must be 200 characters or fewer';
+  END IF;
+
+  IF char_length(btrim(p_gift_message)) > 500 THEN
+    RAISE EXCEPTION 'Gift message must be 500 characters or fewer';
+  END IF;
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Lock the discount code so concurrent orders cannot go over its usage
+  -- limit; quote_order checks the limit once the lock is held
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    SELECT d.id INTO v_discount_code_id
+    FROM woolwitch.discount_codes d
+    WHERE d.code = upper(btrim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region, the discount and any gift
+  -- wrapping, in the chosen currency
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address, p_currency, p_discount_code, COALESCE(p_gift_wrap, false));
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'gift_wrap_total', v_quote.gift_wrap_total,
+              'discount_total', v_quote.discount_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    recipient_name,
+    address,
+    subtotal,
+    delivery_total,
+    gift_wrap_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    currency,
+    exchange_rate,
+    discount_code_id,
+    discount_code,
+    discount_total,
+    gift_wrap,
+    gift_message,
+    hide_prices,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    NULLIF(btrim(p_recipient_name), ''),
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.gift_wrap_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    v_quote.currency,
+    v_quote.exchange_rate,
+    v_discount_code_id,
+    v_quote.discount_code,
+    v_quote.discount_total,
+    COALESCE(p_gift_wrap, false),
+    NULLIF(btrim(p_gift_message), ''),
+    COALESCE(p_hide_prices, false),
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      discount_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      (v_line->>'discount_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  -- Take the gift card's part of the payment (raises WWG01 when the card
+  -- cannot pay it). An order the card covers in full is paid now; otherwise
+  -- the rest is paid with Stripe or PayPal.
+  IF NULLIF(btrim(p_gift_card_code), '') IS NOT NULL THEN
+    PERFORM woolwitch.redeem_gift_card(p_gift_card_code, v_order_id, p_gift_card_amount);
+
+    IF round(p_gift_card_amount, 2) >= v_quote.total THEN
+      PERFORM set_config('woolwitch.status_note', 'Paid by gift card', true);
+
+      UPDATE woolwitch.orders o
+      SET status = 'paid',
+          updated_at = now()
+      WHERE o.id = v_order_id;
+
+      PERFORM set_config('woolwitch.status_note', '', true);
+    ELSIF p_payment_method = 'gift_card' THEN
+      RAISE EXCEPTION 'Gift card does not cover the order total of %', v_quote.total
+        USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+    END IF;
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- GIFT OPTIONS API
+-- ========================================
+
+-- Everything the storefront needs to offer gift wrapping:
+-- { "gift_wrap_enabled": true, "gift_wrap_charge": 3.50, "gift_wrap_tax_class": "standard" }
+DROP FUNCTION IF EXISTS woolwitch_api.get_gift_options() CASCADE;
+CREATE FUNCTION woolwitch_api.get_gift_options()
+RETURNS jsonb AS $$
+DECLARE
+  v_options woolwitch.gift_options%ROWTYPE;
+BEGIN
+  SELECT * INTO v_options FROM woolwitch.gift_options;
+
+  RETURN jsonb_build_object(
+    'gift_wrap_enabled', COALESCE(v_options.gift_wrap_enabled, false),
+    'gift_wrap_charge', COALESCE(v_options.gift_wrap_charge, 0),
+    'gift_wrap_tax_class', COALESCE(v_options.gift_wrap_tax_class, 'standard')
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_gift_options(boolean, numeric, text) CASCADE;
+CREATE FUNCTION woolwitch_api.update_gift_options(
+  p_gift_wrap_enabled boolean,
+  p_gift_wrap_charge numeric,
+  p_gift_wrap_tax_class text
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_gift_wrap_charge IS NULL OR p_gift_wrap_charge < 0 THEN
+    RAISE EXCEPTION 'Gift wrap charge cannot be negative';
+  END IF;
+
+  INSERT INTO woolwitch.gift_options (id, gift_wrap_enabled, gift_wrap_charge, gift_wrap_tax_class, updated_at)
+  VALUES (true, p_gift_wrap_enabled, round(p_gift_wrap_charge, 2), p_gift_wrap_tax_class, now())
+  ON CONFLICT (id) DO UPDATE
+  SET
+    gift_wrap_enabled = EXCLUDED.gift_wrap_enabled,
+    gift_wrap_charge = EXCLUDED.gift_wrap_charge,
+    gift_wrap_tax_class = EXCLUDED.gift_wrap_tax_class,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE ORDER READS - Include gift options
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.order_number,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.recipient_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.gift_wrap_total,
+  o.tax_total,
+  o.total,
+  o.prices_include_tax,
+  o.currency,
+  o.exchange_rate,
+  o.discount_code,
+  o.discount_total,
+  o.gift_card_total,
+  o.gift_wrap,
+  o.gift_message,
+  o.hide_prices,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the order number (with or without dashes), email, name or
+-- recipient name
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int, text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_search text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (
+      v_pattern IS NULL
+      OR o.order_number ILIKE v_pattern
+      OR (v_compact_pattern <> '%%' AND replace(o.order_number, '-', '') ILIKE v_compact_pattern)
+      OR o.email ILIKE v_pattern
+      OR o.full_name ILIKE v_pattern
+      OR o.recipient_name ILIKE v_pattern
+    )
+  ORDER BY o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL AND INVOICE DATA - Gift options
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'recipient_name', o.recipient_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'gift_wrap_total', o.gift_wrap_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'discount_code', o.discount_code,
+      'discount_total', o.discount_total,
+      'gift_card_total', o.gift_card_total,
+      'gift_wrap', o.gift_wrap,
+      'gift_message', o.gift_message,
+      'hide_prices', o.hide_prices,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb),
+    'gift_cards', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'code', g.code,
+        'initial_value', g.initial_value,
+        'currency', g.currency
+      ) ORDER BY g.created_at, g.id)
+      FROM woolwitch.gift_cards g
+      WHERE g.order_id = o.id
+      AND g.voided_at IS NULL
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_invoice(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_invoice(p_order_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_result jsonb;
+BEGIN
+  -- Verify access to order
+  IF NOT EXISTS (
+    SELECT 1 FROM woolwitch.orders o
+    WHERE o.id = p_order_id
+    AND (o.user_id = auth.uid() OR woolwitch.is_admin())
+  ) THEN
+    RAISE EXCEPTION 'Order not found or access denied';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'invoice', (
+      SELECT jsonb_build_object(
+        'invoice_number', inv.invoice_number,
+        'issued_at', inv.issued_at
+      )
+      FROM woolwitch.invoices inv
+      WHERE inv.order_id = o.id
+    ),
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'recipient_name', o.recipient_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'gift_wrap_total', o.gift_wrap_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'discount_code', o.discount_code,
+      'discount_total', o.discount_total,
+      'gift_card_total', o.gift_card_total,
+      'gift_wrap', o.gift_wrap,
+      'gift_message', o.gift_message,
+      'hide_prices', o.hide_prices,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'delivery_charge', i.delivery_charge,
+        'tax_rate', i.tax_rate,
+        'tax_amount', i.tax_amount,
+        'discount_amount', i.discount_amount,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', p.payment_method,
+        'amount', p.amount,
+        'currency', p.currency,
+        'status', p.status,
+        'created_at', p.created_at
+      ) ORDER BY p.created_at)
+      FROM woolwitch.payments p
+      WHERE p.order_id = o.id
+      AND p.status IN ('completed', 'refunded')
+    ), '[]'::jsonb)
+  ) INTO v_result
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT ALL PRIVILEGES ON woolwitch.gift_options TO service_role, postgres;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text, boolean) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric, text, boolean, text, boolean) TO authenticated, anon;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_gift_options() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_gift_options(boolean, numeric, text) TO authenticated;
+
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_invoice(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text, boolean) IS 'Prices a cart from the product table, shipping profiles, tax rates, discount code and gift wrapping for the address, in the chosen currency - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address and gift options, priced by quote_order with any discount code and gift wrapping (rejects mismatched client totals with WWP01, unusable codes with WWD01 and unusable gift cards with WWG01), takes any gift card payment, reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.get_gift_options() IS 'Gift wrapping availability, charge and tax class for pricing gift wrapping in the browser';
+COMMENT ON FUNCTION woolwitch_api.update_gift_options(boolean, numeric, text) IS 'Update gift wrapping availability, charge and tax class (admin only)';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters and search by order number, email, name or recipient name (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
+COMMENT ON FUNCTION woolwitch_api.get_order_invoice(uuid) IS 'Invoice number, order (with currency, discount, gift card payments and gift options), items and captured payments for rendering an invoice or packing slip (owner or admin)';
@@ -0,0 +1,255 @@
+-- Customer address book
+-- Signed-in customers can keep the addresses they send orders to:
+--   * woolwitch.customer_addresses - a customer's saved addresses, each with
+--                                    the name it is addressed to, an
+--                                    optional label ("Home", "Mum") and at
+--                                    most one default
+--
+-- Addresses are normalised and validated with normalize_order_address, so
+-- a saved address can be used for an order as it is. Checkout fills in the
+-- default address and offers to save a new address once the order is placed.
+-- Customers manage their addresses from My Account; admins cannot see them.
+
+-- ========================================
+-- CUSTOMER ADDRESS TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.customer_addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  label text CHECK (char_length(label) <= 50),
+  full_name text NOT NULL CHECK (char_length(btrim(full_name)) BETWEEN 2 AND 200),
+  address jsonb NOT NULL,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_customer_addresses_user ON woolwitch.customer_addresses(user_id, created_at);
+CREATE UNIQUE INDEX idx_customer_addresses_default ON woolwitch.customer_addresses(user_id) WHERE is_default;
+
+CREATE TRIGGER update_customer_addresses_updated_at
+  BEFORE UPDATE ON woolwitch.customer_addresses
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.update_updated_at_column();
+
+ALTER TABLE woolwitch.customer_addresses ENABLE ROW LEVEL SECURITY;
+
+-- Only ever the customer's own addresses
+CREATE POLICY "Customer address access" ON woolwitch.customer_addresses
+  FOR ALL TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE woolwitch.customer_addresses IS 'Addresses signed-in customers have saved for checkout';
+COMMENT ON COLUMN woolwitch.customer_addresses.full_name IS 'Who parcels to this address are addressed to';
+COMMENT ON COLUMN woolwitch.customer_addresses.address IS 'Normalised address: {line1, line2, city, region, postcode, country}';
+COMMENT ON COLUMN woolwitch.customer_addresses.is_default IS 'Filled in at checkout; at most one per customer';
+
+-- ========================================
+-- CUSTOMER ADDRESS HELPERS
+-- ========================================
+
+-- Makes an address the customer's default, clearing the old one first so
+-- the one-default index is never broken
+DROP FUNCTION IF EXISTS woolwitch.set_default_customer_address(uuid, uuid) CASCADE;
+CREATE FUNCTION woolwitch.set_default_customer_address(p_user_id uuid, p_address_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE woolwitch.customer_addresses
+  SET is_default = false
+  WHERE user_id = p_user_id
+  AND is_default
+  AND id <> p_address_id;
+
+  UPDATE woolwitch.customer_addresses
+  SET is_default = true
+  WHERE user_id = p_user_id
+  AND id = p_address_id
+  AND NOT is_default;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- CUSTOMER ADDRESS API
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_customer_addresses() CASCADE;
+CREATE FUNCTION woolwitch_api.get_customer_addresses()
+RETURNS TABLE (
+  id uuid,
+  label text,
+  full_name text,
+  address jsonb,
+  is_default boolean,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your address book';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.label,
+    a.full_name,
+    a.address,
+    a.is_default,
+    a.created_at,
+    a.updated_at
+  FROM woolwitch.customer_addresses a
+  WHERE a.user_id = auth.uid()
+  ORDER BY a.is_default DESC, a.created_at;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- A customer's first address becomes their default
+DROP FUNCTION IF EXISTS woolwitch_api.create_customer_address(text, text, jsonb, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.create_customer_address(
+  p_label text,
+  p_full_name text,
+  p_address jsonb,
+  p_is_default boolean DEFAULT false
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_address_count integer;
+  v_address_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your address book';
+  END IF;
+
+  SELECT count(*) INTO v_address_count
+  FROM woolwitch.customer_addresses
+  WHERE user_id = v_user_id;
+
+  IF v_address_count >= 20 THEN
+    RAISE EXCEPTION 'You can save up to 20 addresses';
+  END IF;
+
+  INSERT INTO woolwitch.customer_addresses (user_id, label, full_name, address)
+  VALUES (
+    v_user_id,
+    NULLIF(btrim(p_label), ''),
+    btrim(COALESCE(p_full_name, '')),
+    woolwitch.normalize_order_address(p_address)
+  )
+  RETURNING customer_addresses.id INTO v_address_id;
+
+  IF COALESCE(p_is_default, false) OR v_address_count = 0 THEN
+    PERFORM woolwitch.set_default_customer_address(v_user_id, v_address_id);
+  END IF;
+
+  RETURN v_address_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Unticking default leaves the customer without one
+DROP FUNCTION IF EXISTS woolwitch_api.update_customer_address(uuid, text, text, jsonb, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.update_customer_address(
+  p_address_id uuid,
+  p_label text,
+  p_full_name text,
+  p_address jsonb,
+  p_is_default boolean DEFAULT false
+)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your address book';
+  END IF;
+
+  UPDATE woolwitch.customer_addresses
+  SET
+    label = NULLIF(btrim(p_label), ''),
+    full_name = btrim(COALESCE(p_full_name, '')),
+    address = woolwitch.normalize_order_address(p_address),
+    is_default = CASE WHEN COALESCE(p_is_default, false) THEN is_default ELSE false END
+  WHERE id = p_address_id
+  AND user_id = v_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Address not found';
+  END IF;
+
+  IF COALESCE(p_is_default, false) THEN
+    PERFORM woolwitch.set_default_customer_address(v_user_id, p_address_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Deleting the default makes the oldest remaining address the default
+DROP FUNCTION IF EXISTS woolwitch_api.delete_customer_address(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.delete_customer_address(p_address_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_was_default boolean;
+  v_next_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your address book';
+  END IF;
+
+  DELETE FROM woolwitch.customer_addresses
+  WHERE id = p_address_id
+  AND user_id = v_user_id
+  RETURNING is_default INTO v_was_default;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Address not found';
+  END IF;
+
+  IF v_was_default THEN
+    SELECT a.id INTO v_next_id
+    FROM woolwitch.customer_addresses a
+    WHERE a.user_id = v_user_id
+    ORDER BY a.created_at
+    LIMIT 1;
+
+    IF v_next_id IS NOT NULL THEN
+      PERFORM woolwitch.set_default_customer_address(v_user_id, v_next_id);
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON woolwitch.customer_addresses TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.customer_addresses TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.set_default_customer_address(uuid, uuid) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_customer_addresses() TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_customer_address(text, text, jsonb, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_customer_address(uuid, text, text, jsonb, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.delete_customer_address(uuid) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.set_default_customer_address(uuid, uuid) IS 'Makes an address the customer''s only default address';
+COMMENT ON FUNCTION woolwitch_api.get_customer_addresses() IS 'The signed-in customer''s saved addresses, default first';
+COMMENT ON FUNCTION woolwitch_api.create_customer_address(text, text, jsonb, boolean) IS 'Save a validated, normalised address to the signed-in customer''s address book (up to 20; the first becomes the default)';
+COMMENT ON FUNCTION woolwitch_api.update_customer_address(uuid, text, text, jsonb, boolean) IS 'Update one of the signed-in customer''s saved addresses';
+COMMENT ON FUNCTION woolwitch_api.delete_customer_address(uuid) IS 'Delete one of the signed-in customer''s saved addresses; the oldest remaining becomes the default';
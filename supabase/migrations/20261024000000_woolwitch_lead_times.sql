@@ -0,0 +1,1310 @@
+-- Lead times and estimated dispatch dates
+-- Most pieces are made after they are ordered. Products now say how long
+-- that takes, and orders promise when they will be sent:
+--   * products.lead_time_days        - working days to make a piece before
+--                                      it can be sent (0 for pieces in stock)
+--   * custom_properties optionLeadTimes - per dropdown option lead times
+--                                      that replace the product's when the
+--                                      option is chosen (the longest chosen
+--                                      option wins)
+--   * shipping_regions.transit_days  - working days from dispatch to delivery
+--   * orders.dispatch_by             - the promised dispatch date
+--   * orders.estimated_delivery      - when the order should arrive
+--
+-- Working days are Monday to Friday; an order placed at the weekend starts
+-- counting from Monday. The longest lead time in the order sets dispatch_by.
+-- Gift cards are not made or posted and have no lead time; an order of only
+-- gift cards has no dispatch date.
+--
+-- The same dates are estimated by src/lib/leadTime.ts for the storefront;
+-- keep the two in step.
+
+-- ========================================
+-- LEAD TIME COLUMNS
+-- ========================================
+
+ALTER TABLE woolwitch.products
+  ADD COLUMN lead_time_days integer NOT NULL DEFAULT 0 CHECK (lead_time_days BETWEEN 0 AND 365);
+
+ALTER TABLE woolwitch.shipping_regions
+  ADD COLUMN transit_days integer NOT NULL DEFAULT 2 CHECK (transit_days BETWEEN 0 AND 60);
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN dispatch_by date,
+  ADD COLUMN estimated_delivery date;
+
+-- The admin dispatch queue lists paid orders by promised dispatch date
+CREATE INDEX idx_orders_dispatch_by ON woolwitch.orders(dispatch_by)
+  WHERE status = 'paid';
+
+COMMENT ON COLUMN woolwitch.products.lead_time_days IS 'Working days to make the piece before it can be dispatched; 0 when it is ready to send';
+COMMENT ON COLUMN woolwitch.shipping_regions.transit_days IS 'Working days from dispatch to delivery, for delivery estimates';
+COMMENT ON COLUMN woolwitch.orders.dispatch_by IS 'Promised dispatch date from the longest lead time in the order; NULL when nothing is posted';
+COMMENT ON COLUMN woolwitch.orders.estimated_delivery IS 'dispatch_by plus the shipping region''s transit days';
+
+-- ========================================
+-- LEAD TIME HELPERS
+-- ========================================
+
+-- The date a number of working days (Monday to Friday) after p_from. A
+-- weekend p_from moves to the Monday first, so 0 days is the next working day.
+DROP FUNCTION IF EXISTS woolwitch.add_working_days(date, integer) CASCADE;
+CREATE FUNCTION woolwitch.add_working_days(p_from date, p_days integer)
+RETURNS date AS $$
+DECLARE
+  v_date date := p_from;
+  v_remaining integer := GREATEST(COALESCE(p_days, 0), 0);
+BEGIN
+  IF p_from IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  WHILE extract(isodow FROM v_date) > 5 LOOP
+    v_date := v_date + 1;
+  END LOOP;
+
+  WHILE v_remaining > 0 LOOP
+    v_date := v_date + 1;
+    IF extract(isodow FROM v_date) <= 5 THEN
+      v_remaining := v_remaining - 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_date;
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Resolve the lead time for a line item. Mirrors getItemLeadTime in
+-- src/lib/leadTime.ts: the longest lead time of the selected dropdown
+-- options that have one, otherwise the product's.
+DROP FUNCTION IF EXISTS woolwitch.get_selection_lead_time(jsonb, jsonb, integer) CASCADE;
+CREATE FUNCTION woolwitch.get_selection_lead_time(
+  p_custom_properties jsonb,
+  p_selections jsonb,
+  p_lead_time_days integer
+)
+RETURNS integer AS $$
+DECLARE
+  v_selection jsonb;
+  v_property jsonb;
+  v_option_days integer;
+  v_result integer;
+BEGIN
+  IF p_custom_properties IS NULL OR p_selections IS NULL OR jsonb_typeof(p_selections) <> 'array' THEN
+    RETURN p_lead_time_days;
+  END IF;
+
+  FOR v_selection IN SELECT * FROM jsonb_array_elements(p_selections)
+  LOOP
+    SELECT p INTO v_property
+    FROM jsonb_array_elements(COALESCE(p_custom_properties->'properties', '[]'::jsonb)) p
+    WHERE p->>'id' = v_selection->>'propertyId'
+    LIMIT 1;
+
+    IF v_property->>'type' = 'dropdown'
+       AND v_property->'optionLeadTimes' ? (v_selection->>'value') THEN
+      v_option_days := (v_property->'optionLeadTimes'->>(v_selection->>'value'))::integer;
+      v_result := GREATEST(v_result, v_option_days);
+    END IF;
+  END LOOP;
+
+  RETURN COALESCE(v_result, p_lead_time_days);
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- The promised dispatch date for order items ({product_id, custom_selections})
+-- ordered on p_order_date; NULL when none of them are posted
+DROP FUNCTION IF EXISTS woolwitch.order_dispatch_date(jsonb, date) CASCADE;
+CREATE FUNCTION woolwitch.order_dispatch_date(p_order_items jsonb, p_order_date date)
+RETURNS date AS $$
+DECLARE
+  v_lead_time_days integer;
+  v_has_items boolean;
+BEGIN
+  SELECT
+    MAX(woolwitch.get_selection_lead_time(p.custom_properties, item->'custom_selections', p.lead_time_days)),
+    count(*) > 0
+  INTO v_lead_time_days, v_has_items
+  FROM jsonb_array_elements(COALESCE(p_order_items, '[]'::jsonb)) item
+  JOIN woolwitch.products p ON p.id = (item->>'product_id')::uuid
+  WHERE NOT p.is_gift_card;
+
+  IF NOT v_has_items THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN woolwitch.add_working_days(p_order_date, v_lead_time_days);
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE PRODUCT API - Lead times
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  tax_class,
+  is_gift_card,
+  lead_time_days,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties
+FROM woolwitch.products
+WHERE is_available = true OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products(text, text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products(
+  p_category text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE
+    (p_category IS NULL OR p.category = p_category)
+    AND (p_search IS NULL OR
+         p.name ILIKE '%' || p_search || '%' OR
+         p.description ILIKE '%' || p_search || '%' OR
+         p.category ILIKE '%' || p_search || '%')
+  ORDER BY p.sort_order ASC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_product_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_product_by_id(p_product_id uuid)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = p_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products_by_ids(uuid[]) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products_by_ids(p_product_ids uuid[])
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = ANY(p_product_ids);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_product(text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb, uuid, integer, text, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.create_product(
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL,
+  p_tax_class text DEFAULT 'standard',
+  p_is_gift_card boolean DEFAULT false,
+  p_lead_time_days integer DEFAULT 0
+)
+RETURNS uuid
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_product_id uuid;
+  v_sort_order integer;
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create products';
+  END IF;
+
+  -- Calculate sort_order if not provided
+  IF p_sort_order IS NULL THEN
+    SELECT COALESCE(MAX(sort_order), 0) + 1 INTO v_sort_order
+    FROM woolwitch.products;
+  ELSE
+    v_sort_order := p_sort_order;
+  END IF;
+
+  INSERT INTO woolwitch.products (
+    name,
+    description,
+    price,
+    image_url,
+    category,
+    stock_quantity,
+    delivery_charge,
+    is_available,
+    sort_order,
+    price_max,
+    custom_properties,
+    shipping_profile_id,
+    weight_grams,
+    tax_class,
+    is_gift_card,
+    lead_time_days
+  ) VALUES (
+    p_name,
+    p_description,
+    p_price,
+    p_image_url,
+    p_category,
+    p_stock_quantity,
+    p_delivery_charge,
+    p_is_available,
+    v_sort_order,
+    p_price_max,
+    p_custom_properties,
+    p_shipping_profile_id,
+    p_weight_grams,
+    COALESCE(p_tax_class, 'standard'),
+    COALESCE(p_is_gift_card, false),
+    COALESCE(p_lead_time_days, 0)
+  ) RETURNING id INTO v_product_id;
+
+  RETURN v_product_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_product(uuid, text, text, numeric, text, text, integer, numeric, boolean, integer, numeric, jsonb, uuid, integer, text, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.update_product(
+  p_product_id uuid,
+  p_name text,
+  p_description text,
+  p_price numeric,
+  p_image_url text,
+  p_category text,
+  p_stock_quantity integer DEFAULT 0,
+  p_delivery_charge numeric DEFAULT 0,
+  p_is_available boolean DEFAULT true,
+  p_sort_order integer DEFAULT NULL,
+  p_price_max numeric DEFAULT NULL,
+  p_custom_properties jsonb DEFAULT NULL,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_weight_grams integer DEFAULT NULL,
+  p_tax_class text DEFAULT 'standard',
+  p_is_gift_card boolean DEFAULT false,
+  p_lead_time_days integer DEFAULT 0
+)
+RETURNS void
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service role (auth.uid() IS NULL) or an admin
+  IF auth.uid() IS NOT NULL AND NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can update products';
+  END IF;
+
+  UPDATE woolwitch.products
+  SET
+    name = p_name,
+    description = p_description,
+    price = p_price,
+    image_url = p_image_url,
+    category = p_category,
+    stock_quantity = p_stock_quantity,
+    delivery_charge = p_delivery_charge,
+    is_available = p_is_available,
+    sort_order = COALESCE(p_sort_order, sort_order),
+    price_max = p_price_max,
+    custom_properties = p_custom_properties,
+    shipping_profile_id = p_shipping_profile_id,
+    weight_grams = p_weight_grams,
+    tax_class = COALESCE(p_tax_class, 'standard'),
+    is_gift_card = COALESCE(p_is_gift_card, false),
+    lead_time_days = COALESCE(p_lead_time_days, 0)
+  WHERE id = p_product_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+END;
+$$;
+-- ========================================
+-- UPDATE SHIPPING CONFIGURATION - Transit days
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_shipping_config() CASCADE;
+CREATE FUNCTION woolwitch_api.get_shipping_config()
+RETURNS jsonb AS $$
+BEGIN
+  RETURN jsonb_build_object(
+    'regions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', r.id,
+        'name', r.name,
+        'countries', to_jsonb(r.countries),
+        'postcode_prefixes', to_jsonb(r.postcode_prefixes),
+        'is_default', r.is_default,
+        'sort_order', r.sort_order,
+        'transit_days', r.transit_days
+      ) ORDER BY r.sort_order, r.name)
+      FROM woolwitch.shipping_regions r
+    ), '[]'::jsonb),
+    'profiles', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'method', p.method,
+        'free_over', p.free_over,
+        'rates', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'region_id', sr.region_id,
+            'min_weight_grams', sr.min_weight_grams,
+            'first_item', sr.first_item,
+            'additional_item', sr.additional_item
+          ) ORDER BY sr.region_id, sr.min_weight_grams)
+          FROM woolwitch.shipping_rates sr
+          WHERE sr.profile_id = p.id
+        ), '[]'::jsonb)
+      ) ORDER BY p.name)
+      FROM woolwitch.shipping_profiles p
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_shipping_region(text, text[], integer, text[]) CASCADE;
+CREATE FUNCTION woolwitch_api.create_shipping_region(
+  p_name text,
+  p_postcode_prefixes text[],
+  p_sort_order integer DEFAULT 0,
+  p_countries text[] DEFAULT '{GB}',
+  p_transit_days integer DEFAULT 2
+)
+RETURNS uuid AS $$
+DECLARE
+  v_region_id uuid;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  INSERT INTO woolwitch.shipping_regions (name, countries, postcode_prefixes, sort_order, transit_days)
+  VALUES (
+    btrim(p_name),
+    woolwitch.normalize_region_countries(p_countries),
+    ARRAY(
+      SELECT DISTINCT upper(regexp_replace(prefix, '\s', '', 'g'))
+      FROM unnest(COALESCE(p_postcode_prefixes, '{}')) prefix
+      WHERE btrim(prefix) <> ''
+    ),
+    COALESCE(p_sort_order, 0),
+    COALESCE(p_transit_days, 2)
+  )
+  RETURNING id INTO v_region_id;
+
+  RETURN v_region_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.update_shipping_region(uuid, text, text[], integer, text[]) CASCADE;
+CREATE FUNCTION woolwitch_api.update_shipping_region(
+  p_region_id uuid,
+  p_name text,
+  p_postcode_prefixes text[],
+  p_sort_order integer DEFAULT 0,
+  p_countries text[] DEFAULT '{GB}',
+  p_transit_days integer DEFAULT 2
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE woolwitch.shipping_regions
+  SET
+    name = btrim(p_name),
+    countries = woolwitch.normalize_region_countries(p_countries),
+    postcode_prefixes = ARRAY(
+      SELECT DISTINCT upper(regexp_replace(prefix, '\s', '', 'g'))
+      FROM unnest(COALESCE(p_postcode_prefixes, '{}')) prefix
+      WHERE btrim(prefix) <> ''
+    ),
+    sort_order = COALESCE(p_sort_order, 0),
+    transit_days = COALESCE(p_transit_days, 2)
+  WHERE id = p_region_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shipping region not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+-- ========================================
+-- UPDATE create_order - Dispatch and delivery dates
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric, text, boolean, text, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_card_code text DEFAULT NULL,
+  p_gift_card_amount numeric DEFAULT NULL,
+  p_recipient_name text DEFAULT NULL,
+  p_gift_wrap boolean DEFAULT false,
+  p_gift_message text DEFAULT NULL,
+  p_hide_prices boolean DEFAULT false
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_discount_code_id uuid;
+  v_dispatch_by date;
+  v_estimated_delivery date;
+  v_line jsonb;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_payment_method = 'gift_card' AND NULLIF(btrim(p_gift_card_code), '') IS NULL THEN
+    RAISE EXCEPTION 'A gift card is required to pay by gift card';
+  END IF;
+
+  IF char_length(btrim(p_recipient_name)) > 200 THEN
+    RAISE EXCEPTION 'Recipient name must be 200 characters or fewer';
+  END IF;
+
+  IF char_length(btrim(p_gift_message)) > 500 THEN
+    RAISE EXCEPTION 'Gift message must be 500 characters or fewer';
+  END IF;
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Lock the discount code so concurrent orders cannot go over its usage
+  -- limit; quote_order checks the limit once the lock is held
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    SELECT d.id INTO v_discount_code_id
+    FROM woolwitch.discount_codes d
+    WHERE d.code = upper(btrim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region, the discount and any gift
+  -- wrapping, in the chosen currency
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address, p_currency, p_discount_code, COALESCE(p_gift_wrap, false));
+
+  -- Promise dispatch once the longest lead time in the order has passed,
+  -- and delivery after the shipping region's transit time
+  v_dispatch_by := woolwitch.order_dispatch_date(p_order_items, (now() AT TIME ZONE 'UTC')::date);
+
+  SELECT woolwitch.add_working_days(v_dispatch_by, r.transit_days) INTO v_estimated_delivery
+  FROM woolwitch.shipping_regions r
+  WHERE r.id = woolwitch.shipping_region_for_address(v_address->>'country', v_address->>'postcode');
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'gift_wrap_total', v_quote.gift_wrap_total,
+              'discount_total', v_quote.discount_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    recipient_name,
+    address,
+    subtotal,
+    delivery_total,
+    gift_wrap_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    currency,
+    exchange_rate,
+    discount_code_id,
+    discount_code,
+    discount_total,
+    gift_wrap,
+    gift_message,
+    hide_prices,
+    dispatch_by,
+    estimated_delivery,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    NULLIF(btrim(p_recipient_name), ''),
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.gift_wrap_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    v_quote.currency,
+    v_quote.exchange_rate,
+    v_discount_code_id,
+    v_quote.discount_code,
+    v_quote.discount_total,
+    COALESCE(p_gift_wrap, false),
+    NULLIF(btrim(p_gift_message), ''),
+    COALESCE(p_hide_prices, false),
+    v_dispatch_by,
+    v_estimated_delivery,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      discount_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      (v_line->>'discount_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  -- Take the gift card's part of the payment (raises WWG01 when the card
+  -- cannot pay it). An order the card covers in full is paid now; otherwise
+  -- the rest is paid with Stripe or PayPal.
+  IF NULLIF(btrim(p_gift_card_code), '') IS NOT NULL THEN
+    PERFORM woolwitch.redeem_gift_card(p_gift_card_code, v_order_id, p_gift_card_amount);
+
+    IF round(p_gift_card_amount, 2) >= v_quote.total THEN
+      PERFORM set_config('woolwitch.status_note', 'Paid by gift card', true);
+
+      UPDATE woolwitch.orders o
+      SET status = 'paid',
+          updated_at = now()
+      WHERE o.id = v_order_id;
+
+      PERFORM set_config('woolwitch.status_note', '', true);
+    ELSIF p_payment_method = 'gift_card' THEN
+      RAISE EXCEPTION 'Gift card does not cover the order total of %', v_quote.total
+        USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+    END IF;
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+-- ========================================
+-- UPDATE ORDER READS - Dispatch and delivery dates
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.orders_view CASCADE;
+CREATE VIEW woolwitch_api.orders_view
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id,
+  o.order_number,
+  o.user_id,
+  o.email,
+  o.full_name,
+  o.recipient_name,
+  o.address,
+  o.subtotal,
+  o.delivery_total,
+  o.gift_wrap_total,
+  o.tax_total,
+  o.total,
+  o.prices_include_tax,
+  o.currency,
+  o.exchange_rate,
+  o.discount_code,
+  o.discount_total,
+  o.gift_card_total,
+  o.gift_wrap,
+  o.gift_message,
+  o.hide_prices,
+  o.dispatch_by,
+  o.estimated_delivery,
+  o.refunded_total,
+  o.status,
+  o.payment_method,
+  o.created_at,
+  o.updated_at
+FROM woolwitch.orders o
+WHERE o.user_id = auth.uid() OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_user_orders(int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_user_orders(
+  p_limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  dispatch_by date,
+  estimated_delivery date,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+  o.dispatch_by,
+  o.estimated_delivery,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.user_id = auth.uid()
+  ORDER BY o.created_at DESC
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- p_search matches the order number (with or without dashes), email, name or
+-- recipient name. p_sort 'dispatch_by' lists the soonest promised dispatch
+-- first instead of the newest order.
+DROP FUNCTION IF EXISTS woolwitch_api.get_all_orders(text, text, int, int, text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_all_orders(
+  p_status text DEFAULT NULL,
+  p_payment_method text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_search text DEFAULT NULL,
+  p_sort text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  dispatch_by date,
+  estimated_delivery date,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_pattern text;
+  v_compact_pattern text;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF NULLIF(btrim(p_search), '') IS NOT NULL THEN
+    v_pattern := '%' || replace(replace(replace(btrim(p_search), '\', '\\'), '%', '\%'), '_', '\_') || '%';
+    v_compact_pattern := '%' || regexp_replace(p_search, '[^A-Za-z0-9]', '', 'g') || '%';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+  o.dispatch_by,
+  o.estimated_delivery,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE
+    (p_status IS NULL OR o.status = p_status)
+    AND (p_payment_method IS NULL OR o.payment_method = p_payment_method)
+    AND (
+      v_pattern IS NULL
+      OR o.order_number ILIKE v_pattern
+      OR (v_compact_pattern <> '%%' AND replace(o.order_number, '-', '') ILIKE v_compact_pattern)
+      OR o.email ILIKE v_pattern
+      OR o.full_name ILIKE v_pattern
+      OR o.recipient_name ILIKE v_pattern
+    )
+  ORDER BY
+    CASE WHEN p_sort = 'dispatch_by' THEN o.dispatch_by END ASC NULLS LAST,
+    o.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_order_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_order_by_id(p_order_id uuid)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  dispatch_by date,
+  estimated_delivery date,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+  o.dispatch_by,
+  o.estimated_delivery,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  AND (o.user_id = auth.uid() OR woolwitch.is_admin());
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_guest_order(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_guest_order(p_token text)
+RETURNS TABLE (
+  id uuid,
+  order_number text,
+  user_id uuid,
+  email text,
+  full_name text,
+  recipient_name text,
+  address jsonb,
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  discount_total numeric,
+  gift_card_total numeric,
+  gift_wrap boolean,
+  gift_message text,
+  hide_prices boolean,
+  dispatch_by date,
+  estimated_delivery date,
+  refunded_total numeric,
+  status text,
+  payment_method text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+DECLARE
+  v_order_id uuid;
+BEGIN
+  v_order_id := woolwitch.verify_guest_order_token(p_token);
+
+  RETURN QUERY
+  SELECT
+    o.id,
+    o.order_number,
+    o.user_id,
+    o.email,
+    o.full_name,
+    o.recipient_name,
+    o.address,
+    o.subtotal,
+    o.delivery_total,
+    o.gift_wrap_total,
+    o.tax_total,
+    o.total,
+    o.prices_include_tax,
+    o.currency,
+    o.exchange_rate,
+    o.discount_code,
+    o.discount_total,
+    o.gift_card_total,
+    o.gift_wrap,
+    o.gift_message,
+    o.hide_prices,
+  o.dispatch_by,
+  o.estimated_delivery,
+    o.refunded_total,
+    o.status,
+    o.payment_method,
+    o.created_at,
+    o.updated_at
+  FROM woolwitch.orders o
+  WHERE o.id = v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+-- ========================================
+-- UPDATE EMAIL DATA - Dispatch and delivery dates
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch.build_order_email_data(p_order_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'order', jsonb_build_object(
+      'id', o.id,
+      'order_number', o.order_number,
+      'email', o.email,
+      'full_name', o.full_name,
+      'recipient_name', o.recipient_name,
+      'address', o.address,
+      'subtotal', o.subtotal,
+      'delivery_total', o.delivery_total,
+      'gift_wrap_total', o.gift_wrap_total,
+      'tax_total', o.tax_total,
+      'total', o.total,
+      'prices_include_tax', o.prices_include_tax,
+      'currency', o.currency,
+      'discount_code', o.discount_code,
+      'discount_total', o.discount_total,
+      'gift_card_total', o.gift_card_total,
+      'gift_wrap', o.gift_wrap,
+      'gift_message', o.gift_message,
+      'hide_prices', o.hide_prices,
+      'dispatch_by', o.dispatch_by,
+      'estimated_delivery', o.estimated_delivery,
+      'refunded_total', o.refunded_total,
+      'status', o.status,
+      'payment_method', o.payment_method,
+      'created_at', o.created_at
+    ),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_name', i.product_name,
+        'product_price', i.product_price,
+        'quantity', i.quantity,
+        'custom_selections', i.custom_selections
+      ) ORDER BY i.created_at, i.id)
+      FROM woolwitch.order_items i
+      WHERE i.order_id = o.id
+    ), '[]'::jsonb),
+    'shipments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'carrier', s.carrier,
+        'tracking_number', s.tracking_number,
+        'dispatched_at', s.dispatched_at
+      ) ORDER BY s.created_at, s.id)
+      FROM woolwitch.shipments s
+      WHERE s.order_id = o.id
+    ), '[]'::jsonb),
+    'gift_cards', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'code', g.code,
+        'initial_value', g.initial_value,
+        'currency', g.currency
+      ) ORDER BY g.created_at, g.id)
+      FROM woolwitch.gift_cards g
+      WHERE g.order_id = o.id
+      AND g.voided_at IS NULL
+    ), '[]'::jsonb)
+  )
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE ALL ON FUNCTION woolwitch.add_working_days(date, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.get_selection_lead_time(jsonb, jsonb, integer) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.order_dispatch_date(jsonb, date) FROM PUBLIC;
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_product_by_id TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products_by_ids TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_product TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_product TO authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_shipping_config() TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_shipping_region(text, text[], integer, text[], integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.update_shipping_region(uuid, text, text[], integer, text[], integer) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric, text, boolean, text, boolean) TO authenticated, anon;
+
+GRANT SELECT ON woolwitch_api.orders_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_user_orders(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_all_orders(text, text, int, int, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_order_by_id(uuid) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_guest_order(text) TO anon, authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.add_working_days(date, integer) IS 'The date a number of working days (Monday to Friday) after a date, starting from the next working day at weekends';
+COMMENT ON FUNCTION woolwitch.get_selection_lead_time(jsonb, jsonb, integer) IS 'Resolves the lead time for a line item from selected dropdown option lead times, falling back to the product''s';
+COMMENT ON FUNCTION woolwitch.order_dispatch_date(jsonb, date) IS 'Promised dispatch date for order items from their longest lead time (mirrors estimateDispatch in the client)';
+COMMENT ON FUNCTION woolwitch_api.get_shipping_config() IS 'Shipping regions (with countries and transit days), profiles and rates for pricing delivery and estimating delivery dates in the browser';
+COMMENT ON FUNCTION woolwitch_api.create_shipping_region(text, text[], integer, text[], integer) IS 'Creates a shipping region for a set of countries, optionally narrowed to UK postcode prefixes, with its transit days (admin only)';
+COMMENT ON FUNCTION woolwitch_api.update_shipping_region(uuid, text, text[], integer, text[], integer) IS 'Updates a shipping region (admin only)';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, gift options and promised dispatch and delivery dates, priced by quote_order with any discount code and gift wrapping (rejects mismatched client totals with WWP01, unusable codes with WWD01 and unusable gift cards with WWG01), takes any gift card payment, reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON VIEW woolwitch_api.orders_view IS 'View of orders accessible by current user or admin';
+COMMENT ON FUNCTION woolwitch_api.get_user_orders IS 'Get orders for current user';
+COMMENT ON FUNCTION woolwitch_api.get_all_orders IS 'Get all orders with filters, search by order number, email, name or recipient name, newest first or by promised dispatch date (admin only)';
+COMMENT ON FUNCTION woolwitch_api.get_order_by_id IS 'Get order by ID if user has access';
+COMMENT ON FUNCTION woolwitch_api.get_guest_order(text) IS 'Order for a guest access token';
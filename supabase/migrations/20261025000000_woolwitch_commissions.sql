@@ -0,0 +1,876 @@
+-- Commission requests and quotes
+-- Customers can ask for a custom piece from the Contact page:
+--   * woolwitch.commission_requests - what they want (description, budget,
+--                                      colours and up to 5 reference images
+--                                      in the commission-images bucket) and
+--                                      the shop's quote for it
+--
+-- Workflow (status):
+--   new       - submitted; the customer gets a receipt and the shop a copy
+--   quoted    - an admin has replied with a price, lead time and message; the
+--               quote is emailed with a link (?commission=<access_token>)
+--               and can be accepted for 30 days
+--   accepted  - the customer accepted; the quoted piece is added to their
+--               cart and paid for through the normal checkout
+--   declined  - the customer turned the quote down (it can be quoted again)
+--   ordered   - an order containing the quoted piece has been placed
+--   closed    - an admin closed the request without an order
+--
+-- Quoting creates a one-off product for the request
+-- (products.commission_request_id): the quoted price and lead time, one in
+-- stock, in the Commissions category. It is kept out of the shop listing,
+-- categories and Admin product list, but is otherwise an ordinary product,
+-- so quote_order and create_order price, tax, ship and reserve it exactly
+-- like anything else. It carries only the quote title, never the customer's
+-- details. Placing the order takes its one unit of stock, so the quote
+-- cannot be bought twice.
+--
+-- The email outbox now also carries commission emails: an outbox row
+-- belongs to either an order or a commission request.
+
+-- ========================================
+-- COMMISSION REQUEST TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.commission_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  email text NOT NULL CHECK (email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' AND char_length(email) <= 254),
+  full_name text NOT NULL CHECK (char_length(btrim(full_name)) BETWEEN 2 AND 200),
+  description text NOT NULL CHECK (char_length(btrim(description)) BETWEEN 20 AND 5000),
+  budget text CHECK (budget IS NULL OR char_length(budget) <= 100),
+  colours text CHECK (colours IS NULL OR char_length(colours) <= 500),
+  reference_images text[] NOT NULL DEFAULT '{}' CHECK (cardinality(reference_images) <= 5),
+  status text NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'quoted', 'accepted', 'declined', 'ordered', 'closed')),
+  quote_title text CHECK (quote_title IS NULL OR char_length(btrim(quote_title)) BETWEEN 1 AND 200),
+  quote_price numeric(10, 2) CHECK (quote_price IS NULL OR quote_price > 0),
+  quote_message text CHECK (quote_message IS NULL OR char_length(quote_message) <= 2000),
+  quote_lead_time_days integer CHECK (quote_lead_time_days IS NULL OR quote_lead_time_days BETWEEN 0 AND 365),
+  quoted_at timestamptz,
+  quote_expires_at timestamptz,
+  accepted_at timestamptz,
+  order_id uuid REFERENCES woolwitch.orders(id) ON DELETE SET NULL,
+  access_token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  CHECK (status IN ('new', 'closed') OR (quote_title IS NOT NULL AND quote_price IS NOT NULL))
+);
+
+CREATE INDEX idx_commission_requests_status ON woolwitch.commission_requests(status, created_at DESC);
+CREATE INDEX idx_commission_requests_email ON woolwitch.commission_requests(lower(email), created_at);
+
+CREATE TRIGGER update_commission_requests_updated_at
+  BEFORE UPDATE ON woolwitch.commission_requests
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.update_updated_at_column();
+
+-- No customer policies: customers submit and read requests through the API
+-- functions, guests by the access token in their quote email
+ALTER TABLE woolwitch.commission_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin commission request access" ON woolwitch.commission_requests
+  FOR SELECT TO authenticated
+  USING (woolwitch.is_admin());
+
+ALTER TABLE woolwitch.products
+  ADD COLUMN commission_request_id uuid REFERENCES woolwitch.commission_requests(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_products_commission_request ON woolwitch.products(commission_request_id)
+  WHERE commission_request_id IS NOT NULL;
+
+COMMENT ON TABLE woolwitch.commission_requests IS 'Custom piece requests from customers and the shop''s quotes for them';
+COMMENT ON COLUMN woolwitch.commission_requests.budget IS 'What the customer hopes to spend, in their own words';
+COMMENT ON COLUMN woolwitch.commission_requests.reference_images IS 'Object paths in the commission-images storage bucket';
+COMMENT ON COLUMN woolwitch.commission_requests.quote_price IS 'Quoted price in the base currency, before delivery';
+COMMENT ON COLUMN woolwitch.commission_requests.quote_expires_at IS 'The quote cannot be accepted after this';
+COMMENT ON COLUMN woolwitch.commission_requests.order_id IS 'Order the quoted piece was bought on';
+COMMENT ON COLUMN woolwitch.commission_requests.access_token IS 'Secret in the quote link; lets a guest view, accept or decline the quote';
+COMMENT ON COLUMN woolwitch.products.commission_request_id IS 'Set on the one-off product created by quoting a commission request; such products are not listed in the shop';
+
+-- ========================================
+-- REFERENCE IMAGE STORAGE
+-- ========================================
+
+-- Public so images can be shown by URL, but with no SELECT policy for
+-- customers the bucket cannot be listed; file names are random UUIDs.
+-- Images are compressed in the browser to 50KB like product images.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'commission-images',
+  'commission-images',
+  true,
+  51200,
+  '{"image/jpeg","image/jpg","image/png","image/webp","image/gif"}'
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Upload commission reference images" ON storage.objects
+  FOR INSERT TO anon, authenticated
+  WITH CHECK (
+    bucket_id = 'commission-images'
+    AND name ~ '^[0-9a-f-]{36}\.(jpe?g|png|webp|gif)$'
+  );
+
+CREATE POLICY "Admin manage commission reference images" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'commission-images' AND woolwitch.is_admin())
+  WITH CHECK (bucket_id = 'commission-images' AND woolwitch.is_admin());
+
+-- ========================================
+-- COMMISSION EMAILS IN THE OUTBOX
+-- ========================================
+
+ALTER TABLE woolwitch.email_outbox
+  ALTER COLUMN order_id DROP NOT NULL,
+  ADD COLUMN commission_request_id uuid REFERENCES woolwitch.commission_requests(id) ON DELETE CASCADE,
+  ADD CONSTRAINT email_outbox_subject_check CHECK (num_nonnulls(order_id, commission_request_id) = 1),
+  DROP CONSTRAINT IF EXISTS email_outbox_template_check,
+  ADD CONSTRAINT email_outbox_template_check
+    CHECK (template IN (
+      'order_confirmation', 'payment_received', 'order_shipped', 'order_cancelled',
+      'commission_received', 'commission_quote'
+    ));
+
+CREATE INDEX idx_email_outbox_commission_request ON woolwitch.email_outbox(commission_request_id)
+  WHERE commission_request_id IS NOT NULL;
+
+COMMENT ON TABLE woolwitch.email_outbox IS 'Queued emails, drained by the send-order-emails edge function: one per order and template, or commission request emails';
+COMMENT ON COLUMN woolwitch.email_outbox.commission_request_id IS 'Set instead of order_id for commission request emails';
+
+-- ========================================
+-- COMMISSION HELPERS
+-- ========================================
+
+-- Everything the commission email templates need, read at send time
+CREATE OR REPLACE FUNCTION woolwitch.build_commission_email_data(p_request_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'email', c.email,
+    'full_name', c.full_name,
+    'description', c.description,
+    'status', c.status,
+    'quote_title', c.quote_title,
+    'quote_price', c.quote_price,
+    'quote_message', c.quote_message,
+    'quote_lead_time_days', c.quote_lead_time_days,
+    'quote_expires_at', c.quote_expires_at,
+    'currency', COALESCE((SELECT s.base_currency FROM woolwitch.currency_settings s), 'GBP'),
+    'access_token', c.access_token,
+    'created_at', c.created_at
+  )
+  FROM woolwitch.commission_requests c
+  WHERE c.id = p_request_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Marks a commission ordered when its quoted piece is bought. A cancelled
+-- order releases the piece's stock, so the customer can order it again from
+-- their quote link.
+CREATE OR REPLACE FUNCTION woolwitch.link_commission_order()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE woolwitch.commission_requests c
+  SET status = 'ordered',
+      order_id = NEW.order_id
+  FROM woolwitch.products p
+  WHERE p.id = NEW.product_id
+  AND c.id = p.commission_request_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+DROP TRIGGER IF EXISTS link_commission_order ON woolwitch.order_items;
+CREATE TRIGGER link_commission_order
+  AFTER INSERT ON woolwitch.order_items
+  FOR EACH ROW
+  WHEN (NEW.product_id IS NOT NULL)
+  EXECUTE FUNCTION woolwitch.link_commission_order();
+
+-- ========================================
+-- KEEP COMMISSION PIECES OUT OF THE SHOP
+-- ========================================
+
+-- The view still returns commission pieces (the cart checks the products in
+-- it by id); the shop listing filters on commission_request_id
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  tax_class,
+  is_gift_card,
+  lead_time_days,
+  commission_request_id,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties
+FROM woolwitch.products
+WHERE is_available = true OR woolwitch.is_admin();
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products(text, text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products(
+  p_category text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE
+    p.commission_request_id IS NULL
+    AND (p_category IS NULL OR p.category = p_category)
+    AND (p_search IS NULL OR
+         p.name ILIKE '%' || p_search || '%' OR
+         p.description ILIKE '%' || p_search || '%' OR
+         p.category ILIKE '%' || p_search || '%')
+  ORDER BY p.sort_order ASC, p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_categories() CASCADE;
+CREATE FUNCTION woolwitch_api.get_categories()
+RETURNS TABLE (category text) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT p.category
+  FROM woolwitch.products p
+  WHERE p.is_available = true
+  AND p.commission_request_id IS NULL
+  ORDER BY p.category;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- COMMISSION API: CUSTOMERS
+-- ========================================
+
+-- Reference images must already be uploaded to the commission-images bucket
+DROP FUNCTION IF EXISTS woolwitch_api.submit_commission_request(text, text, text, text, text, text[]) CASCADE;
+CREATE FUNCTION woolwitch_api.submit_commission_request(
+  p_email text,
+  p_full_name text,
+  p_description text,
+  p_budget text DEFAULT NULL,
+  p_colours text DEFAULT NULL,
+  p_reference_images text[] DEFAULT '{}'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_email text := lower(btrim(COALESCE(p_email, '')));
+  v_images text[] := COALESCE(p_reference_images, '{}');
+  v_request_id uuid;
+BEGIN
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_description, ''))) < 20 THEN
+    RAISE EXCEPTION 'Tell us a little more about what you would like (at least 20 characters)';
+  END IF;
+
+  IF cardinality(v_images) > 5 THEN
+    RAISE EXCEPTION 'You can attach up to 5 reference images';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_images) AS i(path)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'commission-images'
+      AND o.name = i.path
+    )
+  ) THEN
+    RAISE EXCEPTION 'A reference image failed to upload. Please attach it again.';
+  END IF;
+
+  -- At most 5 requests per email a day, and 50 overall an hour
+  IF (SELECT COUNT(*) FROM woolwitch.commission_requests c
+      WHERE lower(c.email) = v_email AND c.created_at > now() - interval '1 day') >= 5
+     OR (SELECT COUNT(*) FROM woolwitch.commission_requests c
+      WHERE c.created_at > now() - interval '1 hour') >= 50 THEN
+    RAISE EXCEPTION 'Too many commission requests. Please try again later.';
+  END IF;
+
+  INSERT INTO woolwitch.commission_requests (
+    user_id,
+    email,
+    full_name,
+    description,
+    budget,
+    colours,
+    reference_images
+  ) VALUES (
+    auth.uid(),
+    v_email,
+    btrim(COALESCE(p_full_name, '')),
+    btrim(p_description),
+    NULLIF(btrim(p_budget), ''),
+    NULLIF(btrim(p_colours), ''),
+    v_images
+  )
+  RETURNING commission_requests.id INTO v_request_id;
+
+  INSERT INTO woolwitch.email_outbox (commission_request_id, template, recipient)
+  VALUES (v_request_id, 'commission_received', v_email);
+
+  RETURN v_request_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- No rows when the token does not match a request
+DROP FUNCTION IF EXISTS woolwitch_api.get_commission_quote(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_commission_quote(p_token text)
+RETURNS TABLE (
+  id uuid,
+  full_name text,
+  description text,
+  colours text,
+  status text,
+  quote_title text,
+  quote_price numeric,
+  quote_message text,
+  quote_lead_time_days integer,
+  quoted_at timestamptz,
+  quote_expires_at timestamptz,
+  product_id uuid,
+  order_number text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.full_name,
+    c.description,
+    c.colours,
+    c.status,
+    c.quote_title,
+    c.quote_price,
+    c.quote_message,
+    c.quote_lead_time_days,
+    c.quoted_at,
+    c.quote_expires_at,
+    p.id,
+    o.order_number,
+    c.created_at
+  FROM woolwitch.commission_requests c
+  LEFT JOIN woolwitch.products p ON p.commission_request_id = c.id
+  LEFT JOIN woolwitch.orders o ON o.id = c.order_id
+  WHERE c.access_token = btrim(COALESCE(p_token, ''));
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Returns the quoted piece's product id for the cart. Accepting an accepted
+-- quote again returns it again, so the customer can go back to checkout.
+DROP FUNCTION IF EXISTS woolwitch_api.accept_commission_quote(text) CASCADE;
+CREATE FUNCTION woolwitch_api.accept_commission_quote(p_token text)
+RETURNS uuid AS $$
+DECLARE
+  v_request woolwitch.commission_requests%ROWTYPE;
+  v_product_id uuid;
+BEGIN
+  SELECT * INTO v_request
+  FROM woolwitch.commission_requests c
+  WHERE c.access_token = btrim(COALESCE(p_token, ''))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF v_request.status NOT IN ('quoted', 'accepted') THEN
+    RAISE EXCEPTION 'This quote is no longer open';
+  END IF;
+
+  IF v_request.status = 'quoted' AND v_request.quote_expires_at < now() THEN
+    RAISE EXCEPTION 'This quote has expired. Please get in touch and we will send you a new one.';
+  END IF;
+
+  SELECT p.id INTO v_product_id
+  FROM woolwitch.products p
+  WHERE p.commission_request_id = v_request.id
+  AND p.is_available;
+
+  IF v_product_id IS NULL THEN
+    RAISE EXCEPTION 'This quote is no longer open';
+  END IF;
+
+  UPDATE woolwitch.commission_requests
+  SET status = 'accepted',
+      accepted_at = COALESCE(accepted_at, now())
+  WHERE id = v_request.id;
+
+  RETURN v_product_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.decline_commission_quote(text) CASCADE;
+CREATE FUNCTION woolwitch_api.decline_commission_quote(p_token text)
+RETURNS void AS $$
+DECLARE
+  v_request_id uuid;
+BEGIN
+  UPDATE woolwitch.commission_requests c
+  SET status = 'declined'
+  WHERE c.access_token = btrim(COALESCE(p_token, ''))
+  AND c.status IN ('quoted', 'accepted')
+  RETURNING c.id INTO v_request_id;
+
+  IF v_request_id IS NULL THEN
+    RAISE EXCEPTION 'This quote is no longer open';
+  END IF;
+
+  UPDATE woolwitch.products
+  SET is_available = false
+  WHERE commission_request_id = v_request_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- COMMISSION API: ADMIN
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_commission_requests(text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_commission_requests(
+  p_status text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  full_name text,
+  description text,
+  budget text,
+  colours text,
+  reference_images text[],
+  status text,
+  quote_title text,
+  quote_price numeric,
+  quote_message text,
+  quote_lead_time_days integer,
+  quoted_at timestamptz,
+  quote_expires_at timestamptz,
+  accepted_at timestamptz,
+  product_id uuid,
+  shipping_profile_id uuid,
+  delivery_charge numeric,
+  weight_grams integer,
+  image_url text,
+  order_id uuid,
+  order_number text,
+  access_token text,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.user_id,
+    c.email,
+    c.full_name,
+    c.description,
+    c.budget,
+    c.colours,
+    c.reference_images,
+    c.status,
+    c.quote_title,
+    c.quote_price,
+    c.quote_message,
+    c.quote_lead_time_days,
+    c.quoted_at,
+    c.quote_expires_at,
+    c.accepted_at,
+    p.id,
+    p.shipping_profile_id,
+    p.delivery_charge,
+    p.weight_grams,
+    p.image_url,
+    c.order_id,
+    o.order_number,
+    c.access_token,
+    c.created_at,
+    c.updated_at
+  FROM woolwitch.commission_requests c
+  LEFT JOIN woolwitch.products p ON p.commission_request_id = c.id
+  LEFT JOIN woolwitch.orders o ON o.id = c.order_id
+  WHERE (p_status IS NULL OR c.status = p_status)
+  ORDER BY c.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Quotes (or re-quotes) a request: creates or updates its one-off product,
+-- opens the quote for 30 days and emails it to the customer. A request
+-- whose order was cancelled can be quoted again.
+DROP FUNCTION IF EXISTS woolwitch_api.quote_commission_request(uuid, text, numeric, text, integer, text, uuid, numeric, integer) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_commission_request(
+  p_request_id uuid,
+  p_title text,
+  p_price numeric,
+  p_message text,
+  p_lead_time_days integer,
+  p_image_url text,
+  p_shipping_profile_id uuid DEFAULT NULL,
+  p_delivery_charge numeric DEFAULT 0,
+  p_weight_grams integer DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_request woolwitch.commission_requests%ROWTYPE;
+  v_title text := btrim(COALESCE(p_title, ''));
+  v_product_id uuid;
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM woolwitch.commission_requests c
+  WHERE c.id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commission request not found';
+  END IF;
+
+  IF v_request.status = 'closed'
+     OR (v_request.status = 'ordered' AND NOT EXISTS (
+       SELECT 1 FROM woolwitch.orders o
+       WHERE o.id = v_request.order_id
+       AND o.status = 'cancelled'
+     )) THEN
+    RAISE EXCEPTION 'This request can no longer be quoted';
+  END IF;
+
+  IF v_title = '' THEN
+    RAISE EXCEPTION 'Quote title is required';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Quote price must be more than zero';
+  END IF;
+
+  UPDATE woolwitch.products
+  SET
+    name = v_title,
+    description = v_title,
+    price = round(p_price, 2),
+    price_max = NULL,
+    image_url = COALESCE(NULLIF(btrim(p_image_url), ''), image_url),
+    stock_quantity = 1,
+    is_available = true,
+    sold_out_at = NULL,
+    delivery_charge = COALESCE(p_delivery_charge, 0),
+    shipping_profile_id = p_shipping_profile_id,
+    weight_grams = p_weight_grams,
+    lead_time_days = COALESCE(p_lead_time_days, 0)
+  WHERE commission_request_id = p_request_id
+  RETURNING id INTO v_product_id;
+
+  IF v_product_id IS NULL THEN
+    INSERT INTO woolwitch.products (
+      name,
+      description,
+      price,
+      image_url,
+      category,
+      stock_quantity,
+      is_available,
+      delivery_charge,
+      shipping_profile_id,
+      weight_grams,
+      lead_time_days,
+      commission_request_id
+    ) VALUES (
+      v_title,
+      v_title,
+      round(p_price, 2),
+      COALESCE(NULLIF(btrim(p_image_url), ''), '/woolwitch.jpg'),
+      'Commissions',
+      1,
+      true,
+      COALESCE(p_delivery_charge, 0),
+      p_shipping_profile_id,
+      p_weight_grams,
+      COALESCE(p_lead_time_days, 0),
+      p_request_id
+    );
+  END IF;
+
+  UPDATE woolwitch.commission_requests
+  SET
+    status = 'quoted',
+    quote_title = v_title,
+    quote_price = round(p_price, 2),
+    quote_message = NULLIF(btrim(p_message), ''),
+    quote_lead_time_days = COALESCE(p_lead_time_days, 0),
+    quoted_at = now(),
+    quote_expires_at = now() + interval '30 days',
+    accepted_at = NULL,
+    order_id = NULL
+  WHERE id = p_request_id;
+
+  INSERT INTO woolwitch.email_outbox (commission_request_id, template, recipient)
+  VALUES (p_request_id, 'commission_quote', v_request.email);
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Closes a request that will not be made; its quote can no longer be bought
+DROP FUNCTION IF EXISTS woolwitch_api.close_commission_request(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.close_commission_request(p_request_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  UPDATE woolwitch.commission_requests
+  SET status = 'closed'
+  WHERE id = p_request_id
+  AND status <> 'ordered';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Commission request not found or already ordered';
+  END IF;
+
+  UPDATE woolwitch.products
+  SET is_available = false
+  WHERE commission_request_id = p_request_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL WORKFLOW - Commission emails
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.claim_order_emails(int) CASCADE;
+CREATE FUNCTION woolwitch_api.claim_order_emails(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  email_id uuid,
+  template text,
+  recipient text,
+  attempt int,
+  order_data jsonb,
+  commission_data jsonb
+) AS $$
+BEGIN
+  -- Emails left 'sending' by a run that died are picked up again after 15 minutes
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE woolwitch.email_outbox e
+    SET status = 'sending',
+        attempts = e.attempts + 1,
+        updated_at = now()
+    WHERE e.id IN (
+      SELECT q.id
+      FROM woolwitch.email_outbox q
+      WHERE q.attempts < q.max_attempts
+      AND (
+        (q.status = 'pending' AND q.next_attempt_at <= now())
+        OR (q.status = 'sending' AND q.updated_at < now() - interval '15 minutes')
+      )
+      ORDER BY q.next_attempt_at
+      LIMIT LEAST(GREATEST(p_limit, 1), 100)
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING e.id, e.order_id, e.commission_request_id, e.template, e.recipient, e.attempts
+  )
+  SELECT
+    c.id,
+    c.template,
+    c.recipient,
+    c.attempts,
+    CASE WHEN c.order_id IS NOT NULL THEN woolwitch.build_order_email_data(c.order_id) END,
+    CASE WHEN c.commission_request_id IS NOT NULL THEN woolwitch.build_commission_email_data(c.commission_request_id) END
+  FROM claimed c;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_email_outbox(text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_email_outbox(
+  p_status text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  order_number text,
+  commission_request_id uuid,
+  template text,
+  recipient text,
+  status text,
+  attempts int,
+  max_attempts int,
+  next_attempt_at timestamptz,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.order_id,
+    o.order_number,
+    e.commission_request_id,
+    e.template,
+    e.recipient,
+    e.status,
+    e.attempts,
+    e.max_attempts,
+    e.next_attempt_at,
+    e.last_error,
+    e.sent_at,
+    e.created_at
+  FROM woolwitch.email_outbox e
+  LEFT JOIN woolwitch.orders o ON o.id = e.order_id
+  WHERE (p_status IS NULL OR e.status = p_status)
+  ORDER BY e.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.commission_requests TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.commission_requests TO service_role, postgres;
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_categories() TO authenticated, anon;
+
+REVOKE EXECUTE ON FUNCTION woolwitch.build_commission_email_data(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.link_commission_order() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.submit_commission_request(text, text, text, text, text, text[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_commission_quote(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.accept_commission_quote(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.decline_commission_quote(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_commission_requests(text, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_commission_request(uuid, text, numeric, text, integer, text, uuid, numeric, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.close_commission_request(uuid) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.claim_order_emails(int) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.claim_order_emails(int) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON VIEW woolwitch_api.products_view IS 'Public view of available products, including one-off commission pieces (filter on commission_request_id to list the shop)';
+COMMENT ON FUNCTION woolwitch_api.get_products IS 'Get shop products with optional filtering; commission pieces are left out';
+COMMENT ON FUNCTION woolwitch_api.get_categories() IS 'Get list of available product categories';
+COMMENT ON FUNCTION woolwitch.build_commission_email_data(uuid) IS 'Commission request and quote as JSON for rendering commission emails';
+COMMENT ON FUNCTION woolwitch.link_commission_order() IS 'Trigger: marks a commission request ordered when its quoted piece is bought';
+COMMENT ON FUNCTION woolwitch_api.submit_commission_request(text, text, text, text, text, text[]) IS 'Submit a commission request with up to 5 uploaded reference images (rate limited); emails the customer a receipt';
+COMMENT ON FUNCTION woolwitch_api.get_commission_quote(text) IS 'A commission request and its quote for the access token in the quote link';
+COMMENT ON FUNCTION woolwitch_api.accept_commission_quote(text) IS 'Accept an open quote; returns the quoted piece''s product id to add to the cart';
+COMMENT ON FUNCTION woolwitch_api.decline_commission_quote(text) IS 'Decline a quote; its piece can no longer be bought';
+COMMENT ON FUNCTION woolwitch_api.get_commission_requests(text, int, int) IS 'Commission requests, newest first, optionally filtered by status (admin only)';
+COMMENT ON FUNCTION woolwitch_api.quote_commission_request(uuid, text, numeric, text, integer, text, uuid, numeric, integer) IS 'Quote a commission request: creates or updates its one-off product and emails the quote (admin only)';
+COMMENT ON FUNCTION woolwitch_api.close_commission_request(uuid) IS 'Close a commission request that will not be made (admin only)';
+COMMENT ON FUNCTION woolwitch_api.claim_order_emails(int) IS 'Claims due outbox emails for sending and returns their order or commission render data (service role only)';
+COMMENT ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) IS 'Outbox emails, newest first, optionally filtered by status (admin only)';
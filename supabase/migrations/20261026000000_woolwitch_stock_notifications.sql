@@ -0,0 +1,408 @@
+-- Back-in-stock notifications
+-- Customers looking at a sold out or unavailable product can ask to be
+-- emailed once when it can be bought again:
+--   * woolwitch.stock_notifications - one request per product, optionally
+--                                     for a single dropdown option, with the
+--                                     consent wording the customer agreed to
+--
+-- When a product becomes buyable again (available, and in stock if stock is
+-- tracked) the waiting requests are marked notified and a back_in_stock
+-- email is queued for each in the outbox. This happens whenever the product
+-- row changes that way: an admin restocking or re-enabling it through
+-- update_product, or a cancelled order putting its stock back. Requests for
+-- an option the product no longer offers keep waiting until it is offered
+-- again.
+--
+-- Products switched off by selling out stay visible in products_view (with
+-- a stock of zero) so customers can still open them and ask to be told.
+
+-- ========================================
+-- STOCK NOTIFICATION TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.stock_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES woolwitch.products(id) ON DELETE CASCADE,
+  property_id text,
+  option_value text,
+  email text NOT NULL CHECK (email ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' AND char_length(email) <= 254),
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  consent_text text NOT NULL CHECK (char_length(btrim(consent_text)) BETWEEN 1 AND 500),
+  consented_at timestamptz DEFAULT now() NOT NULL,
+  notified_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  CHECK ((property_id IS NULL) = (option_value IS NULL))
+);
+
+-- One waiting request per email, product and option
+CREATE UNIQUE INDEX idx_stock_notifications_waiting
+  ON woolwitch.stock_notifications(product_id, lower(email), COALESCE(property_id, ''), COALESCE(option_value, ''))
+  WHERE notified_at IS NULL;
+
+CREATE INDEX idx_stock_notifications_email ON woolwitch.stock_notifications(lower(email), created_at);
+
+-- No customer policies: customers ask through the API function
+ALTER TABLE woolwitch.stock_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin stock notification access" ON woolwitch.stock_notifications
+  FOR SELECT TO authenticated
+  USING (woolwitch.is_admin());
+
+COMMENT ON TABLE woolwitch.stock_notifications IS 'Customers waiting to be emailed when a product can be bought again';
+COMMENT ON COLUMN woolwitch.stock_notifications.property_id IS 'Dropdown property the customer is waiting for an option of; NULL for the product as a whole';
+COMMENT ON COLUMN woolwitch.stock_notifications.option_value IS 'The dropdown option the customer is waiting for';
+COMMENT ON COLUMN woolwitch.stock_notifications.consent_text IS 'The wording the customer agreed to when asking to be emailed';
+COMMENT ON COLUMN woolwitch.stock_notifications.notified_at IS 'When the back in stock email was queued; each request is emailed once';
+
+-- ========================================
+-- STOCK NOTIFICATION EMAILS IN THE OUTBOX
+-- ========================================
+
+ALTER TABLE woolwitch.email_outbox
+  ADD COLUMN stock_notification_id uuid REFERENCES woolwitch.stock_notifications(id) ON DELETE CASCADE,
+  DROP CONSTRAINT email_outbox_subject_check,
+  ADD CONSTRAINT email_outbox_subject_check
+    CHECK (num_nonnulls(order_id, commission_request_id, stock_notification_id) = 1),
+  DROP CONSTRAINT email_outbox_template_check,
+  ADD CONSTRAINT email_outbox_template_check
+    CHECK (template IN (
+      'order_confirmation', 'payment_received', 'order_shipped', 'order_cancelled',
+      'commission_received', 'commission_quote', 'back_in_stock'
+    ));
+
+CREATE INDEX idx_email_outbox_stock_notification ON woolwitch.email_outbox(stock_notification_id)
+  WHERE stock_notification_id IS NOT NULL;
+
+COMMENT ON TABLE woolwitch.email_outbox IS 'Queued emails, drained by the send-order-emails edge function: one per order and template, or commission request and back in stock emails';
+COMMENT ON COLUMN woolwitch.email_outbox.stock_notification_id IS 'Set instead of order_id for back in stock emails';
+
+-- ========================================
+-- STOCK NOTIFICATION HELPERS
+-- ========================================
+
+-- Whether a product's dropdown property still offers an option
+CREATE OR REPLACE FUNCTION woolwitch.product_offers_option(
+  p_custom_properties jsonb,
+  p_property_id text,
+  p_option_value text
+)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(p_custom_properties->'properties', '[]'::jsonb)) p
+    WHERE p->>'id' = p_property_id
+    AND p->>'type' = 'dropdown'
+    AND COALESCE(p->'options', '[]'::jsonb) ? p_option_value
+  );
+$$ LANGUAGE sql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+CREATE OR REPLACE FUNCTION woolwitch.build_stock_notification_email_data(p_notification_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'id', n.id,
+    'email', n.email,
+    'product_id', p.id,
+    'product_name', p.name,
+    'image_url', p.image_url,
+    'option_label', (
+      SELECT prop->>'label'
+      FROM jsonb_array_elements(COALESCE(p.custom_properties->'properties', '[]'::jsonb)) prop
+      WHERE prop->>'id' = n.property_id
+    ),
+    'option_value', n.option_value,
+    'created_at', n.created_at
+  )
+  FROM woolwitch.stock_notifications n
+  JOIN woolwitch.products p ON p.id = n.product_id
+  WHERE n.id = p_notification_id;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Queues the back in stock emails when a product becomes buyable again
+CREATE OR REPLACE FUNCTION woolwitch.queue_stock_notifications()
+RETURNS trigger AS $$
+BEGIN
+  WITH due AS (
+    UPDATE woolwitch.stock_notifications n
+    SET notified_at = now()
+    WHERE n.product_id = NEW.id
+    AND n.notified_at IS NULL
+    AND (n.property_id IS NULL OR woolwitch.product_offers_option(NEW.custom_properties, n.property_id, n.option_value))
+    RETURNING n.id, n.email
+  )
+  INSERT INTO woolwitch.email_outbox (stock_notification_id, template, recipient)
+  SELECT due.id, 'back_in_stock', due.email
+  FROM due;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+DROP TRIGGER IF EXISTS queue_stock_notifications ON woolwitch.products;
+CREATE TRIGGER queue_stock_notifications
+  AFTER UPDATE OF is_available, stock_quantity ON woolwitch.products
+  FOR EACH ROW
+  WHEN (
+    NEW.is_available AND (NEW.stock_quantity IS NULL OR NEW.stock_quantity > 0)
+    AND (NOT OLD.is_available OR OLD.stock_quantity = 0)
+  )
+  EXECUTE FUNCTION woolwitch.queue_stock_notifications();
+
+-- ========================================
+-- SHOW SOLD OUT PRODUCTS
+-- ========================================
+
+-- Products switched off by selling out stay visible so customers can open
+-- them and ask to be told; the shop listing still shows available products
+-- only. Products an admin switched off stay hidden.
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  tax_class,
+  is_gift_card,
+  lead_time_days,
+  commission_request_id,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties
+FROM woolwitch.products
+WHERE is_available = true
+   OR (sold_out_at IS NOT NULL AND stock_quantity = 0)
+   OR woolwitch.is_admin();
+
+-- ========================================
+-- STOCK NOTIFICATION API
+-- ========================================
+
+-- Asking again for the same product and option is accepted and changes
+-- nothing, so the answer does not reveal who else is waiting
+DROP FUNCTION IF EXISTS woolwitch_api.request_stock_notification(uuid, text, text, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.request_stock_notification(
+  p_product_id uuid,
+  p_email text,
+  p_consent_text text,
+  p_property_id text DEFAULT NULL,
+  p_option_value text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_email text := lower(btrim(COALESCE(p_email, '')));
+  v_product woolwitch.products%ROWTYPE;
+BEGIN
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_consent_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please agree to be emailed about this item';
+  END IF;
+
+  SELECT * INTO v_product
+  FROM woolwitch.products p
+  WHERE p.id = p_product_id
+  AND p.commission_request_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF (p_property_id IS NULL) <> (p_option_value IS NULL) THEN
+    RAISE EXCEPTION 'Choose an option';
+  END IF;
+
+  IF p_property_id IS NOT NULL
+     AND NOT woolwitch.product_offers_option(v_product.custom_properties, p_property_id, p_option_value) THEN
+    RAISE EXCEPTION 'That option is not offered for this item';
+  END IF;
+
+  IF v_product.is_available AND (v_product.stock_quantity IS NULL OR v_product.stock_quantity > 0) THEN
+    RAISE EXCEPTION 'This item is in stock';
+  END IF;
+
+  -- At most 20 requests per email a day, and 200 overall an hour
+  IF (SELECT COUNT(*) FROM woolwitch.stock_notifications n
+      WHERE lower(n.email) = v_email AND n.created_at > now() - interval '1 day') >= 20
+     OR (SELECT COUNT(*) FROM woolwitch.stock_notifications n
+      WHERE n.created_at > now() - interval '1 hour') >= 200 THEN
+    RAISE EXCEPTION 'Too many requests. Please try again later.';
+  END IF;
+
+  INSERT INTO woolwitch.stock_notifications (
+    product_id,
+    property_id,
+    option_value,
+    email,
+    user_id,
+    consent_text
+  ) VALUES (
+    v_product.id,
+    p_property_id,
+    p_option_value,
+    v_email,
+    auth.uid(),
+    btrim(p_consent_text)
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- UPDATE EMAIL WORKFLOW - Back in stock emails
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.claim_order_emails(int) CASCADE;
+CREATE FUNCTION woolwitch_api.claim_order_emails(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  email_id uuid,
+  template text,
+  recipient text,
+  attempt int,
+  order_data jsonb,
+  commission_data jsonb,
+  stock_notification_data jsonb
+) AS $$
+BEGIN
+  -- Emails left 'sending' by a run that died are picked up again after 15 minutes
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE woolwitch.email_outbox e
+    SET status = 'sending',
+        attempts = e.attempts + 1,
+        updated_at = now()
+    WHERE e.id IN (
+      SELECT q.id
+      FROM woolwitch.email_outbox q
+      WHERE q.attempts < q.max_attempts
+      AND (
+        (q.status = 'pending' AND q.next_attempt_at <= now())
+        OR (q.status = 'sending' AND q.updated_at < now() - interval '15 minutes')
+      )
+      ORDER BY q.next_attempt_at
+      LIMIT LEAST(GREATEST(p_limit, 1), 100)
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING e.id, e.order_id, e.commission_request_id, e.stock_notification_id, e.template, e.recipient, e.attempts
+  )
+  SELECT
+    c.id,
+    c.template,
+    c.recipient,
+    c.attempts,
+    CASE WHEN c.order_id IS NOT NULL THEN woolwitch.build_order_email_data(c.order_id) END,
+    CASE WHEN c.commission_request_id IS NOT NULL THEN woolwitch.build_commission_email_data(c.commission_request_id) END,
+    CASE WHEN c.stock_notification_id IS NOT NULL THEN woolwitch.build_stock_notification_email_data(c.stock_notification_id) END
+  FROM claimed c;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_email_outbox(text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_email_outbox(
+  p_status text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  order_id uuid,
+  order_number text,
+  commission_request_id uuid,
+  stock_notification_id uuid,
+  product_name text,
+  template text,
+  recipient text,
+  status text,
+  attempts int,
+  max_attempts int,
+  next_attempt_at timestamptz,
+  last_error text,
+  sent_at timestamptz,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    e.id,
+    e.order_id,
+    o.order_number,
+    e.commission_request_id,
+    e.stock_notification_id,
+    p.name,
+    e.template,
+    e.recipient,
+    e.status,
+    e.attempts,
+    e.max_attempts,
+    e.next_attempt_at,
+    e.last_error,
+    e.sent_at,
+    e.created_at
+  FROM woolwitch.email_outbox e
+  LEFT JOIN woolwitch.orders o ON o.id = e.order_id
+  LEFT JOIN woolwitch.stock_notifications n ON n.id = e.stock_notification_id
+  LEFT JOIN woolwitch.products p ON p.id = n.product_id
+  WHERE (p_status IS NULL OR e.status = p_status)
+  ORDER BY e.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.stock_notifications TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.stock_notifications TO service_role, postgres;
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+
+REVOKE EXECUTE ON FUNCTION woolwitch.build_stock_notification_email_data(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.queue_stock_notifications() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.request_stock_notification(uuid, text, text, text, text) TO anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.claim_order_emails(int) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.claim_order_emails(int) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON VIEW woolwitch_api.products_view IS 'Public view of available and sold out products, including one-off commission pieces (filter on is_available and commission_request_id to list the shop)';
+COMMENT ON FUNCTION woolwitch.product_offers_option(jsonb, text, text) IS 'Whether a dropdown property in a product''s custom properties offers an option';
+COMMENT ON FUNCTION woolwitch.build_stock_notification_email_data(uuid) IS 'Stock notification request and its product as JSON for rendering back in stock emails';
+COMMENT ON FUNCTION woolwitch.queue_stock_notifications() IS 'Trigger: queues back in stock emails when a product becomes available and in stock again';
+COMMENT ON FUNCTION woolwitch_api.request_stock_notification(uuid, text, text, text, text) IS 'Ask to be emailed once when a sold out or unavailable product, or one of its options, can be bought again (rate limited)';
+COMMENT ON FUNCTION woolwitch_api.claim_order_emails(int) IS 'Claims due outbox emails for sending and returns their order, commission or stock notification render data (service role only)';
+COMMENT ON FUNCTION woolwitch_api.get_email_outbox(text, int, int) IS 'Outbox emails, newest first, optionally filtered by status (admin only)';
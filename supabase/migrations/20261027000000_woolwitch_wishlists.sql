@@ -0,0 +1,241 @@
+-- Customer wishlists
+-- Customers can save products they like:
+--   * woolwitch.wishlists      - a signed-in customer's wishlist, with the
+--                                token in its public share link
+--   * woolwitch.wishlist_items - the products saved on it
+--
+-- Guests keep their wishlist in the browser (localStorage); when they sign
+-- in it is added to their saved wishlist with add_to_wishlist. Anyone with
+-- a share link (?wishlist=<share_token>) can see the products on it but not
+-- whose it is. Products an admin has switched off are left out of shared
+-- wishlists, like products_view leaves them out of the shop.
+
+-- ========================================
+-- WISHLIST TABLES
+-- ========================================
+
+CREATE TABLE woolwitch.wishlists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  share_token text NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE woolwitch.wishlist_items (
+  wishlist_id uuid NOT NULL REFERENCES woolwitch.wishlists(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES woolwitch.products(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (wishlist_id, product_id)
+);
+
+CREATE INDEX idx_wishlist_items_product ON woolwitch.wishlist_items(product_id);
+
+CREATE TRIGGER update_wishlists_updated_at
+  BEFORE UPDATE ON woolwitch.wishlists
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.update_updated_at_column();
+
+ALTER TABLE woolwitch.wishlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE woolwitch.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+-- Only ever the customer's own wishlist; shared wishlists are read through
+-- get_shared_wishlist
+CREATE POLICY "Customer wishlist access" ON woolwitch.wishlists
+  FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Customer wishlist item access" ON woolwitch.wishlist_items
+  FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM woolwitch.wishlists w
+    WHERE w.id = wishlist_id
+    AND w.user_id = auth.uid()
+  ));
+
+COMMENT ON TABLE woolwitch.wishlists IS 'Signed-in customers'' wishlists, one each';
+COMMENT ON COLUMN woolwitch.wishlists.share_token IS 'Secret in the public share link; changing it turns off old links';
+COMMENT ON TABLE woolwitch.wishlist_items IS 'Products saved on a wishlist';
+
+-- ========================================
+-- WISHLIST HELPERS
+-- ========================================
+
+-- The customer's wishlist, created the first time it is needed
+DROP FUNCTION IF EXISTS woolwitch.ensure_wishlist(uuid) CASCADE;
+CREATE FUNCTION woolwitch.ensure_wishlist(p_user_id uuid)
+RETURNS uuid AS $$
+DECLARE
+  v_wishlist_id uuid;
+BEGIN
+  INSERT INTO woolwitch.wishlists (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT w.id INTO v_wishlist_id
+  FROM woolwitch.wishlists w
+  WHERE w.user_id = p_user_id;
+
+  RETURN v_wishlist_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- WISHLIST API
+-- ========================================
+
+-- Product ids only; the products themselves come from products_view
+DROP FUNCTION IF EXISTS woolwitch_api.get_wishlist() CASCADE;
+CREATE FUNCTION woolwitch_api.get_wishlist()
+RETURNS TABLE (
+  product_id uuid,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your wishlist';
+  END IF;
+
+  RETURN QUERY
+  SELECT i.product_id, i.created_at
+  FROM woolwitch.wishlist_items i
+  JOIN woolwitch.wishlists w ON w.id = i.wishlist_id
+  WHERE w.user_id = auth.uid()
+  ORDER BY i.created_at DESC;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Adds several products at once so a guest wishlist can be merged on sign
+-- in; products already saved, and products that no longer exist, are
+-- skipped
+DROP FUNCTION IF EXISTS woolwitch_api.add_to_wishlist(uuid[]) CASCADE;
+CREATE FUNCTION woolwitch_api.add_to_wishlist(p_product_ids uuid[])
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_wishlist_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your wishlist';
+  END IF;
+
+  v_wishlist_id := woolwitch.ensure_wishlist(v_user_id);
+
+  INSERT INTO woolwitch.wishlist_items (wishlist_id, product_id)
+  SELECT v_wishlist_id, p.id
+  FROM woolwitch.products p
+  WHERE p.id = ANY(COALESCE(p_product_ids, '{}'))
+  AND p.commission_request_id IS NULL
+  ON CONFLICT DO NOTHING;
+
+  IF (SELECT count(*) FROM woolwitch.wishlist_items i WHERE i.wishlist_id = v_wishlist_id) > 200 THEN
+    RAISE EXCEPTION 'You can save up to 200 items';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.remove_from_wishlist(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.remove_from_wishlist(p_product_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your wishlist';
+  END IF;
+
+  DELETE FROM woolwitch.wishlist_items i
+  USING woolwitch.wishlists w
+  WHERE w.id = i.wishlist_id
+  AND w.user_id = auth.uid()
+  AND i.product_id = p_product_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- The token for the customer's share link; p_reset issues a new one so
+-- links already shared stop working
+DROP FUNCTION IF EXISTS woolwitch_api.get_wishlist_share_token(boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.get_wishlist_share_token(p_reset boolean DEFAULT false)
+RETURNS text AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_wishlist_id uuid;
+  v_token text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to share your wishlist';
+  END IF;
+
+  v_wishlist_id := woolwitch.ensure_wishlist(v_user_id);
+
+  IF p_reset THEN
+    UPDATE woolwitch.wishlists
+    SET share_token = encode(extensions.gen_random_bytes(16), 'hex')
+    WHERE id = v_wishlist_id;
+  END IF;
+
+  SELECT w.share_token INTO v_token
+  FROM woolwitch.wishlists w
+  WHERE w.id = v_wishlist_id;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, extensions, auth, pg_catalog;
+
+-- No rows when the token does not match a wishlist
+DROP FUNCTION IF EXISTS woolwitch_api.get_shared_wishlist(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_shared_wishlist(p_token text)
+RETURNS TABLE (
+  product_id uuid,
+  created_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT i.product_id, i.created_at
+  FROM woolwitch.wishlists w
+  JOIN woolwitch.wishlist_items i ON i.wishlist_id = w.id
+  JOIN woolwitch.products p ON p.id = i.product_id
+  WHERE w.share_token = btrim(COALESCE(p_token, ''))
+  AND (p.is_available OR (p.sold_out_at IS NOT NULL AND p.stock_quantity = 0))
+  ORDER BY i.created_at DESC;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.wishlists TO authenticated;
+GRANT SELECT ON woolwitch.wishlist_items TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.wishlists TO service_role, postgres;
+GRANT ALL PRIVILEGES ON woolwitch.wishlist_items TO service_role, postgres;
+
+REVOKE ALL ON FUNCTION woolwitch.ensure_wishlist(uuid) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_wishlist() TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.add_to_wishlist(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.remove_from_wishlist(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_wishlist_share_token(boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_shared_wishlist(text) TO anon, authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.ensure_wishlist(uuid) IS 'The customer''s wishlist id, creating the wishlist if they have none';
+COMMENT ON FUNCTION woolwitch_api.get_wishlist() IS 'Products on the signed-in customer''s wishlist, newest first';
+COMMENT ON FUNCTION woolwitch_api.add_to_wishlist(uuid[]) IS 'Save products to the signed-in customer''s wishlist (up to 200); used to merge a guest wishlist on sign in';
+COMMENT ON FUNCTION woolwitch_api.remove_from_wishlist(uuid) IS 'Remove a product from the signed-in customer''s wishlist';
+COMMENT ON FUNCTION woolwitch_api.get_wishlist_share_token(boolean) IS 'The token for the signed-in customer''s public wishlist link, optionally replaced with a new one';
+COMMENT ON FUNCTION woolwitch_api.get_shared_wishlist(text) IS 'Products on the wishlist with a share token, leaving out products the shop has switched off';
@@ -0,0 +1,578 @@
+-- Product reviews and ratings
+-- Customers can review products they have received:
+--   * woolwitch.product_reviews - a star rating (1-5), what they thought and
+--                                 up to 3 photos in the review-images bucket
+--
+-- Only signed-in customers with a delivered order containing the product can
+-- review it, once per product; reviewing again replaces their review. The
+-- review shows the delivered order as a verified purchase and the customer's
+-- first name and last initial from it, never their email.
+--
+-- Workflow (status):
+--   pending  - submitted or edited; waiting for an admin
+--   approved - shown on the product page and counted in its rating
+--   rejected - hidden; the customer can edit it and submit it again
+--
+-- Each product carries the average and count of its approved reviews
+-- (products.rating_average, products.rating_count), kept up to date by a
+-- trigger, so products_view and get_products can show and sort by rating.
+
+-- ========================================
+-- PRODUCT REVIEW TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.product_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES woolwitch.products(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES woolwitch.orders(id) ON DELETE SET NULL,
+  reviewer_name text NOT NULL CHECK (char_length(reviewer_name) BETWEEN 1 AND 100),
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body text NOT NULL CHECK (char_length(btrim(body)) BETWEEN 10 AND 2000),
+  images text[] NOT NULL DEFAULT '{}' CHECK (cardinality(images) <= 3),
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  moderated_at timestamptz,
+  moderated_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (product_id, user_id)
+);
+
+CREATE INDEX idx_product_reviews_product ON woolwitch.product_reviews(product_id, created_at DESC)
+  WHERE status = 'approved';
+CREATE INDEX idx_product_reviews_status ON woolwitch.product_reviews(status, created_at);
+
+CREATE TRIGGER update_product_reviews_updated_at
+  BEFORE UPDATE ON woolwitch.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.update_updated_at_column();
+
+-- No customer policies: reviews are written and read through the API
+-- functions, which check the purchase and hide unapproved reviews
+ALTER TABLE woolwitch.product_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin product review access" ON woolwitch.product_reviews
+  FOR SELECT TO authenticated
+  USING (woolwitch.is_admin());
+
+ALTER TABLE woolwitch.products
+  ADD COLUMN rating_average numeric(2, 1),
+  ADD COLUMN rating_count integer NOT NULL DEFAULT 0;
+
+COMMENT ON TABLE woolwitch.product_reviews IS 'Customer reviews of products they have received, moderated before they are shown';
+COMMENT ON COLUMN woolwitch.product_reviews.order_id IS 'Delivered order the product was bought on (the verified purchase)';
+COMMENT ON COLUMN woolwitch.product_reviews.reviewer_name IS 'Name shown with the review: first name and last initial from the order';
+COMMENT ON COLUMN woolwitch.product_reviews.images IS 'Object paths in the review-images storage bucket';
+COMMENT ON COLUMN woolwitch.products.rating_average IS 'Average approved review rating, to one decimal place; NULL with no approved reviews';
+COMMENT ON COLUMN woolwitch.products.rating_count IS 'Number of approved reviews';
+
+-- ========================================
+-- REVIEW IMAGE STORAGE
+-- ========================================
+
+-- Public so photos can be shown by URL, but the bucket cannot be listed and
+-- file names are random UUIDs. Photos are compressed in the browser to 50KB
+-- like product images. Uploads are limited to the uploader's own folder in
+-- 20261110000000_woolwitch_review_image_uploads.sql.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'review-images',
+  'review-images',
+  true,
+  51200,
+  '{"image/jpeg","image/jpg","image/png","image/webp","image/gif"}'
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Upload review images" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'review-images'
+    AND name ~ '^[0-9a-f-]{36}\.(jpe?g|png|webp|gif)$'
+  );
+
+CREATE POLICY "Admin manage review images" ON storage.objects
+  FOR ALL TO authenticated
+  USING (bucket_id = 'review-images' AND woolwitch.is_admin())
+  WITH CHECK (bucket_id = 'review-images' AND woolwitch.is_admin());
+
+-- ========================================
+-- PRODUCT RATINGS
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch.refresh_product_rating(uuid) CASCADE;
+CREATE FUNCTION woolwitch.refresh_product_rating(p_product_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE woolwitch.products p
+  SET rating_average = r.average,
+      rating_count = r.count
+  FROM (
+    SELECT round(avg(pr.rating), 1) AS average, count(*)::integer AS count
+    FROM woolwitch.product_reviews pr
+    WHERE pr.product_id = p_product_id
+    AND pr.status = 'approved'
+  ) r
+  WHERE p.id = p_product_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch.update_product_rating() CASCADE;
+CREATE FUNCTION woolwitch.update_product_rating()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM woolwitch.refresh_product_rating(OLD.product_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.product_id IS DISTINCT FROM OLD.product_id) THEN
+    PERFORM woolwitch.refresh_product_rating(NEW.product_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+CREATE TRIGGER update_product_rating
+  AFTER INSERT OR UPDATE OF status, rating, product_id OR DELETE ON woolwitch.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION woolwitch.update_product_rating();
+
+-- "Jane Smith" -> "Jane S."
+DROP FUNCTION IF EXISTS woolwitch.review_display_name(text) CASCADE;
+CREATE FUNCTION woolwitch.review_display_name(p_full_name text)
+RETURNS text AS $$
+DECLARE
+  v_words text[] := regexp_split_to_array(btrim(COALESCE(p_full_name, '')), '\s+');
+BEGIN
+  IF v_words[1] IS NULL OR v_words[1] = '' THEN
+    RETURN 'Customer';
+  END IF;
+
+  IF cardinality(v_words) = 1 THEN
+    RETURN left(v_words[1], 50);
+  END IF;
+
+  RETURN left(v_words[1], 50) || ' ' || upper(left(v_words[cardinality(v_words)], 1)) || '.';
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = pg_catalog;
+
+-- ========================================
+-- PRODUCTS WITH RATINGS
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  tax_class,
+  is_gift_card,
+  lead_time_days,
+  commission_request_id,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties,
+  rating_average,
+  rating_count
+FROM woolwitch.products
+WHERE is_available = true
+   OR (sold_out_at IS NOT NULL AND stock_quantity = 0)
+   OR woolwitch.is_admin();
+
+-- p_sort: NULL for the shop's own order, 'rating' for best rated first
+DROP FUNCTION IF EXISTS woolwitch_api.get_products(text, text, int, int) CASCADE;
+DROP FUNCTION IF EXISTS woolwitch_api.get_products(text, text, int, int, text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products(
+  p_category text DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0,
+  p_sort text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb,
+  rating_average numeric,
+  rating_count integer
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_sort IS NOT NULL AND p_sort NOT IN ('rating') THEN
+    RAISE EXCEPTION 'Unknown sort order: %', p_sort;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties,
+    p.rating_average,
+    p.rating_count
+  FROM woolwitch.products p
+  WHERE
+    p.commission_request_id IS NULL
+    AND (p_category IS NULL OR p.category = p_category)
+    AND (p_search IS NULL OR
+         p.name ILIKE '%' || p_search || '%' OR
+         p.description ILIKE '%' || p_search || '%' OR
+         p.category ILIKE '%' || p_search || '%')
+  ORDER BY
+    CASE WHEN p_sort = 'rating' THEN p.rating_average END DESC NULLS LAST,
+    CASE WHEN p_sort = 'rating' THEN p.rating_count END DESC,
+    p.sort_order ASC,
+    p.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- ========================================
+-- REVIEW API: CUSTOMERS
+-- ========================================
+
+-- Approved reviews only, newest first
+DROP FUNCTION IF EXISTS woolwitch_api.get_product_reviews(uuid, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_product_reviews(
+  p_product_id uuid,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  reviewer_name text,
+  rating smallint,
+  body text,
+  images text[],
+  verified_purchase boolean,
+  created_at timestamptz
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.reviewer_name,
+    r.rating,
+    r.body,
+    r.images,
+    r.order_id IS NOT NULL,
+    r.created_at
+  FROM woolwitch.product_reviews r
+  WHERE r.product_id = p_product_id
+  AND r.status = 'approved'
+  ORDER BY r.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- Always one row: whether the signed-in customer can review the product and
+-- their review of it if they have written one
+DROP FUNCTION IF EXISTS woolwitch_api.get_my_product_review(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_my_product_review(p_product_id uuid)
+RETURNS TABLE (
+  can_review boolean,
+  id uuid,
+  rating smallint,
+  body text,
+  images text[],
+  status text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to review products';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    EXISTS (
+      SELECT 1
+      FROM woolwitch.orders o
+      JOIN woolwitch.order_items oi ON oi.order_id = o.id
+      WHERE o.user_id = auth.uid()
+      AND o.status = 'delivered'
+      AND oi.product_id = p_product_id
+    ),
+    r.id,
+    r.rating,
+    r.body,
+    r.images,
+    r.status,
+    r.created_at
+  FROM (SELECT 1) AS one
+  LEFT JOIN woolwitch.product_reviews r
+    ON r.product_id = p_product_id
+    AND r.user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- Photos must already be uploaded to the review-images bucket. Reviewing a
+-- product again replaces the review and sends it back for moderation.
+DROP FUNCTION IF EXISTS woolwitch_api.submit_product_review(uuid, integer, text, text[]) CASCADE;
+CREATE FUNCTION woolwitch_api.submit_product_review(
+  p_product_id uuid,
+  p_rating integer,
+  p_body text,
+  p_images text[] DEFAULT '{}'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_images text[] := COALESCE(p_images, '{}');
+  v_order record;
+  v_review_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to review products';
+  END IF;
+
+  SELECT o.id, o.full_name INTO v_order
+  FROM woolwitch.orders o
+  JOIN woolwitch.order_items oi ON oi.order_id = o.id
+  WHERE o.user_id = v_user_id
+  AND o.status = 'delivered'
+  AND oi.product_id = p_product_id
+  ORDER BY o.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can review products once your order has been delivered';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Choose a rating from 1 to 5 stars';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_body, ''))) NOT BETWEEN 10 AND 2000 THEN
+    RAISE EXCEPTION 'Reviews must be between 10 and 2000 characters';
+  END IF;
+
+  IF cardinality(v_images) > 3 THEN
+    RAISE EXCEPTION 'You can add up to 3 photos';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_images) AS i(path)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'review-images'
+      AND o.name = i.path
+    )
+  ) THEN
+    RAISE EXCEPTION 'A photo failed to upload. Please add it again.';
+  END IF;
+
+  INSERT INTO woolwitch.product_reviews (
+    product_id,
+    user_id,
+    order_id,
+    reviewer_name,
+    rating,
+    body,
+    images
+  ) VALUES (
+    p_product_id,
+    v_user_id,
+    v_order.id,
+    woolwitch.review_display_name(v_order.full_name),
+    p_rating,
+    btrim(p_body),
+    v_images
+  )
+  ON CONFLICT (product_id, user_id) DO UPDATE
+  SET order_id = EXCLUDED.order_id,
+      reviewer_name = EXCLUDED.reviewer_name,
+      rating = EXCLUDED.rating,
+      body = EXCLUDED.body,
+      images = EXCLUDED.images,
+      status = 'pending',
+      moderated_at = NULL,
+      moderated_by = NULL
+  RETURNING product_reviews.id INTO v_review_id;
+
+  RETURN v_review_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- REVIEW API: ADMIN
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_review_queue(text, int, int) CASCADE;
+CREATE FUNCTION woolwitch_api.get_review_queue(
+  p_status text DEFAULT 'pending',
+  p_limit int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  product_id uuid,
+  product_name text,
+  reviewer_name text,
+  email text,
+  order_number text,
+  rating smallint,
+  body text,
+  images text[],
+  status text,
+  moderated_at timestamptz,
+  created_at timestamptz,
+  updated_at timestamptz
+) AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.product_id,
+    p.name,
+    r.reviewer_name,
+    o.email,
+    o.order_number,
+    r.rating,
+    r.body,
+    r.images,
+    r.status,
+    r.moderated_at,
+    r.created_at,
+    r.updated_at
+  FROM woolwitch.product_reviews r
+  JOIN woolwitch.products p ON p.id = r.product_id
+  LEFT JOIN woolwitch.orders o ON o.id = r.order_id
+  WHERE (p_status IS NULL OR r.status = p_status)
+  -- Oldest first while waiting, so nothing waits forever
+  ORDER BY
+    CASE WHEN p_status = 'pending' THEN r.updated_at END ASC,
+    r.updated_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+DROP FUNCTION IF EXISTS woolwitch_api.moderate_product_review(uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.moderate_product_review(
+  p_review_id uuid,
+  p_status text
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT woolwitch.is_admin() THEN
+    RAISE EXCEPTION 'Admin access required';
+  END IF;
+
+  IF p_status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Reviews can only be approved or rejected';
+  END IF;
+
+  UPDATE woolwitch.product_reviews
+  SET status = p_status,
+      moderated_at = now(),
+      moderated_by = auth.uid()
+  WHERE id = p_review_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch.product_reviews TO authenticated;
+GRANT ALL PRIVILEGES ON woolwitch.product_reviews TO service_role, postgres;
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+
+REVOKE ALL ON FUNCTION woolwitch.refresh_product_rating(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION woolwitch.update_product_rating() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products(text, text, int, int, text) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_product_reviews(uuid, int, int) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_my_product_review(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.submit_product_review(uuid, integer, text, text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_review_queue(text, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.moderate_product_review(uuid, text) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON VIEW woolwitch_api.products_view IS 'Public view of available and sold out products with their ratings, including one-off commission pieces (filter on is_available and commission_request_id to list the shop)';
+COMMENT ON FUNCTION woolwitch_api.get_products(text, text, int, int, text) IS 'Get shop products with optional filtering, in the shop''s order or best rated first; commission pieces are left out';
+COMMENT ON FUNCTION woolwitch.refresh_product_rating(uuid) IS 'Recalculate a product''s rating from its approved reviews';
+COMMENT ON FUNCTION woolwitch.update_product_rating() IS 'Keeps products.rating_average and rating_count in step with approved reviews';
+COMMENT ON FUNCTION woolwitch.review_display_name(text) IS 'First name and last initial shown with a review';
+COMMENT ON FUNCTION woolwitch_api.get_product_reviews(uuid, int, int) IS 'Approved reviews of a product, newest first';
+COMMENT ON FUNCTION woolwitch_api.get_my_product_review(uuid) IS 'Whether the signed-in customer can review a product (they have a delivered order containing it) and their review of it';
+COMMENT ON FUNCTION woolwitch_api.submit_product_review(uuid, integer, text, text[]) IS 'Write or replace the signed-in customer''s review of a product they have received; it waits for moderation';
+COMMENT ON FUNCTION woolwitch_api.get_review_queue(text, int, int) IS 'Reviews for moderation, oldest first while pending (admin only)';
+COMMENT ON FUNCTION woolwitch_api.moderate_product_review(uuid, text) IS 'Approve or reject a review (admin only)';
@@ -0,0 +1,391 @@
+-- Per-option stock for dropdown variants
+-- A dropdown can now count stock for each of its options, so two red
+-- scarves and no blue ones can be said:
+--   * custom_properties optionStock - map of option label to units in
+--                                     stock; options left out of the map
+--                                     are not tracked
+--
+-- create_order takes option stock alongside product stock in
+-- reserve_order_stock (shortages are raised as WWS01 with the option named)
+-- and cancelling an order puts it back from the order item snapshot. An
+-- option that sells out stays listed but cannot be chosen; the product
+-- itself stays available as long as its own stock allows.
+--
+-- Customers can ask to be told when a sold out option is back even while
+-- the product is in stock, and are emailed once the option has stock again.
+
+-- ========================================
+-- OPTION STOCK HELPERS
+-- ========================================
+
+-- Units in stock for a dropdown option; NULL when the option is not tracked
+CREATE OR REPLACE FUNCTION woolwitch.get_option_stock(
+  p_custom_properties jsonb,
+  p_property_id text,
+  p_option_value text
+)
+RETURNS integer AS $$
+  SELECT (p->'optionStock'->>p_option_value)::integer
+  FROM jsonb_array_elements(COALESCE(p_custom_properties->'properties', '[]'::jsonb)) p
+  WHERE p->>'id' = p_property_id
+  AND p->>'type' = 'dropdown'
+  AND jsonb_typeof(p->'optionStock') = 'object'
+  LIMIT 1;
+$$ LANGUAGE sql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Returns the custom properties with a tracked option's stock moved by
+-- p_delta (never below zero); untracked options are left as they are
+CREATE OR REPLACE FUNCTION woolwitch.adjust_option_stock(
+  p_custom_properties jsonb,
+  p_property_id text,
+  p_option_value text,
+  p_delta integer
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_properties jsonb;
+BEGIN
+  IF woolwitch.get_option_stock(p_custom_properties, p_property_id, p_option_value) IS NULL THEN
+    RETURN p_custom_properties;
+  END IF;
+
+  SELECT jsonb_agg(
+    CASE
+      WHEN p->>'id' = p_property_id AND p->>'type' = 'dropdown' THEN
+        jsonb_set(
+          p,
+          ARRAY['optionStock', p_option_value],
+          to_jsonb(GREATEST((p->'optionStock'->>p_option_value)::integer + p_delta, 0))
+        )
+      ELSE p
+    END
+    ORDER BY t.ord
+  )
+  INTO v_properties
+  FROM jsonb_array_elements(p_custom_properties->'properties') WITH ORDINALITY AS t(p, ord);
+
+  RETURN jsonb_set(p_custom_properties, '{properties}', v_properties);
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE STOCK RESERVATION - Option stock
+-- ========================================
+
+-- Lock, check and decrement stock for a set of order items.
+-- Raises SQLSTATE WWS01 with a JSON array of shortages in DETAIL:
+--   [{ "product_id": "...", "product_name": "...", "option": "Colour: Blue", "requested": 2, "available": 1 }]
+-- "option" is only present for option shortages.
+CREATE OR REPLACE FUNCTION woolwitch.reserve_order_stock(p_order_items jsonb)
+RETURNS void AS $$
+DECLARE
+  v_line record;
+  v_stock integer;
+  v_shortages jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  FOR v_line IN
+    SELECT
+      (i->>'product_id')::uuid AS product_id,
+      MIN(i->>'product_name') AS product_name,
+      SUM((i->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_order_items) i
+    GROUP BY (i->>'product_id')::uuid
+    ORDER BY (i->>'product_id')::uuid
+  LOOP
+    SELECT stock_quantity INTO v_stock
+    FROM woolwitch.products
+    WHERE id = v_line.product_id
+    FOR UPDATE;
+
+    IF v_stock IS NOT NULL AND v_stock < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_array(jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.product_name,
+        'requested', v_line.quantity,
+        'available', v_stock
+      ));
+    END IF;
+  END LOOP;
+
+  -- Option stock, per product, dropdown and chosen option (rows are locked above)
+  FOR v_line IN
+    SELECT
+      l.product_id,
+      MIN(l.product_name) AS product_name,
+      l.property_id,
+      l.option_value,
+      SUM(l.quantity) AS quantity,
+      woolwitch.get_option_stock(p.custom_properties, l.property_id, l.option_value) AS available,
+      (
+        SELECT prop->>'label'
+        FROM jsonb_array_elements(COALESCE(p.custom_properties->'properties', '[]'::jsonb)) prop
+        WHERE prop->>'id' = l.property_id
+        LIMIT 1
+      ) AS property_label
+    FROM (
+      SELECT
+        (i->>'product_id')::uuid AS product_id,
+        i->>'product_name' AS product_name,
+        s->>'propertyId' AS property_id,
+        s->>'value' AS option_value,
+        (i->>'quantity')::integer AS quantity
+      FROM jsonb_array_elements(p_order_items) i
+      CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(i->'custom_selections') = 'array' THEN i->'custom_selections' ELSE '[]'::jsonb END
+      ) s
+    ) l
+    JOIN woolwitch.products p ON p.id = l.product_id
+    GROUP BY l.product_id, l.property_id, l.option_value, p.custom_properties
+  LOOP
+    IF v_line.available IS NOT NULL AND v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_array(jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.product_name,
+        'option', v_line.property_label || ': ' || v_line.option_value,
+        'requested', v_line.quantity,
+        'available', v_line.available
+      ));
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for % item(s)', jsonb_array_length(v_shortages)
+      USING ERRCODE = 'WWS01',
+            DETAIL = v_shortages::text,
+            HINT = 'insufficient_stock';
+  END IF;
+
+  UPDATE woolwitch.products p
+  SET stock_quantity = p.stock_quantity - l.quantity,
+      is_available = CASE WHEN p.stock_quantity - l.quantity = 0 THEN false ELSE p.is_available END,
+      sold_out_at = CASE WHEN p.stock_quantity - l.quantity = 0 THEN now() ELSE p.sold_out_at END
+  FROM (
+    SELECT (i->>'product_id')::uuid AS product_id, SUM((i->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_order_items) i
+    GROUP BY (i->>'product_id')::uuid
+  ) l
+  WHERE p.id = l.product_id
+    AND p.stock_quantity IS NOT NULL;
+
+  FOR v_line IN
+    SELECT
+      (i->>'product_id')::uuid AS product_id,
+      s->>'propertyId' AS property_id,
+      s->>'value' AS option_value,
+      SUM((i->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_order_items) i
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(i->'custom_selections') = 'array' THEN i->'custom_selections' ELSE '[]'::jsonb END
+    ) s
+    GROUP BY (i->>'product_id')::uuid, s->>'propertyId', s->>'value'
+  LOOP
+    UPDATE woolwitch.products
+    SET custom_properties = woolwitch.adjust_option_stock(custom_properties, v_line.property_id, v_line.option_value, -v_line.quantity)
+    WHERE id = v_line.product_id
+    AND woolwitch.get_option_stock(custom_properties, v_line.property_id, v_line.option_value) IS NOT NULL;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- Put back the stock held by an order. Products that were switched off by a
+-- sale are made available again; products an admin switched off stay off.
+-- Option stock comes back for options that are still tracked.
+CREATE OR REPLACE FUNCTION woolwitch.release_order_stock(p_order_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_line record;
+BEGIN
+  UPDATE woolwitch.products p
+  SET stock_quantity = p.stock_quantity + l.quantity,
+      is_available = CASE WHEN p.sold_out_at IS NOT NULL THEN true ELSE p.is_available END,
+      sold_out_at = NULL
+  FROM (
+    SELECT oi.product_id, SUM(oi.quantity) AS quantity
+    FROM woolwitch.order_items oi
+    WHERE oi.order_id = p_order_id
+      AND oi.product_id IS NOT NULL
+    GROUP BY oi.product_id
+  ) l
+  WHERE p.id = l.product_id
+    AND p.stock_quantity IS NOT NULL;
+
+  FOR v_line IN
+    SELECT
+      oi.product_id,
+      s->>'propertyId' AS property_id,
+      s->>'value' AS option_value,
+      SUM(oi.quantity) AS quantity
+    FROM woolwitch.order_items oi
+    CROSS JOIN LATERAL jsonb_array_elements(
+      CASE WHEN jsonb_typeof(oi.custom_selections) = 'array' THEN oi.custom_selections ELSE '[]'::jsonb END
+    ) s
+    WHERE oi.order_id = p_order_id
+      AND oi.product_id IS NOT NULL
+    GROUP BY oi.product_id, s->>'propertyId', s->>'value'
+  LOOP
+    UPDATE woolwitch.products
+    SET custom_properties = woolwitch.adjust_option_stock(custom_properties, v_line.property_id, v_line.option_value, v_line.quantity)
+    WHERE id = v_line.product_id
+    AND woolwitch.get_option_stock(custom_properties, v_line.property_id, v_line.option_value) IS NOT NULL;
+  END LOOP;
+
+  UPDATE woolwitch.orders
+  SET stock_reserved = false
+  WHERE id = p_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE STOCK NOTIFICATIONS - Sold out options
+-- ========================================
+
+-- Requests for an option wait while that option is sold out, even when the
+-- rest of the product can be bought
+CREATE OR REPLACE FUNCTION woolwitch.queue_stock_notifications()
+RETURNS trigger AS $$
+BEGIN
+  WITH due AS (
+    UPDATE woolwitch.stock_notifications n
+    SET notified_at = now()
+    WHERE n.product_id = NEW.id
+    AND n.notified_at IS NULL
+    AND (
+      n.property_id IS NULL
+      OR (
+        woolwitch.product_offers_option(NEW.custom_properties, n.property_id, n.option_value)
+        AND COALESCE(woolwitch.get_option_stock(NEW.custom_properties, n.property_id, n.option_value), 1) > 0
+      )
+    )
+    RETURNING n.id, n.email
+  )
+  INSERT INTO woolwitch.email_outbox (stock_notification_id, template, recipient)
+  SELECT due.id, 'back_in_stock', due.email
+  FROM due;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- Also runs when the options change on a buyable product, which is when a
+-- sold out option is restocked
+DROP TRIGGER IF EXISTS queue_stock_notifications ON woolwitch.products;
+CREATE TRIGGER queue_stock_notifications
+  AFTER UPDATE OF is_available, stock_quantity, custom_properties ON woolwitch.products
+  FOR EACH ROW
+  WHEN (
+    NEW.is_available AND (NEW.stock_quantity IS NULL OR NEW.stock_quantity > 0)
+    AND (
+      NOT OLD.is_available OR OLD.stock_quantity = 0
+      OR NEW.custom_properties IS DISTINCT FROM OLD.custom_properties
+    )
+  )
+  EXECUTE FUNCTION woolwitch.queue_stock_notifications();
+
+DROP FUNCTION IF EXISTS woolwitch_api.request_stock_notification(uuid, text, text, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.request_stock_notification(
+  p_product_id uuid,
+  p_email text,
+  p_consent_text text,
+  p_property_id text DEFAULT NULL,
+  p_option_value text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_email text := lower(btrim(COALESCE(p_email, '')));
+  v_product woolwitch.products%ROWTYPE;
+BEGIN
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_consent_text, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please agree to be emailed about this item';
+  END IF;
+
+  SELECT * INTO v_product
+  FROM woolwitch.products p
+  WHERE p.id = p_product_id
+  AND p.commission_request_id IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF (p_property_id IS NULL) <> (p_option_value IS NULL) THEN
+    RAISE EXCEPTION 'Choose an option';
+  END IF;
+
+  IF p_property_id IS NOT NULL
+     AND NOT woolwitch.product_offers_option(v_product.custom_properties, p_property_id, p_option_value) THEN
+    RAISE EXCEPTION 'That option is not offered for this item';
+  END IF;
+
+  IF v_product.is_available AND (v_product.stock_quantity IS NULL OR v_product.stock_quantity > 0)
+     AND COALESCE(woolwitch.get_option_stock(v_product.custom_properties, p_property_id, p_option_value), 1) > 0 THEN
+    RAISE EXCEPTION 'This item is in stock';
+  END IF;
+
+  -- At most 20 requests per email a day, and 200 overall an hour
+  IF (SELECT COUNT(*) FROM woolwitch.stock_notifications n
+      WHERE lower(n.email) = v_email AND n.created_at > now() - interval '1 day') >= 20
+     OR (SELECT COUNT(*) FROM woolwitch.stock_notifications n
+      WHERE n.created_at > now() - interval '1 hour') >= 200 THEN
+    RAISE EXCEPTION 'Too many requests. Please try again later.';
+  END IF;
+
+  INSERT INTO woolwitch.stock_notifications (
+    product_id,
+    property_id,
+    option_value,
+    email,
+    user_id,
+    consent_text
+  ) VALUES (
+    v_product.id,
+    p_property_id,
+    p_option_value,
+    v_email,
+    auth.uid(),
+    btrim(p_consent_text)
+  )
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE EXECUTE ON FUNCTION woolwitch.adjust_option_stock(jsonb, text, text, integer) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.reserve_order_stock(jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.release_order_stock(uuid) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.queue_stock_notifications() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION woolwitch.adjust_option_stock(jsonb, text, text, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch.reserve_order_stock(jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch.release_order_stock(uuid) TO service_role;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.request_stock_notification(uuid, text, text, text, text) TO anon, authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.get_option_stock(jsonb, text, text) IS 'Units in stock for a dropdown option, or NULL when the option does not track stock';
+COMMENT ON FUNCTION woolwitch.adjust_option_stock(jsonb, text, text, integer) IS 'Custom properties with a tracked option''s stock moved by a delta, never below zero';
+COMMENT ON FUNCTION woolwitch.reserve_order_stock(jsonb) IS 'Locks products, raises WWS01 (insufficient_stock) on product or option shortages and decrements tracked stock';
+COMMENT ON FUNCTION woolwitch.release_order_stock(uuid) IS 'Restores product and option stock held by an order and re-enables products that sold out';
+COMMENT ON FUNCTION woolwitch.queue_stock_notifications() IS 'Trigger: queues back in stock emails when a product, or a sold out option of it, can be bought again';
+COMMENT ON FUNCTION woolwitch_api.request_stock_notification(uuid, text, text, text, text) IS 'Ask to be emailed once when a sold out or unavailable product, or a sold out option of it, can be bought again (rate limited)';
@@ -0,0 +1,938 @@
+-- Commission access
+-- Quoted commission pieces could be bought by anyone who knew the product
+-- id, and before the quote was accepted or after it expired. Now:
+--   * quote_order and create_order reject a commission piece unless its
+--     request is accepted, the quote has not expired and the order line
+--     carries the request's access token (commission_token), which the
+--     quote page puts on the cart line
+--   * link_commission_order only marks a request ordered from 'accepted',
+--     for the order create_order checked it for
+--   * get_product_by_id and get_products_by_ids no longer return commission
+--     pieces to customers; the quote page reads its piece with
+--     get_commission_product(token)
+--   * the commission-images bucket is private. Customers upload through a
+--     signed upload URL from the commission-upload-url edge function
+--     (rate limited per IP by reserve_commission_upload) and admins view
+--     images through signed URLs
+
+-- ========================================
+-- COMMISSION PURCHASE CHECKS
+-- ========================================
+
+-- Checks every commission piece in a set of order items against its
+-- request and returns the ids of the requests being bought. Tokens are
+-- compared by hash so the comparison does not depend on where they differ.
+CREATE OR REPLACE FUNCTION woolwitch.verify_commission_items(p_order_items jsonb)
+RETURNS uuid[] AS $$
+DECLARE
+  v_line record;
+  v_request_ids uuid[] := '{}';
+BEGIN
+  FOR v_line IN
+    SELECT
+      c.id,
+      c.status,
+      c.quote_expires_at,
+      c.access_token,
+      i->>'commission_token' AS token
+    FROM jsonb_array_elements(p_order_items) i
+    JOIN woolwitch.products p ON p.id = (i->>'product_id')::uuid
+    JOIN woolwitch.commission_requests c ON c.id = p.commission_request_id
+  LOOP
+    IF v_line.token IS NULL
+       OR extensions.digest(v_line.token, 'sha256') <> extensions.digest(v_line.access_token, 'sha256') THEN
+      RAISE EXCEPTION 'Commission pieces can only be bought from their quote link';
+    END IF;
+
+    IF v_line.status <> 'accepted' THEN
+      RAISE EXCEPTION 'Please accept the quote before checking out';
+    END IF;
+
+    IF v_line.quote_expires_at < now() THEN
+      RAISE EXCEPTION 'This quote has expired. Please get in touch and we will send you a new one.';
+    END IF;
+
+    v_request_ids := v_request_ids || v_line.id;
+  END LOOP;
+
+  RETURN v_request_ids;
+END;
+$$ LANGUAGE plpgsql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- Marks a commission ordered when its quoted piece is bought through
+-- create_order, which lists the requests it checked in the
+-- woolwitch.commission_request_ids setting for the length of the insert.
+CREATE OR REPLACE FUNCTION woolwitch.link_commission_order()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE woolwitch.commission_requests c
+  SET status = 'ordered',
+      order_id = NEW.order_id
+  FROM woolwitch.products p
+  WHERE p.id = NEW.product_id
+  AND c.id = p.commission_request_id
+  AND c.status = 'accepted'
+  AND c.id::text = ANY(string_to_array(NULLIF(current_setting('woolwitch.commission_request_ids', true), ''), ','));
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE quote_order - Commission pieces
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.quote_order(jsonb, jsonb, text, text, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_wrap boolean DEFAULT false
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  discount_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  items jsonb
+) AS $$
+DECLARE
+  v_settings woolwitch.tax_settings%ROWTYPE;
+  v_gift_options woolwitch.gift_options%ROWTYPE;
+  v_country text := upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+  v_currency text;
+  v_rate numeric;
+  v_discount woolwitch.discount_codes%ROWTYPE;
+  v_item jsonb;
+  v_line jsonb;
+  v_index integer := 0;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_line_amount numeric;
+  v_eligible boolean;
+  v_line_discount numeric;
+  v_delivery numeric;
+  v_tax_rate numeric;
+  v_tax numeric;
+  v_base_subtotal numeric := 0;
+  v_eligible_subtotal numeric := 0;
+  v_last_eligible integer;
+  v_fixed_amount numeric := 0;
+  v_fixed_remaining numeric := 0;
+  v_base_delivery_total numeric;
+  v_delivery_discount numeric := 0;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_gift_wrap_total numeric := 0;
+  v_discount_total numeric := 0;
+  v_tax_total numeric := 0;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Commission pieces are only sold to the holder of an accepted quote
+  PERFORM woolwitch.verify_commission_items(p_order_items);
+
+  SELECT * INTO v_settings FROM woolwitch.tax_settings;
+  v_settings.prices_include_tax := COALESCE(v_settings.prices_include_tax, true);
+  v_settings.delivery_tax_class := COALESCE(v_settings.delivery_tax_class, 'standard');
+
+  -- Without a currency the order is priced in the base currency
+  SELECT upper(COALESCE(NULLIF(btrim(p_currency), ''), s.base_currency)) INTO v_currency
+  FROM woolwitch.currency_settings s;
+  v_currency := COALESCE(v_currency, 'GBP');
+  v_rate := woolwitch.exchange_rate_for(v_currency);
+
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    v_discount := woolwitch.discount_code_for(p_discount_code);
+  END IF;
+
+  IF p_gift_wrap THEN
+    SELECT * INTO v_gift_options FROM woolwitch.gift_options;
+
+    IF NOT COALESCE(v_gift_options.gift_wrap_enabled, false) THEN
+      RAISE EXCEPTION 'Gift wrapping is not available';
+    END IF;
+  END IF;
+
+  -- Price each line in the base currency
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+    v_eligible := v_discount.id IS NOT NULL
+      AND woolwitch.discount_applies_to(v_discount, v_product.id, v_product.category);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_base_subtotal := v_base_subtotal + v_unit_price * v_quantity;
+    IF v_eligible THEN
+      v_eligible_subtotal := v_eligible_subtotal + v_unit_price * v_quantity;
+      v_last_eligible := v_index;
+    END IF;
+    v_index := v_index + 1;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'tax_class', v_product.tax_class,
+      'eligible', v_eligible,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  IF v_discount.id IS NOT NULL THEN
+    IF v_discount.min_spend IS NOT NULL AND v_base_subtotal < v_discount.min_spend THEN
+      RAISE EXCEPTION 'Spend at least % to use discount code %', v_discount.min_spend, v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_last_eligible IS NULL THEN
+      RAISE EXCEPTION 'Discount code % does not apply to anything in your order', v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_discount.discount_type = 'fixed' THEN
+      v_fixed_amount := LEAST(v_discount.value, v_eligible_subtotal);
+      v_fixed_remaining := v_fixed_amount;
+    END IF;
+  END IF;
+
+  -- Discount and tax each line, then convert it to the order currency
+  v_index := 0;
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines)
+  LOOP
+    v_unit_price := (v_line->>'unit_price')::numeric;
+    v_quantity := (v_line->>'quantity')::integer;
+    v_line_amount := v_unit_price * v_quantity;
+    v_line_discount := 0;
+
+    IF (v_line->>'eligible')::boolean THEN
+      IF v_discount.discount_type = 'percentage' THEN
+        v_line_discount := round(v_line_amount * v_discount.value / 100, 2);
+      ELSIF v_discount.discount_type = 'fixed' THEN
+        -- Shared in proportion to price; the last eligible line takes the
+        -- rounding remainder so the lines add up to the fixed amount
+        v_line_discount := CASE
+          WHEN v_index = v_last_eligible THEN v_fixed_remaining
+          ELSE round(v_fixed_amount * v_line_amount / v_eligible_subtotal, 2)
+        END;
+        v_fixed_remaining := v_fixed_remaining - v_line_discount;
+      END IF;
+    END IF;
+    v_index := v_index + 1;
+
+    v_tax_rate := woolwitch.tax_rate_for(v_country, v_line->>'tax_class');
+    v_tax := woolwitch.tax_amount(v_line_amount - v_line_discount, v_tax_rate, v_settings.prices_include_tax);
+
+    v_unit_price := woolwitch.convert_amount(v_unit_price, v_rate);
+    v_line_discount := woolwitch.convert_amount(v_line_discount, v_rate);
+    v_tax := woolwitch.convert_amount(v_tax, v_rate);
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_discount_total := v_discount_total + v_line_discount;
+    v_tax_total := v_tax_total + v_tax;
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_line->'product_id',
+      'product_name', v_line->'product_name',
+      'unit_price', v_unit_price,
+      'delivery_charge', woolwitch.convert_amount((v_line->>'delivery_charge')::numeric, v_rate),
+      'quantity', v_quantity,
+      'tax_rate', v_tax_rate,
+      'tax_amount', v_tax,
+      'discount_amount', v_line_discount,
+      'custom_selections', v_line->'custom_selections'
+    ));
+  END LOOP;
+
+  -- Free delivery thresholds are in the base currency, before discount
+  v_base_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_base_subtotal, p_address);
+  v_delivery_total := woolwitch.convert_amount(v_base_delivery_total, v_rate);
+
+  IF v_discount.discount_type = 'free_delivery' THEN
+    v_delivery_discount := v_base_delivery_total;
+    v_discount_total := v_discount_total + v_delivery_total;
+  END IF;
+
+  -- Delivery is taxed once, at the delivery tax class
+  v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+    v_base_delivery_total - v_delivery_discount,
+    woolwitch.tax_rate_for(v_country, v_settings.delivery_tax_class),
+    v_settings.prices_include_tax
+  ), v_rate);
+
+  -- Gift wrapping is charged once, is not discounted and is taxed at its
+  -- own tax class
+  IF p_gift_wrap THEN
+    v_gift_wrap_total := woolwitch.convert_amount(v_gift_options.gift_wrap_charge, v_rate);
+    v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+      v_gift_options.gift_wrap_charge,
+      woolwitch.tax_rate_for(v_country, v_gift_options.gift_wrap_tax_class),
+      v_settings.prices_include_tax
+    ), v_rate);
+  END IF;
+
+  RETURN QUERY SELECT
+    v_subtotal,
+    v_delivery_total,
+    v_gift_wrap_total,
+    v_discount_total,
+    v_tax_total,
+    v_subtotal + v_delivery_total + v_gift_wrap_total - v_discount_total
+      + CASE WHEN v_settings.prices_include_tax THEN 0 ELSE v_tax_total END,
+    v_settings.prices_include_tax,
+    v_currency,
+    v_rate,
+    v_discount.code,
+    v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Commission pieces
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric, text, boolean, text, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_card_code text DEFAULT NULL,
+  p_gift_card_amount numeric DEFAULT NULL,
+  p_recipient_name text DEFAULT NULL,
+  p_gift_wrap boolean DEFAULT false,
+  p_gift_message text DEFAULT NULL,
+  p_hide_prices boolean DEFAULT false
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_discount_code_id uuid;
+  v_dispatch_by date;
+  v_estimated_delivery date;
+  v_line jsonb;
+  v_commission_request_ids uuid[];
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_payment_method = 'gift_card' AND NULLIF(btrim(p_gift_card_code), '') IS NULL THEN
+    RAISE EXCEPTION 'A gift card is required to pay by gift card';
+  END IF;
+
+  IF char_length(btrim(p_recipient_name)) > 200 THEN
+    RAISE EXCEPTION 'Recipient name must be 200 characters or fewer';
+  END IF;
+
+  IF char_length(btrim(p_gift_message)) > 500 THEN
+    RAISE EXCEPTION 'Gift message must be 500 characters or fewer';
+  END IF;
+
+  -- Commission pieces are only sold to the holder of an accepted quote
+  v_commission_request_ids := woolwitch.verify_commission_items(p_order_items);
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Lock the discount code so concurrent orders cannot go over its usage
+  -- limit; quote_order checks the limit once the lock is held
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    SELECT d.id INTO v_discount_code_id
+    FROM woolwitch.discount_codes d
+    WHERE d.code = upper(btrim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region, the discount and any gift
+  -- wrapping, in the chosen currency
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address, p_currency, p_discount_code, COALESCE(p_gift_wrap, false));
+
+  -- Promise dispatch once the longest lead time in the order has passed,
+  -- and delivery after the shipping region's transit time
+  v_dispatch_by := woolwitch.order_dispatch_date(p_order_items, (now() AT TIME ZONE 'UTC')::date);
+
+  SELECT woolwitch.add_working_days(v_dispatch_by, r.transit_days) INTO v_estimated_delivery
+  FROM woolwitch.shipping_regions r
+  WHERE r.id = woolwitch.shipping_region_for_address(v_address->>'country', v_address->>'postcode');
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'gift_wrap_total', v_quote.gift_wrap_total,
+              'discount_total', v_quote.discount_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    recipient_name,
+    address,
+    subtotal,
+    delivery_total,
+    gift_wrap_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    currency,
+    exchange_rate,
+    discount_code_id,
+    discount_code,
+    discount_total,
+    gift_wrap,
+    gift_message,
+    hide_prices,
+    dispatch_by,
+    estimated_delivery,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    NULLIF(btrim(p_recipient_name), ''),
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.gift_wrap_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    v_quote.currency,
+    v_quote.exchange_rate,
+    v_discount_code_id,
+    v_quote.discount_code,
+    v_quote.discount_total,
+    COALESCE(p_gift_wrap, false),
+    NULLIF(btrim(p_gift_message), ''),
+    COALESCE(p_hide_prices, false),
+    v_dispatch_by,
+    v_estimated_delivery,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines. link_commission_order marks
+  -- only the requests checked above as ordered.
+  PERFORM set_config('woolwitch.commission_request_ids', array_to_string(v_commission_request_ids, ','), true);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      discount_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      (v_line->>'discount_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  PERFORM set_config('woolwitch.commission_request_ids', '', true);
+
+  -- Take the gift card's part of the payment (raises WWG01 when the card
+  -- cannot pay it). An order the card covers in full is paid now; otherwise
+  -- the rest is paid with Stripe or PayPal.
+  IF NULLIF(btrim(p_gift_card_code), '') IS NOT NULL THEN
+    PERFORM woolwitch.redeem_gift_card(p_gift_card_code, v_order_id, p_gift_card_amount);
+
+    IF round(p_gift_card_amount, 2) >= v_quote.total THEN
+      PERFORM set_config('woolwitch.status_note', 'Paid by gift card', true);
+
+      UPDATE woolwitch.orders o
+      SET status = 'paid',
+          updated_at = now()
+      WHERE o.id = v_order_id;
+
+      PERFORM set_config('woolwitch.status_note', '', true);
+    ELSIF p_payment_method = 'gift_card' THEN
+      RAISE EXCEPTION 'Gift card does not cover the order total of %', v_quote.total
+        USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+    END IF;
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- KEEP COMMISSION PIECES PRIVATE
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_product_by_id(uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.get_product_by_id(p_product_id uuid)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = p_product_id
+  AND (p.commission_request_id IS NULL OR woolwitch.is_admin());
+END;
+$$;
+
+DROP FUNCTION IF EXISTS woolwitch_api.get_products_by_ids(uuid[]) CASCADE;
+CREATE FUNCTION woolwitch_api.get_products_by_ids(p_product_ids uuid[])
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+)
+SECURITY DEFINER
+SET search_path = woolwitch, woolwitch_api, public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.products p
+  WHERE p.id = ANY(p_product_ids)
+  AND (p.commission_request_id IS NULL OR woolwitch.is_admin());
+END;
+$$;
+
+-- The quoted piece for the quote page's cart; no rows unless the token
+-- matches a request whose quote is open or accepted
+DROP FUNCTION IF EXISTS woolwitch_api.get_commission_product(text) CASCADE;
+CREATE FUNCTION woolwitch_api.get_commission_product(p_token text)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  price numeric,
+  price_max numeric,
+  image_url text,
+  category text,
+  stock_quantity integer,
+  delivery_charge numeric,
+  shipping_profile_id uuid,
+  weight_grams integer,
+  tax_class text,
+  is_gift_card boolean,
+  lead_time_days integer,
+  is_available boolean,
+  created_at timestamptz,
+  sort_order integer,
+  custom_properties jsonb
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.price,
+    p.price_max,
+    p.image_url,
+    p.category,
+    p.stock_quantity,
+    p.delivery_charge,
+    p.shipping_profile_id,
+    p.weight_grams,
+    p.tax_class,
+    p.is_gift_card,
+    p.lead_time_days,
+    p.is_available,
+    p.created_at,
+    p.sort_order,
+    p.custom_properties
+  FROM woolwitch.commission_requests c
+  JOIN woolwitch.products p ON p.commission_request_id = c.id
+  WHERE c.access_token = btrim(COALESCE(p_token, ''))
+  AND c.status IN ('quoted', 'accepted');
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PRIVATE REFERENCE IMAGES
+-- ========================================
+
+-- Reference images are the customer's own photos: only admins read them,
+-- through signed URLs. Customers upload to a path handed out with a signed
+-- upload URL, so there is no customer upload policy.
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'commission-images';
+
+DROP POLICY IF EXISTS "Upload commission reference images" ON storage.objects;
+
+-- Quoted pieces pictured with a reference image lose it with the public
+-- URL; admins now publish the chosen image to woolwitch-images instead
+UPDATE woolwitch.products
+SET image_url = '/woolwitch.jpg'
+WHERE commission_request_id IS NOT NULL
+AND image_url LIKE '%/storage/v1/object/public/commission-images/%';
+
+-- Upload paths handed out to customers, kept for rate limiting and so a
+-- request can only attach images uploaded that way
+CREATE TABLE woolwitch.commission_uploads (
+  path text PRIMARY KEY CHECK (path ~ '^[0-9a-f-]{36}\.(jpg|png|webp|gif)$'),
+  client_ip text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_commission_uploads_client_ip ON woolwitch.commission_uploads(client_ip, created_at);
+CREATE INDEX idx_commission_uploads_created_at ON woolwitch.commission_uploads(created_at);
+
+-- No policies: only the service role uses the table
+ALTER TABLE woolwitch.commission_uploads ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE woolwitch.commission_uploads IS 'Reference image upload paths handed out by the commission-upload-url edge function';
+COMMENT ON COLUMN woolwitch.commission_uploads.client_ip IS 'Address the upload was requested from, for rate limiting';
+
+-- Hands out a new upload path (the edge function signs it). At most 20
+-- uploads per address an hour, and 300 overall.
+DROP FUNCTION IF EXISTS woolwitch_api.reserve_commission_upload(text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.reserve_commission_upload(
+  p_extension text,
+  p_client_ip text
+)
+RETURNS text AS $$
+DECLARE
+  v_path text;
+BEGIN
+  IF p_extension IS NULL OR p_extension NOT IN ('jpg', 'png', 'webp', 'gif') THEN
+    RAISE EXCEPTION 'Please choose a JPEG, PNG, WebP or GIF image';
+  END IF;
+
+  IF (SELECT COUNT(*) FROM woolwitch.commission_uploads u
+      WHERE u.client_ip = p_client_ip AND u.created_at > now() - interval '1 hour') >= 20
+     OR (SELECT COUNT(*) FROM woolwitch.commission_uploads u
+      WHERE u.created_at > now() - interval '1 hour') >= 300 THEN
+    RAISE EXCEPTION 'Too many uploads. Please try again later.';
+  END IF;
+
+  v_path := gen_random_uuid()::text || '.' || p_extension;
+
+  INSERT INTO woolwitch.commission_uploads (path, client_ip)
+  VALUES (v_path, NULLIF(btrim(p_client_ip), ''));
+
+  RETURN v_path;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- Reference images must have been uploaded through a signed upload URL
+DROP FUNCTION IF EXISTS woolwitch_api.submit_commission_request(text, text, text, text, text, text[]) CASCADE;
+CREATE FUNCTION woolwitch_api.submit_commission_request(
+  p_email text,
+  p_full_name text,
+  p_description text,
+  p_budget text DEFAULT NULL,
+  p_colours text DEFAULT NULL,
+  p_reference_images text[] DEFAULT '{}'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_email text := lower(btrim(COALESCE(p_email, '')));
+  v_images text[] := COALESCE(p_reference_images, '{}');
+  v_request_id uuid;
+BEGIN
+  IF v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_description, ''))) < 20 THEN
+    RAISE EXCEPTION 'Tell us a little more about what you would like (at least 20 characters)';
+  END IF;
+
+  IF cardinality(v_images) > 5 THEN
+    RAISE EXCEPTION 'You can attach up to 5 reference images';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_images) AS i(path)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM woolwitch.commission_uploads u
+      WHERE u.path = i.path
+    )
+    OR NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'commission-images'
+      AND o.name = i.path
+    )
+  ) THEN
+    RAISE EXCEPTION 'A reference image failed to upload. Please attach it again.';
+  END IF;
+
+  -- Each upload belongs to one request
+  IF EXISTS (
+    SELECT 1 FROM woolwitch.commission_requests c
+    WHERE c.reference_images && v_images
+  ) THEN
+    RAISE EXCEPTION 'A reference image failed to upload. Please attach it again.';
+  END IF;
+
+  -- At most 5 requests per email a day, and 50 overall an hour
+  IF (SELECT COUNT(*) FROM woolwitch.commission_requests c
+      WHERE lower(c.email) = v_email AND c.created_at > now() - interval '1 day') >= 5
+     OR (SELECT COUNT(*) FROM woolwitch.commission_requests c
+      WHERE c.created_at > now() - interval '1 hour') >= 50 THEN
+    RAISE EXCEPTION 'Too many commission requests. Please try again later.';
+  END IF;
+
+  INSERT INTO woolwitch.commission_requests (
+    user_id,
+    email,
+    full_name,
+    description,
+    budget,
+    colours,
+    reference_images
+  ) VALUES (
+    auth.uid(),
+    v_email,
+    btrim(COALESCE(p_full_name, '')),
+    btrim(p_description),
+    NULLIF(btrim(p_budget), ''),
+    NULLIF(btrim(p_colours), ''),
+    v_images
+  )
+  RETURNING commission_requests.id INTO v_request_id;
+
+  INSERT INTO woolwitch.email_outbox (commission_request_id, template, recipient)
+  VALUES (v_request_id, 'commission_received', v_email);
+
+  RETURN v_request_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT ALL PRIVILEGES ON woolwitch.commission_uploads TO service_role, postgres;
+
+REVOKE EXECUTE ON FUNCTION woolwitch.verify_commission_items(jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.link_commission_order() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text, boolean) TO authenticated, anon, service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric, text, boolean, text, boolean) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_product_by_id TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_products_by_ids TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.get_commission_product(text) TO authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.submit_commission_request(text, text, text, text, text, text[]) TO authenticated, anon;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.reserve_commission_upload(text, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.reserve_commission_upload(text, text) TO service_role;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.verify_commission_items(jsonb) IS 'Rejects commission pieces in order items unless their quote is accepted, unexpired and the line carries the access token; returns the request ids';
+COMMENT ON FUNCTION woolwitch.link_commission_order() IS 'Trigger: marks an accepted commission request ordered when create_order sells its quoted piece';
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text, boolean) IS 'Prices a cart from the product table, shipping profiles, tax rates, discount code and gift wrapping for the address, in the chosen currency - the single source of truth for order totals';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, gift options and promised dispatch and delivery dates, priced by quote_order with any discount code and gift wrapping (rejects mismatched client totals with WWP01, unusable codes with WWD01 and unusable gift cards with WWG01), sells commission pieces only with their accepted quote''s token, takes any gift card payment, reserves stock and returns the existing order for a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.get_commission_product(text) IS 'The quoted piece for an open or accepted quote, by its access token';
+COMMENT ON FUNCTION woolwitch_api.reserve_commission_upload(text, text) IS 'Hands out a reference image upload path for the commission-upload-url edge function, rate limited per address (service role only)';
+COMMENT ON FUNCTION woolwitch_api.submit_commission_request(text, text, text, text, text, text[]) IS 'Submit a commission request with up to 5 reference images uploaded through signed upload URLs (rate limited); emails the customer a receipt';
@@ -0,0 +1,53 @@
+-- Products view without commission pieces
+-- The ratings redefinition of products_view listed every commission piece
+-- for anyone, and showed a bought piece (switched off at a stock of zero)
+-- as sold out. Commission pieces are now admin only here; the quote page
+-- reads its piece with get_commission_product(token).
+
+-- ========================================
+-- PRODUCTS VIEW
+-- ========================================
+
+DROP VIEW IF EXISTS woolwitch_api.products_view CASCADE;
+CREATE VIEW woolwitch_api.products_view
+WITH (security_invoker = true)
+AS
+SELECT
+  id,
+  name,
+  description,
+  price,
+  price_max,
+  image_url,
+  category,
+  stock_quantity,
+  delivery_charge,
+  shipping_profile_id,
+  weight_grams,
+  tax_class,
+  is_gift_card,
+  lead_time_days,
+  commission_request_id,
+  is_available,
+  created_at,
+  sort_order,
+  custom_properties,
+  rating_average,
+  rating_count
+FROM woolwitch.products
+WHERE (commission_request_id IS NULL
+       AND (is_available = true
+            OR (sold_out_at IS NOT NULL AND stock_quantity = 0)))
+   OR woolwitch.is_admin();
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT SELECT ON woolwitch_api.products_view TO authenticated, anon;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON VIEW woolwitch_api.products_view IS 'Public view of available and sold out products with their ratings; commission pieces are admin only';
@@ -0,0 +1,137 @@
+-- Guest order lookup limits
+-- request_guest_order_access stopped every guest lookup once 200 attempts an
+-- hour had failed across the whole shop, so anyone could lock all guests
+-- out. Failed attempts are now limited per email and per order reference
+-- (guessing one customer's orders, or one order's email); limiting per
+-- address belongs at the edge.
+--
+-- verify_guest_order_token compared the token with its signature using <>,
+-- which stops at the first differing character. It now compares SHA-256
+-- hashes of both, so the time taken says nothing about the signature.
+
+-- ========================================
+-- LOOKUP ATTEMPTS
+-- ========================================
+
+-- The order number or reference as typed, normalised; NULL for attempts
+-- recorded before this migration
+ALTER TABLE woolwitch.guest_order_lookups
+  ADD COLUMN reference text;
+
+CREATE INDEX idx_guest_order_lookups_reference ON woolwitch.guest_order_lookups(reference, created_at);
+
+-- ========================================
+-- TOKEN HELPERS
+-- ========================================
+
+-- Returns the order id for a valid, unexpired token
+CREATE OR REPLACE FUNCTION woolwitch.verify_guest_order_token(p_token text)
+RETURNS uuid AS $$
+DECLARE
+  v_parts text[];
+  v_order_id uuid;
+  v_expires_at timestamptz;
+BEGIN
+  v_parts := string_to_array(COALESCE(p_token, ''), '.');
+
+  IF array_length(v_parts, 1) IS DISTINCT FROM 3
+     OR v_parts[1] !~ '^[0-9a-f-]{36}$'
+     OR v_parts[2] !~ '^[0-9]{1,12}$' THEN
+    RAISE EXCEPTION 'Invalid or expired order link';
+  END IF;
+
+  v_order_id := v_parts[1]::uuid;
+  v_expires_at := to_timestamp(v_parts[2]::bigint);
+
+  -- Compare hashes rather than the token itself, so a mismatch takes the
+  -- same time wherever it is
+  IF v_expires_at < now()
+     OR extensions.digest(woolwitch.sign_guest_order_token(v_order_id, v_expires_at), 'sha256')
+        <> extensions.digest(p_token, 'sha256') THEN
+    RAISE EXCEPTION 'Invalid or expired order link';
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- API: GUEST ORDER LOOKUP
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.request_guest_order_access(text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.request_guest_order_access(
+  p_email text,
+  p_order_reference text
+)
+RETURNS TABLE (
+  order_id uuid,
+  access_token text,
+  expires_at timestamptz
+) AS $$
+DECLARE
+  v_email text;
+  v_reference text;
+  v_order_id uuid;
+  v_expires_at timestamptz;
+BEGIN
+  v_email := lower(btrim(COALESCE(p_email, '')));
+  v_reference := lower(regexp_replace(COALESCE(p_order_reference, ''), '[^A-Za-z0-9]', '', 'g'));
+
+  IF v_email = '' OR length(v_reference) < 8 THEN
+    RAISE EXCEPTION 'Enter the email address and order number from your order';
+  END IF;
+
+  -- At most 10 failed attempts per email, and 10 per order reference, an hour
+  IF (SELECT COUNT(*) FROM woolwitch.guest_order_lookups l
+      WHERE l.email = v_email AND NOT l.succeeded AND l.created_at > now() - interval '1 hour') >= 10
+     OR (SELECT COUNT(*) FROM woolwitch.guest_order_lookups l
+      WHERE l.reference = v_reference AND NOT l.succeeded AND l.created_at > now() - interval '1 hour') >= 10 THEN
+    RAISE EXCEPTION 'Too many lookup attempts. Please try again later.';
+  END IF;
+
+  -- Order number (dashes optional), or the 8 character reference from the
+  -- end of the order id that was shown before order numbers existed
+  SELECT o.id INTO v_order_id
+  FROM woolwitch.orders o
+  WHERE lower(o.email) = v_email
+    AND (
+      lower(replace(o.order_number, '-', '')) = v_reference
+      OR right(o.id::text, 8) = v_reference
+    )
+  LIMIT 1;
+
+  INSERT INTO woolwitch.guest_order_lookups (email, reference, succeeded)
+  VALUES (v_email, v_reference, v_order_id IS NOT NULL);
+
+  IF v_order_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_expires_at := now() + interval '24 hours';
+
+  RETURN QUERY SELECT
+    v_order_id,
+    woolwitch.sign_guest_order_token(v_order_id, v_expires_at),
+    date_trunc('second', v_expires_at);
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.request_guest_order_access(text, text) TO anon, authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON COLUMN woolwitch.guest_order_lookups.reference IS 'Normalised order number or reference tried, for rate limiting per order';
+COMMENT ON FUNCTION woolwitch.verify_guest_order_token(text) IS 'Validates a guest order access token (compared by hash) and returns its order id';
+COMMENT ON FUNCTION woolwitch_api.request_guest_order_access(text, text) IS 'Exchanges email + order number for a 24 hour order access token (rate limited per email and per order number)';
@@ -0,0 +1,136 @@
+-- Refund balance
+-- begin_refund refunds one payment per call: the newest with money left.
+-- An order part paid by gift card has two payments, and an amount above
+-- what was left on the first was rejected as exceeding the refundable
+-- balance even when the order had that much left. The amount is now
+-- checked against everything left on the order, and an amount spanning
+-- both payments is rejected with how much can be refunded now.
+
+-- ========================================
+-- UPDATE REFUNDS - Order balance
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.begin_refund(uuid, numeric, text, uuid) CASCADE;
+CREATE FUNCTION woolwitch_api.begin_refund(
+  p_order_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_requested_by uuid
+)
+RETURNS TABLE (
+  refund_id uuid,
+  amount numeric,
+  currency text,
+  payment_method text,
+  provider_payment_id text,
+  capture_id text
+) AS $$
+DECLARE
+  v_payment woolwitch.payments%ROWTYPE;
+  v_payment_id uuid;
+  v_refundable numeric;
+  v_order_refundable numeric;
+  v_amount numeric;
+  v_refund_id uuid;
+BEGIN
+  -- Lock the order's captured payments. An order part paid by gift card
+  -- has two; the newest one with money left to refund is refunded first, so
+  -- the card payment is refunded once the provider payment has been.
+  PERFORM 1
+  FROM woolwitch.payments p
+  WHERE p.order_id = p_order_id
+    AND p.status IN ('completed', 'refunded')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No completed payment found for this order';
+  END IF;
+
+  SELECT p.id, p.amount - COALESCE(r.refunded, 0)
+  INTO v_payment_id, v_refundable
+  FROM woolwitch.payments p
+  LEFT JOIN LATERAL (
+    SELECT SUM(r.amount) AS refunded
+    FROM woolwitch.refunds r
+    WHERE r.payment_id = p.id
+      AND r.status IN ('pending', 'succeeded')
+  ) r ON true
+  WHERE p.order_id = p_order_id
+    AND p.status IN ('completed', 'refunded')
+  ORDER BY p.amount - COALESCE(r.refunded, 0) > 0 DESC, p.created_at DESC
+  LIMIT 1;
+
+  -- Everything left to refund across the order's payments
+  SELECT COALESCE(SUM(p.amount - COALESCE(r.refunded, 0)), 0)
+  INTO v_order_refundable
+  FROM woolwitch.payments p
+  LEFT JOIN LATERAL (
+    SELECT SUM(r.amount) AS refunded
+    FROM woolwitch.refunds r
+    WHERE r.payment_id = p.id
+      AND r.status IN ('pending', 'succeeded')
+  ) r ON true
+  WHERE p.order_id = p_order_id
+    AND p.status IN ('completed', 'refunded');
+
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.id = v_payment_id;
+
+  -- No amount means refund whatever is left on this payment
+  v_amount := round(COALESCE(p_amount, v_refundable), 2);
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  IF v_amount > v_order_refundable THEN
+    RAISE EXCEPTION 'Refund amount % exceeds refundable balance %', v_amount, v_order_refundable;
+  END IF;
+
+  IF v_amount > v_refundable THEN
+    RAISE EXCEPTION 'This order was paid in more than one payment: refund % now, then the remaining % separately',
+      v_refundable, v_amount - v_refundable;
+  END IF;
+
+  INSERT INTO woolwitch.refunds (
+    payment_id,
+    order_id,
+    amount,
+    currency,
+    reason,
+    requested_by
+  ) VALUES (
+    v_payment.id,
+    p_order_id,
+    v_amount,
+    v_payment.currency,
+    NULLIF(btrim(p_reason), ''),
+    p_requested_by
+  )
+  RETURNING id INTO v_refund_id;
+
+  RETURN QUERY SELECT
+    v_refund_id,
+    v_amount,
+    v_payment.currency,
+    v_payment.payment_method,
+    COALESCE(v_payment.stripe_details->>'payment_intent_id', v_payment.payment_id),
+    v_payment.paypal_details->>'capture_id';
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) TO service_role;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.begin_refund(uuid, numeric, text, uuid) IS 'Validates and records a pending refund against the order''s most recent payment with something left to refund; one payment per call, checked against the order''s total refundable balance (service role only)';
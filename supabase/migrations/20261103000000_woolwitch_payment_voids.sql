@@ -0,0 +1,301 @@
+-- Payment voids
+-- PayPal takes the payment before checkout creates the order. If
+-- create_order then rejects the order (prices changed since the quote the
+-- payment was taken for: WWP01), the money has been taken for an order that
+-- does not exist. Checkout now asks the void-payment edge function to refund
+-- such a payment in full:
+--   * woolwitch.payment_voids - provider payments refunded because no order
+--                               could be placed for them
+--   * begin_payment_void / complete_payment_void - the void workflow, in the
+--     style of begin_refund / complete_refund
+--   * record_verified_payment refuses a voided payment, and
+--     begin_payment_void refuses a payment recorded against an order, under
+--     the same per-payment lock
+
+-- ========================================
+-- PAYMENT VOIDS TABLE
+-- ========================================
+
+CREATE TABLE woolwitch.payment_voids (
+  payment_method text NOT NULL CHECK (payment_method IN ('card', 'paypal')),
+  payment_id text NOT NULL,
+  amount numeric(10,2) CHECK (amount > 0),
+  currency text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  provider_refund_id text,
+  failure_reason text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (payment_method, payment_id)
+);
+
+-- No policies: only the service role and admins (through functions) use it
+ALTER TABLE woolwitch.payment_voids ENABLE ROW LEVEL SECURITY;
+
+-- ========================================
+-- VOID WORKFLOW
+-- ========================================
+
+-- Records a pending void for a provider payment that has no order. Returns
+-- false when the payment has already been voided. p_payment_id is the id
+-- record_verified_payment would store (the PayPal order id or the Stripe
+-- payment intent id).
+DROP FUNCTION IF EXISTS woolwitch_api.begin_payment_void(text, text, numeric, text) CASCADE;
+CREATE FUNCTION woolwitch_api.begin_payment_void(
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_currency text
+)
+RETURNS boolean AS $$
+DECLARE
+  v_order_number text;
+BEGIN
+  IF p_payment_method NOT IN ('card', 'paypal') THEN
+    RAISE EXCEPTION 'Invalid payment method: %', p_payment_method;
+  END IF;
+
+  IF NULLIF(btrim(p_payment_id), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment id is required';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended('payment:' || p_payment_method || ':' || p_payment_id, 0));
+
+  SELECT o.order_number INTO v_order_number
+  FROM woolwitch.payments p
+  JOIN woolwitch.orders o ON o.id = p.order_id
+  WHERE p.payment_method = p_payment_method
+    AND p.payment_id = p_payment_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Payment is linked to order %', v_order_number;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM woolwitch.payment_voids v
+    WHERE v.payment_method = p_payment_method
+      AND v.payment_id = p_payment_id
+      AND v.status = 'succeeded'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO woolwitch.payment_voids (payment_method, payment_id, amount, currency)
+  VALUES (p_payment_method, p_payment_id, p_amount, upper(p_currency))
+  ON CONFLICT (payment_method, payment_id) DO UPDATE
+  SET status = 'pending',
+      failure_reason = NULL,
+      updated_at = now();
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- Records the provider's answer. A failed void leaves the payment free to
+-- be linked to an order by an admin.
+DROP FUNCTION IF EXISTS woolwitch_api.complete_payment_void(text, text, boolean, text, text) CASCADE;
+CREATE FUNCTION woolwitch_api.complete_payment_void(
+  p_payment_method text,
+  p_payment_id text,
+  p_succeeded boolean,
+  p_provider_refund_id text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  UPDATE woolwitch.payment_voids v
+  SET status = CASE WHEN p_succeeded THEN 'succeeded' ELSE 'failed' END,
+      provider_refund_id = p_provider_refund_id,
+      failure_reason = CASE WHEN p_succeeded THEN NULL ELSE p_failure_reason END,
+      updated_at = now()
+  WHERE v.payment_method = p_payment_method
+    AND v.payment_id = p_payment_id
+    AND v.status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pending payment void not found';
+  END IF;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- UPDATE record_verified_payment - Voided payments
+-- ========================================
+
+-- Records a payment the confirm-payment edge function has checked with the
+-- provider. Completes the checkout's pending payment (matched by provider
+-- payment id, then idempotency key) or records a new one, and moves a
+-- pending order to paid. The payment must cover what is left after any gift
+-- card, and must not have been voided. Safe to call again for the same
+-- payment.
+DROP FUNCTION IF EXISTS woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.record_verified_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_currency text,
+  p_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_id uuid,
+  order_status text
+) AS $$
+DECLARE
+  v_order woolwitch.orders%ROWTYPE;
+  v_payment woolwitch.payments%ROWTYPE;
+  v_other_order_number text;
+  v_amount_due numeric;
+BEGIN
+  IF p_payment_method NOT IN ('card', 'paypal') THEN
+    RAISE EXCEPTION 'Invalid payment method: %', p_payment_method;
+  END IF;
+
+  IF NULLIF(btrim(p_payment_id), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment id is required';
+  END IF;
+
+  -- Serialised with begin_payment_void: a payment is either refunded as
+  -- orderless or recorded against an order, never both
+  PERFORM pg_advisory_xact_lock(hashtextextended('payment:' || p_payment_method || ':' || p_payment_id, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM woolwitch.payment_voids v
+    WHERE v.payment_method = p_payment_method
+      AND v.payment_id = p_payment_id
+      AND v.status IN ('pending', 'succeeded')
+  ) THEN
+    RAISE EXCEPTION 'This payment was refunded because its order could not be placed';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  v_amount_due := v_order.total - v_order.gift_card_total;
+
+  IF upper(p_currency) <> v_order.currency OR ABS(p_amount - v_amount_due) > 0.01 THEN
+    RAISE EXCEPTION 'Payment of % % does not match amount due %', p_amount, upper(p_currency), v_amount_due;
+  END IF;
+
+  -- A provider payment can only pay for one order
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.payment_method = p_payment_method
+    AND p.payment_id = p_payment_id
+  ORDER BY p.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND AND v_payment.order_id <> p_order_id THEN
+    SELECT o.order_number INTO v_other_order_number
+    FROM woolwitch.orders o
+    WHERE o.id = v_payment.order_id;
+
+    RAISE EXCEPTION 'Payment is already linked to order %', v_other_order_number;
+  END IF;
+
+  IF NOT FOUND AND p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_payment
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key
+      AND p.order_id = p_order_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    INSERT INTO woolwitch.payments (
+      order_id,
+      payment_method,
+      payment_id,
+      status,
+      amount,
+      currency,
+      paypal_details,
+      stripe_details,
+      idempotency_key
+    ) VALUES (
+      p_order_id,
+      p_payment_method,
+      p_payment_id,
+      'completed',
+      v_amount_due,
+      v_order.currency,
+      CASE WHEN p_payment_method = 'paypal' THEN p_details END,
+      CASE WHEN p_payment_method = 'card' THEN p_details END,
+      p_idempotency_key
+    )
+    RETURNING * INTO v_payment;
+  ELSIF v_payment.status IN ('pending', 'failed') THEN
+    UPDATE woolwitch.payments p
+    SET
+      payment_id = p_payment_id,
+      status = 'completed',
+      paypal_details = CASE
+        WHEN p_payment_method = 'paypal' AND p_details IS NOT NULL
+        THEN COALESCE(p.paypal_details, '{}'::jsonb) || p_details
+        ELSE p.paypal_details
+      END,
+      stripe_details = CASE
+        WHEN p_payment_method = 'card' AND p_details IS NOT NULL
+        THEN COALESCE(p.stripe_details, '{}'::jsonb) || p_details
+        ELSE p.stripe_details
+      END,
+      updated_at = now()
+    WHERE p.id = v_payment.id
+    RETURNING * INTO v_payment;
+  END IF;
+
+  -- Move the order to paid (later states, and cancelled orders that now need
+  -- a refund, are left alone)
+  IF v_order.status = 'pending' THEN
+    PERFORM set_config('woolwitch.status_note', COALESCE(btrim(p_note), ''), true);
+
+    UPDATE woolwitch.orders o
+    SET status = 'paid',
+        updated_at = now()
+    WHERE o.id = p_order_id
+    RETURNING o.status INTO v_order.status;
+
+    PERFORM set_config('woolwitch.status_note', '', true);
+  END IF;
+
+  RETURN QUERY SELECT v_payment.id, v_order.status;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT ALL PRIVILEGES ON woolwitch.payment_voids TO service_role, postgres;
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.begin_payment_void(text, text, numeric, text) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION woolwitch_api.complete_payment_void(text, text, boolean, text, text) FROM PUBLIC, authenticated, anon;
+REVOKE EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.begin_payment_void(text, text, numeric, text) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.complete_payment_void(text, text, boolean, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) TO service_role;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON TABLE woolwitch.payment_voids IS 'Provider payments refunded in full because no order could be placed for them';
+COMMENT ON FUNCTION woolwitch_api.begin_payment_void(text, text, numeric, text) IS 'Records a pending void for a provider payment not linked to any order; false when already voided (service role only)';
+COMMENT ON FUNCTION woolwitch_api.complete_payment_void(text, text, boolean, text, text) IS 'Records the outcome of a payment void (service role only)';
+COMMENT ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) IS 'Records a provider-verified payment of what is left after any gift card payment as completed and marks a pending order paid; refuses voided payments (service role only)';
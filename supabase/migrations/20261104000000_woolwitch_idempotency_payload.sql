@@ -0,0 +1,332 @@
+-- Idempotency payload check
+-- create_order returned the existing order for a reused idempotency key
+-- without looking at the rest of the request, so a key reused with a
+-- different cart or address silently returned the first order. The order
+-- now stores a SHA-256 hash of the request it was created from, and a
+-- reused key with a different request is rejected.
+
+-- ========================================
+-- ORDER PAYLOAD HASH
+-- ========================================
+
+ALTER TABLE woolwitch.orders
+  ADD COLUMN idempotency_payload_hash bytea;
+
+-- Hash of a create_order request, everything but the idempotency key. jsonb
+-- orders object keys, so the same request always hashes the same.
+CREATE OR REPLACE FUNCTION woolwitch.order_payload_hash(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_currency text,
+  p_discount_code text,
+  p_gift_card_code text,
+  p_gift_card_amount numeric,
+  p_recipient_name text,
+  p_gift_wrap boolean,
+  p_gift_message text,
+  p_hide_prices boolean
+)
+RETURNS bytea AS $$
+  SELECT extensions.digest(
+    jsonb_build_object(
+      'email', lower(btrim(p_email)),
+      'full_name', p_full_name,
+      'address', p_address,
+      'subtotal', p_subtotal,
+      'delivery_total', p_delivery_total,
+      'total', p_total,
+      'payment_method', p_payment_method,
+      'order_items', p_order_items,
+      'currency', p_currency,
+      'discount_code', p_discount_code,
+      'gift_card_code', p_gift_card_code,
+      'gift_card_amount', p_gift_card_amount,
+      'recipient_name', p_recipient_name,
+      'gift_wrap', p_gift_wrap,
+      'gift_message', p_gift_message,
+      'hide_prices', p_hide_prices
+    )::text,
+    'sha256'
+  );
+$$ LANGUAGE sql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE create_order - Payload check
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric, text, boolean, text, boolean) CASCADE;
+CREATE FUNCTION woolwitch_api.create_order(
+  p_email text,
+  p_full_name text,
+  p_address jsonb,
+  p_subtotal numeric,
+  p_delivery_total numeric,
+  p_total numeric,
+  p_payment_method text,
+  p_order_items jsonb,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_card_code text DEFAULT NULL,
+  p_gift_card_amount numeric DEFAULT NULL,
+  p_recipient_name text DEFAULT NULL,
+  p_gift_wrap boolean DEFAULT false,
+  p_gift_message text DEFAULT NULL,
+  p_hide_prices boolean DEFAULT false
+)
+RETURNS uuid AS $$
+DECLARE
+  v_order_id uuid;
+  v_user_id uuid;
+  v_existing woolwitch.orders%ROWTYPE;
+  v_address jsonb;
+  v_quote record;
+  v_discount_code_id uuid;
+  v_dispatch_by date;
+  v_estimated_delivery date;
+  v_line jsonb;
+  v_commission_request_ids uuid[];
+  v_payload_hash bytea;
+BEGIN
+  -- Get current user ID (may be null for anonymous orders)
+  v_user_id := auth.uid();
+
+  -- A retried checkout returns the order created by the first attempt. The
+  -- lock makes a concurrent retry wait for the first attempt to commit. A
+  -- key sent again with a different request is an error, not a retry.
+  IF p_idempotency_key IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_idempotency_key::text, 0));
+
+    v_payload_hash := woolwitch.order_payload_hash(
+      p_email, p_full_name, p_address, p_subtotal, p_delivery_total, p_total,
+      p_payment_method, p_order_items, p_currency, p_discount_code,
+      p_gift_card_code, p_gift_card_amount, p_recipient_name, p_gift_wrap,
+      p_gift_message, p_hide_prices
+    );
+
+    SELECT * INTO v_existing
+    FROM woolwitch.orders o
+    WHERE o.idempotency_key = p_idempotency_key;
+
+    IF FOUND THEN
+      IF v_existing.user_id IS DISTINCT FROM v_user_id
+         OR lower(v_existing.email) <> lower(p_email) THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for another order';
+      END IF;
+
+      -- Orders placed before payload hashes were stored have none
+      IF v_existing.idempotency_payload_hash IS NOT NULL
+         AND v_existing.idempotency_payload_hash <> v_payload_hash THEN
+        RAISE EXCEPTION 'Idempotency key has already been used for a different order request';
+      END IF;
+
+      RETURN v_existing.id;
+    END IF;
+  END IF;
+
+  IF p_payment_method = 'gift_card' AND NULLIF(btrim(p_gift_card_code), '') IS NULL THEN
+    RAISE EXCEPTION 'A gift card is required to pay by gift card';
+  END IF;
+
+  IF char_length(btrim(p_recipient_name)) > 200 THEN
+    RAISE EXCEPTION 'Recipient name must be 200 characters or fewer';
+  END IF;
+
+  IF char_length(btrim(p_gift_message)) > 500 THEN
+    RAISE EXCEPTION 'Gift message must be 500 characters or fewer';
+  END IF;
+
+  -- Commission pieces are only sold to the holder of an accepted quote
+  v_commission_request_ids := woolwitch.verify_commission_items(p_order_items);
+
+  -- Structured, validated address (old-style addresses are read as UK)
+  v_address := woolwitch.normalize_order_address(p_address);
+
+  -- Lock the discount code so concurrent orders cannot go over its usage
+  -- limit; quote_order checks the limit once the lock is held
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    SELECT d.id INTO v_discount_code_id
+    FROM woolwitch.discount_codes d
+    WHERE d.code = upper(btrim(p_discount_code))
+    FOR UPDATE;
+  END IF;
+
+  -- Price the order from the product table, with delivery and tax for the
+  -- address's country and shipping region, the discount and any gift
+  -- wrapping, in the chosen currency
+  SELECT * INTO v_quote FROM woolwitch_api.quote_order(p_order_items, v_address, p_currency, p_discount_code, COALESCE(p_gift_wrap, false));
+
+  -- Promise dispatch once the longest lead time in the order has passed,
+  -- and delivery after the shipping region's transit time
+  v_dispatch_by := woolwitch.order_dispatch_date(p_order_items, (now() AT TIME ZONE 'UTC')::date);
+
+  SELECT woolwitch.add_working_days(v_dispatch_by, r.transit_days) INTO v_estimated_delivery
+  FROM woolwitch.shipping_regions r
+  WHERE r.id = woolwitch.shipping_region_for_address(v_address->>'country', v_address->>'postcode');
+
+  -- Lock and take stock for the whole order (raises WWS01 on shortages)
+  PERFORM woolwitch.reserve_order_stock(p_order_items);
+
+  -- Reject submitted totals that do not match the server price (within 0.01
+  -- for rounding). Raises WWP01 with the server totals in DETAIL so the
+  -- client can refresh its prices.
+  IF ABS(v_quote.subtotal - p_subtotal) > 0.01
+     OR ABS(v_quote.delivery_total - p_delivery_total) > 0.01
+     OR ABS(v_quote.total - p_total) > 0.01 THEN
+    RAISE EXCEPTION 'Submitted total % does not match calculated total %', p_total, v_quote.total
+      USING ERRCODE = 'WWP01',
+            DETAIL = jsonb_build_object(
+              'subtotal', v_quote.subtotal,
+              'delivery_total', v_quote.delivery_total,
+              'gift_wrap_total', v_quote.gift_wrap_total,
+              'discount_total', v_quote.discount_total,
+              'tax_total', v_quote.tax_total,
+              'total', v_quote.total
+            )::text,
+            HINT = 'price_mismatch';
+  END IF;
+
+  -- Create order with server-calculated totals. The order number is taken
+  -- last so a rejected order does not use one up.
+  INSERT INTO woolwitch.orders (
+    user_id,
+    order_number,
+    email,
+    full_name,
+    recipient_name,
+    address,
+    subtotal,
+    delivery_total,
+    gift_wrap_total,
+    tax_total,
+    total,
+    prices_include_tax,
+    currency,
+    exchange_rate,
+    discount_code_id,
+    discount_code,
+    discount_total,
+    gift_wrap,
+    gift_message,
+    hide_prices,
+    dispatch_by,
+    estimated_delivery,
+    status,
+    payment_method,
+    stock_reserved,
+    idempotency_key,
+    idempotency_payload_hash
+  ) VALUES (
+    v_user_id,
+    woolwitch.next_order_number(extract(year FROM now() AT TIME ZONE 'UTC')::int),
+    p_email,
+    p_full_name,
+    NULLIF(btrim(p_recipient_name), ''),
+    v_address,
+    v_quote.subtotal,
+    v_quote.delivery_total,
+    v_quote.gift_wrap_total,
+    v_quote.tax_total,
+    v_quote.total,
+    v_quote.prices_include_tax,
+    v_quote.currency,
+    v_quote.exchange_rate,
+    v_discount_code_id,
+    v_quote.discount_code,
+    v_quote.discount_total,
+    COALESCE(p_gift_wrap, false),
+    NULLIF(btrim(p_gift_message), ''),
+    COALESCE(p_hide_prices, false),
+    v_dispatch_by,
+    v_estimated_delivery,
+    'pending',
+    p_payment_method,
+    true,
+    p_idempotency_key,
+    v_payload_hash
+  )
+  RETURNING id INTO v_order_id;
+
+  -- Create order items from the quoted lines. link_commission_order marks
+  -- only the requests checked above as ordered.
+  PERFORM set_config('woolwitch.commission_request_ids', array_to_string(v_commission_request_ids, ','), true);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items)
+  LOOP
+    INSERT INTO woolwitch.order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_price,
+      quantity,
+      delivery_charge,
+      tax_rate,
+      tax_amount,
+      discount_amount,
+      custom_selections
+    ) VALUES (
+      v_order_id,
+      (v_line->>'product_id')::uuid,
+      v_line->>'product_name',
+      (v_line->>'unit_price')::numeric,
+      (v_line->>'quantity')::integer,
+      (v_line->>'delivery_charge')::numeric,
+      (v_line->>'tax_rate')::numeric,
+      (v_line->>'tax_amount')::numeric,
+      (v_line->>'discount_amount')::numeric,
+      NULLIF(v_line->'custom_selections', 'null'::jsonb)
+    );
+  END LOOP;
+
+  PERFORM set_config('woolwitch.commission_request_ids', '', true);
+
+  -- Take the gift card's part of the payment (raises WWG01 when the card
+  -- cannot pay it). An order the card covers in full is paid now; otherwise
+  -- the rest is paid with Stripe or PayPal.
+  IF NULLIF(btrim(p_gift_card_code), '') IS NOT NULL THEN
+    PERFORM woolwitch.redeem_gift_card(p_gift_card_code, v_order_id, p_gift_card_amount);
+
+    IF round(p_gift_card_amount, 2) >= v_quote.total THEN
+      PERFORM set_config('woolwitch.status_note', 'Paid by gift card', true);
+
+      UPDATE woolwitch.orders o
+      SET status = 'paid',
+          updated_at = now()
+      WHERE o.id = v_order_id;
+
+      PERFORM set_config('woolwitch.status_note', '', true);
+    ELSIF p_payment_method = 'gift_card' THEN
+      RAISE EXCEPTION 'Gift card does not cover the order total of %', v_quote.total
+        USING ERRCODE = 'WWG01', HINT = 'invalid_gift_card';
+    END IF;
+  END IF;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE EXECUTE ON FUNCTION woolwitch.order_payload_hash(text, text, jsonb, numeric, numeric, numeric, text, jsonb, text, text, text, numeric, text, boolean, text, boolean) FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.create_order(text, text, jsonb, numeric, numeric, numeric, text, jsonb, uuid, text, text, text, numeric, text, boolean, text, boolean) TO authenticated, anon;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON COLUMN woolwitch.orders.idempotency_payload_hash IS 'SHA-256 of the create_order request the order was created from; a reused idempotency key must match it';
+COMMENT ON FUNCTION woolwitch.order_payload_hash(text, text, jsonb, numeric, numeric, numeric, text, jsonb, text, text, text, numeric, text, boolean, text, boolean) IS 'Hash of a create_order request, used to check a reused idempotency key';
+COMMENT ON FUNCTION woolwitch_api.create_order IS 'Creates order with a validated address, gift options and promised dispatch and delivery dates, priced by quote_order with any discount code and gift wrapping (rejects mismatched client totals with WWP01, unusable codes with WWD01 and unusable gift cards with WWG01), sells commission pieces only with their accepted quote''s token, takes any gift card payment, reserves stock and returns the existing order for a reused idempotency key sent with the same request';
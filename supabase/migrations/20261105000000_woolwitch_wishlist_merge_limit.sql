@@ -0,0 +1,71 @@
+-- Wishlist merge limit
+-- add_to_wishlist rejected the whole call when it took the wishlist over
+-- 200 items, so a guest wishlist that did not fit was never merged and was
+-- tried again on every sign in. It now adds what fits, earliest in the list
+-- first (guest wishlists are newest first), and returns how many products
+-- were left out so the client can tell the customer.
+
+-- ========================================
+-- WISHLIST API
+-- ========================================
+
+DROP FUNCTION IF EXISTS woolwitch_api.add_to_wishlist(uuid[]) CASCADE;
+CREATE FUNCTION woolwitch_api.add_to_wishlist(p_product_ids uuid[])
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_wishlist_id uuid;
+  v_room integer;
+  v_new_ids uuid[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to use your wishlist';
+  END IF;
+
+  v_wishlist_id := woolwitch.ensure_wishlist(v_user_id);
+
+  -- One add at a time per wishlist, so two at once cannot pass the limit
+  PERFORM 1 FROM woolwitch.wishlists w WHERE w.id = v_wishlist_id FOR UPDATE;
+
+  SELECT GREATEST(200 - count(*), 0)::integer INTO v_room
+  FROM woolwitch.wishlist_items i
+  WHERE i.wishlist_id = v_wishlist_id;
+
+  -- Products not saved yet, in the order given; products already saved,
+  -- and products that no longer exist, are skipped
+  SELECT COALESCE(array_agg(r.product_id ORDER BY r.position), '{}')
+  INTO v_new_ids
+  FROM (
+    SELECT ids.product_id, min(ids.position) AS position
+    FROM unnest(COALESCE(p_product_ids, '{}')) WITH ORDINALITY AS ids(product_id, position)
+    GROUP BY ids.product_id
+  ) r
+  JOIN woolwitch.products p ON p.id = r.product_id
+  WHERE p.commission_request_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM woolwitch.wishlist_items i
+    WHERE i.wishlist_id = v_wishlist_id
+    AND i.product_id = r.product_id
+  );
+
+  INSERT INTO woolwitch.wishlist_items (wishlist_id, product_id)
+  SELECT v_wishlist_id, new_id
+  FROM unnest(v_new_ids[1:v_room]) AS new_id;
+
+  RETURN GREATEST(cardinality(v_new_ids) - v_room, 0);
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT EXECUTE ON FUNCTION woolwitch_api.add_to_wishlist(uuid[]) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.add_to_wishlist(uuid[]) IS 'Save products to the signed-in customer''s wishlist, as many as fit under 200; returns how many were left out. Used to merge a guest wishlist on sign in';
@@ -0,0 +1,169 @@
+-- Normalised selection values
+-- snapshot_custom_selections checked a selection's value after trimming it
+-- but stored the value as sent, and get_selection_price looked up option
+-- prices with the value as sent, so " Large" passed the option check and
+-- was then charged at the base price. Selection values are now normalised
+-- once by woolwitch.selection_value, and the option check, option price,
+-- option lead time and the stored snapshot all use that value.
+
+-- ========================================
+-- SELECTION HELPERS
+-- ========================================
+
+-- The value of a customer selection, trimmed; NULL when it is empty
+CREATE OR REPLACE FUNCTION woolwitch.selection_value(p_selection jsonb)
+RETURNS text AS $$
+  SELECT NULLIF(btrim(p_selection->>'value'), '');
+$$ LANGUAGE sql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+CREATE OR REPLACE FUNCTION woolwitch.snapshot_custom_selections(
+  p_custom_properties jsonb,
+  p_selections jsonb,
+  p_product_name text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_property jsonb;
+  v_selection jsonb;
+  v_value text;
+  v_result jsonb := '[]'::jsonb;
+BEGIN
+  IF p_custom_properties IS NULL OR jsonb_typeof(p_custom_properties->'properties') <> 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_property IN SELECT * FROM jsonb_array_elements(p_custom_properties->'properties')
+  LOOP
+    v_selection := NULL;
+    IF p_selections IS NOT NULL AND jsonb_typeof(p_selections) = 'array' THEN
+      SELECT s INTO v_selection
+      FROM jsonb_array_elements(p_selections) s
+      WHERE s->>'propertyId' = v_property->>'id'
+      LIMIT 1;
+    END IF;
+
+    v_value := woolwitch.selection_value(v_selection);
+
+    IF v_value IS NULL THEN
+      IF COALESCE((v_property->>'required')::boolean, false) THEN
+        RAISE EXCEPTION 'Please choose "%" for %', v_property->>'label', p_product_name;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF v_property->>'type' = 'dropdown'
+       AND NOT COALESCE(v_property->'options', '[]'::jsonb) ? v_value THEN
+      RAISE EXCEPTION 'Option "%" is not available for % on %', v_value, v_property->>'label', p_product_name;
+    END IF;
+
+    IF v_property->>'type' IN ('text', 'textarea')
+       AND v_property ? 'maxLength'
+       AND length(v_value) > (v_property->>'maxLength')::integer THEN
+      RAISE EXCEPTION '% for % is too long', v_property->>'label', p_product_name;
+    END IF;
+
+    v_result := v_result || jsonb_build_array(jsonb_build_object(
+      'propertyId', v_property->>'id',
+      'label', v_property->>'label',
+      'value', v_value
+    ));
+  END LOOP;
+
+  IF jsonb_array_length(v_result) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+CREATE OR REPLACE FUNCTION woolwitch.get_selection_price(
+  p_custom_properties jsonb,
+  p_selections jsonb,
+  p_base_price numeric
+)
+RETURNS numeric AS $$
+DECLARE
+  v_selection jsonb;
+  v_property jsonb;
+  v_value text;
+BEGIN
+  IF p_custom_properties IS NULL OR p_selections IS NULL OR jsonb_typeof(p_selections) <> 'array' THEN
+    RETURN p_base_price;
+  END IF;
+
+  FOR v_selection IN SELECT * FROM jsonb_array_elements(p_selections)
+  LOOP
+    SELECT p INTO v_property
+    FROM jsonb_array_elements(COALESCE(p_custom_properties->'properties', '[]'::jsonb)) p
+    WHERE p->>'id' = v_selection->>'propertyId'
+    LIMIT 1;
+
+    v_value := woolwitch.selection_value(v_selection);
+
+    IF v_property->>'type' = 'dropdown'
+       AND v_property->'optionPrices' ? v_value THEN
+      RETURN (v_property->'optionPrices'->>v_value)::numeric;
+    END IF;
+  END LOOP;
+
+  RETURN p_base_price;
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+CREATE OR REPLACE FUNCTION woolwitch.get_selection_lead_time(
+  p_custom_properties jsonb,
+  p_selections jsonb,
+  p_lead_time_days integer
+)
+RETURNS integer AS $$
+DECLARE
+  v_selection jsonb;
+  v_property jsonb;
+  v_value text;
+  v_option_days integer;
+  v_result integer;
+BEGIN
+  IF p_custom_properties IS NULL OR p_selections IS NULL OR jsonb_typeof(p_selections) <> 'array' THEN
+    RETURN p_lead_time_days;
+  END IF;
+
+  FOR v_selection IN SELECT * FROM jsonb_array_elements(p_selections)
+  LOOP
+    SELECT p INTO v_property
+    FROM jsonb_array_elements(COALESCE(p_custom_properties->'properties', '[]'::jsonb)) p
+    WHERE p->>'id' = v_selection->>'propertyId'
+    LIMIT 1;
+
+    v_value := woolwitch.selection_value(v_selection);
+
+    IF v_property->>'type' = 'dropdown'
+       AND v_property->'optionLeadTimes' ? v_value THEN
+      v_option_days := (v_property->'optionLeadTimes'->>v_value)::integer;
+      v_result := GREATEST(v_result, v_option_days);
+    END IF;
+  END LOOP;
+
+  RETURN COALESCE(v_result, p_lead_time_days);
+END;
+$$ LANGUAGE plpgsql
+   IMMUTABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+GRANT EXECUTE ON FUNCTION woolwitch.selection_value(jsonb) TO authenticated, anon;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.selection_value(jsonb) IS 'The trimmed value of a customer selection, or NULL when empty; used wherever a selection is checked, priced or stored';
@@ -0,0 +1,182 @@
+-- Payment confirmation key check
+-- confirm-payment skipped its admin check whenever the caller sent an
+-- idempotency key, and record_verified_payment stored whatever key it was
+-- given, so anyone could link a payment to any order by sending a random
+-- key. record_verified_payment now rejects a key that is not the one the
+-- order was created with, and confirm-payment requires an admin unless the
+-- key is the order's own.
+
+-- ========================================
+-- UPDATE record_verified_payment - Order idempotency key
+-- ========================================
+
+-- Records a payment the confirm-payment edge function has checked with the
+-- provider. Completes the checkout's pending payment (matched by provider
+-- payment id, then idempotency key) or records a new one, and moves a
+-- pending order to paid. The payment must cover what is left after any gift
+-- card, and must not have been voided; an idempotency key must be the one
+-- the order was created with. Safe to call again for the same payment.
+DROP FUNCTION IF EXISTS woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) CASCADE;
+CREATE FUNCTION woolwitch_api.record_verified_payment(
+  p_order_id uuid,
+  p_payment_method text,
+  p_payment_id text,
+  p_amount numeric,
+  p_currency text,
+  p_details jsonb DEFAULT NULL,
+  p_idempotency_key uuid DEFAULT NULL,
+  p_note text DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_id uuid,
+  order_status text
+) AS $$
+DECLARE
+  v_order woolwitch.orders%ROWTYPE;
+  v_payment woolwitch.payments%ROWTYPE;
+  v_other_order_number text;
+  v_amount_due numeric;
+BEGIN
+  IF p_payment_method NOT IN ('card', 'paypal') THEN
+    RAISE EXCEPTION 'Invalid payment method: %', p_payment_method;
+  END IF;
+
+  IF NULLIF(btrim(p_payment_id), '') IS NULL THEN
+    RAISE EXCEPTION 'Payment id is required';
+  END IF;
+
+  -- Serialised with begin_payment_void: a payment is either refunded as
+  -- orderless or recorded against an order, never both
+  PERFORM pg_advisory_xact_lock(hashtextextended('payment:' || p_payment_method || ':' || p_payment_id, 0));
+
+  IF EXISTS (
+    SELECT 1 FROM woolwitch.payment_voids v
+    WHERE v.payment_method = p_payment_method
+      AND v.payment_id = p_payment_id
+      AND v.status IN ('pending', 'succeeded')
+  ) THEN
+    RAISE EXCEPTION 'This payment was refunded because its order could not be placed';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM woolwitch.orders o
+  WHERE o.id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- A key is only accepted from the checkout that created the order; admin
+  -- links carry none
+  IF p_idempotency_key IS NOT NULL AND p_idempotency_key IS DISTINCT FROM v_order.idempotency_key THEN
+    RAISE EXCEPTION 'Idempotency key does not belong to this order';
+  END IF;
+
+  v_amount_due := v_order.total - v_order.gift_card_total;
+
+  IF upper(p_currency) <> v_order.currency OR ABS(p_amount - v_amount_due) > 0.01 THEN
+    RAISE EXCEPTION 'Payment of % % does not match amount due %', p_amount, upper(p_currency), v_amount_due;
+  END IF;
+
+  -- A provider payment can only pay for one order
+  SELECT * INTO v_payment
+  FROM woolwitch.payments p
+  WHERE p.payment_method = p_payment_method
+    AND p.payment_id = p_payment_id
+  ORDER BY p.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF FOUND AND v_payment.order_id <> p_order_id THEN
+    SELECT o.order_number INTO v_other_order_number
+    FROM woolwitch.orders o
+    WHERE o.id = v_payment.order_id;
+
+    RAISE EXCEPTION 'Payment is already linked to order %', v_other_order_number;
+  END IF;
+
+  IF NOT FOUND AND p_idempotency_key IS NOT NULL THEN
+    SELECT * INTO v_payment
+    FROM woolwitch.payments p
+    WHERE p.idempotency_key = p_idempotency_key
+      AND p.order_id = p_order_id
+    FOR UPDATE;
+  END IF;
+
+  IF v_payment.id IS NULL THEN
+    INSERT INTO woolwitch.payments (
+      order_id,
+      payment_method,
+      payment_id,
+      status,
+      amount,
+      currency,
+      paypal_details,
+      stripe_details,
+      idempotency_key
+    ) VALUES (
+      p_order_id,
+      p_payment_method,
+      p_payment_id,
+      'completed',
+      v_amount_due,
+      v_order.currency,
+      CASE WHEN p_payment_method = 'paypal' THEN p_details END,
+      CASE WHEN p_payment_method = 'card' THEN p_details END,
+      p_idempotency_key
+    )
+    RETURNING * INTO v_payment;
+  ELSIF v_payment.status IN ('pending', 'failed') THEN
+    UPDATE woolwitch.payments p
+    SET
+      payment_id = p_payment_id,
+      status = 'completed',
+      paypal_details = CASE
+        WHEN p_payment_method = 'paypal' AND p_details IS NOT NULL
+        THEN COALESCE(p.paypal_details, '{}'::jsonb) || p_details
+        ELSE p.paypal_details
+      END,
+      stripe_details = CASE
+        WHEN p_payment_method = 'card' AND p_details IS NOT NULL
+        THEN COALESCE(p.stripe_details, '{}'::jsonb) || p_details
+        ELSE p.stripe_details
+      END,
+      updated_at = now()
+    WHERE p.id = v_payment.id
+    RETURNING * INTO v_payment;
+  END IF;
+
+  -- Move the order to paid (later states, and cancelled orders that now need
+  -- a refund, are left alone)
+  IF v_order.status = 'pending' THEN
+    PERFORM set_config('woolwitch.status_note', COALESCE(btrim(p_note), ''), true);
+
+    UPDATE woolwitch.orders o
+    SET status = 'paid',
+        updated_at = now()
+    WHERE o.id = p_order_id
+    RETURNING o.status INTO v_order.status;
+
+    PERFORM set_config('woolwitch.status_note', '', true);
+  END IF;
+
+  RETURN QUERY SELECT v_payment.id, v_order.status;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, woolwitch_api, auth, pg_catalog;
+
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) FROM PUBLIC, authenticated, anon;
+GRANT EXECUTE ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) TO service_role;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch_api.record_verified_payment(uuid, text, text, numeric, text, jsonb, uuid, text) IS 'Records a provider-verified payment of what is left after any gift card payment as completed and marks a pending order paid; refuses voided payments and idempotency keys from other orders (service role only)';
@@ -0,0 +1,314 @@
+-- Gift card discounts
+-- A discount code without product or category limits applied to every line,
+-- gift cards included, but issue_order_gift_cards issues each card at the
+-- full product price, so a 20% off code bought a £100 card for £80. Gift
+-- cards are paid for with money rather than sold as goods, so now:
+--   * discount_applies_to never applies a code to a gift card, whatever its
+--     limits; a code that only matches gift cards in the cart does not apply
+--     to anything in it (WWD01)
+--   * quote_order charges no tax on gift card lines; tax is charged when the
+--     card is spent
+-- The client mirrors both in discountCalculator.ts and orderService.ts.
+
+-- ========================================
+-- DISCOUNTS SKIP GIFT CARDS
+-- ========================================
+
+-- Whether a product is one a code applies to; never a gift card
+CREATE OR REPLACE FUNCTION woolwitch.discount_applies_to(
+  p_discount woolwitch.discount_codes,
+  p_product_id uuid,
+  p_category text
+)
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+      SELECT 1 FROM woolwitch.products WHERE id = p_product_id AND is_gift_card
+    )
+    AND (
+      (cardinality(p_discount.product_ids) = 0 AND cardinality(p_discount.categories) = 0)
+      OR p_product_id = ANY(p_discount.product_ids)
+      OR p_category = ANY(p_discount.categories)
+    );
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE quote_order - Untaxed gift cards
+-- ========================================
+
+CREATE OR REPLACE FUNCTION woolwitch_api.quote_order(
+  p_order_items jsonb,
+  p_address jsonb DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_discount_code text DEFAULT NULL,
+  p_gift_wrap boolean DEFAULT false
+)
+RETURNS TABLE (
+  subtotal numeric,
+  delivery_total numeric,
+  gift_wrap_total numeric,
+  discount_total numeric,
+  tax_total numeric,
+  total numeric,
+  prices_include_tax boolean,
+  currency text,
+  exchange_rate numeric,
+  discount_code text,
+  items jsonb
+) AS $$
+DECLARE
+  v_settings woolwitch.tax_settings%ROWTYPE;
+  v_gift_options woolwitch.gift_options%ROWTYPE;
+  v_country text := upper(COALESCE(NULLIF(btrim(p_address->>'country'), ''), 'GB'));
+  v_currency text;
+  v_rate numeric;
+  v_discount woolwitch.discount_codes%ROWTYPE;
+  v_item jsonb;
+  v_line jsonb;
+  v_index integer := 0;
+  v_product woolwitch.products%ROWTYPE;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_line_amount numeric;
+  v_eligible boolean;
+  v_line_discount numeric;
+  v_delivery numeric;
+  v_tax_rate numeric;
+  v_tax numeric;
+  v_base_subtotal numeric := 0;
+  v_eligible_subtotal numeric := 0;
+  v_last_eligible integer;
+  v_fixed_amount numeric := 0;
+  v_fixed_remaining numeric := 0;
+  v_base_delivery_total numeric;
+  v_delivery_discount numeric := 0;
+  v_subtotal numeric := 0;
+  v_delivery_total numeric;
+  v_gift_wrap_total numeric := 0;
+  v_discount_total numeric := 0;
+  v_tax_total numeric := 0;
+  v_lines jsonb := '[]'::jsonb;
+  v_items jsonb := '[]'::jsonb;
+  v_shipping_lines jsonb := '[]'::jsonb;
+BEGIN
+  IF p_order_items IS NULL OR jsonb_typeof(p_order_items) <> 'array' OR jsonb_array_length(p_order_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Commission pieces are only sold to the holder of an accepted quote
+  PERFORM woolwitch.verify_commission_items(p_order_items);
+
+  SELECT * INTO v_settings FROM woolwitch.tax_settings;
+  v_settings.prices_include_tax := COALESCE(v_settings.prices_include_tax, true);
+  v_settings.delivery_tax_class := COALESCE(v_settings.delivery_tax_class, 'standard');
+
+  -- Without a currency the order is priced in the base currency
+  SELECT upper(COALESCE(NULLIF(btrim(p_currency), ''), s.base_currency)) INTO v_currency
+  FROM woolwitch.currency_settings s;
+  v_currency := COALESCE(v_currency, 'GBP');
+  v_rate := woolwitch.exchange_rate_for(v_currency);
+
+  IF NULLIF(btrim(p_discount_code), '') IS NOT NULL THEN
+    v_discount := woolwitch.discount_code_for(p_discount_code);
+  END IF;
+
+  IF p_gift_wrap THEN
+    SELECT * INTO v_gift_options FROM woolwitch.gift_options;
+
+    IF NOT COALESCE(v_gift_options.gift_wrap_enabled, false) THEN
+      RAISE EXCEPTION 'Gift wrapping is not available';
+    END IF;
+  END IF;
+
+  -- Price each line in the base currency
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_order_items)
+  LOOP
+    SELECT * INTO v_product
+    FROM woolwitch.products
+    WHERE id = (v_item->>'product_id')::uuid;
+
+    IF v_product.id IS NULL THEN
+      RAISE EXCEPTION 'Product % not found', v_item->>'product_id';
+    END IF;
+
+    IF NOT v_product.is_available THEN
+      RAISE EXCEPTION 'Product % is not available', v_product.name;
+    END IF;
+
+    v_quantity := (v_item->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_product.name;
+    END IF;
+
+    v_unit_price := woolwitch.get_selection_price(v_product.custom_properties, v_item->'custom_selections', v_product.price);
+    IF v_unit_price < 0 THEN
+      RAISE EXCEPTION 'Invalid option price for %', v_product.name;
+    END IF;
+
+    v_unit_price := round(v_unit_price, 2);
+    v_eligible := v_discount.id IS NOT NULL
+      AND woolwitch.discount_applies_to(v_discount, v_product.id, v_product.category);
+
+    -- Only products without a shipping profile carry a per-item charge;
+    -- profile delivery is charged once for the order
+    v_delivery := CASE
+      WHEN v_product.shipping_profile_id IS NULL THEN round(COALESCE(v_product.delivery_charge, 0), 2)
+      ELSE 0
+    END;
+
+    v_base_subtotal := v_base_subtotal + v_unit_price * v_quantity;
+    IF v_eligible THEN
+      v_eligible_subtotal := v_eligible_subtotal + v_unit_price * v_quantity;
+      v_last_eligible := v_index;
+    END IF;
+    v_index := v_index + 1;
+
+    v_shipping_lines := v_shipping_lines || jsonb_build_array(jsonb_build_object(
+      'shipping_profile_id', v_product.shipping_profile_id,
+      'quantity', v_quantity,
+      'weight_grams', v_product.weight_grams,
+      'delivery_charge', v_product.delivery_charge
+    ));
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'product_id', v_product.id,
+      'product_name', v_product.name,
+      'unit_price', v_unit_price,
+      'delivery_charge', v_delivery,
+      'quantity', v_quantity,
+      'tax_class', v_product.tax_class,
+      'is_gift_card', v_product.is_gift_card,
+      'eligible', v_eligible,
+      'custom_selections', woolwitch.snapshot_custom_selections(v_product.custom_properties, v_item->'custom_selections', v_product.name)
+    ));
+  END LOOP;
+
+  IF v_discount.id IS NOT NULL THEN
+    IF v_discount.min_spend IS NOT NULL AND v_base_subtotal < v_discount.min_spend THEN
+      RAISE EXCEPTION 'Spend at least % to use discount code %', v_discount.min_spend, v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_last_eligible IS NULL THEN
+      RAISE EXCEPTION 'Discount code % does not apply to anything in your order', v_discount.code
+        USING ERRCODE = 'WWD01', HINT = 'invalid_discount';
+    END IF;
+
+    IF v_discount.discount_type = 'fixed' THEN
+      v_fixed_amount := LEAST(v_discount.value, v_eligible_subtotal);
+      v_fixed_remaining := v_fixed_amount;
+    END IF;
+  END IF;
+
+  -- Discount and tax each line, then convert it to the order currency
+  v_index := 0;
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_lines)
+  LOOP
+    v_unit_price := (v_line->>'unit_price')::numeric;
+    v_quantity := (v_line->>'quantity')::integer;
+    v_line_amount := v_unit_price * v_quantity;
+    v_line_discount := 0;
+
+    IF (v_line->>'eligible')::boolean THEN
+      IF v_discount.discount_type = 'percentage' THEN
+        v_line_discount := round(v_line_amount * v_discount.value / 100, 2);
+      ELSIF v_discount.discount_type = 'fixed' THEN
+        -- Shared in proportion to price; the last eligible line takes the
+        -- rounding remainder so the lines add up to the fixed amount
+        v_line_discount := CASE
+          WHEN v_index = v_last_eligible THEN v_fixed_remaining
+          ELSE round(v_fixed_amount * v_line_amount / v_eligible_subtotal, 2)
+        END;
+        v_fixed_remaining := v_fixed_remaining - v_line_discount;
+      END IF;
+    END IF;
+    v_index := v_index + 1;
+
+    -- Gift cards are taxed when they are spent, not when they are bought
+    v_tax_rate := CASE
+      WHEN (v_line->>'is_gift_card')::boolean THEN 0
+      ELSE woolwitch.tax_rate_for(v_country, v_line->>'tax_class')
+    END;
+    v_tax := woolwitch.tax_amount(v_line_amount - v_line_discount, v_tax_rate, v_settings.prices_include_tax);
+
+    v_unit_price := woolwitch.convert_amount(v_unit_price, v_rate);
+    v_line_discount := woolwitch.convert_amount(v_line_discount, v_rate);
+    v_tax := woolwitch.convert_amount(v_tax, v_rate);
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+    v_discount_total := v_discount_total + v_line_discount;
+    v_tax_total := v_tax_total + v_tax;
+
+    v_items := v_items || jsonb_build_array(jsonb_build_object(
+      'product_id', v_line->'product_id',
+      'product_name', v_line->'product_name',
+      'unit_price', v_unit_price,
+      'delivery_charge', woolwitch.convert_amount((v_line->>'delivery_charge')::numeric, v_rate),
+      'quantity', v_quantity,
+      'tax_rate', v_tax_rate,
+      'tax_amount', v_tax,
+      'discount_amount', v_line_discount,
+      'custom_selections', v_line->'custom_selections'
+    ));
+  END LOOP;
+
+  -- Free delivery thresholds are in the base currency, before discount
+  v_base_delivery_total := woolwitch.calculate_shipping(v_shipping_lines, v_base_subtotal, p_address);
+  v_delivery_total := woolwitch.convert_amount(v_base_delivery_total, v_rate);
+
+  IF v_discount.discount_type = 'free_delivery' THEN
+    v_delivery_discount := v_base_delivery_total;
+    v_discount_total := v_discount_total + v_delivery_total;
+  END IF;
+
+  -- Delivery is taxed once, at the delivery tax class
+  v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+    v_base_delivery_total - v_delivery_discount,
+    woolwitch.tax_rate_for(v_country, v_settings.delivery_tax_class),
+    v_settings.prices_include_tax
+  ), v_rate);
+
+  -- Gift wrapping is charged once, is not discounted and is taxed at its
+  -- own tax class
+  IF p_gift_wrap THEN
+    v_gift_wrap_total := woolwitch.convert_amount(v_gift_options.gift_wrap_charge, v_rate);
+    v_tax_total := v_tax_total + woolwitch.convert_amount(woolwitch.tax_amount(
+      v_gift_options.gift_wrap_charge,
+      woolwitch.tax_rate_for(v_country, v_gift_options.gift_wrap_tax_class),
+      v_settings.prices_include_tax
+    ), v_rate);
+  END IF;
+
+  RETURN QUERY SELECT
+    v_subtotal,
+    v_delivery_total,
+    v_gift_wrap_total,
+    v_discount_total,
+    v_tax_total,
+    v_subtotal + v_delivery_total + v_gift_wrap_total - v_discount_total
+      + CASE WHEN v_settings.prices_include_tax THEN 0 ELSE v_tax_total END,
+    v_settings.prices_include_tax,
+    v_currency,
+    v_rate,
+    v_discount.code,
+    v_items;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, woolwitch_api, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE ALL ON FUNCTION woolwitch.discount_applies_to(woolwitch.discount_codes, uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text, boolean) TO authenticated, anon, service_role;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.discount_applies_to(woolwitch.discount_codes, uuid, text) IS 'Whether a discount code applies to a product; never a gift card (mirrors discountCalculator.ts in the client)';
+COMMENT ON FUNCTION woolwitch_api.quote_order(jsonb, jsonb, text, text, boolean) IS 'Prices a cart from the product table, shipping profiles, tax rates, discount code and gift wrapping for the address, in the chosen currency, with gift cards neither discounted nor taxed - the single source of truth for order totals';
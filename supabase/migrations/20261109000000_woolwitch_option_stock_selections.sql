@@ -0,0 +1,164 @@
+-- Option stock for normalised selections
+-- reserve_order_stock counted option stock by each selection's value as
+-- sent, while create_order checks, prices and stores the trimmed value
+-- (woolwitch.selection_value). A padded value such as " Red" passed the
+-- option check but was not a tracked option, so it took no option stock.
+-- Repeating a dropdown in one line's selections also took stock for options
+-- the order did not store.
+--
+-- reserve_order_stock now takes option stock for the selections as
+-- snapshot_custom_selections stores them on the order item. The snapshot
+-- holds the trimmed value and one selection per property.
+-- release_order_stock already puts option stock back from that stored
+-- snapshot, so it releases exactly what was reserved. Orders placed before
+-- selection values were normalised stored the value as sent, which is the
+-- value they were reserved with, so they are released as before.
+
+-- ========================================
+-- OPTION STOCK HELPERS
+-- ========================================
+
+-- One row per selection in a set of order items, as the order item snapshot
+-- stores it; get_option_stock skips selections that are not tracked options
+CREATE OR REPLACE FUNCTION woolwitch.order_item_options(p_order_items jsonb)
+RETURNS TABLE (
+  product_id uuid,
+  product_name text,
+  property_id text,
+  option_value text,
+  quantity integer
+) AS $$
+  SELECT
+    p.id,
+    i->>'product_name',
+    s->>'propertyId',
+    s->>'value',
+    (i->>'quantity')::integer
+  FROM jsonb_array_elements(p_order_items) i
+  JOIN woolwitch.products p ON p.id = (i->>'product_id')::uuid
+  CROSS JOIN LATERAL jsonb_array_elements(COALESCE(
+    woolwitch.snapshot_custom_selections(p.custom_properties, i->'custom_selections', p.name),
+    '[]'::jsonb
+  )) s;
+$$ LANGUAGE sql
+   STABLE
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- UPDATE STOCK RESERVATION - Normalised option values
+-- ========================================
+
+-- Lock, check and decrement stock for a set of order items.
+-- Raises SQLSTATE WWS01 with a JSON array of shortages in DETAIL:
+--   [{ "product_id": "...", "product_name": "...", "option": "Colour: Blue", "requested": 2, "available": 1 }]
+-- "option" is only present for option shortages.
+CREATE OR REPLACE FUNCTION woolwitch.reserve_order_stock(p_order_items jsonb)
+RETURNS void AS $$
+DECLARE
+  v_line record;
+  v_stock integer;
+  v_shortages jsonb := '[]'::jsonb;
+BEGIN
+  -- Lock rows in a stable order so concurrent checkouts cannot deadlock
+  FOR v_line IN
+    SELECT
+      (i->>'product_id')::uuid AS product_id,
+      MIN(i->>'product_name') AS product_name,
+      SUM((i->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_order_items) i
+    GROUP BY (i->>'product_id')::uuid
+    ORDER BY (i->>'product_id')::uuid
+  LOOP
+    SELECT stock_quantity INTO v_stock
+    FROM woolwitch.products
+    WHERE id = v_line.product_id
+    FOR UPDATE;
+
+    IF v_stock IS NOT NULL AND v_stock < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_array(jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.product_name,
+        'requested', v_line.quantity,
+        'available', v_stock
+      ));
+    END IF;
+  END LOOP;
+
+  -- Option stock, per product, dropdown and chosen option (rows are locked above)
+  FOR v_line IN
+    SELECT
+      l.product_id,
+      MIN(l.product_name) AS product_name,
+      l.property_id,
+      l.option_value,
+      SUM(l.quantity) AS quantity,
+      woolwitch.get_option_stock(p.custom_properties, l.property_id, l.option_value) AS available,
+      (
+        SELECT prop->>'label'
+        FROM jsonb_array_elements(COALESCE(p.custom_properties->'properties', '[]'::jsonb)) prop
+        WHERE prop->>'id' = l.property_id
+        LIMIT 1
+      ) AS property_label
+    FROM woolwitch.order_item_options(p_order_items) l
+    JOIN woolwitch.products p ON p.id = l.product_id
+    GROUP BY l.product_id, l.property_id, l.option_value, p.custom_properties
+  LOOP
+    IF v_line.available IS NOT NULL AND v_line.available < v_line.quantity THEN
+      v_shortages := v_shortages || jsonb_build_array(jsonb_build_object(
+        'product_id', v_line.product_id,
+        'product_name', v_line.product_name,
+        'option', v_line.property_label || ': ' || v_line.option_value,
+        'requested', v_line.quantity,
+        'available', v_line.available
+      ));
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortages) > 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for % item(s)', jsonb_array_length(v_shortages)
+      USING ERRCODE = 'WWS01',
+            DETAIL = v_shortages::text,
+            HINT = 'insufficient_stock';
+  END IF;
+
+  UPDATE woolwitch.products p
+  SET stock_quantity = p.stock_quantity - l.quantity,
+      is_available = CASE WHEN p.stock_quantity - l.quantity = 0 THEN false ELSE p.is_available END,
+      sold_out_at = CASE WHEN p.stock_quantity - l.quantity = 0 THEN now() ELSE p.sold_out_at END
+  FROM (
+    SELECT (i->>'product_id')::uuid AS product_id, SUM((i->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_order_items) i
+    GROUP BY (i->>'product_id')::uuid
+  ) l
+  WHERE p.id = l.product_id
+    AND p.stock_quantity IS NOT NULL;
+
+  FOR v_line IN
+    SELECT l.product_id, l.property_id, l.option_value, SUM(l.quantity) AS quantity
+    FROM woolwitch.order_item_options(p_order_items) l
+    GROUP BY l.product_id, l.property_id, l.option_value
+  LOOP
+    UPDATE woolwitch.products
+    SET custom_properties = woolwitch.adjust_option_stock(custom_properties, v_line.property_id, v_line.option_value, -v_line.quantity)
+    WHERE id = v_line.product_id
+    AND woolwitch.get_option_stock(custom_properties, v_line.property_id, v_line.option_value) IS NOT NULL;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+   SET search_path = woolwitch, pg_catalog;
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE EXECUTE ON FUNCTION woolwitch.order_item_options(jsonb) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION woolwitch.reserve_order_stock(jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION woolwitch.reserve_order_stock(jsonb) TO service_role;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.order_item_options(jsonb) IS 'Selections of a set of order items with their trimmed values, one per property, as the order item snapshot stores them';
+COMMENT ON FUNCTION woolwitch.reserve_order_stock(jsonb) IS 'Locks products, raises WWS01 (insufficient_stock) on product or option shortages and decrements tracked stock, taking option stock for the selections stored on the order';
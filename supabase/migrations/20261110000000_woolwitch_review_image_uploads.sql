@@ -0,0 +1,166 @@
+-- Review image uploads
+-- Any signed-in user could upload any number of files to the public
+-- review-images bucket, whether or not they could review anything. Now:
+--   * photos are uploaded under a folder named for the uploader's user id
+--     (<user id>/<uuid>.jpg)
+--   * only customers with a delivered order can upload, up to 20 photos a
+--     day
+--   * submit_product_review only attaches photos from the customer's own
+--     folder, or photos already on their review (uploaded before folders)
+
+-- ========================================
+-- REVIEW IMAGE UPLOADS
+-- ========================================
+
+-- Whether the signed-in customer can upload another review photo: they have
+-- a delivered order to review and are under the daily limit
+CREATE OR REPLACE FUNCTION woolwitch.can_upload_review_image()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+      SELECT 1 FROM woolwitch.orders o
+      WHERE o.user_id = auth.uid()
+      AND o.status = 'delivered'
+    )
+    AND (
+      SELECT count(*) FROM storage.objects s
+      WHERE s.bucket_id = 'review-images'
+      AND (storage.foldername(s.name))[1] = auth.uid()::text
+      AND s.created_at > now() - interval '1 day'
+    ) < 20;
+$$ LANGUAGE sql
+   SECURITY DEFINER
+   STABLE
+   SET search_path = woolwitch, storage, auth, pg_catalog;
+
+DROP POLICY IF EXISTS "Upload review images" ON storage.objects;
+CREATE POLICY "Upload review images" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'review-images'
+    AND name ~ '^[0-9a-f-]{36}/[0-9a-f-]{36}\.(jpe?g|png|webp|gif)$'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+    AND woolwitch.can_upload_review_image()
+  );
+
+-- ========================================
+-- UPDATE submit_product_review - Own photos only
+-- ========================================
+
+-- Photos must already be uploaded to the customer's folder in the
+-- review-images bucket. Reviewing a product again replaces the review and
+-- sends it back for moderation.
+CREATE OR REPLACE FUNCTION woolwitch_api.submit_product_review(
+  p_product_id uuid,
+  p_rating integer,
+  p_body text,
+  p_images text[] DEFAULT '{}'
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_images text[] := COALESCE(p_images, '{}');
+  v_order record;
+  v_review_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to review products';
+  END IF;
+
+  SELECT o.id, o.full_name INTO v_order
+  FROM woolwitch.orders o
+  JOIN woolwitch.order_items oi ON oi.order_id = o.id
+  WHERE o.user_id = v_user_id
+  AND o.status = 'delivered'
+  AND oi.product_id = p_product_id
+  ORDER BY o.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You can review products once your order has been delivered';
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RAISE EXCEPTION 'Choose a rating from 1 to 5 stars';
+  END IF;
+
+  IF char_length(btrim(COALESCE(p_body, ''))) NOT BETWEEN 10 AND 2000 THEN
+    RAISE EXCEPTION 'Reviews must be between 10 and 2000 characters';
+  END IF;
+
+  IF cardinality(v_images) > 3 THEN
+    RAISE EXCEPTION 'You can add up to 3 photos';
+  END IF;
+
+  -- Only the customer's own photos: ones in their folder, or ones already on
+  -- their review from before photos went in folders
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_images) AS i(path)
+    WHERE i.path NOT LIKE v_user_id::text || '/%'
+    AND NOT EXISTS (
+      SELECT 1 FROM woolwitch.product_reviews r
+      WHERE r.product_id = p_product_id
+      AND r.user_id = v_user_id
+      AND i.path = ANY(r.images)
+    )
+  ) THEN
+    RAISE EXCEPTION 'You can only add your own photos';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(v_images) AS i(path)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM storage.objects o
+      WHERE o.bucket_id = 'review-images'
+      AND o.name = i.path
+    )
+  ) THEN
+    RAISE EXCEPTION 'A photo failed to upload. Please add it again.';
+  END IF;
+
+  INSERT INTO woolwitch.product_reviews (
+    product_id,
+    user_id,
+    order_id,
+    reviewer_name,
+    rating,
+    body,
+    images
+  ) VALUES (
+    p_product_id,
+    v_user_id,
+    v_order.id,
+    woolwitch.review_display_name(v_order.full_name),
+    p_rating,
+    btrim(p_body),
+    v_images
+  )
+  ON CONFLICT (product_id, user_id) DO UPDATE
+  SET order_id = EXCLUDED.order_id,
+      reviewer_name = EXCLUDED.reviewer_name,
+      rating = EXCLUDED.rating,
+      body = EXCLUDED.body,
+      images = EXCLUDED.images,
+      status = 'pending',
+      moderated_at = NULL,
+      moderated_by = NULL
+  RETURNING product_reviews.id INTO v_review_id;
+
+  RETURN v_review_id;
+END;
+$$ LANGUAGE plpgsql
+   SECURITY DEFINER
+
+-- ========================================
+-- PERMISSIONS
+-- ========================================
+
+REVOKE ALL ON FUNCTION woolwitch.can_upload_review_image() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION woolwitch.can_upload_review_image() TO authenticated;
+GRANT EXECUTE ON FUNCTION woolwitch_api.submit_product_review(uuid, integer, text, text[]) TO authenticated;
+
+-- ========================================
+-- DOCUMENTATION
+-- ========================================
+
+COMMENT ON FUNCTION woolwitch.can_upload_review_image() IS 'Whether the signed-in customer has a delivered order and has uploaded fewer than 20 review photos in the last day';
+COMMENT ON FUNCTION woolwitch_api.submit_product_review(uuid, integer, text, text[]) IS 'Write or replace the signed-in customer''s review of a product they have received, with photos from their own upload folder; it waits for moderation';
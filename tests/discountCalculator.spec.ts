@@ -0,0 +1,53 @@
+import { test, expect } from '@playwright/test';
+import { calculateDiscount, getDiscountProblem, type DiscountableLine } from '../src/lib/discountCalculator';
+import type { DiscountCode } from '../src/types/database';
+
+/**
+ * Tests for the discount calculator
+ * Gift cards are issued at their full price, so no discount code may take
+ * anything off them. woolwitch.discount_applies_to follows the same rules.
+ */
+
+const code = (overrides: Partial<DiscountCode> = {}): DiscountCode => ({
+  code: 'SAVE20',
+  description: null,
+  discount_type: 'percentage',
+  value: 20,
+  min_spend: null,
+  product_ids: [],
+  categories: [],
+  expires_at: null,
+  ...overrides
+});
+
+const scarf: DiscountableLine = { amount: 50, productId: 'scarf', category: 'Scarves', isGiftCard: false };
+const giftCard: DiscountableLine = { amount: 100, productId: 'gift-card', category: 'Gift Cards', isGiftCard: true };
+
+test.describe('Discount Calculator', () => {
+  test('a percentage code leaves a gift card at its full value', () => {
+    const breakdown = calculateDiscount(code(), [scarf, giftCard], 0);
+
+    expect(breakdown.lineDiscounts).toEqual([10, 0]);
+    expect(breakdown.discountTotal).toBe(10);
+    // The customer pays the card's full value for the card
+    expect(giftCard.amount - breakdown.lineDiscounts[1]).toBe(100);
+  });
+
+  test('a fixed code is shared only between lines that are not gift cards', () => {
+    const breakdown = calculateDiscount(code({ discount_type: 'fixed', value: 15 }), [scarf, giftCard], 0);
+
+    expect(breakdown.lineDiscounts).toEqual([15, 0]);
+    expect(breakdown.discountTotal).toBe(15);
+  });
+
+  test('a code limited to gift cards does not apply to them', () => {
+    const discount = code({ product_ids: ['gift-card'], categories: ['Gift Cards'] });
+
+    expect(getDiscountProblem(discount, [scarf, giftCard])).toBe('SAVE20 does not apply to anything in your cart');
+    expect(calculateDiscount(discount, [scarf, giftCard], 0).discountTotal).toBe(0);
+  });
+
+  test('a code on a cart of only gift cards does not apply', () => {
+    expect(getDiscountProblem(code(), [giftCard])).toBe('SAVE20 does not apply to anything in your cart');
+  });
+});